@@ -18,6 +18,7 @@ import { CognitivePrivacyScreen } from './src/screens/Profile/CognitivePrivacySc
 import { MemoryPalaceScreen } from './src/screens/Learning Tools/MemoryPalaceScreen';
 import { NeuralMindMapScreen } from './src/screens/Focus & Productivity/NeuralMindMapScreen';
 import { LogicTrainerScreen } from './src/screens/Learning Tools/LogicTrainerScreen';
+import { DailyReviewScreen } from './src/screens/Learning Tools/DailyReviewScreen';
 import { AdaptiveFocusScreen } from './src/screens/Focus & Productivity/AdaptiveFocusScreen';
 import { AuthScreen } from './src/screens/Profile/AuthScreen';
 // Navigation components
@@ -49,6 +50,7 @@ import { CognitiveProvider } from './src/contexts/CognitiveProvider';
 // Services
 import SupabaseService from './src/services/storage/SupabaseService';
 import { neuralIntegrationService } from './src/services/learning/NeuralIntegrationService';
+import { FocusDayPlannerService } from './src/services/learning/FocusDayPlannerService';
 import EngineService from './src/services/EngineService';
 
 // Cognitive Aura Engine Integration
@@ -199,6 +201,9 @@ export default function App() {
     return () => backHandler.remove();
   }, [navigationStack]);
 
+  // Keep today's focus plan in step with focus sessions
+  useEffect(() => FocusDayPlannerService.getInstance().startAutoReplan(), []);
+
   // Cleanup services on app unmount
   useEffect(() => {
     return () => {
@@ -390,6 +395,8 @@ export default function App() {
         );
       case 'logic-trainer':
         return <LogicTrainerScreen theme={theme} onNavigate={handleNavigate} />;
+      case 'daily-review':
+        return <DailyReviewScreen theme={theme} onNavigate={handleNavigate} />;
       case 'adaptive-focus':
         return (
           <AdaptiveFocusScreen theme={theme} onNavigate={handleNavigate} />
@@ -531,6 +538,8 @@ export default function App() {
 
     'logic-trainer',
 
+    'daily-review',
+
     'neural-mind-map',
 
     'focus',
@@ -4,7 +4,6 @@ module.exports = {
   testEnvironment: 'jsdom',
   moduleNameMapper: {
     '^react-native-audio-api$': '<rootDir>/__mocks__/react-native-audio-api.ts',
-    '^react-native$': '<rootDir>/__mocks__/react-native.js',
     '^expo-linear-gradient$': '<rootDir>/__mocks__/expo-linear-gradient.js',
     '\\.(mp3|wav)$': '<rootDir>/__mocks__/fileMock.js',
   },
@@ -28,6 +27,7 @@ module.exports = {
   setupFiles: ['<rootDir>/jest.setup.js'],
   testMatch: [
     '<rootDir>/src/**/__tests__/**/*.(ts|tsx|js|jsx)',
+    '<rootDir>/src/**/*.test.(ts|tsx)',
     '<rootDir>/__tests__/**/*.(ts|tsx|js|jsx)',
   ],
   collectCoverageFrom: ['src/**/*.(ts|tsx)', '!src/**/*.d.ts'],
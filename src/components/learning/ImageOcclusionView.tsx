@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Image,
+  Pressable,
+  StyleSheet,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from 'react-native';
+import { OcclusionRegion } from '../../types';
+
+interface ImageOcclusionViewProps {
+  imageUri: string;
+  regions: OcclusionRegion[];
+  // Study mode: the region being asked about; omitted in edit mode
+  targetRegionId?: string;
+  revealed?: boolean;
+  maskColor?: string;
+  highlightColor?: string;
+  aspectRatio?: number;
+  // Edit mode: tap empty image to add a region, tap a region to remove it
+  onAddRegion?: (centerX: number, centerY: number) => void;
+  onRemoveRegion?: (regionId: string) => void;
+}
+
+/**
+ * Renders an image with masked regions. Region coordinates are fractions of
+ * the rendered image size so they survive different screen widths.
+ */
+export const ImageOcclusionView: React.FC<ImageOcclusionViewProps> = ({
+  imageUri,
+  regions,
+  targetRegionId,
+  revealed = false,
+  maskColor = '#F59E0B',
+  highlightColor = '#EF4444',
+  aspectRatio = 4 / 3,
+  onAddRegion,
+  onRemoveRegion,
+}) => {
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const editable = !!onAddRegion;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const handlePress = (event: GestureResponderEvent) => {
+    if (!onAddRegion || size.width === 0 || size.height === 0) return;
+    const { locationX, locationY } = event.nativeEvent;
+    onAddRegion(locationX / size.width, locationY / size.height);
+  };
+
+  return (
+    <Pressable
+      onPress={handlePress}
+      disabled={!editable}
+      onLayout={handleLayout}
+      style={[styles.container, { aspectRatio }]}
+    >
+      <Image source={{ uri: imageUri }} style={styles.image} resizeMode="stretch" />
+      {regions.map((region) => {
+        const isTarget = region.id === targetRegionId;
+        // The asked-about region is uncovered on reveal; other regions stay masked
+        if (revealed && isTarget) {
+          return (
+            <View
+              key={region.id}
+              pointerEvents="none"
+              style={[
+                styles.region,
+                regionFrame(region),
+                styles.revealedRegion,
+                { borderColor: highlightColor },
+              ]}
+            />
+          );
+        }
+        return (
+          <Pressable
+            key={region.id}
+            disabled={!onRemoveRegion}
+            onPress={() => onRemoveRegion?.(region.id)}
+            style={[
+              styles.region,
+              regionFrame(region),
+              { backgroundColor: isTarget ? highlightColor : maskColor },
+            ]}
+          />
+        );
+      })}
+    </Pressable>
+  );
+};
+
+const regionFrame = (region: OcclusionRegion) => ({
+  left: `${region.x * 100}%` as const,
+  top: `${region.y * 100}%` as const,
+  width: `${region.width * 100}%` as const,
+  height: `${region.height * 100}%` as const,
+});
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  image: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  region: {
+    position: 'absolute',
+    borderRadius: 4,
+  },
+  revealedRegion: {
+    borderWidth: 2,
+    backgroundColor: 'transparent',
+  },
+});
+
+export default ImageOcclusionView;
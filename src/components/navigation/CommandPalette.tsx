@@ -120,6 +120,16 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
         cognitiveLoad: 0.7,
         action: () => onNavigate('logic-trainer'),
       },
+      {
+        id: 'nav_daily_review',
+        title: 'Daily Review',
+        description: 'Everything due today in one interleaved session',
+        icon: '🔁',
+        category: 'navigation' as const,
+        keywords: ['daily', 'review', 'due', 'spaced', 'repetition'],
+        cognitiveLoad: 0.5,
+        action: () => onNavigate('daily-review'),
+      },
       {
         id: 'nav_memory_palace',
         title: 'Memory Palace',
@@ -324,6 +324,15 @@ const menuItems: MenuItem[] = [
     cognitiveLoad: 0.7,
     usageFrequency: 3,
   },
+  {
+    id: 'daily-review',
+    title: 'Daily Review',
+    icon: '🔁',
+    screen: 'daily-review',
+    description: 'Interleaved Review Across All Modules',
+    cognitiveLoad: 0.5,
+    usageFrequency: 4,
+  },
   {
     id: 'ai-assistant',
     title: 'AI Assistant',
@@ -401,6 +401,7 @@ export const EVENT_TYPES = {
   LEARNING_PROGRESS_UPDATED: 'learning:progress:updated',
   FLASHCARD_REVIEWED: 'learning:flashcard:reviewed',
   KNOWLEDGE_MASTERED: 'learning:knowledge:mastered',
+  LEARNING_DATA_CHANGED: 'learning:data:changed',
 
   // Focus Events
   FOCUS_SESSION_STARTED: 'focus:session:started',
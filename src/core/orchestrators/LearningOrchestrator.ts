@@ -15,6 +15,7 @@ import { CommandContext, CommandResult } from '../NeuroLearnEngine';
 
 // Learning Services
 import SpacedRepetitionCompat from '../../services/learning/SpacedRepetitionCompat';
+import FSRSOptimizer from '../../services/learning/FSRSOptimizer';
 import { MindMapGenerator } from '../../services/learning/MindMapGeneratorService';
 import FocusTimerCompat from '../../services/learning/FocusTimerCompat';
 import CognitiveAuraCompat from '../../services/integrations/cognitive/CognitiveAuraCompat';
@@ -125,6 +126,13 @@ export class LearningOrchestrator {
       // Load historical metrics
       await this.loadMetrics();
 
+      // Swap in personalized FSRS weights if the user has trained them
+      try {
+        await FSRSOptimizer.getInstance().loadPersonalizedWeights();
+      } catch (error) {
+        this.logger.warn('Personalized FSRS weights unavailable', error);
+      }
+
       this.isInitialized = true;
       this.logger.info('Learning Orchestrator initialized successfully');
 
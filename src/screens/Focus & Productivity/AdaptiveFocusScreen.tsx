@@ -11,6 +11,7 @@ import {
   Dimensions,
   ScrollView,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import {
   AppHeader,
@@ -40,7 +41,19 @@ import {
   FocusTimerService,
   DistractionLogOptions,
   ActiveSession,
+  SessionEndOptions,
 } from '../../services/learning/FocusTimerService';
+import {
+  FocusPhaseKind,
+  FocusProtocol,
+  FocusProtocolValidationError,
+  getProtocolPlannedMinutes,
+} from '../../services/learning/FocusProtocols';
+import {
+  DistractionPatternService,
+  DistractionCountermeasure,
+  DistractionRiskForecast,
+} from '../../services/learning/DistractionPatternService';
 import { Task } from '../../types';
 import { useFocus } from '../../contexts/FocusContext';
 import { perf } from '../../utils/perfMarks';
@@ -67,6 +80,42 @@ interface AdaptiveTimerConfig {
   recommended: boolean; // Is this the AI-recommended duration?
 }
 
+const PHASE_LABELS: Record<FocusPhaseKind, string> = {
+  work: 'FOCUSING',
+  short_break: 'SHORT BREAK',
+  long_break: 'LONG BREAK',
+};
+
+// Starting point for a new custom protocol
+const CUSTOM_PROTOCOL_TEMPLATE = JSON.stringify(
+  {
+    name: 'Deep Work',
+    description: '90 min work, 20 min break',
+    cycle: [
+      { kind: 'work', minutes: 90 },
+      { kind: 'short_break', minutes: 20 },
+    ],
+    cycles: 2,
+  },
+  null,
+  2,
+);
+
+const describeCountermeasure = (
+  countermeasure: DistractionCountermeasure,
+): string => {
+  switch (countermeasure.kind) {
+    case 'shorter_block':
+      return `Try a ${countermeasure.minutes}-minute block`;
+    case 'different_hour':
+      return `Schedule it around ${countermeasure.hour}:00`;
+    case 'soundscape':
+      return `Play the ${countermeasure.preset.replace(/_/g, ' ')} soundscape`;
+    case 'take_break':
+      return `Take a ${countermeasure.minutes}-minute break first`;
+  }
+};
+
 interface FocusTarget {
   id: string;
   title: string;
@@ -100,6 +149,7 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
   const todoistService = TodoistService.getInstance();
   const mindMapGenerator = MindMapGenerator.getInstance();
   const focusTimerService = FocusTimerService.getInstance();
+  const distractionPatternService = DistractionPatternService.getInstance();
 
   // Physics engine for focus lock (singleton)
   const physicsEngine = useRef(NeuralPhysicsEngine.getInstance()).current;
@@ -125,6 +175,7 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
   const [distractionTriggerType, setDistractionTriggerType] = useState<
     'internal' | 'external' | 'notification' | 'unknown'
   >('external');
+  const [distractionAppName, setDistractionAppName] = useState('');
 
   // Focus selection state
   const [focusTargets, setFocusTargets] = useState<FocusTarget[]>([]);
@@ -148,18 +199,144 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
   const [sessionAnalytics, setSessionAnalytics] = useState<any>(null);
   const [timeRemaining, setTimeRemaining] = useState(0);
 
+  // Focus protocols (null = single block of adaptiveConfig.duration)
+  const [protocols, setProtocols] = useState<FocusProtocol[]>([]);
+  const [selectedProtocol, setSelectedProtocol] =
+    useState<FocusProtocol | null>(null);
+
+  const currentPhase = activeSession?.protocol?.currentPhase;
+
+  // Custom protocol editor (JSON)
+  const [showProtocolEditor, setShowProtocolEditor] = useState(false);
+  const [protocolJson, setProtocolJson] = useState(CUSTOM_PROTOCOL_TEMPLATE);
+
+  // Distraction risk of the session being set up
+  const [riskForecast, setRiskForecast] =
+    useState<DistractionRiskForecast | null>(null);
+
   /**
-   * Compute time remaining from active session
+   * Length of what the timer is counting down: the current phase for
+   * protocol sessions, otherwise the whole session
+   */
+  const getTimerTotalSeconds = useCallback((): number => {
+    if (!activeSession) return 0;
+    const phase = activeSession.protocol?.currentPhase;
+    return (phase ? phase.plannedMinutes : activeSession.plannedDurationMinutes) * 60;
+  }, [activeSession]);
+
+  /**
+   * Compute time remaining from active session. Open-ended phases have no
+   * end, so for them this is the time elapsed instead.
    */
   const getTimeRemaining = useCallback((): number => {
     if (!activeSession) return 0;
+    const phase = activeSession.protocol?.currentPhase;
     const now = new Date();
-    const elapsedMs = now.getTime() - activeSession.startTime.getTime();
+    const elapsedMs =
+      now.getTime() - (phase ? phase.startTime : activeSession.startTime).getTime();
     const elapsedSeconds = elapsedMs / 1000;
-    const totalSeconds = activeSession.plannedDurationMinutes * 60;
-    const remaining = totalSeconds - elapsedSeconds;
+    if (phase?.openEnded) return elapsedSeconds;
+    const remaining = getTimerTotalSeconds() - elapsedSeconds;
     return Math.max(0, remaining);
-  }, [activeSession]);
+  }, [activeSession, getTimerTotalSeconds]);
+
+  useEffect(() => {
+    if (activeSession) return;
+    let cancelled = false;
+
+    // A protocol is judged by its work blocks, not its total length
+    const blockMinutes =
+      selectedProtocol?.cycle.find((phase) => phase.kind === 'work')?.minutes ??
+      adaptiveConfig.duration;
+
+    distractionPatternService
+      .forecastRisk({
+        plannedDurationMinutes: blockMinutes,
+        // Same id the session is stored under
+        ...(selectedTarget ? { taskId: selectedTarget.taskId || selectedTarget.id } : {}),
+      })
+      .then((forecast) => {
+        if (!cancelled) setRiskForecast(forecast);
+      })
+      .catch((error) => console.error('Error forecasting distraction risk:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    activeSession,
+    selectedProtocol,
+    selectedTarget,
+    adaptiveConfig.duration,
+    distractionPatternService,
+  ]);
+
+  /**
+   * Act on a countermeasure where the screen can (block length); the rest
+   * are advice
+   */
+  const applyCountermeasure = useCallback(
+    (countermeasure: DistractionCountermeasure) => {
+      if (countermeasure.kind !== 'shorter_block') return;
+      setSelectedProtocol(null);
+      setAdaptiveConfig((config) => ({
+        ...config,
+        duration: countermeasure.minutes,
+        reasoning: countermeasure.reason,
+        recommended: false,
+      }));
+    },
+    [],
+  );
+
+  useEffect(() => {
+    focusTimerService
+      .getFocusProtocols()
+      .then(setProtocols)
+      .catch((error) => console.error('Error loading focus protocols:', error));
+  }, [focusTimerService]);
+
+  /**
+   * Validate and store the protocol in the editor, then select it
+   */
+  const handleSaveProtocol = useCallback(async () => {
+    try {
+      const protocol = await focusTimerService.saveCustomProtocol(protocolJson);
+      setProtocols(await focusTimerService.getFocusProtocols());
+      setSelectedProtocol(protocol);
+      setShowProtocolEditor(false);
+    } catch (error) {
+      if (error instanceof FocusProtocolValidationError) {
+        Alert.alert('Invalid Protocol', error.message);
+        return;
+      }
+      console.error('Error saving focus protocol:', error);
+      Alert.alert('Error', 'Failed to save the protocol');
+    }
+  }, [focusTimerService, protocolJson]);
+
+  const handleDeleteProtocol = useCallback(
+    (protocol: FocusProtocol) => {
+      Alert.alert('Delete Protocol', `Delete "${protocol.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await focusTimerService.deleteCustomProtocol(protocol.id);
+              setProtocols(await focusTimerService.getFocusProtocols());
+              setSelectedProtocol((selected) => (selected?.id === protocol.id ? null : selected));
+            } catch (error) {
+              console.error('Error deleting focus protocol:', error);
+              Alert.alert('Error', 'Failed to delete the protocol');
+            }
+          },
+        },
+      ]);
+    },
+    [focusTimerService],
+  );
 
   // Subscribe to session changes
   useEffect(() => {
@@ -167,6 +344,67 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
     return unsubscribe;
   }, [focusTimerService]);
 
+  // Offer to recover a session cut off by the app being killed or reloaded
+  useEffect(() => {
+    let cancelled = false;
+
+    const checkOrphanedSession = async () => {
+      const orphan = await focusTimerService.getOrphanedSession();
+      if (!orphan || cancelled) return;
+
+      const { session, elapsedMinutes, remainingMinutes, endedAt } = orphan;
+      const status = endedAt
+        ? `Its ${session.plannedDurationMinutes} min ran out while the app was closed. How did it go?`
+        : `${remainingMinutes} min of your ${session.plannedDurationMinutes} min session are left.`;
+
+      const recover = async (endOptions?: SessionEndOptions) => {
+        try {
+          const recovered = await focusTimerService.recoverOrphanedSession(endOptions);
+          if (recovered?.status === 'completed') {
+            Alert.alert('Session Saved', 'The interrupted session was recorded.');
+          }
+        } catch (error) {
+          console.error('Error recovering focus session:', error);
+          Alert.alert('Error', 'Failed to recover focus session');
+        }
+      };
+
+      Alert.alert(
+        'Unfinished Focus Session',
+        `A session started ${elapsedMinutes} min ago was interrupted. ${status}`,
+        [
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () => focusTimerService.discardOrphanedSession(),
+          },
+          ...(endedAt
+            ? [
+                {
+                  text: 'Got Distracted',
+                  onPress: () =>
+                    recover({
+                      selfReportFocus: 2,
+                      completionRate: 0.5,
+                      distractionReason: 'Session interrupted',
+                    }),
+                },
+                {
+                  text: 'Stayed Focused',
+                  onPress: () => recover({ selfReportFocus: 4, completionRate: 1.0 }),
+                },
+              ]
+            : [{ text: 'Resume', onPress: () => recover() }]),
+        ],
+      );
+    };
+
+    checkOrphanedSession();
+    return () => {
+      cancelled = true;
+    };
+  }, [focusTimerService]);
+
   // Update time remaining every second during active session
   useEffect(() => {
     if (!activeSession) {
@@ -495,11 +733,12 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
       }
 
       // Start session using FocusTimerService
-      await focusTimerService.startSession(
+      const session = await focusTimerService.startSession(
         selectedTarget.taskId || selectedTarget.id,
         selectedTarget.neuralNodeId,
         adaptiveConfig.duration,
         adaptiveConfig.cognitiveLoad,
+        selectedProtocol ?? undefined,
       );
 
       // Start global focus session
@@ -519,19 +758,27 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
       }
 
       console.log(
-        `⏰ Focus session started: ${adaptiveConfig.duration} minutes for "${selectedTarget.title}"`,
+        `⏰ Focus session started: ${session.plannedDurationMinutes} minutes for "${selectedTarget.title}"`,
       );
 
       Alert.alert(
         'Focus Session Started',
-        `${adaptiveConfig.duration}-minute session for:\n"${selectedTarget.title}"\n\n${adaptiveConfig.reasoning}`,
+        selectedProtocol
+          ? `${selectedProtocol.name} (about ${session.plannedDurationMinutes} min) for:\n"${selectedTarget.title}"\n\n${selectedProtocol.description ?? ''}`
+          : `${adaptiveConfig.duration}-minute session for:\n"${selectedTarget.title}"\n\n${adaptiveConfig.reasoning}`,
         [{ text: 'Focus!' }],
       );
     } catch (error) {
       console.error('Error starting focus session:', error);
       Alert.alert('Error', 'Failed to start focus session');
     }
-  }, [selectedTarget, adaptiveConfig, focusTimerService, startGlobalFocus]);
+  }, [
+    selectedTarget,
+    adaptiveConfig,
+    selectedProtocol,
+    focusTimerService,
+    startGlobalFocus,
+  ]);
 
   /**
    * Complete the current focus session
@@ -585,15 +832,19 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
    */
   const handleLogDistraction = useCallback(async () => {
     try {
-      await focusTimerService.logDistraction({
+      const event = await focusTimerService.logDistraction({
         reason: distractionReason,
         severity: distractionSeverity,
         triggerType: distractionTriggerType,
+        ...(distractionAppName.trim() ? { appName: distractionAppName } : {}),
       });
       setShowDistractionModal(false);
+      setDistractionAppName('');
       Alert.alert(
-        'Distraction Logged',
-        'Distraction has been recorded and neural penalty applied.',
+        event ? 'Distraction Logged' : 'On a Break',
+        event
+          ? 'Distraction has been recorded and neural penalty applied.'
+          : 'Time away during a break is not counted as a distraction.',
       );
     } catch (error) {
       console.error('Error logging distraction:', error);
@@ -603,9 +854,25 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
     distractionReason,
     distractionSeverity,
     distractionTriggerType,
+    distractionAppName,
     focusTimerService,
   ]);
 
+  /**
+   * End the current protocol phase and move on to the next
+   */
+  const advancePhase = useCallback(async () => {
+    try {
+      await focusTimerService.advancePhase();
+      if (Platform.OS !== 'web') {
+        Vibration.vibrate([0, 100]);
+      }
+    } catch (error) {
+      console.error('Error advancing focus phase:', error);
+      Alert.alert('Error', 'Failed to move to the next phase');
+    }
+  }, [focusTimerService]);
+
   /**
    * Stop session early
    */
@@ -639,14 +906,15 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
   const getTimeColor = useCallback(
     (timeRemaining: number): string => {
       if (!activeSession) return themeColors.warning;
-      const totalTime = activeSession.plannedDurationMinutes * 60;
+      if (activeSession.protocol?.currentPhase.openEnded) return themeColors.primary;
+      const totalTime = getTimerTotalSeconds();
       const percentage = timeRemaining / totalTime;
 
       if (percentage > 0.7) return themeColors.success;
       if (percentage > 0.3) return themeColors.warning;
       return themeColors.error;
     },
-    [activeSession, themeColors],
+    [activeSession, themeColors, getTimerTotalSeconds],
   );
 
   // Loading state
@@ -730,8 +998,20 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
                     { color: themeColors.textSecondary },
                   ]}
                 >
-                  FOCUSING
+                  {currentPhase ? PHASE_LABELS[currentPhase.kind] : 'FOCUSING'}
                 </Text>
+                {currentPhase && activeSession.protocol && (
+                  <Text
+                    style={[
+                      styles.phaseProgress,
+                      { color: themeColors.textSecondary },
+                    ]}
+                  >
+                    {activeSession.protocol.protocol.name} • Cycle{' '}
+                    {currentPhase.cycle}/{activeSession.protocol.protocol.cycles}
+                    {currentPhase.openEnded ? ' • tap ⏭️ when done' : ''}
+                  </Text>
+                )}
               </View>
 
               {/* Progress Ring Visual */}
@@ -754,8 +1034,10 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
                           {
                             rotate: `${
                               (1 -
-                                getTimeRemaining() /
-                                  (activeSession.plannedDurationMinutes * 60)) *
+                                Math.min(
+                                  1,
+                                  getTimeRemaining() / getTimerTotalSeconds(),
+                                )) *
                               360
                             }deg`,
                           },
@@ -772,8 +1054,7 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
                       ]}
                     >
                       {Math.round(
-                        (getTimeRemaining() /
-                          (activeSession.plannedDurationMinutes * 60)) *
+                        Math.min(1, getTimeRemaining() / getTimerTotalSeconds()) *
                           100,
                       )}
                       %
@@ -801,6 +1082,25 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
                   </Text>
                 </TouchableOpacity>
 
+                {currentPhase && (
+                  <TouchableOpacity
+                    onPress={advancePhase}
+                    style={[
+                      styles.controlButton,
+                      { borderColor: themeColors.primary },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.controlButtonText,
+                        { color: themeColors.primary },
+                      ]}
+                    >
+                      ⏭️
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
                 <TouchableOpacity
                   onPress={stopSessionEarly}
                   style={[
@@ -924,6 +1224,162 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
               </Text>
             </GlassCard>
 
+            {/* Focus Protocol Selection */}
+            <GlassCard theme={theme} style={styles.configCard}>
+              <Text style={[styles.configTitle, { color: themeColors.text }]}>
+                🔁 Focus Protocol
+              </Text>
+              <View style={styles.protocolOptions}>
+                {[null, ...protocols].map((protocol) => {
+                  const selected = selectedProtocol?.id === protocol?.id;
+                  return (
+                    <TouchableOpacity
+                      key={protocol?.id ?? 'single'}
+                      onPress={() => setSelectedProtocol(protocol)}
+                      style={[
+                        styles.protocolOption,
+                        {
+                          backgroundColor: selected
+                            ? themeColors.primary
+                            : themeColors.surface + '40',
+                        },
+                      ]}
+                    >
+                      <Text
+                        style={[
+                          styles.protocolOptionText,
+                          {
+                            color: selected
+                              ? themeColors.surface
+                              : themeColors.text,
+                          },
+                        ]}
+                      >
+                        {protocol?.name ?? 'Single'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <TouchableOpacity
+                  onPress={() => {
+                    setProtocolJson(CUSTOM_PROTOCOL_TEMPLATE);
+                    setShowProtocolEditor(true);
+                  }}
+                  style={[
+                    styles.protocolOption,
+                    { backgroundColor: themeColors.surface + '40' },
+                  ]}
+                >
+                  <Text
+                    style={[
+                      styles.protocolOptionText,
+                      { color: themeColors.text },
+                    ]}
+                  >
+                    + Custom
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <Text
+                style={[
+                  styles.configReasoning,
+                  { color: themeColors.textSecondary },
+                ]}
+              >
+                {selectedProtocol
+                  ? `${selectedProtocol.description ?? selectedProtocol.name} • about ${getProtocolPlannedMinutes(selectedProtocol)} min`
+                  : `One ${adaptiveConfig.duration}-minute block`}
+              </Text>
+              {selectedProtocol && !selectedProtocol.builtIn && (
+                <View style={styles.distractionActions}>
+                  <Button
+                    title="Edit"
+                    onPress={() => {
+                      setProtocolJson(JSON.stringify(selectedProtocol, null, 2));
+                      setShowProtocolEditor(true);
+                    }}
+                    variant="outline"
+                    theme={theme}
+                    style={styles.cancelButton}
+                  />
+                  <Button
+                    title="Delete"
+                    onPress={() => handleDeleteProtocol(selectedProtocol)}
+                    variant="outline"
+                    theme={theme}
+                    style={styles.logButton}
+                  />
+                </View>
+              )}
+            </GlassCard>
+
+            {/* Distraction Risk Forecast */}
+            {riskForecast && riskForecast.confidence > 0 && (
+              <GlassCard theme={theme} style={styles.analyticsCard}>
+                <Text
+                  style={[styles.analyticsTitle, { color: themeColors.text }]}
+                >
+                  ⚠️ Distraction Forecast
+                </Text>
+                <Text
+                  style={[
+                    styles.configReasoning,
+                    {
+                      color:
+                        riskForecast.level === 'high'
+                          ? themeColors.error
+                          : riskForecast.level === 'medium'
+                          ? themeColors.warning
+                          : themeColors.success,
+                    },
+                  ]}
+                >
+                  {riskForecast.level.toUpperCase()} RISK •{' '}
+                  {Math.round(riskForecast.probability * 100)}% chance of a
+                  distraction
+                </Text>
+                {riskForecast.drivers.map((driver) => (
+                  <Text
+                    key={`${driver.dimension}:${driver.key}`}
+                    style={[
+                      styles.riskDriver,
+                      { color: themeColors.textSecondary },
+                    ]}
+                  >
+                    {driver.label}: +{Math.round((driver.lift - 1) * 100)}%
+                  </Text>
+                ))}
+                {riskForecast.countermeasures.map((countermeasure) => (
+                  <TouchableOpacity
+                    key={countermeasure.kind}
+                    disabled={countermeasure.kind !== 'shorter_block'}
+                    onPress={() => applyCountermeasure(countermeasure)}
+                    style={[
+                      styles.countermeasure,
+                      { borderColor: themeColors.primary + '40' },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.countermeasureTitle,
+                        { color: themeColors.primary },
+                      ]}
+                    >
+                      {describeCountermeasure(countermeasure)}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.riskDriver,
+                        { color: themeColors.textSecondary },
+                      ]}
+                    >
+                      {countermeasure.reason}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </GlassCard>
+            )}
+
             {/* Focus Target Selection */}
             <GlassCard theme={theme} style={styles.targetCard}>
               <Text
@@ -1382,6 +1838,29 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
                 </TouchableOpacity>
               </View>
 
+              {/* App Input */}
+              <View style={styles.inputGroup}>
+                <Text
+                  style={[
+                    styles.inputLabel,
+                    { color: themeColors.textSecondary },
+                  ]}
+                >
+                  App (optional)
+                </Text>
+                <TextInput
+                  value={distractionAppName}
+                  onChangeText={setDistractionAppName}
+                  placeholder="e.g. Instagram"
+                  placeholderTextColor={themeColors.textSecondary}
+                  autoCorrect={false}
+                  style={[
+                    styles.inputButton,
+                    { borderColor: themeColors.primary, color: themeColors.text },
+                  ]}
+                />
+              </View>
+
               {/* Action Buttons */}
               <View style={styles.distractionActions}>
                 <Button
@@ -1404,6 +1883,81 @@ export const AdaptiveFocusScreen: React.FC<FocusTimerScreenProps> = ({
         </ScreenContainer>
       </Modal>
 
+      {/* Custom Protocol Modal */}
+      <Modal
+        visible={showProtocolEditor}
+        animationType="slide"
+        presentationStyle="overFullScreen"
+        onRequestClose={() => setShowProtocolEditor(false)}
+      >
+        <ScreenContainer theme={theme}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: themeColors.text }]}>
+              🔁 Custom Protocol
+            </Text>
+            <TouchableOpacity
+              onPress={() => setShowProtocolEditor(false)}
+              style={styles.closeButton}
+            >
+              <Text
+                style={[styles.closeButtonText, { color: themeColors.text }]}
+              >
+                ✕
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.modalContent}
+            contentContainerStyle={styles.modalScrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            <GlassCard theme={theme} style={styles.distractionCard}>
+              <View style={styles.inputGroup}>
+                <Text
+                  style={[
+                    styles.inputLabel,
+                    { color: themeColors.textSecondary },
+                  ]}
+                >
+                  Protocol JSON: a cycle of work and short_break phases,
+                  repeated "cycles" times
+                </Text>
+                <TextInput
+                  value={protocolJson}
+                  onChangeText={setProtocolJson}
+                  multiline
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  style={[
+                    styles.inputButton,
+                    styles.protocolJsonInput,
+                    { borderColor: themeColors.primary, color: themeColors.text },
+                  ]}
+                />
+              </View>
+
+              <View style={styles.distractionActions}>
+                <Button
+                  title="Cancel"
+                  onPress={() => setShowProtocolEditor(false)}
+                  variant="outline"
+                  theme={theme}
+                  style={styles.cancelButton}
+                />
+                <Button
+                  title="Save Protocol"
+                  onPress={handleSaveProtocol}
+                  variant="primary"
+                  theme={theme}
+                  style={styles.logButton}
+                />
+              </View>
+            </GlassCard>
+          </ScrollView>
+        </ScreenContainer>
+      </Modal>
+
       {/* Reason Picker Modal */}
       <Modal
         visible={showReasonPicker}
@@ -1650,6 +2204,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     letterSpacing: 2,
   },
+  phaseProgress: {
+    ...typography.caption,
+    marginTop: spacing.xs,
+  },
   progressContainer: {
     marginBottom: spacing.lg,
   },
@@ -1757,6 +2315,28 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  protocolOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  protocolOption: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+  },
+  protocolOptionText: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  protocolJsonInput: {
+    ...typography.caption,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    minHeight: 220,
+    textAlignVertical: 'top',
+  },
 
   // Target Selection
   targetCard: {
@@ -1816,6 +2396,22 @@ const styles = StyleSheet.create({
     padding: spacing.lg,
     marginBottom: spacing.lg,
   },
+  riskDriver: {
+    ...typography.caption,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
+  countermeasure: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  countermeasureTitle: {
+    ...typography.body,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
   analyticsTitle: {
     ...typography.h3,
     marginBottom: spacing.md,
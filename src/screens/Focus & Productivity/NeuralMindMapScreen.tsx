@@ -45,9 +45,13 @@ import {
   ActivityIndicator,
   RefreshControl,
   StatusBar,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import Icon from 'react-native-vector-icons/MaterialCommunityIcons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File } from 'expo-file-system';
 import { LinearGradient } from 'expo-linear-gradient';
 import GradientFallback from '../../components/shared/GradientFallback';
 import Animated, {
@@ -94,10 +98,22 @@ import { ThemeType } from '../../theme/colors';
 
 // Services - CAE 2.0 Stack
 import {
+  KnowledgeGap,
   MindMapGenerator,
   NeuralGraph,
+  NeuralGraphDiff,
+  NeuralLink,
   NeuralNode,
 } from '../../services/learning/MindMapGeneratorService';
+import {
+  GraphExportFormat,
+  MindMapExportService,
+} from '../../services/learning/MindMapExportService';
+import { MindMapEditService } from '../../services/learning/MindMapEditService';
+import {
+  SemanticEmbeddingService,
+  SemanticSearchResult,
+} from '../../services/learning/SemanticEmbeddingService';
 import StorageService from '../../services/storage/StorageService';
 import {
   CognitiveAuraService,
@@ -262,6 +278,13 @@ const COGNITIVE_CONTEXT_COLORS = {
   CognitiveOverload: '#EA580C',
 } as const;
 
+const EXPORT_FORMATS: Array<{ format: GraphExportFormat; label: string; icon: string }> = [
+  { format: 'obsidian', label: 'Obsidian Vault (.zip)', icon: 'folder-zip' },
+  { format: 'graphml', label: 'GraphML', icon: 'graph' },
+  { format: 'mermaid', label: 'Mermaid', icon: 'chart-timeline-variant' },
+  { format: 'opml', label: 'OPML Outline', icon: 'format-list-bulleted' },
+];
+
 /**
  * Pure helper: map AuraContext to optimal view mode.
  * Moved to module scope to be deterministic and avoid render-order issues.
@@ -304,6 +327,57 @@ function deterministicUnitValue(id: string, salt = ''): number {
   return (h % 1000000) / 1000000;
 }
 
+function toPhysicsNode(node: NeuralNode) {
+  const id = String(node.id || '');
+  const cognitiveUnit = _devRandom ? Math.random() : deterministicUnitValue(id, 'cog');
+  const masteryUnit = _devRandom ? Math.random() : deterministicUnitValue(id, 'mastery');
+  const cognitiveLoad = node.cognitiveLoad ?? cognitiveUnit;
+  const masteryLevel = node.masteryLevel ?? masteryUnit;
+  return {
+    id: node.id,
+    label: node.label,
+    cognitiveLoad,
+    masteryLevel,
+    size: 12 + cognitiveLoad * 12,
+  };
+}
+
+function toPhysicsLink(link: NeuralLink) {
+  return {
+    source: typeof link.source === 'string' ? link.source : link.source.id,
+    target: typeof link.target === 'string' ? link.target : link.target.id,
+    strength: link.strength || 0.5,
+    type: link.type || 'similarity',
+  };
+}
+
+/**
+ * Push a graph into the physics engine: a full reset for fresh layouts, a
+ * patch that keeps current positions for incremental updates
+ */
+function applyGraphToPhysics(
+  engine: NeuralPhysicsEngine,
+  graph: NeuralGraph,
+  diff: NeuralGraphDiff | null,
+): void {
+  if (!diff || diff.full) {
+    engine.setGraphData(graph.nodes.map(toPhysicsNode), graph.links.map(toPhysicsLink));
+    return;
+  }
+
+  // Engine links are keyed by endpoints, so keep pairs that are still linked
+  const links = graph.links.map(toPhysicsLink);
+  const linkedPairs = new Set(links.map((link) => `${link.source}-${link.target}`));
+  engine.patchGraphData({
+    nodes: [...diff.addedNodes, ...diff.updatedNodes].map(toPhysicsNode),
+    links: diff.addedLinks.map(toPhysicsLink),
+    removedNodeIds: diff.removedNodeIds,
+    removedLinks: diff.removedLinks
+      .map(toPhysicsLink)
+      .filter((link) => !linkedPairs.has(`${link.source}-${link.target}`)),
+  });
+}
+
 
 export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
   theme,
@@ -363,6 +437,17 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
     lastUpdated: number;
   }>({ lastUpdated: 0 });
 
+  // Hand-made concepts and links
+  const [conceptEditorVisible, setConceptEditorVisible] = useState(false);
+  const [conceptDraft, setConceptDraft] = useState({ label: '', category: '' });
+  const [linkSourceNode, setLinkSourceNode] = useState<NeuralNode | null>(null);
+  const [editHistory, setEditHistory] = useState({ canUndo: false, canRedo: false });
+  const [exportMenuVisible, setExportMenuVisible] = useState(false);
+
+  // Semantic search over cards, logic nodes and reading sessions
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SemanticSearchResult[]>([]);
+
   // Performance tracking (kept local as it's frequently updated)
   const [performanceTracking, setPerformanceTracking] = useState<{
     taskStartTime: Date | null;
@@ -495,6 +580,9 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
 
   // Service instances (memoized)
   const mindMapGenerator = useMemo(() => MindMapGenerator.getInstance(), []);
+  const mapExporter = useMemo(() => MindMapExportService.getInstance(), []);
+  const mapEditor = useMemo(() => MindMapEditService.getInstance(), []);
+  const semanticSearch = useMemo(() => SemanticEmbeddingService.getInstance(), []);
   const storage = useMemo(() => StorageService.getInstance(), []);
   const CAE = useMemo(() => CognitiveAuraService.getInstance(), []);
   const contextSensorService = useMemo(
@@ -763,6 +851,19 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
 
   // ====================  CORE METHODS ====================
 
+  // Apply background graph updates (new cards, completed tasks) as diffs
+  useEffect(() => {
+    return mindMapGenerator.onGraphUpdated((graph, diff) => {
+      actions.setData({ neuralGraph: graph });
+      if (graph.nodes.length > 0) {
+        applyGraphToPhysics(PhysicsEngine, graph, diff);
+      }
+      cacheManager.set('neural-graph-main', graph, 'warm').catch((error: unknown) => {
+        console.warn('Failed to cache updated neural graph:', error);
+      });
+    });
+  }, [mindMapGenerator, PhysicsEngine, actions]);
+
   /**
    * Generate neural graph with  error handling
    */
@@ -775,6 +876,8 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
         // Try to get from cache first
         const cacheKey = 'neural-graph-main';
         let graph: NeuralGraph | null = null;
+        // Only a freshly generated graph can be patched into the current layout
+        let diff: NeuralGraphDiff | null = null;
 
         if (!forceRefresh) {
           graph = await cacheManager.get<NeuralGraph>(cacheKey);
@@ -784,6 +887,7 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
           graph = await measureAsync('Neural Graph Generation', async () => {
             return await mindMapGenerator.generateNeuralGraph(forceRefresh);
           });
+          diff = mindMapGenerator.getLastDiff();
 
           // Cache the generated graph
           await cacheManager.set(cacheKey, graph, 'warm');
@@ -793,31 +897,7 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
 
         // Integrate with physics engine
         if (graph && graph.nodes.length > 0) {
-          const nodeData = graph.nodes.map((node) => {
-            const id = String(node.id || '');
-            const cognitiveUnit = _devRandom ? Math.random() : deterministicUnitValue(id, 'cog');
-            const masteryUnit = _devRandom ? Math.random() : deterministicUnitValue(id, 'mastery');
-            const cognitiveLoad = node.cognitiveLoad ?? cognitiveUnit;
-            const masteryLevel = node.masteryLevel ?? masteryUnit;
-            return {
-              id: node.id,
-              label: node.label,
-              cognitiveLoad,
-              masteryLevel,
-              size: 12 + cognitiveLoad * 12,
-            };
-          });
-
-          const linkData = graph.links.map((link) => ({
-            source:
-              typeof link.source === 'string' ? link.source : link.source.id,
-            target:
-              typeof link.target === 'string' ? link.target : link.target.id,
-            strength: link.strength || 0.5,
-            type: link.type || 'similarity',
-          }));
-
-          PhysicsEngine.setGraphData(nodeData, linkData);
+          applyGraphToPhysics(PhysicsEngine, graph, diff);
         }
 
         console.log('🧠  Neural Graph Generated:', {
@@ -852,6 +932,172 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
     [mindMapGenerator, onNavigate, PhysicsEngine, actions],
   );
 
+  /**
+   * Turn a knowledge gap into a review task or flashcard, then rebuild the map
+   */
+  const handleFixGap = useCallback(
+    async (gap: KnowledgeGap) => {
+      try {
+        const fix = await mindMapGenerator.fixKnowledgeGap(gap);
+        Alert.alert(
+          fix.type === 'review_task' ? 'Review Task Added' : 'Flashcard Added',
+          fix.type === 'review_task'
+            ? `"${fix.task.content}" is due today.`
+            : `${fix.flashcards.length} card added to ${gap.node.category}.`,
+        );
+        await generateNeuralGraph(true);
+      } catch (error) {
+        console.error('Failed to fix knowledge gap:', error);
+        Alert.alert('Error', 'Could not create the review item. Please try again.');
+      }
+    },
+    [mindMapGenerator, generateNeuralGraph],
+  );
+
+  /**
+   * Export the current map and hand it to the share sheet
+   */
+  const exportMap = useCallback(
+    async (format: GraphExportFormat) => {
+      if (!neuralGraph) return;
+      try {
+        const result = await mapExporter.exportGraph(neuralGraph, format);
+        if (await Sharing.isAvailableAsync()) {
+          await Sharing.shareAsync(result.uri, { dialogTitle: 'Export Neural Map' });
+        } else {
+          Alert.alert(
+            'Export Complete',
+            `Saved ${result.nodeCount} concepts and ${result.linkCount} links to ${result.fileName}`,
+          );
+        }
+      } catch (error) {
+        console.error('Error exporting neural map:', error);
+        Alert.alert('Error', 'Failed to export the neural map');
+      }
+    },
+    [mapExporter, neuralGraph],
+  );
+
+  const handleExportFormat = useCallback(
+    (format: GraphExportFormat) => {
+      setExportMenuVisible(false);
+      exportMap(format);
+    },
+    [exportMap],
+  );
+
+  /**
+   * Load a map from a zipped Obsidian vault or a single Markdown note
+   */
+  const handleImportVault = useCallback(async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const asset = picked.assets[0];
+      const file = new File(asset.uri);
+      const name = asset.name ?? 'note.md';
+      const result = name.toLowerCase().endsWith('.zip')
+        ? await mapExporter.importVaultZip(await file.bytes())
+        : mapExporter.importVault([{ path: name, text: await file.text() }]);
+
+      // Stored as manual edits so the import survives regeneration
+      const existingIds = new Set((neuralGraph?.nodes ?? []).map((node) => node.id));
+      const imported = await mapEditor.importGraph(result.graph, existingIds);
+      setEditHistory({ canUndo: mapEditor.canUndo(), canRedo: mapEditor.canRedo() });
+      await generateNeuralGraph(true);
+      Alert.alert(
+        'Vault Imported',
+        `${imported.nodesAdded} concepts and ${imported.linksAdded} links added to your map` +
+          (result.nodesWithoutId ? `\n${result.nodesWithoutId} new notes given IDs` : '') +
+          (result.skippedLinks ? `\n${result.skippedLinks} links to missing notes skipped` : ''),
+      );
+    } catch (error) {
+      console.error('Error importing vault:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to import the vault');
+    }
+  }, [mapExporter, mapEditor, neuralGraph, generateNeuralGraph]);
+
+  /**
+   * Rebuild the map after a manual edit so the merge rules are applied
+   */
+  const refreshAfterEdit = useCallback(async () => {
+    setEditHistory({ canUndo: mapEditor.canUndo(), canRedo: mapEditor.canRedo() });
+    await generateNeuralGraph(true);
+  }, [mapEditor, generateNeuralGraph]);
+
+  const handleSaveConcept = useCallback(async () => {
+    try {
+      await mapEditor.addNode({
+        label: conceptDraft.label,
+        category: conceptDraft.category,
+      });
+      setConceptEditorVisible(false);
+      setConceptDraft({ label: '', category: '' });
+      await refreshAfterEdit();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add the concept');
+    }
+  }, [mapEditor, conceptDraft, refreshAfterEdit]);
+
+  const handleDeleteConcept = useCallback(
+    (node: NeuralNode) => {
+      Alert.alert('Delete Concept', `Delete "${node.label}" and its links?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await mapEditor.removeNode(node.id);
+              setNodeDetailVisible(false);
+              await refreshAfterEdit();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete the concept');
+            }
+          },
+        },
+      ]);
+    },
+    [mapEditor, refreshAfterEdit],
+  );
+
+  const handleConnectFrom = useCallback((node: NeuralNode) => {
+    setLinkSourceNode(node);
+    setNodeDetailVisible(false);
+    Alert.alert('Connect Concepts', `Tap another concept to link it to "${node.label}".`);
+  }, []);
+
+  const connectTo = useCallback(
+    (source: NeuralNode, target: NeuralNode) => {
+      const create = async (type: 'association' | 'prerequisite') => {
+        try {
+          await mapEditor.addLink({ source: source.id, target: target.id, type });
+          await refreshAfterEdit();
+        } catch (error) {
+          Alert.alert('Error', error instanceof Error ? error.message : 'Failed to link the concepts');
+        }
+      };
+      Alert.alert('Link Type', `"${source.label}" → "${target.label}"`, [
+        { text: 'Related', onPress: () => create('association') },
+        { text: 'Prerequisite', onPress: () => create('prerequisite') },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+    },
+    [mapEditor, refreshAfterEdit],
+  );
+
+  const handleUndoEdit = useCallback(async () => {
+    if (await mapEditor.undo()) await refreshAfterEdit();
+  }, [mapEditor, refreshAfterEdit]);
+
+  const handleRedoEdit = useCallback(async () => {
+    if (await mapEditor.redo()) await refreshAfterEdit();
+  }, [mapEditor, refreshAfterEdit]);
+
   /**
    * Progressive forecasting implementation with staged loading
    */
@@ -1300,9 +1546,47 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
    */
   const handleNodePress = useCallback(
     (node: NeuralNode) => {
+      // Second tap of a "Connect" gesture
+      if (linkSourceNode) {
+        setLinkSourceNode(null);
+        if (linkSourceNode.id !== node.id) {
+          connectTo(linkSourceNode, node);
+          return;
+        }
+      }
       handleNodeInteraction(node, 'click');
     },
-    [handleNodeInteraction],
+    [handleNodeInteraction, linkSourceNode, connectTo],
+  );
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await semanticSearch.search(query, 5);
+      if (!cancelled) setSearchResults(results);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, semanticSearch]);
+
+  const handleSearchResultPress = useCallback(
+    (result: SemanticSearchResult) => {
+      const node = neuralGraph?.nodes.find((n) => n.id === result.document.id);
+      if (node) {
+        handleNodePress(node);
+      } else {
+        Alert.alert(result.document.title, result.document.text);
+      }
+    },
+    [neuralGraph, handleNodePress],
   );
 
   /**
@@ -2043,6 +2327,45 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
                       • {rec}
                     </Text>
                   ))}
+
+                  {!!neuralGraph?.knowledgeGaps?.length && (
+                    <>
+                      <Text
+                        style={[styles.insightsTitle, { color: contextColor }]}
+                      >
+                        Fix These First
+                      </Text>
+                      {neuralGraph.knowledgeGaps.slice(0, 5).map((gap) => (
+                        <TouchableOpacity
+                          key={gap.id}
+                          style={[
+                            styles.actionButton,
+                            { backgroundColor: `${contextColor}20` },
+                          ]}
+                          onPress={() => handleFixGap(gap)}
+                        >
+                          <Icon
+                            name={
+                              gap.suggestedAction === 'flashcard'
+                                ? 'card-plus'
+                                : 'calendar-check'
+                            }
+                            size={16}
+                            color={contextColor}
+                          />
+                          <Text
+                            style={[
+                              styles.actionText,
+                              { color: themeColors.text, flex: 1 },
+                            ]}
+                            numberOfLines={2}
+                          >
+                            {gap.node.label} — {gap.reason}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </>
+                  )}
                 </GlassCard>
               )}
 
@@ -2122,6 +2445,31 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
                   >
                     Quick Actions
                   </Text>
+                  <TextInput
+                    style={[styles.searchInput, { color: themeColors.text, borderColor: `${contextColor}60` }]}
+                    placeholder="Search your notes by meaning"
+                    placeholderTextColor={themeColors.textSecondary}
+                    value={searchQuery}
+                    onChangeText={setSearchQuery}
+                    returnKeyType="search"
+                  />
+                  {searchResults.map((result) => (
+                    <TouchableOpacity
+                      key={result.document.id}
+                      style={styles.searchResult}
+                      onPress={() => handleSearchResultPress(result)}
+                    >
+                      <Text
+                        style={[styles.actionText, { color: themeColors.text }]}
+                        numberOfLines={1}
+                      >
+                        {result.document.title}
+                      </Text>
+                      <Text style={[styles.searchResultMeta, { color: themeColors.textSecondary }]}>
+                        {result.document.kind} · {Math.round(result.score * 100)}%
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
                   <TouchableOpacity
                     style={[
                       styles.actionButton,
@@ -2158,6 +2506,75 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
                       View Insights
                     </Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.actionButton,
+                      { backgroundColor: `${contextColor}20` },
+                    ]}
+                    onPress={() => setExportMenuVisible(true)}
+                    disabled={!neuralGraph}
+                  >
+                    <Icon name="export-variant" size={16} color={contextColor} />
+                    <Text style={[styles.actionText, { color: contextColor }]}>
+                      Export Map
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.actionButton,
+                      { backgroundColor: `${contextColor}20` },
+                    ]}
+                    onPress={handleImportVault}
+                  >
+                    <Icon name="import" size={16} color={contextColor} />
+                    <Text style={[styles.actionText, { color: contextColor }]}>
+                      Import Vault
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.actionButton,
+                      { backgroundColor: `${contextColor}20` },
+                    ]}
+                    onPress={() => setConceptEditorVisible(true)}
+                  >
+                    <Icon name="plus-circle-outline" size={16} color={contextColor} />
+                    <Text style={[styles.actionText, { color: contextColor }]}>
+                      Add Concept
+                    </Text>
+                  </TouchableOpacity>
+                  {(editHistory.canUndo || editHistory.canRedo) && (
+                    <View style={styles.editHistoryRow}>
+                      <TouchableOpacity
+                        style={[
+                          styles.actionButton,
+                          styles.editHistoryButton,
+                          { backgroundColor: `${contextColor}20` },
+                        ]}
+                        onPress={handleUndoEdit}
+                        disabled={!editHistory.canUndo}
+                      >
+                        <Icon name="undo" size={16} color={contextColor} />
+                        <Text style={[styles.actionText, { color: contextColor }]}>
+                          Undo
+                        </Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[
+                          styles.actionButton,
+                          styles.editHistoryButton,
+                          { backgroundColor: `${contextColor}20` },
+                        ]}
+                        onPress={handleRedoEdit}
+                        disabled={!editHistory.canRedo}
+                      >
+                        <Icon name="redo" size={16} color={contextColor} />
+                        <Text style={[styles.actionText, { color: contextColor }]}>
+                          Redo
+                        </Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
                 </GlassCard>
               )}
             </View>
@@ -2452,6 +2869,38 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
               </View>
 
               <ScrollView style={styles.nodeDetailContent}>
+                {/* Manual editing */}
+                <View style={styles.editHistoryRow}>
+                  <TouchableOpacity
+                    style={[
+                      styles.actionButton,
+                      styles.editHistoryButton,
+                      { backgroundColor: `${contextColor}20` },
+                    ]}
+                    onPress={() => handleConnectFrom(nodeDetail.node)}
+                  >
+                    <Icon name="link-variant-plus" size={16} color={contextColor} />
+                    <Text style={[styles.actionText, { color: contextColor }]}>
+                      Connect
+                    </Text>
+                  </TouchableOpacity>
+                  {nodeDetail.node.sourceType === 'manual' && (
+                    <TouchableOpacity
+                      style={[
+                        styles.actionButton,
+                        styles.editHistoryButton,
+                        { backgroundColor: `${themeColors.error}20` },
+                      ]}
+                      onPress={() => handleDeleteConcept(nodeDetail.node)}
+                    >
+                      <Icon name="delete-outline" size={16} color={themeColors.error} />
+                      <Text style={[styles.actionText, { color: themeColors.error }]}>
+                        Delete
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
                 {/* Context Relevance */}
                 <View style={styles.contextRelevanceSection}>
                   <Text
@@ -2623,6 +3072,106 @@ export const NeuralMindMapScreen: React.FC<NeuralMindMapScreenProps> = ({
         )}
       </Modal>
 
+      {/* Export Format Modal */}
+      <Modal
+        visible={exportMenuVisible}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setExportMenuVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <GlassCard theme={theme} variant="modal" style={styles.conceptEditor}>
+            <View
+              style={[
+                styles.nodeDetailHeader,
+                { borderBottomColor: contextColor },
+              ]}
+            >
+              <Text style={[styles.nodeDetailTitle, { color: themeColors.text }]}>
+                Export Map
+              </Text>
+              <TouchableOpacity
+                style={styles.closeButton}
+                onPress={() => setExportMenuVisible(false)}
+              >
+                <Icon name="close" size={24} color={themeColors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.nodeDetailContent}>
+              {EXPORT_FORMATS.map(({ format, label, icon }) => (
+                <TouchableOpacity
+                  key={format}
+                  style={[styles.actionButton, { backgroundColor: `${contextColor}20` }]}
+                  onPress={() => handleExportFormat(format)}
+                >
+                  <Icon name={icon} size={16} color={contextColor} />
+                  <Text style={[styles.actionText, { color: contextColor }]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </GlassCard>
+        </View>
+      </Modal>
+
+      {/* Add Concept Modal */}
+      <Modal
+        visible={conceptEditorVisible}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setConceptEditorVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <GlassCard theme={theme} variant="modal" style={styles.conceptEditor}>
+            <View
+              style={[
+                styles.nodeDetailHeader,
+                { borderBottomColor: contextColor },
+              ]}
+            >
+              <Text style={[styles.nodeDetailTitle, { color: themeColors.text }]}>
+                Add Concept
+              </Text>
+              <TouchableOpacity
+                style={styles.closeButton}
+                onPress={() => setConceptEditorVisible(false)}
+              >
+                <Icon name="close" size={24} color={themeColors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.nodeDetailContent}>
+              <TextInput
+                style={[styles.conceptInput, { color: themeColors.text, borderColor: contextColor }]}
+                placeholder="Concept name"
+                placeholderTextColor={themeColors.textSecondary}
+                value={conceptDraft.label}
+                onChangeText={(label) => setConceptDraft((prev) => ({ ...prev, label }))}
+                autoFocus
+              />
+              <TextInput
+                style={[styles.conceptInput, { color: themeColors.text, borderColor: contextColor }]}
+                placeholder="Category (optional)"
+                placeholderTextColor={themeColors.textSecondary}
+                value={conceptDraft.category}
+                onChangeText={(category) => setConceptDraft((prev) => ({ ...prev, category }))}
+                autoCapitalize="none"
+              />
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: `${contextColor}20` }]}
+                onPress={handleSaveConcept}
+                disabled={!conceptDraft.label.trim()}
+              >
+                <Icon name="check" size={16} color={contextColor} />
+                <Text style={[styles.actionText, { color: contextColor }]}>
+                  Add to Map
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </GlassCard>
+        </View>
+      </Modal>
+
       {/* Context Insights Modal */}
       <Modal
         visible={contextInsightsVisible}
@@ -2964,6 +3513,52 @@ const styles = StyleSheet.create({
     padding: spacing.sm,
   },
 
+  // Manual editing
+  editHistoryRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+
+  editHistoryButton: {
+    flex: 1,
+  },
+
+  searchInput: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginBottom: spacing.sm,
+    fontSize: typography.sizes.sm,
+  },
+
+  searchResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+
+  searchResultMeta: {
+    fontSize: typography.sizes.xs,
+    marginLeft: spacing.sm,
+  },
+
+  conceptEditor: {
+    maxWidth: 500,
+    width: '100%',
+  },
+
+  conceptInput: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    fontSize: typography.sizes.md,
+  },
+
   nodeDetailContent: {
     flex: 1,
     padding: spacing.lg,
@@ -35,6 +35,11 @@ import { colors, spacing, typography, borderRadius } from '../../theme/colors';
 import { ThemeType } from '../../theme/colors';
 import StorageService from '../../services/storage/StorageService';
 import { TodoistService } from '../../services/integrations/TodoistService';
+import {
+  FocusDayPlan,
+  FocusDayPlannerService,
+  PlannedFocusBlock,
+} from '../../services/learning/FocusDayPlannerService';
 import { Task } from '../../types/index';
 import { perf } from '../../utils/perfMarks';
 import { TaskListSkeleton } from '../../components/skeletons';
@@ -48,7 +53,27 @@ interface TasksScreenProps {
 
 type TaskFilter = 'all' | 'active' | 'completed' | 'due-today' | 'overdue';
 type TaskSort = 'priority' | 'due-date' | 'created' | 'alphabetical';
-type ActiveTab = 'todoist' | 'local';
+type ActiveTab = 'todoist' | 'local' | 'plan';
+
+const BLOCK_PHASE_LABELS: Record<PlannedFocusBlock['phase'], string> = {
+  morning_peak: 'Morning peak',
+  late_morning: 'Late morning',
+  post_lunch_dip: 'Post-lunch dip',
+  afternoon_peak: 'Afternoon peak',
+  wind_down: 'Wind-down',
+  capacity_window: 'High-capacity window',
+};
+
+const BLOCK_STATUS_LABELS: Record<PlannedFocusBlock['status'], string> = {
+  planned: 'Planned',
+  active: 'In focus',
+  done: 'Done',
+  overrun: 'Ran over',
+  skipped: 'Skipped',
+};
+
+const formatBlockTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
 export const TasksScreen: React.FC<TasksScreenProps> = ({
   theme,
@@ -115,6 +140,11 @@ export const TasksScreen: React.FC<TasksScreenProps> = ({
   const themeColors = colors[theme];
   const storage = StorageService.getInstance();
   const todoistService = TodoistService.getInstance();
+  const dayPlanner = FocusDayPlannerService.getInstance();
+
+  // Today's focus plan
+  const [dayPlan, setDayPlan] = useState<FocusDayPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
 
   // Start a mount mark for performance measurement
   useEffect(() => {
@@ -156,6 +186,12 @@ export const TasksScreen: React.FC<TasksScreenProps> = ({
     checkConnection();
   }, [activeTab, todoistService]);
 
+  // Load today's focus plan and follow re-plans
+  useEffect(() => {
+    dayPlanner.getPlan().then(setDayPlan).catch(console.error);
+    return dayPlanner.onPlanChange(setDayPlan);
+  }, [dayPlanner]);
+
   // Monitor network connectivity
   useEffect(() => {
     const unsubscribe = NetInfo.addEventListener(state => {
@@ -183,6 +219,22 @@ export const TasksScreen: React.FC<TasksScreenProps> = ({
     return () => subscription?.remove();
   }, [isOnline, offlineQueue]);
 
+  const handlePlanDay = async () => {
+    setPlanning(true);
+    try {
+      if (dayPlan) {
+        await dayPlanner.replan('re-planned manually');
+      } else {
+        await dayPlanner.planDay();
+      }
+    } catch (error: any) {
+      console.error('Error planning focus day:', error);
+      Alert.alert('Error', `Failed to plan your day: ${error.message}`);
+    } finally {
+      setPlanning(false);
+    }
+  };
+
   const initializeTodoistToken = async () => {
     try {
       const settings = await storage.getSettings();
@@ -805,6 +857,140 @@ export const TasksScreen: React.FC<TasksScreenProps> = ({
 
   const keyExtractor = useCallback((item: Task) => item.id, []);
 
+  const getBlockStatusColor = (status: PlannedFocusBlock['status']) => {
+    switch (status) {
+      case 'active':
+        return themeColors.primary;
+      case 'done':
+        return themeColors.success;
+      case 'overrun':
+        return themeColors.warning;
+      case 'skipped':
+        return themeColors.error;
+      default:
+        return themeColors.textSecondary;
+    }
+  };
+
+  const renderDayPlan = () => {
+    const plannedMinutes = dayPlan
+      ? dayPlan.blocks.reduce((sum, block) => sum + block.minutes, 0)
+      : 0;
+
+    return (
+      <ScrollView
+        style={styles.tasksList}
+        contentContainerStyle={styles.tasksContainer}
+      >
+        <GlassCard theme={theme} style={styles.taskCard}>
+          <View style={styles.taskHeader}>
+            <View style={styles.taskInfo}>
+              <Text style={[styles.taskContent, { color: themeColors.text }]}>
+                {dayPlan
+                  ? `${dayPlan.blocks.length} focus blocks · ${plannedMinutes} min`
+                  : 'No plan for today yet'}
+              </Text>
+              <Text
+                style={[
+                  styles.taskDescription,
+                  { color: themeColors.textSecondary },
+                ]}
+              >
+                {dayPlan
+                  ? `Focus budget ${dayPlan.focusBudgetMinutes} min` +
+                    (dayPlan.replanCount > 0
+                      ? ` · re-planned ${dayPlan.replanCount}x (${dayPlan.lastReplanReason})`
+                      : '')
+                  : "Time-block your open Todoist tasks into today's best focus windows."}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={handlePlanDay}
+              disabled={planning}
+              style={[
+                styles.actionButton,
+                { backgroundColor: themeColors.primary },
+              ]}
+            >
+              <Text style={styles.actionButtonText}>
+                {planning ? '...' : dayPlan ? 'Re-plan' : 'Plan'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </GlassCard>
+
+        {dayPlan?.blocks.map((block) => (
+          <GlassCard
+            key={block.id}
+            theme={theme}
+            style={[
+              styles.taskCard,
+              (block.status === 'done' || block.status === 'skipped') &&
+                styles.completedTask,
+            ]}
+          >
+            <View style={styles.taskHeader}>
+              <Text
+                style={[styles.planBlockTime, { color: themeColors.textSecondary }]}
+              >
+                {formatBlockTime(block.start)}
+                {'\n'}
+                {formatBlockTime(block.end)}
+              </Text>
+              <View style={styles.taskInfo}>
+                <Text
+                  style={[
+                    styles.taskContent,
+                    { color: themeColors.text },
+                    block.status === 'skipped' && styles.completedText,
+                  ]}
+                >
+                  {block.title}
+                  {block.parts > 1 ? ` (${block.part}/${block.parts})` : ''}
+                </Text>
+                <Text
+                  style={[
+                    styles.taskDescription,
+                    { color: themeColors.textSecondary },
+                  ]}
+                >
+                  {block.minutes} min · {BLOCK_PHASE_LABELS[block.phase]}
+                </Text>
+              </View>
+              <Text
+                style={[
+                  styles.planBlockStatus,
+                  { color: getBlockStatusColor(block.status) },
+                ]}
+              >
+                {BLOCK_STATUS_LABELS[block.status]}
+              </Text>
+            </View>
+          </GlassCard>
+        ))}
+
+        {dayPlan && dayPlan.unscheduled.length > 0 && (
+          <GlassCard theme={theme} style={styles.taskCard}>
+            <Text style={[styles.taskContent, { color: themeColors.text }]}>
+              Not scheduled today
+            </Text>
+            {dayPlan.unscheduled.map((task) => (
+              <Text
+                key={task.taskId}
+                style={[
+                  styles.taskDescription,
+                  { color: themeColors.textSecondary },
+                ]}
+              >
+                {task.title} · {task.minutes} min — {task.reason}
+              </Text>
+            ))}
+          </GlassCard>
+        )}
+      </ScrollView>
+    );
+  };
+
   if (loading) {
     return (
       <ScreenContainer theme={theme}>
@@ -827,9 +1013,11 @@ export const TasksScreen: React.FC<TasksScreenProps> = ({
         theme={theme}
         onMenuPress={() => setMenuVisible(true)}
         rightComponent={
-          <TouchableOpacity onPress={() => setAddTaskModalVisible(true)}>
-            <Text style={{ color: themeColors.primary, fontSize: 24 }}>+</Text>
-          </TouchableOpacity>
+          activeTab !== 'plan' ? (
+            <TouchableOpacity onPress={() => setAddTaskModalVisible(true)}>
+              <Text style={{ color: themeColors.primary, fontSize: 24 }}>+</Text>
+            </TouchableOpacity>
+          ) : undefined
         }
       />
 
@@ -900,105 +1088,131 @@ export const TasksScreen: React.FC<TasksScreenProps> = ({
               </Text>
             </View>
           </TouchableOpacity>
-        </View>
 
-        {/* Filters and Sort */}
-        <GlassCard theme={theme} style={styles.filtersCard}>
-          <View style={styles.filtersRow}>
-            <View style={styles.filterSection}>
+          <TouchableOpacity
+            onPress={() => setActiveTab('plan')}
+            style={[
+              styles.tab,
+              activeTab === 'plan' && { backgroundColor: themeColors.primary },
+              { borderColor: themeColors.primary },
+            ]}
+          >
+            <View style={styles.tabContent}>
               <Text
                 style={[
-                  styles.filterLabel,
-                  { color: themeColors.textSecondary },
+                  styles.tabText,
+                  { color: activeTab === 'plan' ? '#FFFFFF' : themeColors.text },
                 ]}
               >
-                Filter:
+                🗓️ Today's Plan
               </Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                <View style={styles.filterButtons}>
-                  {(
-                    [
-                      'all',
-                      'active',
-                      'completed',
-                      'due-today',
-                      'overdue',
-                    ] as TaskFilter[]
-                  ).map((f) => (
-                    <TouchableOpacity
-                      key={f}
-                      onPress={() => setFilter(f)}
-                      style={[
-                        styles.filterButton,
-                        filter === f && {
-                          backgroundColor: themeColors.primary,
-                        },
-                        { borderColor: themeColors.border },
-                      ]}
-                    >
-                      <Text
-                        style={[
-                          styles.filterButtonText,
-                          {
-                            color: filter === f ? '#FFFFFF' : themeColors.text,
-                          },
-                        ]}
-                      >
-                        {f === 'due-today'
-                          ? 'Due Today'
-                          : f.charAt(0).toUpperCase() + f.slice(1)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </ScrollView>
             </View>
-          </View>
-        </GlassCard>
+          </TouchableOpacity>
+        </View>
 
-        <FlashList<Task>
-          style={styles.tasksList}
-          contentContainerStyle={styles.tasksContainer}
-          data={currentTasks}
-          keyExtractor={keyExtractor}
-          renderItem={renderTaskRow}
-          refreshControl={
-            <RefreshControl
-              refreshing={refreshing}
-              onRefresh={onRefresh}
-              tintColor={themeColors.primary}
-            />
-          }
-          onEndReached={() => {
-            if (hasNextPage && !isFetchingNextPage) {
-              fetchNextPage();
-            }
-          }}
-          onEndReachedThreshold={0.5}
-          ListFooterComponent={
-            isFetchingNextPage ? (
-              <View style={styles.loadingFooter}>
-                <TaskListSkeleton theme={theme} count={3} />
+        {activeTab === 'plan' ? (
+          renderDayPlan()
+        ) : (
+          <>
+            {/* Filters and Sort */}
+            <GlassCard theme={theme} style={styles.filtersCard}>
+              <View style={styles.filtersRow}>
+                <View style={styles.filterSection}>
+                  <Text
+                    style={[
+                      styles.filterLabel,
+                      { color: themeColors.textSecondary },
+                    ]}
+                  >
+                    Filter:
+                  </Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <View style={styles.filterButtons}>
+                      {(
+                        [
+                          'all',
+                          'active',
+                          'completed',
+                          'due-today',
+                          'overdue',
+                        ] as TaskFilter[]
+                      ).map((f) => (
+                        <TouchableOpacity
+                          key={f}
+                          onPress={() => setFilter(f)}
+                          style={[
+                            styles.filterButton,
+                            filter === f && {
+                              backgroundColor: themeColors.primary,
+                            },
+                            { borderColor: themeColors.border },
+                          ]}
+                        >
+                          <Text
+                            style={[
+                              styles.filterButtonText,
+                              {
+                                color: filter === f ? '#FFFFFF' : themeColors.text,
+                              },
+                            ]}
+                          >
+                            {f === 'due-today'
+                              ? 'Due Today'
+                              : f.charAt(0).toUpperCase() + f.slice(1)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </ScrollView>
+                </View>
               </View>
-            ) : null
-          }
-          ListEmptyComponent={() => (
-            <GlassCard theme={theme} style={styles.emptyCard}>
-              <Text style={[styles.emptyTitle, { color: themeColors.text }]}>
-                {activeTab === 'todoist'
-                  ? '📋 No Todoist Tasks'
-                  : '🏠 No Local Tasks'}
-              </Text>
-              <Text
-                style={[styles.emptyText, { color: themeColors.textSecondary }]}
-              >
-                {activeTab === 'todoist'
-                  ? 'Connect your Todoist account in Settings to sync your tasks, or create local tasks for personal organization.'
-                  : 'Create your first local task to get started with personal task management.'}
-              </Text>
             </GlassCard>
-          )}
-        />
+
+            <FlashList<Task>
+              style={styles.tasksList}
+              contentContainerStyle={styles.tasksContainer}
+              data={currentTasks}
+              keyExtractor={keyExtractor}
+              renderItem={renderTaskRow}
+              refreshControl={
+                <RefreshControl
+                  refreshing={refreshing}
+                  onRefresh={onRefresh}
+                  tintColor={themeColors.primary}
+                />
+              }
+              onEndReached={() => {
+                if (hasNextPage && !isFetchingNextPage) {
+                  fetchNextPage();
+                }
+              }}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                isFetchingNextPage ? (
+                  <View style={styles.loadingFooter}>
+                    <TaskListSkeleton theme={theme} count={3} />
+                  </View>
+                ) : null
+              }
+              ListEmptyComponent={() => (
+                <GlassCard theme={theme} style={styles.emptyCard}>
+                  <Text style={[styles.emptyTitle, { color: themeColors.text }]}>
+                    {activeTab === 'todoist'
+                      ? '📋 No Todoist Tasks'
+                      : '🏠 No Local Tasks'}
+                  </Text>
+                  <Text
+                    style={[styles.emptyText, { color: themeColors.textSecondary }]}
+                  >
+                    {activeTab === 'todoist'
+                      ? 'Connect your Todoist account in Settings to sync your tasks, or create local tasks for personal organization.'
+                      : 'Create your first local task to get started with personal task management.'}
+                  </Text>
+                </GlassCard>
+              )}
+            />
+          </>
+        )}
       </View>
 
       {/* Add Task Modal */}
@@ -1367,6 +1581,20 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
 
+  // Day plan
+  planBlockTime: {
+    ...typography.caption,
+    width: 56,
+    marginRight: spacing.md,
+    marginTop: spacing.xs,
+  },
+  planBlockStatus: {
+    ...typography.caption,
+    fontWeight: '600',
+    marginLeft: spacing.sm,
+    marginTop: spacing.xs,
+  },
+
   // Filters
   filtersCard: {
     marginHorizontal: spacing.lg,
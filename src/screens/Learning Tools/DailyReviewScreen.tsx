@@ -0,0 +1,503 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+} from 'react-native';
+import {
+  AppHeader,
+  HamburgerMenu,
+} from '../../components/navigation/Navigation';
+import {
+  GlassCard,
+  Button,
+  ScreenContainer,
+} from '../../components/GlassComponents';
+import { colors, spacing, typography, borderRadius } from '../../theme/colors';
+import { ThemeType } from '../../theme/colors';
+import { Rating } from '../../services/learning/SpacedRepetitionService';
+import { ReviewableKind } from '../../services/learning/ReviewScheduler';
+import DailyReviewService, {
+  DailyReviewItem,
+  DailyReviewSession,
+  DailyReviewSummary,
+} from '../../services/learning/DailyReviewService';
+import { CognitiveAuraService, AuraState } from '../../services/ai/CognitiveAuraService';
+import type { NeuralNode } from '../../services/learning/MindMapGeneratorService';
+import { ImageOcclusionView } from '../../components/learning/ImageOcclusionView';
+import { Flashcard, LogicNode, MemoryItem } from '../../types';
+
+interface DailyReviewScreenProps {
+  theme: ThemeType;
+  onNavigate: (screen: string) => void;
+}
+
+const KIND_LABELS: Record<ReviewableKind, { icon: string; label: string }> = {
+  flashcard: { icon: '🃏', label: 'Flashcards' },
+  logic: { icon: '🧩', label: 'Logic' },
+  palace: { icon: '🏰', label: 'Memory Palace' },
+  neural: { icon: '🧠', label: 'Mind Map' },
+};
+
+const RATING_OPTIONS: Array<{ rating: Rating; label: string }> = [
+  { rating: Rating.Again, label: 'Again' },
+  { rating: Rating.Hard, label: 'Hard' },
+  { rating: Rating.Good, label: 'Good' },
+  { rating: Rating.Easy, label: 'Easy' },
+];
+
+/**
+ * Prompt and answer text for any queued item
+ */
+const getItemContent = (item: DailyReviewItem): { title: string; front: string; back: string } => {
+  switch (item.kind) {
+    case 'flashcard': {
+      const card = item.entity as Flashcard;
+      return { title: card.category || 'general', front: card.front, back: card.back };
+    }
+    case 'logic': {
+      const node = item.entity as LogicNode;
+      return {
+        title: `${node.type} • ${node.domain}`,
+        front: `${node.question}\n\n1. ${node.premise1}\n2. ${node.premise2}`,
+        back: node.conclusion,
+      };
+    }
+    case 'palace': {
+      const memoryItem = item.entity as MemoryItem;
+      return {
+        title: 'Recall the item placed here',
+        front: memoryItem.association || memoryItem.visualization || `Position ${memoryItem.position ?? '?'}`,
+        back: memoryItem.content ?? '',
+      };
+    }
+    case 'neural': {
+      const node = item.entity as NeuralNode;
+      return {
+        title: node.category,
+        front: node.label,
+        back: typeof node.content === 'string' ? node.content : node.content.conclusion,
+      };
+    }
+  }
+};
+
+export const DailyReviewScreen: React.FC<DailyReviewScreenProps> = ({
+  theme,
+  onNavigate,
+}) => {
+  const [menuVisible, setMenuVisible] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [session, setSession] = useState<DailyReviewSession | null>(null);
+  const [started, setStarted] = useState(false);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [summary, setSummary] = useState<DailyReviewSummary | null>(null);
+
+  const themeColors = colors[theme];
+  const dailyReview = DailyReviewService.getInstance();
+
+  const loadSession = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSummary(null);
+      setStarted(false);
+      setShowAnswer(false);
+
+      let aura: AuraState | null = null;
+      try {
+        aura = await CognitiveAuraService.getInstance().getAuraState();
+      } catch (error) {
+        console.warn('Aura state unavailable for daily review:', error);
+      }
+      setSession(await dailyReview.buildSession(aura));
+    } catch (error) {
+      console.error('Error building daily review:', error);
+      Alert.alert('Error', 'Failed to build today\'s review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [dailyReview]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const finishSession = useCallback((finished: DailyReviewSession) => {
+    setSummary(dailyReview.summarize(finished));
+    setStarted(false);
+  }, [dailyReview]);
+
+  const rateItem = useCallback(async (rating: Rating) => {
+    if (!session || saving) return;
+    setSaving(true);
+    try {
+      const next = await dailyReview.recordReview(session, rating);
+      setSession(next);
+      setShowAnswer(false);
+      if (dailyReview.isComplete(next)) finishSession(next);
+    } finally {
+      setSaving(false);
+    }
+  }, [session, saving, dailyReview, finishSession]);
+
+  const getRatingColor = (rating: Rating): string => {
+    switch (rating) {
+      case Rating.Again:
+        return themeColors.error;
+      case Rating.Hard:
+        return themeColors.warning;
+      case Rating.Good:
+        return themeColors.success;
+      default:
+        return themeColors.primary;
+    }
+  };
+
+  const renderKindCounts = (counts: Partial<Record<ReviewableKind, string>>) => (
+    <View style={styles.kindRow}>
+      {(Object.keys(KIND_LABELS) as ReviewableKind[]).map((kind) => (
+        <View key={kind} style={styles.kindStat}>
+          <Text style={styles.kindIcon}>{KIND_LABELS[kind].icon}</Text>
+          <Text style={[styles.kindValue, { color: themeColors.text }]}>
+            {counts[kind] ?? '0'}
+          </Text>
+          <Text style={[styles.kindLabel, { color: themeColors.textMuted }]}>
+            {KIND_LABELS[kind].label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const menu = (
+    <HamburgerMenu
+      visible={menuVisible}
+      onClose={() => setMenuVisible(false)}
+      onNavigate={onNavigate}
+      currentScreen="daily-review"
+      theme={theme}
+    />
+  );
+
+  if (loading || !session) {
+    return (
+      <ScreenContainer theme={theme}>
+        <AppHeader
+          title="Daily Review"
+          theme={theme}
+          onMenuPress={() => setMenuVisible(true)}
+        />
+        <View style={styles.loadingContainer}>
+          <Text style={[styles.loadingText, { color: themeColors.text }]}>
+            {loading ? 'Building today\'s review queue...' : 'Nothing to review'}
+          </Text>
+        </View>
+        {menu}
+      </ScreenContainer>
+    );
+  }
+
+  // Session summary
+  if (summary) {
+    return (
+      <ScreenContainer theme={theme}>
+        <AppHeader
+          title="Review Complete"
+          theme={theme}
+          onMenuPress={() => setMenuVisible(true)}
+        />
+        <ScrollView style={styles.content} contentContainerStyle={styles.container}>
+          <GlassCard theme={theme} style={styles.sectionCard}>
+            <Text style={[styles.sectionTitle, { color: themeColors.text }]}>
+              🎉 {summary.reviewed} items reviewed
+            </Text>
+            <Text style={[styles.summaryText, { color: themeColors.textSecondary }]}>
+              Retention {Math.round(summary.retention * 100)}% •{' '}
+              {summary.durationMinutes.toFixed(1)} min • {summary.context}
+            </Text>
+            {renderKindCounts(
+              Object.fromEntries(
+                Object.entries(summary.byKind).map(([kind, stats]) => [
+                  kind,
+                  `${stats.correct}/${stats.reviewed}`,
+                ]),
+              ),
+            )}
+            <View style={styles.ratingSummary}>
+              {RATING_OPTIONS.map(({ rating, label }) => (
+                <Text
+                  key={rating}
+                  style={[styles.summaryText, { color: getRatingColor(rating) }]}
+                >
+                  {label}: {summary.ratings[rating]}
+                </Text>
+              ))}
+            </View>
+            {(summary.remaining > 0 || summary.deferred > 0) && (
+              <Text style={[styles.hintText, { color: themeColors.textMuted }]}>
+                {summary.remaining > 0 ? `${summary.remaining} left in queue. ` : ''}
+                {summary.deferred > 0
+                  ? `${summary.deferred} held back for a better cognitive state.`
+                  : ''}
+              </Text>
+            )}
+          </GlassCard>
+          <Button
+            title="Check for More"
+            onPress={loadSession}
+            variant="primary"
+            size="large"
+            theme={theme}
+          />
+        </ScrollView>
+        {menu}
+      </ScreenContainer>
+    );
+  }
+
+  // Active review
+  const current = started ? session.items[session.currentIndex] : undefined;
+  if (current) {
+    const content = getItemContent(current);
+    const card = current.kind === 'flashcard' ? (current.entity as Flashcard) : null;
+    const progress = (session.currentIndex / session.items.length) * 100;
+
+    return (
+      <ScreenContainer theme={theme}>
+        <AppHeader
+          title={`Daily Review (${session.currentIndex + 1}/${session.items.length})`}
+          theme={theme}
+          onMenuPress={() => setMenuVisible(true)}
+          rightComponent={
+            <TouchableOpacity
+              onPress={() =>
+                Alert.alert('End Review', 'End today\'s review and see your summary?', [
+                  { text: 'Continue', style: 'cancel' },
+                  { text: 'End Review', onPress: () => finishSession(session) },
+                ])
+              }
+            >
+              <Text style={{ color: themeColors.error, fontSize: 16 }}>✕</Text>
+            </TouchableOpacity>
+          }
+        />
+        <ScrollView style={styles.content} contentContainerStyle={styles.container}>
+          <View style={styles.progressBar}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${progress}%`, backgroundColor: themeColors.primary },
+              ]}
+            />
+          </View>
+
+          <GlassCard theme={theme} style={styles.reviewCard}>
+            <Text style={[styles.kindBadge, { color: themeColors.primary }]}>
+              {KIND_LABELS[current.kind].icon} {KIND_LABELS[current.kind].label.toUpperCase()}
+              {' • '}
+              {content.title}
+            </Text>
+            {card?.occlusion && (
+              <ImageOcclusionView
+                imageUri={card.occlusion.imageUri}
+                regions={card.occlusion.regions}
+                targetRegionId={card.occlusion.targetRegionId}
+                revealed={showAnswer}
+                maskColor={themeColors.warning}
+                highlightColor={themeColors.error}
+              />
+            )}
+            <Text style={[styles.promptText, { color: themeColors.text }]}>
+              {content.front}
+            </Text>
+            {showAnswer && (
+              <>
+                <View style={[styles.divider, { backgroundColor: themeColors.border }]} />
+                <Text style={[styles.promptText, { color: themeColors.textSecondary }]}>
+                  {content.back}
+                </Text>
+              </>
+            )}
+          </GlassCard>
+
+          {!showAnswer ? (
+            <Button
+              title="Show Answer"
+              onPress={() => setShowAnswer(true)}
+              variant="primary"
+              size="large"
+              theme={theme}
+            />
+          ) : (
+            <View style={styles.ratingButtons}>
+              {RATING_OPTIONS.map(({ rating, label }) => (
+                <TouchableOpacity
+                  key={rating}
+                  disabled={saving}
+                  onPress={() => rateItem(rating)}
+                  style={[styles.ratingButton, { backgroundColor: getRatingColor(rating) }]}
+                >
+                  <Text style={styles.ratingButtonText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+        {menu}
+      </ScreenContainer>
+    );
+  }
+
+  // Queue overview
+  const queuedByKind: Partial<Record<ReviewableKind, string>> = {};
+  for (const kind of Object.keys(KIND_LABELS) as ReviewableKind[]) {
+    queuedByKind[kind] = String(session.items.filter((item) => item.kind === kind).length);
+  }
+
+  return (
+    <ScreenContainer theme={theme}>
+      <AppHeader
+        title="Daily Review"
+        theme={theme}
+        onMenuPress={() => setMenuVisible(true)}
+      />
+      <ScrollView style={styles.content} contentContainerStyle={styles.container}>
+        <GlassCard theme={theme} style={styles.sectionCard}>
+          <Text style={[styles.sectionTitle, { color: themeColors.text }]}>
+            {session.items.length} items due across your modules
+          </Text>
+          <Text style={[styles.summaryText, { color: themeColors.textSecondary }]}>
+            Cognitive state: {session.context}
+          </Text>
+          {renderKindCounts(queuedByKind)}
+          {session.deferred > 0 && (
+            <Text style={[styles.hintText, { color: themeColors.textMuted }]}>
+              {session.deferred} harder or new items held back until a better cognitive state
+            </Text>
+          )}
+        </GlassCard>
+        <Button
+          title={session.items.length > 0 ? 'Start Review' : 'All Caught Up'}
+          onPress={() => setStarted(true)}
+          disabled={session.items.length === 0}
+          variant="primary"
+          size="large"
+          theme={theme}
+        />
+      </ScrollView>
+      {menu}
+    </ScreenContainer>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    flex: 1,
+  },
+  container: {
+    paddingTop: 100,
+    padding: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    ...typography.body,
+  },
+  sectionCard: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    ...typography.h4,
+    marginBottom: spacing.sm,
+  },
+  summaryText: {
+    ...typography.bodySmall,
+  },
+  hintText: {
+    ...typography.caption,
+    marginTop: spacing.md,
+  },
+  kindRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.lg,
+  },
+  kindStat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  kindIcon: {
+    fontSize: 22,
+    marginBottom: spacing.xs,
+  },
+  kindValue: {
+    ...typography.h4,
+    fontWeight: 'bold',
+  },
+  kindLabel: {
+    ...typography.caption,
+    textAlign: 'center',
+  },
+  ratingSummary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.lg,
+  },
+  progressBar: {
+    width: '100%',
+    height: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: spacing.lg,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  reviewCard: {
+    minHeight: 260,
+    marginBottom: spacing.xl,
+  },
+  kindBadge: {
+    ...typography.caption,
+    fontWeight: '600',
+    marginBottom: spacing.lg,
+  },
+  promptText: {
+    ...typography.h4,
+    textAlign: 'center',
+    lineHeight: 28,
+    marginTop: spacing.md,
+  },
+  divider: {
+    height: 1,
+    marginVertical: spacing.xl,
+  },
+  ratingButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  ratingButton: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    alignItems: 'center',
+  },
+  ratingButtonText: {
+    color: '#FFFFFF',
+    ...typography.body,
+    fontWeight: 'bold',
+  },
+});
+
+export default DailyReviewScreen;
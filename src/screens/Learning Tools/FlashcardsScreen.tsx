@@ -22,9 +22,37 @@ import {
 import { colors, spacing, typography, borderRadius } from '../../theme/colors';
 import { ThemeType } from '../../theme/colors';
 import StorageService from '../../services/storage/StorageService';
-import { SpacedRepetitionService } from '../../services/learning/SpacedRepetitionService';
+import {
+  SpacedRepetitionService,
+  Rating,
+  CardState,
+  LearningPatternAnalysis,
+} from '../../services/learning/SpacedRepetitionService';
+import ReviewScheduler from '../../services/learning/ReviewScheduler';
 import { DynamicFlashcardsService } from '../../services/learning/DynamicFlashcardsService';
-import { Flashcard, StudySession } from '../../types';
+import NoteTypeService from '../../services/learning/NoteTypeService';
+import DeckService, {
+  DeckConfig,
+  DeckPreset,
+  StudiedToday,
+} from '../../services/learning/DeckService';
+import ReviewLoadBalancer, {
+  VacationPeriod,
+} from '../../services/learning/ReviewLoadBalancer';
+import DeckImportExportService, {
+  DeckFormat,
+  ImportPreview,
+} from '../../services/learning/DeckImportExportService';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageOcclusionView } from '../../components/learning/ImageOcclusionView';
+import {
+  Flashcard,
+  FlashcardNoteType,
+  OcclusionRegion,
+  StudySession,
+} from '../../types';
 
 // Add this helper function after imports
 const ensureDate = (dateValue: any): Date => {
@@ -35,6 +63,72 @@ const ensureDate = (dateValue: any): Date => {
   return new Date();
 };
 
+interface CardFormData {
+  front: string;
+  back: string;
+  category: string;
+  noteType: FlashcardNoteType;
+  imageUri: string;
+  regions: OcclusionRegion[];
+}
+
+const EMPTY_FORM: CardFormData = {
+  front: '',
+  back: '',
+  category: 'general',
+  noteType: 'basic',
+  imageUri: '',
+  regions: [],
+};
+
+const NOTE_TYPE_OPTIONS: Array<{ type: FlashcardNoteType; label: string }> = [
+  { type: 'basic', label: 'Basic' },
+  { type: 'reversed', label: 'Reversed' },
+  { type: 'cloze', label: 'Cloze' },
+  { type: 'image-occlusion', label: 'Image' },
+];
+
+const NOTE_FIELD_LABELS: Record<FlashcardNoteType, { front: string; back: string; frontHint: string; backHint: string }> = {
+  'basic': {
+    front: 'Front (Question/Prompt)',
+    back: 'Back (Answer/Definition)',
+    frontHint: 'Enter the question or prompt...',
+    backHint: 'Enter the answer or definition...',
+  },
+  'reversed': {
+    front: 'Side A (studied both ways)',
+    back: 'Side B',
+    frontHint: 'e.g., a term...',
+    backHint: 'e.g., its definition...',
+  },
+  'cloze': {
+    front: 'Text with deletions',
+    back: 'Extra (optional)',
+    frontHint: 'The {{c1::mitochondria}} is the {{c2::powerhouse}} of the cell',
+    backHint: 'Shown with the answer...',
+  },
+  'image-occlusion': {
+    front: 'Prompt (optional)',
+    back: 'Answer (optional)',
+    frontHint: 'e.g., Name the highlighted structure',
+    backHint: 'Shown with the answer...',
+  },
+};
+
+interface PresetFormData {
+  requestRetention: string;
+  maximumInterval: string;
+  newCardsPerDay: string;
+  reviewsPerDay: string;
+}
+
+const toPresetForm = (preset: DeckPreset): PresetFormData => ({
+  requestRetention: String(preset.requestRetention),
+  maximumInterval: String(preset.maximumInterval),
+  newCardsPerDay: String(preset.newCardsPerDay),
+  reviewsPerDay: String(preset.reviewsPerDay),
+});
+
 interface FlashcardsScreenProps {
   theme: ThemeType;
   onNavigate: (screen: string) => void;
@@ -63,6 +157,16 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
   const [createModalVisible, setCreateModalVisible] = useState(false);
   const [editModalVisible, setEditModalVisible] = useState(false);
   const [editingCard, setEditingCard] = useState<Flashcard | null>(null);
+  const [deckConfig, setDeckConfig] = useState<DeckConfig>({ presets: [], assignments: {} });
+  const [studiedToday, setStudiedToday] = useState<StudiedToday>({});
+  const [selectedDeck, setSelectedDeck] = useState<string | null>(null);
+  const [deckOptionsVisible, setDeckOptionsVisible] = useState(false);
+  const [presetForm, setPresetForm] = useState<PresetFormData | null>(null);
+  const [vacations, setVacations] = useState<VacationPeriod[]>([]);
+  const [vacationModalVisible, setVacationModalVisible] = useState(false);
+  const [exportModalVisible, setExportModalVisible] = useState(false);
+  const [vacationForm, setVacationForm] = useState<VacationPeriod>({ start: '', end: '' });
+  const [learningPatterns, setLearningPatterns] = useState<LearningPatternAnalysis | null>(null);
 
   // Study session state
   const [studyState, setStudyState] = useState<StudyState>({
@@ -76,11 +180,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
   });
 
   // Form state
-  const [formData, setFormData] = useState({
-    front: '',
-    back: '',
-    category: 'general',
-  });
+  const [formData, setFormData] = useState<CardFormData>(EMPTY_FORM);
 
   // Animation
   const fadeAnim = useState(new Animated.Value(1))[0];
@@ -88,7 +188,12 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
   const themeColors = colors[theme];
   const storage = StorageService.getInstance();
   const srs = SpacedRepetitionService.getInstance();
+  const scheduler = ReviewScheduler.getInstance();
   const dynamicService = DynamicFlashcardsService.getInstance();
+  const deckTransfer = DeckImportExportService.getInstance();
+  const noteTypes = NoteTypeService.getInstance();
+  const deckService = DeckService.getInstance();
+  const loadBalancer = ReviewLoadBalancer.getInstance();
 
   const loadFlashcards = useCallback(async () => {
     try {
@@ -111,24 +216,76 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
 
       setFlashcards(allCards);
 
+      // Deck presets and today's reviews drive the per-deck daily limits
+      const [config, reviewLogs, savedVacations] = await Promise.all([
+        deckService.getDeckConfig(),
+        storage.getReviewLogs(),
+        loadBalancer.getVacations(),
+      ]);
+      setDeckConfig(config);
+      setVacations(savedVacations);
+      setStudiedToday(deckService.getStudiedToday(reviewLogs, allCards));
+
       // Calculate due cards and cognitive load
       const due = srs.getDueCards(allCards);
       setDueCards(due);
 
       const cognitiveLoad = srs.calculateCognitiveLoad(sessions.slice(-10));
       setStudyState((prev) => ({ ...prev, cognitiveLoad }));
+
+      // Retention measured from the review-log store
+      setLearningPatterns(
+        await srs.analyzeLearningPatterns(allCards.map((card) => srs.convertLegacyCard(card))),
+      );
     } catch (error) {
       console.error('Error loading flashcards:', error);
     } finally {
       setLoading(false);
     }
-  }, [storage, srs, dynamicService, dataSource]);
+  }, [storage, srs, dynamicService, deckService, loadBalancer, dataSource]);
 
   useEffect(() => {
     loadFlashcards();
   }, [loadFlashcards]);
 
+  const buildNoteFromForm = useCallback((noteId?: string, created?: Date) => {
+    const note = noteTypes.createNote(formData.noteType, {
+      front: formData.front.trim(),
+      back: formData.back.trim(),
+      category: formData.category,
+      ...(formData.noteType === 'image-occlusion'
+        ? { imageUri: formData.imageUri, regions: formData.regions }
+        : {}),
+    });
+    if (noteId) note.id = noteId;
+    if (created) note.created = created;
+    return note;
+  }, [formData, noteTypes]);
+
   const createFlashcard = useCallback(async () => {
+    if (formData.noteType !== 'basic') {
+      const note = buildNoteFromForm();
+      const validationError = noteTypes.validateNote(note);
+      if (validationError) {
+        Alert.alert('Error', validationError);
+        return;
+      }
+
+      try {
+        const updatedCards = [...flashcards, ...noteTypes.generateCards(note)];
+        await storage.saveFlashcards(updatedCards);
+        setFlashcards(updatedCards);
+
+        setFormData(EMPTY_FORM);
+        setCreateModalVisible(false);
+        setDueCards(srs.getDueCards(updatedCards));
+      } catch (error) {
+        console.error('Error creating note:', error);
+        Alert.alert('Error', 'Failed to create flashcard');
+      }
+      return;
+    }
+
     if (!formData.front.trim() || !formData.back.trim()) {
       Alert.alert('Error', 'Please fill in both front and back of the card');
       return;
@@ -152,7 +309,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
       setFlashcards(updatedCards);
 
       // Reset form and close modal
-      setFormData({ front: '', back: '', category: 'general' });
+      setFormData(EMPTY_FORM);
       setCreateModalVisible(false);
 
       // Refresh due cards
@@ -162,9 +319,34 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
       console.error('Error creating flashcard:', error);
       Alert.alert('Error', 'Failed to create flashcard');
     }
-  }, [formData, flashcards, storage, srs]);
+  }, [formData, flashcards, storage, srs, noteTypes, buildNoteFromForm]);
 
   const updateFlashcard = useCallback(async () => {
+    // Note-backed cards are regenerated together so every sibling picks up the edit
+    if (editingCard?.noteId && editingCard.noteType && editingCard.noteType !== 'basic') {
+      const note = buildNoteFromForm(editingCard.noteId, editingCard.created);
+      const validationError = noteTypes.validateNote(note);
+      if (validationError) {
+        Alert.alert('Error', validationError);
+        return;
+      }
+
+      try {
+        const updatedCards = noteTypes.replaceNoteCards(flashcards, note);
+        await storage.saveFlashcards(updatedCards);
+        setFlashcards(updatedCards);
+
+        setFormData(EMPTY_FORM);
+        setEditModalVisible(false);
+        setEditingCard(null);
+        setDueCards(srs.getDueCards(updatedCards));
+      } catch (error) {
+        console.error('Error updating note:', error);
+        Alert.alert('Error', 'Failed to update flashcard');
+      }
+      return;
+    }
+
     if (!editingCard || !formData.front.trim() || !formData.back.trim()) {
       Alert.alert('Error', 'Please fill in both front and back of the card');
       return;
@@ -186,7 +368,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
       setFlashcards(updatedCards);
 
       // Reset form and close modal
-      setFormData({ front: '', back: '', category: 'general' });
+      setFormData(EMPTY_FORM);
       setEditModalVisible(false);
       setEditingCard(null);
 
@@ -197,12 +379,18 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
       console.error('Error updating flashcard:', error);
       Alert.alert('Error', 'Failed to update flashcard');
     }
-  }, [editingCard, formData, flashcards, storage, srs]);
+  }, [editingCard, formData, flashcards, storage, srs, noteTypes, buildNoteFromForm]);
 
   const deleteFlashcard = useCallback(async (cardId: string) => {
+    const card = flashcards.find((c) => c.id === cardId);
+    const siblings = card ? noteTypes.getSiblings(card, flashcards) : [];
+    const removedIds = new Set([cardId, ...siblings.map((sibling) => sibling.id)]);
+
     Alert.alert(
       'Delete Card',
-      'Are you sure you want to delete this flashcard?',
+      siblings.length > 0
+        ? `This card belongs to a note with ${siblings.length + 1} cards. Delete all of them?`
+        : 'Are you sure you want to delete this flashcard?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -211,7 +399,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
           onPress: async () => {
             try {
               const updatedCards = flashcards.filter(
-                (card) => card.id !== cardId,
+                (card) => !removedIds.has(card.id),
               );
               await storage.saveFlashcards(updatedCards);
               setFlashcards(updatedCards);
@@ -227,12 +415,117 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
         },
       ],
     );
+  }, [flashcards, storage, srs, noteTypes]);
+
+  const unsuspendFlashcard = useCallback(async (cardId: string) => {
+    try {
+      const updatedCards = flashcards.map((card) => {
+        if (card.id !== cardId) return card;
+        const { suspended: _suspended, ...rest } = card;
+        return rest;
+      });
+      await storage.saveFlashcards(updatedCards);
+      setFlashcards(updatedCards);
+      setDueCards(srs.getDueCards(updatedCards));
+    } catch (error) {
+      console.error('Error unsuspending flashcard:', error);
+      Alert.alert('Error', 'Failed to unsuspend flashcard');
+    }
   }, [flashcards, storage, srs]);
 
+  const commitDeckImport = useCallback(async (preview: ImportPreview, skipDuplicates: boolean) => {
+    try {
+      const result = await deckTransfer.commitImport(preview, { skipDuplicates });
+      await loadFlashcards();
+      Alert.alert(
+        'Import Complete',
+        `Imported ${result.imported} cards` +
+          (result.updatedDuplicates ? `, updated ${result.updatedDuplicates}` : '') +
+          (result.skippedDuplicates ? `, skipped ${result.skippedDuplicates} duplicates` : '') +
+          (result.reviewLogsImported ? `.\n${result.reviewLogsImported} review history entries added.` : '.'),
+      );
+    } catch (error) {
+      console.error('Error importing deck:', error);
+      Alert.alert('Error', 'Failed to import deck');
+    }
+  }, [deckTransfer, loadFlashcards]);
+
+  const importDeck = useCallback(async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      const asset = picked.canceled ? undefined : picked.assets[0];
+      if (!asset) return;
+
+      const format = deckTransfer.detectFormat(asset.name);
+      if (!format) {
+        Alert.alert('Unsupported File', 'Choose an Anki .apkg, .csv or .tsv file.');
+        return;
+      }
+
+      const file = new File(asset.uri);
+      const preview = await deckTransfer.previewImport(
+        format === 'apkg'
+          ? { format, data: await file.bytes() }
+          : { format, text: await file.text() },
+      );
+
+      if (preview.totalCards === 0) {
+        Alert.alert('Nothing to Import', `No cards found (${preview.skipped.length} rows skipped).`);
+        return;
+      }
+
+      const summary =
+        `${preview.totalCards} cards in ${preview.decks.length} deck(s)\n` +
+        `${preview.newCards} new • ${preview.duplicateCards} duplicates\n` +
+        `${preview.reviewLogCount} review history entries` +
+        (preview.skipped.length ? `\n${preview.skipped.length} rows skipped` : '');
+
+      const buttons: Parameters<typeof Alert.alert>[2] = [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Import New', onPress: () => commitDeckImport(preview, true) },
+      ];
+      if (preview.duplicateCards > 0) {
+        buttons.push({ text: 'Overwrite Duplicates', onPress: () => commitDeckImport(preview, false) });
+      }
+      Alert.alert('Import Preview', summary, buttons);
+    } catch (error) {
+      console.error('Error reading deck:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read deck');
+    }
+  }, [deckTransfer, commitDeckImport]);
+
+  const exportDeck = useCallback(async (format: DeckFormat) => {
+    try {
+      const manualCards = flashcards.filter(
+        (card) => !card.isAiGenerated && !dynamicCards.some((dc) => dc.id === card.id),
+      );
+      const result = await deckTransfer.exportDeck(format, manualCards);
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri, { dialogTitle: 'Export Flashcards' });
+      } else {
+        Alert.alert('Export Complete', `Saved ${result.cardCount} cards to ${result.fileName}`);
+      }
+    } catch (error) {
+      console.error('Error exporting deck:', error);
+      Alert.alert('Error', 'Failed to export deck');
+    }
+  }, [deckTransfer, flashcards, dynamicCards]);
+
   // Memoize expensive calculations
   const memoizedDueCards = useMemo(() => {
-    return srs.getDueCards(flashcards);
-  }, [flashcards, srs]);
+    return deckService.getDueCards(flashcards, deckConfig, studiedToday, selectedDeck);
+  }, [flashcards, deckService, deckConfig, studiedToday, selectedDeck]);
+
+  const memoizedForecast = useMemo(() => {
+    return loadBalancer.getWorkloadForecast(flashcards, vacations);
+  }, [flashcards, vacations, loadBalancer]);
+
+  const memoizedDeckList = useMemo(() => {
+    return deckService.flattenTree(deckService.buildDeckTree(flashcards, deckConfig));
+  }, [flashcards, deckService, deckConfig]);
 
   const memoizedAtRiskCards = useMemo(() => {
     return srs.getAtRiskCards(flashcards);
@@ -301,44 +594,44 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
       return null;
     }
 
-    // Convert numeric rating to difficulty string
-    const difficultyMap: {
-      [key: number]: 'again' | 'hard' | 'good' | 'easy' | 'perfect';
-    } = {
-      1: 'again',
-      2: 'hard',
-      3: 'good',
-      4: 'easy',
-      5: 'perfect',
-    };
-
-    const difficulty = difficultyMap[rating]!;
-
-    // Update card using spaced repetition algorithm
-    let nextReviewDate: any;
+    // Update card using the shared FSRS scheduler, which also records its review log
+    let updatedCard: Flashcard;
     try {
-      nextReviewDate = srs.scheduleNextReview(difficulty, currentCard);
+      const wasNew = srs.convertLegacyCard(currentCard).state === CardState.New;
+      const result = await scheduler.review(
+        'flashcard',
+        currentCard,
+        Math.min(rating, Rating.Easy) as Rating,
+        {
+          overrides: deckService.getSchedulingOverrides(currentCard, deckConfig),
+          balance: loadBalancer.createContext(
+            flashcards.filter((card) => card.id !== currentCard.id),
+            vacations,
+          ),
+        },
+      );
+      updatedCard = result.entity;
+      setStudiedToday((prev) =>
+        deckService.recordStudied(prev, currentCard, wasNew),
+      );
     } catch (e) {
       // Fallback to now if SRS fails
-      nextReviewDate = new Date();
+      updatedCard = { ...currentCard, nextReview: new Date() };
     }
 
-    // Ensure nextReviewDate is a proper Date object
-    const safeNextReviewDate =
-      nextReviewDate instanceof Date
-        ? nextReviewDate
-        : new Date(nextReviewDate);
-
-    // Create updated card with new review date
-    const updatedCard = {
-      ...currentCard,
-      nextReview: ensureDate(nextReviewDate),
-    };
-
-    // Update flashcards array
-    const updatedCards = flashcards.map((card) =>
-      card.id === currentCard.id ? updatedCard : card,
+    // Update flashcards array and bury siblings generated from the same note
+    const updatedCards = srs.burySiblings(
+      flashcards.map((card) =>
+        card.id === currentCard.id ? updatedCard : card,
+      ),
+      currentCard,
     );
+    const sessionCards = currentCard.noteId
+      ? studyState.cards.filter(
+          (card, index) =>
+            index <= studyState.currentIndex || card.noteId !== currentCard.noteId,
+        )
+      : studyState.cards;
 
     try {
       await storage.saveFlashcards(updatedCards);
@@ -346,11 +639,12 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
 
       // Move to next card or finish session
       const nextIndex = studyState.currentIndex + 1;
-      if (nextIndex >= studyState.cards.length) {
-        await finishStudySession();
+      if (nextIndex >= sessionCards.length) {
+        await finishStudySession(updatedCards);
       } else {
         setStudyState((prev) => ({
           ...prev,
+          cards: sessionCards,
           currentIndex: nextIndex,
           showAnswer: false,
           cardsStudied: prev.cardsStudied + 1,
@@ -374,9 +668,9 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
       console.error('Error updating card:', error);
       Alert.alert('Error', 'Failed to update card');
     }
-  }, [studyState, flashcards, storage, srs, fadeAnim]);
+  }, [studyState, flashcards, storage, srs, scheduler, deckService, deckConfig, loadBalancer, vacations, fadeAnim]);
 
-  const finishStudySession = async () => {
+  const finishStudySession = async (latestCards: Flashcard[] = flashcards) => {
     const sessionDuration =
       (new Date().getTime() - studyState.sessionStartTime.getTime()) /
       1000 /
@@ -408,7 +702,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
       });
 
       // Refresh due cards
-      const due = srs.getDueCards(flashcards);
+      const due = srs.getDueCards(latestCards);
       setDueCards(due);
 
       Alert.alert(
@@ -421,16 +715,187 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
     }
   };
 
+  const openDeckOptions = () => {
+    if (!selectedDeck) return;
+    setPresetForm(toPresetForm(deckService.resolvePreset(selectedDeck, deckConfig)));
+    setDeckOptionsVisible(true);
+  };
+
+  const saveDeckOptions = async () => {
+    if (!selectedDeck || !presetForm) return;
+    try {
+      const config = await deckService.updateDeckPreset(selectedDeck, {
+        requestRetention: parseFloat(presetForm.requestRetention),
+        maximumInterval: parseInt(presetForm.maximumInterval, 10),
+        newCardsPerDay: parseInt(presetForm.newCardsPerDay, 10),
+        reviewsPerDay: parseInt(presetForm.reviewsPerDay, 10),
+      });
+      setDeckConfig(config);
+      setDeckOptionsVisible(false);
+      setPresetForm(null);
+    } catch (error) {
+      Alert.alert('Invalid Options', error instanceof Error ? error.message : 'Failed to save deck options');
+    }
+  };
+
+  const planVacation = () => {
+    try {
+      const plan = loadBalancer.planVacation(flashcards, {
+        start: vacationForm.start.trim(),
+        end: vacationForm.end.trim(),
+      });
+      const moved = plan.advanced + plan.postponed;
+      Alert.alert(
+        'Vacation Plan',
+        moved === 0
+          ? 'No reviews fall due during this vacation. New reviews will be scheduled around it.'
+          : `${plan.advanced} reviews moved before and ${plan.postponed} after your vacation.\n` +
+            `Predicted recall when reviewed: ${Math.round(plan.averageRetentionAtReview * 100)}%`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Apply',
+            onPress: async () => {
+              try {
+                const saved = await loadBalancer.applyVacationPlan(plan);
+                setFlashcards((prev) => loadBalancer.applyMoves(prev, plan.moves));
+                setVacations(saved);
+                setVacationModalVisible(false);
+                setVacationForm({ start: '', end: '' });
+              } catch (error) {
+                console.error('Error applying vacation:', error);
+                Alert.alert('Error', 'Failed to reschedule reviews');
+              }
+            },
+          },
+        ],
+      );
+    } catch (error) {
+      Alert.alert('Invalid Dates', error instanceof Error ? error.message : 'Check the vacation dates');
+    }
+  };
+
+  const removeVacation = async (period: VacationPeriod) => {
+    try {
+      setVacations(await loadBalancer.removeVacation(period));
+    } catch (error) {
+      console.error('Error removing vacation:', error);
+    }
+  };
+
   const openEditModal = (card: Flashcard) => {
     setEditingCard(card);
+    // Note-backed cards edit the note's source fields rather than the rendered sides
+    const note = noteTypes.getNoteForCard(card);
     setFormData({
-      front: card.front,
-      back: card.back,
+      front: note?.front ?? card.front,
+      back: note?.back ?? card.back,
       category: card.category ?? 'general',
+      noteType: note?.type ?? 'basic',
+      imageUri: note?.imageUri ?? '',
+      regions: note?.regions ?? [],
     });
     setEditModalVisible(true);
   };
 
+  const pickOcclusionImage = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: 'image/*',
+        copyToCacheDirectory: true,
+      });
+      const asset = picked.canceled ? undefined : picked.assets[0];
+      if (!asset) return;
+
+      // The picker's cache copy can be purged by the OS; keep the note's image in documents
+      const source = new File(asset.uri);
+      const directory = new Directory(Paths.document, 'flashcard-media');
+      directory.create({ intermediates: true, idempotent: true });
+      const stored = new File(directory, `occlusion_${Date.now()}${source.extension}`);
+      source.copy(stored);
+
+      setFormData((prev) => ({ ...prev, imageUri: stored.uri, regions: [] }));
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert('Error', 'Failed to load image');
+    }
+  };
+
+  const renderNoteTypeFields = (allowTypeChange: boolean) => (
+    <>
+      {allowTypeChange && (
+        <View style={styles.formGroup}>
+          <Text
+            style={[styles.formLabel, { color: themeColors.textSecondary }]}
+          >
+            Note Type
+          </Text>
+          <View style={styles.dataSourceButtons}>
+            {NOTE_TYPE_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.type}
+                style={[
+                  styles.dataSourceButton,
+                  formData.noteType === option.type && { backgroundColor: themeColors.primary },
+                  { borderColor: themeColors.border },
+                ]}
+                onPress={() =>
+                  setFormData((prev) => ({ ...prev, noteType: option.type }))
+                }
+              >
+                <Text
+                  style={[
+                    styles.dataSourceButtonText,
+                    { color: formData.noteType === option.type ? '#FFFFFF' : themeColors.text },
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {formData.noteType === 'image-occlusion' && (
+        <View style={styles.formGroup}>
+          <Button
+            title={formData.imageUri ? 'Change Image' : 'Choose Image'}
+            onPress={pickOcclusionImage}
+            variant="ghost"
+            theme={theme}
+          />
+          {!!formData.imageUri && (
+            <>
+              <Text
+                style={[styles.formLabel, { color: themeColors.textMuted, marginTop: spacing.sm }]}
+              >
+                Tap to mask a region • tap a mask to remove it ({formData.regions.length} regions)
+              </Text>
+              <ImageOcclusionView
+                imageUri={formData.imageUri}
+                regions={formData.regions}
+                maskColor={themeColors.warning}
+                onAddRegion={(x, y) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    regions: [...prev.regions, noteTypes.createRegion(x, y)],
+                  }))
+                }
+                onRemoveRegion={(regionId) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    regions: prev.regions.filter((region) => region.id !== regionId),
+                  }))
+                }
+              />
+            </>
+          )}
+        </View>
+      )}
+    </>
+  );
+
   const getRatingColor = (rating: number): string => {
     switch (rating) {
       case 1:
@@ -504,7 +969,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                   'Are you sure you want to end this study session?',
                   [
                     { text: 'Continue', style: 'cancel' },
-                    { text: 'End Session', onPress: finishStudySession },
+                    { text: 'End Session', onPress: () => finishStudySession() },
                   ],
                 );
               }}
@@ -574,6 +1039,16 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
               </View>
 
               <View style={styles.cardContent}>
+                {currentCard.occlusion && (
+                  <ImageOcclusionView
+                    imageUri={currentCard.occlusion.imageUri}
+                    regions={currentCard.occlusion.regions}
+                    targetRegionId={currentCard.occlusion.targetRegionId}
+                    revealed={studyState.showAnswer}
+                    maskColor={themeColors.warning}
+                    highlightColor={themeColors.error}
+                  />
+                )}
                 <Text style={[styles.cardSide, { color: themeColors.text }]}>
                   {currentCard.front}
                 </Text>
@@ -740,7 +1215,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                 {memoizedDueCards.length}
               </Text>
               <Text style={[styles.statusLabel, { color: themeColors.text }]}>
-                Due Cards
+                {selectedDeck ? 'Due in Deck' : 'Due Cards'}
               </Text>
             </View>
 
@@ -787,6 +1262,164 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
           )}
         </GlassCard>
 
+        {/* 30-Day Workload Forecast */}
+        <GlassCard theme={theme} style={styles.dataSourceCard}>
+          <Text style={[styles.dataSourceTitle, { color: themeColors.text }]}>
+            📈 Next 30 Days
+          </Text>
+          <View style={styles.forecastChart}>
+            {(() => {
+              const peak = Math.max(1, ...memoizedForecast.map((day) => day.total));
+              return memoizedForecast.map((day) => (
+                <View key={day.date} style={styles.forecastColumn}>
+                  <View
+                    style={[
+                      styles.forecastBar,
+                      {
+                        height: `${(day.total / peak) * 100}%`,
+                        backgroundColor: day.isVacation ? themeColors.warning : themeColors.primary,
+                      },
+                    ]}
+                  />
+                </View>
+              ));
+            })()}
+          </View>
+          <Text style={[styles.dataSourceDescription, { color: themeColors.textSecondary }]}>
+            {memoizedForecast.reduce((sum, day) => sum + day.total, 0)} reviews • peak{' '}
+            {Math.max(0, ...memoizedForecast.map((day) => day.total))}/day
+          </Text>
+          {vacations.map((period) => (
+            <TouchableOpacity
+              key={`${period.start}_${period.end}`}
+              onPress={() =>
+                Alert.alert('Vacation', `Stop avoiding ${period.start} – ${period.end}?`, [
+                  { text: 'Keep', style: 'cancel' },
+                  { text: 'Remove', style: 'destructive', onPress: () => removeVacation(period) },
+                ])
+              }
+            >
+              <Text style={[styles.dataSourceDescription, { color: themeColors.warning }]}>
+                🏖️ Vacation {period.start} – {period.end}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <Button
+            title="Plan Vacation"
+            onPress={() => setVacationModalVisible(true)}
+            variant="ghost"
+            theme={theme}
+            style={styles.startButton}
+          />
+        </GlassCard>
+
+        {/* Retention */}
+        {learningPatterns && (
+          <GlassCard theme={theme} style={styles.dataSourceCard}>
+            <Text style={[styles.dataSourceTitle, { color: themeColors.text }]}>
+              🎯 Retention
+            </Text>
+            <Text style={[styles.dataSourceDescription, { color: themeColors.textSecondary }]}>
+              {Math.round(learningPatterns.averageRetention * 100)}% recalled • target{' '}
+              {Math.round(srs.getParameters().requestRetention * 100)}%
+            </Text>
+            {learningPatterns.difficultCardTypes.length > 0 && (
+              <Text style={[styles.dataSourceDescription, { color: themeColors.warning }]}>
+                Below target: {learningPatterns.difficultCardTypes.slice(0, 3).join(', ')}
+              </Text>
+            )}
+            <Text style={[styles.dataSourceDescription, { color: themeColors.textSecondary }]}>
+              Best recall: {learningPatterns.optimalStudyTimes.join(', ')}
+            </Text>
+            <Text style={[styles.dataSourceDescription, { color: themeColors.textSecondary }]}>
+              {learningPatterns.suggestionForImprovement}
+            </Text>
+          </GlassCard>
+        )}
+
+        {/* Decks */}
+        {memoizedDeckList.length > 0 && (
+          <GlassCard theme={theme} style={styles.dataSourceCard}>
+            <Text style={[styles.dataSourceTitle, { color: themeColors.text }]}>
+              🗂️ Decks
+            </Text>
+            <TouchableOpacity
+              style={[
+                styles.deckRow,
+                selectedDeck === null && { backgroundColor: themeColors.surfaceLight },
+              ]}
+              onPress={() => setSelectedDeck(null)}
+            >
+              <Text style={[styles.deckName, { color: themeColors.text }]}>All Decks</Text>
+              <Text style={[styles.deckCounts, { color: themeColors.textMuted }]}>
+                {flashcards.length}
+              </Text>
+            </TouchableOpacity>
+            {memoizedDeckList.map((deck) => (
+              <TouchableOpacity
+                key={deck.path}
+                style={[
+                  styles.deckRow,
+                  { paddingLeft: spacing.sm + deck.depth * spacing.lg },
+                  selectedDeck === deck.path && { backgroundColor: themeColors.surfaceLight },
+                ]}
+                onPress={() =>
+                  setSelectedDeck((prev) => (prev === deck.path ? null : deck.path))
+                }
+              >
+                <Text
+                  style={[
+                    styles.deckName,
+                    { color: selectedDeck === deck.path ? themeColors.primary : themeColors.text },
+                  ]}
+                >
+                  {deck.name}
+                </Text>
+                <Text style={[styles.deckCounts, { color: themeColors.textMuted }]}>
+                  {deck.dueCount > 0 ? `${deck.dueCount} due • ` : ''}{deck.cardCount}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            {selectedDeck && (
+              <Button
+                title="Deck Options"
+                onPress={openDeckOptions}
+                variant="ghost"
+                theme={theme}
+                style={styles.startButton}
+              />
+            )}
+          </GlassCard>
+        )}
+
+        {/* Deck Import / Export */}
+        <GlassCard theme={theme} style={styles.dataSourceCard}>
+          <Text style={[styles.dataSourceTitle, { color: themeColors.text }]}>
+            📦 Import / Export
+          </Text>
+          <View style={styles.dataSourceButtons}>
+            <TouchableOpacity
+              style={[styles.dataSourceButton, { borderColor: themeColors.border }]}
+              onPress={importDeck}
+            >
+              <Text style={[styles.dataSourceButtonText, { color: themeColors.text }]}>
+                Import
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.dataSourceButton, { borderColor: themeColors.border }]}
+              onPress={() => setExportModalVisible(true)}
+            >
+              <Text style={[styles.dataSourceButtonText, { color: themeColors.text }]}>
+                Export
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={[styles.dataSourceDescription, { color: themeColors.textSecondary }]}>
+            Anki .apkg, CSV and TSV decks. Imports are previewed before anything is saved.
+          </Text>
+        </GlassCard>
+
         {/* At Risk Cards */}
         {memoizedAtRiskCards.length > 0 && (
           <GlassCard theme={theme} style={styles.warningCard}>
@@ -859,6 +1492,20 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                             AI
                           </Text>
                         )}
+                        {card.suspended && (
+                          <TouchableOpacity
+                            onPress={() =>
+                              Alert.alert('Suspended', 'Bring this card back into reviews?', [
+                                { text: 'Cancel', style: 'cancel' },
+                                { text: 'Unsuspend', onPress: () => unsuspendFlashcard(card.id) },
+                              ])
+                            }
+                          >
+                            <Text style={[styles.cardTag, { backgroundColor: themeColors.warning }]}>
+                              SUSPENDED
+                            </Text>
+                          </TouchableOpacity>
+                        )}
                       </View>
                       <Text
                         style={[
@@ -968,11 +1615,13 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
               Create New Flashcard
             </Text>
 
+            {renderNoteTypeFields(true)}
+
             <View style={styles.formGroup}>
               <Text
                 style={[styles.formLabel, { color: themeColors.textSecondary }]}
               >
-                Front (Question/Prompt)
+                {NOTE_FIELD_LABELS[formData.noteType].front}
               </Text>
               <TextInput
                 style={[
@@ -983,7 +1632,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                     backgroundColor: themeColors.surfaceLight,
                   },
                 ]}
-                placeholder="Enter the question or prompt..."
+                placeholder={NOTE_FIELD_LABELS[formData.noteType].frontHint}
                 placeholderTextColor={themeColors.textMuted}
                 value={formData.front}
                 onChangeText={(text) =>
@@ -997,7 +1646,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
               <Text
                 style={[styles.formLabel, { color: themeColors.textSecondary }]}
               >
-                Back (Answer/Definition)
+                {NOTE_FIELD_LABELS[formData.noteType].back}
               </Text>
               <TextInput
                 style={[
@@ -1008,7 +1657,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                     backgroundColor: themeColors.surfaceLight,
                   },
                 ]}
-                placeholder="Enter the answer or definition..."
+                placeholder={NOTE_FIELD_LABELS[formData.noteType].backHint}
                 placeholderTextColor={themeColors.textMuted}
                 value={formData.back}
                 onChangeText={(text) =>
@@ -1022,7 +1671,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
               <Text
                 style={[styles.formLabel, { color: themeColors.textSecondary }]}
               >
-                Category
+                Deck
               </Text>
               <TextInput
                 style={[
@@ -1033,7 +1682,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                     backgroundColor: themeColors.surfaceLight,
                   },
                 ]}
-                placeholder="e.g., vocabulary, concepts, formulas..."
+                placeholder="e.g., CS::Algorithms::Graphs"
                 placeholderTextColor={themeColors.textMuted}
                 value={formData.category}
                 onChangeText={(text) =>
@@ -1047,7 +1696,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                 title="Cancel"
                 onPress={() => {
                   setCreateModalVisible(false);
-                  setFormData({ front: '', back: '', category: 'general' });
+                  setFormData(EMPTY_FORM);
                 }}
                 variant="ghost"
                 theme={theme}
@@ -1067,6 +1716,279 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
         </Modal>
       )}
 
+      {/* Vacation Modal */}
+      {vacationModalVisible && (
+        <Modal
+          visible={vacationModalVisible}
+          transparent={true}
+          animationType="slide"
+          onRequestClose={() => setVacationModalVisible(false)}
+        >
+        <View style={styles.modalOverlay}>
+          <GlassCard theme={theme} style={styles.modalContent}>
+            <Text style={[styles.modalTitle, { color: themeColors.text }]}>
+              Vacation Mode
+            </Text>
+            <Text style={[styles.dataSourceDescription, { color: themeColors.textMuted }]}>
+              Reviews due while you are away are moved just before or after, whichever keeps recall higher
+            </Text>
+
+            <View style={styles.formGroup}>
+              <Text
+                style={[styles.formLabel, { color: themeColors.textSecondary }]}
+              >
+                First day away (YYYY-MM-DD)
+              </Text>
+              <TextInput
+                style={[
+                  styles.formInput,
+                  {
+                    borderColor: themeColors.border,
+                    color: themeColors.text,
+                    backgroundColor: themeColors.surfaceLight,
+                  },
+                ]}
+                placeholder="2025-12-20"
+                placeholderTextColor={themeColors.textMuted}
+                value={vacationForm.start}
+                onChangeText={(text) =>
+                  setVacationForm((prev) => ({ ...prev, start: text }))
+                }
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text
+                style={[styles.formLabel, { color: themeColors.textSecondary }]}
+              >
+                Last day away (YYYY-MM-DD)
+              </Text>
+              <TextInput
+                style={[
+                  styles.formInput,
+                  {
+                    borderColor: themeColors.border,
+                    color: themeColors.text,
+                    backgroundColor: themeColors.surfaceLight,
+                  },
+                ]}
+                placeholder="2025-12-20"
+                placeholderTextColor={themeColors.textMuted}
+                value={vacationForm.end}
+                onChangeText={(text) =>
+                  setVacationForm((prev) => ({ ...prev, end: text }))
+                }
+              />
+            </View>
+
+            <View style={styles.modalButtons}>
+              <Button
+                title="Cancel"
+                onPress={() => {
+                  setVacationModalVisible(false);
+                  setVacationForm({ start: '', end: '' });
+                }}
+                variant="ghost"
+                theme={theme}
+                style={styles.modalButton}
+              />
+
+              <Button
+                title="Preview"
+                onPress={planVacation}
+                variant="primary"
+                theme={theme}
+                style={styles.modalButton}
+              />
+            </View>
+          </GlassCard>
+        </View>
+        </Modal>
+      )}
+
+      {/* Export Format Modal */}
+      {exportModalVisible && (
+        <Modal
+          visible={exportModalVisible}
+          transparent={true}
+          animationType="slide"
+          onRequestClose={() => setExportModalVisible(false)}
+        >
+        <View style={styles.modalOverlay}>
+          <GlassCard theme={theme} style={styles.modalContent}>
+            <Text style={[styles.modalTitle, { color: themeColors.text }]}>
+              Export Format
+            </Text>
+            <Text style={[styles.dataSourceDescription, { color: themeColors.textMuted }]}>
+              Anki packages keep note types and review history; CSV and TSV export one row per card
+            </Text>
+
+            {([
+              ['apkg', 'Anki (.apkg)'],
+              ['csv', 'CSV'],
+              ['tsv', 'TSV'],
+            ] as const).map(([format, label]) => (
+              <Button
+                key={format}
+                title={label}
+                onPress={() => {
+                  setExportModalVisible(false);
+                  exportDeck(format);
+                }}
+                variant="outline"
+                theme={theme}
+                style={styles.startButton}
+              />
+            ))}
+
+            <View style={styles.modalButtons}>
+              <Button
+                title="Cancel"
+                onPress={() => setExportModalVisible(false)}
+                variant="ghost"
+                theme={theme}
+                style={styles.modalButton}
+              />
+            </View>
+          </GlassCard>
+        </View>
+        </Modal>
+      )}
+
+      {/* Deck Options Modal */}
+      {deckOptionsVisible && presetForm && selectedDeck && (
+        <Modal
+          visible={deckOptionsVisible}
+          transparent={true}
+          animationType="slide"
+          onRequestClose={() => setDeckOptionsVisible(false)}
+        >
+        <View style={styles.modalOverlay}>
+          <GlassCard theme={theme} style={styles.modalContent}>
+            <Text style={[styles.modalTitle, { color: themeColors.text }]}>
+              Options: {selectedDeck}
+            </Text>
+            <Text style={[styles.dataSourceDescription, { color: themeColors.textMuted }]}>
+              Applies to this deck and subdecks without their own options
+            </Text>
+
+            <View style={styles.formGroup}>
+              <Text
+                style={[styles.formLabel, { color: themeColors.textSecondary }]}
+              >
+                Target Retention (0.70-0.99)
+              </Text>
+              <TextInput
+                style={[
+                  styles.formInput,
+                  {
+                    borderColor: themeColors.border,
+                    color: themeColors.text,
+                    backgroundColor: themeColors.surfaceLight,
+                  },
+                ]}
+                keyboardType="decimal-pad"
+                value={presetForm.requestRetention}
+                onChangeText={(text) =>
+                  setPresetForm((prev) => (prev ? { ...prev, requestRetention: text } : prev))
+                }
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text
+                style={[styles.formLabel, { color: themeColors.textSecondary }]}
+              >
+                Maximum Interval (days)
+              </Text>
+              <TextInput
+                style={[
+                  styles.formInput,
+                  {
+                    borderColor: themeColors.border,
+                    color: themeColors.text,
+                    backgroundColor: themeColors.surfaceLight,
+                  },
+                ]}
+                keyboardType="number-pad"
+                value={presetForm.maximumInterval}
+                onChangeText={(text) =>
+                  setPresetForm((prev) => (prev ? { ...prev, maximumInterval: text } : prev))
+                }
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text
+                style={[styles.formLabel, { color: themeColors.textSecondary }]}
+              >
+                New Cards / Day
+              </Text>
+              <TextInput
+                style={[
+                  styles.formInput,
+                  {
+                    borderColor: themeColors.border,
+                    color: themeColors.text,
+                    backgroundColor: themeColors.surfaceLight,
+                  },
+                ]}
+                keyboardType="number-pad"
+                value={presetForm.newCardsPerDay}
+                onChangeText={(text) =>
+                  setPresetForm((prev) => (prev ? { ...prev, newCardsPerDay: text } : prev))
+                }
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text
+                style={[styles.formLabel, { color: themeColors.textSecondary }]}
+              >
+                Reviews / Day
+              </Text>
+              <TextInput
+                style={[
+                  styles.formInput,
+                  {
+                    borderColor: themeColors.border,
+                    color: themeColors.text,
+                    backgroundColor: themeColors.surfaceLight,
+                  },
+                ]}
+                keyboardType="number-pad"
+                value={presetForm.reviewsPerDay}
+                onChangeText={(text) =>
+                  setPresetForm((prev) => (prev ? { ...prev, reviewsPerDay: text } : prev))
+                }
+              />
+            </View>
+
+            <View style={styles.modalButtons}>
+              <Button
+                title="Cancel"
+                onPress={() => {
+                  setDeckOptionsVisible(false);
+                  setPresetForm(null);
+                }}
+                variant="ghost"
+                theme={theme}
+                style={styles.modalButton}
+              />
+
+              <Button
+                title="Save"
+                onPress={saveDeckOptions}
+                variant="primary"
+                theme={theme}
+                style={styles.modalButton}
+              />
+            </View>
+          </GlassCard>
+        </View>
+        </Modal>
+      )}
+
       {/* Edit Card Modal */}
       {editModalVisible && (
         <Modal
@@ -1081,11 +2003,13 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
               Edit Flashcard
             </Text>
 
+            {renderNoteTypeFields(false)}
+
             <View style={styles.formGroup}>
               <Text
                 style={[styles.formLabel, { color: themeColors.textSecondary }]}
               >
-                Front (Question/Prompt)
+                {NOTE_FIELD_LABELS[formData.noteType].front}
               </Text>
               <TextInput
                 style={[
@@ -1096,7 +2020,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                     backgroundColor: themeColors.surfaceLight,
                   },
                 ]}
-                placeholder="Enter the question or prompt..."
+                placeholder={NOTE_FIELD_LABELS[formData.noteType].frontHint}
                 placeholderTextColor={themeColors.textMuted}
                 value={formData.front}
                 onChangeText={(text) =>
@@ -1110,7 +2034,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
               <Text
                 style={[styles.formLabel, { color: themeColors.textSecondary }]}
               >
-                Back (Answer/Definition)
+                {NOTE_FIELD_LABELS[formData.noteType].back}
               </Text>
               <TextInput
                 style={[
@@ -1121,7 +2045,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                     backgroundColor: themeColors.surfaceLight,
                   },
                 ]}
-                placeholder="Enter the answer or definition..."
+                placeholder={NOTE_FIELD_LABELS[formData.noteType].backHint}
                 placeholderTextColor={themeColors.textMuted}
                 value={formData.back}
                 onChangeText={(text) =>
@@ -1135,7 +2059,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
               <Text
                 style={[styles.formLabel, { color: themeColors.textSecondary }]}
               >
-                Category
+                Deck
               </Text>
               <TextInput
                 style={[
@@ -1146,7 +2070,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                     backgroundColor: themeColors.surfaceLight,
                   },
                 ]}
-                placeholder="e.g., vocabulary, concepts, formulas..."
+                placeholder="e.g., CS::Algorithms::Graphs"
                 placeholderTextColor={themeColors.textMuted}
                 value={formData.category}
                 onChangeText={(text) =>
@@ -1161,7 +2085,7 @@ export const FlashcardsScreen: React.FC<FlashcardsScreenProps> = ({
                 onPress={() => {
                   setEditModalVisible(false);
                   setEditingCard(null);
-                  setFormData({ front: '', back: '', category: 'general' });
+                  setFormData(EMPTY_FORM);
                 }}
                 variant="ghost"
                 theme={theme}
@@ -1352,6 +2276,38 @@ const styles = StyleSheet.create({
     ...typography.body,
     lineHeight: 22,
   },
+  forecastChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 80,
+    marginBottom: spacing.sm,
+  },
+  forecastColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  forecastBar: {
+    width: '100%',
+    minHeight: 2,
+    borderRadius: 2,
+  },
+  deckRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.sm,
+  },
+  deckName: {
+    ...typography.body,
+    flex: 1,
+  },
+  deckCounts: {
+    ...typography.caption,
+  },
   cardsSection: {
     marginBottom: spacing.xl,
   },
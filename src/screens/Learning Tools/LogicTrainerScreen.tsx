@@ -529,7 +529,7 @@ export const LogicTrainerScreen: React.FC<LogicTrainerScreenProps> = ({
       if (isReviewMode && dueLogicNodes[currentNodeIndex]) {
         // Update existing logic node
         const currentNode = dueLogicNodes[currentNodeIndex];
-        updatedLogicNode = logicTrainingFSRS.scheduleNextLogicReview(
+        updatedLogicNode = await logicTrainingFSRS.scheduleNextLogicReview(
           currentNode,
           finalScore,
           0.5, // TODO: Get actual cognitive load
@@ -569,7 +569,7 @@ export const LogicTrainerScreen: React.FC<LogicTrainerScreenProps> = ({
         }
 
         // Schedule first review with FSRS
-        updatedLogicNode = logicTrainingFSRS.scheduleNextLogicReview(
+        updatedLogicNode = await logicTrainingFSRS.scheduleNextLogicReview(
           updatedLogicNode,
           finalScore,
           0.5,
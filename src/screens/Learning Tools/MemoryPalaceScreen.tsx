@@ -24,6 +24,18 @@ import { ThemeType } from '../../theme/colors';
 import StorageService from '../../services/storage/StorageService';
 import { MemoryPalace, MemoryLocation, MemoryItem } from '../../types';
 import { DynamicMemoryPalaceService } from '../../services/learning/DynamicMemoryPalaceService';
+import PalaceQuizService, {
+  PalaceQuiz,
+  PalaceQuizAnswer,
+  PalaceQuizOptions,
+} from '../../services/learning/PalaceQuizService';
+import { Rating } from '../../services/learning/SpacedRepetitionService';
+import PalaceInterchangeService, {
+  PalaceFileFormat,
+} from '../../services/learning/PalaceInterchangeService';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File } from 'expo-file-system';
 
 interface MemoryPalaceScreenProps {
   theme: ThemeType;
@@ -169,6 +181,12 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
   // Study session
   const [studySession, setStudySession] = useState<StudySession | null>(null);
 
+  // Recall quiz
+  const [quiz, setQuiz] = useState<PalaceQuiz | null>(null);
+  const [quizAnswer, setQuizAnswer] = useState('');
+  const [lastQuizAnswer, setLastQuizAnswer] = useState<PalaceQuizAnswer | null>(null);
+  const [questionStartedAt, setQuestionStartedAt] = useState(Date.now());
+
   // Forms
   const [createForm, setCreateForm] = useState<CreatePalaceForm>({
     name: '',
@@ -185,6 +203,8 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
 
   const themeColors = colors[theme];
   const storage = StorageService.getInstance();
+  const palaceQuiz = PalaceQuizService.getInstance();
+  const palaceTransfer = PalaceInterchangeService.getInstance();
   // Helper: compute palace stats
   function getPalaceStats(palace: MemoryPalace) {
     const totalLocations = palace.locations?.length || 0;
@@ -464,6 +484,73 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
     });
   };
 
+  const beginQuiz = (palace: MemoryPalace, options: PalaceQuizOptions) => {
+    const created = palaceQuiz.createQuiz(palace, options);
+    if (created.questions.length === 0) {
+      Alert.alert(
+        options.dueOnly ? 'Nothing Due' : 'No Items to Quiz',
+        options.dueOnly
+          ? 'Every item in this palace is scheduled for later. Try a full walkthrough instead.'
+          : 'Add some memory items to this palace first before starting a quiz.',
+      );
+      return;
+    }
+    setQuiz(created);
+    setQuizAnswer('');
+    setLastQuizAnswer(null);
+    setQuestionStartedAt(Date.now());
+  };
+
+  const startQuiz = (palace: MemoryPalace) => {
+    Alert.alert('Recall Quiz', 'Walk the route and name the item at each location.', [
+      { text: 'In Order', onPress: () => beginQuiz(palace, { direction: 'forward' }) },
+      { text: 'Reverse Order', onPress: () => beginQuiz(palace, { direction: 'reverse' }) },
+      { text: 'Due Items Only', onPress: () => beginQuiz(palace, { direction: 'forward', dueOnly: true }) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const submitQuizAnswer = () => {
+    if (!quiz || lastQuizAnswer) return;
+    const next = palaceQuiz.answerQuestion(quiz, quizAnswer, Date.now() - questionStartedAt);
+    setQuiz(next);
+    setLastQuizAnswer(next.answers[next.answers.length - 1] ?? null);
+  };
+
+  const endQuiz = useCallback(async (finished: PalaceQuiz) => {
+    try {
+      const { palaces: updatedPalaces, summary } = await palaceQuiz.finishQuiz(finished, palaces);
+      setPalaces(updatedPalaces);
+      setQuiz(null);
+      setLastQuizAnswer(null);
+      if (summary.answered === 0) return;
+
+      const weakText = summary.weakLoci.length > 0
+        ? `\n\nWeak loci: ${summary.weakLoci.join(', ')} will come back sooner.`
+        : '';
+      Alert.alert(
+        'Quiz Complete! 🏰',
+        `${summary.correct}/${summary.answered} recalled (${Math.round(summary.accuracy * 100)}%).\n` +
+          `Mastered: ${summary.masteredItems}/${summary.totalItems} items.${weakText}`,
+      );
+    } catch (error) {
+      console.error('Error saving quiz results:', error);
+      Alert.alert('Error', 'Failed to save quiz results');
+      setQuiz(null);
+    }
+  }, [palaceQuiz, palaces]);
+
+  const nextQuizQuestion = () => {
+    if (!quiz) return;
+    if (palaceQuiz.isComplete(quiz)) {
+      endQuiz(quiz);
+      return;
+    }
+    setQuizAnswer('');
+    setLastQuizAnswer(null);
+    setQuestionStartedAt(Date.now());
+  };
+
   const deletePalace = (palace: MemoryPalace) => {
     Alert.alert(
       'Delete Memory Palace',
@@ -487,6 +574,60 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
     );
   };
 
+  const importPalace = useCallback(async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      const asset = picked.canceled ? undefined : picked.assets[0];
+      if (!asset) return;
+
+      const format = palaceTransfer.detectFormat(asset.name);
+      if (!format) {
+        Alert.alert('Unsupported File', 'Choose a memory palace .json or .md file.');
+        return;
+      }
+
+      const result = palaceTransfer.importPalace(await new File(asset.uri).text(), format);
+      const imported = palaceQuiz.refreshPalaceStats(result.palace);
+      const updatedPalaces = [imported, ...palaces];
+      await storage.saveMemoryPalaces(updatedPalaces);
+      setPalaces(updatedPalaces);
+
+      Alert.alert(
+        'Palace Imported 🏰',
+        `"${imported.name}": ${result.roomCount} room(s), ${result.lociCount} loci, ${result.itemCount} items` +
+          (result.warnings.length ? `\n\n${result.warnings.join('\n')}` : ''),
+      );
+    } catch (error) {
+      console.error('Error importing palace:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to import memory palace');
+    }
+  }, [palaceTransfer, palaceQuiz, palaces, storage]);
+
+  const exportPalace = async (palace: MemoryPalace, format: PalaceFileFormat) => {
+    try {
+      const result = palaceTransfer.exportPalace(palace, format);
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(result.uri, { dialogTitle: 'Share Memory Palace' });
+      } else {
+        Alert.alert('Export Complete', `Saved "${palace.name}" to ${result.fileName}`);
+      }
+    } catch (error) {
+      console.error('Error exporting palace:', error);
+      Alert.alert('Error', 'Failed to export memory palace');
+    }
+  };
+
+  const sharePalace = (palace: MemoryPalace) => {
+    Alert.alert('Share Palace', 'Rooms, loci and items are shared. Your review progress stays on this device.', [
+      { text: 'JSON', onPress: () => exportPalace(palace, 'json') },
+      { text: 'Markdown', onPress: () => exportPalace(palace, 'md') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const getPalaceCategoryIcon = (category: string): string => {
     switch (category) {
       case 'personal':
@@ -521,6 +662,142 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
     );
   }
 
+  // Recall Quiz View
+  if (quiz) {
+    const answeredIndex = lastQuizAnswer ? quiz.currentIndex - 1 : quiz.currentIndex;
+    const question = quiz.questions[answeredIndex];
+
+    return (
+      <ScreenContainer theme={theme}>
+        <AppHeader
+          title={`Recall Quiz (${Math.min(answeredIndex + 1, quiz.questions.length)}/${quiz.questions.length})`}
+          theme={theme}
+          onMenuPress={() => setMenuVisible(true)}
+          rightComponent={
+            <TouchableOpacity onPress={() => endQuiz(quiz)}>
+              <Text style={{ color: themeColors.error, fontSize: 16 }}>
+                End
+              </Text>
+            </TouchableOpacity>
+          }
+        />
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.studyContainer}
+          keyboardShouldPersistTaps="handled"
+        >
+          <GlassCard theme={theme} style={styles.progressCard}>
+            <Text style={[styles.progressText, { color: themeColors.text }]}>
+              {quiz.direction === 'reverse' ? 'Reverse walk' : 'Walkthrough'} •{' '}
+              {quiz.answers.filter((a) => a.rating >= Rating.Good).length} recalled
+            </Text>
+            <View style={styles.progressBar}>
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    width: `${(quiz.answers.length / Math.max(1, quiz.questions.length)) * 100}%`,
+                    backgroundColor: themeColors.primary,
+                  },
+                ]}
+              />
+            </View>
+          </GlassCard>
+
+          {question && (
+            <GlassCard theme={theme} style={styles.locationCard}>
+              <Text style={[styles.locationName, { color: themeColors.primary }]}>
+                📍 Stop {question.stop}: {question.locationName}
+              </Text>
+              <Text
+                style={[
+                  styles.locationDescription,
+                  { color: themeColors.textSecondary },
+                ]}
+              >
+                What did you place here?
+              </Text>
+
+              <TextInput
+                style={[
+                  styles.formInput,
+                  {
+                    borderColor: themeColors.border,
+                    color: themeColors.text,
+                    backgroundColor: themeColors.surfaceLight,
+                  },
+                ]}
+                placeholder="Type what you remember..."
+                placeholderTextColor={themeColors.textMuted}
+                value={quizAnswer}
+                onChangeText={setQuizAnswer}
+                editable={!lastQuizAnswer}
+                onSubmitEditing={submitQuizAnswer}
+                autoFocus
+              />
+
+              {lastQuizAnswer && (
+                <View style={styles.memoryItem}>
+                  <Text
+                    style={[
+                      styles.itemContent,
+                      {
+                        color: lastQuizAnswer.rating >= Rating.Good
+                          ? themeColors.success
+                          : lastQuizAnswer.rating === Rating.Hard
+                          ? themeColors.warning
+                          : themeColors.error,
+                      },
+                    ]}
+                  >
+                    {lastQuizAnswer.rating >= Rating.Good ? '✓ Recalled' : lastQuizAnswer.rating === Rating.Hard ? '~ Partly recalled' : '✗ Missed'}
+                    {' '}({Math.round(lastQuizAnswer.score * 100)}% match)
+                  </Text>
+                  <Text style={[styles.itemContent, { color: themeColors.text }]}>
+                    {question.item.content}
+                  </Text>
+                  {question.item.association ? (
+                    <Text
+                      style={[
+                        styles.itemAssociation,
+                        { color: themeColors.textSecondary },
+                      ]}
+                    >
+                      💭 {question.item.association}
+                    </Text>
+                  ) : null}
+                </View>
+              )}
+            </GlassCard>
+          )}
+
+          <Button
+            title={
+              !lastQuizAnswer
+                ? 'Check Answer'
+                : palaceQuiz.isComplete(quiz)
+                ? 'Finish Quiz'
+                : 'Next Location →'
+            }
+            onPress={lastQuizAnswer ? nextQuizQuestion : submitQuizAnswer}
+            variant="primary"
+            size="large"
+            theme={theme}
+          />
+        </ScrollView>
+
+        <HamburgerMenu
+          visible={menuVisible}
+          onClose={() => setMenuVisible(false)}
+          onNavigate={onNavigate}
+          currentScreen="memory-palace"
+          theme={theme}
+        />
+      </ScreenContainer>
+    );
+  }
+
   // Study Session View
   if (studySession) {
     const currentLocation =
@@ -747,9 +1024,14 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
         theme={theme}
         onMenuPress={() => setMenuVisible(true)}
         rightComponent={
-          <TouchableOpacity onPress={() => setCreatePalaceModalVisible(true)}>
-            <Text style={{ color: themeColors.primary, fontSize: 24 }}>+</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={importPalace}>
+              <Text style={{ color: themeColors.primary, fontSize: 20 }}>📥</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setCreatePalaceModalVisible(true)}>
+              <Text style={{ color: themeColors.primary, fontSize: 24 }}>+</Text>
+            </TouchableOpacity>
+          </View>
         }
       />
 
@@ -949,6 +1231,22 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
                       Complete
                     </Text>
                   </View>
+
+                  <View style={styles.statItem}>
+                    <Text
+                      style={[styles.statValue, { color: themeColors.secondary }]}
+                    >
+                      {stats.masteredItems}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.statLabel,
+                        { color: themeColors.textMuted },
+                      ]}
+                    >
+                      Mastered
+                    </Text>
+                  </View>
                 </View>
 
                 <View style={styles.palaceActions}>
@@ -979,6 +1277,34 @@ export const MemoryPalaceScreen: React.FC<MemoryPalaceScreenProps> = ({
                     style={styles.actionButton}
                   />
                 </View>
+
+                {(() => {
+                  const weakLoci = palaceQuiz.getWeakLoci(palace);
+                  return weakLoci.length > 0 ? (
+                    <Text style={[styles.weakLociText, { color: themeColors.warning }]}>
+                      🔁 Weak loci: {weakLoci.map((locus) => locus.location.name).join(', ')}
+                    </Text>
+                  ) : null;
+                })()}
+
+                <View style={styles.palaceExtraActions}>
+                  <Button
+                    title="Recall Quiz"
+                    onPress={() => startQuiz(palace)}
+                    variant="ghost"
+                    size="small"
+                    theme={theme}
+                    style={styles.quizButton}
+                  />
+                  <Button
+                    title="Share"
+                    onPress={() => sharePalace(palace)}
+                    variant="ghost"
+                    size="small"
+                    theme={theme}
+                    style={styles.quizButton}
+                  />
+                </View>
               </GlassCard>
             );
           })}
@@ -1540,6 +1866,23 @@ const styles = StyleSheet.create({
   actionButton: {
     flex: 0.31,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  palaceExtraActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  quizButton: {
+    flex: 0.48,
+    marginTop: spacing.sm,
+  },
+  weakLociText: {
+    ...typography.caption,
+    marginTop: spacing.md,
+  },
 
   // Study Session
   progressCard: {
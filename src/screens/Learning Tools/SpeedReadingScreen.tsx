@@ -24,11 +24,27 @@ import { ThemeType } from '../../theme/colors';
 import StorageService from '../../services/storage/StorageService';
 import { aiCoachingService } from '../../services/learning/AICoachingService';
 import SpeedReadingService from '../../services/learning/SpeedReadingService';
+import DocumentLoaderService, {
+  LoadedDocument,
+  ReadingPosition,
+} from '../../services/learning/DocumentLoaderService';
+import ReadingLibraryService, {
+  LibraryDocumentSummary,
+  LibraryEntry,
+  ReadingHighlight,
+} from '../../services/learning/ReadingLibraryService';
+import HighlightFlashcardService, {
+  HighlightCardMode,
+  HighlightInput,
+} from '../../services/learning/HighlightFlashcardService';
+import { offlineQuizService } from '../../services/learning/OfflineQuizService';
 import { useSoundscape } from '../../contexts/SoundscapeContext';
 import { neuralIntegrationService } from '../../services/learning/NeuralIntegrationService';
 import { StudySession } from '../../types';
 import { DynamicSpeedReadingService } from '../../services/learning/DynamicSpeedReadingService';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
 
 interface SpeedReadingScreenProps {
   theme: ThemeType;
@@ -49,7 +65,7 @@ interface ReadingState {
   currentIndex: number;
   startTime: Date;
   wpm: number;
-  mode: 'word' | 'chunk';
+  mode: 'word' | 'chunk' | 'adaptive';
   chunkSize: number;
   sessionStarted: boolean;
 }
@@ -69,6 +85,10 @@ interface TextPreset {
   wordCount: number;
 }
 
+// Service-side difficulty of a preset; custom text counts as medium
+const presetDifficulty = (preset?: TextPreset | null): 'easy' | 'medium' | 'hard' =>
+  preset?.difficulty === 'Easy' ? 'easy' : preset?.difficulty === 'Hard' ? 'hard' : 'medium';
+
 const textPresets: TextPreset[] = [
   {
     id: '1',
@@ -146,12 +166,20 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
   const [answers, setAnswers] = useState<Record<string, number | null>>({});
   const [quizScore, setQuizScore] = useState<number | null>(null);
   const [lastTextRead, setLastTextRead] = useState<string>('');
+  const [lastSessionId, setLastSessionId] = useState<string | null>(null);
   const [currentWord, setCurrentWord] = useState<string>('Ready to read...');
   const [analytics, setAnalytics] = useState<any>(null);
   const [dataSource, setDataSource] = useState<'static' | 'dynamic' | 'hybrid'>('hybrid');
   const [dynamicTexts, setDynamicTexts] = useState<TextPreset[]>([]);
   const [dynamicTextsLoading, setDynamicTextsLoading] = useState(false);
 
+  // Documents (EPUB / PDF / Markdown)
+  const [openedDocument, setOpenedDocument] = useState<LoadedDocument | null>(null);
+  const [documentPosition, setDocumentPosition] = useState<ReadingPosition | null>(null);
+  const [documentLoading, setDocumentLoading] = useState(false);
+  const [library, setLibrary] = useState<LibraryDocumentSummary[]>([]);
+  const [continueReading, setContinueReading] = useState<LibraryDocumentSummary | null>(null);
+
   // Onboarding state
   const [onboardingVisible, setOnboardingVisible] = useState(false);
   const [currentOnboardingStep, setCurrentOnboardingStep] = useState(0);
@@ -179,7 +207,7 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
       neuralIntegrationService.enhanceSpeedReading(
         analytics.currentWPM,
         analytics.comprehensionPrediction,
-        (selectedPreset?.difficulty?.toLowerCase() as any) || 'medium',
+        presetDifficulty(selectedPreset),
       );
 
       // Update cognitive load based on reading difficulty
@@ -220,6 +248,7 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
   };
 
   const handleSessionComplete = async (completedSession: any) => {
+    setLastSessionId(completedSession.id);
     try {
       // Record performance for soundscape learning
       if (soundscape.isActive) {
@@ -254,6 +283,16 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
     }
   };
 
+  // Adaptive mode: the service changes speed per chunk
+  const handleWpmAdapted = ({ wpm }: { wpm: number }) => {
+    setReadingState((prev) => ({ ...prev, wpm }));
+  };
+
+  const handleRegression = ({ index, word }: { index: number; word?: string }) => {
+    if (word) setCurrentWord(word);
+    setReadingState((prev) => ({ ...prev, currentIndex: index }));
+  };
+
   const handleQuizReady = (quizData: any) => {
     setQuiz(quizData as any);
     setAnswers(
@@ -270,6 +309,8 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
   const speedReadingService = SpeedReadingService.getInstance();
   const soundscape = useSoundscape();
   const dynamicService = DynamicSpeedReadingService.getInstance();
+  const documentLoader = DocumentLoaderService.getInstance();
+  const readingLibrary = ReadingLibraryService.getInstance();
 
   // Notify neural integration of screen change and load dynamic content
   useEffect(() => {
@@ -299,6 +340,25 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
     loadDynamicContent();
   }, [dataSource]);
 
+  const refreshLibrary = async () => {
+    try {
+      const summaries = await readingLibrary.getLibrary();
+      setLibrary(summaries);
+      setContinueReading(await readingLibrary.getContinueReading());
+    } catch (error) {
+      console.error('Error loading reading library:', error);
+    }
+  };
+
+  // Refresh progress and the resume point whenever a session ends
+  useEffect(() => {
+    if (readingState.sessionStarted) return;
+    refreshLibrary();
+    if (openedDocument) {
+      documentLoader.getReadingPosition(openedDocument.id).then(setDocumentPosition);
+    }
+  }, [readingState.sessionStarted, openedDocument]);
+
   useEffect(() => {
     return () => {
       if (intervalRef.current) {
@@ -309,6 +369,8 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
         speedReadingService.off('wordDisplay', handleWordDisplay);
         speedReadingService.off('sessionCompleted', handleSessionComplete);
         speedReadingService.off('quizReady', handleQuizReady);
+        speedReadingService.off('wpmAdapted', handleWpmAdapted);
+        speedReadingService.off('regression', handleRegression);
       } catch (e) {
         /* best-effort cleanup */
       }
@@ -326,51 +388,256 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
     return cleanedText.split(/\s+/).filter((word) => word.length > 0);
   };
 
+  const beginServiceSession = async (start: () => Promise<{ startTime: Date; wpmGoal: number }>) => {
+    // Start optimal soundscape for speed reading
+    if (soundscape.isInitialized && !soundscape.isActive) {
+      // Guard against missing presets
+      await soundscape.startPreset('speed_integration', {
+        cognitiveLoad:
+          textPresets && textPresets[1] && textPresets[1].content
+            ? textPresets[1].content
+            : 'No preset available',
+        fadeIn: true,
+      });
+    }
+
+    const session = await start();
+
+    setReadingState({
+      active: true,
+      words: speedReadingService.getProcessedText()?.words || [],
+      currentIndex: speedReadingService.getCurrentWordIndex(),
+      startTime: session.startTime,
+      wpm: session.wpmGoal,
+      mode: readingState.mode,
+      chunkSize: readingState.chunkSize,
+      sessionStarted: true,
+    });
+
+    // Listen for service events
+    speedReadingService.on('wordDisplay', handleWordDisplay);
+    speedReadingService.on('sessionCompleted', handleSessionComplete);
+    speedReadingService.on('quizReady', handleQuizReady);
+    speedReadingService.on('wpmAdapted', handleWpmAdapted);
+    speedReadingService.on('regression', handleRegression);
+  };
+
   const startReading = async (text: string, preset?: TextPreset) => {
     try {
       setLastTextRead(text);
+      setLastSessionId(null);
+
+      await beginServiceSession(() =>
+        speedReadingService.startSession(text, {
+          title: preset?.title || 'Custom Reading',
+          difficulty: presetDifficulty(preset),
+          wpm: readingState.wpm,
+          mode: readingState.mode,
+          cognitiveLoad: soundscape.cognitiveLoad || 0.5,
+        }),
+      );
 
-      // Start optimal soundscape for speed reading
-      if (soundscape.isInitialized && !soundscape.isActive) {
-        // Guard against missing presets
-        await soundscape.startPreset('speed_integration', {
-          cognitiveLoad:
-            textPresets && textPresets[1] && textPresets[1].content
-              ? textPresets[1].content
-              : 'No preset available',
-          fadeIn: true,
-        });
-      }
+      setSelectedPreset(preset || null);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to start reading session');
+      console.error('Reading start error:', error);
+    }
+  };
 
-      const session = await speedReadingService.startSession(text, {
-        title: preset?.title || 'Custom Reading',
-        difficulty: (preset?.difficulty?.toLowerCase() as any) || 'medium',
-        wpm: readingState.wpm,
-        mode: readingState.mode as any,
-        cognitiveLoad: soundscape.cognitiveLoad || 0.5,
-      });
+  const showDocument = async (document: LoadedDocument) => {
+    setOpenedDocument(document);
+    setDocumentPosition(await documentLoader.getReadingPosition(document.id));
+  };
 
-      setReadingState({
-        active: true,
-        words: speedReadingService.getProcessedText()?.words || [],
-        currentIndex: 0,
-        startTime: session.startTime,
-        wpm: session.wpmGoal,
-        mode: readingState.mode,
-        chunkSize: readingState.chunkSize,
-        sessionStarted: true,
+  const importDocument = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
       });
+      const asset = picked.canceled ? undefined : picked.assets[0];
+      if (!asset) return;
 
-      setSelectedPreset(preset || null);
+      const format = documentLoader.detectFormat(asset.name);
+      if (!format) {
+        Alert.alert('Unsupported File', 'Choose an .epub, .pdf, .md or .txt file.');
+        return;
+      }
 
-      // Listen for service events
-      speedReadingService.on('wordDisplay', handleWordDisplay);
-      speedReadingService.on('sessionCompleted', handleSessionComplete);
-      speedReadingService.on('quizReady', handleQuizReady);
+      setDocumentLoading(true);
+      const file = new File(asset.uri);
+      const loaded = await documentLoader.loadDocument(
+        format === 'epub' || format === 'pdf'
+          ? { format, fileName: asset.name, data: await file.bytes() }
+          : { format, fileName: asset.name, text: await file.text() },
+      );
+      await readingLibrary.addDocument(loaded);
+      await showDocument(loaded);
+      await refreshLibrary();
+    } catch (error) {
+      console.error('Error opening document:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to open document');
+    } finally {
+      setDocumentLoading(false);
+    }
+  };
+
+  const openLibraryDocument = async (entry: LibraryEntry): Promise<LoadedDocument | null> => {
+    const document = await readingLibrary.openDocument(entry.documentId);
+    if (!document) {
+      Alert.alert('Document Missing', `"${entry.title}" is no longer stored on this device.`, [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await readingLibrary.removeDocument(entry.documentId);
+            await refreshLibrary();
+          },
+        },
+      ]);
+      return null;
+    }
+    await showDocument(document);
+    return document;
+  };
+
+  const removeLibraryDocument = (entry: LibraryEntry) => {
+    Alert.alert('Remove Document', `Remove "${entry.title}" with its bookmarks and highlights?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await readingLibrary.removeDocument(entry.documentId);
+          if (openedDocument?.id === entry.documentId) {
+            setOpenedDocument(null);
+            setDocumentPosition(null);
+          }
+          await refreshLibrary();
+        },
+      },
+    ]);
+  };
+
+  const startChapter = async (
+    document: LoadedDocument,
+    chapterIndex?: number,
+    startWordIndex?: number,
+  ) => {
+    try {
+      const position = await documentLoader.getReadingPosition(document.id);
+      const index = chapterIndex ?? position?.chapterIndex ?? 0;
+      setLastTextRead(document.chapters[index]?.text ?? '');
+      setLastSessionId(null);
+
+      await beginServiceSession(() =>
+        speedReadingService.startChapterSession(document, chapterIndex, {
+          ...(startWordIndex !== undefined ? { startWordIndex } : {}),
+          wpm: readingState.wpm,
+          mode: readingState.mode,
+          cognitiveLoad: soundscape.cognitiveLoad || 0.5,
+        }),
+      );
+
+      setSelectedPreset(null);
     } catch (error) {
       Alert.alert('Error', 'Failed to start reading session');
-      console.error('Reading start error:', error);
+      console.error('Chapter start error:', error);
+    }
+  };
+
+  const resumeLibraryDocument = async (entry: LibraryEntry) => {
+    const document =
+      openedDocument?.id === entry.documentId ? openedDocument : await openLibraryDocument(entry);
+    if (document) await startChapter(document);
+  };
+
+  // The word on screen is the one before the service's next word index
+  const bookmarkCurrentWord = async () => {
+    const active = speedReadingService.getActiveDocument();
+    if (!active) return;
+    const bookmark = await readingLibrary.addBookmark(
+      active.document,
+      active.chapterIndex,
+      Math.max(0, speedReadingService.getCurrentWordIndex() - 1),
+    );
+    if (bookmark) Alert.alert('Bookmarked 🔖', bookmark.label);
+  };
+
+  const createHighlightCards = async (input: HighlightInput, mode: HighlightCardMode) => {
+    try {
+      const result = await HighlightFlashcardService.getInstance().saveHighlightCards(input, { mode });
+      if (input.documentId && input.highlightId) {
+        await readingLibrary.linkHighlightCards(
+          input.documentId,
+          input.highlightId,
+          result.cards.map((card) => card.id),
+        );
+        await refreshLibrary();
+      }
+      Alert.alert(
+        'Flashcards Created 🃏',
+        `${result.cards.length} ${result.mode === 'cloze' ? 'cloze' : 'Q&A'} card${
+          result.cards.length === 1 ? '' : 's'
+        }${result.aiGenerated ? ' written by your AI coach' : ''}.`,
+      );
+    } catch (error) {
+      Alert.alert('Could Not Create Cards', error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const offerHighlightCards = (input: HighlightInput) => {
+    Alert.alert('Highlighted ✨', input.text, [
+      { text: 'Cloze Card', onPress: () => createHighlightCards(input, 'cloze') },
+      { text: 'Q&A Card', onPress: () => createHighlightCards(input, 'auto') },
+      { text: 'Done', style: 'cancel' },
+    ]);
+  };
+
+  const documentHighlightInput = (entry: LibraryEntry, highlight: ReadingHighlight): HighlightInput => ({
+    text: highlight.text,
+    textSource: documentLoader.toSourceRef(entry.documentId, highlight.chapterIndex),
+    highlightId: highlight.id,
+    documentId: entry.documentId,
+    chapterIndex: highlight.chapterIndex,
+    title: entry.title,
+    ...(highlight.sessionId ? { sessionId: highlight.sessionId } : {}),
+  });
+
+  // Works mid-stream (long press on the RSVP display) as well as while paused
+  const highlightCurrentSentence = async () => {
+    const session = speedReadingService.getActiveSession();
+    if (!session) return;
+    const wordIndex = Math.max(0, speedReadingService.getCurrentWordIndex() - 1);
+    const active = speedReadingService.getActiveDocument();
+
+    if (active) {
+      const highlight = await readingLibrary.captureHighlight(active.document, active.chapterIndex, wordIndex, {
+        sessionId: session.id,
+      });
+      if (!highlight) return;
+      await refreshLibrary();
+      offerHighlightCards({
+        text: highlight.text,
+        textSource: session.textSource,
+        sessionId: session.id,
+        highlightId: highlight.id,
+        documentId: active.document.id,
+        chapterIndex: active.chapterIndex,
+        title: documentLoader.getChapterTitle(active.document, active.chapterIndex),
+      });
+      return;
     }
+
+    const sentence = readingLibrary.findSentence(speedReadingService.getProcessedText()?.words ?? [], wordIndex);
+    if (!sentence) return;
+    offerHighlightCards({
+      text: sentence.text,
+      textSource: session.textSource,
+      sessionId: session.id,
+      ...(selectedPreset ? { title: selectedPreset.title } : {}),
+    });
   };
 
   const startRSVP = (words: string[]) => {
@@ -546,10 +813,10 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
 
     setQuizLoading(true);
     try {
-      const sessionId = `ui_quiz_${Date.now()}`;
+      const sessionId = lastSessionId ?? `ui_quiz_${Date.now()}`;
       const generated = await aiCoachingService.generateComprehensionQuiz(
         sessionId,
-        {},
+        { source: { text } },
       );
 
       setQuiz(generated as any);
@@ -574,13 +841,10 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
 
   const submitQuiz = () => {
     if (!quiz) return;
-    let correct = 0;
-    quiz.questions.forEach((q) => {
-      const ans = answers[q.id];
-      if (ans === q.correctAnswer) correct++;
-    });
-    const score = Math.round((correct / quiz.questions.length) * 100);
-    setQuizScore(score);
+    // Weighted by question difficulty, then stored on the reading session
+    const score = offlineQuizService.scoreQuiz(quiz, answers);
+    setQuizScore(Math.round(score * 100));
+    void speedReadingService.recordComprehensionScore(quiz.sessionId, score);
   };
 
   const adjustWPM = (newWPM: number) => {
@@ -678,7 +942,13 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
           )}
 
           {/* RSVP Display */}
-          <View style={styles.rsvpDisplayContainer}>
+          {/* Long press highlights the sentence on screen without pausing */}
+          <TouchableOpacity
+            style={styles.rsvpDisplayContainer}
+            activeOpacity={1}
+            onLongPress={highlightCurrentSentence}
+            delayLongPress={400}
+          >
             <Animated.View
               style={[
                 styles.rsvpDisplay,
@@ -716,7 +986,7 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
                 { backgroundColor: themeColors.primary },
               ]}
             />
-          </View>
+          </TouchableOpacity>
 
           {/* Reading Info */}
           <GlassCard theme={theme} style={styles.readingInfo}>
@@ -740,7 +1010,9 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
               <Text style={[styles.infoValue, { color: themeColors.text }]}>
                 {readingState.mode === 'word'
                   ? 'Single Word'
-                  : `${readingState.chunkSize} Word Chunks`}
+                  : readingState.mode === 'adaptive'
+                    ? 'Adaptive Speed'
+                    : `${readingState.chunkSize} Word Chunks`}
               </Text>
             </View>
 
@@ -796,8 +1068,39 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
             )}
           </GlassCard>
 
+          {/* Bookmark (documents only) / highlight while paused */}
+          {!readingState.active && speedReadingService.getActiveSession() && (
+            <View style={styles.actionsGrid}>
+              {speedReadingService.getActiveDocument() && (
+                <Button
+                  title="🔖 Bookmark"
+                  onPress={bookmarkCurrentWord}
+                  variant="ghost"
+                  size="medium"
+                  theme={theme}
+                  style={styles.actionButton}
+                />
+              )}
+              <Button
+                title="✨ Highlight"
+                onPress={highlightCurrentSentence}
+                variant="ghost"
+                size="medium"
+                theme={theme}
+                style={styles.actionButton}
+              />
+            </View>
+          )}
+
           {/* Controls */}
           <View style={styles.rsvpControls}>
+            <Button
+              title="⏪"
+              onPress={() => speedReadingService.rewind()}
+              variant="ghost"
+              size="large"
+              theme={theme}
+            />
             {readingState.active ? (
               <Button
                 title="Pause"
@@ -870,6 +1173,41 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
         style={styles.content}
         contentContainerStyle={styles.container}
       >
+        {/* Continue Reading */}
+        {continueReading && (
+          <GlassCard theme={theme} style={styles.actionsCard}>
+            <Text style={[styles.cardTitle, { color: themeColors.text }]}>
+              📖 Continue Reading
+            </Text>
+            <Text style={[styles.presetTitle, { color: themeColors.text }]}>
+              {continueReading.entry.title}
+            </Text>
+            <Text style={[styles.presetStats, { color: themeColors.textMuted }]}>
+              {Math.round(continueReading.progress * 100)}% read
+              {continueReading.averageWpm > 0 ? ` • ${continueReading.averageWpm} WPM average` : ''}
+            </Text>
+            <View style={styles.progressBar}>
+              <View
+                style={[
+                  styles.progressFill,
+                  {
+                    width: `${Math.round(continueReading.progress * 100)}%`,
+                    backgroundColor: themeColors.primary,
+                  },
+                ]}
+              />
+            </View>
+            <Button
+              title="Continue"
+              onPress={() => resumeLibraryDocument(continueReading.entry)}
+              variant="primary"
+              size="medium"
+              theme={theme}
+              style={styles.documentResumeButton}
+            />
+          </GlassCard>
+        )}
+
         {/* Data Source Toggle */}
         <GlassCard theme={theme} style={styles.dataSourceCard}>
           <Text style={[styles.dataSourceTitle, { color: themeColors.text }]}>
@@ -1059,6 +1397,33 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
                   Word Chunks
                 </Text>
               </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() =>
+                  setReadingState((prev) => ({ ...prev, mode: 'adaptive' }))
+                }
+                style={[
+                  styles.modeButton,
+                  readingState.mode === 'adaptive' && {
+                    backgroundColor: themeColors.primary,
+                  },
+                  { borderColor: themeColors.primary },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.modeButtonText,
+                    {
+                      color:
+                        readingState.mode === 'adaptive'
+                          ? '#FFFFFF'
+                          : themeColors.text,
+                    },
+                  ]}
+                >
+                  Adaptive
+                </Text>
+              </TouchableOpacity>
             </View>
           </View>
         </GlassCard>
@@ -1197,6 +1562,148 @@ export const SpeedReadingScreen: React.FC<SpeedReadingScreenProps> = ({
           ))}
         </View>
 
+        {/* Reading Library */}
+        <GlassCard theme={theme} style={styles.actionsCard}>
+          <Text style={[styles.cardTitle, { color: themeColors.text }]}>
+            📚 Reading Library
+          </Text>
+
+          {library.length === 0 && (
+            <Text style={[styles.presetDescription, { color: themeColors.textSecondary }]}>
+              Add EPUB books, PDFs with embedded text or Markdown notes and read them chapter by chapter.
+            </Text>
+          )}
+
+          {library.map((summary) => {
+            const { entry } = summary;
+            const isOpen = openedDocument?.id === entry.documentId;
+            return (
+              <View key={entry.documentId}>
+                <TouchableOpacity
+                  onPress={() => (isOpen ? setOpenedDocument(null) : openLibraryDocument(entry))}
+                  onLongPress={() => removeLibraryDocument(entry)}
+                  style={[styles.chapterRow, { borderColor: themeColors.border }]}
+                >
+                  <View style={styles.libraryEntryText}>
+                    <Text style={[styles.presetTitle, { color: themeColors.text }]} numberOfLines={1}>
+                      {isOpen ? '▾ ' : '▸ '}
+                      {entry.title}
+                    </Text>
+                    <Text style={[styles.presetStats, { color: themeColors.textMuted }]}>
+                      {entry.author ? `${entry.author} • ` : ''}
+                      {entry.chapterCount} chapters • {entry.wordCount} words
+                      {summary.averageWpm > 0 ? ` • ${summary.averageWpm} WPM avg` : ''}
+                    </Text>
+                  </View>
+                  <Text style={[styles.presetStats, { color: themeColors.primary }]}>
+                    {Math.round(summary.progress * 100)}%
+                  </Text>
+                </TouchableOpacity>
+
+                {isOpen && openedDocument && (
+                  <View style={styles.libraryDetails}>
+                    {documentPosition && (
+                      <Button
+                        title={`Resume: ${openedDocument.chapters[documentPosition.chapterIndex]?.title ?? 'Chapter 1'}`}
+                        onPress={() => startChapter(openedDocument)}
+                        variant="primary"
+                        size="medium"
+                        theme={theme}
+                        style={styles.documentResumeButton}
+                      />
+                    )}
+
+                    <Text style={[styles.librarySectionTitle, { color: themeColors.textSecondary }]}>
+                      Chapters
+                    </Text>
+                    {openedDocument.toc.map((tocEntry, index) => {
+                      const chapter = openedDocument.chapters[tocEntry.chapterIndex];
+                      return (
+                        <TouchableOpacity
+                          key={`${tocEntry.chapterIndex}-${index}`}
+                          onPress={() => startChapter(openedDocument, tocEntry.chapterIndex, 0)}
+                          style={[
+                            styles.chapterRow,
+                            { borderColor: themeColors.border, paddingLeft: spacing.md * tocEntry.level },
+                          ]}
+                        >
+                          <Text
+                            style={[styles.chapterTitle, { color: themeColors.text }]}
+                            numberOfLines={1}
+                          >
+                            {documentPosition?.chapterIndex === tocEntry.chapterIndex ? '▶ ' : ''}
+                            {tocEntry.title}
+                          </Text>
+                          <Text style={[styles.presetStats, { color: themeColors.textMuted }]}>
+                            {chapter?.wordCount ?? 0} words
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+
+                    {entry.bookmarks.length > 0 && (
+                      <Text style={[styles.librarySectionTitle, { color: themeColors.textSecondary }]}>
+                        Bookmarks
+                      </Text>
+                    )}
+                    {entry.bookmarks.map((bookmark) => (
+                      <TouchableOpacity
+                        key={bookmark.id}
+                        onPress={() => startChapter(openedDocument, bookmark.chapterIndex, bookmark.wordIndex)}
+                        onLongPress={async () => {
+                          await readingLibrary.removeBookmark(entry.documentId, bookmark.id);
+                          await refreshLibrary();
+                        }}
+                        style={[styles.chapterRow, { borderColor: themeColors.border }]}
+                      >
+                        <Text style={[styles.chapterTitle, { color: themeColors.text }]} numberOfLines={2}>
+                          🔖 {bookmark.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+
+                    {entry.highlights.length > 0 && (
+                      <Text style={[styles.librarySectionTitle, { color: themeColors.textSecondary }]}>
+                        Highlights
+                      </Text>
+                    )}
+                    {entry.highlights.map((highlight) => (
+                      <TouchableOpacity
+                        key={highlight.id}
+                        onPress={() => offerHighlightCards(documentHighlightInput(entry, highlight))}
+                        onLongPress={async () => {
+                          await readingLibrary.removeHighlight(entry.documentId, highlight.id);
+                          await refreshLibrary();
+                        }}
+                        style={[styles.chapterRow, { borderColor: themeColors.border }]}
+                      >
+                        <Text style={[styles.chapterTitle, { color: themeColors.text }]} numberOfLines={3}>
+                          ✨ {highlight.text}
+                        </Text>
+                        {!!highlight.flashcardIds?.length && (
+                          <Text style={[styles.libraryEntryText, { color: themeColors.success }]}>
+                            ✓ {highlight.flashcardIds.length} card{highlight.flashcardIds.length === 1 ? '' : 's'}
+                          </Text>
+                        )}
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+
+          <Button
+            title={documentLoading ? 'Opening...' : 'Add Document'}
+            onPress={importDocument}
+            variant="outline"
+            size="medium"
+            theme={theme}
+            disabled={documentLoading}
+            style={styles.documentResumeButton}
+          />
+        </GlassCard>
+
         {/* Quick Actions */}
         <GlassCard theme={theme} style={styles.actionsCard}>
           <Text style={[styles.cardTitle, { color: themeColors.text }]}>
@@ -1617,6 +2124,8 @@ const styles = StyleSheet.create({
   },
   modeButtons: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
   },
   modeButton: {
     paddingHorizontal: spacing.lg,
@@ -1684,6 +2193,34 @@ const styles = StyleSheet.create({
   actionButton: {
     flex: 0.48,
   },
+  documentResumeButton: {
+    marginTop: spacing.md,
+  },
+  chapterRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+  },
+  chapterTitle: {
+    ...typography.bodySmall,
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  libraryEntryText: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  libraryDetails: {
+    paddingLeft: spacing.md,
+    marginBottom: spacing.md,
+  },
+  librarySectionTitle: {
+    ...typography.caption,
+    fontWeight: '600',
+    marginTop: spacing.md,
+  },
 
   // Analytics overlay
   analyticsOverlay: {
@@ -62,6 +62,10 @@ import {
 import { SynapseBuilderService } from '../../services/NeuroPlastisity/SynapseBuilderService';
 import { NeuroplasticityTracker } from '../../services/NeuroPlastisity/NeuroplasticityTracker';
 import { MicroTaskGenerator } from '../../services/NeuroPlastisity/MicroTaskGenerator';
+import {
+  MicroTaskEvaluator,
+  MicroTaskEvaluation,
+} from '../../services/NeuroPlastisity/MicroTaskEvaluator';
 import HybridStorageService from '../../services/storage/HybridStorageService';
 import { GlassCard } from '../../components/GlassComponents';
 
@@ -124,6 +128,13 @@ export interface MicroTask {
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+// Grade colours reuse the urgency palette: success reads as stable, failure as critical
+const GRADE_COLOR_KEYS = {
+  success: 'stable',
+  partial: 'moderate',
+  failed: 'critical',
+} as const;
+
 // Neuroplasticity color themes
 const NEUROPLASTICITY_COLORS = {
   critical: {
@@ -260,6 +271,13 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
   const [showProgressModal, setShowProgressModal] = useState(false);
   const [plasticityScore, setPlasticityScore] = useState(0);
   const [recentStrengthening, setRecentStrengthening] = useState<string[]>([]);
+  const [useAIGrading, setUseAIGrading] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [taskOutcome, setTaskOutcome] = useState<{
+    evaluation: MicroTaskEvaluation;
+    strengthDelta: number;
+    session: NeuroplasticitySession;
+  } | null>(null);
 
   // Animation values
   const synapseAnimations = useSharedValue<Record<string, number>>({});
@@ -280,6 +298,7 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
   const synapseService = useRef(new SynapseBuilderService()).current;
   const plasticityTracker = useRef(new NeuroplasticityTracker()).current;
   const taskGenerator = useRef(new MicroTaskGenerator()).current;
+  const taskEvaluator = useRef(new MicroTaskEvaluator()).current;
 
   // Initialize screen data
   useEffect(() => {
@@ -414,31 +433,36 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
     }
   }, [weakSynapses, handleSynapseSelect]);
 
-  // Process task completion
+  // Grade the response and feed the outcome back into the synapse
   const handleTaskCompletion = useCallback(
-    async (success: boolean, response: string) => {
+    async (response: string, skipped: boolean) => {
       if (!currentTask || !selectedEdge || !activeSession) return;
 
       try {
-        // Calculate success and plasticity gain
-        const plasticityGain = success
-          ? currentTask.plasticityBenefit
-          : currentTask.plasticityBenefit * 0.3;
-
-        // Update synapse strength
-        const updatedEdge = await synapseService.updateSynapseStrength(
-          selectedEdge.id,
-          plasticityGain,
-          success ? 'success' : 'failed',
+        setGrading(true);
+
+        const outcome = await taskEvaluator.submitAttempt(
+          currentTask,
+          selectedEdge,
+          response,
+          synapseEdges,
+          { useAI: useAIGrading, skipped },
         );
+        const { evaluation, attempt, updatedEdge } = outcome;
+        const success = evaluation.result === 'success';
+        const completedTasks = activeSession.completedTasks + 1;
 
         // Update session progress
-        const updatedSession = {
+        const updatedSession: NeuroplasticitySession = {
           ...activeSession,
-          completedTasks: activeSession.completedTasks + 1,
+          completedTasks,
+          successRate:
+            (activeSession.successRate * activeSession.completedTasks +
+              (success ? 1 : 0)) /
+            completedTasks,
           plasticityGains: [
             ...activeSession.plasticityGains,
-            { edgeId: selectedEdge.id, strengthDelta: plasticityGain },
+            { edgeId: selectedEdge.id, strengthDelta: attempt.strengthDelta },
           ],
           adaptationsTriggered: success
             ? [...activeSession.adaptationsTriggered, 'synaptic_strengthening']
@@ -462,54 +486,70 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
           );
         }
 
-        // Close current task and potentially load next
-        setShowTaskModal(false);
-        setCurrentTask(null);
-        setSelectedEdge(null);
-        setUserResponse('');
-
-        // Continue with next target synapse if session is ongoing
-        const completedEdgeIds = updatedSession.plasticityGains.map(
-          (g) => g.edgeId,
-        );
-        const remainingTargetIds = updatedSession.targetEdgeIds.filter(
-          (id) => !completedEdgeIds.includes(id),
-        );
-
-        if (remainingTargetIds.length > 0) {
-          setTimeout(() => {
-            const nextEdgeId = remainingTargetIds[0];
-            const nextEdge = synapseEdges.find((e) => e.id === nextEdgeId);
-            if (nextEdge) {
-              handleSynapseSelect(nextEdge);
-            }
-          }, 1000);
-        } else {
-          // Session complete
-          await completeTrainingSession(updatedSession);
-        }
-
         Haptics.impactAsync(
           success
             ? Haptics.ImpactFeedbackStyle.Heavy
             : Haptics.ImpactFeedbackStyle.Light,
         );
+
+        // Skips move straight on; graded answers show their feedback first
+        if (skipped) {
+          await advanceSession(updatedSession);
+        } else {
+          setTaskOutcome({
+            evaluation,
+            strengthDelta: attempt.strengthDelta,
+            session: updatedSession,
+          });
+        }
       } catch (error) {
         console.error('Error processing task completion:', error);
         Alert.alert('Error', 'Failed to process task result');
+      } finally {
+        setGrading(false);
       }
     },
     [
       currentTask,
       selectedEdge,
       activeSession,
-      synapseService,
-      weakSynapses,
-      handleSynapseSelect,
+      synapseEdges,
+      taskEvaluator,
+      useAIGrading,
       taskCompletionGlow,
     ],
   );
 
+  // Close the current task and load the next target synapse, if any
+  const advanceSession = useCallback(
+    async (session: NeuroplasticitySession) => {
+      setShowTaskModal(false);
+      setCurrentTask(null);
+      setSelectedEdge(null);
+      setUserResponse('');
+      setTaskOutcome(null);
+
+      const completedEdgeIds = session.plasticityGains.map((g) => g.edgeId);
+      const remainingTargetIds = session.targetEdgeIds.filter(
+        (id) => !completedEdgeIds.includes(id),
+      );
+
+      if (remainingTargetIds.length > 0) {
+        setTimeout(() => {
+          const nextEdgeId = remainingTargetIds[0];
+          const nextEdge = synapseEdges.find((e) => e.id === nextEdgeId);
+          if (nextEdge) {
+            handleSynapseSelect(nextEdge);
+          }
+        }, 1000);
+      } else {
+        // Session complete
+        await completeTrainingSession(session);
+      }
+    },
+    [synapseEdges, handleSynapseSelect],
+  );
+
   // Complete training session
   const completeTrainingSession = useCallback(
     async (session: NeuroplasticitySession) => {
@@ -517,8 +557,7 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
         const completedSession = {
           ...session,
           endTime: new Date(),
-          successRate:
-            session.plasticityGains.length / session.completedTasks || 0,
+          successRate: session.successRate,
           nextSessionRecommendations:
             await plasticityTracker.generateSessionRecommendations(session),
         };
@@ -548,6 +587,39 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
 
   // (Synapse card rendering moved to the SynapseCard component above to ensure hook order stability)
 
+  // Render the grade for a submitted response
+  const renderTaskOutcome = (
+    evaluation: MicroTaskEvaluation,
+    strengthDelta: number,
+  ) => {
+    const gradeColors =
+      NEUROPLASTICITY_COLORS[GRADE_COLOR_KEYS[evaluation.result]];
+
+    return (
+      <View style={styles.outcomeContainer}>
+        <Text style={[styles.outcomeScore, { color: gradeColors.primary }]}>
+          {Math.round(evaluation.score * 100)}% · {evaluation.result}
+        </Text>
+        <Text style={styles.metricLabel}>
+          Synapse {strengthDelta >= 0 ? '+' : ''}
+          {Math.round(strengthDelta * 100)}% ·{' '}
+          {evaluation.grader === 'ai' ? 'AI graded' : 'Graded offline'}
+        </Text>
+        <Text style={styles.outcomeFeedback}>{evaluation.feedback}</Text>
+        {evaluation.criteria.map((criterion) => (
+          <Text key={criterion.criterion} style={styles.outcomeCriterion}>
+            {criterion.met ? '✓' : '✗'} {criterion.criterion}
+          </Text>
+        ))}
+        {evaluation.suggestions.slice(0, 2).map((suggestion) => (
+          <Text key={suggestion} style={styles.outcomeSuggestion}>
+            💡 {suggestion}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
   // Render task modal
   const renderTaskModal = () => {
     if (!currentTask || !selectedEdge) return null;
@@ -566,15 +638,23 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
             <View style={styles.taskContent}>
               <Text style={styles.taskPrompt}>{currentTask.prompt}</Text>
 
-              <TextInput
-                style={styles.responseInput}
-                value={userResponse}
-                onChangeText={setUserResponse}
-                placeholder="Enter your response..."
-                multiline
-                numberOfLines={4}
-                placeholderTextColor="#9CA3AF"
-              />
+              {taskOutcome ? (
+                renderTaskOutcome(
+                  taskOutcome.evaluation,
+                  taskOutcome.strengthDelta,
+                )
+              ) : (
+                <TextInput
+                  style={styles.responseInput}
+                  value={userResponse}
+                  onChangeText={setUserResponse}
+                  placeholder="Enter your response..."
+                  multiline
+                  numberOfLines={4}
+                  placeholderTextColor="#9CA3AF"
+                  editable={!grading}
+                />
+              )}
 
               <View style={styles.taskMetrics}>
                 <Text style={styles.metricLabel}>
@@ -590,29 +670,66 @@ export const SynapseBuilderScreen: React.FC<Props> = ({
               </View>
             </View>
 
-            <View style={styles.taskActions}>
+            {!taskOutcome && (
               <TouchableOpacity
-                style={styles.skipButton}
-                onPress={() => handleTaskCompletion(false, userResponse)}
+                style={styles.graderToggle}
+                onPress={() => setUseAIGrading((prev) => !prev)}
+                disabled={grading}
               >
-                <Text style={styles.skipButtonText}>Skip</Text>
+                <Text style={styles.metricLabel}>
+                  {useAIGrading ? '🤖 AI grading' : '📴 Offline grading'} · tap
+                  to switch
+                </Text>
               </TouchableOpacity>
+            )}
 
-              <TouchableOpacity
-                style={styles.submitButton}
-                onPress={() => handleTaskCompletion(true, userResponse)}
-                disabled={!userResponse.trim()}
-              >
-                <LinearGradient
-                  colors={
-                    NEUROPLASTICITY_COLORS.strengthening
-                      .gradient as unknown as string[]
-                  }
-                  style={styles.submitGradient}
+            <View style={styles.taskActions}>
+              {taskOutcome ? (
+                <TouchableOpacity
+                  style={styles.submitButton}
+                  onPress={() => advanceSession(taskOutcome.session)}
                 >
-                  <Text style={styles.submitButtonText}>Submit</Text>
-                </LinearGradient>
-              </TouchableOpacity>
+                  <LinearGradient
+                    colors={
+                      NEUROPLASTICITY_COLORS.strengthening
+                        .gradient as unknown as string[]
+                    }
+                    style={styles.submitGradient}
+                  >
+                    <Text style={styles.submitButtonText}>Continue</Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              ) : (
+                <>
+                  <TouchableOpacity
+                    style={styles.skipButton}
+                    onPress={() => handleTaskCompletion(userResponse, true)}
+                    disabled={grading}
+                  >
+                    <Text style={styles.skipButtonText}>Skip</Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={styles.submitButton}
+                    onPress={() => handleTaskCompletion(userResponse, false)}
+                    disabled={!userResponse.trim() || grading}
+                  >
+                    <LinearGradient
+                      colors={
+                        NEUROPLASTICITY_COLORS.strengthening
+                          .gradient as unknown as string[]
+                      }
+                      style={styles.submitGradient}
+                    >
+                      {grading ? (
+                        <ActivityIndicator color="#FFFFFF" />
+                      ) : (
+                        <Text style={styles.submitButtonText}>Submit</Text>
+                      )}
+                    </LinearGradient>
+                  </TouchableOpacity>
+                </>
+              )}
             </View>
           </GlassCard>
         </BlurView>
@@ -1203,6 +1320,38 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 12,
   },
+  graderToggle: {
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  outcomeContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  outcomeScore: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  outcomeFeedback: {
+    color: '#D1D5DB',
+    fontSize: 14,
+    lineHeight: 20,
+    marginVertical: 8,
+  },
+  outcomeCriterion: {
+    color: '#9CA3AF',
+    fontSize: 12,
+    lineHeight: 18,
+  },
+  outcomeSuggestion: {
+    color: '#A5B4FC',
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 4,
+  },
   skipButton: {
     flex: 1,
     paddingVertical: 16,
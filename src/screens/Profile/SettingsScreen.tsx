@@ -29,6 +29,9 @@ import { OAuthCallbackHandler } from '../../services/integrations/OAuthCallbackH
 import { OAuthButton } from '../../components/integrations/OAuthButton';
 import { OAuthStatusCard } from '../../components/integrations/OAuthStatusCard';
 import { Settings } from '../../types';
+import FSRSOptimizer, {
+  FSRSCalibrationReport,
+} from '../../services/learning/FSRSOptimizer';
 
 interface SettingsScreenProps {
   theme: ThemeType;
@@ -135,12 +138,28 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     signingOut: false,
   });
 
+  const [calibrationReport, setCalibrationReport] =
+    useState<FSRSCalibrationReport | null>(null);
+  const [optimizingSchedule, setOptimizingSchedule] = useState(false);
+
   const themeColors = colors[theme];
   const storage = StorageService.getInstance();
   const todoistService = TodoistService.getInstance();
   const notionService = NotionSyncService.getInstance();
   const oauthHandler = OAuthCallbackHandler.getInstance();
 
+  useEffect(() => {
+    const optimizer = FSRSOptimizer.getInstance();
+    optimizer
+      .getLastCalibrationReport()
+      .then(setCalibrationReport)
+      .catch((error) =>
+        console.warn('Failed to load FSRS calibration report:', error),
+      );
+    // Background retrains triggered by new reviews report here too
+    return optimizer.onCalibrationReport(setCalibrationReport);
+  }, []);
+
   useEffect(() => {
     loadSettings();
     setupOAuthCallbacks();
@@ -701,6 +720,45 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     }
   };
 
+  const personalizeSchedule = async () => {
+    setOptimizingSchedule(true);
+    try {
+      const report = await FSRSOptimizer.getInstance().optimize();
+      if (!report) {
+        Alert.alert(
+          'Not Enough Reviews',
+          'Personalized scheduling needs at least 200 reviewed flashcards. Keep reviewing and try again later.',
+        );
+        return;
+      }
+      Alert.alert(
+        report.applied ? 'Schedule Personalized' : 'Defaults Kept',
+        `Trained on ${report.reviewCount} reviews across ${report.cardCount} cards, ` +
+          `checked on ${report.heldOutReviewCount} reviews of cards held out of training.\n\n` +
+          `Log-loss: ${report.before.logLoss.toFixed(4)} → ${report.after.logLoss.toFixed(4)}\n` +
+          `Calibration RMSE: ${(report.before.rmse * 100).toFixed(1)}% → ${(report.after.rmse * 100).toFixed(1)}%` +
+          (report.applied
+            ? ''
+            : '\n\nThe fitted weights did not predict your recall better, so your current weights were kept.'),
+      );
+    } catch (error) {
+      console.error('Failed to personalize FSRS weights:', error);
+      Alert.alert('Error', 'Failed to personalize scheduling.');
+    } finally {
+      setOptimizingSchedule(false);
+    }
+  };
+
+  const resetSchedule = async () => {
+    try {
+      await FSRSOptimizer.getInstance().resetToDefaultWeights();
+      Alert.alert('Success', 'Review scheduling has been reset to the default weights.');
+    } catch (error) {
+      console.error('Failed to reset FSRS weights:', error);
+      Alert.alert('Error', 'Failed to reset review scheduling.');
+    }
+  };
+
   const exportData = async () => {
     try {
       const exportString = await storage.exportAllData();
@@ -1669,6 +1727,51 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
             />
           </View>
 
+          <View style={[styles.dataActions, { marginTop: 12 }]}>
+            <Button
+              title={optimizingSchedule ? 'Personalizing...' : 'Personalize Scheduling'}
+              onPress={personalizeSchedule}
+              disabled={optimizingSchedule}
+              variant="outline"
+              size="medium"
+              theme={theme}
+              style={[styles.dataButton, { borderColor: themeColors.primary }]}
+            />
+
+            <Button
+              title="Reset Scheduling"
+              onPress={() =>
+                Alert.alert(
+                  'Reset Scheduling',
+                  'This will discard your personalized FSRS weights. Continue?',
+                  [
+                    { text: 'Cancel', style: 'cancel' },
+                    {
+                      text: 'Reset',
+                      style: 'destructive',
+                      onPress: resetSchedule,
+                    },
+                  ],
+                )
+              }
+              variant="outline"
+              size="medium"
+              theme={theme}
+              style={[styles.dataButton, { borderColor: themeColors.primary }]}
+            />
+          </View>
+
+          {calibrationReport && (
+            <Text style={[styles.dataWarning, { color: themeColors.textMuted }]}>
+              🧠 Last scheduling calibration{' '}
+              {new Date(calibrationReport.trainedAt).toLocaleDateString()}: log-loss{' '}
+              {calibrationReport.before.logLoss.toFixed(3)} →{' '}
+              {calibrationReport.after.logLoss.toFixed(3)} on{' '}
+              {calibrationReport.heldOutReviewCount ?? calibrationReport.reviewCount} held-out reviews
+              {calibrationReport.applied ? ' (applied)' : ' (defaults kept)'}
+            </Text>
+          )}
+
           <Text style={[styles.dataWarning, { color: themeColors.textMuted }]}>
             ⚠️ Data clearing is permanent and cannot be undone. Export your data
             first if you want to keep a backup.
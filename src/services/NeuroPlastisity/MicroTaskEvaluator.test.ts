@@ -0,0 +1,73 @@
+import MicroTaskEvaluator from './MicroTaskEvaluator';
+import { MicroTask } from '../../screens/NeuroPlastisity/SynapseBuilderScreen';
+
+jest.mock('../../services/storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({}) },
+}));
+jest.mock('../../services/storage/SupabaseService', () => ({ SupabaseService: {} }));
+jest.mock('../../services/storage/StorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({}) },
+}));
+// Keep the real tokenizer; without a fitted embedding space there is no
+// semantic similarity
+jest.mock('../../services/learning/SemanticEmbeddingService', () => ({
+  ...jest.requireActual('../../services/learning/SemanticEmbeddingService'),
+  SemanticEmbeddingService: { getInstance: () => ({ textSimilarity: async () => null }) },
+}));
+jest.mock('./SynapseBuilderService', () => ({ __esModule: true, default: class {} }));
+jest.mock('./NeuroplasticityTracker', () => ({ __esModule: true, default: class {} }));
+
+const task: MicroTask = {
+  id: 'task_1',
+  edgeId: 'synapse_a_b',
+  taskType: 'connect',
+  sourceNodeContent: { label: 'Mitochondria', content: 'Organelle that produces ATP energy' },
+  targetNodeContent: { label: 'Cellular respiration', content: 'Process converting glucose into ATP' },
+  prompt: 'How do mitochondria relate to cellular respiration?',
+  expectedResponse: 'Cellular respiration happens in the mitochondria and produces ATP',
+  difficulty: 'intermediate',
+  estimatedTimeMinutes: 3,
+  cognitiveSkills: ['association'],
+  plasticityBenefit: 0.2,
+  adaptiveHints: ['Think about where the process happens'],
+  successCriteria: ['Explains the connection between both concepts', 'Gives a concrete example'],
+};
+
+describe('MicroTaskEvaluator offline grading', () => {
+  const evaluator = new MicroTaskEvaluator();
+
+  it('passes a response that links both concepts with an example', async () => {
+    const evaluation = await evaluator.evaluateResponse(
+      task,
+      'Mitochondria host cellular respiration, because the process runs inside them and leads to ATP. ' +
+        'For example, muscle cells carry more mitochondria since they burn glucose constantly for energy.',
+      { useAI: false },
+    );
+
+    expect(evaluation).toMatchObject({
+      grader: 'offline',
+      result: 'success',
+      semanticSimilarity: null,
+      missingKeywords: [],
+    });
+    expect(evaluation.matchedKeywords).toEqual(['mitochondria', 'cellular', 'respiration']);
+    expect(evaluation.criteria.every((criterion) => criterion.met)).toBe(true);
+    expect(evaluation.score).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('fails a short off-topic response and says what is missing', async () => {
+    const evaluation = await evaluator.evaluateResponse(task, 'I like plants.');
+
+    expect(evaluation.result).toBe('failed');
+    expect(evaluation.score).toBeLessThan(0.4);
+    expect(evaluation.missingKeywords).toEqual(['mitochondria', 'cellular', 'respiration']);
+    expect(evaluation.suggestions).toEqual([
+      'Expand your answer to at least 15 words.',
+      'Bring in: mitochondria, cellular, respiration.',
+      'Work on: explains the connection between both concepts.',
+      'Work on: gives a concrete example.',
+    ]);
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * MicroTaskEvaluator - Grades Synapse Builder micro-task responses
+ *
+ * Closes the loop between MicroTaskGenerator and SynapseBuilderService:
+ * responses are scored against the task's success criteria, the attempt is
+ * persisted, and the result drives the synapse strength update and the
+ * NeuroplasticityTracker snapshot.
+ *
+ * Grading:
+ * - Offline (default): concept keyword coverage, per-criterion heuristics and
+ *   semantic similarity to the expected response in the local embedding space
+ * - AI (optional): the ai-logic-evaluator edge function in micro-task mode,
+ *   falling back to offline grading when it is unavailable
+ */
+
+import { SynapseEdge, MicroTask } from '../../screens/NeuroPlastisity/SynapseBuilderScreen';
+import HybridStorageService from '../../services/storage/HybridStorageService';
+import { SupabaseService } from '../../services/storage/SupabaseService';
+import { SemanticEmbeddingService, tokenize } from '../../services/learning/SemanticEmbeddingService';
+import SynapseBuilderService from './SynapseBuilderService';
+import NeuroplasticityTracker from './NeuroplasticityTracker';
+
+export type MicroTaskResult = 'success' | 'partial' | 'failed';
+
+export interface CriterionResult {
+  criterion: string;
+  score: number; // 0-1
+  met: boolean;
+  comment?: string;
+}
+
+export interface MicroTaskEvaluation {
+  score: number; // 0-1
+  result: MicroTaskResult;
+  grader: 'offline' | 'ai';
+  criteria: CriterionResult[];
+  matchedKeywords: string[];
+  missingKeywords: string[];
+  semanticSimilarity: number | null;
+  feedback: string;
+  suggestions: string[];
+}
+
+export interface MicroTaskAttempt {
+  id: string;
+  taskId: string;
+  edgeId: string;
+  taskType: MicroTask['taskType'];
+  prompt: string;
+  response: string;
+  skipped: boolean;
+  evaluation: MicroTaskEvaluation;
+  strengthBefore: number;
+  strengthAfter: number;
+  strengthDelta: number;
+  timestamp: Date;
+}
+
+export interface MicroTaskOutcome {
+  evaluation: MicroTaskEvaluation;
+  attempt: MicroTaskAttempt;
+  updatedEdge: SynapseEdge;
+}
+
+export interface EvaluationOptions {
+  useAI?: boolean;
+}
+
+// Node content as MicroTaskGenerator attaches it to a task
+interface ConceptContent {
+  label?: unknown;
+  content?: unknown;
+}
+
+// A criterion as the edge function grades it; every field is checked before use
+interface AICriterionGrade {
+  criterion?: unknown;
+  met?: unknown;
+  comment?: unknown;
+}
+
+// Words a response needs before it can fully meet any criterion
+const MIN_WORDS: Record<MicroTask['taskType'], number> = {
+  recall: 8,
+  connect: 15,
+  synthesize: 20,
+  apply: 25,
+  create: 25,
+};
+
+const SUCCESS_THRESHOLD = 0.7;
+const PARTIAL_THRESHOLD = 0.4;
+const MAX_STORED_ATTEMPTS = 500;
+
+const CONNECTOR_PATTERN =
+  /\b(because|therefore|thus|hence|so that|leads? to|results? in|causes?|enables?|depends? on|relates? to|connects?|linked|which means|as a result|due to|since)\b/gi;
+const EXAMPLE_PATTERN = /\b(for example|for instance|e\.g\.|such as|like when|imagine|consider)\b/i;
+const SEQUENCE_PATTERN = /\b(first|then|next|after that|finally|step)\b/gi;
+const APPLICATION_PATTERN = /\b(scenario|project|situation|in practice|real[- ]world|would use|apply|applying|client|team)\b/i;
+const PREREQUISITE_PATTERN = /\b(before|foundation|prerequisite|requires?|need to know|builds? on|basis)\b/i;
+const SIMILARITY_PATTERN = /\b(similar|both|alike|share|shared|common|in the same way|likewise)\b/i;
+
+interface GradingContext {
+  task: MicroTask;
+  response: string;
+  tokens: Set<string>;
+  wordCount: number;
+  sourceCoverage: number;
+  targetCoverage: number;
+  keywordCoverage: number;
+  novelty: number; // Share of response terms not taken from either concept
+}
+
+// Criteria are free text from MicroTaskGenerator; each rule grades the ones it recognises
+const CRITERION_RULES: Array<{ pattern: RegExp; grade: (context: GradingContext) => number }> = [
+  {
+    pattern: /both concepts|key elements/i,
+    grade: (c) => Math.min(c.sourceCoverage, c.targetCoverage) * 0.6 + Math.max(c.sourceCoverage, c.targetCoverage) * 0.4,
+  },
+  {
+    pattern: /connection|relationship/i,
+    grade: (c) => Math.min(1, countMatches(c.response, CONNECTOR_PATTERN) / 2) * 0.7 + Math.min(c.sourceCoverage, c.targetCoverage) * 0.3,
+  },
+  { pattern: /example|detail/i, grade: (c) => (EXAMPLE_PATTERN.test(c.response) ? 1 : 0.3) },
+  {
+    pattern: /reasoning chain|logical/i,
+    grade: (c) => Math.min(1, (countMatches(c.response, CONNECTOR_PATTERN) + countMatches(c.response, SEQUENCE_PATTERN)) / 3),
+  },
+  { pattern: /insight|synthesis|beyond|original|creative|innovative/i, grade: (c) => Math.min(1, c.novelty * 1.5) },
+  { pattern: /practical|application|feasible/i, grade: (c) => (APPLICATION_PATTERN.test(c.response) ? 1 : 0.3) },
+  { pattern: /prerequisite/i, grade: (c) => (PREREQUISITE_PATTERN.test(c.response) ? 1 : 0.2) },
+  { pattern: /similar/i, grade: (c) => (SIMILARITY_PATTERN.test(c.response) ? 1 : 0.2) },
+];
+
+export class MicroTaskEvaluator {
+  private storage: HybridStorageService;
+  private synapseService: SynapseBuilderService;
+  private tracker: NeuroplasticityTracker;
+  private readonly ATTEMPTS_KEY = 'micro_task_attempts';
+
+  constructor() {
+    this.storage = HybridStorageService.getInstance();
+    this.synapseService = new SynapseBuilderService();
+    this.tracker = new NeuroplasticityTracker();
+  }
+
+  /**
+   * Grade a response, apply it to the synapse, persist the attempt and
+   * update the plasticity snapshot. `synapses` is the full set the tracker
+   * snapshots; the graded edge is replaced with its updated version.
+   */
+  async submitAttempt(
+    task: MicroTask,
+    edge: SynapseEdge,
+    response: string,
+    synapses: SynapseEdge[],
+    options: EvaluationOptions & { skipped?: boolean } = {}
+  ): Promise<MicroTaskOutcome> {
+    try {
+      const skipped = options.skipped === true || !response.trim();
+      const evaluation = skipped ? this.skippedEvaluation(task) : await this.evaluateResponse(task, response, options);
+
+      const strengthDelta = this.calculateStrengthDelta(task, evaluation);
+      const updatedEdge = await this.synapseService.updateSynapseStrength(
+        edge.id,
+        strengthDelta,
+        evaluation.result,
+        edge
+      );
+
+      const attempt: MicroTaskAttempt = {
+        id: `attempt_${task.id}_${Date.now()}`,
+        taskId: task.id,
+        edgeId: edge.id,
+        taskType: task.taskType,
+        prompt: task.prompt,
+        response,
+        skipped,
+        evaluation,
+        strengthBefore: edge.strength,
+        strengthAfter: updatedEdge.strength,
+        strengthDelta,
+        timestamp: new Date(),
+      };
+      await this.saveAttempt(attempt);
+
+      await this.tracker.recordMicroTaskOutcome(
+        synapses.map(s => (s.id === edge.id ? updatedEdge : s)),
+        evaluation.score
+      );
+
+      return { evaluation, attempt, updatedEdge };
+    } catch (error) {
+      console.error('Error submitting micro-task attempt:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Score a response (0-1). AI grading is used only when asked for and
+   * reachable; offline grading is always the fallback.
+   */
+  async evaluateResponse(task: MicroTask, response: string, options: EvaluationOptions = {}): Promise<MicroTaskEvaluation> {
+    const offline = await this.evaluateOffline(task, response);
+    if (!options.useAI) return offline;
+
+    try {
+      return await this.evaluateWithAI(task, response, offline);
+    } catch (error) {
+      console.warn('AI micro-task grading unavailable, using offline grade:', error);
+      return offline;
+    }
+  }
+
+  /**
+   * Past attempts, newest first, optionally for one synapse
+   */
+  async getAttempts(edgeId?: string): Promise<MicroTaskAttempt[]> {
+    try {
+      const stored = await this.storage.getItem(this.ATTEMPTS_KEY);
+      const attempts: MicroTaskAttempt[] = Array.isArray(stored) ? stored : [];
+      return attempts
+        .filter(a => !edgeId || a.edgeId === edgeId)
+        .map(a => ({ ...a, timestamp: new Date(a.timestamp) }))
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      console.error('Error loading micro-task attempts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Keyword coverage + criteria heuristics + semantic similarity
+   */
+  private async evaluateOffline(task: MicroTask, response: string): Promise<MicroTaskEvaluation> {
+    const responseTokens = tokenize(response);
+    const tokens = new Set(responseTokens);
+    const sourceTerms = this.conceptTerms(task.sourceNodeContent);
+    const targetTerms = this.conceptTerms(task.targetNodeContent);
+    const keywords = Array.from(new Set([...sourceTerms.labelTerms, ...targetTerms.labelTerms]));
+
+    // Report keywords as the learner wrote them in the labels, not as stems
+    const labelWords = new Map([...sourceTerms.labelWords, ...targetTerms.labelWords]);
+    const matchedKeywords = keywords.filter(k => tokens.has(k)).map(k => labelWords.get(k) ?? k);
+    const missingKeywords = keywords.filter(k => !tokens.has(k)).map(k => labelWords.get(k) ?? k);
+    const conceptVocabulary = new Set([...sourceTerms.allTerms, ...targetTerms.allTerms]);
+
+    const context: GradingContext = {
+      task,
+      response,
+      tokens,
+      wordCount: response.trim().split(/\s+/).filter(Boolean).length,
+      sourceCoverage: this.coverage(sourceTerms, tokens),
+      targetCoverage: this.coverage(targetTerms, tokens),
+      keywordCoverage: keywords.length > 0 ? matchedKeywords.length / keywords.length : 0,
+      novelty: tokens.size > 0 ? Array.from(tokens).filter(t => !conceptVocabulary.has(t)).length / tokens.size : 0,
+    };
+
+    const semanticSimilarity = await SemanticEmbeddingService.getInstance().textSimilarity(
+      response,
+      [task.expectedResponse, task.sourceNodeContent?.label, task.targetNodeContent?.label]
+        .filter(Boolean)
+        .join(' ')
+    );
+
+    const criteria: CriterionResult[] = task.successCriteria.map(criterion => {
+      const rule = CRITERION_RULES.find(r => r.pattern.test(criterion));
+      const raw = rule ? rule.grade(context) : Math.max(context.keywordCoverage, semanticSimilarity ?? 0);
+      const score = Math.max(0, Math.min(1, raw * lengthFactor(context)));
+      return { criterion, score, met: score >= 0.6 };
+    });
+
+    const criteriaScore = criteria.length > 0 ? criteria.reduce((sum, c) => sum + c.score, 0) / criteria.length : 0;
+    const weights = semanticSimilarity === null
+      ? { criteria: 0.65, keywords: 0.35, semantic: 0 }
+      : { criteria: 0.5, keywords: 0.3, semantic: 0.2 };
+    const score = Math.max(0, Math.min(1,
+      (criteriaScore * weights.criteria) +
+      (context.keywordCoverage * weights.keywords) +
+      (Math.max(0, semanticSimilarity ?? 0) * weights.semantic)
+    ));
+
+    const suggestions: string[] = [];
+    if (context.wordCount < MIN_WORDS[task.taskType]) {
+      suggestions.push(`Expand your answer to at least ${MIN_WORDS[task.taskType]} words.`);
+    }
+    if (missingKeywords.length > 0) {
+      suggestions.push(`Bring in: ${missingKeywords.slice(0, 4).join(', ')}.`);
+    }
+    criteria
+      .filter(c => !c.met)
+      .slice(0, 2)
+      .forEach(c => suggestions.push(`Work on: ${c.criterion.toLowerCase()}.`));
+
+    const result = this.toResult(score);
+    return {
+      score,
+      result,
+      grader: 'offline',
+      criteria,
+      matchedKeywords,
+      missingKeywords,
+      semanticSimilarity,
+      feedback: this.describeResult(result, criteria),
+      suggestions,
+    };
+  }
+
+  /**
+   * Grade through the ai-logic-evaluator edge function in micro-task mode.
+   * Keyword details come from the offline grade, which the AI doesn't report.
+   */
+  private async evaluateWithAI(
+    task: MicroTask,
+    response: string,
+    offline: MicroTaskEvaluation
+  ): Promise<MicroTaskEvaluation> {
+    const { data, error } = await SupabaseService.getInstance().getClient().functions.invoke('ai-logic-evaluator', {
+      method: 'POST',
+      body: {
+        mode: 'micro_task',
+        taskType: task.taskType,
+        prompt: task.prompt,
+        expectedResponse: task.expectedResponse,
+        successCriteria: task.successCriteria,
+        response,
+        sourceLabel: task.sourceNodeContent?.label,
+        targetLabel: task.targetNodeContent?.label,
+      },
+    });
+
+    if (error || !data || typeof data.score !== 'number') {
+      throw new Error(String(error?.message ?? data?.error ?? 'Invalid micro-task grading response'));
+    }
+
+    const aiCriteria: (AICriterionGrade | null)[] = Array.isArray(data.criteria) ? data.criteria : [];
+    const criteria: CriterionResult[] = task.successCriteria.map((criterion, i) => {
+      const graded = aiCriteria.find(c => c?.criterion === criterion) ?? aiCriteria[i];
+      const met = typeof graded?.met === 'boolean' ? graded.met : (offline.criteria[i]?.met ?? false);
+      return {
+        criterion,
+        score: met ? 1 : 0,
+        met,
+        ...(typeof graded?.comment === 'string' && graded.comment ? { comment: graded.comment } : {}),
+      };
+    });
+
+    const score = Math.max(0, Math.min(1, data.score / 100));
+    const result = this.toResult(score);
+    return {
+      ...offline,
+      score,
+      result,
+      grader: 'ai',
+      criteria,
+      feedback: typeof data.feedback === 'string' && data.feedback ? data.feedback : this.describeResult(result, criteria),
+      suggestions: Array.isArray(data.suggestions) ? data.suggestions.map(String).slice(0, 5) : offline.suggestions,
+    };
+  }
+
+  /**
+   * Strength change from a graded attempt. Failed retrievals weaken the
+   * synapse slightly; SynapseBuilderService applies diminishing returns.
+   */
+  private calculateStrengthDelta(task: MicroTask, evaluation: MicroTaskEvaluation): number {
+    switch (evaluation.result) {
+      case 'success':
+        return task.plasticityBenefit * evaluation.score;
+      case 'partial':
+        return task.plasticityBenefit * evaluation.score * 0.5;
+      case 'failed':
+        return -task.plasticityBenefit * 0.25;
+    }
+  }
+
+  private skippedEvaluation(task: MicroTask): MicroTaskEvaluation {
+    return {
+      score: 0,
+      result: 'failed',
+      grader: 'offline',
+      criteria: task.successCriteria.map(criterion => ({ criterion, score: 0, met: false })),
+      matchedKeywords: [],
+      missingKeywords: [],
+      semanticSimilarity: null,
+      feedback: 'Task skipped - this connection will come back sooner.',
+      suggestions: task.adaptiveHints.slice(0, 1),
+    };
+  }
+
+  private toResult(score: number): MicroTaskResult {
+    if (score >= SUCCESS_THRESHOLD) return 'success';
+    if (score >= PARTIAL_THRESHOLD) return 'partial';
+    return 'failed';
+  }
+
+  private describeResult(result: MicroTaskResult, criteria: CriterionResult[]): string {
+    const met = criteria.filter(c => c.met).length;
+    switch (result) {
+      case 'success':
+        return `Strong connection! You met ${met} of ${criteria.length} criteria.`;
+      case 'partial':
+        return `Partly there - ${met} of ${criteria.length} criteria met. Strengthen the link with more detail.`;
+      case 'failed':
+        return `This connection needs more work - ${met} of ${criteria.length} criteria met.`;
+    }
+  }
+
+  /**
+   * Terms for a concept: its label (required keywords) and its content
+   */
+  private conceptTerms(content: ConceptContent | null | undefined): { labelTerms: string[]; allTerms: string[]; labelWords: Map<string, string> } {
+    const label = String(content?.label ?? '');
+    const labelTerms = tokenize(label);
+    const contentTerms = tokenize(String(content?.content ?? '')).slice(0, 50);
+
+    const labelWords = new Map<string, string>();
+    (label.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).forEach(word => {
+      const [term] = tokenize(word);
+      if (term && !labelWords.has(term)) labelWords.set(term, word);
+    });
+
+    return { labelTerms, allTerms: [...labelTerms, ...contentTerms], labelWords };
+  }
+
+  /**
+   * How well the response covers a concept: the label counts most, any
+   * content term adds the rest
+   */
+  private coverage(terms: { labelTerms: string[]; allTerms: string[] }, tokens: Set<string>): number {
+    const labelHits = terms.labelTerms.filter(t => tokens.has(t)).length;
+    const labelScore = terms.labelTerms.length > 0 ? labelHits / terms.labelTerms.length : 0;
+    const contentHits = terms.allTerms.filter(t => tokens.has(t)).length - labelHits;
+    return Math.min(1, labelScore * 0.7 + Math.min(1, contentHits / 2) * 0.3);
+  }
+
+  private async saveAttempt(attempt: MicroTaskAttempt): Promise<void> {
+    try {
+      const stored = await this.storage.getItem(this.ATTEMPTS_KEY);
+      const attempts: MicroTaskAttempt[] = Array.isArray(stored) ? stored : [];
+      attempts.push(attempt);
+
+      if (attempts.length > MAX_STORED_ATTEMPTS) {
+        attempts.splice(0, attempts.length - MAX_STORED_ATTEMPTS);
+      }
+
+      await this.storage.setItem(this.ATTEMPTS_KEY, attempts);
+    } catch (error) {
+      console.error('Error saving micro-task attempt:', error);
+    }
+  }
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) ?? []).length;
+}
+
+/**
+ * Answers shorter than the task type's minimum can't fully meet a criterion
+ */
+function lengthFactor(context: GradingContext): number {
+  return Math.min(1, context.wordCount / MIN_WORDS[context.task.taskType]);
+}
+
+export default MicroTaskEvaluator;
@@ -35,6 +35,17 @@ export interface PlasticityInsight {
   relatedSynapses: string[];
 }
 
+export interface PlasticitySnapshot {
+  timestamp: Date;
+  totalSynapses: number;
+  averageStrength: number;
+  averageRetention: number;
+  criticalCount: number;
+  plasticityScore: number;
+  microTaskAttempts?: number; // Graded micro-tasks on the snapshot's day
+  averageTaskScore?: number; // 0-1
+}
+
 export class NeuroplasticityTracker {
   private storage: HybridStorageService;
   private readonly PLASTICITY_HISTORY_KEY = 'neuroplasticity_history';
@@ -329,40 +340,70 @@ export class NeuroplasticityTracker {
    */
   async recordPlasticitySnapshot(synapses: SynapseEdge[]): Promise<void> {
     try {
-      const snapshot = {
-        timestamp: new Date(),
-        totalSynapses: synapses.length,
-        averageStrength: synapses.reduce((sum, s) => sum + s.strength, 0) / synapses.length,
-        averageRetention: synapses.reduce((sum, s) => sum + s.retentionRate, 0) / synapses.length,
-        criticalCount: synapses.filter(s => s.urgencyLevel === 'critical').length,
-        plasticityScore: await this.calculateOverallPlasticityScore(synapses),
-      };
+      const snapshot = await this.buildSnapshot(synapses);
 
       const history = await this.getPlasticityHistory();
       history.push(snapshot);
 
-      // Keep only last 30 snapshots (roughly 1 month if daily)
-      if (history.length > 30) {
-        history.splice(0, history.length - 30);
+      await this.savePlasticityHistory(history);
+    } catch (error) {
+      console.error('Error recording plasticity snapshot:', error);
+    }
+  }
+
+  /**
+   * Fold a graded micro-task into today's snapshot (one snapshot per day)
+   */
+  async recordMicroTaskOutcome(synapses: SynapseEdge[], taskScore: number): Promise<void> {
+    try {
+      const snapshot = await this.buildSnapshot(synapses);
+      const history = await this.getPlasticityHistory();
+
+      const last = history[history.length - 1];
+      const sameDay = last && new Date(last.timestamp).toDateString() === snapshot.timestamp.toDateString();
+      const previousAttempts = sameDay ? last.microTaskAttempts ?? 0 : 0;
+      const previousScore = sameDay ? last.averageTaskScore ?? 0 : 0;
+
+      snapshot.microTaskAttempts = previousAttempts + 1;
+      snapshot.averageTaskScore = (previousScore * previousAttempts + taskScore) / (previousAttempts + 1);
+
+      if (sameDay) {
+        history[history.length - 1] = snapshot;
+      } else {
+        history.push(snapshot);
       }
 
-      await this.storage.setItem(this.PLASTICITY_HISTORY_KEY, history);
+      await this.savePlasticityHistory(history);
     } catch (error) {
-      console.error('Error recording plasticity snapshot:', error);
+      console.error('Error recording micro-task outcome:', error);
+    }
+  }
+
+  private async buildSnapshot(synapses: SynapseEdge[]): Promise<PlasticitySnapshot> {
+    const count = Math.max(synapses.length, 1);
+    return {
+      timestamp: new Date(),
+      totalSynapses: synapses.length,
+      averageStrength: synapses.reduce((sum, s) => sum + s.strength, 0) / count,
+      averageRetention: synapses.reduce((sum, s) => sum + s.retentionRate, 0) / count,
+      criticalCount: synapses.filter(s => s.urgencyLevel === 'critical').length,
+      plasticityScore: await this.calculateOverallPlasticityScore(synapses),
+    };
+  }
+
+  private async savePlasticityHistory(history: PlasticitySnapshot[]): Promise<void> {
+    // Keep only last 30 snapshots (roughly 1 month if daily)
+    if (history.length > 30) {
+      history.splice(0, history.length - 30);
     }
+
+    await this.storage.setItem(this.PLASTICITY_HISTORY_KEY, history);
   }
 
   /**
    * Get plasticity history for trend analysis
    */
-  private async getPlasticityHistory(): Promise<Array<{
-    timestamp: Date;
-    totalSynapses: number;
-    averageStrength: number;
-    averageRetention: number;
-    criticalCount: number;
-    plasticityScore: number;
-  }>> {
+  private async getPlasticityHistory(): Promise<PlasticitySnapshot[]> {
     try {
       const history = await this.storage.getItem(this.PLASTICITY_HISTORY_KEY);
       return Array.isArray(history) ? history : [];
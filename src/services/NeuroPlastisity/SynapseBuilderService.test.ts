@@ -0,0 +1,77 @@
+import SynapseBuilderService from './SynapseBuilderService';
+import { NeuralLink, NeuralNode } from '../../services/learning/MindMapGeneratorService';
+
+const saveContextSnapshot = jest.fn(async (_snapshot: any) => {});
+
+// Snapshots come back JSON-decoded, dates as strings
+const storedEdge = (strength: number, practiceCount: number) =>
+  JSON.parse(
+    JSON.stringify({
+      id: 'synapse_a_b',
+      strength,
+      practiceCount,
+      retentionRate: 0.7,
+      urgencyLevel: 'stable',
+      microTasksGenerated: practiceCount,
+      lastPracticeDate: new Date('2026-10-18T08:00:00Z'),
+      strengthHistory: [{ date: new Date('2026-10-18T08:00:00Z'), strength }],
+      lastReviewResult: 'success',
+    }),
+  );
+
+jest.mock('../../services/storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getContextSnapshots: async () => [
+        { contextHash: 'synapse_a_b', version: 2, userId: 'user_1', payload: storedEdge(0.82, 2) },
+        { contextHash: 'synapse_a_b', version: 1, userId: 'user_1', payload: storedEdge(0.55, 1) },
+        { contextHash: 'ctx_other', version: 1, payload: {} },
+      ],
+      saveContextSnapshot: (snapshot: any) => saveContextSnapshot(snapshot),
+    }),
+  },
+}));
+
+const node = (id: string): NeuralNode =>
+  ({ id, type: 'concept', label: id, content: id, category: 'biology', masteryLevel: 0.2, cognitiveLoad: 0.5 }) as NeuralNode;
+
+const link: NeuralLink = {
+  id: 'link_a_b',
+  source: 'a',
+  target: 'b',
+  strength: 0.3,
+  weight: 0.3,
+  type: 'association',
+  activationCount: 0,
+  lastActivated: new Date(),
+  confidence: 0.5,
+};
+
+describe('SynapseBuilderService stored practice', () => {
+  const service = new SynapseBuilderService();
+
+  it('builds edges with the latest stored strength and history', async () => {
+    const [edge] = await service.analyzeSynapticConnections([link], [node('a'), node('b')]);
+
+    expect(edge).toMatchObject({
+      id: 'synapse_a_b',
+      strength: 0.82,
+      practiceCount: 2,
+      urgencyLevel: 'stable',
+      lastReviewResult: 'success',
+    });
+    expect(edge!.lastPracticeDate).toBeInstanceOf(Date);
+    expect(edge!.strengthHistory[0]!.date).toBeInstanceOf(Date);
+  });
+
+  it('grades on top of the latest stored version', async () => {
+    const updated = await service.updateSynapseStrength('synapse_a_b', 0.1, 'success');
+
+    expect(updated.strength).toBeCloseTo(0.82 + 0.1 * 0.4);
+    expect(updated.practiceCount).toBe(3);
+    expect(saveContextSnapshot).toHaveBeenCalledWith(
+      expect.objectContaining({ contextHash: 'synapse_a_b', version: 3, userId: 'user_1' }),
+    );
+  });
+});
@@ -16,6 +16,12 @@ import { NeuralNode, NeuralLink } from '../../services/learning/MindMapGenerator
 import HybridStorageService from '../../services/storage/HybridStorageService';
 import { SynapseEdge, NeuroplasticitySession } from '../../screens/NeuroPlastisity/SynapseBuilderScreen';
 
+interface StoredSynapse {
+  version: number;
+  userId: string | null;
+  edge: SynapseEdge;
+}
+
 export class SynapseBuilderService {
   private storage: HybridStorageService;
   
@@ -25,11 +31,13 @@ export class SynapseBuilderService {
 
   /**
    * Analyze synaptic connections from neural links
-   * Creates enhanced synapse edges with neuroplasticity metrics
+   * Creates enhanced synapse edges with neuroplasticity metrics. Synapses
+   * that were practised keep their stored strength and practice history.
    */
   async analyzeSynapticConnections(links: NeuralLink[], nodes: NeuralNode[]): Promise<SynapseEdge[]> {
     try {
       const synapseEdges: SynapseEdge[] = [];
+      const practised = await this.loadPractisedSynapses();
       
       for (const link of links) {
         const sourceNode = nodes.find(n => n.id === link.source);
@@ -66,7 +74,8 @@ export class SynapseBuilderService {
           lastReviewResult: null,
         };
 
-        synapseEdges.push(synapseEdge);
+        const stored = practised.get(synapseEdge.id);
+        synapseEdges.push(stored ? this.overlayPractice(synapseEdge, stored) : synapseEdge);
       }
 
       // Sort by urgency and strength (weakest first)
@@ -85,6 +94,56 @@ export class SynapseBuilderService {
     }
   }
 
+  /**
+   * Latest snapshot saved by updateSynapseStrength for each synapse id
+   */
+  private async loadSynapseSnapshots(): Promise<Map<string, StoredSynapse>> {
+    const snapshots = new Map<string, StoredSynapse>();
+    for (const snapshot of await this.storage.getContextSnapshots()) {
+      if (typeof snapshot.contextHash !== 'string' || !snapshot.contextHash.startsWith('synapse_')) continue;
+      const version = snapshot.version || 1;
+      const previous = snapshots.get(snapshot.contextHash);
+      if (previous && previous.version >= version) continue;
+      snapshots.set(snapshot.contextHash, {
+        version,
+        userId: snapshot.userId || null,
+        edge: snapshot.payload as SynapseEdge,
+      });
+    }
+    return snapshots;
+  }
+
+  private async loadPractisedSynapses(): Promise<Map<string, SynapseEdge>> {
+    try {
+      const snapshots = await this.loadSynapseSnapshots();
+      return new Map(Array.from(snapshots.entries()).map(([id, stored]) => [id, stored.edge]));
+    } catch (error) {
+      console.warn('Stored synapse strengths unavailable:', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Practice state (strength, history, last result) from the stored synapse
+   * over the freshly derived edge
+   */
+  private overlayPractice(edge: SynapseEdge, stored: SynapseEdge): SynapseEdge {
+    return {
+      ...edge,
+      strength: stored.strength,
+      lastPracticeDate: new Date(stored.lastPracticeDate),
+      practiceCount: stored.practiceCount,
+      retentionRate: stored.retentionRate,
+      urgencyLevel: stored.urgencyLevel,
+      microTasksGenerated: stored.microTasksGenerated,
+      strengthHistory: (stored.strengthHistory ?? []).map((entry) => ({
+        ...entry,
+        date: new Date(entry.date),
+      })),
+      lastReviewResult: stored.lastReviewResult ?? null,
+    };
+  }
+
   /**
    * Calculate synaptic strength using multiple factors
    * Based on usage frequency, recency, FSRS metrics, and node mastery
@@ -322,23 +381,25 @@ export class SynapseBuilderService {
   }
 
   /**
-   * Update synapse strength after practice using three-tier storage
+   * Update synapse strength after practice using three-tier storage.
+   * Synapses are derived from the graph and only stored once practised, so
+   * `currentEdge` seeds the first update.
    */
   async updateSynapseStrength(
     synapseId: string,
     strengthDelta: number,
-    reviewResult: 'success' | 'partial' | 'failed'
+    reviewResult: 'success' | 'partial' | 'failed',
+    currentEdge?: SynapseEdge
   ): Promise<SynapseEdge> {
     try {
       // Load existing synapse data using three-tier read strategy
-      const existingSnapshots = await this.storage.getContextSnapshots();
-      const synapseSnapshot = existingSnapshots.find(s => s.contextHash === synapseId);
+      const synapseSnapshot = (await this.loadSynapseSnapshots()).get(synapseId);
 
-      if (!synapseSnapshot) {
+      if (!synapseSnapshot && !currentEdge) {
         throw new Error(`Synapse with id ${synapseId} not found in storage`);
       }
 
-      const storedEdge = synapseSnapshot.payload as SynapseEdge;
+      const storedEdge = (synapseSnapshot?.edge ?? currentEdge) as SynapseEdge;
       const baseStrength = storedEdge.strength;
 
       // Apply strength delta with diminishing returns
@@ -378,8 +439,8 @@ export class SynapseBuilderService {
       // Save updated synapse data using three-tier write strategy
       const contextSnapshot = {
         contextHash: synapseId,
-        version: (synapseSnapshot.version || 1) + 1,
-        userId: synapseSnapshot.userId || null,
+        version: synapseSnapshot ? synapseSnapshot.version + 1 : 1,
+        userId: synapseSnapshot?.userId ?? null,
         timestamp: Date.now(),
         sessionId: `neuroplasticity_${Date.now()}`,
         payload: updatedEdge,
@@ -0,0 +1,170 @@
+/**
+ * ReviewAnalyticsService - Retention analytics over the FSRS review-log store
+ *
+ * Computes true retention (share of mature reviews recalled) and compares it
+ * with the scheduler's requestRetention target, broken down by card age,
+ * tag, category and hour of day.
+ */
+
+import StorageService, { StoredReviewLog } from '../storage/StorageService';
+import SpacedRepetitionService, {
+  CardState,
+  FSRSReviewLog,
+  Rating,
+} from '../learning/SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+export interface RetentionBucket {
+  key: string;
+  reviews: number;
+  recalled: number;
+  retention: number; // 0-1
+}
+
+export interface RetentionReport {
+  trueRetention: number; // Mature (Review-state) reviews only
+  overallRecallRate: number; // All reviews, including learning steps
+  targetRetention: number;
+  retentionGap: number; // trueRetention - targetRetention
+  totalReviews: number;
+  matureReviews: number;
+  byCardAge: RetentionBucket[];
+  byTag: RetentionBucket[];
+  byCategory: RetentionBucket[];
+  byHourOfDay: RetentionBucket[]; // Always 24 entries, key '0'..'23'
+  generatedAt: string; // ISO
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Card age buckets in days: [label, upper bound exclusive]
+const CARD_AGE_BUCKETS: ReadonlyArray<readonly [string, number]> = [
+  ['< 1 week', 7],
+  ['1-4 weeks', 28],
+  ['1-3 months', 90],
+  ['3-12 months', 365],
+  ['> 1 year', Infinity],
+];
+
+export class ReviewAnalyticsService {
+  private static instance: ReviewAnalyticsService;
+  private storage: StorageService;
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+  }
+
+  public static getInstance(): ReviewAnalyticsService {
+    if (!ReviewAnalyticsService.instance) {
+      ReviewAnalyticsService.instance = new ReviewAnalyticsService();
+    }
+    return ReviewAnalyticsService.instance;
+  }
+
+  /**
+   * Load review logs and flashcards from storage and build the retention report
+   */
+  async getRetentionReport(options: { since?: Date; logs?: FSRSReviewLog[] } = {}): Promise<RetentionReport> {
+    try {
+      const [logs, flashcards] = await Promise.all([
+        options.logs ? Promise.resolve(options.logs) : this.storage.getReviewLogs(),
+        this.storage.getFlashcards(),
+      ]);
+      const filtered = options.since
+        ? logs.filter(log => new Date(log.review).getTime() >= options.since!.getTime())
+        : logs;
+      return this.buildRetentionReport(filtered, flashcards);
+    } catch (error) {
+      console.error('Error building retention report:', error);
+      return this.buildRetentionReport([], []);
+    }
+  }
+
+  /**
+   * Pure aggregation over already-loaded logs and card metadata
+   */
+  buildRetentionReport(
+    logs: Array<FSRSReviewLog | StoredReviewLog>,
+    flashcards: Flashcard[],
+    targetRetention: number = SpacedRepetitionService.getInstance().getParameters().requestRetention,
+  ): RetentionReport {
+    const cardsById = new Map(flashcards.map(card => [card.id, card]));
+
+    // First review per card is the fallback "created" date for non-flashcard items
+    const firstSeen = new Map<string, number>();
+    for (const log of logs) {
+      if (!log.card_id) continue;
+      const time = new Date(log.review).getTime();
+      const prev = firstSeen.get(log.card_id);
+      if (prev === undefined || time < prev) firstSeen.set(log.card_id, time);
+    }
+
+    const overall = this.createBucket('all');
+    const mature = this.createBucket('mature');
+    const byAge = new Map(CARD_AGE_BUCKETS.map(([label]) => [label, this.createBucket(label)]));
+    const byTag = new Map<string, RetentionBucket>();
+    const byCategory = new Map<string, RetentionBucket>();
+    const byHour = Array.from({ length: 24 }, (_, hour) => this.createBucket(String(hour)));
+
+    for (const log of logs) {
+      const recalled = log.rating > Rating.Again;
+      this.addToBucket(overall, recalled);
+
+      // Retention analytics follow FSRS convention: only reviews of graduated cards count
+      if (log.state !== CardState.Review) continue;
+      this.addToBucket(mature, recalled);
+
+      const reviewTime = new Date(log.review);
+      const card = log.card_id ? cardsById.get(log.card_id) : undefined;
+
+      const createdAt = card?.created
+        ? new Date(card.created).getTime()
+        : log.card_id ? firstSeen.get(log.card_id) : undefined;
+      if (createdAt !== undefined && !isNaN(createdAt)) {
+        const ageDays = Math.max(0, (reviewTime.getTime() - createdAt) / DAY_MS);
+        const ageBucket = CARD_AGE_BUCKETS.find(([, upper]) => ageDays < upper);
+        if (ageBucket) this.addToBucket(byAge.get(ageBucket[0])!, recalled);
+      }
+
+      for (const tag of card?.tags ?? []) {
+        if (!byTag.has(tag)) byTag.set(tag, this.createBucket(tag));
+        this.addToBucket(byTag.get(tag)!, recalled);
+      }
+
+      const category = card?.category || 'uncategorized';
+      if (!byCategory.has(category)) byCategory.set(category, this.createBucket(category));
+      this.addToBucket(byCategory.get(category)!, recalled);
+
+      const hourBucket = byHour[reviewTime.getHours()];
+      if (hourBucket) this.addToBucket(hourBucket, recalled);
+    }
+
+    const sortByVolume = (a: RetentionBucket, b: RetentionBucket) => b.reviews - a.reviews;
+
+    return {
+      trueRetention: mature.retention,
+      overallRecallRate: overall.retention,
+      targetRetention,
+      retentionGap: mature.reviews > 0 ? mature.retention - targetRetention : 0,
+      totalReviews: overall.reviews,
+      matureReviews: mature.reviews,
+      byCardAge: Array.from(byAge.values()),
+      byTag: Array.from(byTag.values()).sort(sortByVolume),
+      byCategory: Array.from(byCategory.values()).sort(sortByVolume),
+      byHourOfDay: byHour,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  private createBucket(key: string): RetentionBucket {
+    return { key, reviews: 0, recalled: 0, retention: 0 };
+  }
+
+  private addToBucket(bucket: RetentionBucket, recalled: boolean): void {
+    bucket.reviews += 1;
+    if (recalled) bucket.recalled += 1;
+    bucket.retention = bucket.recalled / bucket.reviews;
+  }
+}
+
+export default ReviewAnalyticsService;
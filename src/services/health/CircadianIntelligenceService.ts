@@ -20,6 +20,13 @@ interface SleepEntry {
   date: string;
 }
 
+export interface CircadianFocusWindow {
+  start: Date;
+  end: Date;
+  phase: 'morning_peak' | 'late_morning' | 'post_lunch_dip' | 'afternoon_peak' | 'wind_down';
+  alertness: number; // 0-1, expected capacity for demanding work
+}
+
 export class CircadianIntelligenceService {
   private static instance: CircadianIntelligenceService;
   private storage: StorageService;
@@ -189,6 +196,48 @@ export class CircadianIntelligenceService {
     }
   }
 
+  /**
+   * Focus windows across the waking day, anchored on the user's usual wake
+   * time (or their chronotype when there is no sleep history). Alertness
+   * peaks a few hours after waking, dips after lunch and recovers in the
+   * late afternoon before winding down.
+   */
+  async getOptimalFocusWindows(userId: string, date: Date = new Date()): Promise<CircadianFocusWindow[]> {
+    try {
+      const sleepData = await this.getSleepEntries(userId, 14);
+      let wakeHour: number;
+      if (sleepData.length > 0) {
+        wakeHour = sleepData.reduce((sum, entry) => {
+          const wakeTime = new Date(entry.wakeTime);
+          return sum + wakeTime.getHours() + wakeTime.getMinutes() / 60;
+        }, 0) / sleepData.length;
+      } else {
+        // Bedtime baseline plus eight hours of sleep
+        wakeHour = (this.getChronotypeBaseline(await this.determineChronotype(userId)) + 8) % 24;
+      }
+
+      const phases: [CircadianFocusWindow['phase'], number, number, number][] = [
+        ['morning_peak', 1, 4, 0.9],
+        ['late_morning', 4, 6, 0.75],
+        ['post_lunch_dip', 6, 8, 0.45],
+        ['afternoon_peak', 8, 11, 0.8],
+        ['wind_down', 11, 14, 0.55],
+      ];
+
+      const dayStart = new Date(date);
+      dayStart.setHours(0, 0, 0, 0);
+      return phases.map(([phase, from, to, alertness]) => ({
+        phase,
+        start: new Date(dayStart.getTime() + (wakeHour + from) * 60 * 60 * 1000),
+        end: new Date(dayStart.getTime() + (wakeHour + to) * 60 * 60 * 1000),
+        alertness,
+      }));
+    } catch (error) {
+      console.error('Error predicting focus windows:', error);
+      return [];
+    }
+  }
+
   // Private methods
   private calculateStandardDeviation(values: number[]): number {
     const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
@@ -407,6 +407,16 @@ export class TodoistService {
     return session;
   }
 
+  /**
+   * Put back a timer journaled by FocusTimerService before the app was
+   * killed, keeping its original start time
+   */
+  public restoreTaskTimer(session: FocusSession): void {
+    this.activeFocusSession = session;
+    this.taskTimerActiveMap.set(session.taskId, true);
+    console.log(`♻️ Focus session timer restored: ${session.id}`);
+  }
+
   /**
    * Check if task timer is currently active
    */
@@ -10,6 +10,7 @@ import { StorageService } from '../storage/StorageService';
 import { EventSystem } from '../../core/EventSystem';
 import { base64Encode } from '../../utils/base64';
 import { SupabaseService } from '../storage/SupabaseService';
+import { offlineQuizService, OfflineQuizSource } from './OfflineQuizService';
 
 export interface GrammarCorrection {
   original: string;
@@ -291,6 +292,7 @@ export class AICoachingService {
       difficulty?: 'adaptive' | 'easy' | 'medium' | 'hard';
       questionTypes?: Array<'factual' | 'inference' | 'vocabulary'>;
       adaptToPreviousPerformance?: boolean;
+      source?: OfflineQuizSource; // Text read in the session, for the offline fallback
     } = {},
   ): Promise<{
     id: string;
@@ -307,6 +309,12 @@ export class AICoachingService {
     timeLimit?: number;
     created: Date;
   }> {
+    // Known offline: skip the retries and build the quiz from the text
+    if (options.source) {
+      const { isOnline } = await StorageService.getInstance().getSyncStatus().catch(() => ({ isOnline: true }));
+      if (!isOnline) return this.generateFallbackQuiz(sessionId, options);
+    }
+
     const supabase = this.supabaseService.getClient();
     const maxRetries = 3;
     let lastError: string = '';
@@ -394,6 +402,7 @@ export class AICoachingService {
       questionCount?: number;
       difficulty?: 'adaptive' | 'easy' | 'medium' | 'hard';
       questionTypes?: Array<'factual' | 'inference' | 'vocabulary'>;
+      source?: OfflineQuizSource;
     } = {},
   ): {
     id: string;
@@ -410,6 +419,16 @@ export class AICoachingService {
     timeLimit?: number;
     created: Date;
   } {
+    // Questions built from the text itself when we know what was read
+    if (options.source) {
+      const offline = offlineQuizService.generateQuiz(sessionId, options.source, {
+        ...(options.questionCount !== undefined ? { questionCount: options.questionCount } : {}),
+        ...(options.difficulty ? { difficulty: options.difficulty } : {}),
+        ...(options.questionTypes ? { questionTypes: options.questionTypes } : {}),
+      });
+      if (offline.questions.length > 0) return offline;
+    }
+
     const count = Math.max(3, Math.min(10, options.questionCount ?? 5));
     const concepts = ['comprehension', 'analysis', 'recall', 'inference', 'vocabulary'];
 
@@ -0,0 +1,77 @@
+import AdaptiveWPMController, { ChunkSignals } from './AdaptiveWPMController';
+
+const mockItems = new Map<string, unknown>();
+
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getItem: async (key: string) => mockItems.get(key) ?? null,
+      // Stored values come back JSON-decoded, dates as strings
+      setItem: async (key: string, value: unknown) => {
+        mockItems.set(key, JSON.parse(JSON.stringify(value)));
+      },
+    }),
+  },
+}));
+jest.mock('../storage/SupabaseService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getCurrentUser: async () => null }) },
+}));
+
+const signals = (extra: Partial<ChunkSignals> = {}): ChunkSignals => ({
+  currentWpm: 300,
+  difficultWordDensity: 0.15,
+  pauses: 0,
+  regressions: 0,
+  ...extra,
+});
+
+describe('AdaptiveWPMController', () => {
+  const controller = AdaptiveWPMController.getInstance();
+
+  beforeEach(() => {
+    mockItems.clear();
+  });
+
+  it('holds a normal stretch and moves at most 5% a chunk for density, friction and attention', async () => {
+    expect(await controller.beginSession('medium', 300)).toBe(300);
+
+    expect(controller.nextWpm(signals())).toBe(300);
+    expect(controller.nextWpm(signals({ difficultWordDensity: 0.65 }))).toBe(285);
+    // Target 264 after one pause and one regression, 30% of the way there
+    expect(controller.nextWpm(signals({ pauses: 1, regressions: 1 }))).toBe(289);
+    expect(controller.nextWpm(signals({ difficultWordDensity: 0, attention: 1 }))).toBe(315);
+  });
+
+  it('learns a sustainable speed per difficulty from finished sessions', async () => {
+    const outcome = { difficulty: 'medium' as const, wordsRead: 1000, regressions: 5, pauses: 10 };
+
+    // Too short to learn from
+    await controller.endSession({ ...outcome, wordsRead: 50, wpmAchieved: 400 });
+    expect((await controller.getModel()).speeds).toEqual({});
+
+    // Two friction points per 100 words discount the speed by 10%
+    await controller.endSession({ ...outcome, wpmAchieved: 400 });
+    expect((await controller.getModel()).speeds.medium).toMatchObject({ wpm: 360, samples: 1 });
+
+    await controller.endSession({ ...outcome, wpmAchieved: 500 });
+    expect((await controller.getModel()).speeds.medium).toMatchObject({ wpm: 405, samples: 2 });
+
+    // The start is pulled halfway toward the learned speed, other difficulties are untouched
+    expect(await controller.beginSession('medium', 300)).toBe(353);
+    expect(await controller.beginSession('hard', 300)).toBe(300);
+    expect(controller.getSustainableWpm('hard')).toBeNull();
+  });
+
+  it('lowers the learned speed and the chunk target after poor comprehension', async () => {
+    await controller.recordComprehension('hard', 400, 0.375);
+
+    const model = await controller.getModel();
+    expect(model.recentComprehension).toEqual([0.375]);
+    expect(model.speeds.hard).toMatchObject({ wpm: 240, samples: 1 });
+
+    expect(await controller.beginSession('hard', 240)).toBe(240);
+    expect(controller.nextWpm(signals({ currentWpm: 240 }))).toBe(229);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * AdaptiveWPMController - Closed-loop reading speed for RSVP 'adaptive' mode
+ *
+ * At every chunk boundary the controller nudges the WPM toward a target built
+ * from:
+ * - the density of difficult words in the next few chunks
+ * - pauses and regressions since the previous chunk
+ * - the reader's recent comprehension quiz scores
+ * - the EyeTrackingService attention EMA, while tracking is on
+ *
+ * The target is centred on a per-user sustainable speed, learned separately
+ * for each text difficulty from finished sessions and their quiz scores.
+ */
+
+import HybridStorageService from '../storage/HybridStorageService';
+import { parseStored, resolveUserId } from '../storage/storedValues';
+
+export type ReadingDifficulty = 'easy' | 'medium' | 'hard' | 'technical';
+
+export interface ChunkSignals {
+  currentWpm: number;
+  difficultWordDensity: number; // 0-1, share of difficult words ahead
+  pauses: number; // Since the previous chunk
+  regressions: number; // Since the previous chunk
+  attention?: number; // 0-1 attention EMA, when eye tracking is running
+}
+
+export interface SustainableSpeed {
+  wpm: number;
+  samples: number;
+  updated: Date;
+}
+
+export interface AdaptiveWPMModel {
+  speeds: Partial<Record<ReadingDifficulty, SustainableSpeed>>;
+  recentComprehension: number[]; // Newest last, 0-1
+  updated: Date;
+}
+
+export interface SessionOutcome {
+  difficulty: ReadingDifficulty;
+  wpmAchieved: number;
+  wordsRead: number;
+  regressions: number;
+  pauses: number;
+}
+
+export const MIN_ADAPTIVE_WPM = 100;
+export const MAX_ADAPTIVE_WPM = 1000;
+
+// Density of difficult words that counts as "normal" for the target
+const BASELINE_DIFFICULT_DENSITY = 0.15;
+const TARGET_COMPREHENSION = 0.75;
+const NEUTRAL_ATTENTION = 0.6;
+// Largest relative WPM change per chunk, and how far toward the target one step goes
+const MAX_STEP = 0.05;
+const SMOOTHING = 0.3;
+const RECENT_COMPREHENSION_LIMIT = 5;
+// Sessions shorter than this are too noisy to learn from
+const MIN_WORDS_TO_LEARN = 100;
+
+export class AdaptiveWPMController {
+  private static instance: AdaptiveWPMController;
+  private hybridStorage: HybridStorageService;
+
+  private static readonly MODEL_KEY_PREFIX = '@neurolearn/adaptive_wpm_';
+
+  // Per-session state
+  private model: AdaptiveWPMModel | null = null;
+  private sustainableWpm = 300;
+
+  private constructor() {
+    this.hybridStorage = HybridStorageService.getInstance();
+  }
+
+  public static getInstance(): AdaptiveWPMController {
+    if (!AdaptiveWPMController.instance) {
+      AdaptiveWPMController.instance = new AdaptiveWPMController();
+    }
+    return AdaptiveWPMController.instance;
+  }
+
+  /**
+   * Load the reader's model and return the WPM to start at: the requested
+   * speed pulled halfway toward what has proved sustainable for this
+   * difficulty. Until something is learned the requested speed is the centre.
+   */
+  async beginSession(difficulty: ReadingDifficulty, requestedWpm: number): Promise<number> {
+    this.model = await this.loadModel();
+    const learned = this.model.speeds[difficulty];
+    this.sustainableWpm = learned?.wpm ?? requestedWpm;
+
+    const start = learned ? requestedWpm + (learned.wpm - requestedWpm) * 0.5 : requestedWpm;
+    return this.clamp(Math.round(start));
+  }
+
+  /**
+   * WPM for the next chunk
+   */
+  nextWpm(signals: ChunkSignals): number {
+    let factor = 1;
+
+    // Dense stretches of long / technical words slow down, light ones speed up
+    factor -= (signals.difficultWordDensity - BASELINE_DIFFICULT_DENSITY) * 0.8;
+
+    // Every pause or regression is a sign the speed is too high
+    factor -= Math.min(0.3, signals.pauses * 0.04 + signals.regressions * 0.08);
+
+    const comprehension = this.getRecentComprehension();
+    if (comprehension !== null) factor += (comprehension - TARGET_COMPREHENSION) * 0.4;
+
+    if (signals.attention !== undefined) factor += (signals.attention - NEUTRAL_ATTENTION) * 0.25;
+
+    const target = this.sustainableWpm * Math.max(0.5, Math.min(1.5, factor));
+    const step = (target - signals.currentWpm) * SMOOTHING;
+    const limit = signals.currentWpm * MAX_STEP;
+    return this.clamp(Math.round(signals.currentWpm + Math.max(-limit, Math.min(limit, step))));
+  }
+
+  /**
+   * Learn from a finished session, discounting the speed by friction
+   * (regressions, pauses). Its quiz score arrives later via recordComprehension.
+   */
+  async endSession(outcome: SessionOutcome): Promise<void> {
+    if (outcome.wordsRead < MIN_WORDS_TO_LEARN || outcome.wpmAchieved <= 0) return;
+
+    const frictionPer100 = ((outcome.regressions * 2 + outcome.pauses) / outcome.wordsRead) * 100;
+    await this.updateSpeed(outcome.difficulty, outcome.wpmAchieved * Math.max(0.7, 1 - frictionPer100 * 0.05));
+  }
+
+  /**
+   * A comprehension quiz score (0-1) for a session read at `wpm`. Feeds the
+   * per-chunk controller and corrects the learned speed for the difficulty.
+   */
+  async recordComprehension(difficulty: ReadingDifficulty, wpm: number, score: number): Promise<void> {
+    const model = await this.loadModel();
+    model.recentComprehension = [...model.recentComprehension, Math.max(0, Math.min(1, score))].slice(
+      -RECENT_COMPREHENSION_LIMIT,
+    );
+    this.model = model;
+    await this.saveModel(model);
+
+    // Poor comprehension at a speed means that speed was not sustainable
+    if (wpm > 0) {
+      await this.updateSpeed(difficulty, wpm * Math.max(0.6, Math.min(1.15, score / TARGET_COMPREHENSION)));
+    }
+  }
+
+  async getModel(): Promise<AdaptiveWPMModel> {
+    return this.loadModel();
+  }
+
+  getSustainableWpm(difficulty: ReadingDifficulty): number | null {
+    return this.model?.speeds[difficulty]?.wpm ?? null;
+  }
+
+  // ==================== MODEL ====================
+
+  private getRecentComprehension(): number | null {
+    const scores = this.model?.recentComprehension ?? [];
+    if (scores.length === 0) return null;
+    // Newer scores weigh more
+    let weighted = 0;
+    let total = 0;
+    scores.forEach((score, i) => {
+      weighted += score * (i + 1);
+      total += i + 1;
+    });
+    return weighted / total;
+  }
+
+  private async updateSpeed(difficulty: ReadingDifficulty, wpm: number): Promise<void> {
+    const model = await this.loadModel();
+    const current = model.speeds[difficulty];
+    // Running mean for the first few sessions, then an EMA that follows improvement
+    const alpha = current ? Math.max(0.2, 1 / (current.samples + 1)) : 1;
+    const learned = current ? current.wpm + (wpm - current.wpm) * alpha : wpm;
+
+    model.speeds[difficulty] = {
+      wpm: this.clamp(Math.round(learned)),
+      samples: (current?.samples ?? 0) + 1,
+      updated: new Date(),
+    };
+    model.updated = new Date();
+    this.model = model;
+    await this.saveModel(model);
+  }
+
+  private async loadModel(): Promise<AdaptiveWPMModel> {
+    try {
+      const uid = await resolveUserId();
+      const raw = await this.hybridStorage.getItem(AdaptiveWPMController.MODEL_KEY_PREFIX + uid);
+      const stored = parseStored<AdaptiveWPMModel>(raw);
+      if (!stored) return { speeds: {}, recentComprehension: [], updated: new Date() };
+
+      const speeds: AdaptiveWPMModel['speeds'] = {};
+      for (const [difficulty, speed] of Object.entries(stored.speeds ?? {})) {
+        if (speed) speeds[difficulty as ReadingDifficulty] = { ...speed, updated: new Date(speed.updated) };
+      }
+      return {
+        speeds,
+        recentComprehension: stored.recentComprehension ?? [],
+        updated: new Date(stored.updated),
+      };
+    } catch (error) {
+      console.error('Error loading adaptive WPM model:', error);
+      return { speeds: {}, recentComprehension: [], updated: new Date() };
+    }
+  }
+
+  private async saveModel(model: AdaptiveWPMModel): Promise<void> {
+    try {
+      const uid = await resolveUserId();
+      await this.hybridStorage.setItem(AdaptiveWPMController.MODEL_KEY_PREFIX + uid, model);
+    } catch (error) {
+      console.error('Error saving adaptive WPM model:', error);
+    }
+  }
+
+  private clamp(wpm: number): number {
+    return Math.max(MIN_ADAPTIVE_WPM, Math.min(MAX_ADAPTIVE_WPM, wpm));
+  }
+}
+
+export default AdaptiveWPMController;
@@ -0,0 +1,194 @@
+import DailyReviewService from './DailyReviewService';
+import { CardState, Rating } from './SpacedRepetitionService';
+import type { DueReviewItem } from './ReviewScheduler';
+import type { NeuralNode } from './MindMapGeneratorService';
+import { Flashcard, LogicNode } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 9, 0);
+
+const mockStore = {
+  flashcards: [] as Flashcard[],
+  logicNodes: [] as LogicNode[],
+  graphNodes: [] as NeuralNode[],
+  items: new Map<string, unknown>(),
+};
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getFlashcards: async () => mockStore.flashcards,
+      getLogicNodes: async () => mockStore.logicNodes,
+      getMemoryPalaces: async () => [],
+      getReviewLogs: async () => [],
+    }),
+  },
+}));
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getItem: async (key: string) => mockStore.items.get(key) ?? null,
+      // Stored values come back JSON-decoded, dates as strings
+      setItem: async (key: string, value: unknown) => {
+        mockStore.items.set(key, JSON.parse(JSON.stringify(value)));
+      },
+    }),
+  },
+}));
+jest.mock('../storage/SupabaseService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getCurrentUser: async () => null }) },
+}));
+jest.mock('./FSRSOptimizer', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ recordReviewLogs: async () => {} }) },
+}));
+jest.mock('./MindMapGeneratorService', () => ({
+  MindMapGenerator: {
+    getInstance: () => ({ generateNeuralGraph: async () => ({ nodes: mockStore.graphNodes, links: [] }) }),
+  },
+}));
+
+const flashcard = (id: string): Flashcard => ({
+  id,
+  front: id,
+  back: id,
+  category: 'general',
+  created: new Date(NOW.getTime() - 30 * DAY),
+  nextReview: new Date(NOW.getTime() - DAY),
+  lastReviewed: new Date(NOW.getTime() - 6 * DAY),
+  interval: 5,
+  easeFactor: 2.5,
+  repetitions: 3,
+  state: CardState.Review,
+  stability: 5,
+  fsrsDifficulty: 4,
+});
+
+const logicNode = (id: string): LogicNode => ({
+  id,
+  question: id,
+  premise1: 'All A are B',
+  premise2: 'All B are C',
+  conclusion: 'All A are C',
+  type: 'deductive',
+  domain: 'general',
+  difficulty: 2,
+  easeFactor: 2.5,
+  interval: 5,
+  repetitions: 3,
+  nextReviewDate: new Date(NOW.getTime() - DAY),
+  lastAccessed: new Date(NOW.getTime() - 6 * DAY),
+  lastReview: new Date(NOW.getTime() - 6 * DAY),
+  totalAttempts: 3,
+  correctAttempts: 3,
+  accessCount: 3,
+  stability: 5,
+  fsrsDifficulty: 4,
+  state: CardState.Review,
+  created: new Date(NOW.getTime() - 30 * DAY),
+  modified: new Date(NOW.getTime() - 6 * DAY),
+});
+
+const graphNode = (id: string, sourceType: NeuralNode['sourceType'], isActive = true): NeuralNode =>
+  ({
+    id,
+    type: 'concept',
+    label: id,
+    content: id,
+    category: 'general',
+    masteryLevel: 0.3,
+    cognitiveLoad: 0.4,
+    isActive,
+    activationLevel: 0.5,
+    lastAccessed: new Date(NOW.getTime() - DAY),
+    accessCount: 1,
+    easeFactor: 2.5,
+    interval: 1,
+    repetitions: 0,
+    nextReviewDate: new Date(NOW.getTime() - 60 * 1000),
+    sourceType,
+    sourceId: id,
+  }) as NeuralNode;
+
+describe('DailyReviewService', () => {
+  const service = DailyReviewService.getInstance();
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockStore.flashcards = [flashcard('card_1'), flashcard('card_2')];
+    mockStore.logicNodes = [logicNode('logic_1')];
+    mockStore.graphNodes = [
+      graphNode('manual_1', 'manual'),
+      graphNode('task_open', 'task'),
+      graphNode('task_done', 'task', false),
+      graphNode('skill_general', 'derived'),
+      graphNode('card_mirror', 'flashcard'),
+    ];
+    mockStore.items.clear();
+  });
+
+  it('interleaves modules and only queues reviewable mind-map nodes', async () => {
+    const session = await service.buildSession('DeepFocus', { date: NOW });
+
+    const neural = session.items.filter((item) => item.kind === 'neural').map((item) => item.id);
+    expect(neural.sort()).toEqual(['manual_1', 'task_open']);
+    expect(session.items.filter((item) => item.kind === 'flashcard')).toHaveLength(2);
+
+    const kinds = session.items.map((item) => item.kind);
+    for (let i = 1; i < kinds.length; i++) {
+      // Two flashcards, one logic node and two mind-map nodes: no module repeats back to back
+      expect(kinds[i]).not.toBe(kinds[i - 1]);
+    }
+  });
+
+  it('defers new and demanding items under cognitive overload', () => {
+    const item = (id: string, state: CardState, difficulty: number): DueReviewItem => ({
+      queueId: id,
+      id,
+      kind: 'flashcard',
+      entity: {},
+      due: NOW,
+      state,
+      difficulty,
+      retrievability: 0.8,
+    });
+
+    const { items, deferred } = service.planQueue(
+      [
+        item('easy', CardState.Review, 2),
+        item('hard', CardState.Review, 9),
+        item('new', CardState.New, 2),
+        item('relearning', CardState.Relearning, 9),
+      ],
+      'CognitiveOverload',
+    );
+
+    expect(items.map((queued) => queued.id)).toEqual(['relearning', 'easy']);
+    expect(deferred).toBe(2);
+  });
+
+  it('keeps the schedule and last review of a reviewed node across graph reloads', async () => {
+    const session = await service.buildSession('DeepFocus', { date: NOW });
+    const index = session.items.findIndex((item) => item.id === 'manual_1');
+
+    await service.recordReview({ ...session, currentIndex: index }, Rating.Good);
+
+    const next = await service.buildSession('DeepFocus', { date: NOW });
+    expect(next.items.map((item) => item.id)).not.toContain('manual_1');
+
+    const later = await service.buildSession('DeepFocus', { date: new Date(NOW.getTime() + 60 * DAY) });
+    const node = later.items.find((item) => item.id === 'manual_1')!.entity as NeuralNode;
+    expect(node.lastReviewed).toEqual(NOW);
+    expect(node.repetitions).toBe(1);
+  });
+});
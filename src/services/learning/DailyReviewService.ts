@@ -0,0 +1,512 @@
+/**
+ * DailyReviewService - One interleaved review session across all modules
+ *
+ * Merges due flashcards, logic nodes, memory-palace items and mind-map nodes
+ * from ReviewScheduler into a single queue. Items are ordered by predicted
+ * recall and filtered by the current AuraState context (e.g. hard logic only
+ * in DeepFocus), then interleaved so consecutive items come from different
+ * modules where possible.
+ */
+
+import HybridStorageService from '../storage/HybridStorageService';
+import StorageService from '../storage/StorageService';
+import { parseStored, resolveUserId } from '../storage/storedValues';
+import { SpacedRepetitionService, CardState, Rating } from './SpacedRepetitionService';
+import ReviewScheduler, { DueReviewItem, ReviewableKind } from './ReviewScheduler';
+import DeckService from './DeckService';
+import PalaceQuizService from './PalaceQuizService';
+import ReviewLoadBalancer from './ReviewLoadBalancer';
+import { MindMapGenerator, NeuralNode } from './MindMapGeneratorService';
+import type { AuraContext, AuraState } from '../ai/CognitiveAuraService';
+import { Flashcard, LogicNode, MemoryItem, MemoryPalace } from '../../types';
+
+export interface DailyReviewItem extends DueReviewItem {
+  load: number; // 0-1, how demanding the item is
+}
+
+export interface DailyReviewResult {
+  queueId: string;
+  kind: ReviewableKind;
+  rating: Rating;
+  wasNew: boolean;
+  reviewedAt: Date;
+}
+
+export interface DailyReviewSession {
+  id: string;
+  context: AuraContext;
+  startedAt: Date;
+  items: DailyReviewItem[];
+  currentIndex: number;
+  deferred: number; // Due items held back by the aura context or session size
+  results: DailyReviewResult[];
+}
+
+export interface DailyReviewKindSummary {
+  reviewed: number;
+  correct: number;
+}
+
+export interface DailyReviewSummary {
+  context: AuraContext;
+  reviewed: number;
+  correct: number;
+  retention: number; // Share of reviews rated Good or Easy
+  durationMinutes: number;
+  deferred: number;
+  remaining: number; // Items left in the queue when the session ended
+  byKind: Record<ReviewableKind, DailyReviewKindSummary>;
+  ratings: Record<Rating, number>;
+}
+
+export interface DailyReviewOptions {
+  maxItems?: number;
+  date?: Date;
+}
+
+interface ContextPolicy {
+  maxItems: number;
+  maxLoad: number; // Items above this load are deferred, learning steps excepted
+  includeNew: boolean;
+  kindWeights: Record<ReviewableKind, number>;
+}
+
+const CONTEXT_POLICIES: Record<AuraContext, ContextPolicy> = {
+  DeepFocus: {
+    maxItems: 60,
+    maxLoad: 1,
+    includeNew: true,
+    kindWeights: { flashcard: 1, logic: 1.4, palace: 1, neural: 1 },
+  },
+  CreativeFlow: {
+    maxItems: 40,
+    maxLoad: 0.7,
+    includeNew: true,
+    kindWeights: { flashcard: 1, logic: 0.8, palace: 1.4, neural: 1.3 },
+  },
+  FragmentedAttention: {
+    maxItems: 25,
+    maxLoad: 0.5,
+    includeNew: false,
+    kindWeights: { flashcard: 1.2, logic: 0.6, palace: 1, neural: 0.8 },
+  },
+  CognitiveOverload: {
+    maxItems: 10,
+    maxLoad: 0.35,
+    includeNew: false,
+    kindWeights: { flashcard: 1.2, logic: 0.5, palace: 1, neural: 0.6 },
+  },
+};
+
+// Mind-map nodes reviewed as themselves. Flashcard, logic and palace nodes
+// mirror a source that is reviewed directly; derived nodes (skill roll-ups,
+// reading sessions) only summarise other items.
+const REVIEWABLE_SOURCES: ReadonlyArray<NeuralNode['sourceType']> = ['manual', 'task'];
+
+type NeuralSchedule = Pick<
+  NeuralNode,
+  | 'nextReviewDate'
+  | 'interval'
+  | 'repetitions'
+  | 'easeFactor'
+  | 'stability'
+  | 'fsrsDifficulty'
+  | 'state'
+  | 'lapses'
+  | 'lastReviewed'
+>;
+
+export class DailyReviewService {
+  private static instance: DailyReviewService;
+  private storage: StorageService;
+  private hybridStorage: HybridStorageService;
+  private scheduler: ReviewScheduler;
+  private srs: SpacedRepetitionService;
+  private deckService: DeckService;
+  private loadBalancer: ReviewLoadBalancer;
+  private palaceQuiz: PalaceQuizService;
+
+  private static readonly NEURAL_SCHEDULE_KEY_PREFIX = '@neurolearn/neural_review_schedule_';
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+    this.hybridStorage = HybridStorageService.getInstance();
+    this.scheduler = ReviewScheduler.getInstance();
+    this.srs = SpacedRepetitionService.getInstance();
+    this.deckService = DeckService.getInstance();
+    this.loadBalancer = ReviewLoadBalancer.getInstance();
+    this.palaceQuiz = PalaceQuizService.getInstance();
+  }
+
+  public static getInstance(): DailyReviewService {
+    if (!DailyReviewService.instance) {
+      DailyReviewService.instance = new DailyReviewService();
+    }
+    return DailyReviewService.instance;
+  }
+
+  // ==================== SESSION ====================
+
+  /**
+   * Build today's interleaved queue for the given aura state. Without an
+   * aura state the session behaves as in FragmentedAttention.
+   */
+  async buildSession(
+    aura: AuraState | AuraContext | null,
+    options: DailyReviewOptions = {},
+  ): Promise<DailyReviewSession> {
+    const date = options.date ?? new Date();
+    const context = this.resolveContext(aura);
+    const due = await this.loadDueItems(date);
+    const { items, deferred } = this.planQueue(due, context, options.maxItems);
+
+    return {
+      id: `daily_review_${date.getTime()}`,
+      context,
+      startedAt: new Date(),
+      items,
+      currentIndex: 0,
+      deferred,
+      results: [],
+    };
+  }
+
+  /**
+   * Order, filter and interleave due items for an aura context
+   */
+  planQueue(
+    due: DueReviewItem[],
+    context: AuraContext,
+    maxItems?: number,
+  ): { items: DailyReviewItem[]; deferred: number } {
+    const policy = CONTEXT_POLICIES[context];
+    const limit = maxItems ?? policy.maxItems;
+
+    const eligible: DailyReviewItem[] = [];
+    for (const item of due) {
+      const load = this.getItemLoad(item);
+      const isLearning = item.state === CardState.Learning || item.state === CardState.Relearning;
+      if (!isLearning) {
+        if (item.state === CardState.New && !policy.includeNew) continue;
+        if (load > policy.maxLoad) continue;
+      }
+      eligible.push({ ...item, load });
+    }
+
+    const priority = (item: DailyReviewItem) => {
+      const base =
+        item.state === CardState.Learning || item.state === CardState.Relearning
+          ? 2
+          : item.state === CardState.New
+            ? 0.5
+            : 1 - item.retrievability;
+      return base * policy.kindWeights[item.kind];
+    };
+
+    const ranked = eligible.sort((a, b) => priority(b) - priority(a)).slice(0, limit);
+    return {
+      items: this.interleave(ranked, priority),
+      deferred: due.length - ranked.length,
+    };
+  }
+
+  /**
+   * Schedule the current item, save the updated entity and advance the session
+   */
+  async recordReview(session: DailyReviewSession, rating: Rating): Promise<DailyReviewSession> {
+    const item = session.items[session.currentIndex];
+    if (!item) return session;
+
+    const reviewedAt = new Date();
+    let items = session.items;
+    try {
+      switch (item.kind) {
+        case 'flashcard':
+          items = await this.reviewFlashcard(item, rating, session);
+          break;
+        case 'logic':
+          await this.reviewLogicNode(item, rating);
+          break;
+        case 'palace':
+          await this.reviewPalaceItem(item, rating);
+          break;
+        case 'neural':
+          await this.reviewNeuralNode(item, rating);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error recording daily review for ${item.queueId}:`, error);
+    }
+
+    return {
+      ...session,
+      items,
+      currentIndex: session.currentIndex + 1,
+      results: [
+        ...session.results,
+        {
+          queueId: item.queueId,
+          kind: item.kind,
+          rating,
+          wasNew: item.state === CardState.New,
+          reviewedAt,
+        },
+      ],
+    };
+  }
+
+  isComplete(session: DailyReviewSession): boolean {
+    return session.currentIndex >= session.items.length;
+  }
+
+  /**
+   * End-of-session summary
+   */
+  summarize(session: DailyReviewSession, endedAt: Date = new Date()): DailyReviewSummary {
+    const byKind: Record<ReviewableKind, DailyReviewKindSummary> = {
+      flashcard: { reviewed: 0, correct: 0 },
+      logic: { reviewed: 0, correct: 0 },
+      palace: { reviewed: 0, correct: 0 },
+      neural: { reviewed: 0, correct: 0 },
+    };
+    const ratings: Record<Rating, number> = {
+      [Rating.Again]: 0,
+      [Rating.Hard]: 0,
+      [Rating.Good]: 0,
+      [Rating.Easy]: 0,
+    };
+
+    let correct = 0;
+    for (const result of session.results) {
+      const isCorrect = result.rating >= Rating.Good;
+      byKind[result.kind].reviewed += 1;
+      if (isCorrect) {
+        byKind[result.kind].correct += 1;
+        correct += 1;
+      }
+      ratings[result.rating] += 1;
+    }
+
+    const reviewed = session.results.length;
+    return {
+      context: session.context,
+      reviewed,
+      correct,
+      retention: reviewed > 0 ? correct / reviewed : 0,
+      durationMinutes: Math.max(0, (endedAt.getTime() - session.startedAt.getTime()) / 60000),
+      deferred: session.deferred,
+      remaining: Math.max(0, session.items.length - session.currentIndex),
+      byKind,
+      ratings,
+    };
+  }
+
+  // ==================== QUEUE BUILDING ====================
+
+  private resolveContext(aura: AuraState | AuraContext | null): AuraContext {
+    if (!aura) return 'FragmentedAttention';
+    return typeof aura === 'string' ? aura : aura.context;
+  }
+
+  /**
+   * Due items from every module; flashcards respect each deck's daily limits
+   */
+  private async loadDueItems(date: Date): Promise<DueReviewItem[]> {
+    const [flashcards, logicNodes, palaces, neuralNodes, deckConfig, flashcardLogs] = await Promise.all([
+      this.storage.getFlashcards(),
+      this.storage.getLogicNodes(),
+      this.storage.getMemoryPalaces(),
+      this.loadNeuralNodes(),
+      this.deckService.getDeckConfig(),
+      this.scheduler.getReviewLogs('flashcard'),
+    ]);
+
+    const studiedToday = this.deckService.getStudiedToday(flashcardLogs, flashcards, date);
+    const dueFlashcards = this.deckService.getDueCards(flashcards, deckConfig, studiedToday);
+
+    return this.scheduler.getDueQueue(
+      [
+        { kind: 'flashcard', items: dueFlashcards },
+        { kind: 'logic', items: logicNodes },
+        { kind: 'palace', items: this.getPalaceItems(palaces) },
+        { kind: 'neural', items: neuralNodes },
+      ],
+      date,
+    );
+  }
+
+  /**
+   * 0-1 load of an item: its FSRS difficulty, or a logic node's own
+   * difficulty rating when that is higher
+   */
+  private getItemLoad(item: DueReviewItem): number {
+    const fsrsLoad = Math.max(0, Math.min(1, (item.difficulty - 1) / 9));
+    if (item.kind === 'logic') {
+      const node = item.entity as LogicNode;
+      return Math.max(fsrsLoad, (node.difficulty - 1) / 4);
+    }
+    return fsrsLoad;
+  }
+
+  /**
+   * Greedy interleave: take the highest-priority remaining item whose module
+   * differs from the previous one, falling back to the same module
+   */
+  private interleave(
+    items: DailyReviewItem[],
+    priority: (item: DailyReviewItem) => number,
+  ): DailyReviewItem[] {
+    const remaining = [...items];
+    const ordered: DailyReviewItem[] = [];
+    let lastKind: ReviewableKind | null = null;
+
+    while (remaining.length > 0) {
+      let pick = -1;
+      for (let i = 0; i < remaining.length; i++) {
+        const candidate = remaining[i]!;
+        if (candidate.kind === lastKind) continue;
+        if (pick < 0 || priority(candidate) > priority(remaining[pick]!)) pick = i;
+      }
+      if (pick < 0) pick = 0;
+      const [next] = remaining.splice(pick, 1);
+      ordered.push(next!);
+      lastKind = next!.kind;
+    }
+    return ordered;
+  }
+
+  // ==================== PER-MODULE REVIEWS ====================
+
+  private async reviewFlashcard(
+    item: DailyReviewItem,
+    rating: Rating,
+    session: DailyReviewSession,
+  ): Promise<DailyReviewItem[]> {
+    const [cards, deckConfig, vacations] = await Promise.all([
+      this.storage.getFlashcards(),
+      this.deckService.getDeckConfig(),
+      this.loadBalancer.getVacations(),
+    ]);
+    const current = cards.find((card) => card.id === item.id) ?? (item.entity as Flashcard);
+
+    const { entity } = await this.scheduler.review('flashcard', current, rating, {
+      overrides: this.deckService.getSchedulingOverrides(current, deckConfig),
+      balance: this.loadBalancer.createContext(
+        cards.filter((card) => card.id !== current.id),
+        vacations,
+      ),
+    });
+
+    const updated = this.srs.burySiblings(
+      cards.map((card) => (card.id === current.id ? entity : card)),
+      current,
+    );
+    await this.storage.saveFlashcards(updated);
+
+    // Buried siblings leave the rest of today's queue
+    if (!current.noteId) return session.items;
+    return session.items.filter(
+      (queued, index) =>
+        index <= session.currentIndex ||
+        queued.kind !== 'flashcard' ||
+        (queued.entity as Flashcard).noteId !== current.noteId,
+    );
+  }
+
+  private async reviewLogicNode(item: DailyReviewItem, rating: Rating): Promise<void> {
+    const nodes = await this.storage.getLogicNodes();
+    const current = nodes.find((node) => node.id === item.id) ?? (item.entity as LogicNode);
+    const { entity } = await this.scheduler.review('logic', current, rating);
+    await this.storage.saveLogicNodes(nodes.map((node) => (node.id === current.id ? entity : node)));
+  }
+
+  private async reviewPalaceItem(item: DailyReviewItem, rating: Rating): Promise<void> {
+    const palaces = await this.storage.getMemoryPalaces();
+    const adapter = this.scheduler.getAdapter<MemoryItem>('palace');
+    const current =
+      this.getPalaceItems(palaces).find((stored) => adapter.getId(stored) === item.id) ??
+      (item.entity as MemoryItem);
+    const { entity } = await this.scheduler.review('palace', current, rating);
+
+    await this.storage.saveMemoryPalaces(
+      palaces.map((palace) =>
+        this.palaceQuiz.refreshPalaceStats(
+          this.palaceQuiz.mapItems(palace, (stored) => (adapter.getId(stored) === item.id ? entity : stored)),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Mind-map nodes are regenerated from their sources, so their schedule is
+   * kept separately and reapplied when the graph is loaded
+   */
+  private async reviewNeuralNode(item: DailyReviewItem, rating: Rating): Promise<void> {
+    const { entity } = await this.scheduler.review('neural', item.entity as NeuralNode, rating);
+    const schedules = await this.getNeuralSchedules();
+    schedules[entity.id] = {
+      nextReviewDate: entity.nextReviewDate,
+      interval: entity.interval,
+      repetitions: entity.repetitions,
+      easeFactor: entity.easeFactor,
+      ...(entity.stability !== undefined ? { stability: entity.stability } : {}),
+      ...(entity.fsrsDifficulty !== undefined ? { fsrsDifficulty: entity.fsrsDifficulty } : {}),
+      ...(entity.state !== undefined ? { state: entity.state } : {}),
+      ...(entity.lapses !== undefined ? { lapses: entity.lapses } : {}),
+      ...(entity.lastReviewed !== undefined ? { lastReviewed: entity.lastReviewed } : {}),
+    };
+    const uid = await resolveUserId();
+    await this.hybridStorage.setItem(DailyReviewService.NEURAL_SCHEDULE_KEY_PREFIX + uid, schedules);
+  }
+
+  // ==================== SOURCES ====================
+
+  private getPalaceItems(palaces: MemoryPalace[]): MemoryItem[] {
+    return palaces.flatMap((palace) =>
+      [...(palace.locations ?? []), ...(palace.rooms ?? [])].flatMap((place) => place.items ?? []),
+    );
+  }
+
+  /**
+   * Reviewable mind-map nodes (manual nodes and open tasks), with their
+   * stored review schedule applied
+   */
+  private async loadNeuralNodes(): Promise<NeuralNode[]> {
+    try {
+      const [graph, schedules] = await Promise.all([
+        MindMapGenerator.getInstance().generateNeuralGraph(),
+        this.getNeuralSchedules(),
+      ]);
+      return graph.nodes
+        .filter((node) => REVIEWABLE_SOURCES.includes(node.sourceType) && node.nextReviewDate)
+        // Task nodes are active exactly while the task is open
+        .filter((node) => node.sourceType !== 'task' || node.isActive)
+        .map((node) => {
+          const schedule = schedules[node.id];
+          if (!schedule) return node;
+          return {
+            ...node,
+            ...schedule,
+            nextReviewDate: new Date(schedule.nextReviewDate),
+            ...(schedule.lastReviewed ? { lastReviewed: new Date(schedule.lastReviewed) } : {}),
+          };
+        });
+    } catch (error) {
+      console.warn('Failed to load mind-map nodes for daily review:', error);
+      return [];
+    }
+  }
+
+  private async getNeuralSchedules(): Promise<Record<string, NeuralSchedule>> {
+    try {
+      const uid = await resolveUserId();
+      const raw = await this.hybridStorage.getItem(DailyReviewService.NEURAL_SCHEDULE_KEY_PREFIX + uid);
+      return parseStored<Record<string, NeuralSchedule>>(raw) ?? {};
+    } catch (error) {
+      console.warn('Failed to load mind-map review schedules:', error);
+      return {};
+    }
+  }
+}
+
+export default DailyReviewService;
@@ -0,0 +1,300 @@
+/**
+ * @jest-environment node
+ */
+import DeckImportExportService from './DeckImportExportService';
+import NoteTypeService from './NoteTypeService';
+import { CardState, FSRSReviewLog, Rating } from './SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+const mockReviewLogs: FSRSReviewLog[] = [];
+const mockExisting: Flashcard[] = [];
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getFlashcards: async () => mockExisting,
+      getReviewLogs: async () => mockReviewLogs,
+    }),
+  },
+}));
+
+// Paths resolve to URIs; file contents live in mockFiles
+jest.mock('expo-file-system', () => {
+  const join = (parts: Array<string | { uri: string }>) =>
+    parts.map(part => (typeof part === 'string' ? part : part.uri)).join('/');
+
+  return {
+    Directory: class {
+      uri: string;
+      constructor(...parts: Array<string | { uri: string }>) {
+        this.uri = join(parts);
+      }
+      create() {}
+    },
+    File: class {
+      uri: string;
+      constructor(...parts: Array<string | { uri: string }>) {
+        this.uri = join(parts);
+      }
+      async bytes() {
+        const data = mockFiles.get(this.uri);
+        if (!data) throw new Error(`No such file: ${this.uri}`);
+        return data;
+      }
+    },
+    Paths: { document: { uri: 'file:///documents' } },
+  };
+});
+
+// Table store standing in for expo-sqlite: enough SQL for the Anki schema,
+// positional INSERTs and the column SELECTs the importer issues
+jest.mock('expo-sqlite', () => {
+  type Table = { columns: string[]; rows: unknown[][] };
+
+  class FakeDatabase {
+    constructor(public tables: Record<string, Table> = {}) {}
+
+    async execAsync(sql: string) {
+      for (const [, name, body] of sql.matchAll(/CREATE TABLE (\w+) \(([\s\S]*?)\);/g)) {
+        this.tables[name!] = {
+          columns: body!.split(',').map(column => column.trim().split(/\s+/)[0]!),
+          rows: [],
+        };
+      }
+    }
+
+    async runAsync(sql: string, params: unknown[]) {
+      const [, ignore, name, values] = sql.match(/INSERT (OR IGNORE )?INTO (\w+) VALUES \((.*)\)/)!;
+      const table = this.tables[name!]!;
+      let next = 0;
+      const row = values!.split(',').map(value => {
+        const literal = value.trim();
+        if (literal === '?') return params[next++];
+        return literal === "''" ? '' : Number(literal);
+      });
+      if (table.rows.some(existing => existing[0] === row[0])) {
+        if (ignore) return;
+        throw new Error(`UNIQUE constraint failed: ${name}.id`);
+      }
+      table.rows.push(row);
+    }
+
+    async getAllAsync(sql: string) {
+      const [, select, name] = sql.match(/SELECT (.+) FROM (\w+)/)!;
+      const table = this.tables[name!]!;
+      const columns = select!.split(',').map(column => column.trim());
+      const rows = table.rows.map(row =>
+        Object.fromEntries(columns.map(column => [column, row[table.columns.indexOf(column)]])),
+      );
+      return /ORDER BY id/.test(sql) ? rows.sort((a, b) => Number(a.id) - Number(b.id)) : rows;
+    }
+
+    async getFirstAsync(sql: string) {
+      return (await this.getAllAsync(sql))[0] ?? null;
+    }
+
+    async withTransactionAsync(task: () => Promise<void>) {
+      await task();
+    }
+
+    async serializeAsync() {
+      return new Uint8Array(Buffer.from(JSON.stringify(this.tables)));
+    }
+
+    async closeAsync() {}
+  }
+
+  return {
+    openDatabaseAsync: async () => new FakeDatabase(),
+    deserializeDatabaseAsync: async (data: Uint8Array) =>
+      new FakeDatabase(JSON.parse(Buffer.from(data).toString('utf8'))),
+  };
+});
+
+const card = (id: string, front: string, back: string, extra: Partial<Flashcard> = {}): Flashcard => ({
+  id,
+  front,
+  back,
+  nextReview: new Date(),
+  created: new Date(),
+  interval: 1,
+  easeFactor: 2.5,
+  repetitions: 0,
+  tags: [],
+  category: 'general',
+  ...extra,
+});
+
+describe('DeckImportExportService', () => {
+  const service = DeckImportExportService.getInstance();
+  const noteTypes = NoteTypeService.getInstance();
+
+  beforeEach(() => {
+    mockReviewLogs.length = 0;
+    mockExisting.length = 0;
+    mockFiles.clear();
+  });
+
+  describe('CSV/TSV', () => {
+    const cards = [
+      card('a', 'Capital of France, in one word', 'Paris', { tags: ['geo', 'europe'], category: 'Geography' }),
+      card('b', 'Quote "to be"', 'Line one\nline two', { category: 'Literature' }),
+      card('c', 'Tab\tinside', 'plain'),
+    ];
+
+    it.each(['csv', 'tsv'] as const)('round-trips fields, tags and categories through %s', async format => {
+      const preview = await service.previewImport({ format, text: service.buildDelimited(cards, format) });
+
+      expect(preview.skipped).toEqual([]);
+      expect(preview.items.map(item => item.card)).toEqual(
+        cards.map(original =>
+          expect.objectContaining({
+            front: original.front,
+            back: original.back,
+            tags: original.tags,
+            category: original.category,
+          }),
+        ),
+      );
+    });
+
+    it('rejects a #columns header without a front column', async () => {
+      const text = '#separator:comma\n#columns:answer,tags\nParis,geo\n';
+      await expect(service.previewImport({ format: 'csv', text })).rejects.toThrow(/front\/question/);
+    });
+
+    it('rejects a #columns header without a back column', async () => {
+      const text = '#separator:comma\n#columns:question,tags\nCapital of France?,geo\n';
+      await expect(service.previewImport({ format: 'csv', text })).rejects.toThrow(/back\/answer/);
+    });
+  });
+
+  describe('apkg', () => {
+    it('keeps basic, reversed and cloze note types and review history', async () => {
+      const basic = card('basic_1', 'Mitochondria', 'Powerhouse of the cell', { category: 'Biology' });
+      const reversed = noteTypes.generateCards(
+        noteTypes.createNote('reversed', { front: 'Hund', back: 'Dog', category: 'German' }),
+      );
+      const cloze = noteTypes.generateCards(
+        noteTypes.createNote('cloze', {
+          front: '{{c1::Paris}} is the capital of {{c2::France}}',
+          back: 'Since 987',
+          category: 'Geography',
+        }),
+      );
+      mockReviewLogs.push(
+        { card_id: basic.id, rating: Rating.Good, state: CardState.New, elapsed_days: 0, scheduled_days: 1, review: new Date('2025-01-01T10:00:00Z') },
+        { card_id: basic.id, rating: Rating.Hard, state: CardState.Review, elapsed_days: 1, scheduled_days: 3, review: new Date('2025-01-02T10:00:00Z') },
+      );
+
+      const data = await service.buildApkg([basic, ...reversed, ...cloze]);
+      const preview = await service.previewImport({ format: 'apkg', data });
+
+      expect(preview.skipped).toEqual([]);
+      const imported = preview.items.map(item => item.card);
+      const byFront = (front: string) => imported.find(c => c.front === front);
+
+      expect(byFront('Mitochondria')).toMatchObject({ noteType: 'basic', back: 'Powerhouse of the cell', category: 'Biology' });
+      expect(byFront('Hund')).toMatchObject({ noteType: 'reversed', back: 'Dog', ordinal: 0 });
+      expect(byFront('Dog')).toMatchObject({ noteType: 'reversed', back: 'Hund', ordinal: 1 });
+      expect(byFront('Hund')!.noteId).toBe(byFront('Dog')!.noteId);
+
+      const clozeCards = imported.filter(c => c.noteType === 'cloze');
+      expect(clozeCards.map(c => [c.front, c.back])).toEqual(cloze.map(c => [c.front, c.back]));
+      expect(clozeCards.map(c => c.ordinal)).toEqual([1, 2]);
+
+      const basicItem = preview.items.find(item => item.card.front === 'Mitochondria')!;
+      expect(basicItem.reviewLogs.map(log => log.rating)).toEqual([Rating.Good, Rating.Hard]);
+      expect(preview.reviewLogCount).toBe(2);
+    });
+
+    const occlusionNote = () =>
+      noteTypes.createNote('image-occlusion', {
+        front: '',
+        back: '',
+        imageUri: 'file:///documents/pictures/heart.png',
+        regions: [
+          { id: 'r_a', x: 0.1, y: 0.2, width: 0.3, height: 0.1, label: 'Left: atrium' },
+          { id: 'r_b', x: 0.5, y: 0.6, width: 0.25, height: 0.15 },
+        ],
+        category: 'Anatomy',
+      });
+
+    it('exports occlusion notes with their image and imports them back as occlusion cards', async () => {
+      const image = new Uint8Array([137, 80, 78, 71]);
+      mockFiles.set('file:///documents/pictures/heart.png', image);
+      const cards = noteTypes.generateCards(occlusionNote());
+
+      const preview = await service.previewImport({ format: 'apkg', data: await service.buildApkg(cards) });
+
+      expect(preview.media).toEqual([{ name: 'heart.png', data: image }]);
+      const imported = preview.items.map(item => item.card);
+      expect(imported.map(c => [c.noteType, c.ordinal, c.front, c.back])).toEqual([
+        ['image-occlusion', 0, 'Identify the highlighted region', 'Left: atrium'],
+        ['image-occlusion', 1, 'Identify the highlighted region', 'Region 2'],
+      ]);
+      expect(imported[0]!.noteId).toBe(imported[1]!.noteId);
+      expect(imported[1]!.occlusion).toMatchObject({
+        imageUri: 'file:///documents/flashcard-media/heart.png',
+        targetRegionId: 'c2',
+        regions: [
+          { x: 0.1, y: 0.2, width: 0.3, height: 0.1, label: 'Left: atrium' },
+          { x: 0.5, y: 0.6, width: 0.25, height: 0.15 },
+        ],
+      });
+    });
+
+    it('keeps occlusion siblings apart and matches re-imports on note and ordinal', async () => {
+      mockFiles.set('file:///documents/pictures/heart.png', new Uint8Array([1]));
+      const data = await service.buildApkg(noteTypes.generateCards(occlusionNote()));
+
+      const first = await service.previewImport({ format: 'apkg', data });
+      expect(first.items.map(item => item.duplicateOf)).toEqual([undefined, undefined]);
+
+      // Relabelled locally and stored under other ids: still the same two cards
+      mockExisting.push(
+        ...first.items.map(item => ({ ...item.card, id: `${item.card.id}_local`, back: 'Relabelled' })),
+      );
+      const second = await service.previewImport({ format: 'apkg', data });
+      expect(second.items.map(item => item.duplicateOf)).toEqual(mockExisting.map(c => c.id));
+    });
+
+    it('keeps review logs that share a millisecond', async () => {
+      const reviewedAt = new Date('2025-03-01T08:00:00Z');
+      const cards = [card('a', 'One', '1'), card('b', 'Two', '2')];
+      mockReviewLogs.push(
+        ...cards.map(c => ({ card_id: c.id, rating: Rating.Good, state: CardState.New, elapsed_days: 0, scheduled_days: 1, review: reviewedAt })),
+      );
+
+      const preview = await service.previewImport({ format: 'apkg', data: await service.buildApkg(cards) });
+
+      expect(preview.reviewLogCount).toBe(2);
+      expect(preview.items.map(item => item.reviewLogs.length)).toEqual([1, 1]);
+    });
+
+    it('round-trips suspended and buried cards', async () => {
+      const due = new Date(Date.now() + 5 * 24 * 60 * 60 * 1000);
+      const review = { state: CardState.Review, interval: 10, repetitions: 3, nextReview: due };
+      const cards = [
+        card('s', 'Suspended', 'x', { ...review, suspended: true }),
+        card('b', 'Buried', 'y', { ...review, buriedUntil: new Date(Date.now() + 60 * 60 * 1000) }),
+        card('n', 'Normal', 'z', review),
+      ];
+
+      const preview = await service.previewImport({ format: 'apkg', data: await service.buildApkg(cards) });
+      const [suspended, buried, normal] = preview.items.map(item => item.card);
+
+      expect(suspended!.suspended).toBe(true);
+      expect(buried!.suspended).toBeUndefined();
+      expect(new Date(buried!.buriedUntil!).getTime()).toBeGreaterThan(Date.now());
+      expect(normal!.suspended).toBeUndefined();
+      expect(normal!.buriedUntil).toBeUndefined();
+      // Hidden cards keep the review due date of their type
+      for (const c of [suspended!, buried!, normal!]) {
+        expect(Math.abs(new Date(c.nextReview).getTime() - due.getTime())).toBeLessThan(24 * 60 * 60 * 1000);
+      }
+    });
+  });
+});
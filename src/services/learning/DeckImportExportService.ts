@@ -0,0 +1,1115 @@
+/**
+ * DeckImportExportService - Anki (.apkg) and CSV/TSV deck interchange
+ *
+ * Imports are two-phase: previewImport() parses a file into Flashcards plus
+ * their FSRS review history without touching storage (dry run, with
+ * duplicate detection against existing cards), and commitImport() merges an
+ * accepted preview into the store. Exports produce the same formats back.
+ */
+
+import JSZip from 'jszip';
+import CryptoJS from 'crypto-js';
+import * as SQLite from 'expo-sqlite';
+import { Directory, File, Paths } from 'expo-file-system';
+import StorageService from '../storage/StorageService';
+import SpacedRepetitionService, {
+  CardState,
+  FSRSReviewLog,
+  Rating,
+} from './SpacedRepetitionService';
+import NoteTypeService from './NoteTypeService';
+import { Flashcard, FlashcardNote, FlashcardNoteType, OcclusionRegion } from '../../types';
+
+export type DeckFormat = 'apkg' | 'csv' | 'tsv';
+
+export type DeckImportSource =
+  | { format: 'csv' | 'tsv'; text: string }
+  | { format: 'apkg'; data: Uint8Array };
+
+export interface ImportPreviewItem {
+  card: Flashcard;
+  reviewLogs: FSRSReviewLog[];
+  duplicateOf?: string; // id of the existing card this one matches
+}
+
+export interface ImportMediaEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export interface ImportPreview {
+  format: DeckFormat;
+  items: ImportPreviewItem[];
+  skipped: Array<{ row: number; reason: string }>;
+  media: ImportMediaEntry[];
+  totalCards: number;
+  newCards: number;
+  duplicateCards: number;
+  reviewLogCount: number;
+  decks: string[];
+}
+
+export interface ImportResult {
+  imported: number;
+  skippedDuplicates: number;
+  updatedDuplicates: number;
+  reviewLogsImported: number;
+  mediaFilesWritten: number;
+}
+
+export interface DeckExportResult {
+  fileName: string;
+  uri: string;
+  cardCount: number;
+}
+
+type ParsedDeck = Pick<ImportPreview, 'items' | 'skipped' | 'media'>;
+
+// Anki collection row shapes (schema 11)
+interface AnkiNoteRow {
+  id: number;
+  mid: number;
+  tags: string;
+  flds: string;
+}
+
+interface AnkiCardRow {
+  id: number;
+  nid: number;
+  did: number;
+  ord: number;
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+}
+
+interface AnkiRevlogRow {
+  id: number;
+  cid: number;
+  ease: number;
+  ivl: number;
+  type: number;
+}
+
+interface AnkiModel {
+  type?: number;
+  name?: string;
+  flds?: Array<{ name: string }>;
+}
+
+// One exported Anki note and the cards generated from it
+interface AnkiExportNote {
+  guidSource: string;
+  modelId: number;
+  fields: string[];
+  cards: Array<{ card: Flashcard; ord: number }>;
+  imageUri?: string; // Occlusion image, exported as package media
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+const MEDIA_DIRECTORY = 'flashcard-media';
+const ANKI_MODEL_ID = 1700000000000;
+const ANKI_REVERSED_MODEL_ID = 1700000000001;
+const ANKI_CLOZE_MODEL_ID = 1700000000002;
+const ANKI_OCCLUSION_MODEL_ID = 1700000000003;
+const ANKI_DECK_ID = 1;
+// Anki's image occlusion fields (23.10+); masks are cloze deletions in the Occlusion field
+const OCCLUSION_FIELDS = ['Occlusion', 'Image', 'Header', 'Back Extra', 'Comments'];
+// {{c1::image-occlusion:rect:left=.1:top=.2:width=.3:height=.1:oi=1}}
+const OCCLUSION_PATTERN = /\{\{c(\d+)::image-occlusion:rect:([^}]*)\}\}/g;
+
+export class DeckImportExportService {
+  private static instance: DeckImportExportService;
+  private storage: StorageService;
+  private srs: SpacedRepetitionService;
+  private noteTypes: NoteTypeService;
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+    this.srs = SpacedRepetitionService.getInstance();
+    this.noteTypes = NoteTypeService.getInstance();
+  }
+
+  public static getInstance(): DeckImportExportService {
+    if (!DeckImportExportService.instance) {
+      DeckImportExportService.instance = new DeckImportExportService();
+    }
+    return DeckImportExportService.instance;
+  }
+
+  /**
+   * Guess the import format from a picked file's name
+   */
+  detectFormat(fileName: string): DeckFormat | null {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.apkg') || lower.endsWith('.colpkg')) return 'apkg';
+    if (lower.endsWith('.tsv') || lower.endsWith('.txt')) return 'tsv';
+    if (lower.endsWith('.csv')) return 'csv';
+    return null;
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Parse a deck without writing anything. Each item is flagged with
+   * duplicateOf when it matches an existing card by id, by note and ordinal,
+   * or by its text.
+   */
+  async previewImport(source: DeckImportSource): Promise<ImportPreview> {
+    const parsed = source.format === 'apkg'
+      ? await this.parseApkg(source.data)
+      : this.parseDelimited(source.text, source.format);
+
+    const existing = await this.storage.getFlashcards();
+    const byId = new Set(existing.map(card => card.id));
+    const byKey = new Map<string, string>();
+    for (const card of existing) {
+      for (const key of this.duplicateKeys(card)) {
+        if (!byKey.has(key)) byKey.set(key, card.id);
+      }
+    }
+    const seenInFile = new Map<string, string>();
+
+    for (const item of parsed.items) {
+      const keys = this.duplicateKeys(item.card);
+      const match = keys.map(key => byKey.get(key) ?? seenInFile.get(key)).find(Boolean);
+      const duplicateOf = byId.has(item.card.id) ? item.card.id : match;
+      if (duplicateOf) item.duplicateOf = duplicateOf;
+      for (const key of keys) {
+        if (!seenInFile.has(key)) seenInFile.set(key, item.card.id);
+      }
+    }
+
+    const duplicateCards = parsed.items.filter(item => item.duplicateOf).length;
+    return {
+      format: source.format,
+      items: parsed.items,
+      skipped: parsed.skipped,
+      media: parsed.media,
+      totalCards: parsed.items.length,
+      newCards: parsed.items.length - duplicateCards,
+      duplicateCards,
+      reviewLogCount: parsed.items.reduce((sum, item) => sum + item.reviewLogs.length, 0),
+      decks: Array.from(new Set(parsed.items.map(item => item.card.category ?? 'general'))),
+    };
+  }
+
+  /**
+   * Merge a previewed import into storage. Duplicates are skipped by default;
+   * with skipDuplicates=false they overwrite the matching existing card.
+   */
+  async commitImport(
+    preview: ImportPreview,
+    options: { skipDuplicates?: boolean } = {},
+  ): Promise<ImportResult> {
+    const skipDuplicates = options.skipDuplicates ?? true;
+    const existing = await this.storage.getFlashcards();
+    const cards = new Map(existing.map(card => [card.id, card]));
+    const logs: FSRSReviewLog[] = [];
+    const result: ImportResult = {
+      imported: 0,
+      skippedDuplicates: 0,
+      updatedDuplicates: 0,
+      reviewLogsImported: 0,
+      mediaFilesWritten: 0,
+    };
+
+    for (const item of preview.items) {
+      if (item.duplicateOf) {
+        if (skipDuplicates || !cards.has(item.duplicateOf)) {
+          result.skippedDuplicates++;
+          continue;
+        }
+        cards.set(item.duplicateOf, { ...item.card, id: item.duplicateOf });
+        logs.push(...item.reviewLogs.map(log => ({ ...log, card_id: item.duplicateOf! })));
+        result.updatedDuplicates++;
+        continue;
+      }
+      cards.set(item.card.id, item.card);
+      logs.push(...item.reviewLogs);
+      result.imported++;
+    }
+
+    await this.storage.saveFlashcards(Array.from(cards.values()));
+    if (logs.length > 0) {
+      await this.storage.appendReviewLogs(logs);
+      result.reviewLogsImported = logs.length;
+    }
+    result.mediaFilesWritten = this.writeMedia(preview.media);
+
+    return result;
+  }
+
+  private async parseApkg(data: Uint8Array): Promise<ParsedDeck> {
+    const zip = await JSZip.loadAsync(data);
+    const collectionEntry = zip.file('collection.anki21') ?? zip.file('collection.anki2');
+    if (!collectionEntry) {
+      if (zip.file('collection.anki21b')) {
+        throw new Error('This deck uses the compressed Anki 2.1.50+ format. Re-export it from Anki with "Support older Anki versions" enabled.');
+      }
+      throw new Error('Not an Anki package: collection database missing');
+    }
+
+    const db = await SQLite.deserializeDatabaseAsync(await collectionEntry.async('uint8array'));
+    try {
+      const col = await db.getFirstAsync<{ crt: number; models: string; decks: string }>(
+        'SELECT crt, models, decks FROM col LIMIT 1',
+      );
+      if (!col) throw new Error('Anki collection is empty');
+
+      const models: Record<string, AnkiModel> = JSON.parse(col.models || '{}');
+      const decks: Record<string, { name?: string }> = JSON.parse(col.decks || '{}');
+      const notes = await db.getAllAsync<AnkiNoteRow>('SELECT id, mid, tags, flds FROM notes');
+      const ankiCards = await db.getAllAsync<AnkiCardRow>(
+        'SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses FROM cards ORDER BY id',
+      );
+      const revlog = await db.getAllAsync<AnkiRevlogRow>(
+        'SELECT id, cid, ease, ivl, type FROM revlog ORDER BY id',
+      );
+
+      const notesById = new Map(notes.map(note => [note.id, note]));
+      const revlogByCard = new Map<number, AnkiRevlogRow[]>();
+      for (const entry of revlog) {
+        const list = revlogByCard.get(entry.cid) ?? [];
+        list.push(entry);
+        revlogByCard.set(entry.cid, list);
+      }
+      const cardsByNote = new Map<number, AnkiCardRow[]>();
+      for (const ankiCard of ankiCards) {
+        const list = cardsByNote.get(ankiCard.nid) ?? [];
+        list.push(ankiCard);
+        cardsByNote.set(ankiCard.nid, list);
+      }
+
+      const items: ImportPreviewItem[] = [];
+      const skipped: ImportPreview['skipped'] = [];
+      let row = 0;
+
+      for (const [noteId, noteCards] of cardsByNote) {
+        const ankiNote = notesById.get(noteId);
+        if (!ankiNote) {
+          for (const ankiCard of noteCards) {
+            skipped.push({ row: ++row, reason: `Card ${ankiCard.id} references missing note ${noteId}` });
+          }
+          continue;
+        }
+
+        // Anki notes become NeuroLearn notes so siblings bury and edits regenerate together
+        const note = this.toNote(ankiNote, noteCards, models);
+        const generated = new Map(this.noteTypes.generateCards(note).map(card => [card.ordinal, card]));
+
+        for (const ankiCard of noteCards) {
+          row++;
+          const card = generated.get(this.ordinalForAnkiCard(note, ankiCard.ord));
+          if (!card || !card.front.trim() || !card.back.trim()) {
+            skipped.push({ row, reason: `Card ${ankiCard.id} has an empty or unsupported template` });
+            continue;
+          }
+
+          const reviewLogs = this.convertRevlog(card.id, revlogByCard.get(ankiCard.id) ?? []);
+          card.category = decks[String(ankiCard.did)]?.name ?? card.category ?? 'general';
+          items.push({
+            card: this.applyAnkiScheduling(card, ankiCard, col.crt, reviewLogs),
+            reviewLogs,
+          });
+        }
+      }
+
+      return { items, skipped, media: await this.readApkgMedia(zip) };
+    } finally {
+      await db.closeAsync();
+    }
+  }
+
+  private toNote(
+    ankiNote: AnkiNoteRow,
+    noteCards: AnkiCardRow[],
+    models: Record<string, AnkiModel>,
+  ): FlashcardNote {
+    const model = models[String(ankiNote.mid)];
+    const rawFields = ankiNote.flds.split(FIELD_SEPARATOR);
+    const fields = rawFields.map(field => this.htmlToText(field));
+    const fieldNames = (model?.flds ?? []).map(field => field.name);
+    const note: FlashcardNote = {
+      id: `anki_${ankiNote.id}`,
+      type: 'basic',
+      front: fields[0] ?? '',
+      back: fields[1] ?? '',
+      tags: ankiNote.tags.trim().split(/\s+/).filter(Boolean),
+      created: new Date(Math.floor(ankiNote.id)),
+    };
+
+    if (model?.type === 1 && fieldNames.includes('Occlusion') && fieldNames.includes('Image')) {
+      const field = (name: string) => rawFields[fieldNames.indexOf(name)] ?? '';
+      const image = /<img[^>]*src=["']?([^"'>\s]+)/i.exec(field('Image'))?.[1];
+      return {
+        ...note,
+        type: 'image-occlusion',
+        front: this.htmlToText(field('Header')),
+        back: this.htmlToText(field('Back Extra')),
+        ...(image ? { imageUri: this.mediaUri(image) } : {}),
+        regions: this.parseOcclusions(field('Occlusion')),
+      };
+    }
+
+    note.type = model?.type === 1
+      ? 'cloze'
+      : noteCards.some(card => card.ord === 1) ? 'reversed' : 'basic';
+    return note;
+  }
+
+  /**
+   * Anki card ord to the ordinal NoteTypeService generated the card under:
+   * cloze numbers for cloze notes, region index for occlusion notes
+   */
+  private ordinalForAnkiCard(note: FlashcardNote, ord: number): number {
+    if (note.type === 'cloze') return ord + 1;
+    if (note.type === 'image-occlusion') {
+      return (note.regions ?? []).findIndex(region => region.id === `c${ord + 1}`);
+    }
+    return ord;
+  }
+
+  /**
+   * One region per cloze number, in cloze order. Region ids are the cloze
+   * numbers, so re-imports generate the same card ids.
+   */
+  private parseOcclusions(field: string): OcclusionRegion[] {
+    const regions = new Map<number, OcclusionRegion>();
+    for (const [, number, body] of field.matchAll(OCCLUSION_PATTERN)) {
+      const index = Number(number);
+      if (regions.has(index)) continue;
+
+      const props = Object.fromEntries(
+        body!.split(':').map(prop => {
+          const [key, ...value] = prop.split('=');
+          return [key ?? '', value.join('=')];
+        }),
+      );
+      const region: OcclusionRegion = {
+        id: `c${index}`,
+        x: Number(props.left) || 0,
+        y: Number(props.top) || 0,
+        width: Number(props.width) || 0,
+        height: Number(props.height) || 0,
+      };
+      if (props.label) region.label = decodeURIComponent(props.label);
+      regions.set(index, region);
+    }
+    return Array.from(regions.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, region]) => region);
+  }
+
+  /**
+   * Map Anki's SM-2 scheduling onto the legacy Flashcard fields and let
+   * convertLegacyCard derive the FSRS state from them.
+   */
+  private applyAnkiScheduling(
+    card: Flashcard,
+    ankiCard: AnkiCardRow,
+    collectionCreated: number,
+    reviewLogs: FSRSReviewLog[],
+  ): Flashcard {
+    // Suspended (-1) and buried (-2, -3) cards keep the due value of their type's queue
+    const queue = ankiCard.queue >= 0
+      ? ankiCard.queue
+      : ankiCard.type === CardState.Review ? 2 : ankiCard.type === CardState.New ? 0 : 1;
+
+    let nextReview = new Date();
+    if (queue === 2 || queue === 3) {
+      // Review queue: due is a day number relative to collection creation
+      nextReview = new Date((collectionCreated + ankiCard.due * 86400) * 1000);
+    } else if (queue === 1) {
+      // Learning queue: due is an epoch timestamp in seconds
+      nextReview = new Date(ankiCard.due * 1000);
+    }
+
+    const lastLog = reviewLogs[reviewLogs.length - 1];
+    const legacy = {
+      id: card.id,
+      nextReview,
+      interval: Math.max(0, ankiCard.ivl),
+      easeFactor: ankiCard.factor > 0 ? ankiCard.factor / 1000 : 2.5,
+      repetitions: ankiCard.reps,
+      lastReviewed: lastLog?.review,
+    };
+    const fsrs = this.srs.convertLegacyCard(legacy);
+
+    const scheduled: Flashcard = {
+      ...card,
+      nextReview,
+      interval: legacy.interval,
+      easeFactor: legacy.easeFactor,
+      repetitions: legacy.repetitions,
+      stability: fsrs.stability,
+      fsrsDifficulty: fsrs.difficulty,
+      // Anki card types share FSRS state numbering (new/learning/review/relearning)
+      state: ankiCard.type >= CardState.New && ankiCard.type <= CardState.Relearning ? ankiCard.type : fsrs.state,
+      lapses: ankiCard.lapses,
+    };
+    if (lastLog) scheduled.lastReviewed = lastLog.review;
+    if (ankiCard.queue === -1) {
+      scheduled.suspended = true;
+    } else if (ankiCard.queue < -1) {
+      // Anki buries until the next day
+      const buriedUntil = new Date();
+      buriedUntil.setHours(24, 0, 0, 0);
+      scheduled.buriedUntil = buriedUntil;
+    }
+    return scheduled;
+  }
+
+  /**
+   * Anki revlog rows to FSRS review logs. The state recorded is the card's
+   * state before the review, matching scheduleNextReviewFSRS.
+   */
+  private convertRevlog(cardId: string, entries: AnkiRevlogRow[]): FSRSReviewLog[] {
+    const logs: FSRSReviewLog[] = [];
+    let previous: Date | null = null;
+
+    for (const entry of entries) {
+      // Manual reschedules (type 4) and ease 0 rows are not recall events
+      if (entry.type > 3 || entry.ease < Rating.Again || entry.ease > Rating.Easy) continue;
+
+      const review = new Date(entry.id);
+      let state: CardState;
+      if (logs.length === 0) state = CardState.New;
+      else if (entry.type === 1 || entry.type === 3) state = CardState.Review;
+      else if (entry.type === 2) state = CardState.Relearning;
+      else state = CardState.Learning;
+
+      logs.push({
+        card_id: cardId,
+        rating: entry.ease as Rating,
+        elapsed_days: previous ? Math.max(0, Math.floor((review.getTime() - previous.getTime()) / DAY_MS)) : 0,
+        // Negative intervals are learning steps in seconds
+        scheduled_days: Math.max(0, entry.ivl),
+        review,
+        state,
+      });
+      previous = review;
+    }
+    return logs;
+  }
+
+  private async readApkgMedia(zip: JSZip): Promise<ImportMediaEntry[]> {
+    const manifest = zip.file('media');
+    if (!manifest) return [];
+
+    let mapping: Record<string, string> = {};
+    try {
+      mapping = JSON.parse(await manifest.async('string'));
+    } catch {
+      // Newer packages store a protobuf manifest; media is skipped for those
+      return [];
+    }
+
+    const media: ImportMediaEntry[] = [];
+    for (const [entryName, fileName] of Object.entries(mapping)) {
+      const entry = zip.file(entryName);
+      if (!entry) continue;
+      media.push({ name: fileName, data: await entry.async('uint8array') });
+    }
+    return media;
+  }
+
+  private mediaFileName(name: string): string {
+    return name.replace(/[\\/]/g, '_');
+  }
+
+  // Where writeMedia puts an imported media file
+  private mediaUri(name: string): string {
+    return new File(new Directory(Paths.document, MEDIA_DIRECTORY), this.mediaFileName(name)).uri;
+  }
+
+  private writeMedia(media: ImportMediaEntry[]): number {
+    if (media.length === 0) return 0;
+
+    const directory = new Directory(Paths.document, MEDIA_DIRECTORY);
+    directory.create({ intermediates: true, idempotent: true });
+
+    let written = 0;
+    for (const entry of media) {
+      try {
+        const file = new File(directory, this.mediaFileName(entry.name));
+        if (!file.exists) file.create();
+        file.write(entry.data);
+        written++;
+      } catch (error) {
+        console.warn(`Failed to write flashcard media ${entry.name}:`, error);
+      }
+    }
+    return written;
+  }
+
+  /**
+   * CSV/TSV import. Honors Anki text-export directives (#separator,
+   * #columns, #tags column) and an optional front/back header row;
+   * otherwise columns are front, back, tags, category.
+   */
+  private parseDelimited(text: string, format: 'csv' | 'tsv'): ParsedDeck {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    let delimiter = format === 'tsv' ? '\t' : ',';
+    let columns: string[] | null = null;
+    let tagsColumn: number | null = null;
+
+    // Leading "#key:value" lines are Anki file headers
+    let bodyStart = 0;
+    for (; bodyStart < lines.length; bodyStart++) {
+      const line = lines[bodyStart]!;
+      if (!line.startsWith('#')) break;
+      const [key, ...rest] = line.slice(1).split(':');
+      const value = rest.join(':').trim();
+      switch (key?.trim().toLowerCase()) {
+        case 'separator':
+          delimiter = this.parseSeparator(value) ?? delimiter;
+          break;
+        case 'columns':
+          columns = value.split(delimiter).map(col => col.trim().toLowerCase());
+          break;
+        case 'tags column':
+          tagsColumn = Number(value) - 1;
+          break;
+      }
+    }
+
+    const rows = this.parseRows(lines.slice(bodyStart).join('\n'), delimiter);
+    const items: ImportPreviewItem[] = [];
+    const skipped: ImportPreview['skipped'] = [];
+
+    if (!columns && rows[0] && rows[0].some(cell => /^(front|question)$/i.test(cell.trim()))) {
+      columns = rows.shift()!.map(cell => cell.trim().toLowerCase());
+    }
+    const indexOf = (names: string[], fallback: number | null) => {
+      const found = columns ? columns.findIndex(col => names.includes(col)) : -1;
+      return found >= 0 ? found : columns ? null : fallback;
+    };
+    const frontIndex = indexOf(['front', 'question'], 0);
+    const backIndex = indexOf(['back', 'answer'], 1);
+    if (frontIndex === null || backIndex === null) {
+      throw new Error(
+        `The file's columns (${columns!.join(', ')}) have no ${frontIndex === null ? 'front/question' : 'back/answer'} column`,
+      );
+    }
+    const tagsIndex = tagsColumn ?? indexOf(['tags'], 2);
+    const categoryIndex = indexOf(['category', 'deck'], 3);
+
+    const now = new Date();
+    rows.forEach((row, index) => {
+      const rowNumber = index + 1;
+      if (row.length === 1 && !row[0]!.trim()) return;
+      if (row[0]?.startsWith('#')) return;
+
+      const front = this.htmlToText(row[frontIndex] ?? '');
+      const back = this.htmlToText(row[backIndex] ?? '');
+      if (!front || !back) {
+        skipped.push({ row: rowNumber, reason: 'Missing front or back' });
+        return;
+      }
+
+      const tags = tagsIndex !== null ? (row[tagsIndex] ?? '').split(/[\s,;]+/).filter(Boolean) : [];
+      const category = categoryIndex !== null ? (row[categoryIndex] ?? '').trim() : '';
+      const card: Flashcard = {
+        id: `import_${now.getTime()}_${rowNumber}`,
+        front,
+        back,
+        nextReview: now,
+        created: now,
+        interval: 1,
+        easeFactor: 2.5,
+        repetitions: 0,
+        tags,
+        category: category || 'general',
+      };
+      items.push({ card, reviewLogs: [] });
+    });
+
+    return { items, skipped, media: [] };
+  }
+
+  private parseSeparator(value: string): string | null {
+    const named: Record<string, string> = {
+      tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ', colon: ':',
+    };
+    return named[value.toLowerCase()] ?? (value.length === 1 ? value : null);
+  }
+
+  /**
+   * RFC 4180 style tokenizer: quoted fields may contain delimiters,
+   * newlines and doubled quotes.
+   */
+  private parseRows(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]!;
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  // ==================== EXPORT ====================
+
+  /**
+   * Export flashcards (all stored cards by default) and share-ready file URI
+   */
+  async exportDeck(format: DeckFormat, cards?: Flashcard[]): Promise<DeckExportResult> {
+    const flashcards = cards ?? await this.storage.getFlashcards();
+    const stamp = new Date().toISOString().slice(0, 10);
+    const fileName = `neurolearn-flashcards-${stamp}.${format}`;
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) file.delete();
+    file.create();
+
+    if (format === 'apkg') {
+      file.write(await this.buildApkg(flashcards));
+    } else {
+      file.write(this.buildDelimited(flashcards, format));
+    }
+
+    return { fileName, uri: file.uri, cardCount: flashcards.length };
+  }
+
+  buildDelimited(cards: Flashcard[], format: 'csv' | 'tsv'): string {
+    const delimiter = format === 'tsv' ? '\t' : ',';
+    const escape = (value: string) =>
+      /["\n\r]/.test(value) || value.includes(delimiter)
+        ? `"${value.replace(/"/g, '""')}"`
+        : value;
+
+    const lines = format === 'tsv'
+      ? ['#separator:tab', '#html:false', '#columns:front\tback\ttags\tcategory', '#tags column:3']
+      : ['front,back,tags,category'];
+    for (const card of cards) {
+      lines.push([
+        card.front,
+        card.back,
+        (card.tags ?? []).join(' '),
+        card.category ?? 'general',
+      ].map(escape).join(delimiter));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Build a schema-11 Anki collection in memory and zip it as an .apkg.
+   * Each category becomes a deck; FSRS state maps back onto Anki card types.
+   * Reversed, cloze and image-occlusion notes keep their note type, so
+   * siblings stay one note; occlusion images travel as package media.
+   */
+  async buildApkg(cards: Flashcard[]): Promise<Uint8Array> {
+    const db = await SQLite.openDatabaseAsync(':memory:');
+    try {
+      await db.execAsync(ANKI_SCHEMA);
+
+      const nowSeconds = Math.floor(Date.now() / 1000);
+      const crt = Math.floor(new Date().setHours(4, 0, 0, 0) / 1000);
+      const deckIds = new Map<string, number>();
+      for (const card of cards) {
+        const category = card.category ?? 'general';
+        if (!deckIds.has(category)) deckIds.set(category, ANKI_DECK_ID + deckIds.size + 1);
+      }
+
+      const decks: Record<string, object> = {
+        [ANKI_DECK_ID]: this.ankiDeck(ANKI_DECK_ID, 'Default', nowSeconds),
+      };
+      deckIds.forEach((id, name) => {
+        decks[id] = this.ankiDeck(id, name, nowSeconds);
+      });
+
+      await db.runAsync(
+        'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+        [
+          crt,
+          nowSeconds * 1000,
+          nowSeconds * 1000,
+          JSON.stringify({ nextPos: cards.length + 1, curDeck: ANKI_DECK_ID, curModel: ANKI_MODEL_ID }),
+          JSON.stringify({
+            [ANKI_MODEL_ID]: this.ankiBasicModel(nowSeconds),
+            [ANKI_REVERSED_MODEL_ID]: this.ankiReversedModel(nowSeconds),
+            [ANKI_CLOZE_MODEL_ID]: this.ankiClozeModel(nowSeconds),
+            [ANKI_OCCLUSION_MODEL_ID]: this.ankiOcclusionModel(nowSeconds),
+          }),
+          JSON.stringify(decks),
+          JSON.stringify({ 1: { id: 1, name: 'Default', mod: nowSeconds, usn: 0 } }),
+          '{}',
+        ],
+      );
+
+      const logs = await this.storage.getReviewLogs();
+      const logsByCard = new Map<string, FSRSReviewLog[]>();
+      for (const log of logs) {
+        const list = logsByCard.get(log.card_id) ?? [];
+        list.push(log);
+        logsByCard.set(log.card_id, list);
+      }
+
+      const notes = this.toAnkiNotes(cards);
+      const usedRevlogIds = new Set<number>();
+      await db.withTransactionAsync(async () => {
+        let baseId = Date.now();
+        let position = 0;
+        for (const note of notes) {
+          const noteId = baseId++;
+          const sortField = note.fields[0] ?? '';
+          const first = note.cards[0]!.card;
+          const tags = (first.tags ?? []).map(tag => tag.replace(/\s+/g, '_')).join(' ');
+          await db.runAsync(
+            'INSERT INTO notes VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?, 0, \'\')',
+            [noteId, this.ankiGuid(note.guidSource), note.modelId, nowSeconds, tags ? ` ${tags} ` : '', note.fields.join(FIELD_SEPARATOR), sortField, this.ankiChecksum(sortField)],
+          );
+
+          for (const { card, ord } of note.cards) {
+            const cardId = baseId++;
+            const schedule = this.toAnkiSchedule(card, crt, position++);
+            await db.runAsync(
+              'INSERT INTO cards VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')',
+              [cardId, noteId, deckIds.get(card.category ?? 'general')!, ord, nowSeconds, schedule.type, schedule.queue, schedule.due, schedule.ivl, schedule.factor, card.repetitions ?? 0, card.lapses ?? 0],
+            );
+
+            for (const log of logsByCard.get(card.id) ?? []) {
+              // Revlog ids are review times in ms and must be unique; Anki
+              // itself bumps colliding ids by a millisecond
+              let revlogId = new Date(log.review).getTime();
+              while (usedRevlogIds.has(revlogId)) revlogId++;
+              usedRevlogIds.add(revlogId);
+              await db.runAsync(
+                'INSERT INTO revlog VALUES (?, ?, 0, ?, ?, ?, ?, 0, ?)',
+                [revlogId, cardId, log.rating, log.scheduled_days, log.elapsed_days, schedule.factor, this.toAnkiRevlogType(log.state)],
+              );
+            }
+          }
+        }
+      });
+
+      const collection = await db.serializeAsync();
+      const zip = new JSZip();
+      zip.file('collection.anki2', collection);
+      zip.file('media', JSON.stringify(await this.addApkgMedia(zip, notes)));
+      return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+    } finally {
+      await db.closeAsync();
+    }
+  }
+
+  /**
+   * Zip each occlusion image once as a numbered entry; returns the media
+   * manifest (entry name -> file name)
+   */
+  private async addApkgMedia(zip: JSZip, notes: AnkiExportNote[]): Promise<Record<string, string>> {
+    const manifest: Record<string, string> = {};
+    const added = new Set<string>();
+    for (const note of notes) {
+      if (!note.imageUri || added.has(note.imageUri)) continue;
+      added.add(note.imageUri);
+      try {
+        const entry = String(Object.keys(manifest).length);
+        zip.file(entry, await new File(note.imageUri).bytes());
+        manifest[entry] = this.imageName(note.imageUri);
+      } catch (error) {
+        console.warn(`Failed to export occlusion image ${note.imageUri}:`, error);
+      }
+    }
+    return manifest;
+  }
+
+  private imageName(uri: string): string {
+    return decodeURIComponent(uri.split('/').pop() || 'image');
+  }
+
+  /**
+   * Group cards into Anki notes. Reversed, cloze and occlusion siblings share
+   * one note built from their source fields; every other card is a basic note.
+   * Cloze ords are zero-based in Anki, while our ordinals are cloze numbers;
+   * occlusion regions become cloze numbers in region order.
+   */
+  private toAnkiNotes(cards: Flashcard[]): AnkiExportNote[] {
+    const notes = new Map<string, AnkiExportNote>();
+    for (const card of cards) {
+      const type = card.noteType;
+      if (type === 'image-occlusion' && card.noteId && card.note?.imageUri && card.note.regions) {
+        const key = `note:${card.noteId}`;
+        const note = notes.get(key) ?? {
+          guidSource: card.noteId,
+          modelId: ANKI_OCCLUSION_MODEL_ID,
+          fields: [
+            this.toOcclusionField(card.note.regions),
+            `<img src="${this.imageName(card.note.imageUri)}">`,
+            card.note.front,
+            card.note.back,
+            '',
+          ],
+          cards: [],
+          imageUri: card.note.imageUri,
+        };
+        note.cards.push({ card, ord: card.ordinal ?? 0 });
+        notes.set(key, note);
+        continue;
+      }
+
+      if (!card.noteId || !card.note || (type !== 'reversed' && type !== 'cloze')) {
+        notes.set(`card:${card.id}`, {
+          guidSource: card.id,
+          modelId: ANKI_MODEL_ID,
+          fields: [card.front, card.back],
+          cards: [{ card, ord: 0 }],
+        });
+        continue;
+      }
+
+      const key = `note:${card.noteId}`;
+      const note = notes.get(key) ?? {
+        guidSource: card.noteId,
+        modelId: type === 'cloze' ? ANKI_CLOZE_MODEL_ID : ANKI_REVERSED_MODEL_ID,
+        fields: [card.note.front, card.note.back],
+        cards: [],
+      };
+      const ordinal = card.ordinal ?? (type === 'cloze' ? 1 : 0);
+      note.cards.push({ card, ord: type === 'cloze' ? Math.max(0, ordinal - 1) : ordinal });
+      notes.set(key, note);
+    }
+    return Array.from(notes.values());
+  }
+
+  private toOcclusionField(regions: OcclusionRegion[]): string {
+    const round = (value: number) => String(Math.round(value * 10000) / 10000);
+    return regions
+      .map((region, index) => {
+        const props = [
+          `left=${round(region.x)}`,
+          `top=${round(region.y)}`,
+          `width=${round(region.width)}`,
+          `height=${round(region.height)}`,
+          'oi=1',
+          ...(region.label ? [`label=${encodeURIComponent(region.label)}`] : []),
+        ];
+        return `{{c${index + 1}::image-occlusion:rect:${props.join(':')}}}`;
+      })
+      .join('<br>');
+  }
+
+  private toAnkiSchedule(card: Flashcard, crt: number, position: number) {
+    const fsrs = this.srs.convertLegacyCard(card);
+    const state = card.state ?? fsrs.state;
+    const factor = Math.round((card.easeFactor ?? 2.5) * 1000);
+    const due = new Date(card.nextReview);
+    // Suspended and buried cards leave the queues but keep their type's due value
+    const hidden = card.suspended ? -1 : this.srs.isBuried(card) ? -2 : null;
+
+    if (state === CardState.New) {
+      return { type: 0, queue: hidden ?? 0, due: position + 1, ivl: 0, factor: 0 };
+    }
+    if (state === CardState.Review) {
+      return {
+        type: 2,
+        queue: hidden ?? 2,
+        due: Math.max(0, Math.round((due.getTime() / 1000 - crt) / 86400)),
+        ivl: Math.max(1, card.interval ?? 1),
+        factor,
+      };
+    }
+    // Learning/relearning: due is an epoch timestamp in seconds
+    return { type: state, queue: hidden ?? 1, due: Math.floor(due.getTime() / 1000), ivl: 0, factor };
+  }
+
+  private toAnkiRevlogType(state: CardState): number {
+    switch (state) {
+      case CardState.Review:
+        return 1;
+      case CardState.Relearning:
+        return 2;
+      default:
+        return 0;
+    }
+  }
+
+  private ankiDeck(id: number, name: string, mod: number) {
+    return {
+      id, name, mod, usn: 0, conf: 1, desc: '', dyn: 0, collapsed: false,
+      extendNew: 0, extendRev: 0, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+    };
+  }
+
+  private ankiBasicModel(mod: number) {
+    return this.ankiModel(ANKI_MODEL_ID, 'NeuroLearn Basic', 0, mod, ['Front', 'Back'], [
+      this.ankiTemplate('Card 1', 0, '{{Front}}', '{{FrontSide}}<hr id=answer>{{Back}}'),
+    ], [[0, 'all', [0]]]);
+  }
+
+  private ankiReversedModel(mod: number) {
+    return this.ankiModel(ANKI_REVERSED_MODEL_ID, 'NeuroLearn Basic (and reversed card)', 0, mod, ['Front', 'Back'], [
+      this.ankiTemplate('Card 1', 0, '{{Front}}', '{{FrontSide}}<hr id=answer>{{Back}}'),
+      this.ankiTemplate('Card 2', 1, '{{Back}}', '{{FrontSide}}<hr id=answer>{{Front}}'),
+    ], [[0, 'all', [0]], [1, 'all', [1]]]);
+  }
+
+  // Cloze models have type 1 and a single template; Anki derives one card per deletion
+  private ankiClozeModel(mod: number) {
+    return this.ankiModel(ANKI_CLOZE_MODEL_ID, 'NeuroLearn Cloze', 1, mod, ['Text', 'Back Extra'], [
+      this.ankiTemplate('Cloze', 0, '{{cloze:Text}}', '{{cloze:Text}}<br>{{Back Extra}}'),
+    ], undefined);
+  }
+
+  // Mirrors Anki's stock Image Occlusion note type; each mask is a cloze deletion
+  private ankiOcclusionModel(mod: number) {
+    return this.ankiModel(ANKI_OCCLUSION_MODEL_ID, 'NeuroLearn Image Occlusion', 1, mod, OCCLUSION_FIELDS, [
+      this.ankiTemplate(
+        'Image Occlusion',
+        0,
+        '{{#Header}}<div>{{Header}}</div>{{/Header}}<div style="display: none">{{cloze:Occlusion}}</div>{{image-occlusion:Occlusion}}',
+        '{{#Header}}<div>{{Header}}</div>{{/Header}}<div style="display: none">{{cloze:Occlusion}}</div>{{image-occlusion:Occlusion}}<br>{{Back Extra}}',
+      ),
+    ], undefined);
+  }
+
+  private ankiModel(
+    id: number,
+    name: string,
+    type: 0 | 1,
+    mod: number,
+    fieldNames: string[],
+    tmpls: ReturnType<DeckImportExportService['ankiTemplate']>[],
+    req: Array<[number, string, number[]]> | undefined,
+  ) {
+    return {
+      id,
+      name,
+      type,
+      mod,
+      usn: 0,
+      sortf: 0,
+      did: ANKI_DECK_ID,
+      flds: fieldNames.map((field, ord) => ({
+        name: field, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [],
+      })),
+      tmpls,
+      css: '.card { font-family: arial; font-size: 20px; text-align: center; }\n.cloze { font-weight: bold; color: blue; }',
+      latexPre: '\\documentclass[12pt]{article}\n\\begin{document}\n',
+      latexPost: '\\end{document}',
+      ...(req ? { req } : {}),
+      tags: [],
+      vers: [],
+    };
+  }
+
+  private ankiTemplate(name: string, ord: number, qfmt: string, afmt: string) {
+    return { name, ord, qfmt, afmt, did: null, bqfmt: '', bafmt: '' };
+  }
+
+  private ankiGuid(id: string): string {
+    return CryptoJS.SHA1(`neurolearn:${id}`).toString().slice(0, 10);
+  }
+
+  // Anki's duplicate check: first 8 hex digits of SHA1 over the sort field
+  private ankiChecksum(sortField: string): number {
+    return parseInt(CryptoJS.SHA1(this.htmlToText(sortField)).toString().slice(0, 8), 16);
+  }
+
+  // ==================== HELPERS ====================
+
+  private htmlToText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(div|p)>/gi, '\n')
+      .replace(/<img[^>]*src=["']?([^"'>\s]+)["']?[^>]*>/gi, '[image: $1]')
+      .replace(/\[sound:([^\]]+)\]/g, '[audio: $1]')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Keys a card is matched on against existing cards: its note and ordinal,
+   * and its text. Occlusion siblings share their prompt, so their text key
+   * includes the region's answer.
+   */
+  private duplicateKeys(card: Flashcard): string[] {
+    const keys: string[] = [];
+    if (card.noteId) keys.push(`note:${card.noteId}#${card.ordinal ?? 0}`);
+    const text = card.noteType === 'image-occlusion' ? `${card.front}\n${card.back}` : card.front;
+    keys.push(`text:${this.normalizeText(text)}`);
+    return keys;
+  }
+
+  private normalizeText(text: string): string {
+    return this.htmlToText(text).toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+}
+
+// Anki collection schema version 11, as read by every Anki 2.1 release
+const ANKI_SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+export default DeckImportExportService;
@@ -0,0 +1,117 @@
+import DeckService, { DeckConfig, DEFAULT_PRESET_ID } from './DeckService';
+import { CardState, FSRSReviewLog, Rating } from './SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({}) },
+}));
+jest.mock('../storage/SupabaseService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getCurrentUser: async () => null }) },
+}));
+
+const NOW = new Date(2026, 9, 19, 12, 0);
+const DAY = 24 * 60 * 60 * 1000;
+
+const card = (id: string, category: string, isNew: boolean): Flashcard => ({
+  id,
+  front: id,
+  back: id,
+  category,
+  created: new Date(NOW.getTime() - 30 * DAY),
+  nextReview: new Date(NOW.getTime() - DAY),
+  interval: isNew ? 0 : 5,
+  easeFactor: 2.5,
+  repetitions: isNew ? 0 : 3,
+  ...(isNew ? { state: CardState.New } : { state: CardState.Review, stability: 5, lastReviewed: new Date(NOW.getTime() - 6 * DAY) }),
+});
+
+const preset = (id: string, newCardsPerDay: number, reviewsPerDay: number) => ({
+  id,
+  name: id,
+  requestRetention: 0.9,
+  maximumInterval: 365,
+  newCardsPerDay,
+  reviewsPerDay,
+});
+
+describe('DeckService', () => {
+  const decks = DeckService.getInstance();
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('lets subdecks inherit the nearest assigned preset', () => {
+    const config: DeckConfig = {
+      presets: [preset(DEFAULT_PRESET_ID, 20, 200), preset('cs', 5, 50)],
+      assignments: { CS: 'cs' },
+    };
+
+    expect(decks.resolvePreset('CS::Algorithms::Graphs', config).id).toBe('cs');
+    expect(decks.resolvePreset(' Biology ', config).id).toBe(DEFAULT_PRESET_ID);
+    expect(decks.getSchedulingOverrides({ category: 'CS::Algorithms' }, config)).toEqual({
+      requestRetention: 0.9,
+      maximumInterval: 365,
+    });
+  });
+
+  it('caps due cards by deck limits, with parents capping the sum of their children', () => {
+    const config: DeckConfig = {
+      presets: [preset(DEFAULT_PRESET_ID, 20, 200), preset('cs', 2, 3)],
+      assignments: { CS: 'cs' },
+    };
+    const cards = [
+      ...['a', 'b', 'c'].map((id) => card(`algo_new_${id}`, 'CS::Algorithms', true)),
+      ...['a', 'b'].map((id) => card(`graphs_new_${id}`, 'CS::Graphs', true)),
+      ...['a', 'b', 'c', 'd'].map((id) => card(`algo_rev_${id}`, 'CS::Algorithms', false)),
+      card('bio_new', 'Biology', true),
+    ];
+
+    const due = decks.getDueCards(cards, config);
+
+    const inCs = due.filter((c) => decks.isInSubtree(c, 'CS'));
+    expect(inCs.filter((c) => c.state === CardState.New)).toHaveLength(2);
+    expect(inCs.filter((c) => c.state === CardState.Review)).toHaveLength(3);
+    expect(due.map((c) => c.id)).toContain('bio_new');
+
+    // Cards studied earlier today use up the quota
+    const studied = { 'CS::Graphs': { newCards: 2, reviews: 0 } };
+    expect(decks.getDueCards(cards, config, studied, 'CS').filter((c) => c.state === CardState.New)).toEqual([]);
+  });
+
+  it('counts each card once a day, from logs and when recording reviews', () => {
+    const cards = [card('a', 'CS', true), card('b', 'CS', false)];
+    const review = (cardId: string, state: CardState, hour: number): FSRSReviewLog => ({
+      card_id: cardId,
+      rating: Rating.Again,
+      state,
+      elapsed_days: 0,
+      scheduled_days: 0,
+      review: new Date(2026, 9, 19, hour),
+    });
+
+    const studied = decks.getStudiedToday(
+      [review('a', CardState.New, 9), review('a', CardState.Learning, 10), review('b', CardState.Review, 11)],
+      cards,
+      NOW,
+    );
+    expect(studied.CS).toMatchObject({ newCards: 1, reviews: 1 });
+
+    // A relearning card rated again later the same day is not another review
+    const again = decks.recordStudied(studied, cards[1]!, false, NOW);
+    expect(again).toBe(studied);
+
+    const other = decks.recordStudied(again, card('c', 'CS', false), false, NOW);
+    expect(other.CS).toMatchObject({ newCards: 1, reviews: 2 });
+
+    // Past midnight the counts start over
+    const tomorrow = decks.recordStudied(other, cards[1]!, false, new Date(NOW.getTime() + DAY));
+    expect(tomorrow.CS).toMatchObject({ newCards: 0, reviews: 1, cardIds: ['b'] });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * DeckService - Nested decks and per-deck scheduling presets
+ *
+ * A card's deck is its `category`, read as a path such as
+ * 'CS::Algorithms::Graphs'. Presets (target retention, maximum interval and
+ * daily new/review limits) are assigned to deck paths and inherited by every
+ * subdeck that has no assignment of its own.
+ */
+
+import HybridStorageService from '../storage/HybridStorageService';
+import { parseStored, resolveUserId } from '../storage/storedValues';
+import {
+  SpacedRepetitionService,
+  CardState,
+  DECK_SEPARATOR,
+  DeckDueLimits,
+  FSRSReviewLog,
+  SchedulingOverrides,
+} from './SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+export interface DeckPreset {
+  id: string;
+  name: string;
+  requestRetention: number; // 0.7 - 0.99
+  maximumInterval: number; // days
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+}
+
+export interface DeckConfig {
+  presets: DeckPreset[];
+  assignments: Record<string, string>; // deck path -> preset id
+}
+
+export interface DeckNode {
+  path: string;
+  name: string; // Last path segment
+  depth: number;
+  children: DeckNode[];
+  cardCount: number; // Including subdecks
+  dueCount: number; // Due before daily limits, including subdecks
+  presetId: string;
+}
+
+export type StudiedToday = NonNullable<DeckDueLimits['studiedToday']>;
+
+export const DEFAULT_DECK = 'general';
+export const DEFAULT_PRESET_ID = 'default';
+
+const DEFAULT_PRESET: DeckPreset = {
+  id: DEFAULT_PRESET_ID,
+  name: 'Default',
+  requestRetention: 0.9,
+  maximumInterval: 36500,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+};
+
+export class DeckService {
+  private static instance: DeckService;
+  private storage: HybridStorageService;
+  private srs: SpacedRepetitionService;
+
+  private static readonly CONFIG_KEY_PREFIX = '@neurolearn/deck_config_';
+
+  private constructor() {
+    this.storage = HybridStorageService.getInstance();
+    this.srs = SpacedRepetitionService.getInstance();
+  }
+
+  public static getInstance(): DeckService {
+    if (!DeckService.instance) {
+      DeckService.instance = new DeckService();
+    }
+    return DeckService.instance;
+  }
+
+  // ==================== DECK PATHS ====================
+
+  /**
+   * Normalised deck path of a card: trimmed segments, empty ones dropped
+   */
+  getDeckPath(card: Pick<Flashcard, 'category'>): string {
+    return this.normalizePath(card.category ?? '');
+  }
+
+  normalizePath(path: string): string {
+    const parts = path
+      .split(DECK_SEPARATOR)
+      .map((part) => part.trim())
+      .filter(Boolean);
+    return parts.length > 0 ? parts.join(DECK_SEPARATOR) : DEFAULT_DECK;
+  }
+
+  /**
+   * True when the card's deck is `deckPath` or one of its subdecks
+   */
+  isInSubtree(card: Pick<Flashcard, 'category'>, deckPath: string): boolean {
+    const cardDeck = this.getDeckPath(card);
+    return cardDeck === deckPath || cardDeck.startsWith(deckPath + DECK_SEPARATOR);
+  }
+
+  /**
+   * Build the deck tree for the given cards, sorted by name at each level
+   */
+  buildDeckTree(cards: Flashcard[], config: DeckConfig): DeckNode[] {
+    const nodes = new Map<string, DeckNode>();
+    const roots: DeckNode[] = [];
+    const dueIds = new Set(this.srs.getDueCards(cards).map((card: Flashcard) => card.id));
+
+    const ensureNode = (path: string): DeckNode => {
+      const existing = nodes.get(path);
+      if (existing) return existing;
+
+      const parts = path.split(DECK_SEPARATOR);
+      const node: DeckNode = {
+        path,
+        name: parts[parts.length - 1] ?? path,
+        depth: parts.length - 1,
+        children: [],
+        cardCount: 0,
+        dueCount: 0,
+        presetId: this.resolvePreset(path, config).id,
+      };
+      nodes.set(path, node);
+
+      if (parts.length > 1) {
+        ensureNode(parts.slice(0, -1).join(DECK_SEPARATOR)).children.push(node);
+      } else {
+        roots.push(node);
+      }
+      return node;
+    };
+
+    for (const card of cards) {
+      const parts = this.getDeckPath(card).split(DECK_SEPARATOR);
+      const isDue = dueIds.has(card.id);
+      for (let depth = 1; depth <= parts.length; depth++) {
+        const node = ensureNode(parts.slice(0, depth).join(DECK_SEPARATOR));
+        node.cardCount += 1;
+        if (isDue) node.dueCount += 1;
+      }
+    }
+
+    const sortTree = (list: DeckNode[]) => {
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      list.forEach((node) => sortTree(node.children));
+    };
+    sortTree(roots);
+    return roots;
+  }
+
+  /**
+   * Depth-first flattening of a deck tree, for list rendering
+   */
+  flattenTree(roots: DeckNode[]): DeckNode[] {
+    return roots.flatMap((node) => [node, ...this.flattenTree(node.children)]);
+  }
+
+  // ==================== PRESETS ====================
+
+  /**
+   * Nearest assigned preset walking up the deck path, else the default
+   */
+  resolvePreset(deckPath: string, config: DeckConfig): DeckPreset {
+    const parts = this.normalizePath(deckPath).split(DECK_SEPARATOR);
+    for (let depth = parts.length; depth > 0; depth--) {
+      const presetId = config.assignments[parts.slice(0, depth).join(DECK_SEPARATOR)];
+      const preset = presetId ? config.presets.find((p) => p.id === presetId) : undefined;
+      if (preset) return preset;
+    }
+    return config.presets.find((p) => p.id === DEFAULT_PRESET_ID) ?? DEFAULT_PRESET;
+  }
+
+  /**
+   * Retention target and interval cap to pass to scheduleNextReviewFSRS
+   */
+  getSchedulingOverrides(card: Pick<Flashcard, 'category'>, config: DeckConfig): SchedulingOverrides {
+    const preset = this.resolvePreset(this.getDeckPath(card), config);
+    return {
+      requestRetention: preset.requestRetention,
+      maximumInterval: preset.maximumInterval,
+    };
+  }
+
+  async getDeckConfig(userId?: string): Promise<DeckConfig> {
+    try {
+      const uid = await resolveUserId(userId);
+      const raw = await this.storage.getItem(DeckService.CONFIG_KEY_PREFIX + uid);
+      const parsed = parseStored<DeckConfig>(raw);
+      if (!parsed || !Array.isArray(parsed.presets)) return this.getDefaultConfig();
+      if (!parsed.presets.some((p) => p.id === DEFAULT_PRESET_ID)) {
+        parsed.presets.unshift({ ...DEFAULT_PRESET });
+      }
+      return { presets: parsed.presets, assignments: parsed.assignments ?? {} };
+    } catch (error) {
+      console.warn('Failed to load deck config:', error);
+      return this.getDefaultConfig();
+    }
+  }
+
+  async saveDeckConfig(config: DeckConfig, userId?: string): Promise<void> {
+    for (const preset of config.presets) {
+      const error = this.validatePreset(preset);
+      if (error) throw new Error(`Invalid preset "${preset.name}": ${error}`);
+    }
+    const uid = await resolveUserId(userId);
+    await this.storage.setItem(DeckService.CONFIG_KEY_PREFIX + uid, config);
+  }
+
+  /**
+   * Give a deck (and, by inheritance, its subdecks) its own copy of the
+   * preset it currently resolves to, updated with `changes`
+   */
+  async updateDeckPreset(
+    deckPath: string,
+    changes: Partial<Omit<DeckPreset, 'id'>>,
+    userId?: string,
+  ): Promise<DeckConfig> {
+    const config = await this.getDeckConfig(userId);
+    const path = this.normalizePath(deckPath);
+    const assignedId = config.assignments[path];
+    const current = this.resolvePreset(path, config);
+
+    let presets: DeckPreset[];
+    let presetId: string;
+    if (assignedId && assignedId !== DEFAULT_PRESET_ID) {
+      presetId = assignedId;
+      presets = config.presets.map((p) => (p.id === assignedId ? { ...p, ...changes } : p));
+    } else {
+      presetId = `preset_${Date.now()}`;
+      presets = [...config.presets, { ...current, name: path, ...changes, id: presetId }];
+    }
+
+    const updated: DeckConfig = {
+      presets,
+      assignments: { ...config.assignments, [path]: presetId },
+    };
+    await this.saveDeckConfig(updated, userId);
+    return updated;
+  }
+
+  validatePreset(preset: DeckPreset): string | null {
+    if (!(preset.requestRetention >= 0.7 && preset.requestRetention <= 0.99)) {
+      return 'target retention must be between 0.70 and 0.99';
+    }
+    if (!(preset.maximumInterval >= 1)) return 'maximum interval must be at least 1 day';
+    if (!(preset.newCardsPerDay >= 0) || !(preset.reviewsPerDay >= 0)) {
+      return 'daily limits cannot be negative';
+    }
+    return null;
+  }
+
+  // ==================== DUE CARDS ====================
+
+  /**
+   * Cards reviewed today per leaf deck, split into new and review, from the
+   * review-log store. Each card counts once per day.
+   */
+  getStudiedToday(
+    logs: FSRSReviewLog[],
+    cards: Flashcard[],
+    date: Date = new Date(),
+  ): StudiedToday {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    const cardsById = new Map(cards.map((card) => [card.id, card]));
+
+    const firstToday = new Map<string, FSRSReviewLog>();
+    for (const log of logs) {
+      if (!log.card_id || new Date(log.review) < startOfDay) continue;
+      const previous = firstToday.get(log.card_id);
+      if (!previous || new Date(log.review) < new Date(previous.review)) {
+        firstToday.set(log.card_id, log);
+      }
+    }
+
+    const day = this.dayKey(date);
+    const studied: StudiedToday = {};
+    firstToday.forEach((log, cardId) => {
+      const card = cardsById.get(cardId);
+      if (!card) return;
+      this.addStudied(studied, this.getDeckPath(card), cardId, log.state === CardState.New, day);
+    });
+    return studied;
+  }
+
+  /**
+   * Count a card reviewed just now, e.g. right after rating it. A card counts
+   * once a day however often it comes back; counts from an earlier day are
+   * dropped.
+   */
+  recordStudied(
+    studied: StudiedToday,
+    card: Flashcard,
+    wasNew: boolean,
+    date: Date = new Date(),
+  ): StudiedToday {
+    const day = this.dayKey(date);
+    const deckPath = this.getDeckPath(card);
+    const current = studied[deckPath];
+    if (current?.day === day && current.cardIds?.includes(card.id)) return studied;
+
+    const next: StudiedToday = {};
+    for (const [path, entry] of Object.entries(studied)) {
+      if (entry.day === day) next[path] = entry;
+    }
+    this.addStudied(next, deckPath, card.id, wasNew, day);
+    return next;
+  }
+
+  /**
+   * Due cards limited by each deck's daily new/review limits, optionally
+   * restricted to a deck subtree
+   */
+  getDueCards(
+    cards: Flashcard[],
+    config: DeckConfig,
+    studiedToday: StudiedToday = {},
+    deckPath?: string | null,
+  ): Flashcard[] {
+    const scope = deckPath ? cards.filter((card) => this.isInSubtree(card, deckPath)) : cards;
+    const normalized = scope.map((card) => ({ ...card, category: this.getDeckPath(card) }));
+    const dueIds = new Set(
+      this.srs
+        .getDueCards(normalized, {
+          getLimits: (path) => this.resolvePreset(path, config),
+          studiedToday,
+        })
+        .map((card: Flashcard) => card.id),
+    );
+    return scope.filter((card) => dueIds.has(card.id));
+  }
+
+  private addStudied(
+    studied: StudiedToday,
+    deckPath: string,
+    cardId: string,
+    wasNew: boolean,
+    day: string,
+  ): void {
+    const previous = studied[deckPath];
+    const entry = {
+      newCards: previous?.newCards ?? 0,
+      reviews: previous?.reviews ?? 0,
+      cardIds: [...(previous?.cardIds ?? []), cardId],
+      day,
+    };
+    if (wasNew) entry.newCards += 1;
+    else entry.reviews += 1;
+    studied[deckPath] = entry;
+  }
+
+  private dayKey(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private getDefaultConfig(): DeckConfig {
+    return { presets: [{ ...DEFAULT_PRESET }], assignments: {} };
+  }
+}
+
+export default DeckService;
@@ -0,0 +1,101 @@
+import DistractionPatternService from './DistractionPatternService';
+import { FocusSession } from '../storage/StorageService';
+
+const sessions: FocusSession[] = [];
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getFocusSessions: async () => sessions }) },
+}));
+
+const at = (daysAgo: number, hour: number, minute = 0): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, minute, 0, 0);
+  return date;
+};
+
+// Evening Todoist sessions break down after 20 minutes on Instagram
+// notifications; morning logic sessions stay clean
+const session = (daysAgo: number, evening: boolean): FocusSession => {
+  const startTime = at(daysAgo, evening ? 19 : 10);
+  const id = `session_${daysAgo}`;
+  return {
+    id,
+    taskId: evening ? 'task_123' : 'logic_7',
+    startTime,
+    endTime: new Date(startTime.getTime() + 40 * 60000),
+    durationMinutes: 40,
+    plannedDurationMinutes: 40,
+    distractionCount: evening ? 3 : 0,
+    distractionEvents: (evening ? [22, 26, 35] : []).map((minute, i) => ({
+      id: `${id}_${i}`,
+      sessionId: id,
+      timestamp: new Date(startTime.getTime() + minute * 60000),
+      reason: 'Phone notification',
+      severity: 3,
+      triggerType: 'notification',
+      appName: 'Instagram',
+    })),
+    selfReportFocus: evening ? 3 : 5,
+    completionRate: 1,
+    cognitiveLoadStart: 0.5,
+    focusLockUsed: true,
+    created: startTime,
+    modified: startTime,
+  };
+};
+
+describe('DistractionPatternService', () => {
+  const service = DistractionPatternService.getInstance();
+
+  beforeAll(() => {
+    for (let daysAgo = 10; daysAgo >= 1; daysAgo--) sessions.push(session(daysAgo, daysAgo % 2 === 1));
+  });
+
+  it('mines the conditions and apps distractions recur under', async () => {
+    const report = await service.minePatterns();
+
+    expect(report.sessionsAnalyzed).toBe(10);
+    expect(report.distractionsAnalyzed).toBe(15);
+    const keys = report.patterns.map((pattern) => `${pattern.dimension}:${pattern.key}`);
+    expect(keys).toEqual(
+      expect.arrayContaining([
+        'time_of_day:evening',
+        'task_category:task',
+        'session_minute:20-30',
+        'trigger:notification: Instagram',
+      ]),
+    );
+    expect(keys).not.toContain('time_of_day:morning');
+
+    const instagram = report.dimensions.trigger[0]!;
+    expect(instagram).toMatchObject({ key: 'notification: Instagram', distractions: 15, share: 1 });
+    expect(instagram.topReasons).toEqual(['Phone notification']);
+  });
+
+  it('forecasts more risk for sessions like the distracted ones, with countermeasures', async () => {
+    const evening = await service.forecastRisk({
+      startTime: at(0, 19),
+      plannedDurationMinutes: 40,
+      taskId: 'task_456',
+    });
+    const morning = await service.forecastRisk({
+      startTime: at(0, 10),
+      plannedDurationMinutes: 40,
+      taskId: 'logic_8',
+    });
+
+    expect(evening.probability).toBeGreaterThan(morning.probability);
+    expect(evening.drivers.map((pattern) => pattern.key)).toEqual(
+      expect.arrayContaining(['evening', 'task']),
+    );
+    expect(evening.countermeasures).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ kind: 'shorter_block', minutes: 20 }),
+        expect.objectContaining({ kind: 'different_hour', hour: 9 }),
+        expect.objectContaining({ kind: 'soundscape', preset: 'deep_focus' }),
+      ]),
+    );
+  });
+});
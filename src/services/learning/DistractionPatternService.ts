@@ -0,0 +1,538 @@
+import StorageService, {
+  DistractionEvent,
+  FocusSession,
+} from '../storage/StorageService';
+import { SoundscapeType } from './CognitiveSoundscapeEngine';
+
+/**
+ * Distraction Pattern Service - Trigger mining and risk forecasting
+ *
+ * Mines stored focus sessions for conditions under which distractions
+ * recur (time of day, task category, minute within the session and what
+ * preceded the session), forecasts the distraction risk of an upcoming
+ * session and turns the strongest patterns into countermeasures.
+ *
+ * Rates are distractions per focused hour, smoothed toward the overall rate
+ * so that a bucket seen once does not dominate.
+ */
+
+export type DistractionDimension =
+  | 'time_of_day'
+  | 'task_category'
+  | 'session_minute'
+  | 'preceding_context'
+  | 'trigger';
+
+export type TimeOfDayBucket = 'early_morning' | 'morning' | 'afternoon' | 'evening' | 'night';
+export type FocusTaskCategory = 'task' | 'node' | 'logic' | 'flashcard';
+export type PrecedingContext = 'back_to_back' | 'after_rough_session' | 'after_long_gap' | 'fresh';
+
+export interface DistractionPattern {
+  dimension: DistractionDimension;
+  key: string;
+  label: string;
+  distractions: number;
+  sessions: number; // Sessions that were exposed to this condition
+  exposureMinutes: number;
+  rate: number; // Smoothed distractions per focused hour
+  lift: number; // rate / overall rate
+  share: number; // Share of all distractions
+  averageSeverity: number;
+  topReasons: string[];
+}
+
+export interface DistractionPatternReport {
+  generatedAt: Date;
+  sessionsAnalyzed: number;
+  distractionsAnalyzed: number;
+  baselineRate: number; // Distractions per focused hour across all sessions
+  cascadeShare: number; // Share of distractions within 5 min of the previous one
+  patterns: DistractionPattern[]; // Recurring triggers, strongest first
+  dimensions: Record<DistractionDimension, DistractionPattern[]>;
+}
+
+export interface UpcomingSession {
+  startTime?: Date;
+  plannedDurationMinutes: number;
+  taskId?: string;
+}
+
+export type DistractionCountermeasure =
+  | { kind: 'shorter_block'; minutes: number; reason: string }
+  | { kind: 'different_hour'; hour: number; reason: string }
+  | { kind: 'soundscape'; preset: SoundscapeType; reason: string }
+  | { kind: 'take_break'; minutes: number; reason: string };
+
+export interface DistractionRiskForecast {
+  expectedDistractions: number;
+  probability: number; // Chance of at least one distraction
+  level: 'low' | 'medium' | 'high';
+  drivers: DistractionPattern[]; // Matching patterns that raise the risk
+  countermeasures: DistractionCountermeasure[];
+  confidence: number; // 0-1, grows with the sessions analyzed
+}
+
+const TIME_OF_DAY_BUCKETS: { key: TimeOfDayBucket; label: string; startHour: number; endHour: number }[] = [
+  { key: 'early_morning', label: 'Early morning (5-9)', startHour: 5, endHour: 9 },
+  { key: 'morning', label: 'Morning (9-12)', startHour: 9, endHour: 12 },
+  { key: 'afternoon', label: 'Afternoon (12-17)', startHour: 12, endHour: 17 },
+  { key: 'evening', label: 'Evening (17-21)', startHour: 17, endHour: 21 },
+  { key: 'night', label: 'Night (21-5)', startHour: 21, endHour: 29 },
+];
+
+const CONTEXT_LABELS: Record<PrecedingContext, string> = {
+  back_to_back: 'Back-to-back with the previous session',
+  after_rough_session: 'After a distracted session',
+  after_long_gap: 'First session after a long gap',
+  fresh: 'Rested start',
+};
+
+const CATEGORY_LABELS: Record<FocusTaskCategory, string> = {
+  task: 'Todoist tasks',
+  node: 'Neural map nodes',
+  logic: 'Logic training',
+  flashcard: 'Flashcards',
+};
+
+const MINUTE_BUCKET_SIZE = 10;
+const BACK_TO_BACK_MINUTES = 15;
+const LONG_GAP_HOURS = 8;
+const CASCADE_MINUTES = 5;
+const SMOOTHING_HOURS = 1; // Pseudo-exposure at the baseline rate
+const MIN_PATTERN_DISTRACTIONS = 3;
+const PATTERN_LIFT = 1.25;
+const TRIGGER_SHARE = 0.25; // A trigger recurs if it causes this share of distractions
+const ANALYSIS_WINDOW_DAYS = 90;
+const SIMILARITY_WEIGHT = 3; // Weight multiplier per condition shared with the upcoming session
+
+export class DistractionPatternService {
+  private static instance: DistractionPatternService;
+  private storageService: StorageService;
+
+  // Mining is cheap but not free; reuse the report until sessions change
+  private cachedReport: {
+    signature: string;
+    report: DistractionPatternReport;
+    profiles: SessionProfile[];
+  } | null = null;
+
+  public static getInstance(): DistractionPatternService {
+    if (!DistractionPatternService.instance) {
+      DistractionPatternService.instance = new DistractionPatternService();
+    }
+    return DistractionPatternService.instance;
+  }
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+  }
+
+  /**
+   * Mine the last 90 days of focus sessions for recurring triggers
+   */
+  public async minePatterns(): Promise<DistractionPatternReport> {
+    return (await this.mine()).report;
+  }
+
+  private async mine(): Promise<{ report: DistractionPatternReport; profiles: SessionProfile[] }> {
+    const cutoff = Date.now() - ANALYSIS_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    const sessions = (await this.storageService.getFocusSessions())
+      .map(reviveSession)
+      .filter((session) => session.startTime.getTime() >= cutoff)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    const last = sessions[sessions.length - 1];
+    const signature = `${sessions.length}:${last?.id ?? ''}:${last?.distractionEvents.length ?? 0}`;
+    if (this.cachedReport?.signature === signature) {
+      return this.cachedReport;
+    }
+
+    const profiles = sessions.map((session, index) => ({
+      timeOfDay: timeOfDayBucket(session.startTime).key,
+      category: categoriseFocusTask(session.taskId),
+      context: precedingContext(session.startTime, sessions[index - 1]),
+      minutes: Math.max(1, session.durationMinutes),
+      distractions: session.distractionEvents.length,
+    }));
+    const report = this.buildReport(sessions, profiles);
+    this.cachedReport = { signature, report, profiles };
+    console.log(
+      `🔍 Distraction patterns mined: ${report.patterns.length} from ${report.sessionsAnalyzed} sessions`,
+    );
+    return this.cachedReport;
+  }
+
+  /**
+   * Forecast the distraction risk of a session about to start and suggest
+   * countermeasures for the patterns it would run into
+   */
+  public async forecastRisk(upcoming: UpcomingSession): Promise<DistractionRiskForecast> {
+    const { report, profiles } = await this.mine();
+    const startTime = upcoming.startTime ?? new Date();
+    const minutes = Math.max(1, upcoming.plannedDurationMinutes);
+
+    const previous = (await this.storageService.getFocusSessions())
+      .map(reviveSession)
+      .filter((session) => session.endTime.getTime() <= startTime.getTime())
+      .sort((a, b) => b.endTime.getTime() - a.endTime.getTime())[0];
+
+    const conditions = {
+      timeOfDay: timeOfDayBucket(startTime).key,
+      category: upcoming.taskId ? categoriseFocusTask(upcoming.taskId) : undefined,
+      context: precedingContext(startTime, previous),
+    };
+
+    // Conditions overlap (afternoon sessions tend to be logic sessions), so
+    // rather than multiplying lifts, take the rate of past sessions weighted
+    // by how many conditions they share with this one
+    let weightedDistractions = SMOOTHING_HOURS * report.baselineRate;
+    let weightedHours = SMOOTHING_HOURS;
+    let weightedMinutes = 0;
+    let totalWeight = 0;
+    profiles.forEach((profile) => {
+      const shared =
+        Number(profile.timeOfDay === conditions.timeOfDay) +
+        Number(profile.category === conditions.category) +
+        Number(profile.context === conditions.context);
+      const weight = Math.pow(SIMILARITY_WEIGHT, shared);
+      weightedDistractions += weight * profile.distractions;
+      weightedHours += (weight * profile.minutes) / 60;
+      weightedMinutes += weight * profile.minutes;
+      totalWeight += weight;
+    });
+    const rate = weightedDistractions / weightedHours;
+
+    // Past rates cover sessions of their own length; rescale by how risky
+    // the minutes this session spans are compared with theirs
+    const typicalMinutes = totalWeight > 0 ? weightedMinutes / totalWeight : minutes;
+    const minuteFactor =
+      this.minuteLift(report, minutes) / this.minuteLift(report, typicalMinutes);
+
+    const expectedDistractions = rate * (minutes / 60) * minuteFactor;
+    const probability = 1 - Math.exp(-expectedDistractions);
+
+    const find = (dimension: DistractionDimension, key: string | undefined) =>
+      report.dimensions[dimension].find((pattern) => pattern.key === key);
+    const drivers = [
+      find('time_of_day', conditions.timeOfDay),
+      find('task_category', conditions.category),
+      find('preceding_context', conditions.context),
+    ].filter((pattern): pattern is DistractionPattern => pattern !== undefined && pattern.lift > 1);
+
+    return {
+      expectedDistractions: Math.round(expectedDistractions * 100) / 100,
+      probability: Math.round(probability * 100) / 100,
+      level: probability >= 0.65 ? 'high' : probability >= 0.35 ? 'medium' : 'low',
+      drivers: drivers.sort((a, b) => b.lift - a.lift),
+      countermeasures: this.recommendCountermeasures(report, startTime, minutes, previous),
+      confidence: Math.min(1, report.sessionsAnalyzed / 20),
+    };
+  }
+
+  /**
+   * Average session-minute lift over the first `minutes` of a session
+   */
+  private minuteLift(report: DistractionPatternReport, minutes: number): number {
+    const buckets = report.dimensions.session_minute;
+    if (buckets.length === 0 || minutes <= 0) return 1;
+
+    let weighted = 0;
+    for (let start = 0; start < minutes; start += MINUTE_BUCKET_SIZE) {
+      const overlap = Math.min(MINUTE_BUCKET_SIZE, minutes - start);
+      const bucket = buckets.find((pattern) => pattern.key === minuteBucketKey(start));
+      weighted += overlap * (bucket?.lift ?? 1);
+    }
+    return Math.max(0.05, weighted / minutes);
+  }
+
+  private buildReport(
+    sessions: FocusSession[],
+    profiles: SessionProfile[],
+  ): DistractionPatternReport {
+    const tallies = new Map<string, Tally>();
+    const tally = (dimension: DistractionDimension, key: string, label: string): Tally => {
+      const id = `${dimension}:${key}`;
+      let entry = tallies.get(id);
+      if (!entry) {
+        entry = { dimension, key, label, distractions: 0, sessions: 0, exposureMinutes: 0, severity: 0, reasons: new Map() };
+        tallies.set(id, entry);
+      }
+      return entry;
+    };
+
+    let totalMinutes = 0;
+    let totalDistractions = 0;
+    let cascades = 0;
+
+    sessions.forEach((session, index) => {
+      const minutes = Math.max(1, session.durationMinutes);
+      const events = [...session.distractionEvents].sort(
+        (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+      );
+      totalMinutes += minutes;
+      totalDistractions += events.length;
+
+      // Session-level conditions: the whole session is exposed
+      const { timeOfDay, category, context } = profiles[index]!;
+      const sessionTallies = [
+        tally('time_of_day', timeOfDay, TIME_OF_DAY_BUCKETS.find((b) => b.key === timeOfDay)!.label),
+        tally('task_category', category, CATEGORY_LABELS[category]),
+        tally('preceding_context', context, CONTEXT_LABELS[context]),
+      ];
+      sessionTallies.forEach((entry) => {
+        entry.sessions++;
+        entry.exposureMinutes += minutes;
+        events.forEach((event) => addEvent(entry, event));
+      });
+
+      // Minute buckets: each is exposed for the part of the session inside it
+      for (let start = 0; start < minutes; start += MINUTE_BUCKET_SIZE) {
+        const entry = tally('session_minute', minuteBucketKey(start), `Minutes ${start}-${start + MINUTE_BUCKET_SIZE}`);
+        entry.sessions++;
+        entry.exposureMinutes += Math.min(MINUTE_BUCKET_SIZE, minutes - start);
+      }
+
+      events.forEach((event, i) => {
+        const minute = Math.max(
+          0,
+          Math.min(minutes - 1, (event.timestamp.getTime() - session.startTime.getTime()) / 60000),
+        );
+        const start = Math.floor(minute / MINUTE_BUCKET_SIZE) * MINUTE_BUCKET_SIZE;
+        addEvent(tally('session_minute', minuteBucketKey(start), `Minutes ${start}-${start + MINUTE_BUCKET_SIZE}`), event);
+
+        const trigger = triggerKey(event);
+        const triggerTally = tally('trigger', trigger, trigger);
+        addEvent(triggerTally, event);
+
+        const prev = events[i - 1];
+        if (prev && event.timestamp.getTime() - prev.timestamp.getTime() <= CASCADE_MINUTES * 60000) {
+          cascades++;
+        }
+      });
+    });
+
+    // Triggers can strike at any time, so all focused time is their exposure
+    tallies.forEach((entry) => {
+      if (entry.dimension === 'trigger') {
+        entry.sessions = sessions.length;
+        entry.exposureMinutes = totalMinutes;
+      }
+    });
+
+    const baselineRate = totalMinutes > 0 ? totalDistractions / (totalMinutes / 60) : 0;
+    const dimensions: Record<DistractionDimension, DistractionPattern[]> = {
+      time_of_day: [],
+      task_category: [],
+      session_minute: [],
+      preceding_context: [],
+      trigger: [],
+    };
+
+    tallies.forEach((entry) => {
+      const hours = entry.exposureMinutes / 60;
+      const rate = (entry.distractions + SMOOTHING_HOURS * baselineRate) / (hours + SMOOTHING_HOURS);
+      const lift = baselineRate > 0 ? rate / baselineRate : 1;
+
+      dimensions[entry.dimension].push({
+        dimension: entry.dimension,
+        key: entry.key,
+        label: entry.label,
+        distractions: entry.distractions,
+        sessions: entry.sessions,
+        exposureMinutes: Math.round(entry.exposureMinutes),
+        rate: Math.round(rate * 100) / 100,
+        lift: Math.round(lift * 100) / 100,
+        share: totalDistractions > 0 ? Math.round((entry.distractions / totalDistractions) * 100) / 100 : 0,
+        averageSeverity:
+          entry.distractions > 0 ? Math.round((entry.severity / entry.distractions) * 10) / 10 : 0,
+        topReasons: Array.from(entry.reasons.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 3)
+          .map(([reason]) => reason),
+      });
+    });
+
+    dimensions.session_minute.sort((a, b) => minuteBucketStart(a.key) - minuteBucketStart(b.key));
+    (['time_of_day', 'task_category', 'preceding_context'] as const).forEach((dimension) =>
+      dimensions[dimension].sort((a, b) => b.lift - a.lift),
+    );
+    dimensions.trigger.sort((a, b) => b.distractions - a.distractions);
+
+    const patterns = (Object.keys(dimensions) as DistractionDimension[])
+      .flatMap((dimension) => dimensions[dimension])
+      .filter(
+        (pattern) =>
+          pattern.distractions >= MIN_PATTERN_DISTRACTIONS &&
+          (pattern.dimension === 'trigger'
+            ? pattern.share >= TRIGGER_SHARE
+            : pattern.sessions >= 2 && pattern.lift >= PATTERN_LIFT),
+      )
+      .sort((a, b) => b.distractions * b.lift - a.distractions * a.lift);
+
+    return {
+      generatedAt: new Date(),
+      sessionsAnalyzed: sessions.length,
+      distractionsAnalyzed: totalDistractions,
+      baselineRate: Math.round(baselineRate * 100) / 100,
+      cascadeShare: totalDistractions > 0 ? Math.round((cascades / totalDistractions) * 100) / 100 : 0,
+      patterns,
+      dimensions,
+    };
+  }
+
+  private recommendCountermeasures(
+    report: DistractionPatternReport,
+    startTime: Date,
+    minutes: number,
+    previous: FocusSession | undefined,
+  ): DistractionCountermeasure[] {
+    const countermeasures: DistractionCountermeasure[] = [];
+
+    // Shorter block: stop before the first minute bucket where focus breaks down
+    const risingBucket = report.dimensions.session_minute.find(
+      (pattern) =>
+        minuteBucketStart(pattern.key) >= 15 &&
+        minuteBucketStart(pattern.key) < minutes &&
+        pattern.lift >= PATTERN_LIFT &&
+        pattern.distractions >= MIN_PATTERN_DISTRACTIONS,
+    );
+    if (risingBucket) {
+      const cutoff = minuteBucketStart(risingBucket.key);
+      countermeasures.push({
+        kind: 'shorter_block',
+        minutes: cutoff,
+        reason: `Distractions jump ${Math.round((risingBucket.lift - 1) * 100)}% after minute ${cutoff}`,
+      });
+    }
+
+    // Different hour: move out of a bad time of day into the best one seen
+    const current = report.dimensions.time_of_day.find(
+      (pattern) => pattern.key === timeOfDayBucket(startTime).key,
+    );
+    const best = report.dimensions.time_of_day
+      .filter((pattern) => pattern.sessions >= 2)
+      .sort((a, b) => a.lift - b.lift)[0];
+    if (current && best && current.lift >= PATTERN_LIFT && best.lift < 1 && best.key !== current.key) {
+      const bucket = TIME_OF_DAY_BUCKETS.find((b) => b.key === best.key)!;
+      countermeasures.push({
+        kind: 'different_hour',
+        hour: bucket.startHour % 24,
+        reason: `${best.label} sessions see ${Math.round((1 - best.lift / current.lift) * 100)}% fewer distractions than ${current.label.toLowerCase()}`,
+      });
+    }
+
+    // Back-to-back sessions that tend to go badly: rest first
+    const context = precedingContext(startTime, previous);
+    const contextPattern = report.dimensions.preceding_context.find((pattern) => pattern.key === context);
+    if (
+      (context === 'back_to_back' || context === 'after_rough_session') &&
+      contextPattern &&
+      contextPattern.lift >= PATTERN_LIFT
+    ) {
+      countermeasures.push({
+        kind: 'take_break',
+        minutes: 10,
+        reason: `${contextPattern.label} runs ${Math.round((contextPattern.lift - 1) * 100)}% more distracted`,
+      });
+    }
+
+    // Soundscape: mask external noise, settle internal restlessness
+    const topTrigger = report.dimensions.trigger[0];
+    if (
+      topTrigger &&
+      topTrigger.distractions >= MIN_PATTERN_DISTRACTIONS &&
+      topTrigger.share >= TRIGGER_SHARE
+    ) {
+      const internal = topTrigger.key.startsWith('internal');
+      const percent = Math.round(topTrigger.share * 100);
+      countermeasures.push({
+        kind: 'soundscape',
+        preset: internal ? 'calm_readiness' : 'deep_focus',
+        reason: internal
+          ? `${percent}% of distractions come from within; alpha waves help settle`
+          : `${percent}% of distractions are ${topTrigger.label} triggers; deep focus masks the surroundings`,
+      });
+    }
+
+    return countermeasures;
+  }
+}
+
+interface SessionProfile {
+  timeOfDay: TimeOfDayBucket;
+  category: FocusTaskCategory;
+  context: PrecedingContext;
+  minutes: number;
+  distractions: number;
+}
+
+interface Tally {
+  dimension: DistractionDimension;
+  key: string;
+  label: string;
+  distractions: number;
+  sessions: number;
+  exposureMinutes: number;
+  severity: number;
+  reasons: Map<string, number>;
+}
+
+function addEvent(entry: Tally, event: DistractionEvent): void {
+  entry.distractions++;
+  entry.severity += event.severity ?? 3;
+  if (event.reason) {
+    entry.reasons.set(event.reason, (entry.reasons.get(event.reason) ?? 0) + 1);
+  }
+}
+
+/**
+ * Category of the target a focus session was started on (see the focus
+ * target ids built by AdaptiveFocusScreen)
+ */
+export function categoriseFocusTask(taskId: string): FocusTaskCategory {
+  if (taskId.startsWith('node_')) return 'node';
+  if (taskId.startsWith('logic_')) return 'logic';
+  if (taskId.includes('flashcard')) return 'flashcard';
+  return 'task';
+}
+
+function timeOfDayBucket(date: Date): (typeof TIME_OF_DAY_BUCKETS)[number] {
+  const hour = date.getHours() < 5 ? date.getHours() + 24 : date.getHours();
+  return TIME_OF_DAY_BUCKETS.find((bucket) => hour >= bucket.startHour && hour < bucket.endHour)!;
+}
+
+function precedingContext(startTime: Date, previous: FocusSession | undefined): PrecedingContext {
+  if (!previous) return 'after_long_gap';
+  const gapMinutes = (startTime.getTime() - previous.endTime.getTime()) / 60000;
+  if (gapMinutes >= LONG_GAP_HOURS * 60) return 'after_long_gap';
+  if (previous.distractionCount >= 3 || previous.selfReportFocus <= 2) return 'after_rough_session';
+  if (gapMinutes <= BACK_TO_BACK_MINUTES) return 'back_to_back';
+  return 'fresh';
+}
+
+function triggerKey(event: DistractionEvent): string {
+  const type = event.triggerType ?? 'unknown';
+  return event.appName ? `${type}: ${event.appName}` : type;
+}
+
+function minuteBucketKey(start: number): string {
+  return `${start}-${start + MINUTE_BUCKET_SIZE}`;
+}
+
+function minuteBucketStart(key: string): number {
+  return parseInt(key, 10);
+}
+
+function reviveSession(session: FocusSession): FocusSession {
+  return {
+    ...session,
+    startTime: new Date(session.startTime),
+    endTime: new Date(session.endTime),
+    distractionEvents: (session.distractionEvents ?? []).map((event) => ({
+      ...event,
+      timestamp: new Date(event.timestamp),
+    })),
+  };
+}
+
+export default DistractionPatternService;
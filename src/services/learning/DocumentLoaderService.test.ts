@@ -0,0 +1,89 @@
+import DocumentLoaderService from './DocumentLoaderService';
+
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({}) },
+}));
+
+// Minimal uncompressed PDF; objects are written in the order given, so tests
+// can place pages out of reading order
+const buildPdf = (objects: Array<[number, string]>, root: number): Uint8Array => {
+  const body = objects.map(([id, value]) => `${id} 0 obj\n${value}\nendobj\n`).join('');
+  const text = `%PDF-1.7\n${body}trailer\n<< /Root ${root} 0 R /Size ${objects.length + 1} >>\n%%EOF\n`;
+  return new Uint8Array(Array.from(text, (char) => char.charCodeAt(0)));
+};
+
+const stream = (content: string) => `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+
+const toUnicodeCMap = [
+  '/CIDInit /ProcSet findresource begin',
+  'begincmap',
+  '1 begincodespacerange',
+  '<0000> <FFFF>',
+  'endcodespacerange',
+  '2 beginbfchar',
+  '<0003> <0020>',
+  '<0010> <0050>',
+  'endbfchar',
+  '1 beginbfrange',
+  '<0020> <0039> <0061>',
+  'endbfrange',
+  'endcmap',
+].join('\n');
+
+// Glyph codes for a CID font whose ToUnicode maps 0x20.. to a..z and 0x10 to P
+const cid = (text: string) =>
+  Array.from(text, (char) => {
+    if (char === ' ') return '0003';
+    if (char === 'P') return '0010';
+    return (char.charCodeAt(0) - 0x61 + 0x20).toString(16).padStart(4, '0');
+  }).join('');
+
+describe('DocumentLoaderService PDF', () => {
+  const loader = DocumentLoaderService.getInstance();
+
+  it('reads pages in page-tree order with their labels and ToUnicode text', async () => {
+    const data = buildPdf(
+      [
+        // Page objects appear in the file in reverse reading order
+        [9, stream(`BT /F2 12 Tf <${cid('Pthird page decoded through the cmap')}> Tj ET`)],
+        [8, '<< /Type /Page /Parent 4 0 R /Contents 9 0 R >>'],
+        [7, stream('BT /F1 12 Tf (Second page written with a simple font) Tj ET')],
+        [6, '<< /Type /Page /Parent 4 0 R /Contents 7 0 R >>'],
+        [5, stream('BT /F1 12 Tf (First page of the front matter text) Tj ET')],
+        [4, '<< /Type /Pages /Kids [3 0 R 6 0 R 8 0 R] /Count 3 /Resources << /Font << /F1 10 0 R /F2 11 0 R >> >> >>'],
+        [3, '<< /Type /Page /Parent 4 0 R /Contents 5 0 R >>'],
+        [10, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'],
+        [11, '<< /Type /Font /Subtype /Type0 /BaseFont /Embedded /Encoding /Identity-H /ToUnicode 12 0 R >>'],
+        [12, stream(toUnicodeCMap)],
+        [1, '<< /Type /Catalog /Pages 4 0 R /PageLabels << /Nums [0 << /S /r >> 1 << /S /D /P (p.) >>] >> >>'],
+      ],
+      1,
+    );
+
+    const document = await loader.loadDocument({ format: 'pdf', fileName: 'book.pdf', data });
+
+    expect(document.chapters).toHaveLength(1);
+    expect(document.chapters[0]!.title).toBe('Pages i–p.2');
+    const text = document.chapters[0]!.text;
+    expect(text.indexOf('First page')).toBeLessThan(text.indexOf('Second page'));
+    expect(text.indexOf('Second page')).toBeLessThan(text.indexOf('Pthird page decoded through the cmap'));
+  });
+
+  it('rejects CID fonts that have no ToUnicode map', async () => {
+    const data = buildPdf(
+      [
+        [1, '<< /Type /Catalog /Pages 2 0 R >>'],
+        [2, '<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+        [3, '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>'],
+        [4, stream(`BT /F1 12 Tf <${cid('glyph codes without any unicode mapping')}> Tj ET`)],
+        [5, '<< /Type /Font /Subtype /Type0 /BaseFont /Embedded /Encoding /Identity-H >>'],
+      ],
+      1,
+    );
+
+    await expect(loader.loadDocument({ format: 'pdf', fileName: 'cid.pdf', data })).rejects.toThrow(
+      /CID fonts without a Unicode map/,
+    );
+  });
+});
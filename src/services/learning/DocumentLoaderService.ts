@@ -0,0 +1,1147 @@
+/**
+ * DocumentLoaderService - EPUB, Markdown and PDF text for speed reading
+ *
+ * Turns a document file into plain-text chapters that SpeedReadingService
+ * can process one at a time:
+ * - EPUB: spine order, chapter titles from the nav document or toc.ncx
+ * - Markdown: one chapter per H1/H2 heading, deeper headings kept as breaks
+ * - PDF: text of each page in page-tree order, grouped into page ranges
+ *   titled with the printed page labels (scanned PDFs, and CID fonts
+ *   without a Unicode map, have no extractable text and are rejected)
+ *
+ * The reading position (chapter + word) is persisted per document so a long
+ * book can be resumed where it was left.
+ */
+
+import JSZip from 'jszip';
+import pako from 'pako';
+import HybridStorageService from '../storage/HybridStorageService';
+import { parseStored, resolveUserId } from '../storage/storedValues';
+
+export type DocumentFormat = 'epub' | 'md' | 'pdf' | 'txt';
+
+export interface DocumentChapter {
+  index: number;
+  title: string;
+  text: string;
+  wordCount: number;
+}
+
+export interface DocumentTocEntry {
+  title: string;
+  chapterIndex: number;
+  level: number; // 1 = top level
+}
+
+export interface LoadedDocument {
+  id: string; // Stable for the same file, used for resume positions
+  title: string;
+  author?: string;
+  format: DocumentFormat;
+  fileName: string;
+  chapters: DocumentChapter[];
+  toc: DocumentTocEntry[];
+  wordCount: number;
+  loadedAt: Date;
+}
+
+export interface ReadingPosition {
+  documentId: string;
+  chapterIndex: number;
+  wordIndex: number;
+  updated: Date;
+}
+
+export type DocumentSource =
+  | { format: 'epub' | 'pdf'; fileName: string; data: Uint8Array }
+  | { format: 'md' | 'txt'; fileName: string; text: string };
+
+// PDFs have no reliable chapter structure, so pages are read in ranges
+const PDF_PAGES_PER_SECTION = 10;
+
+// Indirect object: its value (dictionary, array, ...) and decoded stream data
+interface PdfObject {
+  value: string;
+  stream?: Uint8Array;
+}
+
+// Font string decoder: a ToUnicode mapping, null when the font's codes can't
+// be mapped to text (CID fonts without ToUnicode), undefined for simple fonts
+type PdfFontDecoder = ((bytes: string) => string) | null | undefined;
+const SOURCE_REF_PREFIX = 'document:';
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’',
+  ldquo: '“', rdquo: '”', shy: '', copy: '©', reg: '®', deg: '°',
+};
+
+export class DocumentLoaderService {
+  private static instance: DocumentLoaderService;
+  private hybridStorage: HybridStorageService;
+
+  private static readonly POSITIONS_KEY_PREFIX = '@neurolearn/reading_positions_';
+
+  private constructor() {
+    this.hybridStorage = HybridStorageService.getInstance();
+  }
+
+  public static getInstance(): DocumentLoaderService {
+    if (!DocumentLoaderService.instance) {
+      DocumentLoaderService.instance = new DocumentLoaderService();
+    }
+    return DocumentLoaderService.instance;
+  }
+
+  detectFormat(fileName: string): DocumentFormat | null {
+    const extension = fileName.toLowerCase().split('.').pop();
+    switch (extension) {
+      case 'epub':
+        return 'epub';
+      case 'md':
+      case 'markdown':
+        return 'md';
+      case 'pdf':
+        return 'pdf';
+      case 'txt':
+        return 'txt';
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Parse a document into chapters. Throws with a readable message when the
+   * file has no readable text.
+   */
+  async loadDocument(source: DocumentSource): Promise<LoadedDocument> {
+    const fallbackTitle = source.fileName.replace(/\.[^.]+$/, '') || 'Untitled Document';
+    let parsed: { title?: string; author?: string; chapters: DocumentChapter[]; toc: DocumentTocEntry[] };
+
+    switch (source.format) {
+      case 'epub':
+        parsed = await this.parseEpub(source.data);
+        break;
+      case 'pdf':
+        parsed = this.parsePdf(source.data);
+        break;
+      case 'md':
+        parsed = this.parseMarkdown(source.text);
+        break;
+      default:
+        parsed = this.parsePlainText(source.text);
+    }
+
+    const chapters = parsed.chapters.filter((chapter) => chapter.wordCount > 0);
+    if (chapters.length === 0) throw new Error('No readable text found in this document');
+
+    // Re-index after dropping empty chapters, keeping TOC entries in step
+    const indexMap = new Map(chapters.map((chapter, index) => [chapter.index, index]));
+    const reindexed = chapters.map((chapter, index) => ({ ...chapter, index }));
+    const toc = parsed.toc
+      .filter((entry) => indexMap.has(entry.chapterIndex))
+      .map((entry) => ({ ...entry, chapterIndex: indexMap.get(entry.chapterIndex)! }));
+
+    const wordCount = reindexed.reduce((sum, chapter) => sum + chapter.wordCount, 0);
+    const title = parsed.title?.trim() || fallbackTitle;
+
+    return {
+      id: `doc_${this.hash(`${source.format}|${title}|${wordCount}|${reindexed[0]!.text.slice(0, 500)}`)}`,
+      title,
+      ...(parsed.author ? { author: parsed.author } : {}),
+      format: source.format,
+      fileName: source.fileName,
+      chapters: reindexed,
+      toc: toc.length > 0
+        ? toc
+        : reindexed.map((chapter) => ({ title: chapter.title, chapterIndex: chapter.index, level: 1 })),
+      wordCount,
+      loadedAt: new Date(),
+    };
+  }
+
+  // ==================== READING SOURCES ====================
+
+  /**
+   * Value stored in ReadingSession.textSource for a chapter, e.g. 'document:doc_1a2b#3'
+   */
+  toSourceRef(documentId: string, chapterIndex: number): string {
+    return `${SOURCE_REF_PREFIX}${documentId}#${chapterIndex}`;
+  }
+
+  parseSourceRef(textSource: string): { documentId: string; chapterIndex: number } | null {
+    if (!textSource.startsWith(SOURCE_REF_PREFIX)) return null;
+    const [documentId, chapter] = textSource.slice(SOURCE_REF_PREFIX.length).split('#');
+    const chapterIndex = Number(chapter);
+    if (!documentId || !Number.isInteger(chapterIndex)) return null;
+    return { documentId, chapterIndex };
+  }
+
+  getChapterTitle(document: LoadedDocument, chapterIndex: number): string {
+    const chapter = document.chapters[chapterIndex];
+    return chapter ? `${document.title} — ${chapter.title}` : document.title;
+  }
+
+  // ==================== RESUME POSITIONS ====================
+
+  async getReadingPosition(documentId: string): Promise<ReadingPosition | null> {
+    const positions = await this.loadPositions();
+    const position = positions[documentId];
+    return position ? { ...position, updated: new Date(position.updated) } : null;
+  }
+
+  async saveReadingPosition(documentId: string, chapterIndex: number, wordIndex: number): Promise<void> {
+    try {
+      const uid = await resolveUserId();
+      const positions = await this.loadPositions(uid);
+      positions[documentId] = {
+        documentId,
+        chapterIndex,
+        wordIndex: Math.max(0, Math.floor(wordIndex)),
+        updated: new Date(),
+      };
+      await this.hybridStorage.setItem(DocumentLoaderService.POSITIONS_KEY_PREFIX + uid, positions);
+    } catch (error) {
+      console.error('Error saving reading position:', error);
+    }
+  }
+
+  async clearReadingPosition(documentId: string): Promise<void> {
+    try {
+      const uid = await resolveUserId();
+      const positions = await this.loadPositions(uid);
+      if (!positions[documentId]) return;
+      delete positions[documentId];
+      await this.hybridStorage.setItem(DocumentLoaderService.POSITIONS_KEY_PREFIX + uid, positions);
+    } catch (error) {
+      console.error('Error clearing reading position:', error);
+    }
+  }
+
+  private async loadPositions(userId?: string): Promise<Record<string, ReadingPosition>> {
+    try {
+      const uid = await resolveUserId(userId);
+      const raw = await this.hybridStorage.getItem(DocumentLoaderService.POSITIONS_KEY_PREFIX + uid);
+      return parseStored<Record<string, ReadingPosition>>(raw) ?? {};
+    } catch (error) {
+      console.error('Error loading reading positions:', error);
+      return {};
+    }
+  }
+
+  // ==================== EPUB ====================
+
+  private async parseEpub(data: Uint8Array) {
+    const zip = await JSZip.loadAsync(data);
+    const container = await zip.file('META-INF/container.xml')?.async('string');
+    const opfPath = container && /full-path="([^"]+)"/.exec(container)?.[1];
+    const opf = opfPath ? await zip.file(opfPath)?.async('string') : undefined;
+    if (!opfPath || !opf) throw new Error('Not a valid EPUB (missing package document)');
+
+    const baseDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+    const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+    for (const match of opf.matchAll(/<item\b[^>]*>/gi)) {
+      const attrs = this.readAttributes(match[0]);
+      if (attrs.id && attrs.href) {
+        manifest.set(attrs.id, {
+          href: this.resolvePath(baseDir, attrs.href),
+          mediaType: attrs['media-type'] ?? '',
+          properties: attrs.properties ?? '',
+        });
+      }
+    }
+
+    const spine = Array.from(opf.matchAll(/<itemref\b[^>]*>/gi))
+      .map((match) => this.readAttributes(match[0]))
+      .filter((attrs) => attrs.linear !== 'no')
+      .map((attrs) => manifest.get(attrs.idref ?? ''))
+      .filter((item): item is { href: string; mediaType: string; properties: string } => !!item);
+
+    const navItem = Array.from(manifest.values()).find((item) => item.properties.split(/\s+/).includes('nav'));
+    const tocId = /<spine\b[^>]*\btoc="([^"]+)"/i.exec(opf)?.[1];
+    const ncxItem = (tocId && manifest.get(tocId)) ||
+      Array.from(manifest.values()).find((item) => item.mediaType === 'application/x-dtbncx+xml');
+    const tocLinks = await this.readEpubToc(zip, navItem?.href, ncxItem ? ncxItem.href : undefined);
+
+    const chapters: DocumentChapter[] = [];
+    const toc: DocumentTocEntry[] = [];
+    for (const item of spine) {
+      if (item.href === navItem?.href) continue;
+      const html = await zip.file(item.href)?.async('string');
+      if (!html) continue;
+
+      const index = chapters.length;
+      const links = tocLinks.filter((link) => link.href === item.href);
+      const heading = /<h[1-3][^>]*>([\s\S]*?)<\/h[1-3]>/i.exec(html)?.[1];
+      const title = links[0]?.title || (heading && this.htmlToText(heading)) || `Section ${index + 1}`;
+      const text = this.htmlToText(html);
+
+      chapters.push({ index, title, text, wordCount: this.countWords(text) });
+      links.forEach((link) => toc.push({ title: link.title, chapterIndex: index, level: link.level }));
+    }
+
+    const title = /<dc:title[^>]*>([\s\S]*?)<\/dc:title>/i.exec(opf)?.[1];
+    const author = /<dc:creator[^>]*>([\s\S]*?)<\/dc:creator>/i.exec(opf)?.[1];
+    return {
+      ...(title ? { title: this.htmlToText(title) } : {}),
+      ...(author ? { author: this.htmlToText(author) } : {}),
+      chapters,
+      toc,
+    };
+  }
+
+  /**
+   * TOC links (href without fragment) from the EPUB 3 nav document, falling
+   * back to the EPUB 2 toc.ncx
+   */
+  private async readEpubToc(
+    zip: JSZip,
+    navPath?: string,
+    ncxPath?: string,
+  ): Promise<{ title: string; href: string; level: number }[]> {
+    const links: { title: string; href: string; level: number }[] = [];
+
+    const nav = navPath ? await zip.file(navPath)?.async('string') : undefined;
+    const tocNav = nav && (/<nav\b[^>]*toc[^>]*>([\s\S]*?)<\/nav>/i.exec(nav)?.[1] ?? nav);
+    if (navPath && tocNav) {
+      const baseDir = navPath.slice(0, navPath.lastIndexOf('/') + 1);
+      let depth = 0;
+      for (const match of tocNav.matchAll(/<(\/?)ol\b[^>]*>|<a\b([^>]*)>([\s\S]*?)<\/a>/gi)) {
+        if (match[0].toLowerCase().startsWith('<ol')) depth += 1;
+        else if (match[1]) depth -= 1;
+        else {
+          const href = this.readAttributes(`<a ${match[2] ?? ''}>`).href;
+          const title = this.htmlToText(match[3] ?? '');
+          if (href && title) {
+            links.push({ title, href: this.resolvePath(baseDir, href.split('#')[0]!), level: Math.max(1, depth) });
+          }
+        }
+      }
+      if (links.length > 0) return links;
+    }
+
+    const ncx = ncxPath ? await zip.file(ncxPath)?.async('string') : undefined;
+    if (ncxPath && ncx) {
+      const baseDir = ncxPath.slice(0, ncxPath.lastIndexOf('/') + 1);
+      let depth = 0;
+      const pattern = /<navPoint\b[^>]*>|<\/navPoint>|<navLabel>\s*<text>([\s\S]*?)<\/text>\s*<\/navLabel>\s*<content\b[^>]*src="([^"]+)"/gi;
+      for (const match of ncx.matchAll(pattern)) {
+        if (match[0].startsWith('</')) depth -= 1;
+        else if (match[0].toLowerCase().startsWith('<navpoint')) depth += 1;
+        else if (match[1] && match[2]) {
+          links.push({
+            title: this.htmlToText(match[1]),
+            href: this.resolvePath(baseDir, match[2].split('#')[0]!),
+            level: Math.max(1, depth),
+          });
+        }
+      }
+    }
+    return links;
+  }
+
+  // ==================== MARKDOWN / TEXT ====================
+
+  private parseMarkdown(markdown: string) {
+    const lines = markdown.replace(/\r\n?/g, '\n').replace(/^---\n[\s\S]*?\n---\n/, '').split('\n');
+    const sections: { title: string; level: number; lines: string[] }[] = [];
+    const topHeadings = lines.filter((line) => /^#\s+/.test(line)).length;
+    let title: string | undefined;
+    let current: { title: string; level: number; lines: string[] } | null = null;
+    let inFence = false;
+
+    for (const line of lines) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+
+      const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+      if (heading) {
+        const level = heading[1]!.length;
+        const text = this.stripMarkdownInline(heading[2]!);
+        // A single H1 is the document title; H2 sections become the chapters
+        if (level === 1 && topHeadings === 1 && !title) {
+          title = text;
+          continue;
+        }
+        if (level <= 2) {
+          current = { title: text, level: topHeadings > 1 ? level : level - 1 || 1, lines: [] };
+          sections.push(current);
+          continue;
+        }
+        // Deeper headings stay in the chapter as their own paragraph
+        if (!current) {
+          current = { title: 'Introduction', level: 1, lines: [] };
+          sections.push(current);
+        }
+        current.lines.push('', text, '');
+        continue;
+      }
+
+      if (!current) {
+        if (!line.trim()) continue;
+        current = { title: 'Introduction', level: 1, lines: [] };
+        sections.push(current);
+      }
+      current.lines.push(this.stripMarkdownLine(line));
+    }
+
+    const chapters = sections.map((section, index) => {
+      const text = this.joinParagraphs(section.lines);
+      return { index, title: section.title, text, wordCount: this.countWords(text) };
+    });
+    return {
+      ...(title ? { title } : {}),
+      chapters,
+      toc: sections.map((section, index) => ({ title: section.title, chapterIndex: index, level: section.level })),
+    };
+  }
+
+  private parsePlainText(text: string) {
+    const body = this.joinParagraphs(text.replace(/\r\n?/g, '\n').split('\n'));
+    return { chapters: [{ index: 0, title: 'Full Text', text: body, wordCount: this.countWords(body) }], toc: [] };
+  }
+
+  private stripMarkdownLine(line: string): string {
+    return this.stripMarkdownInline(
+      line
+        .replace(/^\s{0,3}>\s?/, '')
+        .replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '')
+        .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/, '')
+        .replace(/\s*\|\s*/g, ' ')
+        .replace(/^\s*([-*_]\s*){3,}$/, ''),
+    );
+  }
+
+  private stripMarkdownInline(text: string): string {
+    return text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+      .replace(/(^|\W)[*_](.+?)[*_](?=\W|$)/g, '$1$2')
+      .replace(/`([^`]*)`/g, '$1')
+      .trim();
+  }
+
+  // ==================== PDF ====================
+
+  /**
+   * Text of each page, read by walking the page tree (/Pages → /Kids →
+   * /Contents) so pages come out in reading order with their printed labels.
+   * Strings are decoded through each font's /ToUnicode CMap when it has one;
+   * CID fonts (Identity-H/V) without one cannot be mapped to text. Only
+   * FlateDecode and unfiltered streams are read.
+   */
+  private parsePdf(data: Uint8Array) {
+    const raw = this.latin1(data);
+    if (!raw.startsWith('%PDF')) throw new Error('Not a valid PDF file');
+
+    const objects = this.readPdfObjects(raw, data);
+    const stats = { unmapped: 0 };
+    let pages = this.readPdfPages(raw, objects, stats);
+    // Damaged files without a usable page tree: fall back to content streams in file order
+    if (pages.length === 0) pages = this.scanPdfStreams(raw, data, stats);
+
+    const readable = pages.map((page) => page.text).join(' ').replace(/[^\p{L}\p{N}]/gu, '').length;
+    if (readable < 20) {
+      if (stats.unmapped > 0) {
+        throw new Error('This PDF uses embedded CID fonts without a Unicode map, so its text cannot be extracted');
+      }
+      throw new Error('This PDF has no embedded text (scanned PDFs are not supported)');
+    }
+
+    const chapters: DocumentChapter[] = [];
+    for (let first = 0; first < pages.length; first += PDF_PAGES_PER_SECTION) {
+      const section = pages.slice(first, first + PDF_PAGES_PER_SECTION);
+      const text = this.joinParagraphs(section.map((page) => page.text).join('\n\n').split('\n'));
+      const firstLabel = section[0]!.label;
+      const lastLabel = section[section.length - 1]!.label;
+      chapters.push({
+        index: chapters.length,
+        title: section.length > 1 ? `Pages ${firstLabel}–${lastLabel}` : `Page ${firstLabel}`,
+        text,
+        wordCount: this.countWords(text),
+      });
+    }
+
+    const infoTitle = /\/Title\s*\(((?:\\.|[^\\)])*)\)/.exec(raw)?.[1];
+    const title = infoTitle ? this.decodePdfString(this.unescapePdfLiteral(infoTitle)).trim() : undefined;
+    return { ...(title ? { title } : {}), chapters, toc: [] };
+  }
+
+  /**
+   * Every indirect object in the file, including those packed into object
+   * streams. Later definitions win, as with incremental updates.
+   */
+  private readPdfObjects(raw: string, data: Uint8Array): Map<number, PdfObject> {
+    const objects = new Map<number, PdfObject>();
+    const headerPattern = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = headerPattern.exec(raw))) {
+      const { value, end } = this.readPdfValue(raw, match.index + match[0].length);
+      const object: PdfObject = { value };
+      const streamMatch = /^\s*stream\r?\n/.exec(raw.slice(end, end + 16));
+      if (streamMatch) {
+        const start = end + streamMatch[0].length;
+        const streamEnd = raw.indexOf('endstream', start);
+        if (streamEnd < 0) break;
+        let dataEnd = streamEnd;
+        // The EOL before `endstream` is not part of the stream data
+        if (raw[dataEnd - 1] === '\n') dataEnd -= 1;
+        if (raw[dataEnd - 1] === '\r') dataEnd -= 1;
+        const stream = this.decodePdfStream(value, data.subarray(start, dataEnd));
+        if (stream) object.stream = stream;
+        headerPattern.lastIndex = streamEnd;
+      } else {
+        headerPattern.lastIndex = Math.max(headerPattern.lastIndex, end);
+      }
+      objects.set(Number(match[1]), object);
+    }
+
+    // Compressed object streams (PDF 1.5+) hold most dictionaries in modern files
+    for (const object of Array.from(objects.values())) {
+      if (!object.stream || this.pdfName(this.pdfDict(object.value).get('Type')) !== 'ObjStm') continue;
+      const dictionary = this.pdfDict(object.value);
+      const count = Number(dictionary.get('N') ?? 0);
+      const first = Number(dictionary.get('First') ?? 0);
+      const content = this.latin1(object.stream);
+      const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i < count; i++) {
+        const number = header[i * 2];
+        const offset = header[i * 2 + 1];
+        if (number === undefined || offset === undefined || objects.has(number)) continue;
+        objects.set(number, { value: this.readPdfValue(content, first + offset).value });
+      }
+    }
+    return objects;
+  }
+
+  private decodePdfStream(dictionary: string, bytes: Uint8Array): Uint8Array | null {
+    const filter = this.pdfDict(dictionary).get('Filter') ?? '';
+    const names = filter.match(/\/\w+/g) ?? [];
+    if (names.some((name) => name !== '/FlateDecode')) return null;
+    try {
+      return names.length > 0 ? pako.inflate(bytes) ?? null : bytes;
+    } catch {
+      return null;
+    }
+  }
+
+  private readPdfPages(
+    raw: string,
+    objects: Map<number, PdfObject>,
+    stats: { unmapped: number },
+  ): Array<{ label: string; text: string }> {
+    const resolve = (value: string | undefined): string => {
+      const ref = this.pdfRef(value);
+      return ref !== null ? objects.get(ref)?.value ?? '' : value ?? '';
+    };
+
+    // The last /Root wins: incremental updates append a newer trailer
+    const rootRefs = Array.from(raw.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g));
+    const rootRef = rootRefs.length > 0 ? Number(rootRefs[rootRefs.length - 1]![1]) : null;
+    let catalog = rootRef !== null ? this.pdfDict(objects.get(rootRef)?.value ?? '') : new Map<string, string>();
+    if (!catalog.has('Pages')) {
+      const found = Array.from(objects.values()).find(
+        (object) => this.pdfName(this.pdfDict(object.value).get('Type')) === 'Catalog',
+      );
+      if (!found) return [];
+      catalog = this.pdfDict(found.value);
+    }
+
+    // Leaf pages in tree order; /Resources is inheritable from ancestors
+    const leaves: Array<{ contents: string | undefined; resources: string }> = [];
+    const visited = new Set<number>();
+    const walk = (value: string | undefined, inherited: string) => {
+      const ref = this.pdfRef(value);
+      if (ref !== null) {
+        if (visited.has(ref)) return;
+        visited.add(ref);
+      }
+      const node = this.pdfDict(resolve(value));
+      const resources = node.has('Resources') ? resolve(node.get('Resources')) : inherited;
+      const kids = node.get('Kids');
+      if (kids !== undefined) {
+        for (const kid of this.pdfArray(resolve(kids))) walk(kid, resources);
+      } else if (this.pdfName(node.get('Type')) === 'Page' || node.has('Contents')) {
+        leaves.push({ contents: node.get('Contents'), resources });
+      }
+    };
+    walk(catalog.get('Pages'), '');
+
+    const labels = this.readPdfPageLabels(resolve(catalog.get('PageLabels')), leaves.length, resolve);
+    const fontCache = new Map<string, PdfFontDecoder>();
+
+    return leaves.map((leaf, index) => {
+      const contents = resolve(leaf.contents).trim().startsWith('[')
+        ? this.pdfArray(resolve(leaf.contents))
+        : [leaf.contents ?? ''];
+      // A page's content streams are concatenated as if they were one stream
+      const content = contents
+        .map((value) => {
+          const stream = objects.get(this.pdfRef(value) ?? -1)?.stream;
+          return stream ? this.latin1(stream) : '';
+        })
+        .join('\n');
+
+      const fonts = new Map<string, PdfFontDecoder>();
+      const fontDict = this.pdfDict(resolve(this.pdfDict(leaf.resources).get('Font')));
+      fontDict.forEach((fontValue, name) => {
+        const key = this.pdfRef(fontValue)?.toString() ?? fontValue;
+        if (!fontCache.has(key)) fontCache.set(key, this.readPdfFont(resolve(fontValue), resolve, objects));
+        fonts.set(name, fontCache.get(key)!);
+      });
+
+      return {
+        label: labels[index] ?? String(index + 1),
+        text: /\bBT\b/.test(content) ? this.extractPdfText(content, fonts, stats) : '',
+      };
+    });
+  }
+
+  /**
+   * How a font's string bytes map to text: its /ToUnicode CMap, null for CID
+   * fonts that have none, or undefined for simple fonts (PDFDocEncoding)
+   */
+  private readPdfFont(
+    value: string,
+    resolve: (value: string | undefined) => string,
+    objects: Map<number, PdfObject>,
+  ): PdfFontDecoder {
+    const font = this.pdfDict(value);
+    const toUnicode = objects.get(this.pdfRef(font.get('ToUnicode')) ?? -1)?.stream;
+    if (toUnicode) return this.parseToUnicodeCMap(this.latin1(toUnicode));
+
+    const encoding = this.pdfName(resolve(font.get('Encoding')));
+    if (this.pdfName(font.get('Subtype')) === 'Type0' || /^Identity-[HV]$/.test(encoding ?? '')) return null;
+    return undefined;
+  }
+
+  private parseToUnicodeCMap(cmap: string): (bytes: string) => string {
+    const map = new Map<number, string>();
+    const hexText = (hex: string) => {
+      let text = '';
+      for (let i = 0; i < hex.length; i += 4) text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+      return text;
+    };
+    const codespace = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(cmap)?.[1];
+    const codeLength = codespace ? Math.max(1, codespace.length / 2) : 2;
+
+    for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const [, source, target] of block!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+        map.set(parseInt(source!, 16), hexText(target!));
+      }
+    }
+    for (const [, block] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      for (const [, low, high, target] of block!.matchAll(
+        /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g,
+      )) {
+        const start = parseInt(low!, 16);
+        const end = Math.min(parseInt(high!, 16), start + 0xffff);
+        if (target!.startsWith('[')) {
+          const targets = Array.from(target!.matchAll(/<([0-9a-fA-F]*)>/g), (entry) => hexText(entry[1]!));
+          targets.forEach((text, offset) => {
+            if (start + offset <= end) map.set(start + offset, text);
+          });
+        } else {
+          // Consecutive codes map to consecutive values of the last UTF-16 unit
+          const base = hexText(target!.slice(1, -1));
+          const last = base.charCodeAt(base.length - 1);
+          for (let code = start; code <= end; code++) {
+            map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - start));
+          }
+        }
+      }
+    }
+
+    return (bytes: string) => {
+      let text = '';
+      for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+        let code = 0;
+        for (let j = 0; j < codeLength; j++) code = (code << 8) | bytes.charCodeAt(i + j);
+        text += map.get(code) ?? '';
+      }
+      return text;
+    };
+  }
+
+  /**
+   * Printed page labels from the /PageLabels number tree (e.g. "iv", "A-3"),
+   * falling back to 1-based page numbers
+   */
+  private readPdfPageLabels(
+    value: string,
+    pageCount: number,
+    resolve: (value: string | undefined) => string,
+  ): string[] {
+    const ranges: Array<{ start: number; style?: string; prefix: string; first: number }> = [];
+    const collect = (node: Map<string, string>, depth: number) => {
+      if (depth > 16) return;
+      const nums = this.pdfArray(resolve(node.get('Nums')));
+      for (let i = 0; i + 1 < nums.length; i += 2) {
+        const label = this.pdfDict(resolve(nums[i + 1]));
+        const prefix = label.get('P');
+        const style = this.pdfName(label.get('S'));
+        ranges.push({
+          start: Number(nums[i]),
+          ...(style ? { style } : {}),
+          prefix: prefix ? this.decodePdfString(this.pdfStringBytes(prefix)) : '',
+          first: Number(label.get('St') ?? 1),
+        });
+      }
+      for (const kid of this.pdfArray(resolve(node.get('Kids')))) collect(this.pdfDict(resolve(kid)), depth + 1);
+    };
+    if (value) collect(this.pdfDict(value), 0);
+    ranges.sort((a, b) => a.start - b.start);
+
+    return Array.from({ length: pageCount }, (_, page) => {
+      const range = [...ranges].reverse().find((candidate) => candidate.start <= page);
+      if (!range) return String(page + 1);
+      const number = range.first + page - range.start;
+      return range.prefix + this.formatPageNumber(number, range.style);
+    });
+  }
+
+  private formatPageNumber(number: number, style: string | undefined): string {
+    switch (style) {
+      case 'D':
+        return String(number);
+      case 'R':
+      case 'r': {
+        const numerals: Array<[number, string]> = [
+          [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+          [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+        ];
+        let rest = number;
+        let roman = '';
+        for (const [value, symbol] of numerals) {
+          while (rest >= value) {
+            roman += symbol;
+            rest -= value;
+          }
+        }
+        return style === 'r' ? roman.toLowerCase() : roman;
+      }
+      case 'A':
+      case 'a': {
+        // A..Z, then AA..ZZ, AAA..
+        const letter = String.fromCharCode(65 + ((number - 1) % 26));
+        const text = letter.repeat(Math.floor((number - 1) / 26) + 1);
+        return style === 'a' ? text.toLowerCase() : text;
+      }
+      default:
+        // A range without a style has only its prefix
+        return '';
+    }
+  }
+
+  /**
+   * Fallback for files whose page tree can't be read: every content stream
+   * in file order, one per page
+   */
+  private scanPdfStreams(
+    raw: string,
+    data: Uint8Array,
+    stats: { unmapped: number },
+  ): Array<{ label: string; text: string }> {
+    const pages: Array<{ label: string; text: string }> = [];
+    const streamPattern = /\bstream\r?\n/g;
+    let match: RegExpExecArray | null;
+    while ((match = streamPattern.exec(raw))) {
+      const objectStart = raw.lastIndexOf(' obj', match.index);
+      const dictionary = objectStart >= 0 ? raw.slice(objectStart + 4, match.index) : '';
+      const start = match.index + match[0].length;
+      const end = raw.indexOf('endstream', start);
+      if (end < 0) break;
+      streamPattern.lastIndex = end + 'endstream'.length;
+
+      if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|ObjStm|Metadata)|\/Length[123]\b/.test(dictionary)) continue;
+      let dataEnd = end;
+      if (raw[dataEnd - 1] === '\n') dataEnd -= 1;
+      if (raw[dataEnd - 1] === '\r') dataEnd -= 1;
+
+      const decoded = this.decodePdfStream(dictionary, data.subarray(start, dataEnd));
+      if (!decoded) continue;
+      const content = this.latin1(decoded);
+      if (!/\bBT\b/.test(content)) continue;
+
+      const text = this.extractPdfText(content, new Map(), stats);
+      if (text.trim()) pages.push({ label: String(pages.length + 1), text });
+    }
+    return pages;
+  }
+
+  // ---- PDF object syntax ----
+
+  /**
+   * Read one PDF value (dictionary, array, string, name, reference or
+   * number) starting at `index`
+   */
+  private readPdfValue(text: string, index: number): { value: string; end: number } {
+    let i = index;
+    while (i < text.length) {
+      if (/\s/.test(text[i]!)) i += 1;
+      else if (text[i] === '%') i = text.indexOf('\n', i) < 0 ? text.length : text.indexOf('\n', i) + 1;
+      else break;
+    }
+    const start = i;
+    const skipString = (position: number): number => {
+      let depth = 0;
+      for (let j = position; j < text.length; j++) {
+        if (text[j] === '\\') j += 1;
+        else if (text[j] === '(') depth += 1;
+        else if (text[j] === ')' && --depth === 0) return j + 1;
+      }
+      return text.length;
+    };
+
+    if (text.startsWith('<<', i) || text[i] === '[') {
+      let depth = 0;
+      while (i < text.length) {
+        if (text[i] === '(') {
+          i = skipString(i);
+          continue;
+        }
+        if (text.startsWith('<<', i) || text[i] === '[') {
+          depth += 1;
+          i += text[i] === '[' ? 1 : 2;
+        } else if (text.startsWith('>>', i) || text[i] === ']') {
+          depth -= 1;
+          i += text[i] === ']' ? 1 : 2;
+          if (depth === 0) break;
+        } else {
+          i += 1;
+        }
+      }
+      return { value: text.slice(start, i), end: i };
+    }
+    if (text[i] === '(') {
+      const end = skipString(i);
+      return { value: text.slice(start, end), end };
+    }
+    if (text[i] === '<') {
+      const end = text.indexOf('>', i) + 1 || text.length;
+      return { value: text.slice(start, end), end };
+    }
+
+    i += text[i] === '/' ? 1 : 0;
+    while (i < text.length && !/[\s()<>[\]{}/%]/.test(text[i]!)) i += 1;
+    const reference = /^\s+\d+\s+R\b/.exec(text.slice(i, i + 16));
+    if (/^\d+$/.test(text.slice(start, i)) && reference) i += reference[0].length;
+    return { value: text.slice(start, i), end: i };
+  }
+
+  /**
+   * Top-level entries of a `<< ... >>` dictionary, keyed without the slash
+   */
+  private pdfDict(value: string | undefined): Map<string, string> {
+    const entries = new Map<string, string>();
+    const text = value?.trim() ?? '';
+    if (!text.startsWith('<<')) return entries;
+    let i = 2;
+    while (i < text.length) {
+      const key = this.readPdfValue(text, i);
+      if (!key.value.startsWith('/')) break;
+      const entry = this.readPdfValue(text, key.end);
+      entries.set(key.value.slice(1), entry.value);
+      i = entry.end;
+    }
+    return entries;
+  }
+
+  private pdfArray(value: string | undefined): string[] {
+    const text = value?.trim() ?? '';
+    if (!text.startsWith('[')) return [];
+    const items: string[] = [];
+    let i = 1;
+    while (i < text.length - 1) {
+      const item = this.readPdfValue(text, i);
+      if (!item.value || item.end <= i) break;
+      items.push(item.value);
+      i = item.end;
+    }
+    return items;
+  }
+
+  private pdfRef(value: string | undefined): number | null {
+    const match = /^\s*(\d+)\s+\d+\s+R\s*$/.exec(value ?? '');
+    return match ? Number(match[1]) : null;
+  }
+
+  private pdfName(value: string | undefined): string | undefined {
+    const match = /^\s*\/([^\s/<>[\]()]+)/.exec(value ?? '');
+    return match?.[1];
+  }
+
+  private pdfStringBytes(value: string): string {
+    const text = value.trim();
+    if (text.startsWith('(')) return this.unescapePdfLiteral(text.slice(1, -1));
+    if (text.startsWith('<')) return this.pdfHexBytes(text.slice(1, -1));
+    return '';
+  }
+
+  /**
+   * Walk the content stream operators, collecting strings shown with
+   * Tj / TJ / ' / " and turning line moves into line breaks. Strings are
+   * decoded with the font selected by the last Tf.
+   */
+  private extractPdfText(
+    content: string,
+    fonts: Map<string, PdfFontDecoder>,
+    stats: { unmapped: number },
+  ): string {
+    let output = '';
+    let inText = false;
+    let operands: string[] = [];
+    let strings: string[] = [];
+    let font: PdfFontDecoder;
+    let i = 0;
+
+    const newline = () => {
+      if (output && !output.endsWith('\n')) output += '\n';
+    };
+    const decode = (bytes: string): string => {
+      if (font === null) {
+        stats.unmapped += 1;
+        return '';
+      }
+      return font ? font(bytes) : this.decodePdfString(bytes);
+    };
+
+    while (i < content.length) {
+      const char = content[i]!;
+
+      if (char === '(') {
+        let depth = 1;
+        let value = '';
+        i += 1;
+        while (i < content.length && depth > 0) {
+          const c = content[i]!;
+          if (c === '\\') {
+            value += c + (content[i + 1] ?? '');
+            i += 2;
+            continue;
+          }
+          if (c === '(') depth += 1;
+          if (c === ')') depth -= 1;
+          if (depth > 0) value += c;
+          i += 1;
+        }
+        strings.push(decode(this.unescapePdfLiteral(value)));
+        continue;
+      }
+
+      if (char === '<' && content[i + 1] !== '<') {
+        const close = content.indexOf('>', i);
+        if (close < 0) break;
+        strings.push(decode(this.pdfHexBytes(content.slice(i + 1, close))));
+        i = close + 1;
+        continue;
+      }
+
+      if (char === '[' || char === ']') {
+        i += 1;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        i += 1;
+        continue;
+      }
+
+      let end = i;
+      while (end < content.length && !/[\s()<>[\]/%]/.test(content[end]!)) end += 1;
+      if (end === i) {
+        // Names (kept as operands, e.g. the font in `/F1 12 Tf`) and comments
+        if (char === '%') {
+          const lineEnd = content.indexOf('\n', i);
+          i = lineEnd < 0 ? content.length : lineEnd + 1;
+        } else {
+          const nameStart = i;
+          i += 1;
+          while (i < content.length && !/[\s()<>[\]/%]/.test(content[i]!)) i += 1;
+          if (char === '/') operands.push(content.slice(nameStart, i));
+        }
+        continue;
+      }
+
+      const token = content.slice(i, end);
+      i = end;
+
+      if (/^[-+]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        // Large negative kerning inside TJ arrays separates words
+        if (strings.length > 0 && Number(token) < -200) strings.push(' ');
+        operands.push(token);
+        continue;
+      }
+
+      switch (token) {
+        case 'BT':
+          inText = true;
+          break;
+        case 'ET':
+          inText = false;
+          newline();
+          break;
+        case 'Tf': {
+          const name = operands[operands.length - 2];
+          font = name ? fonts.get(name.slice(1)) : undefined;
+          break;
+        }
+        case 'Tj':
+        case 'TJ':
+          if (inText) output += strings.join('');
+          break;
+        case "'":
+        case '"':
+          newline();
+          if (inText) output += strings.join('');
+          break;
+        case 'T*':
+          newline();
+          break;
+        case 'Td':
+        case 'TD':
+          if (Number(operands[operands.length - 1] ?? 0) !== 0) newline();
+          else if (output && !/\s$/.test(output)) output += ' ';
+          break;
+        case 'Tm':
+          newline();
+          break;
+      }
+      operands = [];
+      strings = [];
+    }
+
+    return output;
+  }
+
+  private unescapePdfLiteral(value: string): string {
+    return value.replace(/\\(\d{1,3}|\r?\n|.)/g, (_, escape: string) => {
+      if (/^\d+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8) & 0xff);
+      switch (escape) {
+        case 'n': return '\n';
+        case 'r': return '\r';
+        case 't': return '\t';
+        case 'b': return '\b';
+        case 'f': return '\f';
+        default: return escape.startsWith('\n') || escape.startsWith('\r') ? '' : escape;
+      }
+    });
+  }
+
+  private pdfHexBytes(hex: string): string {
+    const clean = hex.replace(/[^0-9a-fA-F]/g, '');
+    const padded = clean.length % 2 ? `${clean}0` : clean;
+    let bytes = '';
+    for (let i = 0; i < padded.length; i += 2) {
+      bytes += String.fromCharCode(parseInt(padded.slice(i, i + 2), 16));
+    }
+    return bytes;
+  }
+
+  /**
+   * Byte string to text: UTF-16BE when it carries a BOM, PDFDocEncoding
+   * (close enough to Latin-1 for reading) otherwise
+   */
+  private decodePdfString(bytes: string): string {
+    if (bytes.startsWith('þÿ')) {
+      let text = '';
+      for (let i = 2; i + 1 < bytes.length; i += 2) {
+        text += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+      }
+      return text;
+    }
+    return bytes.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+  }
+
+  private latin1(bytes: Uint8Array): string {
+    let text = '';
+    const chunk = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunk) {
+      text += String.fromCharCode(...bytes.subarray(i, i + chunk));
+    }
+    return text;
+  }
+
+  // ==================== HELPERS ====================
+
+  private htmlToText(html: string): string {
+    const text = html
+      .replace(/<head[\s\S]*?<\/head>/gi, '')
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|li|blockquote|section|article|tr|dt|dd|figcaption)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+          const value = code[1]?.toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+          return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      });
+    return this.joinParagraphs(text.split('\n'));
+  }
+
+  /**
+   * Collapse whitespace inside lines and keep blank-line paragraph breaks
+   */
+  private joinParagraphs(lines: string[]): string {
+    const paragraphs: string[] = [];
+    let current: string[] = [];
+    for (const line of lines) {
+      const trimmed = line.replace(/\s+/g, ' ').trim();
+      if (trimmed) {
+        current.push(trimmed);
+      } else if (current.length > 0) {
+        paragraphs.push(current.join(' '));
+        current = [];
+      }
+    }
+    if (current.length > 0) paragraphs.push(current.join(' '));
+    return paragraphs.join('\n\n');
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+  }
+
+  private readAttributes(tag: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+      attrs[match[1]!.toLowerCase()] = match[3] ?? match[4] ?? '';
+    }
+    return attrs;
+  }
+
+  private resolvePath(baseDir: string, href: string): string {
+    let decoded = href;
+    try {
+      decoded = decodeURIComponent(href);
+    } catch {
+      // Keep the raw href
+    }
+    const parts = `${baseDir}${decoded}`.split('/');
+    const resolved: string[] = [];
+    for (const part of parts) {
+      if (part === '..') resolved.pop();
+      else if (part && part !== '.') resolved.push(part);
+    }
+    return resolved.join('/');
+  }
+
+  private hash(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+      hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+}
+
+export default DocumentLoaderService;
@@ -386,6 +386,10 @@ export class EyeTrackingService extends EventEmitter {
     return this.attentionEMA;
   }
 
+  public isTrackingActive(): boolean {
+    return this.isTracking;
+  }
+
   public getCognitiveLoad(): number {
     const { attentionScore, blinkRate } = this.metrics;
     if (
@@ -0,0 +1,98 @@
+import FSRSOptimizer from './FSRSOptimizer';
+import {
+  CardState,
+  DEFAULT_FSRS_WEIGHTS,
+  FSRSReviewLog,
+  Rating,
+  SpacedRepetitionService,
+} from './SpacedRepetitionService';
+
+const logs: FSRSReviewLog[] = [];
+const stored = new Map<string, unknown>();
+
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getReviewLogs: async () => logs,
+      appendReviewLogs: async (added: FSRSReviewLog[]) => added,
+      getItem: async (key: string) => stored.get(key) ?? null,
+      setItem: async (key: string, value: unknown) => {
+        stored.set(key, value);
+      },
+      removeItem: async (key: string) => {
+        stored.delete(key);
+      },
+    }),
+  },
+}));
+jest.mock('../storage/SupabaseService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getCurrentUser: async () => null }) },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Reviews at growing gaps that are almost always recalled: the user forgets
+// far more slowly than the generic weights expect
+const history = (card: number): FSRSReviewLog[] => {
+  const start = Date.UTC(2026, 0, 1) + card * 60000;
+  return [0, 4, 15, 45, 120].map((day, i) => ({
+    card_id: `card_${String(card).padStart(3, '0')}`,
+    rating: i > 0 && (card + i) % 9 === 0 ? Rating.Again : i === 0 ? Rating.Good : Rating.Easy,
+    elapsed_days: 0,
+    scheduled_days: 0,
+    review: new Date(start + day * DAY),
+    state: i === 0 ? CardState.New : CardState.Review,
+  }));
+};
+
+describe('FSRSOptimizer', () => {
+  const optimizer = FSRSOptimizer.getInstance();
+  const srs = SpacedRepetitionService.getInstance();
+
+  beforeEach(() => {
+    logs.length = 0;
+    stored.clear();
+    srs.resetWeights();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('needs enough reviews before training', async () => {
+    for (let card = 0; card < 5; card++) logs.push(...history(card));
+
+    expect(await optimizer.optimize({ iterations: 2 }, 'user_1')).toBeNull();
+    expect(srs.getParameters().w).toEqual([...DEFAULT_FSRS_WEIGHTS]);
+  });
+
+  it('measures before/after on held-out cards and applies weights that beat the current ones', async () => {
+    for (let card = 0; card < 60; card++) logs.push(...history(card));
+
+    const report = await optimizer.optimize({ iterations: 8, learningRate: 0.1, minReviews: 100 }, 'user_1');
+
+    expect(report).not.toBeNull();
+    expect(report!.cardCount).toBe(60);
+    expect(report!.reviewCount).toBe(240);
+    // Cards 0, 5, 10, ... by id, four predicted reviews each
+    expect(report!.heldOutReviewCount).toBe(48);
+    expect(report!.before.bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(48);
+    expect(report!.after.logLoss).toBeLessThan(report!.before.logLoss);
+    expect(report!.applied).toBe(true);
+    expect(srs.getParameters().w).toEqual(report!.weightsAfter);
+    expect(stored.get('@neurolearn/fsrs_params_user_1')).toMatchObject({ weights: report!.weightsAfter });
+  });
+
+  it('yields to the event loop inside a training pass once the slice is used up', async () => {
+    for (let card = 0; card < 60; card++) logs.push(...history(card));
+    let now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => (now += 20));
+    const timeout = jest.spyOn(global, 'setTimeout');
+
+    await optimizer.optimize({ iterations: 1, minReviews: 100 }, 'user_1');
+
+    // One iteration replays 48 training cards 20 times; every card waits on a slice here
+    expect(timeout.mock.calls.length).toBeGreaterThan(48 * 20);
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * FSRS Optimizer - Personalized scheduling weights
+ *
+ * Reads the user's FSRSReviewLog history from the durable review-log store and
+ * fits the 19 FSRS weights to it by minimising the log-loss of recall
+ * predictions. Training runs on-device: every pass over the logs yields to
+ * the event loop once its time slice is used up, so the UI thread stays
+ * responsive. A fifth of the cards is held out of training, and the fitted
+ * vector is only swapped into SpacedRepetitionService when it beats the
+ * current weights on those held-out cards.
+ */
+
+import HybridStorageService from '../storage/HybridStorageService';
+import { parseStored, resolveUserId } from '../storage/storedValues';
+import {
+  SpacedRepetitionService,
+  FSRSReviewLog,
+  DEFAULT_FSRS_WEIGHTS,
+} from './SpacedRepetitionService';
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  actualRecall: number;
+}
+
+export interface FSRSCalibrationMetrics {
+  logLoss: number;
+  rmse: number; // Root mean squared error across calibration bins
+  bins: CalibrationBin[];
+}
+
+export interface FSRSCalibrationReport {
+  userId: string;
+  cardCount: number;
+  reviewCount: number; // Reviews that carried a recall prediction
+  heldOutReviewCount: number; // Reviews of held-out cards, which before/after are measured on
+  iterations: number;
+  before: FSRSCalibrationMetrics; // Held-out cards, current weights
+  after: FSRSCalibrationMetrics; // Held-out cards, fitted weights
+  weightsBefore: number[];
+  weightsAfter: number[];
+  applied: boolean;
+  trainedAt: string; // ISO
+}
+
+export interface FSRSOptimizerOptions {
+  iterations?: number;
+  learningRate?: number;
+  minReviews?: number;
+  onProgress?: (iteration: number, logLoss: number) => void;
+}
+
+interface StoredPersonalizedParams {
+  weights: number[];
+  report: FSRSCalibrationReport;
+}
+
+// Keep [min, max] for each weight so gradient steps can't produce degenerate schedules
+const WEIGHT_BOUNDS: ReadonlyArray<readonly [number, number]> = [
+  [0.01, 100], [0.01, 100], [0.01, 100], [0.01, 100],
+  [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+  [0, 4.5], [0, 0.8], [0.001, 3.5], [0.001, 5],
+  [0.001, 0.25], [0.001, 0.9], [0, 4], [0, 1],
+  [1, 6], [0, 2], [0, 2],
+];
+
+const CALIBRATION_BIN_COUNT = 10;
+const PROBABILITY_EPSILON = 1e-4;
+const HOLDOUT_EVERY = 5; // Every 5th card (by id) validates instead of training
+const SLICE_BUDGET_MS = 12;
+
+export class FSRSOptimizer {
+  private static instance: FSRSOptimizer;
+  private storage: HybridStorageService;
+  private srs: SpacedRepetitionService;
+  private isTraining = false;
+  private sliceStartedAt = 0;
+
+  private reportCallbacks: ((report: FSRSCalibrationReport) => void)[] = [];
+
+  private static readonly PARAMS_KEY_PREFIX = '@neurolearn/fsrs_params_';
+  private static readonly REPORT_KEY_PREFIX = '@neurolearn/fsrs_report_';
+  private static readonly PENDING_KEY_PREFIX = '@neurolearn/fsrs_pending_reviews_';
+  // New reviews between background retrains
+  private static readonly AUTO_OPTIMIZE_EVERY = 200;
+
+  private constructor() {
+    this.storage = HybridStorageService.getInstance();
+    this.srs = SpacedRepetitionService.getInstance();
+  }
+
+  public static getInstance(): FSRSOptimizer {
+    if (!FSRSOptimizer.instance) {
+      FSRSOptimizer.instance = new FSRSOptimizer();
+    }
+    return FSRSOptimizer.instance;
+  }
+
+  // ==================== REVIEW LOG COLLECTION ====================
+
+  /**
+   * Append review logs emitted by scheduleNextReviewFSRS to the review-log store.
+   * Every AUTO_OPTIMIZE_EVERY new reviews a retrain is started in the background.
+   */
+  async recordReviewLogs(logs: FSRSReviewLog[]): Promise<void> {
+    if (logs.length === 0) return;
+    try {
+      const stored = await this.storage.appendReviewLogs(logs);
+      if (stored.length > 0) {
+        await this.noteNewReviews(stored.length);
+      }
+    } catch (error) {
+      console.error('Error recording FSRS review logs:', error);
+    }
+  }
+
+  async getReviewLogs(): Promise<FSRSReviewLog[]> {
+    try {
+      return await this.storage.getReviewLogs();
+    } catch (error) {
+      console.error('Error loading FSRS review logs:', error);
+      return [];
+    }
+  }
+
+  // ==================== PERSONALIZED PARAMETERS ====================
+
+  /**
+   * Apply previously fitted weights for this user, if any. Call on startup.
+   */
+  async loadPersonalizedWeights(userId?: string): Promise<boolean> {
+    try {
+      const stored = await this.getStoredParams(userId);
+      if (!stored) return false;
+      this.srs.setWeights(stored.weights);
+      return true;
+    } catch (error) {
+      console.warn('Failed to load personalized FSRS weights:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Most recent training report, whether or not its weights were applied
+   */
+  async getLastCalibrationReport(userId?: string): Promise<FSRSCalibrationReport | null> {
+    try {
+      const uid = await resolveUserId(userId);
+      const raw = await this.storage.getItem(FSRSOptimizer.REPORT_KEY_PREFIX + uid);
+      const report = parseStored<FSRSCalibrationReport>(raw);
+      if (report) return report;
+    } catch (error) {
+      console.warn('Failed to read FSRS calibration report:', error);
+    }
+    const stored = await this.getStoredParams(userId);
+    return stored ? stored.report : null;
+  }
+
+  /**
+   * Subscribe to reports from finished training runs (manual or automatic)
+   */
+  onCalibrationReport(callback: (report: FSRSCalibrationReport) => void): () => void {
+    this.reportCallbacks.push(callback);
+    return () => {
+      this.reportCallbacks = this.reportCallbacks.filter((cb) => cb !== callback);
+    };
+  }
+
+  isOptimizing(): boolean {
+    return this.isTraining;
+  }
+
+  /**
+   * Drop personalized weights and return to the generic defaults
+   */
+  async resetToDefaultWeights(userId?: string): Promise<void> {
+    const uid = await resolveUserId(userId);
+    this.srs.resetWeights();
+    await this.storage.removeItem(FSRSOptimizer.PARAMS_KEY_PREFIX + uid);
+  }
+
+  // ==================== TRAINING ====================
+
+  /**
+   * Fit FSRS weights to the user's review history.
+   *
+   * Uses finite-difference gradients with a per-weight scaled Adam step and
+   * keeps the best vector seen on the training cards. The result is applied
+   * (and persisted) only if it lowers log-loss on the held-out cards compared
+   * with the weights currently in use.
+   */
+  async optimize(
+    options: FSRSOptimizerOptions = {},
+    userId?: string,
+  ): Promise<FSRSCalibrationReport | null> {
+    if (this.isTraining) {
+      console.warn('FSRS optimization already in progress');
+      return null;
+    }
+
+    const iterations = options.iterations ?? 120;
+    const learningRate = options.learningRate ?? 0.02;
+    const minReviews = options.minReviews ?? 200;
+
+    this.isTraining = true;
+    try {
+      const uid = await resolveUserId(userId);
+      const histories = this.groupByCard(await this.getReviewLogs());
+      const { training, holdout } = this.splitHoldout(histories);
+      const weightsBefore = this.srs.getParameters().w;
+      this.sliceStartedAt = Date.now();
+
+      const trainingReviews = this.countPredictions(training, weightsBefore);
+      const heldOutReviewCount = this.countPredictions(holdout, weightsBefore);
+      const reviewCount = trainingReviews + heldOutReviewCount;
+      if (reviewCount < minReviews || trainingReviews === 0 || heldOutReviewCount === 0) {
+        console.log(`FSRS optimizer: ${reviewCount} usable reviews, need ${minReviews}`);
+        return null;
+      }
+
+      const before = await this.evaluate(holdout, weightsBefore);
+
+      let weights = [...weightsBefore];
+      let bestWeights = [...weights];
+      let bestLoss = await this.logLoss(training, weights);
+      const m = new Array(weights.length).fill(0);
+      const v = new Array(weights.length).fill(0);
+      const beta1 = 0.9;
+      const beta2 = 0.999;
+
+      for (let iter = 1; iter <= iterations; iter++) {
+        const baseLoss = await this.logLoss(training, weights);
+        if (baseLoss < bestLoss) {
+          bestLoss = baseLoss;
+          bestWeights = [...weights];
+        }
+
+        const gradient: number[] = [];
+        for (let i = 0; i < weights.length; i++) {
+          const wi = weights[i]!;
+          const h = Math.max(1e-4, Math.abs(wi) * 1e-3);
+          const probe = [...weights];
+          probe[i] = wi + h;
+          gradient.push(((await this.logLoss(training, probe)) - baseLoss) / h);
+        }
+
+        weights = weights.map((wi, i) => {
+          const g = gradient[i] ?? 0;
+          m[i] = beta1 * m[i] + (1 - beta1) * g;
+          v[i] = beta2 * v[i] + (1 - beta2) * g * g;
+          const mHat = m[i] / (1 - Math.pow(beta1, iter));
+          const vHat = v[i] / (1 - Math.pow(beta2, iter));
+          const scale = Math.max(0.1, Math.abs(wi));
+          const next = wi - learningRate * scale * (mHat / (Math.sqrt(vHat) + 1e-8));
+          const [min, max] = WEIGHT_BOUNDS[i] ?? [0, 100];
+          return Math.max(min, Math.min(max, next));
+        });
+
+        options.onProgress?.(iter, baseLoss);
+      }
+
+      const finalLoss = await this.logLoss(training, weights);
+      if (finalLoss < bestLoss) bestWeights = weights;
+
+      const after = await this.evaluate(holdout, bestWeights);
+      const applied = after.logLoss < before.logLoss;
+
+      const report: FSRSCalibrationReport = {
+        userId: uid,
+        cardCount: histories.length,
+        reviewCount,
+        heldOutReviewCount,
+        iterations,
+        before,
+        after,
+        weightsBefore,
+        weightsAfter: bestWeights,
+        applied,
+        trainedAt: new Date().toISOString(),
+      };
+
+      if (applied) {
+        this.srs.setWeights(bestWeights);
+        const stored: StoredPersonalizedParams = { weights: bestWeights, report };
+        await this.storage.setItem(FSRSOptimizer.PARAMS_KEY_PREFIX + uid, stored);
+        console.log(
+          `🧠 FSRS weights personalized: log-loss ${before.logLoss.toFixed(4)} → ${after.logLoss.toFixed(4)}`,
+        );
+      }
+      await this.storage.setItem(FSRSOptimizer.REPORT_KEY_PREFIX + uid, report);
+
+      this.reportCallbacks.forEach((callback) => {
+        try {
+          callback(report);
+        } catch (error) {
+          console.error('Error in FSRS report callback:', error);
+        }
+      });
+
+      return report;
+    } catch (error) {
+      console.error('FSRS optimization failed:', error);
+      return null;
+    } finally {
+      this.isTraining = false;
+    }
+  }
+
+  /**
+   * Calibration report for a weight vector without training (defaults to current weights)
+   */
+  async calibrate(weights?: number[]): Promise<FSRSCalibrationMetrics> {
+    const histories = this.groupByCard(await this.getReviewLogs());
+    this.sliceStartedAt = Date.now();
+    return this.evaluate(histories, weights ?? this.srs.getParameters().w);
+  }
+
+  // ==================== HELPERS ====================
+
+  private async noteNewReviews(count: number): Promise<void> {
+    const uid = await resolveUserId();
+    const key = FSRSOptimizer.PENDING_KEY_PREFIX + uid;
+    const pending = (parseStored<number>(await this.storage.getItem(key)) ?? 0) + count;
+
+    if (pending < FSRSOptimizer.AUTO_OPTIMIZE_EVERY || this.isTraining) {
+      await this.storage.setItem(key, pending);
+      return;
+    }
+
+    await this.storage.setItem(key, 0);
+    // The review that crossed the threshold shouldn't wait for training
+    void this.optimize({}, uid);
+  }
+
+  private groupByCard(logs: FSRSReviewLog[]): FSRSReviewLog[][] {
+    const byCard = new Map<string, FSRSReviewLog[]>();
+    for (const log of logs) {
+      // Logs recorded before card ids were attached can't be replayed per card
+      if (!log.card_id) continue;
+      const list = byCard.get(log.card_id) ?? [];
+      list.push(log);
+      byCard.set(log.card_id, list);
+    }
+    return Array.from(byCard.values());
+  }
+
+  /**
+   * Cards sorted by id, every HOLDOUT_EVERY-th one held out for validation
+   */
+  private splitHoldout(histories: FSRSReviewLog[][]): {
+    training: FSRSReviewLog[][];
+    holdout: FSRSReviewLog[][];
+  } {
+    const sorted = [...histories].sort((a, b) =>
+      (a[0]?.card_id ?? '').localeCompare(b[0]?.card_id ?? ''),
+    );
+    return {
+      training: sorted.filter((_, i) => i % HOLDOUT_EVERY !== 0),
+      holdout: sorted.filter((_, i) => i % HOLDOUT_EVERY === 0),
+    };
+  }
+
+  private countPredictions(histories: FSRSReviewLog[][], weights: readonly number[]): number {
+    return histories.reduce(
+      (sum, history) => sum + this.srs.predictRecallFromHistory(history, weights).length,
+      0,
+    );
+  }
+
+  /**
+   * Replay every history, handing each recall prediction to visit(). Yields to
+   * the event loop whenever the current time slice is used up.
+   */
+  private async forEachPrediction(
+    histories: FSRSReviewLog[][],
+    weights: readonly number[],
+    visit: (predicted: number, recalled: boolean) => void,
+  ): Promise<void> {
+    for (const history of histories) {
+      if (Date.now() - this.sliceStartedAt >= SLICE_BUDGET_MS) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        this.sliceStartedAt = Date.now();
+      }
+      for (const { predicted, recalled } of this.srs.predictRecallFromHistory(history, weights)) {
+        visit(predicted, recalled);
+      }
+    }
+  }
+
+  private async logLoss(histories: FSRSReviewLog[][], weights: readonly number[]): Promise<number> {
+    let total = 0;
+    let count = 0;
+    await this.forEachPrediction(histories, weights, (predicted, recalled) => {
+      total += this.predictionLoss(predicted, recalled);
+      count++;
+    });
+    return count > 0 ? total / count : 0;
+  }
+
+  private predictionLoss(predicted: number, recalled: boolean): number {
+    const p = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, predicted));
+    return recalled ? -Math.log(p) : -Math.log(1 - p);
+  }
+
+  private async evaluate(
+    histories: FSRSReviewLog[][],
+    weights: readonly number[],
+  ): Promise<FSRSCalibrationMetrics> {
+    const bins = Array.from({ length: CALIBRATION_BIN_COUNT }, (_, i) => ({
+      lower: i / CALIBRATION_BIN_COUNT,
+      upper: (i + 1) / CALIBRATION_BIN_COUNT,
+      count: 0,
+      predictedSum: 0,
+      recalledSum: 0,
+    }));
+    let lossSum = 0;
+
+    await this.forEachPrediction(histories, weights, (predicted, recalled) => {
+      lossSum += this.predictionLoss(predicted, recalled);
+      const index = Math.min(CALIBRATION_BIN_COUNT - 1, Math.floor(predicted * CALIBRATION_BIN_COUNT));
+      const bin = bins[index];
+      if (!bin) return;
+      bin.count++;
+      bin.predictedSum += predicted;
+      bin.recalledSum += recalled ? 1 : 0;
+    });
+
+    const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+    const squaredError = bins.reduce((sum, bin) => {
+      if (bin.count === 0) return sum;
+      const diff = bin.predictedSum / bin.count - bin.recalledSum / bin.count;
+      return sum + diff * diff * bin.count;
+    }, 0);
+
+    return {
+      logLoss: total > 0 ? lossSum / total : 0,
+      rmse: total > 0 ? Math.sqrt(squaredError / total) : 0,
+      bins: bins.map((bin) => ({
+        lower: bin.lower,
+        upper: bin.upper,
+        count: bin.count,
+        meanPredicted: bin.count > 0 ? bin.predictedSum / bin.count : 0,
+        actualRecall: bin.count > 0 ? bin.recalledSum / bin.count : 0,
+      })),
+    };
+  }
+
+  private async getStoredParams(userId?: string): Promise<StoredPersonalizedParams | null> {
+    try {
+      const uid = await resolveUserId(userId);
+      const raw = await this.storage.getItem(FSRSOptimizer.PARAMS_KEY_PREFIX + uid);
+      const parsed = parseStored<StoredPersonalizedParams>(raw);
+      if (!parsed || !Array.isArray(parsed.weights)) return null;
+      if (parsed.weights.length !== DEFAULT_FSRS_WEIGHTS.length) return null;
+      return parsed;
+    } catch (error) {
+      console.warn('Failed to read personalized FSRS weights:', error);
+      return null;
+    }
+  }
+}
+
+export default FSRSOptimizer;
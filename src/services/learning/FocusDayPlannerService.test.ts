@@ -0,0 +1,76 @@
+import { PlanningWindow, scheduleTasks } from './FocusDayPlannerService';
+import { Task } from '../../types';
+
+jest.mock('../storage/StorageService', () => ({ __esModule: true, default: {} }));
+jest.mock('../storage/SupabaseService', () => ({ __esModule: true, default: {} }));
+jest.mock('../integrations/TodoistService', () => ({ TodoistService: {} }));
+jest.mock('../ai/CognitiveAuraService', () => ({ CognitiveAuraService: {} }));
+jest.mock('../health/CircadianIntelligenceService', () => ({ CircadianIntelligenceService: {} }));
+jest.mock('./FocusTimerService', () => ({ FocusTimerService: {} }));
+
+const at = (hour: number, minute = 0) => new Date(2026, 9, 19, hour, minute);
+
+const window = (start: Date, end: Date, alertness: number): PlanningWindow => ({
+  start,
+  end,
+  phase: 'morning_peak',
+  alertness,
+  cursor: start.getTime(),
+});
+
+const task = (id: string, priority: number): Task =>
+  ({ id, content: `Task ${id}`, priority, isCompleted: false }) as Task;
+
+describe('scheduleTasks', () => {
+  it('gives the most urgent tasks the most alert window and splits long ones', () => {
+    const windows = [window(at(9), at(11), 0.6), window(at(14), at(16), 0.9)];
+
+    const { blocks, unscheduled } = scheduleTasks(
+      [
+        { task: task('low', 1), minutes: 30 },
+        { task: task('urgent', 4), minutes: 110 },
+      ],
+      windows,
+      300,
+      { breakMinutes: 10, maxBlockMinutes: 60 },
+    );
+
+    expect(blocks.map((block) => [block.taskId, block.start, block.minutes, `${block.part}/${block.parts}`])).toEqual([
+      ['low', at(9), 30, '1/1'],
+      ['urgent', at(14), 60, '1/2'],
+      ['urgent', at(15, 10), 50, '2/2'],
+    ]);
+    expect(unscheduled).toEqual([]);
+  });
+
+  it('leaves tasks over the focus budget unscheduled', () => {
+    const { blocks, unscheduled } = scheduleTasks(
+      [
+        { task: task('a', 4), minutes: 60 },
+        { task: task('b', 3), minutes: 60 },
+      ],
+      [window(at(9), at(12), 0.8)],
+      70,
+      {},
+    );
+
+    expect(blocks.map((block) => [block.taskId, block.minutes])).toEqual([['a', 60]]);
+    expect(unscheduled).toEqual([
+      { taskId: 'b', title: 'Task b', minutes: 60, reason: "Over today's focus capacity" },
+    ]);
+  });
+
+  it('only places a skipped task in windows that start after the skip', () => {
+    const windows = [window(at(9), at(11), 0.9), window(at(13), at(14), 0.5)];
+
+    const { blocks } = scheduleTasks(
+      [{ task: task('skipped', 4), minutes: 25, notBefore: at(9, 25) }],
+      windows,
+      300,
+      {},
+    );
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0]!.start).toEqual(at(13));
+  });
+});
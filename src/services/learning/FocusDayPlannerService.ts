@@ -0,0 +1,632 @@
+import StorageService from '../storage/StorageService';
+import SupabaseService from '../storage/SupabaseService';
+import { TodoistService } from '../integrations/TodoistService';
+import { CognitiveAuraService } from '../ai/CognitiveAuraService';
+import {
+  CircadianFocusWindow,
+  CircadianIntelligenceService,
+} from '../health/CircadianIntelligenceService';
+import { ActiveSession, FocusTimerService } from './FocusTimerService';
+import { Task } from '../../types';
+
+/**
+ * Focus Day Planner - Time-blocks open Todoist tasks into today's focus
+ * windows
+ *
+ * Tasks are ranked by priority and due date and placed, highest first, into
+ * the most alert windows the circadian model and capacity forecast predict.
+ * The total is capped by a focus budget that scales with mental clarity.
+ * While auto re-planning is on, focus sessions are matched to blocks and the
+ * rest of the day is re-planned when a block runs over or is skipped. A
+ * skipped task moves to a later window; after two skips it is left
+ * unscheduled for the day.
+ */
+
+export type PlannedBlockStatus = 'planned' | 'active' | 'done' | 'overrun' | 'skipped';
+
+export interface PlannedFocusBlock {
+  id: string;
+  taskId: string;
+  title: string;
+  start: Date;
+  end: Date;
+  minutes: number;
+  part: number; // Long tasks are split into several blocks
+  parts: number;
+  priority: number;
+  dueDate?: Date;
+  phase: CircadianFocusWindow['phase'] | 'capacity_window';
+  alertness: number;
+  status: PlannedBlockStatus;
+  actualStart?: Date;
+  actualEnd?: Date;
+}
+
+export interface UnscheduledTask {
+  taskId: string;
+  title: string;
+  minutes: number;
+  reason: string;
+}
+
+export interface FocusDayPlan {
+  date: string; // YYYY-MM-DD, local time
+  generatedAt: Date;
+  focusBudgetMinutes: number;
+  blocks: PlannedFocusBlock[];
+  unscheduled: UnscheduledTask[];
+  replanCount: number;
+  lastReplanReason?: string;
+}
+
+export interface DayPlannerOptions {
+  userId?: string;
+  from?: Date; // Defaults to now
+  until?: Date; // Defaults to the end of the last focus window
+  breakMinutes?: number;
+  maxBlockMinutes?: number;
+}
+
+export interface PlanningWindow {
+  start: Date;
+  end: Date;
+  phase: PlannedFocusBlock['phase'];
+  alertness: number;
+  cursor: number; // Next free minute (ms timestamp)
+}
+
+const DEFAULT_TASK_MINUTES = 25;
+const MIN_BLOCK_MINUTES = 15;
+const DEFAULT_MAX_BLOCK_MINUTES = 90;
+const DEFAULT_BREAK_MINUTES = 10;
+const DAILY_FOCUS_MINUTES = 300; // Budget at full mental clarity
+const GRACE_MINUTES = 10; // Lateness tolerated before a block counts as skipped/overrun
+const MAX_SKIPS = 2; // Skips after which a task is no longer planned today
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+export class FocusDayPlannerService {
+  private static instance: FocusDayPlannerService;
+
+  private storageService: StorageService;
+  private todoistService: TodoistService;
+  private focusTimerService: FocusTimerService;
+
+  private plan: FocusDayPlan | null = null;
+  private lastSession: ActiveSession | null = null;
+  private replanning: Promise<FocusDayPlan | null> | null = null;
+  private planCallbacks: ((plan: FocusDayPlan | null) => void)[] = [];
+
+  public static getInstance(): FocusDayPlannerService {
+    if (!FocusDayPlannerService.instance) {
+      FocusDayPlannerService.instance = new FocusDayPlannerService();
+    }
+    return FocusDayPlannerService.instance;
+  }
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+    this.todoistService = TodoistService.getInstance();
+    this.focusTimerService = FocusTimerService.getInstance();
+  }
+
+  /**
+   * Today's plan, or null if none was made today
+   */
+  public async getPlan(): Promise<FocusDayPlan | null> {
+    if (!this.plan) {
+      this.plan = reviveStoredPlan(await this.storageService.getFocusDayPlan());
+    }
+    if (this.plan && this.plan.date !== dateKey(new Date())) {
+      this.plan = null;
+    }
+    return this.plan;
+  }
+
+  /**
+   * Build a fresh plan for the rest of today
+   */
+  public async planDay(options: DayPlannerOptions = {}): Promise<FocusDayPlan> {
+    const from = options.from ?? new Date();
+    const tasks = await this.getOpenTasks();
+    const { windows, budget } = await this.getPlanningWindows(from, options);
+
+    const { blocks, unscheduled } = scheduleTasks(
+      tasks.map((task) => ({ task, minutes: estimateMinutes(task) })),
+      windows,
+      budget,
+      options,
+    );
+
+    const plan: FocusDayPlan = {
+      date: dateKey(from),
+      generatedAt: new Date(),
+      focusBudgetMinutes: budget,
+      blocks,
+      unscheduled,
+      replanCount: 0,
+    };
+    await this.setPlan(plan);
+
+    console.log(
+      `🗓️ Focus day planned: ${blocks.length} blocks, ${unscheduled.length} tasks left over`,
+    );
+    return plan;
+  }
+
+  /**
+   * Re-plan the rest of today around what already happened. Finished,
+   * skipped and running blocks are kept; every open task is placed again.
+   */
+  public async replan(reason: string, options: DayPlannerOptions = {}): Promise<FocusDayPlan | null> {
+    // A re-plan already in flight covers this one
+    if (this.replanning) return this.replanning;
+
+    this.replanning = (async () => {
+      const current = await this.getPlan();
+      if (!current) return null;
+
+      const now = new Date();
+      const kept = current.blocks.filter((block) => block.status !== 'planned');
+
+      // Start after the running session's planned end (or a short break from
+      // now if it is already over time)
+      let from = now;
+      const session = this.focusTimerService.getActiveSession();
+      if (session) {
+        const plannedEnd = session.startTime.getTime() + session.plannedDurationMinutes * 60 * 1000;
+        from = new Date(
+          Math.max(plannedEnd, now.getTime()) +
+            (options.breakMinutes ?? DEFAULT_BREAK_MINUTES) * 60 * 1000,
+        );
+      }
+
+      // Credit time already spent on each task; skipped tasks wait for a
+      // later window
+      const spent = new Map<string, number>();
+      const skips = new Map<string, { count: number; lastEnd: Date }>();
+      kept.forEach((block) => {
+        if (block.status === 'skipped') {
+          const previous = skips.get(block.taskId);
+          skips.set(block.taskId, {
+            count: (previous?.count ?? 0) + 1,
+            lastEnd: previous && previous.lastEnd > block.end ? previous.lastEnd : block.end,
+          });
+          return;
+        }
+        const end = block.actualEnd ?? (block.status === 'done' ? block.end : now);
+        const startedAt = block.actualStart ?? block.start;
+        const minutes = Math.max(0, (end.getTime() - startedAt.getTime()) / 60000);
+        spent.set(block.taskId, (spent.get(block.taskId) ?? 0) + minutes);
+      });
+      const running = kept.find(
+        (block) => !block.actualEnd && (block.status === 'active' || block.status === 'overrun'),
+      );
+
+      const skipped: UnscheduledTask[] = [];
+      const tasks = (await this.getOpenTasks())
+        .filter((task) => task.id !== running?.taskId)
+        .map((task) => {
+          const skip = skips.get(task.id);
+          return {
+            task,
+            minutes: estimateMinutes(task) - (spent.get(task.id) ?? 0),
+            ...(skip ? { notBefore: skip.lastEnd } : {}),
+          };
+        })
+        .filter(({ minutes }) => minutes >= MIN_BLOCK_MINUTES / 3)
+        .filter(({ task, minutes }) => {
+          const count = skips.get(task.id)?.count ?? 0;
+          if (count < MAX_SKIPS) return true;
+          skipped.push({
+            taskId: task.id,
+            title: task.content,
+            minutes: Math.round(minutes),
+            reason: `Skipped ${count} times today`,
+          });
+          return false;
+        });
+
+      const usedMinutes = Array.from(spent.values()).reduce((sum, minutes) => sum + minutes, 0);
+      const { windows, budget } = await this.getPlanningWindows(from, options);
+      const { blocks, unscheduled } = scheduleTasks(
+        tasks,
+        windows,
+        Math.max(0, budget - usedMinutes),
+        options,
+      );
+
+      const plan: FocusDayPlan = {
+        ...current,
+        generatedAt: now,
+        blocks: [...kept, ...blocks].sort((a, b) => a.start.getTime() - b.start.getTime()),
+        unscheduled: [...unscheduled, ...skipped],
+        replanCount: current.replanCount + 1,
+        lastReplanReason: reason,
+      };
+      await this.setPlan(plan);
+
+      console.log(`🔁 Focus day re-planned (${reason}): ${blocks.length} blocks ahead`);
+      return plan;
+    })();
+
+    try {
+      return await this.replanning;
+    } finally {
+      this.replanning = null;
+    }
+  }
+
+  /**
+   * Follow focus sessions against the plan: sessions on a planned task mark
+   * its block active/done, and the day is re-planned when a block runs over
+   * or its start passes without a session. Returns a stop function.
+   */
+  public startAutoReplan(options: DayPlannerOptions = {}): () => void {
+    this.lastSession = this.focusTimerService.getActiveSession();
+
+    const unsubscribe = this.focusTimerService.onSessionChange((session) => {
+      void this.checkProgress(session, options);
+    });
+    const interval = setInterval(() => {
+      void this.checkProgress(this.focusTimerService.getActiveSession(), options);
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }
+
+  /**
+   * Subscribe to plan changes (new plans, re-plans, block status updates)
+   */
+  public onPlanChange(callback: (plan: FocusDayPlan | null) => void): () => void {
+    this.planCallbacks.push(callback);
+    return () => {
+      const index = this.planCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.planCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  private async checkProgress(
+    session: ActiveSession | null,
+    options: DayPlannerOptions,
+  ): Promise<void> {
+    try {
+      const plan = await this.getPlan();
+      const previous = this.lastSession;
+      this.lastSession = session;
+      if (!plan) return;
+
+      const now = new Date();
+      const grace = GRACE_MINUTES * 60 * 1000;
+      let changed = false;
+      let replanReason: string | null = null;
+
+      // A session started on a planned task claims its next block
+      if (session && session.id !== previous?.id) {
+        const block = plan.blocks.find(
+          (candidate) => candidate.status === 'planned' && matchesTask(session.taskId, candidate.taskId),
+        );
+        if (block) {
+          block.status = 'active';
+          block.actualStart = session.startTime;
+          changed = true;
+        }
+      }
+
+      // The session that just ended closes its block
+      if (previous && previous.id !== session?.id) {
+        const block = plan.blocks.find(
+          (candidate) =>
+            !candidate.actualEnd &&
+            (candidate.status === 'active' || candidate.status === 'overrun') &&
+            matchesTask(previous.taskId, candidate.taskId),
+        );
+        if (block) {
+          block.actualEnd = now;
+          if (block.status === 'active') {
+            block.status = now.getTime() > blockDeadline(block) + grace ? 'overrun' : 'done';
+            if (block.status === 'overrun') replanReason = `"${block.title}" ran over`;
+          }
+          changed = true;
+        }
+      }
+
+      plan.blocks.forEach((block) => {
+        if (block.status === 'active' && !block.actualEnd && now.getTime() > blockDeadline(block) + grace) {
+          block.status = 'overrun';
+          replanReason = replanReason ?? `"${block.title}" is running over`;
+          changed = true;
+        } else if (block.status === 'planned' && now.getTime() > block.start.getTime() + grace) {
+          block.status = 'skipped';
+          replanReason = replanReason ?? `"${block.title}" was skipped`;
+          changed = true;
+        }
+      });
+
+      if (replanReason) {
+        await this.replan(replanReason, options);
+      } else if (changed) {
+        await this.setPlan({ ...plan });
+      }
+    } catch (error) {
+      console.error('Error checking focus plan progress:', String(error ?? 'Unknown error'));
+    }
+  }
+
+  /**
+   * Circadian windows for the rest of the day, with the capacity forecast's
+   * optimal windows laid over them, and the day's focus budget
+   */
+  private async getPlanningWindows(
+    from: Date,
+    options: DayPlannerOptions,
+  ): Promise<{ windows: PlanningWindow[]; budget: number }> {
+    // Blocks start on a 5-minute boundary
+    const slotMs = 5 * 60 * 1000;
+    from = new Date(Math.ceil(from.getTime() / slotMs) * slotMs);
+
+    const userId =
+      options.userId ?? (await SupabaseService.getInstance().getCurrentUser())?.id ?? 'local';
+
+    let windows: PlanningWindow[] = (
+      await CircadianIntelligenceService.getInstance().getOptimalFocusWindows(userId, from)
+    ).map((window) => ({ ...window, cursor: window.start.getTime() }));
+
+    let clarity = 0.6;
+    try {
+      const forecast = await CognitiveAuraService.getInstance().getCapacityForecast('short');
+      if (forecast) {
+        clarity = forecast.mentalClarityScore;
+        const capacityAlertness = Math.max(0.85, clarity);
+        if (forecast.optimalWindowRemaining > 0) {
+          windows = overlayWindow(windows, {
+            start: from,
+            end: new Date(from.getTime() + forecast.optimalWindowRemaining * 60 * 1000),
+            alertness: capacityAlertness,
+          });
+        }
+        if (forecast.nextOptimalWindow) {
+          const start = new Date(forecast.nextOptimalWindow);
+          windows = overlayWindow(windows, {
+            start,
+            end: new Date(start.getTime() + 60 * 60 * 1000),
+            alertness: capacityAlertness,
+          });
+        }
+      }
+    } catch (error) {
+      console.warn('Capacity forecast unavailable for day planning:', error);
+    }
+
+    const lastEnd = Math.max(...windows.map((window) => window.end.getTime()), from.getTime());
+    const until = (options.until ?? new Date(lastEnd)).getTime();
+    const clipped = windows
+      .map((window) => {
+        const start = Math.max(window.start.getTime(), from.getTime());
+        const end = Math.min(window.end.getTime(), until);
+        return { ...window, start: new Date(start), end: new Date(end), cursor: start };
+      })
+      .filter((window) => window.end.getTime() - window.start.getTime() >= MIN_BLOCK_MINUTES * 60 * 1000);
+
+    return {
+      windows: clipped,
+      budget: Math.round(DAILY_FOCUS_MINUTES * (0.5 + Math.max(0, Math.min(1, clarity)) / 2)),
+    };
+  }
+
+  private async getOpenTasks(): Promise<Task[]> {
+    try {
+      return (await this.todoistService.getTasks()).filter((task) => !task.isCompleted);
+    } catch (error) {
+      console.error('Error loading tasks for day planning:', String(error ?? 'Unknown error'));
+      return [];
+    }
+  }
+
+  private async setPlan(plan: FocusDayPlan): Promise<void> {
+    this.plan = plan;
+    await this.storageService.saveFocusDayPlan(plan);
+    this.planCallbacks.forEach((callback) => {
+      try {
+        callback(plan);
+      } catch (error) {
+        console.error('Error in plan callback:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Greedy time-blocking: tasks in rank order take the most alert window with
+ * room left, split into blocks of at most maxBlockMinutes with a break
+ * after each. A task with `notBefore` only goes into windows starting then
+ * or later.
+ */
+export function scheduleTasks(
+  tasks: { task: Task; minutes: number; notBefore?: Date }[],
+  windows: PlanningWindow[],
+  budget: number,
+  options: DayPlannerOptions,
+): { blocks: PlannedFocusBlock[]; unscheduled: UnscheduledTask[] } {
+  const maxBlock = options.maxBlockMinutes ?? DEFAULT_MAX_BLOCK_MINUTES;
+  const breakMs = (options.breakMinutes ?? DEFAULT_BREAK_MINUTES) * 60 * 1000;
+  const byAlertness = [...windows].sort(
+    (a, b) => b.alertness - a.alertness || a.start.getTime() - b.start.getTime(),
+  );
+
+  const blocks: PlannedFocusBlock[] = [];
+  const unscheduled: UnscheduledTask[] = [];
+  let remainingBudget = budget;
+
+  [...tasks]
+    .sort((a, b) => taskScore(b.task) - taskScore(a.task))
+    .forEach(({ task, minutes, notBefore }) => {
+      let remaining = Math.round(minutes);
+      const taskBlocks: PlannedFocusBlock[] = [];
+
+      while (remaining > 0) {
+        const want = Math.min(remaining, maxBlock, remainingBudget);
+        const needed = Math.min(want, MIN_BLOCK_MINUTES);
+        if (needed <= 0 || want < Math.min(remaining, MIN_BLOCK_MINUTES)) break;
+
+        const window = byAlertness.find(
+          (candidate) =>
+            (!notBefore || candidate.start.getTime() >= notBefore.getTime()) &&
+            candidate.end.getTime() - candidate.cursor >= needed * 60 * 1000,
+        );
+        if (!window) break;
+
+        const length = Math.min(want, Math.floor((window.end.getTime() - window.cursor) / 60000));
+        const start = new Date(window.cursor);
+        const dueDate = taskDueDate(task);
+        taskBlocks.push({
+          id: `${task.id}_${start.getTime()}`,
+          taskId: task.id,
+          title: task.content,
+          start,
+          end: new Date(window.cursor + length * 60 * 1000),
+          minutes: length,
+          part: 0,
+          parts: 0,
+          priority: task.priority,
+          ...(dueDate ? { dueDate } : {}),
+          phase: window.phase,
+          alertness: window.alertness,
+          status: 'planned',
+        });
+        window.cursor += length * 60 * 1000 + breakMs;
+        remaining -= length;
+        remainingBudget -= length;
+      }
+
+      taskBlocks
+        .sort((a, b) => a.start.getTime() - b.start.getTime())
+        .forEach((block, index) => {
+          block.part = index + 1;
+          block.parts = taskBlocks.length;
+        });
+      blocks.push(...taskBlocks);
+
+      if (remaining > 0) {
+        unscheduled.push({
+          taskId: task.id,
+          title: task.content,
+          minutes: remaining,
+          reason:
+            remainingBudget < MIN_BLOCK_MINUTES
+              ? "Over today's focus capacity"
+              : 'No room left in today\'s focus windows',
+        });
+      }
+    });
+
+  return {
+    blocks: blocks.sort((a, b) => a.start.getTime() - b.start.getTime()),
+    unscheduled,
+  };
+}
+
+/**
+ * Cut `extra` out of the windows it overlaps and add it as its own window
+ */
+function overlayWindow(
+  windows: PlanningWindow[],
+  extra: { start: Date; end: Date; alertness: number },
+): PlanningWindow[] {
+  const extraStart = extra.start.getTime();
+  const extraEnd = extra.end.getTime();
+  const result: PlanningWindow[] = [];
+
+  windows.forEach((window) => {
+    const start = window.start.getTime();
+    const end = window.end.getTime();
+    if (end <= extraStart || start >= extraEnd) {
+      result.push(window);
+      return;
+    }
+    if (start < extraStart) {
+      result.push({ ...window, end: new Date(extraStart) });
+    }
+    if (end > extraEnd) {
+      result.push({ ...window, start: new Date(extraEnd), cursor: extraEnd });
+    }
+  });
+
+  result.push({
+    start: extra.start,
+    end: extra.end,
+    phase: 'capacity_window',
+    alertness: extra.alertness,
+    cursor: extraStart,
+  });
+  return result.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Todoist priority (4 = most urgent) plus due-date urgency
+ */
+function taskScore(task: Task): number {
+  let score = task.priority * 10;
+  const due = taskDueDate(task);
+  if (due) {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const days = Math.floor((due.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+    if (days < 0) score += 40;
+    else if (days === 0) score += 30;
+    else if (days === 1) score += 10;
+  }
+  return score;
+}
+
+function taskDueDate(task: Task): Date | undefined {
+  if (task.dueDate) return new Date(task.dueDate);
+  return task.due?.date ? new Date(task.due.date) : undefined;
+}
+
+function estimateMinutes(task: Task): number {
+  return Math.max(5, Math.min(240, task.estimatedMinutes ?? DEFAULT_TASK_MINUTES));
+}
+
+/**
+ * When a running block should end: its length from when the session
+ * actually started, not from the planned start
+ */
+function blockDeadline(block: PlannedFocusBlock): number {
+  return (block.actualStart ?? block.start).getTime() + block.minutes * 60 * 1000;
+}
+
+/**
+ * Focus sessions on Todoist tasks carry the raw task id or a `task_` prefix
+ */
+function matchesTask(sessionTaskId: string, taskId: string): boolean {
+  return sessionTaskId === taskId || sessionTaskId === `task_${taskId}`;
+}
+
+function dateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function reviveStoredPlan(stored: FocusDayPlan | null): FocusDayPlan | null {
+  if (!stored?.blocks) return null;
+  return {
+    ...stored,
+    generatedAt: new Date(stored.generatedAt),
+    blocks: stored.blocks.map((block) => ({
+      ...block,
+      start: new Date(block.start),
+      end: new Date(block.end),
+      ...(block.dueDate ? { dueDate: new Date(block.dueDate) } : {}),
+      ...(block.actualStart ? { actualStart: new Date(block.actualStart) } : {}),
+      ...(block.actualEnd ? { actualEnd: new Date(block.actualEnd) } : {}),
+    })),
+  };
+}
+
+export default FocusDayPlannerService;
@@ -0,0 +1,81 @@
+import {
+  FOCUS_PROTOCOLS,
+  FocusProtocolValidationError,
+  getProtocolPlannedMinutes,
+  parseFocusProtocol,
+  resolveFocusPhase,
+  validateFocusProtocol,
+} from './FocusProtocols';
+
+describe('validateFocusProtocol', () => {
+  it('normalises a custom protocol and derives its id from the name', () => {
+    const protocol = validateFocusProtocol({
+      name: '  Deep Work ',
+      description: ' ',
+      cycle: [
+        { kind: 'work', minutes: 90, extra: true },
+        { kind: 'short_break', minutes: 20, openEnded: 'yes' },
+      ],
+    });
+
+    expect(protocol).toEqual({
+      id: 'custom_deep_work',
+      name: 'Deep Work',
+      cycle: [
+        { kind: 'work', minutes: 90 },
+        { kind: 'short_break', minutes: 20 },
+      ],
+      cycles: 1,
+    });
+  });
+
+  it.each([
+    ['name', { cycle: [{ kind: 'work', minutes: 25 }] }],
+    ['cycle', { name: 'Breaks only', cycle: [{ kind: 'short_break', minutes: 5 }] }],
+    ['cycle[0].kind', { name: 'Long', cycle: [{ kind: 'long_break', minutes: 5 }] }],
+    ['cycle[0].minutes', { name: 'Huge', cycle: [{ kind: 'work', minutes: 500 }] }],
+    ['cycles', { name: 'Many', cycle: [{ kind: 'work', minutes: 25 }], cycles: 1.5 }],
+    ['flowtime.breakRatio', { name: 'Ratio', cycle: [{ kind: 'work', minutes: 25 }], flowtime: { breakRatio: 2 } }],
+    ['id', { id: 'pomodoro', name: 'Mine', cycle: [{ kind: 'work', minutes: 25 }] }],
+  ])('rejects a bad %s', (field, input) => {
+    expect(() => validateFocusProtocol(input)).toThrow(
+      expect.objectContaining({ name: 'FocusProtocolValidationError', field }),
+    );
+  });
+
+  it('reports JSON syntax errors as validation errors', () => {
+    expect(() => parseFocusProtocol('{ name: ')).toThrow(FocusProtocolValidationError);
+  });
+});
+
+describe('resolveFocusPhase', () => {
+  const pomodoro = FOCUS_PROTOCOLS.pomodoro;
+
+  it('replaces the last break of every Nth cycle with the long break', () => {
+    expect(resolveFocusPhase(pomodoro, 0)).toEqual({
+      index: 0,
+      cycle: 1,
+      kind: 'work',
+      plannedMinutes: 25,
+      openEnded: false,
+    });
+    expect(resolveFocusPhase(pomodoro, 5)).toMatchObject({ cycle: 3, kind: 'short_break', plannedMinutes: 5 });
+    expect(resolveFocusPhase(pomodoro, 7)).toMatchObject({ cycle: 4, kind: 'long_break', plannedMinutes: 15 });
+    expect(resolveFocusPhase(pomodoro, 8)).toBeNull();
+    expect(resolveFocusPhase(pomodoro, -1)).toBeNull();
+  });
+
+  it('sizes Flowtime breaks from the work just done, within bounds', () => {
+    const flowtime = FOCUS_PROTOCOLS.flowtime;
+
+    expect(resolveFocusPhase(flowtime, 0)).toMatchObject({ kind: 'work', openEnded: true });
+    expect(resolveFocusPhase(flowtime, 1, 60)).toMatchObject({ plannedMinutes: 12 });
+    expect(resolveFocusPhase(flowtime, 1, 10)).toMatchObject({ plannedMinutes: 5 });
+    expect(resolveFocusPhase(flowtime, 1, 400)).toMatchObject({ plannedMinutes: 30 });
+  });
+
+  it('plans the whole protocol with and without breaks', () => {
+    expect(getProtocolPlannedMinutes(pomodoro)).toBe(4 * 25 + 3 * 5 + 15);
+    expect(getProtocolPlannedMinutes(pomodoro, true)).toBe(4 * 25);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Focus Protocols - Work/break phase sequences for FocusTimerService
+ *
+ * A protocol is one cycle of phases repeated a number of times:
+ * - Pomodoro: 25 min work, 5 min break, a 15 min long break every 4th cycle
+ * - 52/17: 52 min work, 17 min break
+ * - Flowtime: work until you choose to stop; the break that follows is a
+ *   share of the work just done
+ * - Custom: user-defined JSON validated with validateFocusProtocol()
+ */
+
+export type FocusPhaseKind = 'work' | 'short_break' | 'long_break';
+
+export interface FocusPhaseSpec {
+  kind: Exclude<FocusPhaseKind, 'long_break'>;
+  minutes: number; // Planned length; only an estimate for open-ended phases
+  openEnded?: boolean; // Runs until FocusTimerService.advancePhase()
+}
+
+export interface FocusProtocol {
+  id: string;
+  name: string;
+  description?: string;
+  cycle: FocusPhaseSpec[];
+  cycles: number; // Times the cycle runs
+  longBreak?: { everyCycles: number; minutes: number }; // Replaces the last break of every Nth cycle
+  flowtime?: { breakRatio: number; minBreakMinutes: number; maxBreakMinutes: number }; // Break = work x ratio
+  builtIn?: boolean;
+}
+
+export interface FocusPhasePlan {
+  index: number; // Position in the whole session, 0-based
+  cycle: number; // 1-based
+  kind: FocusPhaseKind;
+  plannedMinutes: number;
+  openEnded: boolean;
+}
+
+export const FOCUS_PROTOCOLS: Record<'pomodoro' | 'fifty_two_seventeen' | 'flowtime', FocusProtocol> = {
+  pomodoro: {
+    id: 'pomodoro',
+    name: 'Pomodoro',
+    description: '4 x 25 min work with 5 min breaks, then a 15 min long break',
+    cycle: [
+      { kind: 'work', minutes: 25 },
+      { kind: 'short_break', minutes: 5 },
+    ],
+    cycles: 4,
+    longBreak: { everyCycles: 4, minutes: 15 },
+    builtIn: true,
+  },
+  fifty_two_seventeen: {
+    id: 'fifty_two_seventeen',
+    name: '52/17',
+    description: '52 min work, 17 min break',
+    cycle: [
+      { kind: 'work', minutes: 52 },
+      { kind: 'short_break', minutes: 17 },
+    ],
+    cycles: 3,
+    builtIn: true,
+  },
+  flowtime: {
+    id: 'flowtime',
+    name: 'Flowtime',
+    description: 'Work until your focus fades; the break is a fifth of the work',
+    cycle: [
+      { kind: 'work', minutes: 45, openEnded: true },
+      { kind: 'short_break', minutes: 9 },
+    ],
+    cycles: 4,
+    flowtime: { breakRatio: 0.2, minBreakMinutes: 5, maxBreakMinutes: 30 },
+    builtIn: true,
+  },
+};
+
+const MAX_PHASE_MINUTES = 240;
+const MAX_CYCLES = 24;
+
+export class FocusProtocolValidationError extends Error {
+  constructor(message: string, public field: string) {
+    super(message);
+    this.name = 'FocusProtocolValidationError';
+  }
+}
+
+/**
+ * Check a user-defined protocol (parsed JSON) and return it normalised
+ */
+export const validateFocusProtocol = (input: unknown): FocusProtocol => {
+  if (!input || typeof input !== 'object') {
+    throw new FocusProtocolValidationError('Protocol must be an object', 'protocol');
+  }
+  const raw = input as Record<string, any>;
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    throw new FocusProtocolValidationError('Name must be a non-empty string', 'name');
+  }
+
+  if (!Array.isArray(raw.cycle) || raw.cycle.length === 0) {
+    throw new FocusProtocolValidationError('Cycle must be a non-empty list of phases', 'cycle');
+  }
+  const cycle: FocusPhaseSpec[] = raw.cycle.map((phase: any, i: number) => {
+    if (!phase || (phase.kind !== 'work' && phase.kind !== 'short_break')) {
+      throw new FocusProtocolValidationError(`Phase ${i + 1} kind must be "work" or "short_break"`, `cycle[${i}].kind`);
+    }
+    if (!isMinutes(phase.minutes)) {
+      throw new FocusProtocolValidationError(
+        `Phase ${i + 1} minutes must be between 1 and ${MAX_PHASE_MINUTES}`,
+        `cycle[${i}].minutes`,
+      );
+    }
+    return { kind: phase.kind, minutes: phase.minutes, ...(phase.openEnded === true ? { openEnded: true } : {}) };
+  });
+  if (!cycle.some((phase) => phase.kind === 'work')) {
+    throw new FocusProtocolValidationError('Cycle needs at least one work phase', 'cycle');
+  }
+
+  const cycles = raw.cycles ?? 1;
+  if (!Number.isInteger(cycles) || cycles < 1 || cycles > MAX_CYCLES) {
+    throw new FocusProtocolValidationError(`Cycles must be an integer between 1 and ${MAX_CYCLES}`, 'cycles');
+  }
+
+  let longBreak: FocusProtocol['longBreak'];
+  if (raw.longBreak !== undefined) {
+    const everyCycles = raw.longBreak?.everyCycles;
+    if (!Number.isInteger(everyCycles) || everyCycles < 1) {
+      throw new FocusProtocolValidationError('Long break everyCycles must be a positive integer', 'longBreak.everyCycles');
+    }
+    if (!isMinutes(raw.longBreak.minutes)) {
+      throw new FocusProtocolValidationError(
+        `Long break minutes must be between 1 and ${MAX_PHASE_MINUTES}`,
+        'longBreak.minutes',
+      );
+    }
+    longBreak = { everyCycles, minutes: raw.longBreak.minutes };
+  }
+
+  let flowtime: FocusProtocol['flowtime'];
+  if (raw.flowtime !== undefined) {
+    const { breakRatio, minBreakMinutes = 1, maxBreakMinutes = MAX_PHASE_MINUTES } = raw.flowtime ?? {};
+    if (!Number.isFinite(breakRatio) || breakRatio <= 0 || breakRatio > 1) {
+      throw new FocusProtocolValidationError('Flowtime breakRatio must be above 0 and at most 1', 'flowtime.breakRatio');
+    }
+    if (!isMinutes(minBreakMinutes) || !isMinutes(maxBreakMinutes) || minBreakMinutes > maxBreakMinutes) {
+      throw new FocusProtocolValidationError(
+        'Flowtime break bounds must be minutes with min not above max',
+        'flowtime.minBreakMinutes',
+      );
+    }
+    flowtime = { breakRatio, minBreakMinutes, maxBreakMinutes };
+  }
+
+  const id =
+    typeof raw.id === 'string' && raw.id.trim()
+      ? raw.id.trim()
+      : `custom_${name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || Date.now()}`;
+  if (Object.keys(FOCUS_PROTOCOLS).includes(id)) {
+    throw new FocusProtocolValidationError('Id is taken by a built-in protocol', 'id');
+  }
+
+  return {
+    id,
+    name,
+    ...(typeof raw.description === 'string' && raw.description.trim() ? { description: raw.description.trim() } : {}),
+    cycle,
+    cycles,
+    ...(longBreak ? { longBreak } : {}),
+    ...(flowtime ? { flowtime } : {}),
+  };
+};
+
+/**
+ * Parse and validate a protocol written as JSON
+ */
+export const parseFocusProtocol = (json: string): FocusProtocol => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new FocusProtocolValidationError(`Invalid JSON: ${(error as Error).message}`, 'json');
+  }
+  return validateFocusProtocol(parsed);
+};
+
+/**
+ * The phase at `index`, or null once the protocol is over. For Flowtime,
+ * breaks are sized from `lastWorkMinutes` (the work phase just finished).
+ */
+export const resolveFocusPhase = (
+  protocol: FocusProtocol,
+  index: number,
+  lastWorkMinutes?: number,
+): FocusPhasePlan | null => {
+  const perCycle = protocol.cycle.length;
+  if (index < 0 || index >= perCycle * protocol.cycles) return null;
+
+  const position = index % perCycle;
+  const cycle = Math.floor(index / perCycle) + 1;
+  const spec = protocol.cycle[position]!;
+  if (spec.kind === 'work') {
+    return { index, cycle, kind: 'work', plannedMinutes: spec.minutes, openEnded: !!spec.openEnded };
+  }
+
+  const lastBreakPosition = protocol.cycle.map((phase) => phase.kind).lastIndexOf('short_break');
+  if (protocol.longBreak && position === lastBreakPosition && cycle % protocol.longBreak.everyCycles === 0) {
+    return { index, cycle, kind: 'long_break', plannedMinutes: protocol.longBreak.minutes, openEnded: false };
+  }
+
+  let plannedMinutes = spec.minutes;
+  if (protocol.flowtime && lastWorkMinutes !== undefined) {
+    const { breakRatio, minBreakMinutes, maxBreakMinutes } = protocol.flowtime;
+    plannedMinutes = Math.min(maxBreakMinutes, Math.max(minBreakMinutes, Math.round(lastWorkMinutes * breakRatio)));
+  }
+  return { index, cycle, kind: 'short_break', plannedMinutes, openEnded: !!spec.openEnded };
+};
+
+/**
+ * Planned length of the whole protocol, breaks included unless `workOnly`
+ */
+export const getProtocolPlannedMinutes = (protocol: FocusProtocol, workOnly = false): number => {
+  let total = 0;
+  let lastWorkMinutes: number | undefined;
+  for (let index = 0; ; index++) {
+    const phase = resolveFocusPhase(protocol, index, lastWorkMinutes);
+    if (!phase) return total;
+    if (!workOnly || phase.kind === 'work') total += phase.plannedMinutes;
+    if (phase.kind === 'work') lastWorkMinutes = phase.plannedMinutes;
+  }
+};
+
+function isMinutes(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 1 && value <= MAX_PHASE_MINUTES;
+}
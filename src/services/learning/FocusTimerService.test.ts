@@ -0,0 +1,167 @@
+import type { FocusTimerService } from './FocusTimerService';
+import { FOCUS_PROTOCOLS } from './FocusProtocols';
+import type { FocusSession } from '../storage/StorageService';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 9, 19, 9, 0);
+
+const mockStore = {
+  journal: null as unknown,
+  saved: [] as FocusSession[],
+};
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      pruneOldFocusData: async () => undefined,
+      getDistractionEvents: async () => [],
+      saveFocusSession: async (session: FocusSession) => {
+        mockStore.saved.push(session);
+      },
+      // The journal comes back JSON-decoded, dates as strings
+      getFocusSessionJournal: async () => mockStore.journal,
+      saveFocusSessionJournal: async (journal: unknown) => {
+        mockStore.journal = JSON.parse(JSON.stringify(journal));
+      },
+      clearFocusSessionJournal: async () => {
+        mockStore.journal = null;
+      },
+      getLogicNodes: async () => [],
+      getFlashcards: async () => [],
+    }),
+  },
+}));
+jest.mock('../integrations/TodoistService', () => ({
+  TodoistService: { getInstance: () => ({}) },
+}));
+jest.mock('./MindMapGeneratorService', () => ({
+  MindMapGenerator: {
+    getInstance: () => ({
+      generateNeuralGraph: async () => ({ dueNodesCount: 0, cognitiveComplexity: 0, knowledgeHealth: 100 }),
+    }),
+  },
+}));
+jest.mock('./EyeTrackingService', () => ({ eyeTrackingService: {} }));
+
+/**
+ * The service as a new run of the app sees it: a fresh singleton that loads
+ * whatever the last run journaled
+ */
+const launchApp = (): FocusTimerService => {
+  // The previous run was killed with its timers (clearing them also resets the clock)
+  const now = Date.now();
+  jest.clearAllTimers();
+  jest.setSystemTime(now);
+  let service!: FocusTimerService;
+  jest.isolateModules(() => {
+    service = require('./FocusTimerService').FocusTimerService.getInstance();
+  });
+  return service;
+};
+
+const at = (minutes: number) => new Date(NOW.getTime() + minutes * MINUTE);
+
+describe('FocusTimerService crash recovery', () => {
+  beforeAll(() => {
+    jest.useFakeTimers({ now: NOW });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.setSystemTime(NOW);
+    mockStore.journal = null;
+    mockStore.saved = [];
+  });
+
+  it('resumes a killed session with the time it has left', async () => {
+    const started = await launchApp().startSession('reading', undefined, 25, 0.5);
+
+    jest.setSystemTime(at(10));
+    const service = launchApp();
+    expect(await service.getOrphanedSession()).toMatchObject({
+      session: { id: started.id },
+      elapsedMinutes: 10,
+      remainingMinutes: 15,
+      endedAt: null,
+    });
+
+    const recovered = await service.recoverOrphanedSession();
+    expect(recovered).toMatchObject({ status: 'resumed', session: { id: started.id } });
+    expect(await service.getOrphanedSession()).toBeNull();
+
+    // The session ends on its original schedule
+    await jest.advanceTimersByTimeAsync(15 * MINUTE);
+    expect(mockStore.saved).toHaveLength(1);
+    expect(mockStore.saved[0]).toMatchObject({ id: started.id, durationMinutes: 25 });
+    expect(mockStore.journal).toBeNull();
+  });
+
+  it('saves a session that ran out only once the user has rated it', async () => {
+    await launchApp().startSession('reading', undefined, 25, 0.5);
+
+    jest.setSystemTime(at(40));
+    const service = launchApp();
+    expect(await service.getOrphanedSession()).toMatchObject({ remainingMinutes: 0, endedAt: at(25) });
+
+    await expect(service.recoverOrphanedSession()).rejects.toThrow('rate it');
+    expect(await service.getOrphanedSession()).not.toBeNull();
+    expect(mockStore.saved).toEqual([]);
+
+    const recovered = await service.recoverOrphanedSession({
+      selfReportFocus: 2,
+      completionRate: 0.5,
+      distractionReason: 'Session interrupted',
+    });
+    expect(recovered).toMatchObject({ status: 'completed' });
+    expect(mockStore.saved[0]).toMatchObject({
+      endTime: at(25),
+      durationMinutes: 25,
+      selfReportFocus: 2,
+      completionRate: 0.5,
+      distractionReason: 'Session interrupted',
+    });
+    expect(service.getActiveSession()).toBeNull();
+    expect(mockStore.journal).toBeNull();
+  });
+
+  it('forgets a discarded session without recording it', async () => {
+    await launchApp().startSession('reading', undefined, 25, 0.5);
+
+    jest.setSystemTime(at(5));
+    await launchApp().discardOrphanedSession();
+
+    expect(mockStore.journal).toBeNull();
+    expect(mockStore.saved).toEqual([]);
+    expect(await launchApp().getOrphanedSession()).toBeNull();
+  });
+
+  it('replays the protocol phases that ran while the app was closed', async () => {
+    await launchApp().startSession('reading', undefined, 0, 0.5, FOCUS_PROTOCOLS.pomodoro);
+
+    jest.setSystemTime(at(27));
+    const service = launchApp();
+    expect(await service.getOrphanedSession()).toMatchObject({ endedAt: null });
+    const recovered = await service.recoverOrphanedSession();
+    expect(recovered!.session.protocol).toMatchObject({
+      currentPhase: { index: 1, kind: 'short_break', startTime: at(25) },
+      completedPhases: [{ index: 0, kind: 'work', startTime: NOW, endTime: at(25) }],
+    });
+
+    // Killed again and back after the whole protocol: 4 x 25 work, 3 x 5 break and a 15 min long break
+    jest.setSystemTime(at(200));
+    const later = launchApp();
+    expect(await later.getOrphanedSession()).toMatchObject({ remainingMinutes: 0, endedAt: at(130) });
+    const completed = await later.recoverOrphanedSession({ selfReportFocus: 4, completionRate: 1 });
+    expect(completed!.session).toMatchObject({
+      endTime: at(130),
+      durationMinutes: 100,
+      protocol: { workMinutes: 100, breakMinutes: 30, cyclesCompleted: 4 },
+    });
+  });
+});
@@ -4,11 +4,21 @@ import {
   DistractionEvent,
   FocusSession,
   FocusHealthMetrics,
+  FocusProtocolSummary,
 } from '../storage/StorageService';
 import { TodoistService } from '../integrations/TodoistService';
 import { MindMapGenerator } from './MindMapGeneratorService';
 import { eyeTrackingService } from './EyeTrackingService';
 import { NeuroIDGenerator } from '../../utils/idGenerator';
+import {
+  FOCUS_PROTOCOLS,
+  FocusPhasePlan,
+  FocusProtocol,
+  FocusProtocolValidationError,
+  getProtocolPlannedMinutes,
+  parseFocusProtocol,
+  resolveFocusPhase,
+} from './FocusProtocols';
 
 /**
  * Phase 6: Focus Timer Service - Anti-Distraction Layer
@@ -27,13 +37,48 @@ export interface ActiveSession {
   distractionCount: number;
   cognitiveLoadStart: number;
   focusLockActive: boolean;
+  protocol?: ActiveProtocolState; // Set when the session runs a multi-phase protocol
+}
+
+export interface FocusPhase extends FocusPhasePlan {
+  startTime: Date;
+  endTime?: Date; // Set once the phase has run its course
+}
+
+export interface ActiveProtocolState {
+  protocol: FocusProtocol; // Copied in so a running session survives edits to custom protocols
+  currentPhase: FocusPhase;
+  completedPhases: FocusPhase[];
+}
+
+/**
+ * What is written to storage while a session runs, so the session survives
+ * the app being killed or reloaded
+ */
+export interface FocusSessionJournal {
+  session: ActiveSession;
+  todoistSession?: FocusSession; // TodoistService timer started with the session
+  journaledAt: Date;
 }
 
+export interface OrphanedFocusSession {
+  session: ActiveSession;
+  elapsedMinutes: number; // Wall clock time since the session started
+  remainingMinutes: number; // 0 once the planned time has passed
+  endedAt: Date | null; // When it ran out while the app was closed
+  lastJournaledAt: Date;
+}
+
+export type RecoveredFocusSession =
+  | { status: 'resumed'; session: ActiveSession }
+  | { status: 'completed'; session: FocusSession };
+
 export interface DistractionLogOptions {
   reason?: string;
   severity?: 1 | 2 | 3 | 4 | 5;
   triggerType?: 'internal' | 'external' | 'notification' | 'unknown';
   duration?: number;
+  appName?: string;
 }
 
 /**
@@ -92,6 +137,16 @@ export const validateDistractionLogOptions = (
       'duration',
     );
   }
+
+  if (
+    options.appName !== undefined &&
+    (typeof options.appName !== 'string' || options.appName.trim().length === 0)
+  ) {
+    throw new DistractionLogValidationError(
+      'App name must be a non-empty string',
+      'appName',
+    );
+  }
 };
 
 /**
@@ -167,6 +222,12 @@ export class FocusTimerService {
   private activeSession: ActiveSession | null = null;
   private sessionTimer: NodeJS.Timeout | null = null;
   private distractionTimer: NodeJS.Timeout | null = null;
+  private todoistSession: FocusSession | null = null;
+
+  // Crash safety: journal writes run in order; a journal left by an earlier
+  // run that never ended its session is an orphan awaiting recover/discard
+  private journalWrites: Promise<void> = Promise.resolve();
+  private orphanedJournal: Promise<FocusSessionJournal | null>;
 
   // Event listeners
   private sessionCallbacks: ((session: ActiveSession | null) => void)[] = [];
@@ -184,6 +245,7 @@ export class FocusTimerService {
   this.storageService = StorageService.getInstance();
     this.todoistService = TodoistService.getInstance();
     this.mindMapGenerator = MindMapGenerator.getInstance();
+    this.orphanedJournal = this.loadJournal();
 
     console.log('🔒 Focus Timer Service initialized for Phase 5.5');
   }
@@ -262,7 +324,9 @@ export class FocusTimerService {
 
     // Auto-resume after 5 minutes
     setTimeout(() => {
-      if (this.activeSession) {
+      if (this.activeSession?.protocol) {
+        this.startPhaseTimer();
+      } else if (this.activeSession) {
         // restart session timer for remaining planned minutes
         this.sessionTimer = setTimeout(
           () => this.handleSessionTimeUp(),
@@ -295,6 +359,7 @@ export class FocusTimerService {
     // store lightly on the activeSession for session-level reporting
     if (this.activeSession) {
       this.activeSession.cognitiveLoadStart = clamped;
+      void this.journalActiveSession();
     }
     console.log(`🧠 Cognitive load updated to: ${clamped}`);
     // Emit an event for UI/other services
@@ -307,6 +372,7 @@ export class FocusTimerService {
           0.3,
           this.activeSession.cognitiveLoadStart - 0.2,
         );
+        void this.journalActiveSession();
         this.notifySessionListeners();
       }
     }, duration);
@@ -325,13 +391,16 @@ export class FocusTimerService {
   }
 
   /**
-   * Phase 5.5: Start a new focus session with anti-distraction enforcement
+   * Phase 5.5: Start a new focus session with anti-distraction enforcement.
+   * With a protocol, the session runs its phases in turn and
+   * plannedDurationMinutes is replaced by the protocol's planned total.
    */
   public async startSession(
     taskId: string,
     nodeId: string | undefined,
     plannedDurationMinutes: number,
     cognitiveLoadStart: number,
+    protocol?: FocusProtocol,
   ): Promise<ActiveSession> {
     try {
       // Periodic cleanup: prune old focus data to prevent storage bloat
@@ -346,28 +415,47 @@ export class FocusTimerService {
         });
       }
 
+      // A new session replaces any orphaned one in the journal
+      this.orphanedJournal = Promise.resolve(null);
+
       // Generate unique session ID using NeuroIDGenerator for UUID compliance
       const sessionId = NeuroIDGenerator.generateLogicNodeID();
+      const startTime = new Date();
+
+      let protocolState: ActiveProtocolState | undefined;
+      if (protocol) {
+        const firstPhase = resolveFocusPhase(protocol, 0);
+        if (!firstPhase) {
+          throw new Error(`Protocol ${protocol.id} has no phases`);
+        }
+        plannedDurationMinutes = getProtocolPlannedMinutes(protocol);
+        protocolState = {
+          protocol,
+          currentPhase: { ...firstPhase, startTime },
+          completedPhases: [],
+        };
+      }
 
       // Create active session
       this.activeSession = {
         id: sessionId,
         taskId,
         ...(nodeId ? { nodeId } : {}),
-        startTime: new Date(),
+        startTime,
         plannedDurationMinutes,
         distractionCount: 0,
         cognitiveLoadStart,
         focusLockActive: false,
+        ...(protocolState ? { protocol: protocolState } : {}),
       } as ActiveSession;
 
-      // Phase 5.5: Enforce Focus Lock
-      await this.engageFocusLock();
+      // Phase 5.5: Enforce Focus Lock (protocols lock work phases only)
+      await this.applyPhaseLock();
 
       // Start Todoist timer integration
       if (taskId.startsWith('task_')) {
         const realTaskId = taskId.replace('task_', '');
-        this.todoistService.startTaskTimer(
+        this.todoistSession = await this.todoistService.startTaskTimer(
           realTaskId,
           nodeId,
           plannedDurationMinutes,
@@ -376,15 +464,23 @@ export class FocusTimerService {
       }
 
       // Set up session completion timer
-      this.sessionTimer = setTimeout(() => {
-        this.handleSessionTimeUp();
-      }, plannedDurationMinutes * 60 * 1000);
+      if (protocolState) {
+        this.startPhaseTimer();
+      } else {
+        this.sessionTimer = setTimeout(() => {
+          this.handleSessionTimeUp();
+        }, plannedDurationMinutes * 60 * 1000);
+      }
+
+      await this.journalActiveSession();
 
       // Notify listeners
       this.notifySessionListeners();
 
       console.log(
-        `🎯 Focus session started: ${sessionId} (${plannedDurationMinutes}min)`,
+        `🎯 Focus session started: ${sessionId} (${plannedDurationMinutes}min${
+          protocol ? `, ${protocol.name}` : ''
+        })`,
       );
       console.log(`🔒 Anti-distraction layer active`);
 
@@ -396,11 +492,13 @@ export class FocusTimerService {
   }
 
   /**
-   * Phase 5.5: Log a distraction event during active session
+   * Phase 5.5: Log a distraction event during active session. Returns null
+   * during a protocol break: time away is the point of a break, so nothing
+   * is recorded or penalised.
    */
   public async logDistraction(
     options: DistractionLogOptions = {},
-  ): Promise<DistractionEvent> {
+  ): Promise<DistractionEvent | null> {
     if (!this.activeSession) {
       throw new Error('No active session to log distraction');
     }
@@ -418,6 +516,12 @@ export class FocusTimerService {
       throw validationError;
     }
 
+    const phase = this.activeSession.protocol?.currentPhase;
+    if (phase && phase.kind !== 'work') {
+      console.log(`☕ Distraction during ${phase.kind} not counted`);
+      return null;
+    }
+
     try {
       const distractionEvent: DistractionEvent = {
         id: `distraction_${Date.now()}_${Math.random()
@@ -429,6 +533,7 @@ export class FocusTimerService {
         severity: options.severity || 3,
         triggerType: options.triggerType || 'unknown',
         ...(options.duration !== undefined ? { duration: options.duration } : {}),
+        ...(options.appName ? { appName: options.appName.trim() } : {}),
         contextSwitch: false, // Could be detected via app state changes
       } as DistractionEvent;
 
@@ -442,6 +547,7 @@ export class FocusTimerService {
 
       // Update active session distraction count
       this.activeSession.distractionCount++;
+      await this.journalActiveSession();
 
       // Phase 5.5: Apply neural penalty for distraction
       await this.applyDistractionPenalty(distractionEvent);
@@ -468,6 +574,17 @@ export class FocusTimerService {
    */
   public async endSession(
     options: SessionEndOptions,
+  ): Promise<FocusSession | null> {
+    return this.finishSession(options, new Date());
+  }
+
+  /**
+   * End the active session as of `endTime` (earlier than now when a
+   * recovered session ran out while the app was closed)
+   */
+  private async finishSession(
+    options: SessionEndOptions,
+    endTime: Date,
   ): Promise<FocusSession | null> {
     if (!this.activeSession) {
       console.warn('No active session to end');
@@ -475,7 +592,6 @@ export class FocusTimerService {
     }
 
     try {
-      const endTime = new Date();
       const actualDurationMinutes = Math.round(
         (endTime.getTime() - this.activeSession.startTime.getTime()) /
           (1000 * 60),
@@ -491,6 +607,11 @@ export class FocusTimerService {
         actualDurationMinutes / this.activeSession.plannedDurationMinutes;
       const cognitiveLoadEnd = await this.calculateEndCognitiveLoad();
 
+      // Protocol sessions record focus time: work phases only, not breaks
+      const protocolSummary = this.activeSession.protocol
+        ? summariseProtocol(this.activeSession.protocol, endTime)
+        : undefined;
+
       // Create completed session record
       const completedSession: FocusSession = {
         id: this.activeSession.id,
@@ -498,8 +619,10 @@ export class FocusTimerService {
         ...(this.activeSession.nodeId ? { nodeId: this.activeSession.nodeId } : {}),
         startTime: this.activeSession.startTime,
         endTime: endTime,
-        durationMinutes: actualDurationMinutes,
-        plannedDurationMinutes: this.activeSession.plannedDurationMinutes,
+        durationMinutes: protocolSummary ? protocolSummary.workMinutes : actualDurationMinutes,
+        plannedDurationMinutes: this.activeSession.protocol
+          ? getProtocolPlannedMinutes(this.activeSession.protocol.protocol, true)
+          : this.activeSession.plannedDurationMinutes,
         distractionCount: this.activeSession.distractionCount,
         distractionEvents: distractionEvents,
   selfReportFocus: options.selfReportFocus,
@@ -519,6 +642,7 @@ export class FocusTimerService {
 
         created: this.activeSession.startTime,
         modified: endTime,
+        ...(protocolSummary ? { protocol: protocolSummary } : {}),
       };
 
       // Save completed session with retry logic
@@ -552,6 +676,8 @@ export class FocusTimerService {
       // Clear active session
       const sessionToReturn = { ...completedSession };
       this.activeSession = null;
+      this.todoistSession = null;
+      await this.journalActiveSession();
 
       // Clear timers
       if (this.sessionTimer) {
@@ -568,7 +694,7 @@ export class FocusTimerService {
 
       console.log(`🏁 Focus session completed: ${completedSession.id}`);
       console.log(
-        `📊 Session stats: ${actualDurationMinutes}min, ${completedSession.distractionCount} distractions, focus: ${options.selfReportFocus}/5`,
+        `📊 Session stats: ${completedSession.durationMinutes}min, ${completedSession.distractionCount} distractions, focus: ${options.selfReportFocus}/5`,
       );
       console.log(`🔓 Anti-distraction layer disengaged`);
 
@@ -850,6 +976,322 @@ export class FocusTimerService {
     });
   }
 
+  // ==================== FOCUS PROTOCOLS ====================
+
+  /**
+   * Built-in protocols followed by the user's own
+   */
+  public async getFocusProtocols(): Promise<FocusProtocol[]> {
+    const custom = await this.storageService.getCustomFocusProtocols();
+    return [...Object.values(FOCUS_PROTOCOLS), ...custom];
+  }
+
+  /**
+   * Validate a protocol written as JSON and store it, replacing any custom
+   * protocol with the same id
+   */
+  public async saveCustomProtocol(json: string): Promise<FocusProtocol> {
+    let protocol: FocusProtocol;
+    try {
+      protocol = parseFocusProtocol(json);
+    } catch (validationError) {
+      if (validationError instanceof FocusProtocolValidationError) {
+        console.error(
+          `Focus protocol validation failed: ${validationError.message} (field: ${validationError.field})`,
+        );
+      }
+      throw validationError;
+    }
+
+    const custom = await this.storageService.getCustomFocusProtocols();
+    await this.storageService.saveCustomFocusProtocols([
+      ...custom.filter((existing) => existing.id !== protocol.id),
+      protocol,
+    ]);
+    console.log(`🧩 Focus protocol saved: ${protocol.name}`);
+    return protocol;
+  }
+
+  public async deleteCustomProtocol(protocolId: string): Promise<void> {
+    const custom = await this.storageService.getCustomFocusProtocols();
+    await this.storageService.saveCustomFocusProtocols(
+      custom.filter((protocol) => protocol.id !== protocolId),
+    );
+  }
+
+  /**
+   * End the current protocol phase now and start the next one. This is how
+   * open-ended (Flowtime) work phases finish; timed phases also call it when
+   * they run out. After the last phase the session completes.
+   */
+  public async advancePhase(): Promise<ActiveSession | null> {
+    if (!this.activeSession?.protocol) {
+      console.warn('No protocol session to advance');
+      return null;
+    }
+
+    const step = this.stepPhase(this.activeSession, new Date());
+    this.activeSession = step.session;
+    if (!step.advanced) {
+      await this.handleSessionTimeUp();
+      return null;
+    }
+
+    await this.applyPhaseLock();
+    this.startPhaseTimer();
+    await this.journalActiveSession();
+    this.notifySessionListeners();
+
+    const phase = this.activeSession.protocol!.currentPhase;
+    console.log(
+      `⏭️ Focus phase ${phase.index + 1}: ${phase.kind} (${phase.plannedMinutes}min${
+        phase.openEnded ? ', open-ended' : ''
+      })`,
+    );
+    return this.activeSession;
+  }
+
+  /**
+   * Close the current phase as of `at` and open the next. `advanced` is
+   * false when the protocol has no phases left (the closed phase stays
+   * current). A new session object is returned so listeners see a new
+   * reference.
+   */
+  private stepPhase(session: ActiveSession, at: Date): { session: ActiveSession; advanced: boolean } {
+    const state = session.protocol!;
+    const closed: FocusPhase = { ...state.currentPhase, endTime: at };
+    const lastWorkMinutes =
+      closed.kind === 'work'
+        ? (at.getTime() - closed.startTime.getTime()) / (1000 * 60)
+        : undefined;
+    const next = resolveFocusPhase(state.protocol, closed.index + 1, lastWorkMinutes);
+
+    return {
+      session: {
+        ...session,
+        protocol: next
+          ? {
+              ...state,
+              currentPhase: { ...next, startTime: at },
+              completedPhases: [...state.completedPhases, closed],
+            }
+          : { ...state, currentPhase: closed },
+      },
+      advanced: next !== null,
+    };
+  }
+
+  /**
+   * Time the current phase; open-ended phases wait for advancePhase()
+   */
+  private startPhaseTimer(): void {
+    if (this.sessionTimer) {
+      clearTimeout(this.sessionTimer);
+      this.sessionTimer = null;
+    }
+
+    const phase = this.activeSession?.protocol?.currentPhase;
+    if (!phase || phase.openEnded) return;
+
+    const remainingMs =
+      phase.startTime.getTime() + phase.plannedMinutes * 60 * 1000 - Date.now();
+    this.sessionTimer = setTimeout(() => {
+      void this.advancePhase();
+    }, Math.max(0, remainingMs));
+  }
+
+  /**
+   * Work phases (and sessions without a protocol) hold the focus lock;
+   * breaks release it
+   */
+  private async applyPhaseLock(): Promise<void> {
+    const phase = this.activeSession?.protocol?.currentPhase;
+    if (!phase || phase.kind === 'work') {
+      await this.engageFocusLock();
+    } else {
+      await this.disengageFocusLock();
+    }
+  }
+
+  /**
+   * Where a journaled session stands at `now`: the timed protocol phases it
+   * went through while the app was closed are replayed, and `endedAt` is
+   * set when its planned time ran out
+   */
+  private replayOrphan(session: ActiveSession, now: number): { session: ActiveSession; endedAt: Date | null } {
+    if (!session.protocol) {
+      const plannedEnd = session.startTime.getTime() + session.plannedDurationMinutes * 60 * 1000;
+      return { session, endedAt: plannedEnd <= now ? new Date(plannedEnd) : null };
+    }
+
+    for (;;) {
+      const phase = session.protocol!.currentPhase;
+      if (phase.openEnded) return { session, endedAt: null };
+
+      const phaseEnd = new Date(
+        phase.startTime.getTime() + phase.plannedMinutes * 60 * 1000,
+      );
+      if (phaseEnd.getTime() > now) return { session, endedAt: null };
+      const step = this.stepPhase(session, phaseEnd);
+      session = step.session;
+      if (!step.advanced) return { session, endedAt: phaseEnd };
+    }
+  }
+
+  // ==================== CRASH RECOVERY ====================
+
+  /**
+   * A session from an earlier run of the app that never ended (the app was
+   * killed or reloaded mid-session). Null when there is none.
+   */
+  public async getOrphanedSession(): Promise<OrphanedFocusSession | null> {
+    const journal = await this.orphanedJournal;
+    if (!journal || this.activeSession) return null;
+
+    const now = Date.now();
+    const elapsedMinutes =
+      Math.max(0, now - journal.session.startTime.getTime()) / (1000 * 60);
+    const { endedAt } = this.replayOrphan(journal.session, now);
+    return {
+      session: journal.session,
+      elapsedMinutes: Math.round(elapsedMinutes),
+      remainingMinutes: endedAt
+        ? 0
+        : Math.max(0, Math.ceil(journal.session.plannedDurationMinutes - elapsedMinutes)),
+      endedAt,
+      lastJournaledAt: journal.journaledAt,
+    };
+  }
+
+  /**
+   * Pick up an orphaned session. With time left it resumes at the point the
+   * wall clock says it has reached. A session that ran out is completed as
+   * of its planned end with the user's own rating, so `endOptions` is
+   * required then.
+   */
+  public async recoverOrphanedSession(
+    endOptions?: SessionEndOptions,
+  ): Promise<RecoveredFocusSession | null> {
+    const journal = await this.orphanedJournal;
+    if (!journal || this.activeSession) return null;
+
+    const now = Date.now();
+    const { session, endedAt } = this.replayOrphan({ ...journal.session }, now);
+    if (endedAt && !endOptions) {
+      throw new Error('Session ran out while the app was closed; rate it to save it');
+    }
+    this.orphanedJournal = Promise.resolve(null);
+
+    this.activeSession = session;
+    if (journal.todoistSession) {
+      this.todoistSession = journal.todoistSession;
+      this.todoistService.restoreTaskTimer(journal.todoistSession);
+    }
+
+    if (endedAt && endOptions) {
+      const completed = await this.finishSession(endOptions, endedAt);
+      return completed ? { status: 'completed', session: completed } : null;
+    }
+
+    const remainingMs = session.protocol
+      ? Infinity
+      : session.startTime.getTime() + session.plannedDurationMinutes * 60 * 1000 - now;
+    await this.applyPhaseLock();
+    if (this.activeSession.protocol) {
+      this.startPhaseTimer();
+    } else {
+      this.sessionTimer = setTimeout(() => {
+        this.handleSessionTimeUp();
+      }, remainingMs);
+    }
+    await this.journalActiveSession();
+    this.notifySessionListeners();
+
+    console.log(
+      `♻️ Focus session recovered: ${journal.session.id}${
+        Number.isFinite(remainingMs) ? ` (${Math.round(remainingMs / 60000)}min left)` : ''
+      }`,
+    );
+    return { status: 'resumed', session: this.activeSession };
+  }
+
+  /**
+   * Drop an orphaned session without recording it. Distractions already
+   * logged for it stay in storage.
+   */
+  public async discardOrphanedSession(): Promise<void> {
+    const journal = await this.orphanedJournal;
+    this.orphanedJournal = Promise.resolve(null);
+    if (!journal || this.activeSession) return;
+
+    await this.journalActiveSession();
+    console.log(`🗑️ Orphaned focus session discarded: ${journal.session.id}`);
+  }
+
+  /**
+   * Write the active session (or clear the journal when there is none).
+   * Writes are chained so an older state can never land after a newer one.
+   */
+  private journalActiveSession(): Promise<void> {
+    const journal: FocusSessionJournal | null = this.activeSession
+      ? {
+          session: { ...this.activeSession },
+          ...(this.todoistSession ? { todoistSession: this.todoistSession } : {}),
+          journaledAt: new Date(),
+        }
+      : null;
+
+    this.journalWrites = this.journalWrites
+      .then(() =>
+        journal
+          ? this.storageService.saveFocusSessionJournal(journal)
+          : this.storageService.clearFocusSessionJournal(),
+      )
+      .catch((error) => {
+        console.error('Error journaling focus session:', String(error ?? 'Unknown error'));
+      });
+    return this.journalWrites;
+  }
+
+  private async loadJournal(): Promise<FocusSessionJournal | null> {
+    try {
+      const stored = await this.storageService.getFocusSessionJournal();
+      if (!stored?.session) return null;
+
+      const { todoistSession, session } = stored;
+      return {
+        session: {
+          ...session,
+          startTime: new Date(session.startTime),
+          ...(session.protocol
+            ? {
+                protocol: {
+                  ...session.protocol,
+                  currentPhase: revivePhase(session.protocol.currentPhase),
+                  completedPhases: session.protocol.completedPhases.map(revivePhase),
+                },
+              }
+            : {}),
+        },
+        ...(todoistSession
+          ? {
+              todoistSession: {
+                ...todoistSession,
+                startTime: new Date(todoistSession.startTime),
+                endTime: new Date(todoistSession.endTime),
+                created: new Date(todoistSession.created),
+                modified: new Date(todoistSession.modified),
+              },
+            }
+          : {}),
+        journaledAt: new Date(stored.journaledAt),
+      };
+    } catch (error) {
+      console.error('Error loading focus session journal:', String(error ?? 'Unknown error'));
+      return null;
+    }
+  }
+
   // ==================== PUBLIC QUERY METHODS ====================
 
   /**
@@ -1051,4 +1493,51 @@ export class FocusTimerService {
   }
 }
 
+/**
+ * Per-phase record of a protocol session for the stored FocusSession. A
+ * phase counts toward cyclesCompleted only if it ran its course.
+ */
+function summariseProtocol(
+  state: ActiveProtocolState,
+  endTime: Date,
+): FocusProtocolSummary {
+  const ranCourse = state.currentPhase.endTime
+    ? [...state.completedPhases, state.currentPhase]
+    : state.completedPhases;
+  const phases = [...state.completedPhases, state.currentPhase].map((phase) => ({
+    kind: phase.kind,
+    cycle: phase.cycle,
+    plannedMinutes: phase.plannedMinutes,
+    actualMinutes: Math.max(
+      0,
+      Math.round(
+        ((phase.endTime ?? endTime).getTime() - phase.startTime.getTime()) /
+          (1000 * 60),
+      ),
+    ),
+  }));
+
+  const perCycle = state.protocol.cycle.length;
+  return {
+    protocolId: state.protocol.id,
+    protocolName: state.protocol.name,
+    phases,
+    workMinutes: phases
+      .filter((phase) => phase.kind === 'work')
+      .reduce((sum, phase) => sum + phase.actualMinutes, 0),
+    breakMinutes: phases
+      .filter((phase) => phase.kind !== 'work')
+      .reduce((sum, phase) => sum + phase.actualMinutes, 0),
+    cyclesCompleted: Math.floor(ranCourse.length / perCycle),
+  };
+}
+
+function revivePhase(phase: FocusPhase): FocusPhase {
+  return {
+    ...phase,
+    startTime: new Date(phase.startTime),
+    ...(phase.endTime ? { endTime: new Date(phase.endTime) } : {}),
+  };
+}
+
 export default FocusTimerService;
@@ -0,0 +1,101 @@
+import HighlightFlashcardService from './HighlightFlashcardService';
+import type { SourceLink } from './SpeedReadingService';
+import { Flashcard } from '../../types';
+
+const mockStore = {
+  flashcards: [] as Flashcard[],
+  sourceLinks: [] as SourceLink[],
+  aiCard: null as { front: string; back: string } | null,
+};
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getFlashcards: async () => mockStore.flashcards,
+      saveFlashcards: async (cards: Flashcard[]) => {
+        mockStore.flashcards = cards;
+      },
+      getSourceLinks: async () => mockStore.sourceLinks,
+      saveSourceLinks: async (links: SourceLink[]) => {
+        mockStore.sourceLinks = links;
+      },
+    }),
+  },
+}));
+jest.mock('./AICoachingService', () => ({
+  aiCoachingService: { generateFlashcard: async () => mockStore.aiCard },
+}));
+
+const highlight = (text: string) => ({
+  text,
+  textSource: 'document:bio',
+  sessionId: 'session_1',
+  highlightId: 'hl_1',
+  documentId: 'bio',
+  chapterIndex: 2,
+  title: 'Cell Biology',
+});
+
+describe('HighlightFlashcardService', () => {
+  const service = HighlightFlashcardService.getInstance();
+
+  beforeEach(() => {
+    mockStore.flashcards = [];
+    mockStore.sourceLinks = [];
+    mockStore.aiCard = null;
+  });
+
+  it('hides numbers and names before long words in cloze cards', () => {
+    expect(service.toCloze('In 1953 Watson and Crick described the double helix')).toEqual({
+      text: 'In {{c1::1953}} {{c2::Watson}} and Crick described the double helix',
+      terms: ['1953', 'Watson'],
+    });
+    expect(service.toCloze('It was a big day')).toBeNull();
+  });
+
+  it('turns definition sentences into questions offline', () => {
+    expect(service.toQuestion('The mitochondria is the powerhouse of the cell.')).toEqual({
+      front: 'What is mitochondria?',
+      back: 'The powerhouse of the cell',
+      subject: 'mitochondria',
+    });
+    expect(service.toQuestion('Osmosis refers to the movement of water')).toMatchObject({
+      front: 'What does Osmosis refer to?',
+    });
+    expect(service.toQuestion('Read the chapter twice')).toBeNull();
+  });
+
+  it('prefers the AI card and falls back to a cloze when no question fits', async () => {
+    mockStore.aiCard = { front: 'What does ATP synthase make?', back: 'ATP' };
+    const ai = await service.createCards(highlight('ATP synthase makes ATP from ADP'));
+    expect(ai).toMatchObject({ mode: 'qa', aiGenerated: true });
+    expect(ai.cards[0]!.back).toBe('ATP\n\nSource: Cell Biology');
+
+    mockStore.aiCard = null;
+    const cloze = await service.createCards(highlight('Ribosomes assemble polypeptides from amino acids'));
+    expect(cloze).toMatchObject({ mode: 'cloze', aiGenerated: false, concepts: ['Ribosomes', 'polypeptides'] });
+    expect(cloze.cards[0]!.source).toEqual({
+      type: 'reading_highlight',
+      textSource: 'document:bio',
+      sessionId: 'session_1',
+      highlightId: 'hl_1',
+      documentId: 'bio',
+      chapterIndex: 2,
+    });
+
+    await expect(
+      service.createCards(highlight('Ribosomes assemble proteins'), { mode: 'qa', useAI: false }),
+    ).rejects.toThrow('Could not turn this sentence into a question');
+  });
+
+  it('saves the cards and links the tested terms to the reading session', async () => {
+    const result = await service.saveHighlightCards(highlight('Osmosis is the diffusion of water'), { useAI: false });
+
+    expect(result).toMatchObject({ mode: 'qa', concepts: ['Osmosis'] });
+    expect(mockStore.flashcards).toEqual(result.cards);
+    expect(mockStore.sourceLinks).toMatchObject([
+      { type: 'source_read', sessionId: 'session_1', conceptId: 'osmosis', relevanceScore: 0.9 },
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * HighlightFlashcardService - Flashcards from sentences highlighted in RSVP
+ *
+ * A highlight becomes a cloze or Q&A note (via NoteTypeService), so the cards
+ * are scheduled like any other. Q&A cards are written by
+ * AICoachingService.generateFlashcard when the edge function answers, and by
+ * simple sentence patterns offline. Every card keeps a FlashcardSource that
+ * points back to the reading session, and the tested terms are added to the
+ * neural map as source links.
+ */
+
+import StorageService from '../storage/StorageService';
+import { aiCoachingService } from './AICoachingService';
+import { NoteTypeService } from './NoteTypeService';
+import { SourceLink } from './SpeedReadingService';
+import { Flashcard, FlashcardNote, FlashcardSource } from '../../types';
+
+export type HighlightCardMode = 'cloze' | 'qa' | 'auto';
+
+export interface HighlightInput {
+  text: string;
+  textSource: string; // ReadingSession.textSource the sentence came from
+  sessionId?: string;
+  highlightId?: string;
+  documentId?: string;
+  chapterIndex?: number;
+  title?: string; // Document or session title, added as the card's context
+}
+
+export interface HighlightCardResult {
+  cards: Flashcard[];
+  mode: 'cloze' | 'qa';
+  aiGenerated: boolean;
+  concepts: string[];
+}
+
+export interface HighlightCardOptions {
+  mode?: HighlightCardMode;
+  useAI?: boolean;
+  category?: string;
+}
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'also', 'among', 'because', 'been', 'before', 'being', 'between',
+  'both', 'could', 'does', 'during', 'each', 'even', 'every', 'from', 'have', 'having', 'however',
+  'into', 'itself', 'just', 'many', 'more', 'most', 'much', 'must', 'only', 'other', 'over', 'same',
+  'should', 'since', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'under', 'until', 'very', 'were', 'what', 'when', 'where',
+  'which', 'while', 'will', 'with', 'within', 'without', 'would', 'your',
+]);
+
+// "X is Y", "X are Y", "X refers to Y" ... for offline Q&A cards
+const DEFINITION_PATTERN =
+  /^(.{3,80}?)\s+(is|are|was|were|means|refers to|is called|is known as|describes)\s+(.{8,})$/i;
+
+// Highlight links rank above the 0.8 given to automatically extracted concepts
+const HIGHLIGHT_RELEVANCE = 0.9;
+const DEFAULT_CATEGORY = 'reading';
+
+export class HighlightFlashcardService {
+  private static instance: HighlightFlashcardService;
+  private storage: StorageService;
+  private noteTypes: NoteTypeService;
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+    this.noteTypes = NoteTypeService.getInstance();
+  }
+
+  public static getInstance(): HighlightFlashcardService {
+    if (!HighlightFlashcardService.instance) {
+      HighlightFlashcardService.instance = new HighlightFlashcardService();
+    }
+    return HighlightFlashcardService.instance;
+  }
+
+  /**
+   * Build cards for a highlight without saving them
+   */
+  async createCards(
+    highlight: HighlightInput,
+    options: HighlightCardOptions = {},
+  ): Promise<HighlightCardResult> {
+    const text = highlight.text.replace(/\s+/g, ' ').trim();
+    if (!text) throw new Error('The highlight is empty');
+
+    const mode = options.mode ?? 'auto';
+    const category = options.category ?? DEFAULT_CATEGORY;
+    const source = this.toSource(highlight);
+    const context = highlight.title ? `Source: ${highlight.title}` : '';
+
+    if (mode !== 'cloze') {
+      const ai = options.useAI === false ? null : await aiCoachingService.generateFlashcard(text, category);
+      if (ai?.front?.trim() && ai?.back?.trim()) {
+        const note = this.noteTypes.createNote('basic', {
+          front: ai.front.trim(),
+          back: context ? `${ai.back.trim()}\n\n${context}` : ai.back.trim(),
+          category,
+          tags: ['reading', 'highlight'],
+        });
+        return {
+          cards: this.withSource(this.noteTypes.generateCards(note), source),
+          mode: 'qa',
+          aiGenerated: true,
+          concepts: this.pickTerms(ai.front, 1),
+        };
+      }
+
+      const qa = this.toQuestion(text);
+      if (qa) {
+        const note = this.noteTypes.createNote('basic', {
+          front: qa.front,
+          back: context ? `${qa.back}\n\n${context}` : qa.back,
+          category,
+          tags: ['reading', 'highlight'],
+        });
+        return {
+          cards: this.withSource(this.noteTypes.generateCards(note), source),
+          mode: 'qa',
+          aiGenerated: false,
+          concepts: [qa.subject],
+        };
+      }
+      if (mode === 'qa') throw new Error('Could not turn this sentence into a question; try a cloze card');
+    }
+
+    const cloze = this.toCloze(text);
+    if (!cloze) throw new Error('No key term found to hide in this sentence');
+    const note: FlashcardNote = this.noteTypes.createNote('cloze', {
+      front: cloze.text,
+      back: context,
+      category,
+      tags: ['reading', 'highlight'],
+    });
+    return {
+      cards: this.withSource(this.noteTypes.generateCards(note), source),
+      mode: 'cloze',
+      aiGenerated: false,
+      concepts: cloze.terms,
+    };
+  }
+
+  /**
+   * Create, save and link cards for a highlight
+   */
+  async saveHighlightCards(
+    highlight: HighlightInput,
+    options: HighlightCardOptions = {},
+  ): Promise<HighlightCardResult> {
+    const result = await this.createCards(highlight, options);
+
+    const existing = await this.storage.getFlashcards();
+    await this.storage.saveFlashcards([...existing, ...result.cards]);
+
+    if (highlight.sessionId && result.concepts.length > 0) {
+      try {
+        const links: SourceLink[] = result.concepts.map((concept) => ({
+          type: 'source_read',
+          sessionId: highlight.sessionId!,
+          textSource: highlight.textSource,
+          conceptId: concept.toLowerCase(),
+          relevanceScore: HIGHLIGHT_RELEVANCE,
+          extractedAt: new Date(),
+        }));
+        const saved = await this.storage.getSourceLinks();
+        await this.storage.saveSourceLinks([...saved, ...links]);
+      } catch (error) {
+        console.warn('Failed to save highlight source links:', error);
+      }
+    }
+
+    return result;
+  }
+
+  // ==================== HEURISTICS ====================
+
+  /**
+   * Cloze text hiding up to two key terms, e.g. 'The {{c1::hippocampus}} ...'
+   */
+  toCloze(sentence: string): { text: string; terms: string[] } | null {
+    const terms = this.pickTerms(sentence, 2);
+    if (terms.length === 0) return null;
+
+    let text = sentence;
+    const hidden: string[] = [];
+    for (const term of terms) {
+      const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${this.escape(term)})(?![\\p{L}\\p{N}])`, 'u');
+      if (!pattern.test(text)) continue;
+      hidden.push(term);
+      text = text.replace(pattern, `$1{{c${hidden.length}::$2}}`);
+    }
+    return hidden.length > 0 ? { text, terms: hidden } : null;
+  }
+
+  /**
+   * Offline Q&A from a definition-style sentence: 'X is Y' -> 'What is X?'
+   */
+  toQuestion(sentence: string): { front: string; back: string; subject: string } | null {
+    const match = DEFINITION_PATTERN.exec(sentence.replace(/[.!?]+$/, ''));
+    if (!match) return null;
+
+    const subject = match[1]!.replace(/^(the|a|an)\s+/i, '').trim();
+    const verb = match[2]!.toLowerCase();
+    const answer = match[3]!.trim();
+    if (subject.split(/\s+/).length > 8) return null;
+
+    const front =
+      verb === 'means' || verb === 'refers to' || verb === 'describes'
+        ? `What does ${subject} ${verb === 'means' ? 'mean' : verb === 'refers to' ? 'refer to' : 'describe'}?`
+        : verb === 'is called' || verb === 'is known as'
+          ? `What is ${subject} called?`
+          : `What ${verb} ${subject}?`;
+    return { front, back: this.capitalize(answer), subject };
+  }
+
+  /**
+   * Key terms in order of appearance: numbers and dates, then capitalized
+   * names not at the start of the sentence, then the longest content words
+   */
+  private pickTerms(sentence: string, limit: number): string[] {
+    const tokens = sentence.split(/\s+/).map((token) => token.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''));
+    const candidates: { term: string; score: number; position: number }[] = [];
+
+    // Multi-word capitalized names, e.g. "John Sweller"
+    let run: string[] = [];
+    const flush = (position: number) => {
+      if (run.length > 0) candidates.push({ term: run.join(' '), score: 3 + run.length, position: position - run.length });
+      run = [];
+    };
+    tokens.forEach((token, position) => {
+      if (position > 0 && /^\p{Lu}[\p{L}\p{N}'-]+$/u.test(token) && !STOP_WORDS.has(token.toLowerCase())) {
+        run.push(token);
+      } else {
+        flush(position);
+      }
+      if (/^\d[\d,.-]*%?$/.test(token)) candidates.push({ term: token, score: 5, position });
+      const lower = token.toLowerCase();
+      if (lower.length >= 6 && /^\p{L}[\p{L}'-]*$/u.test(token) && !STOP_WORDS.has(lower)) {
+        candidates.push({ term: token, score: Math.min(3, lower.length / 4), position });
+      }
+    });
+    flush(tokens.length);
+
+    const chosen: { term: string; position: number }[] = [];
+    for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+      if (chosen.length >= limit) break;
+      const overlaps = chosen.some(
+        (c) => c.term.toLowerCase().includes(candidate.term.toLowerCase()) ||
+          candidate.term.toLowerCase().includes(c.term.toLowerCase()),
+      );
+      if (!overlaps) chosen.push(candidate);
+    }
+    return chosen.sort((a, b) => a.position - b.position).map((c) => c.term);
+  }
+
+  private toSource(highlight: HighlightInput): FlashcardSource {
+    return {
+      type: 'reading_highlight',
+      textSource: highlight.textSource,
+      ...(highlight.sessionId ? { sessionId: highlight.sessionId } : {}),
+      ...(highlight.highlightId ? { highlightId: highlight.highlightId } : {}),
+      ...(highlight.documentId ? { documentId: highlight.documentId } : {}),
+      ...(highlight.chapterIndex !== undefined ? { chapterIndex: highlight.chapterIndex } : {}),
+    };
+  }
+
+  private withSource(cards: Flashcard[], source: FlashcardSource): Flashcard[] {
+    return cards.map((card) => ({ ...card, source }));
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
+
+export default HighlightFlashcardService;
@@ -1,59 +1,53 @@
 /**
  * Phase 4 Enhancement: FSRS Logic Training Integration
  *
- * Extends the existing SpacedRepetitionService with Logic Training support
+ * Schedules logic training nodes through the shared ReviewScheduler
  * This addition enables FSRS scheduling for critical thinking exercises
  */
 
-import { SpacedRepetitionService, FSRSCard, Rating, CardState } from './SpacedRepetitionService';
+import { Rating } from './SpacedRepetitionService';
+import { ReviewScheduler } from './ReviewScheduler';
 import { LogicNode } from '../../types';
 
 /**
- * Logic Training Extensions for SpacedRepetitionService
+ * Logic Training Extensions for the shared ReviewScheduler
  *
- * This enhancement maintains the existing FSRS architecture while adding
- * specialized logic training support for critical thinking development
+ * Logic nodes are scheduled by the same FSRS engine as flashcards through
+ * the logic-node adapter; this class adds the logic-specific rating scale,
+ * cognitive load adjustments and session analytics on top.
  */
 export class LogicTrainingFSRS {
-  private srsService: SpacedRepetitionService;
-
-  constructor() {
-    this.srsService = SpacedRepetitionService.getInstance();
+  // Resolved lazily: the module-level instance below is created at import time
+  private get scheduler(): ReviewScheduler {
+    return ReviewScheduler.getInstance();
   }
 
   /**
    * Phase 4, Step 3: Schedule next logic training review using FSRS
    *
-   * This is the CRITICAL method that integrates logic training with FSRS
-   * Maps logic performance rating (1-5) to FSRS Rating system
+   * Maps logic performance rating (1-5) to FSRS Rating system, schedules the
+   * node through ReviewScheduler and records the review in the shared log
    */
-  public scheduleNextLogicReview(
+  public async scheduleNextLogicReview(
     logicNode: LogicNode,
     performanceRating: 1 | 2 | 3 | 4 | 5,
     cognitiveLoad: number = 0.5,
     reviewDate: Date = new Date()
-  ): LogicNode {
+  ): Promise<LogicNode> {
     try {
-      // Convert LogicNode to FSRSCard format
-      const fsrsCard: FSRSCard = this.convertLogicNodeToFSRSCard(logicNode);
-
-      // Convert logic performance rating to FSRS Rating
       const fsrsRating = this.convertLogicRatingToFSRS(performanceRating);
-
-      // Apply FSRS scheduling algorithm
-      const { card: updatedCard, logs } = this.srsService.scheduleNextReviewFSRS(
-        fsrsCard,
+      const { entity, card, logs } = this.scheduler.schedule(
+        'logic',
+        logicNode,
         fsrsRating,
-        reviewDate
+        { reviewDate }
       );
+      await this.scheduler.recordLogs(logs);
 
-      // Convert back to LogicNode format with cognitive load adjustments
-      const updatedLogicNode = this.convertFSRSCardToLogicNode(
-        updatedCard,
-        logicNode,
-        performanceRating,
-        cognitiveLoad
-      );
+      const updatedLogicNode: LogicNode = {
+        ...entity,
+        interval: this.adjustIntervalForCognitiveLoad(entity.interval, cognitiveLoad),
+      };
 
       // Ensure nextReviewDate is always a Date object
       if (!(updatedLogicNode.nextReviewDate instanceof Date)) {
@@ -70,8 +64,8 @@ export class LogicTrainingFSRS {
           oldInterval: logicNode.interval,
           newInterval: updatedLogicNode.interval,
           nextReview: updatedLogicNode.nextReviewDate.toISOString(),
-          stability: updatedCard.stability,
-          difficulty: updatedCard.difficulty,
+          stability: card.stability,
+          difficulty: card.difficulty,
           cognitiveLoad,
         });
       } catch (logError) {
@@ -98,68 +92,16 @@ export class LogicTrainingFSRS {
   }
 
   /**
-   * Convert LogicNode to FSRSCard for FSRS algorithm processing
-   */
-  private convertLogicNodeToFSRSCard(logicNode: LogicNode): FSRSCard {
-    return {
-      id: logicNode.id,
-      due: logicNode.nextReviewDate,
-      stability: logicNode.stability || this.estimateLogicStability(logicNode),
-      difficulty: logicNode.fsrsDifficulty || this.estimateLogicDifficulty(logicNode),
-      elapsed_days: this.calculateElapsedDays(logicNode.lastReview, new Date()),
-      scheduled_days: logicNode.interval,
-      reps: logicNode.repetitions,
-      lapses: Math.max(0, logicNode.totalAttempts - logicNode.correctAttempts),
-      state: this.determineLogicCardState(logicNode),
-      ...(logicNode.lastReview ? { last_review: logicNode.lastReview } : {})
-    } as FSRSCard;
-  }
-
-  /**
-   * Convert FSRS card back to LogicNode format with enhancements
+   * High cognitive load shortens intervals to prevent overwhelming;
+   * low load can handle slightly longer ones
    */
-  private convertFSRSCardToLogicNode(
-    fsrsCard: FSRSCard,
-    originalLogicNode: LogicNode,
-    performanceRating: number,
-    cognitiveLoad: number
-  ): LogicNode {
-    const now = new Date();
-
-    // Apply cognitive load adjustment to interval
-    let adjustedInterval = fsrsCard.scheduled_days;
-
+  private adjustIntervalForCognitiveLoad(interval: number, cognitiveLoad: number): number {
     if (cognitiveLoad > 0.8) {
-      // High cognitive load: reduce intervals to prevent overwhelming
-      adjustedInterval = Math.max(1, Math.floor(adjustedInterval * 0.7));
+      return Math.max(1, Math.floor(interval * 0.7));
     } else if (cognitiveLoad < 0.3) {
-      // Low cognitive load: can handle slightly longer intervals
-      adjustedInterval = Math.floor(adjustedInterval * 1.2);
+      return Math.floor(interval * 1.2);
     }
-
-    return {
-      ...originalLogicNode,
-      // FSRS metrics
-      interval: adjustedInterval,
-      repetitions: fsrsCard.reps,
-      nextReviewDate: fsrsCard.due,
-      lastReview: now,
-      lastAccessed: now,
-      modified: now,
-
-      // FSRS-specific tracking
-      stability: fsrsCard.stability,
-      fsrsDifficulty: fsrsCard.difficulty,
-      state: fsrsCard.state,
-
-      // Performance tracking
-      totalAttempts: originalLogicNode.totalAttempts + 1,
-      correctAttempts: originalLogicNode.correctAttempts + (performanceRating >= 3 ? 1 : 0),
-      accessCount: originalLogicNode.accessCount + 1,
-
-      // Dynamic ease factor calculation
-      easeFactor: this.calculateLogicEaseFactor(fsrsCard.difficulty, performanceRating),
-    };
+    return interval;
   }
 
   /**
@@ -188,99 +130,6 @@ export class LogicTrainingFSRS {
     }
   }
 
-  /**
-   * Estimate initial stability for logic nodes based on complexity
-   */
-  private estimateLogicStability(logicNode: LogicNode): number {
-    let baseStability = 1.0;
-
-    // Adjust based on logic difficulty
-    const difficultyMultiplier = {
-      1: 1.5,   // Easy logic
-      2: 1.2,
-      3: 1.0,   // Medium logic
-      4: 0.8,
-      5: 0.6,   // Very hard logic
-    }[logicNode.difficulty] || 1.0;
-
-    // Adjust based on logic type complexity
-    const typeMultiplier = {
-      deductive: 1.2,   // Most straightforward
-      inductive: 1.0,   // Medium complexity
-      abductive: 0.8,   // Most complex
-    }[logicNode.type] || 1.0;
-
-    // Adjust based on domain complexity
-    const domainMultiplier = {
-      general: 1.3,     // Easiest
-      english: 1.1,
-      math: 1.0,
-      programming: 0.8, // Most complex
-    }[logicNode.domain] || 1.0;
-
-    baseStability *= difficultyMultiplier * typeMultiplier * domainMultiplier;
-
-    return Math.max(0.1, Math.min(7.0, baseStability));
-  }
-
-  /**
-   * Estimate initial difficulty for logic nodes
-   */
-  private estimateLogicDifficulty(logicNode: LogicNode): number {
-    let baseDifficulty = 5.0; // Start at medium difficulty
-
-    // Increase difficulty for complex logic types
-    if (logicNode.type === 'abductive') baseDifficulty += 1.5;
-    if (logicNode.type === 'inductive') baseDifficulty += 0.5;
-
-    // Increase difficulty for complex domains
-    if (logicNode.domain === 'programming') baseDifficulty += 1.0;
-    if (logicNode.domain === 'math') baseDifficulty += 0.5;
-
-    // Adjust for explicit difficulty rating
-    baseDifficulty += (logicNode.difficulty - 3) * 0.5;
-
-    return Math.max(1.0, Math.min(10.0, baseDifficulty));
-  }
-
-  /**
-   * Calculate elapsed days between two dates
-   */
-  private calculateElapsedDays(lastReview: Date | undefined, currentDate: Date): number {
-    if (!lastReview) return 0;
-
-    const diffTime = currentDate.getTime() - lastReview.getTime();
-    return Math.max(0, Math.floor(diffTime / (1000 * 60 * 60 * 24)));
-  }
-
-  /**
-   * Determine FSRS card state from logic node data
-   */
-  private determineLogicCardState(logicNode: LogicNode): CardState {
-    if (logicNode.repetitions === 0) {
-      return CardState.New;
-    } else if (logicNode.repetitions < 3 || logicNode.interval < 4) {
-      return CardState.Learning;
-    } else if (logicNode.totalAttempts > logicNode.correctAttempts * 1.5) {
-      return CardState.Relearning;
-    } else {
-      return CardState.Review;
-    }
-  }
-
-  /**
-   * Calculate ease factor from FSRS difficulty
-   */
-  private calculateLogicEaseFactor(fsrsDifficulty: number, performanceRating: number): number {
-    // Convert FSRS difficulty (1-10) to ease factor (1.3-4.0)
-    const baseFactor = 4.0 - ((fsrsDifficulty - 1) / 9) * 2.7;
-
-    // Apply performance adjustment
-    const adjustment = (performanceRating - 3) * 0.1;
-
-    return Math.max(1.3, Math.min(4.0, baseFactor + adjustment));
-  }
-
   /**
    * Check if logic node is due for review
    */
@@ -288,7 +137,7 @@ export class LogicTrainingFSRS {
     logicNode: LogicNode,
     currentDate: Date = new Date()
   ): boolean {
-    return logicNode.nextReviewDate <= currentDate;
+    return this.scheduler.isDue('logic', logicNode, currentDate);
   }
 
   /**
@@ -0,0 +1,118 @@
+import { MindMapEditService } from './MindMapEditService';
+import { NeuralLink, NeuralNode } from './MindMapGeneratorService';
+
+const saved: unknown[] = [];
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getMindMapEdits: async () => null,
+      saveMindMapEdits: async (edits: unknown) => {
+        saved.push(edits);
+      },
+    }),
+  },
+}));
+
+const node = (id: string, label: string): NeuralNode =>
+  ({
+    id,
+    type: 'concept',
+    label,
+    content: `${label} notes`,
+    category: 'biology',
+    masteryLevel: 0.6,
+  }) as NeuralNode;
+
+const link = (source: string, target: string): NeuralLink =>
+  ({ id: `${source}_${target}`, source, target, type: 'association', strength: 0.8 }) as NeuralLink;
+
+describe('MindMapEditService.importGraph', () => {
+  const editor = MindMapEditService.getInstance();
+
+  it('stores new vault notes and their links as one undoable edit', async () => {
+    const graph = {
+      nodes: [node('flashcard_1', 'Mitochondria'), node('imported_atp', 'ATP'), node('imported_krebs', 'Krebs cycle')],
+      links: [
+        link('flashcard_1', 'imported_atp'),
+        link('imported_atp', 'imported_krebs'),
+        link('imported_krebs', 'imported_atp'), // Same pair, other direction
+        link('imported_atp', 'missing_note'),
+      ],
+    };
+
+    const result = await editor.importGraph(graph, new Set(['flashcard_1']));
+
+    expect(result).toEqual({ nodesAdded: 2, linksAdded: 2 });
+    const edits = await editor.getEdits();
+    expect(edits.nodes.map((manual) => manual.id)).toEqual(['imported_atp', 'imported_krebs']);
+    expect(edits.nodes[0]).toMatchObject({ label: 'ATP', content: 'ATP notes', category: 'biology' });
+    expect(edits.links.map((manual) => [manual.source, manual.target])).toEqual([
+      ['flashcard_1', 'imported_atp'],
+      ['imported_atp', 'imported_krebs'],
+    ]);
+    expect(saved).toHaveLength(1);
+
+    // Importing the same vault again adds nothing
+    expect(await editor.importGraph(graph, new Set(['flashcard_1']))).toEqual({ nodesAdded: 0, linksAdded: 0 });
+
+    expect(await editor.undo()).toBe(true);
+    expect((await editor.getEdits()).nodes).toEqual([]);
+  });
+});
+
+describe('MindMapEditService history', () => {
+  const editor = MindMapEditService.getInstance();
+
+  it('undoes and redoes node and link edits, and a new edit clears redo', async () => {
+    const revision = editor.getRevision();
+    const atp = await editor.addNode({ label: ' ATP ', category: 'biology', masteryLevel: 2 });
+    const krebs = await editor.addNode({ label: 'Krebs cycle' });
+    const link = await editor.addLink({ source: krebs.id, target: atp.id, type: 'prerequisite' });
+
+    expect(atp).toMatchObject({ label: 'ATP', content: 'ATP', masteryLevel: 1 });
+    expect(krebs.category).toBe('personal');
+    await expect(editor.addLink({ source: atp.id, target: krebs.id })).rejects.toThrow('already linked');
+
+    // Deleting a node takes its links with it, and one undo brings both back
+    await editor.removeNode(krebs.id);
+    expect((await editor.getEdits()).links).toEqual([]);
+    expect(await editor.undo()).toBe(true);
+    expect((await editor.getEdits()).nodes.map((node) => node.id)).toEqual([atp.id, krebs.id]);
+    expect((await editor.getEdits()).links.map((manual) => manual.id)).toEqual([link.id]);
+
+    expect(await editor.undo()).toBe(true);
+    expect((await editor.getEdits()).links).toEqual([]);
+    expect(editor.canRedo()).toBe(true);
+    expect(await editor.redo()).toBe(true);
+    expect((await editor.getEdits()).links.map((manual) => manual.id)).toEqual([link.id]);
+
+    await editor.undo();
+    await editor.updateNode(atp.id, { label: 'Adenosine triphosphate' });
+    expect(editor.canRedo()).toBe(false);
+    expect(await editor.redo()).toBe(false);
+
+    // Every change, undo and redo included, invalidates the cached graph
+    expect(editor.getRevision()).toBe(revision + 9);
+  });
+
+  it('hides deleted generated links until the pair is linked by hand', async () => {
+    const generated = { ...link('flashcard_1', 'flashcard_2'), id: 'cat_1_2' };
+    const nodeIds = new Set(['flashcard_1', 'flashcard_2']);
+
+    await editor.removeLink(generated);
+    expect(editor.mergeLinks([generated], nodeIds, await editor.getEdits()).links).toEqual([]);
+
+    const manual = await editor.addLink({ source: 'flashcard_2', target: 'flashcard_1', strength: 0.4 });
+    const merged = editor.mergeLinks([generated], nodeIds, await editor.getEdits());
+    expect(merged.links.map((merge) => [merge.id, merge.strength, merge.confidence])).toEqual([[manual.id, 0.4, 1]]);
+    expect(editor.isManualLink(manual.id)).toBe(true);
+
+    // Undoing the manual link hides the generated one again
+    await editor.undo();
+    expect(editor.mergeLinks([generated], nodeIds, await editor.getEdits()).links).toEqual([]);
+    await editor.undo();
+    expect(editor.mergeLinks([generated], nodeIds, await editor.getEdits()).links).toEqual([generated]);
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * MindMapEditService - Hand-made nodes and links on the neural map
+ *
+ * Generated nodes come from flashcards, tasks, palaces and logic nodes and
+ * are rebuilt on every regeneration. Edits made by hand are stored separately
+ * (StorageService.getMindMapEdits) and merged back into each new graph:
+ * - Manual nodes (sourceType 'manual') are always added
+ * - Deleting a generated link hides every generated link between that pair
+ * - A manual link replaces generated links between the same pair
+ * - Manual links to a node that is gone (e.g. a deleted flashcard) stay in
+ *   storage but are left out of the graph until the node comes back
+ * - An imported map (e.g. an Obsidian vault) is stored as manual nodes and
+ *   links, so it survives regeneration
+ *
+ * Every edit can be undone and redone; the history lasts for the app session.
+ */
+
+import StorageService from '../storage/StorageService';
+import { NeuralLink, NeuralNode } from './MindMapGeneratorService';
+
+export interface ManualNode {
+  id: string;
+  label: string;
+  content: string;
+  type: NeuralNode['type'];
+  category: string;
+  masteryLevel: number; // Self-rated, 0-1
+  x?: number;
+  y?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ManualLink {
+  id: string;
+  source: string; // Node id, generated or manual
+  target: string;
+  type: NeuralLink['type'];
+  strength: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ManualGraphEdits {
+  nodes: ManualNode[];
+  links: ManualLink[];
+  hiddenPairs: string[]; // Node pairs whose generated links were deleted
+  updated: Date;
+}
+
+export interface ManualNodeInput {
+  label: string;
+  content?: string;
+  type?: NeuralNode['type'];
+  category?: string;
+  masteryLevel?: number;
+  x?: number;
+  y?: number;
+}
+
+export interface ManualLinkInput {
+  source: string;
+  target: string;
+  type?: NeuralLink['type'];
+  strength?: number;
+}
+
+export interface MergedLinks {
+  links: NeuralLink[];
+  danglingLinks: ManualLink[]; // Manual links whose endpoint is not in the graph
+}
+
+const MAX_HISTORY = 50;
+const DEFAULT_CATEGORY = 'personal';
+
+export class MindMapEditService {
+  private static instance: MindMapEditService;
+  private storage: StorageService;
+
+  private edits: ManualGraphEdits | null = null;
+  private undoStack: ManualGraphEdits[] = [];
+  private redoStack: ManualGraphEdits[] = [];
+  // Bumped on every change so MindMapGenerator knows its cached graph is stale
+  private revision = 0;
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+  }
+
+  public static getInstance(): MindMapEditService {
+    if (!MindMapEditService.instance) {
+      MindMapEditService.instance = new MindMapEditService();
+    }
+    return MindMapEditService.instance;
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  async getEdits(): Promise<ManualGraphEdits> {
+    if (!this.edits) this.edits = await this.loadEdits();
+    return this.edits;
+  }
+
+  // ==================== NODES ====================
+
+  async addNode(input: ManualNodeInput): Promise<ManualNode> {
+    const label = input.label.trim();
+    if (!label) throw new Error('A concept needs a name');
+
+    const now = new Date();
+    const node: ManualNode = {
+      id: this.createId('manual'),
+      label,
+      content: input.content?.trim() || label,
+      type: input.type ?? 'concept',
+      category: input.category?.trim() || DEFAULT_CATEGORY,
+      masteryLevel: this.clamp01(input.masteryLevel ?? 0.5),
+      ...(input.x !== undefined ? { x: input.x } : {}),
+      ...(input.y !== undefined ? { y: input.y } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const edits = await this.getEdits();
+    await this.commit({ ...edits, nodes: [...edits.nodes, node] });
+    return node;
+  }
+
+  async updateNode(id: string, changes: Partial<ManualNodeInput>): Promise<ManualNode> {
+    const edits = await this.getEdits();
+    const existing = edits.nodes.find((node) => node.id === id);
+    if (!existing) throw new Error('Only concepts you added can be edited');
+    if (changes.label !== undefined && !changes.label.trim()) throw new Error('A concept needs a name');
+
+    const updated: ManualNode = {
+      ...existing,
+      ...(changes.label !== undefined ? { label: changes.label.trim() } : {}),
+      ...(changes.content !== undefined ? { content: changes.content.trim() } : {}),
+      ...(changes.type ? { type: changes.type } : {}),
+      ...(changes.category !== undefined ? { category: changes.category.trim() || DEFAULT_CATEGORY } : {}),
+      ...(changes.masteryLevel !== undefined ? { masteryLevel: this.clamp01(changes.masteryLevel) } : {}),
+      ...(changes.x !== undefined ? { x: changes.x } : {}),
+      ...(changes.y !== undefined ? { y: changes.y } : {}),
+      updatedAt: new Date(),
+    };
+
+    await this.commit({ ...edits, nodes: edits.nodes.map((node) => (node.id === id ? updated : node)) });
+    return updated;
+  }
+
+  /**
+   * Delete a manual node together with the manual links touching it
+   */
+  async removeNode(id: string): Promise<void> {
+    const edits = await this.getEdits();
+    if (!edits.nodes.some((node) => node.id === id)) throw new Error('Only concepts you added can be deleted');
+
+    await this.commit({
+      ...edits,
+      nodes: edits.nodes.filter((node) => node.id !== id),
+      links: edits.links.filter((link) => link.source !== id && link.target !== id),
+      hiddenPairs: edits.hiddenPairs.filter((pair) => !pair.split('|').includes(id)),
+    });
+  }
+
+  // ==================== LINKS ====================
+
+  async addLink(input: ManualLinkInput): Promise<ManualLink> {
+    if (!input.source || !input.target) throw new Error('A link needs two concepts');
+    if (input.source === input.target) throw new Error('A concept cannot be linked to itself');
+
+    const edits = await this.getEdits();
+    const pair = this.pairKey(input.source, input.target);
+    if (edits.links.some((link) => this.pairKey(link.source, link.target) === pair)) {
+      throw new Error('These concepts are already linked');
+    }
+
+    const now = new Date();
+    const link: ManualLink = {
+      id: this.createId('mlink'),
+      source: input.source,
+      target: input.target,
+      type: input.type ?? 'association',
+      strength: this.clamp01(input.strength ?? 0.7),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.commit({
+      ...edits,
+      links: [...edits.links, link],
+      hiddenPairs: edits.hiddenPairs.filter((hidden) => hidden !== pair),
+    });
+    return link;
+  }
+
+  async updateLink(id: string, changes: Partial<Pick<ManualLink, 'type' | 'strength'>>): Promise<ManualLink> {
+    const edits = await this.getEdits();
+    const existing = edits.links.find((link) => link.id === id);
+    if (!existing) throw new Error('Only links you added can be edited');
+
+    const updated: ManualLink = {
+      ...existing,
+      ...(changes.type ? { type: changes.type } : {}),
+      ...(changes.strength !== undefined ? { strength: this.clamp01(changes.strength) } : {}),
+      updatedAt: new Date(),
+    };
+    await this.commit({ ...edits, links: edits.links.map((link) => (link.id === id ? updated : link)) });
+    return updated;
+  }
+
+  /**
+   * Delete a link from the map. Manual links are removed; generated links
+   * are hidden so regeneration does not bring them back.
+   */
+  async removeLink(link: Pick<NeuralLink, 'id' | 'source' | 'target'>): Promise<void> {
+    const edits = await this.getEdits();
+    if (edits.links.some((manual) => manual.id === link.id)) {
+      await this.commit({ ...edits, links: edits.links.filter((manual) => manual.id !== link.id) });
+      return;
+    }
+
+    const pair = this.pairKey(this.endpointId(link.source), this.endpointId(link.target));
+    if (edits.hiddenPairs.includes(pair)) return;
+    await this.commit({ ...edits, hiddenPairs: [...edits.hiddenPairs, pair] });
+  }
+
+  isManualLink(linkId: string): boolean {
+    return !!this.edits?.links.some((link) => link.id === linkId);
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Keep an imported map (e.g. an Obsidian vault) as a single undoable edit.
+   * Imported nodes whose id is already on the map, or already added by hand,
+   * are left alone; the rest become manual nodes under their imported id.
+   * Imported links become manual links unless the pair is linked by hand.
+   */
+  async importGraph(
+    graph: { nodes: NeuralNode[]; links: NeuralLink[] },
+    existingIds: Set<string>,
+  ): Promise<{ nodesAdded: number; linksAdded: number }> {
+    const edits = await this.getEdits();
+    const now = new Date();
+    const known = new Set([...Array.from(existingIds), ...edits.nodes.map((node) => node.id)]);
+
+    const nodes: ManualNode[] = [];
+    for (const node of graph.nodes) {
+      if (known.has(node.id) || !node.label?.trim()) continue;
+      known.add(node.id);
+      const content = typeof node.content === 'string' ? node.content : node.content.question;
+      nodes.push({
+        id: node.id,
+        label: node.label.trim(),
+        content: content?.trim() || node.label.trim(),
+        type: node.type,
+        category: node.category?.trim() || DEFAULT_CATEGORY,
+        masteryLevel: this.clamp01(node.masteryLevel ?? 0.5),
+        ...(node.x !== undefined ? { x: node.x } : {}),
+        ...(node.y !== undefined ? { y: node.y } : {}),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    const pairs = new Set(edits.links.map((link) => this.pairKey(link.source, link.target)));
+    const links: ManualLink[] = [];
+    for (const link of graph.links) {
+      const source = this.endpointId(link.source);
+      const target = this.endpointId(link.target);
+      const pair = this.pairKey(source, target);
+      if (source === target || pairs.has(pair) || !known.has(source) || !known.has(target)) continue;
+      pairs.add(pair);
+      links.push({
+        id: this.createId('mlink'),
+        source,
+        target,
+        type: link.type,
+        strength: this.clamp01(link.strength),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    if (nodes.length || links.length) {
+      const linked = new Set(links.map((link) => this.pairKey(link.source, link.target)));
+      await this.commit({
+        ...edits,
+        nodes: [...edits.nodes, ...nodes],
+        links: [...edits.links, ...links],
+        hiddenPairs: edits.hiddenPairs.filter((pair) => !linked.has(pair)),
+      });
+    }
+    return { nodesAdded: nodes.length, linksAdded: links.length };
+  }
+
+  // ==================== HISTORY ====================
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  async undo(): Promise<boolean> {
+    const previous = this.undoStack.pop();
+    if (!previous) return false;
+    this.redoStack.push(await this.getEdits());
+    await this.apply(previous);
+    return true;
+  }
+
+  async redo(): Promise<boolean> {
+    const next = this.redoStack.pop();
+    if (!next) return false;
+    this.undoStack.push(await this.getEdits());
+    await this.apply(next);
+    return true;
+  }
+
+  // ==================== MERGE ====================
+
+  /**
+   * Apply the stored edits to freshly generated links. `nodeIds` are the ids
+   * of every node in the new graph, manual ones included.
+   */
+  mergeLinks(generated: NeuralLink[], nodeIds: Set<string>, edits: ManualGraphEdits): MergedLinks {
+    const hidden = new Set(edits.hiddenPairs);
+    const present: ManualLink[] = [];
+    const danglingLinks: ManualLink[] = [];
+    for (const link of edits.links) {
+      (nodeIds.has(link.source) && nodeIds.has(link.target) ? present : danglingLinks).push(link);
+    }
+    const manualPairs = new Set(present.map((link) => this.pairKey(link.source, link.target)));
+
+    const links = generated.filter((link) => {
+      const pair = this.pairKey(this.endpointId(link.source), this.endpointId(link.target));
+      return !hidden.has(pair) && !manualPairs.has(pair);
+    });
+
+    for (const link of present) {
+      links.push({
+        id: link.id,
+        source: link.source,
+        target: link.target,
+        strength: link.strength,
+        weight: link.strength,
+        type: link.type,
+        activationCount: 0,
+        lastActivated: link.updatedAt,
+        confidence: 1, // Stated by the user
+      });
+    }
+
+    return { links, danglingLinks };
+  }
+
+  // ==================== PERSISTENCE ====================
+
+  private async commit(next: ManualGraphEdits): Promise<void> {
+    this.undoStack.push(await this.getEdits());
+    if (this.undoStack.length > MAX_HISTORY) this.undoStack.shift();
+    this.redoStack = [];
+    await this.apply(next);
+  }
+
+  private async apply(edits: ManualGraphEdits): Promise<void> {
+    this.edits = { ...edits, updated: new Date() };
+    this.revision++;
+    try {
+      await this.storage.saveMindMapEdits(this.edits);
+    } catch (error) {
+      console.error('Error saving mind map edits:', error);
+    }
+  }
+
+  private async loadEdits(): Promise<ManualGraphEdits> {
+    try {
+      const stored = await this.storage.getMindMapEdits();
+      if (!stored) return { nodes: [], links: [], hiddenPairs: [], updated: new Date() };
+
+      return {
+        nodes: (stored.nodes ?? []).map((node) => ({
+          ...node,
+          createdAt: new Date(node.createdAt),
+          updatedAt: new Date(node.updatedAt),
+        })),
+        links: (stored.links ?? []).map((link) => ({
+          ...link,
+          createdAt: new Date(link.createdAt),
+          updatedAt: new Date(link.updatedAt),
+        })),
+        hiddenPairs: stored.hiddenPairs ?? [],
+        updated: new Date(stored.updated),
+      };
+    } catch (error) {
+      console.error('Error loading mind map edits:', error);
+      return { nodes: [], links: [], hiddenPairs: [], updated: new Date() };
+    }
+  }
+
+  // ==================== HELPERS ====================
+
+  private pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  private endpointId(endpoint: string | NeuralNode): string {
+    return typeof endpoint === 'string' ? endpoint : endpoint.id;
+  }
+
+  private clamp01(value: number): number {
+    return Math.max(0, Math.min(1, Number.isFinite(value) ? value : 0.5));
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
+
+export default MindMapEditService;
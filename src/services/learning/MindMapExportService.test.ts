@@ -0,0 +1,166 @@
+import JSZip from 'jszip';
+import MindMapExportService from './MindMapExportService';
+import { NeuralGraph, NeuralLink, NeuralNode } from './MindMapGeneratorService';
+
+jest.mock('expo-file-system', () => ({
+  File: class {},
+  Paths: {},
+}));
+
+const node = (id: string, label: string, extra: Partial<NeuralNode> = {}): NeuralNode => ({
+  id,
+  type: 'concept',
+  radius: 12,
+  label,
+  content: `${label} notes`,
+  category: 'biology',
+  masteryLevel: 0.6,
+  cognitiveLoad: 0.4,
+  isActive: false,
+  activationLevel: 0.5,
+  lastAccessed: new Date('2026-10-01T00:00:00.000Z'),
+  accessCount: 3,
+  easeFactor: 2.5,
+  interval: 4,
+  repetitions: 2,
+  nextReviewDate: new Date('2026-11-01T00:00:00.000Z'),
+  sourceType: 'flashcard',
+  sourceId: id,
+  healthScore: 0.72,
+  healthCategory: 'healthy',
+  ...extra,
+});
+
+const link = (source: string, target: string, type: NeuralLink['type'], strength: number): NeuralLink => ({
+  id: `${type}_${source}_${target}`,
+  source,
+  target,
+  strength,
+  weight: strength,
+  type,
+  activationCount: 0,
+  lastActivated: new Date(),
+  confidence: strength,
+});
+
+const graph = (): NeuralGraph => {
+  const nodes = [
+    node('flashcard_1', 'Mitochondria & ATP'),
+    node('flashcard_2', 'Krebs cycle: "citric" <acid>'),
+    node('flashcard_3', 'Krebs cycle: "citric" <acid>', { masteryLevel: 0.2, healthCategory: 'critical' }),
+    node('logic_1', 'Cells respire', {
+      type: 'logic',
+      sourceType: 'logic',
+      category: 'logic_general',
+      content: {
+        question: 'Do cells respire?',
+        premise1: 'All living cells need energy',
+        premise2: 'Respiration releases energy',
+        conclusion: 'Living cells respire',
+        type: 'deductive',
+        domain: 'general',
+        difficulty: 2,
+      },
+    }),
+  ];
+  return {
+    nodes,
+    links: [
+      link('flashcard_1', 'flashcard_2', 'prerequisite', 0.35),
+      link('flashcard_2', 'flashcard_3', 'similarity', 0.8),
+      link('logic_1', 'flashcard_1', 'logical', 0.6),
+      link('flashcard_1', 'missing', 'association', 0.5), // Dangling, not exported
+    ],
+    totalActivationLevel: 2,
+    knowledgeHealth: 72,
+    cognitiveComplexity: 0.4,
+    lastUpdated: new Date(),
+    dueNodesCount: 0,
+    criticalLogicCount: 0,
+    clusters: [
+      {
+        id: 'cluster_biology',
+        name: 'Cell/Energy',
+        nodes: nodes.slice(0, 3),
+        health: 0.7,
+        masteryLevel: 0.5,
+        category: 'biology',
+        size: 3,
+        centroid: { x: 0, y: 0 },
+        criticalNodes: [],
+        recommendations: [],
+      },
+    ],
+  };
+};
+
+const summarize = (g: NeuralGraph) => ({
+  nodes: g.nodes.map((n) => [n.id, n.label, n.type, n.category, n.masteryLevel, n.sourceType, n.content]),
+  links: g.links.map((l) => [l.source, l.target, l.type, l.strength]).sort(),
+});
+
+describe('MindMapExportService', () => {
+  const service = MindMapExportService.getInstance();
+
+  it('imports its own vault back onto the same nodes and links', async () => {
+    const original = graph();
+    const notes = service.toVault(original);
+
+    // Duplicate labels get distinct note names inside the cluster folder
+    expect(notes.map((note) => note.path)).toEqual([
+      'Cell Energy/Mitochondria & ATP.md',
+      'Cell Energy/Krebs cycle citric acid.md',
+      'Cell Energy/Krebs cycle citric acid 2.md',
+      'Logic General/Cells respire.md',
+      'Index.md',
+    ]);
+
+    const zip = new JSZip();
+    for (const note of notes) zip.file(note.path, note.text);
+    const result = await service.importVaultZip(await zip.generateAsync({ type: 'uint8array' }));
+
+    expect(result).toMatchObject({ notesRead: 4, nodesWithoutId: 0, skippedLinks: 0 });
+    const expected = summarize({ ...original, links: original.links.slice(0, 3) });
+    expect(summarize(result.graph)).toEqual(expected);
+    expect(result.graph.nodes[2]).toMatchObject({ healthScore: 0.72, healthCategory: 'critical', interval: 4 });
+    expect(result.graph.clusters!.map((cluster) => cluster.name)).toEqual(['Cell/Energy', 'Logic General']);
+  });
+
+  it('gives notes written in Obsidian new ids and reads their wikilinks as associations', () => {
+    const result = service.importVault([
+      { path: 'Physics/Forces.md', text: '# Forces\n\nPushes and pulls, see [[Vectors]] and [[Nowhere]].\n' },
+      { path: 'Physics/Vectors.md', text: '---\ncategory: physics\nmastery: 0.3\n---\n# Vectors\n' },
+    ]);
+
+    expect(result).toMatchObject({ notesRead: 2, nodesWithoutId: 2, skippedLinks: 1 });
+    expect(result.graph.nodes.map((n) => [n.id, n.category, n.masteryLevel])).toEqual([
+      ['imported_forces', 'imported', 0.5],
+      ['imported_vectors', 'physics', 0.3],
+    ]);
+    expect(result.graph.nodes[0]!.content).toBe('Pushes and pulls, see [[Vectors]] and [[Nowhere]].');
+    expect(result.graph.links.map((l) => [l.source, l.target, l.type])).toEqual([
+      ['imported_forces', 'imported_vectors', 'association'],
+    ]);
+  });
+
+  it('escapes labels in GraphML, OPML and Mermaid', () => {
+    const original = graph();
+
+    const graphml = service.toGraphML(original);
+    expect(graphml).toContain('<data key="label">Mitochondria &amp; ATP</data>');
+    expect(graphml).toContain('<data key="label">Krebs cycle: &quot;citric&quot; &lt;acid&gt;</data>');
+    expect(graphml).not.toContain('target="missing"');
+
+    const opml = service.toOPML(original);
+    expect(opml).toContain('<outline text="Cell/Energy"');
+    expect(opml).toContain('text="Krebs cycle: &quot;citric&quot; &lt;acid&gt;"');
+
+    const mermaid = service.toMermaid({
+      ...original,
+      nodes: [...original.nodes, node('manual_1', 'Two\nlines "quoted"')],
+    });
+    expect(mermaid).toContain('n4["Two lines #quot;quoted#quot;<br/>60% mastery"]');
+    expect(mermaid).toContain('n0 -->|prerequisite| n1');
+    expect(mermaid).toContain('n1 --- n2');
+  });
+});
@@ -0,0 +1,740 @@
+/**
+ * MindMapExportService - Neural graph interchange
+ *
+ * Exports a NeuralGraph (nodes, links, clusters with mastery and health) as
+ * GraphML, Mermaid, an OPML outline, or an Obsidian-style vault: one Markdown
+ * note per node with YAML frontmatter and [[wikilinks]], zipped for sharing.
+ * The vault imports back; node IDs are kept in the frontmatter so a round
+ * trip maps onto the same nodes. Wikilinks added by hand in Obsidian come
+ * back as association links.
+ */
+
+import JSZip from 'jszip';
+import { File, Paths } from 'expo-file-system';
+import {
+  KnowledgeCluster,
+  LogicStructure,
+  NeuralGraph,
+  NeuralLink,
+  NeuralNode,
+} from './MindMapGeneratorService';
+
+export type GraphExportFormat = 'graphml' | 'mermaid' | 'opml' | 'obsidian';
+
+export interface VaultNote {
+  path: string; // Relative to the vault root, e.g. "Biology/Mitochondria.md"
+  text: string;
+}
+
+export interface GraphExportResult {
+  fileName: string;
+  uri: string;
+  nodeCount: number;
+  linkCount: number;
+}
+
+export interface GraphImportResult {
+  graph: NeuralGraph;
+  notesRead: number;
+  nodesWithoutId: number; // Notes created in Obsidian, given new IDs
+  skippedLinks: number; // Wikilinks to notes that are not in the vault
+}
+
+const VAULT_INDEX_NOTE = 'Index.md';
+const LINK_TYPES: ReadonlyArray<NeuralLink['type']> = [
+  'association',
+  'prerequisite',
+  'similarity',
+  'temporal',
+  'spatial',
+  'logical',
+];
+const NODE_TYPES: ReadonlyArray<NeuralNode['type']> = ['concept', 'skill', 'goal', 'memory', 'habit', 'logic'];
+const SOURCE_TYPES: ReadonlyArray<NeuralNode['sourceType']> = [
+  'flashcard',
+  'task',
+  'palace',
+  'derived',
+  'logic',
+  'manual',
+];
+
+// "- prerequisite: [[Note name]] (0.35)" in a note's Links section
+const TYPED_LINK_PATTERN = /^\s*[-*]\s+(\w+)::?\s+\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\](?:\s+\(([\d.]+)\))?/;
+const WIKILINK_PATTERN = /\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]/g;
+
+export class MindMapExportService {
+  private static instance: MindMapExportService;
+
+  private constructor() {}
+
+  public static getInstance(): MindMapExportService {
+    if (!MindMapExportService.instance) {
+      MindMapExportService.instance = new MindMapExportService();
+    }
+    return MindMapExportService.instance;
+  }
+
+  // ==================== EXPORT ====================
+
+  /**
+   * Write the graph to a file in the cache directory, ready for sharing
+   */
+  async exportGraph(graph: NeuralGraph, format: GraphExportFormat): Promise<GraphExportResult> {
+    const stamp = new Date().toISOString().split('T')[0];
+    const links = this.validLinks(graph);
+    let fileName: string;
+    let contents: string | Uint8Array;
+
+    switch (format) {
+      case 'graphml':
+        fileName = `neural-map-${stamp}.graphml`;
+        contents = this.toGraphML(graph);
+        break;
+      case 'mermaid':
+        fileName = `neural-map-${stamp}.mmd`;
+        contents = this.toMermaid(graph);
+        break;
+      case 'opml':
+        fileName = `neural-map-${stamp}.opml`;
+        contents = this.toOPML(graph);
+        break;
+      case 'obsidian': {
+        fileName = `neural-map-vault-${stamp}.zip`;
+        const zip = new JSZip();
+        for (const note of this.toVault(graph)) zip.file(note.path, note.text);
+        contents = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+        break;
+      }
+    }
+
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(contents);
+
+    return { fileName, uri: file.uri, nodeCount: graph.nodes.length, linkCount: links.length };
+  }
+
+  toGraphML(graph: NeuralGraph): string {
+    const clusterOf = this.clusterIndex(graph.clusters);
+    const nodeKeys: Array<[string, string]> = [
+      ['label', 'string'],
+      ['type', 'string'],
+      ['category', 'string'],
+      ['cluster', 'string'],
+      ['mastery', 'double'],
+      ['health', 'double'],
+      ['healthCategory', 'string'],
+      ['cognitiveLoad', 'double'],
+      ['sourceType', 'string'],
+      ['sourceId', 'string'],
+      ['nextReview', 'string'],
+    ];
+    const edgeKeys: Array<[string, string]> = [
+      ['linkType', 'string'],
+      ['strength', 'double'],
+      ['weight', 'double'],
+      ['confidence', 'double'],
+    ];
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+      ...nodeKeys.map(([key, type]) => `  <key id="${key}" for="node" attr.name="${key}" attr.type="${type}"/>`),
+      ...edgeKeys.map(([key, type]) => `  <key id="${key}" for="edge" attr.name="${key}" attr.type="${type}"/>`),
+      '  <graph id="neural-map" edgedefault="directed">',
+    ];
+
+    for (const node of graph.nodes) {
+      const data: Record<string, string | number | undefined> = {
+        label: node.label,
+        type: node.type,
+        category: node.category,
+        cluster: clusterOf.get(node.id)?.name,
+        mastery: this.round(node.masteryLevel),
+        health: node.healthScore !== undefined ? this.round(node.healthScore) : undefined,
+        healthCategory: node.healthCategory,
+        cognitiveLoad: this.round(node.cognitiveLoad),
+        sourceType: node.sourceType,
+        sourceId: node.sourceId,
+        nextReview: this.toISODate(node.nextReviewDate),
+      };
+      lines.push(`    <node id="${this.escapeXml(node.id)}">`);
+      for (const [key, value] of Object.entries(data)) {
+        if (value === undefined || value === '') continue;
+        lines.push(`      <data key="${key}">${this.escapeXml(String(value))}</data>`);
+      }
+      lines.push('    </node>');
+    }
+
+    for (const link of this.validLinks(graph)) {
+      const { sourceId, targetId } = this.linkEnds(link);
+      lines.push(
+        `    <edge id="${this.escapeXml(link.id)}" source="${this.escapeXml(sourceId)}" target="${this.escapeXml(targetId)}">`,
+        `      <data key="linkType">${link.type}</data>`,
+        `      <data key="strength">${this.round(link.strength)}</data>`,
+        `      <data key="weight">${this.round(link.weight)}</data>`,
+        `      <data key="confidence">${this.round(link.confidence)}</data>`,
+        '    </edge>',
+      );
+    }
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Mermaid flowchart: one subgraph per cluster, nodes styled by health.
+   * Prerequisites are arrows, associations plain lines, temporal links dotted.
+   */
+  toMermaid(graph: NeuralGraph): string {
+    const shortIds = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+    const clustered = new Set<string>();
+    const lines = ['flowchart LR'];
+    const nodeLine = (node: NeuralNode, indent: string) =>
+      `${indent}${shortIds.get(node.id)}["${this.escapeMermaid(node.label)}<br/>${Math.round(
+        node.masteryLevel * 100,
+      )}% mastery"]`;
+
+    (graph.clusters ?? []).forEach((cluster, i) => {
+      lines.push(`  subgraph c${i}["${this.escapeMermaid(cluster.name)}"]`);
+      for (const node of cluster.nodes) {
+        if (!shortIds.has(node.id) || clustered.has(node.id)) continue;
+        clustered.add(node.id);
+        lines.push(nodeLine(node, '    '));
+      }
+      lines.push('  end');
+    });
+    for (const node of graph.nodes) {
+      if (!clustered.has(node.id)) lines.push(nodeLine(node, '  '));
+    }
+
+    for (const link of this.validLinks(graph)) {
+      const { sourceId, targetId } = this.linkEnds(link);
+      const arrow =
+        link.type === 'prerequisite' || link.type === 'logical'
+          ? `-->|${link.type}|`
+          : link.type === 'temporal'
+            ? '-.-'
+            : '---';
+      lines.push(`  ${shortIds.get(sourceId)} ${arrow} ${shortIds.get(targetId)}`);
+    }
+
+    lines.push(
+      '  classDef critical fill:#fee2e2,stroke:#dc2626',
+      '  classDef moderate fill:#fef3c7,stroke:#d97706',
+      '  classDef healthy fill:#d1fae5,stroke:#059669',
+    );
+    for (const category of ['critical', 'moderate', 'healthy'] as const) {
+      const ids = graph.nodes.filter((n) => n.healthCategory === category).map((n) => shortIds.get(n.id));
+      if (ids.length > 0) lines.push(`  class ${ids.join(',')} ${category}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * OPML outline: clusters, then their nodes with metrics as attributes
+   */
+  toOPML(graph: NeuralGraph): string {
+    const groups = this.groupByCluster(graph);
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<opml version="2.0">',
+      '  <head>',
+      `    <title>Neural Map</title>`,
+      `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+      '  </head>',
+      '  <body>',
+    ];
+
+    for (const group of groups) {
+      lines.push(
+        `    <outline text="${this.escapeXml(group.name)}" _health="${this.round(group.health)}" _mastery="${this.round(
+          group.mastery,
+        )}">`,
+      );
+      for (const node of group.nodes) {
+        const attributes: Record<string, string | number | undefined> = {
+          text: node.label,
+          _note: this.contentText(node.content) || undefined,
+          _id: node.id,
+          _type: node.type,
+          _category: node.category,
+          _mastery: this.round(node.masteryLevel),
+          _health: node.healthScore !== undefined ? this.round(node.healthScore) : undefined,
+          _healthCategory: node.healthCategory,
+        };
+        const rendered = Object.entries(attributes)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => `${key}="${this.escapeXml(String(value))}"`)
+          .join(' ');
+        lines.push(`      <outline ${rendered}/>`);
+      }
+      lines.push('    </outline>');
+    }
+
+    lines.push('  </body>', '</opml>');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Obsidian vault: a folder per cluster, a note per node, and an index note
+   */
+  toVault(graph: NeuralGraph): VaultNote[] {
+    const clusterOf = this.clusterIndex(graph.clusters);
+    const noteNames = this.assignNoteNames(graph.nodes);
+    const outgoing = new Map<string, NeuralLink[]>();
+    for (const link of this.validLinks(graph)) {
+      const { sourceId } = this.linkEnds(link);
+      if (!outgoing.has(sourceId)) outgoing.set(sourceId, []);
+      outgoing.get(sourceId)!.push(link);
+    }
+
+    const notes: VaultNote[] = graph.nodes.map((node) => {
+      const cluster = clusterOf.get(node.id);
+      const frontmatter: Record<string, unknown> = {
+        id: node.id,
+        type: node.type,
+        category: node.category,
+        cluster: cluster?.name,
+        mastery: this.round(node.masteryLevel),
+        health: node.healthScore !== undefined ? this.round(node.healthScore) : undefined,
+        healthCategory: node.healthCategory,
+        cognitiveLoad: this.round(node.cognitiveLoad),
+        sourceType: node.sourceType,
+        sourceId: node.sourceId,
+        interval: node.interval,
+        repetitions: node.repetitions,
+        easeFactor: node.easeFactor,
+        accessCount: node.accessCount,
+        nextReview: this.toISODate(node.nextReviewDate),
+        lastAccessed: this.toISODate(node.lastAccessed),
+        ...(typeof node.content === 'string' ? {} : { logic: node.content }),
+        tags: [`neural/${node.type}`, ...(node.healthCategory ? [`health/${node.healthCategory}`] : [])],
+      };
+
+      const body = [`# ${node.label}`, ''];
+      const content = this.contentText(node.content);
+      if (content) body.push(content, '');
+
+      const links = outgoing.get(node.id) ?? [];
+      if (links.length > 0) {
+        body.push('## Links', '');
+        for (const link of links) {
+          const target = noteNames.get(this.linkEnds(link).targetId)!;
+          body.push(`- ${link.type}: [[${target}]] (${this.round(link.strength)})`);
+        }
+        body.push('');
+      }
+
+      return {
+        path: `${this.folderName(cluster?.name ?? this.formatName(node.category || 'uncategorized'))}/${noteNames.get(node.id)}.md`,
+        text: `${this.toFrontmatter(frontmatter)}\n${body.join('\n')}`,
+      };
+    });
+
+    const index = [
+      this.toFrontmatter({ type: 'index', exported: new Date().toISOString() }),
+      '# Neural Map',
+      '',
+    ];
+    for (const group of this.groupByCluster(graph)) {
+      index.push(`## ${group.name}`, '', ...group.nodes.map((node) => `- [[${noteNames.get(node.id)}]]`), '');
+    }
+    notes.push({ path: VAULT_INDEX_NOTE, text: index.join('\n') });
+
+    return notes;
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Import a zipped vault (as produced by exportGraph 'obsidian')
+   */
+  async importVaultZip(data: Uint8Array): Promise<GraphImportResult> {
+    const zip = await JSZip.loadAsync(data);
+    const notes: VaultNote[] = [];
+    for (const entry of Object.values(zip.files)) {
+      if (entry.dir || !entry.name.toLowerCase().endsWith('.md')) continue;
+      if (entry.name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX')) continue;
+      notes.push({ path: entry.name, text: await entry.async('string') });
+    }
+    if (notes.length === 0) throw new Error('No Markdown notes found in this archive');
+    return this.importVault(notes);
+  }
+
+  /**
+   * Rebuild a graph from vault notes. Frontmatter ids are kept; notes
+   * without one get an id from their name.
+   */
+  importVault(notes: VaultNote[]): GraphImportResult {
+    const parsed = notes
+      .map((note) => ({ note, ...this.parseNote(note) }))
+      .filter((entry) => entry.frontmatter.type !== 'index');
+
+    const idByName = new Map<string, string>();
+    const nodes: NeuralNode[] = [];
+    const clusterNames = new Map<string, string>();
+    let nodesWithoutId = 0;
+
+    for (const entry of parsed) {
+      const name = this.noteName(entry.note.path);
+      const fm = entry.frontmatter;
+      let id = typeof fm.id === 'string' && fm.id ? fm.id : '';
+      if (!id) {
+        id = `imported_${this.slug(name)}`;
+        nodesWithoutId++;
+      }
+      if (idByName.has(name.toLowerCase())) continue;
+      idByName.set(name.toLowerCase(), id);
+
+      const node = this.toNode(id, entry.title ?? name, entry.content, fm);
+      nodes.push(node);
+      clusterNames.set(id, typeof fm.cluster === 'string' ? fm.cluster : this.formatName(node.category));
+    }
+
+    const links: NeuralLink[] = [];
+    const seen = new Set<string>();
+    let skippedLinks = 0;
+    for (const entry of parsed) {
+      const sourceId = idByName.get(this.noteName(entry.note.path).toLowerCase());
+      if (!sourceId) continue;
+
+      for (const ref of entry.links) {
+        const targetId = idByName.get(ref.target.trim().toLowerCase());
+        if (!targetId) {
+          skippedLinks++;
+          continue;
+        }
+        if (targetId === sourceId) continue;
+        const id = `${ref.type}_${sourceId}_${targetId}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        links.push({
+          id,
+          source: sourceId,
+          target: targetId,
+          strength: ref.strength ?? 0.5,
+          weight: ref.strength ?? 0.5,
+          type: ref.type,
+          activationCount: 0,
+          lastActivated: new Date(),
+          confidence: ref.strength ?? 0.5,
+        });
+      }
+    }
+
+    return {
+      graph: this.toGraph(nodes, links, clusterNames),
+      notesRead: parsed.length,
+      nodesWithoutId,
+      skippedLinks,
+    };
+  }
+
+  private parseNote(note: VaultNote): {
+    frontmatter: Record<string, unknown>;
+    title: string | null;
+    content: string;
+    links: Array<{ type: NeuralLink['type']; target: string; strength?: number }>;
+  } {
+    let text = note.text.replace(/\r\n/g, '\n');
+    let frontmatter: Record<string, unknown> = {};
+    const fmMatch = /^---\n([\s\S]*?)\n---\n?/.exec(text);
+    if (fmMatch) {
+      frontmatter = this.parseFrontmatter(fmMatch[1]!);
+      text = text.slice(fmMatch[0].length);
+    }
+
+    const lines = text.split('\n');
+    let title: string | null = null;
+    const contentLines: string[] = [];
+    const links: Array<{ type: NeuralLink['type']; target: string; strength?: number }> = [];
+    let inLinks = false;
+
+    for (const line of lines) {
+      if (title === null && /^#\s+/.test(line)) {
+        title = line.replace(/^#\s+/, '').trim();
+        continue;
+      }
+      if (/^##\s+Links\s*$/i.test(line)) {
+        inLinks = true;
+        continue;
+      }
+      if (/^##\s+/.test(line)) inLinks = false;
+
+      const typed = inLinks ? TYPED_LINK_PATTERN.exec(line) : null;
+      if (typed) {
+        const type = LINK_TYPES.includes(typed[1] as NeuralLink['type'])
+          ? (typed[1] as NeuralLink['type'])
+          : 'association';
+        const strength = typed[3] !== undefined ? Number(typed[3]) : undefined;
+        links.push({
+          type,
+          target: typed[2]!,
+          ...(strength !== undefined && Number.isFinite(strength) ? { strength } : {}),
+        });
+        continue;
+      }
+
+      // Wikilinks written anywhere else become associations
+      for (const match of line.matchAll(WIKILINK_PATTERN)) {
+        links.push({ type: 'association', target: match[1]! });
+      }
+      if (!inLinks) contentLines.push(line);
+    }
+
+    return { frontmatter, title, content: contentLines.join('\n').trim(), links };
+  }
+
+  private toNode(id: string, label: string, content: string, fm: Record<string, unknown>): NeuralNode {
+    const num = (value: unknown, fallback: number) =>
+      typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+    const date = (value: unknown) => {
+      const parsed = typeof value === 'string' ? new Date(value) : null;
+      return parsed && !isNaN(parsed.getTime()) ? parsed : new Date();
+    };
+    const type = NODE_TYPES.includes(fm.type as NeuralNode['type']) ? (fm.type as NeuralNode['type']) : 'concept';
+    const sourceType = SOURCE_TYPES.includes(fm.sourceType as NeuralNode['sourceType'])
+      ? (fm.sourceType as NeuralNode['sourceType'])
+      : 'derived';
+    const masteryLevel = Math.max(0, Math.min(1, num(fm.mastery, 0.5)));
+    const cognitiveLoad = Math.max(0, Math.min(1, num(fm.cognitiveLoad, 0.5)));
+    const nextReviewDate = date(fm.nextReview);
+    const health = typeof fm.health === 'number' ? Math.max(0, Math.min(1, fm.health)) : undefined;
+    const healthCategory =
+      fm.healthCategory === 'critical' || fm.healthCategory === 'moderate' || fm.healthCategory === 'healthy'
+        ? fm.healthCategory
+        : undefined;
+    const logic = fm.logic && typeof fm.logic === 'object' ? (fm.logic as LogicStructure) : null;
+
+    return {
+      id,
+      type,
+      radius: 10 + masteryLevel * 10,
+      activationLevel: masteryLevel,
+      isActive: nextReviewDate.getTime() <= Date.now(),
+      label,
+      content: logic ?? content,
+      category: typeof fm.category === 'string' && fm.category ? fm.category : 'imported',
+      masteryLevel,
+      cognitiveLoad,
+      lastAccessed: date(fm.lastAccessed),
+      accessCount: num(fm.accessCount, 0),
+      easeFactor: num(fm.easeFactor, 2.5),
+      interval: num(fm.interval, 1),
+      repetitions: num(fm.repetitions, 0),
+      nextReviewDate,
+      sourceType,
+      sourceId: typeof fm.sourceId === 'string' && fm.sourceId ? fm.sourceId : id,
+      ...(health !== undefined ? { healthScore: health } : {}),
+      ...(healthCategory ? { healthCategory } : {}),
+    };
+  }
+
+  private toGraph(nodes: NeuralNode[], links: NeuralLink[], clusterNames: Map<string, string>): NeuralGraph {
+    const groups = new Map<string, NeuralNode[]>();
+    for (const node of nodes) {
+      const name = clusterNames.get(node.id) ?? node.category;
+      if (!groups.has(name)) groups.set(name, []);
+      groups.get(name)!.push(node);
+    }
+
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const clusters: KnowledgeCluster[] = Array.from(groups.entries()).map(([name, members]) => ({
+      id: `cluster_${members[0]!.category}`,
+      name,
+      nodes: members,
+      health: average(members.map((n) => n.healthScore ?? 0.5)),
+      masteryLevel: average(members.map((n) => n.masteryLevel)),
+      category: members[0]!.category,
+      size: members.length,
+      centroid: { x: 0, y: 0 },
+      criticalNodes: members.filter((n) => n.healthCategory === 'critical'),
+      recommendations: [],
+    }));
+
+    const overallHealth = average(nodes.map((n) => n.healthScore ?? 0.5));
+    return {
+      nodes,
+      links,
+      totalActivationLevel: nodes.reduce((sum, n) => sum + n.activationLevel, 0),
+      knowledgeHealth: Math.round(overallHealth * 100),
+      cognitiveComplexity: average(nodes.map((n) => n.cognitiveLoad)),
+      lastUpdated: new Date(),
+      dueNodesCount: nodes.filter((n) => n.isActive).length,
+      criticalLogicCount: nodes.filter((n) => n.type === 'logic' && n.isActive).length,
+      clusters,
+    };
+  }
+
+  // ==================== FRONTMATTER ====================
+
+  /**
+   * YAML frontmatter with JSON-style values (valid YAML flow scalars)
+   */
+  private toFrontmatter(values: Record<string, unknown>): string {
+    const lines = ['---'];
+    for (const [key, value] of Object.entries(values)) {
+      if (value === undefined || value === null || value === '') continue;
+      lines.push(`${key}: ${JSON.stringify(value)}`);
+    }
+    lines.push('---');
+    return lines.join('\n');
+  }
+
+  private parseFrontmatter(block: string): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const line of block.split('\n')) {
+      const match = /^([A-Za-z_][\w-]*):\s*(.*)$/.exec(line);
+      if (!match) continue;
+      const raw = match[2]!.trim();
+      if (raw === '') continue;
+      try {
+        values[match[1]!] = JSON.parse(raw);
+      } catch {
+        // Plain YAML scalars written by hand
+        const unquoted = raw.replace(/^'(.*)'$/, '$1');
+        const number = Number(unquoted);
+        values[match[1]!] =
+          unquoted === 'true' ? true : unquoted === 'false' ? false : unquoted !== '' && !isNaN(number) ? number : unquoted;
+      }
+    }
+    return values;
+  }
+
+  // ==================== HELPERS ====================
+
+  private linkEnds(link: NeuralLink): { sourceId: string; targetId: string } {
+    return {
+      sourceId: typeof link.source === 'string' ? link.source : link.source.id,
+      targetId: typeof link.target === 'string' ? link.target : link.target.id,
+    };
+  }
+
+  /**
+   * Links whose endpoints are both nodes of the graph
+   */
+  private validLinks(graph: NeuralGraph): NeuralLink[] {
+    const ids = new Set(graph.nodes.map((node) => node.id));
+    return graph.links.filter((link) => {
+      const { sourceId, targetId } = this.linkEnds(link);
+      return ids.has(sourceId) && ids.has(targetId) && sourceId !== targetId;
+    });
+  }
+
+  private clusterIndex(clusters: KnowledgeCluster[] | undefined): Map<string, KnowledgeCluster> {
+    const index = new Map<string, KnowledgeCluster>();
+    for (const cluster of clusters ?? []) {
+      for (const node of cluster.nodes) {
+        if (!index.has(node.id)) index.set(node.id, cluster);
+      }
+    }
+    return index;
+  }
+
+  private groupByCluster(
+    graph: NeuralGraph,
+  ): Array<{ name: string; nodes: NeuralNode[]; health: number; mastery: number }> {
+    const clusterOf = this.clusterIndex(graph.clusters);
+    const groups = new Map<string, NeuralNode[]>();
+    for (const node of graph.nodes) {
+      const name = clusterOf.get(node.id)?.name ?? this.formatName(node.category || 'uncategorized');
+      if (!groups.has(name)) groups.set(name, []);
+      groups.get(name)!.push(node);
+    }
+    return Array.from(groups.entries()).map(([name, nodes]) => ({
+      name,
+      nodes,
+      health: nodes.reduce((sum, n) => sum + (n.healthScore ?? 0.5), 0) / nodes.length,
+      mastery: nodes.reduce((sum, n) => sum + n.masteryLevel, 0) / nodes.length,
+    }));
+  }
+
+  /**
+   * Unique, file-safe note names; wikilinks point at these
+   */
+  private assignNoteNames(nodes: NeuralNode[]): Map<string, string> {
+    const names = new Map<string, string>();
+    const used = new Set<string>();
+    for (const node of nodes) {
+      const base = this.fileSafe(node.label) || this.fileSafe(node.id) || 'Untitled';
+      let name = base;
+      for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} ${n}`;
+      used.add(name.toLowerCase());
+      names.set(node.id, name);
+    }
+    return names;
+  }
+
+  private fileSafe(text: string): string {
+    return text
+      .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, 80)
+      .trim();
+  }
+
+  private folderName(name: string): string {
+    return this.fileSafe(name) || 'Uncategorized';
+  }
+
+  private noteName(path: string): string {
+    return (path.split('/').pop() ?? path).replace(/\.md$/i, '');
+  }
+
+  private slug(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '_')
+      .replace(/^_+|_+$/g, '');
+  }
+
+  private formatName(category: string): string {
+    return category
+      .split(/[-_]/)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  private contentText(content: string | LogicStructure): string {
+    if (typeof content === 'string') return content.trim();
+    return [
+      content.question,
+      `Premise 1: ${content.premise1}`,
+      `Premise 2: ${content.premise2}`,
+      `Conclusion: ${content.conclusion}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private toISODate(value: Date | string | undefined): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  private round(value: number): number {
+    return Math.round((value || 0) * 1000) / 1000;
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  private escapeMermaid(text: string): string {
+    return text.replace(/"/g, '#quot;').replace(/[\r\n]+/g, ' ');
+  }
+}
+
+export default MindMapExportService;
@@ -0,0 +1,248 @@
+import { MindMapGenerator, NeuralLink } from './MindMapGeneratorService';
+import { CardState } from './SpacedRepetitionService';
+import { ManualGraphEdits, MindMapEditService } from './MindMapEditService';
+import { Flashcard, LogicNode } from '../../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 9, 0);
+
+const mockStore = {
+  flashcards: [] as Flashcard[],
+  logicNodes: [] as LogicNode[],
+  edits: null as ManualGraphEdits | null,
+  reads: [] as string[],
+};
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getFlashcards: async () => {
+        mockStore.reads.push('flashcards');
+        return mockStore.flashcards;
+      },
+      getTasks: async () => [],
+      getStudySessions: async () => [],
+      getMemoryPalaces: async () => [],
+      getLogicNodes: async () => {
+        mockStore.reads.push('logicNodes');
+        return mockStore.logicNodes;
+      },
+      getReadingSessions: async () => [],
+      getMindMapEdits: async () => mockStore.edits,
+      saveMindMapEdits: async (edits: ManualGraphEdits) => {
+        mockStore.edits = edits;
+      },
+    }),
+  },
+}));
+jest.mock('./SemanticEmbeddingService', () => ({
+  SemanticEmbeddingService: {
+    getInstance: () => ({
+      // Nothing embedded: similarity comes from word overlap
+      buildDocuments: () => [],
+      sync: async () => 0,
+      hasDocument: () => false,
+      proposeSimilarityLinks: () => [],
+    }),
+  },
+}));
+
+const logicNode = (id: string, premise1: string, conclusion: string, dueInDays: number): LogicNode => ({
+  id,
+  question: `Question ${id}`,
+  premise1,
+  premise2: 'Some premise that is always given',
+  conclusion,
+  type: 'deductive',
+  domain: 'general',
+  difficulty: 2,
+  easeFactor: 2.5,
+  interval: 5,
+  repetitions: 3,
+  nextReviewDate: new Date(NOW.getTime() + dueInDays * DAY),
+  lastAccessed: new Date(NOW.getTime() - 2 * DAY),
+  lastReview: new Date(NOW.getTime() - 6 * DAY),
+  totalAttempts: 3,
+  correctAttempts: 3,
+  accessCount: 3,
+  stability: 0.5,
+  fsrsDifficulty: 4,
+  state: CardState.Review,
+  created: new Date(NOW.getTime() - 30 * DAY),
+  modified: new Date(NOW.getTime() - 6 * DAY),
+});
+
+const flashcard = (id: string, createdDaysAgo: number, dueInDays: number, category = 'biology'): Flashcard => ({
+  id,
+  front: `Front ${id}`,
+  back: `Back ${id}`,
+  category,
+  created: new Date(NOW.getTime() - createdDaysAgo * DAY),
+  nextReview: new Date(NOW.getTime() + dueInDays * DAY),
+  lastReviewed: new Date(NOW.getTime() - 6 * DAY),
+  interval: 5,
+  easeFactor: 1.3,
+  repetitions: 1,
+  state: CardState.Review,
+  stability: 0.5,
+  fsrsDifficulty: 8,
+});
+
+const ends = (link: NeuralLink) => [
+  typeof link.source === 'string' ? link.source : link.source.id,
+  typeof link.target === 'string' ? link.target : link.target.id,
+];
+
+describe('MindMapGenerator knowledge gaps', () => {
+  const generator = MindMapGenerator.getInstance();
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockStore.flashcards = [];
+    mockStore.logicNodes = [];
+  });
+
+  it('finds a weak prerequisite from a logic chain', async () => {
+    mockStore.logicNodes = [
+      // Badly overdue, so its health is low
+      logicNode('whales', 'Whales breathe air through lungs', 'Whales are mammals', -20),
+      logicNode('milk', 'Whales are mammals', 'Whales feed their young milk', 0),
+    ];
+
+    const graph = await generator.generateNeuralGraph(true, true);
+
+    const prerequisites = graph.links.filter((link) => link.type === 'prerequisite').map(ends);
+    expect(prerequisites).toEqual([['logic_whales', 'logic_milk']]);
+    const gap = graph.knowledgeGaps!.find((g) => g.kind === 'weak_prerequisite');
+    expect(gap).toMatchObject({ id: 'gap_prereq_logic_whales', suggestedAction: 'review_task' });
+    expect(gap!.dependents.map((node) => node.id)).toEqual(['logic_milk']);
+  });
+
+  it('does not treat cards added earlier to the same deck as prerequisites', async () => {
+    mockStore.flashcards = [flashcard('first', 30, -20), flashcard('second', 10, 0)];
+
+    const graph = await generator.generateNeuralGraph(true, true);
+
+    expect(graph.links.filter((link) => link.type === 'prerequisite')).toEqual([]);
+    expect(graph.knowledgeGaps!.filter((gap) => gap.kind === 'weak_prerequisite')).toEqual([]);
+  });
+
+  it('uses prerequisite links drawn by hand and reports unlinked concepts as orphans', async () => {
+    const editor = MindMapEditService.getInstance();
+    const vectors = await editor.addNode({ label: 'Vectors', category: 'physics', masteryLevel: 0 });
+    const forces = await editor.addNode({ label: 'Forces', category: 'physics', masteryLevel: 0.6 });
+    const entropy = await editor.addNode({ label: 'Entropy', category: 'thermodynamics', masteryLevel: 0.5 });
+    await editor.addLink({ source: vectors.id, target: forces.id, type: 'prerequisite' });
+
+    const graph = await generator.generateNeuralGraph(true, true);
+
+    const gaps = new Map(graph.knowledgeGaps!.map((gap) => [gap.node.id, gap]));
+    expect(gaps.get(vectors.id)).toMatchObject({ kind: 'weak_prerequisite' });
+    expect(gaps.get(vectors.id)!.dependents.map((node) => node.id)).toEqual([forces.id]);
+    expect(gaps.get(entropy.id)).toMatchObject({ kind: 'orphan', suggestedAction: 'review_task' });
+  });
+});
+
+describe('MindMapGenerator incremental updates', () => {
+  const generator = MindMapGenerator.getInstance();
+  const cards = (count: number) => Array.from({ length: count }, (_, i) => flashcard(`c${i}`, 30, 10));
+  const ids = (nodes: Array<{ id: string }>) => nodes.map((node) => node.id).sort();
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    jest.setSystemTime(NOW);
+    mockStore.flashcards = cards(12);
+    mockStore.logicNodes = [];
+  });
+
+  it('reloads only the written source and reports the changed node', async () => {
+    const first = await generator.generateNeuralGraph(true, true);
+    expect(generator.getLastDiff()!.full).toBe(true);
+
+    mockStore.reads = [];
+    mockStore.flashcards = mockStore.flashcards.map((card) => (card.id === 'c3' ? { ...card, repetitions: 6 } : card));
+    generator.markSourcesChanged('flashcards');
+    const graph = await generator.generateNeuralGraph();
+
+    expect(mockStore.reads).toEqual(['flashcards']);
+    const diff = generator.getLastDiff()!;
+    expect(diff).toMatchObject({
+      full: false,
+      addedNodes: [],
+      removedNodeIds: [],
+      addedLinks: [],
+      removedLinks: [],
+      affectedClusterIds: ['cluster_biology'],
+    });
+    expect(ids(diff.updatedNodes)).toEqual(['flashcard_c3']);
+
+    // Unchanged nodes are the same objects, with the same health
+    const before = first.nodes.find((node) => node.id === 'flashcard_c0');
+    expect(graph.nodes.find((node) => node.id === 'flashcard_c0')).toBe(before);
+    const updated = graph.nodes.find((node) => node.id === 'flashcard_c3')!;
+    expect(updated.healthScore).toBeGreaterThan(first.nodes.find((node) => node.id === 'flashcard_c3')!.healthScore!);
+
+    // Nothing written since: the cached graph is returned
+    mockStore.reads = [];
+    expect(await generator.generateNeuralGraph()).toBe(graph);
+    expect(mockStore.reads).toEqual([]);
+  });
+
+  it('adds and removes nodes with their links and matches a full rebuild', async () => {
+    await generator.generateNeuralGraph(true, true);
+
+    mockStore.flashcards = [...cards(12).slice(0, 11), flashcard('c12', 0, 10, 'chemistry')];
+    generator.markSourcesChanged('flashcards');
+    const graph = await generator.generateNeuralGraph();
+
+    const diff = generator.getLastDiff()!;
+    expect(diff.full).toBe(false);
+    expect(ids(diff.addedNodes)).toEqual(['flashcard_c12', 'skill_chemistry']);
+    expect(ids(diff.updatedNodes)).toEqual(['skill_biology']);
+    expect(diff.removedNodeIds).toEqual(['flashcard_c11']);
+    expect(diff.removedLinks.length).toBeGreaterThan(0);
+    expect(diff.removedLinks.every((link) => ends(link).includes('flashcard_c11'))).toBe(true);
+    expect(diff.addedLinks.map(ends)).toContainEqual(['flashcard_c12', 'skill_chemistry']);
+    expect([...diff.affectedClusterIds].sort()).toEqual(['cluster_biology', 'cluster_chemistry']);
+
+    // Health metrics updated from the diff agree with scoring every node
+    const rebuilt = await generator.generateNeuralGraph(true, true);
+    expect(graph.healthMetrics!.overallHealth).toBeCloseTo(rebuilt.healthMetrics!.overallHealth);
+    expect(graph.healthMetrics!.healthDistribution).toEqual(rebuilt.healthMetrics!.healthDistribution);
+    expect(ids(graph.healthMetrics!.criticalNodes)).toEqual(ids(rebuilt.healthMetrics!.criticalNodes));
+    expect(graph.clusters!.map((cluster) => [cluster.id, cluster.size]).sort()).toEqual(
+      rebuilt.clusters!.map((cluster) => [cluster.id, cluster.size]).sort(),
+    );
+  });
+
+  it('rescores an overdue node once a day, not on every build', async () => {
+    mockStore.flashcards = [...cards(12), flashcard('late', 30, -0.5)];
+    const first = await generator.generateNeuralGraph(true, true);
+    const late = first.nodes.find((node) => node.id === 'flashcard_late')!;
+
+    jest.setSystemTime(NOW.getTime() + 0.25 * DAY);
+    const sameDay = await generator.generateNeuralGraph(true);
+    expect(ids(generator.getLastDiff()!.updatedNodes)).not.toContain('flashcard_late');
+    expect(sameDay.nodes.find((node) => node.id === 'flashcard_late')).toBe(late);
+
+    jest.setSystemTime(NOW.getTime() + DAY);
+    const nextDay = await generator.generateNeuralGraph(true);
+    expect(ids(generator.getLastDiff()!.updatedNodes)).toContain('flashcard_late');
+    expect(nextDay.nodes.find((node) => node.id === 'flashcard_late')!.healthScore).toBeLessThan(late.healthScore!);
+  });
+});
@@ -1,6 +1,11 @@
-import StorageService from '../storage/StorageService';
+import StorageService, { LogicNode } from '../storage/StorageService';
 import { SpacedRepetitionService } from './SpacedRepetitionService';
+import { NoteTypeService } from './NoteTypeService';
+import { ManualNode, MindMapEditService } from './MindMapEditService';
+import { SemanticEmbeddingService } from './SemanticEmbeddingService';
 import { ReadingSession, SourceLink } from './SpeedReadingService';
+import { Flashcard, MemoryPalace, StudySession, Task } from '../../types';
+import { EventSystem, EVENT_TYPES } from '../../core/EventSystem';
 
 /**
  * Enhanced MindMapGeneratorService with Phase 2: Data Intelligence & Logic
@@ -56,10 +61,14 @@ export interface NeuralNode {
   // FSRS performance tracking
   lastDifficulty?: 'again' | 'hard' | 'good' | 'easy';
   stability?: number;
-  difficulty?: number;
+  difficulty?: number; // The source's own difficulty scale, e.g. 1-5 for logic
+  fsrsDifficulty?: number; // FSRS 1-10
+  state?: number; // FSRS CardState
+  lapses?: number;
+  lastReviewed?: Date;
 
   // Source tracking for navigation
-  sourceType: 'flashcard' | 'task' | 'palace' | 'derived' | 'logic';
+  sourceType: 'flashcard' | 'task' | 'palace' | 'derived' | 'logic' | 'manual';
   sourceId: string;
 
   // Phase 2 Enhancement: Health Scoring
@@ -133,6 +142,39 @@ export interface KnowledgeCluster {
   recommendations: string[];
 }
 
+/**
+ * Knowledge gap found by graph analysis, ranked for a "fix these first" list
+ * - weak_prerequisite: a weak node that nodes being studied depend on
+ * - orphan: a concept with no associations to the rest of the map
+ */
+export interface KnowledgeGap {
+  id: string;
+  kind: 'weak_prerequisite' | 'orphan';
+  node: NeuralNode;
+  dependents: NeuralNode[]; // Studied nodes that build on it (weak_prerequisite only)
+  priority: number; // 0-1, higher = fix first
+  reason: string;
+  suggestedAction: 'review_task' | 'flashcard';
+}
+
+export type KnowledgeGapFix =
+  | { type: 'review_task'; task: Task }
+  | { type: 'flashcard'; flashcards: Flashcard[] };
+
+/**
+ * What changed between two builds of the graph. `full` diffs come from a
+ * rebuild and list every node and link as added.
+ */
+export interface NeuralGraphDiff {
+  full: boolean;
+  addedNodes: NeuralNode[];
+  updatedNodes: NeuralNode[];
+  removedNodeIds: string[];
+  addedLinks: NeuralLink[];
+  removedLinks: NeuralLink[];
+  affectedClusterIds: string[];
+}
+
 export interface NeuralGraph {
   nodes: NeuralNode[];
   links: NeuralLink[];
@@ -162,6 +204,7 @@ export interface NeuralGraph {
 
   clusters?: KnowledgeCluster[];
   learningPaths?: LearningPath[];
+  knowledgeGaps?: KnowledgeGap[];
 
   // Enhanced metrics
   metrics?: {
@@ -183,6 +226,40 @@ export interface NeuralGraph {
   readingComprehensionScore?: number;
 }
 
+// Knowledge gaps: health below this makes a prerequisite weak
+const KNOWLEDGE_GAP_WEAK_HEALTH = 0.4;
+// Nodes accessed within this many days count as being studied
+const STUDYING_WINDOW_DAYS = 14;
+const MAX_KNOWLEDGE_GAPS = 20;
+
+// Incremental updates: above this share of changed nodes a rebuild is cheaper
+const MAX_INCREMENTAL_CHANGE = 0.3;
+// Storage writes often come in bursts (e.g. a review session saving cards)
+const SOURCE_CHANGE_DEBOUNCE_MS = 750;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored data the graph is generated from, by the source names
+// LEARNING_DATA_CHANGED events carry
+interface GraphSources {
+  flashcards: Flashcard[];
+  tasks: Task[];
+  studySessions: StudySession[];
+  memoryPalaces: MemoryPalace[];
+  logicNodes: LogicNode[];
+  readingSessions: ReadingSession[];
+}
+type GraphSource = keyof GraphSources;
+type GraphInput = GraphSource | 'edits';
+
+const GRAPH_SOURCES: GraphSource[] = [
+  'flashcards',
+  'tasks',
+  'studySessions',
+  'memoryPalaces',
+  'logicNodes',
+  'readingSessions',
+];
+
 /**
  * Enhanced Mind Map Generator with Phase 2: Data Intelligence & Logic
  * Implements Health Scoring, Learning Paths, and Cluster Analysis
@@ -191,11 +268,27 @@ export class MindMapGenerator {
   private static instance: MindMapGenerator;
   private storage: StorageService;
   private srs: SpacedRepetitionService;
+  private editService: MindMapEditService;
+  private embeddings: SemanticEmbeddingService;
 
   // Enhanced caching for Phase 2 algorithms
   private lastGeneratedGraph?: NeuralGraph;
   private lastUpdateTime = 0;
   private cacheValidityMs = 5 * 60 * 1000; // 5 minutes
+  private editRevision = -1; // MindMapEditService revision the cached graph includes
+
+  // Change tracking for incremental regeneration
+  private nodeSignatures = new Map<string, string>();
+  private pairwiseLinks: NeuralLink[] = []; // Category, semantic and logical links
+  private similarityLinks: NeuralLink[] = []; // From local embeddings
+  private embeddingVersion = -1; // SemanticEmbeddingService model the similarity links come from
+  private temporalLinks: NeuralLink[] = []; // From study sessions
+  private lastDiff: NeuralGraphDiff | null = null;
+  private sources?: GraphSources; // As loaded for the last build
+  private sourceNodes = new Map<string, NeuralNode[]>(); // Generated nodes per source
+  private dirtySources = new Set<GraphSource>(); // Written since the last build
+  private sourceChangeTimer: ReturnType<typeof setTimeout> | null = null;
+  private graphCallbacks: Array<(graph: NeuralGraph, diff: NeuralGraphDiff) => void> = [];
 
   // Phase 2 Caches
   private healthMetricsCache?: NeuralGraph['healthMetrics'];
@@ -213,6 +306,13 @@ export class MindMapGenerator {
   private constructor() {
   this.storage = StorageService.getInstance();
     this.srs = SpacedRepetitionService.getInstance();
+    this.editService = MindMapEditService.getInstance();
+    this.embeddings = SemanticEmbeddingService.getInstance();
+
+    // Flashcards, tasks, palaces, logic nodes and sessions saved anywhere
+    EventSystem.getInstance().subscribe(EVENT_TYPES.LEARNING_DATA_CHANGED, (event) =>
+      this.markSourcesChanged(event.data?.source),
+    );
   }
 
   // Compatibility methods used by orchestrators
@@ -239,29 +339,47 @@ export class MindMapGenerator {
   /**
    * Main method: Generate complete neural graph with Phase 2 enhancements
    * Now includes Health Scoring, Cluster Analysis, and Learning Path Generation
+   *
+   * After the first build the graph is updated incrementally: only sources
+   * written since then are reloaded and regenerated, nodes are diffed
+   * against the previous build, and only changed nodes are rescored,
+   * relinked and reclustered. `fullRebuild` starts from scratch.
    */
-  async generateNeuralGraph(forceRefresh = false): Promise<NeuralGraph> {
+  async generateNeuralGraph(forceRefresh = false, fullRebuild = false): Promise<NeuralGraph> {
     try {
       // Check cache validity
       const now = Date.now();
+      const editRevision = this.editService.getRevision();
+      const expired = now - this.lastUpdateTime >= this.cacheValidityMs;
       if (
         !forceRefresh &&
         this.lastGeneratedGraph &&
-        now - this.lastUpdateTime < this.cacheValidityMs
+        !expired &&
+        editRevision === this.editRevision &&
+        this.dirtySources.size === 0
       ) {
         return this.lastGeneratedGraph;
       }
 
-      // Load all data sources in parallel
-      const [flashcards, tasks, sessions, palaces, logicNodes, readingSessions] =
-        await Promise.all([
-        this.storage.getFlashcards(),
-          this.storage.getTasks(),
-          this.storage.getStudySessions(),
-          this.storage.getMemoryPalaces(),
-          this.storage.getLogicNodes(),
-          this.storage.getReadingSessions(),
-        ]);
+      // An expired cache or a refresh reloads everything, e.g. to pick up
+      // data synced from another device
+      const reloadAll = forceRefresh || fullRebuild || expired || !this.sources;
+      const dirty = new Set<GraphInput>(reloadAll ? GRAPH_SOURCES : this.dirtySources);
+      if (reloadAll || editRevision !== this.editRevision) dirty.add('edits');
+      this.dirtySources = new Set();
+
+      const [sources, edits] = await Promise.all([
+        this.loadSources(dirty),
+        this.editService.getEdits(),
+      ]);
+      const {
+        flashcards,
+        tasks,
+        studySessions: sessions,
+        memoryPalaces: palaces,
+        logicNodes,
+        readingSessions,
+      } = sources;
 
       // Early return if no data
       if (
@@ -269,59 +387,136 @@ export class MindMapGenerator {
         !tasks.length &&
         !palaces.length &&
         !logicNodes.length &&
-        !readingSessions.length
+        !readingSessions.length &&
+        !edits.nodes.length
       ) {
+        this.resetChangeTracking();
         return this.createEmptyGraph();
       }
 
-      // Generate nodes with enhanced health scoring
-      const nodeGenerators = [
-        () => this.generateFlashcardNodes(flashcards, sessions),
-        () => this.generateTaskNodes(tasks),
-        () => this.generateMemoryPalaceNodes(palaces),
-        () => this.generateLogicNodes(logicNodes, sessions),
-        () => this.generateDerivedNodes(flashcards, tasks),
-        () => this.generateReadingNodes(readingSessions),
+      // Regenerate the nodes of changed sources only
+      const nodeGenerators: Array<[string, GraphInput[], () => NeuralNode[]]> = [
+        ['flashcards', ['flashcards', 'studySessions'], () => this.generateFlashcardNodes(flashcards, sessions)],
+        ['tasks', ['tasks'], () => this.generateTaskNodes(tasks)],
+        ['memoryPalaces', ['memoryPalaces'], () => this.generateMemoryPalaceNodes(palaces)],
+        ['logicNodes', ['logicNodes', 'studySessions'], () => this.generateLogicNodes(logicNodes, sessions)],
+        ['derived', ['flashcards', 'tasks'], () => this.generateDerivedNodes(flashcards, tasks)],
+        ['readingSessions', ['readingSessions'], () => this.generateReadingNodes(readingSessions)],
+        ['manual', ['edits'], () => this.generateManualNodes(edits.nodes)],
       ];
+      const nodeArrays = nodeGenerators.map(([key, inputs, generate]) => {
+        const cached = this.sourceNodes.get(key);
+        const generated = cached && !inputs.some((input) => dirty.has(input)) ? cached : generate();
+        this.sourceNodes.set(key, generated);
+        return generated;
+      });
 
-      const nodeArrays = await Promise.all(
-        nodeGenerators.map((generator) => Promise.resolve(generator())),
-      );
-
-      const nodes = nodeArrays.flat();
-
-      // CRITICAL: Apply FSRS activation detection and health scoring
-      const currentDate = new Date();
-      nodes.forEach((node) => {
-        // FSRS activation detection
-        node.isActive =
-          node.nextReviewDate && node.nextReviewDate <= currentDate;
+      const previous = fullRebuild ? undefined : this.lastGeneratedGraph;
+      const previousById = new Map((previous?.nodes ?? []).map((node) => [node.id, node]));
+      const { nodes, added, updated, removed } = this.reconcileNodes(nodeArrays.flat(), previousById);
+      const changedCount = added.length + updated.length + removed.length;
+      const incremental =
+        !!previous && changedCount <= nodes.length * MAX_INCREMENTAL_CHANGE;
+
+      // Pairwise links only change around changed nodes; the others are kept
+      const changedIds = new Set([...added, ...updated].map((node) => node.id));
+      const staleIds = new Set([...changedIds, ...removed.map((node) => node.id)]);
+
+      // Embedding similarity; a refitted embedding space invalidates every link
+      const embeddedIds = new Set<string>();
+      try {
+        const embeddingVersion =
+          this.embeddingVersion < 0 ||
+          dirty.has('flashcards') ||
+          dirty.has('logicNodes') ||
+          dirty.has('readingSessions')
+            ? await this.embeddings.sync(
+                this.embeddings.buildDocuments(flashcards, logicNodes, readingSessions),
+              )
+            : this.embeddingVersion;
+        nodes.forEach((node) => {
+          if (this.embeddings.hasDocument(node.id)) embeddedIds.add(node.id);
+        });
+        if (incremental && embeddingVersion === this.embeddingVersion) {
+          this.similarityLinks = [
+            ...this.similarityLinks.filter((link) => !this.linkTouches(link, staleIds)),
+            ...this.generateEmbeddingLinks(
+              Array.from(changedIds).filter((id) => embeddedIds.has(id)),
+            ),
+          ];
+        } else {
+          this.similarityLinks = this.generateEmbeddingLinks();
+        }
+        this.embeddingVersion = embeddingVersion;
+      } catch (error) {
+        console.warn('Embedding similarity unavailable, using word overlap', error);
+        embeddedIds.clear();
+        this.similarityLinks = [];
+        this.embeddingVersion = -1;
+      }
 
-        // Phase 2: Calculate health score for each node
-        node.healthScore = this.calculateNodeHealthScore(node);
-        node.healthCategory = this.categorizeNodeHealth(node.healthScore);
-      });
+      if (incremental) {
+        this.pairwiseLinks = [
+          ...this.pairwiseLinks.filter((link) => !this.linkTouches(link, staleIds)),
+          ...this.generateCategoryLinks(nodes, changedIds),
+          ...this.generateSemanticLinks(nodes, changedIds, embeddedIds),
+          ...this.generateLogicalLinks(nodes, changedIds),
+          ...this.generateGoalLinks(nodes, tasks, changedIds),
+          ...this.generatePrerequisiteLinks(nodes, changedIds),
+        ];
+      } else {
+        this.pairwiseLinks = [
+          ...this.generateCategoryLinks(nodes),
+          ...this.generateSemanticLinks(nodes, undefined, embeddedIds),
+          ...this.generateLogicalLinks(nodes),
+          ...this.generateGoalLinks(nodes, tasks),
+          ...this.generatePrerequisiteLinks(nodes),
+        ];
+      }
 
-      // Generate enhanced links
-      const linkGenerators = [
-        () => this.generateCategoryLinks(nodes),
-        () => this.generateSemanticLinks(nodes),
-        () => this.generateTemporalLinks(nodes, sessions),
-        () => this.generateGoalLinks(nodes, tasks),
-        () => this.generatePrerequisiteLinks(nodes),
-        () => this.generateLogicalLinks(nodes),
-      ];
+      // Session links depend on the sessions alone
+      if (!incremental || dirty.has('studySessions')) {
+        this.temporalLinks = this.generateTemporalLinks(nodes, sessions);
+      }
 
-      const linkArrays = await Promise.all(
-        linkGenerators.map((generator) => Promise.resolve(generator())),
+      // Hand-made links win over generated ones between the same pair
+      const merged = this.editService.mergeLinks(
+        [...this.pairwiseLinks, ...this.similarityLinks, ...this.temporalLinks],
+        new Set(nodes.map((node) => node.id)),
+        edits,
       );
-
-      const links = linkArrays.flat();
+      const links = this.reuseLinks(merged.links, previous?.links ?? []);
 
       // Phase 2: Advanced Analysis
-      const healthMetrics = this.calculateHealthMetrics(nodes);
-      const clusters = await this.generateKnowledgeClusters(nodes, links);
-      const learningPaths = await this.generateLearningPaths(nodes, links);
+      const healthMetrics =
+        incremental && previous?.healthMetrics
+          ? this.updateHealthMetrics(previous.healthMetrics, previousById, [...added, ...updated], removed)
+          : this.calculateHealthMetrics(nodes);
+      const affectedCategories = new Set(
+        [...added, ...updated, ...removed].map((node) => node.category || 'uncategorized'),
+      );
+      for (const node of updated) {
+        const before = previousById.get(node.id);
+        if (before) affectedCategories.add(before.category || 'uncategorized');
+      }
+      const clusters = incremental
+        ? await this.updateKnowledgeClusters(nodes, links, previous?.clusters ?? [], affectedCategories)
+        : await this.generateKnowledgeClusters(nodes, links);
+
+      // Gaps and paths depend on the whole link structure; they are kept
+      // while no node or link changed
+      const previousLinks = new Set(previous?.links ?? []);
+      const unchanged =
+        incremental &&
+        changedCount === 0 &&
+        links.length === previousLinks.size &&
+        links.every((link) => previousLinks.has(link));
+      const knowledgeGaps = unchanged
+        ? previous?.knowledgeGaps ?? []
+        : this.findKnowledgeGaps(nodes, links);
+      const learningPaths = unchanged
+        ? previous?.learningPaths ?? []
+        : await this.generateLearningPaths(nodes, links, knowledgeGaps);
 
       // Create enhanced graph with Phase 2 analytics
       const graph = await this.createEnhancedGraph(
@@ -331,14 +526,21 @@ export class MindMapGenerator {
         clusters,
         learningPaths,
         readingSessions,
+        knowledgeGaps,
       );
 
       // Cache the result
       this.lastGeneratedGraph = graph;
       this.lastUpdateTime = now;
       this.cacheTimestamp = now;
+      this.editRevision = editRevision;
+      this.lastDiff = this.diffGraphs(previous, graph, added, updated, removed, incremental, affectedCategories);
 
-      console.log('🧠 Phase 2 Neural Graph Generated:');
+      console.log(
+        incremental
+          ? `🧠 Neural Graph Updated: +${added.length} ~${updated.length} -${removed.length} nodes`
+          : '🧠 Phase 2 Neural Graph Generated:',
+      );
       console.log(
         `   📊 Health: ${Math.round(
           (healthMetrics?.overallHealth || 0.5) * 100,
@@ -346,16 +548,282 @@ export class MindMapGenerator {
       );
       console.log(`   🔗 Clusters: ${clusters.length}`);
       console.log(`   🛤️  Paths: ${learningPaths.length}`);
+      console.log(`   🕳️  Gaps: ${knowledgeGaps.length}`);
 
       return graph;
     } catch (error: any) {
       console.error('Error generating neural graph:', error);
+      delete this.sources; // Reload everything next time
       throw new Error(
         `Neural graph generating failed: ${error?.message || 'Unknown error'}`,
       );
     }
   }
 
+  // ==================== INCREMENTAL UPDATES ====================
+
+  /**
+   * The diff produced by the last generateNeuralGraph build (null before the
+   * first build and for cache hits)
+   */
+  public getLastDiff(): NeuralGraphDiff | null {
+    return this.lastDiff;
+  }
+
+  /**
+   * Subscribe to graphs rebuilt in the background after learning data changed
+   */
+  public onGraphUpdated(
+    callback: (graph: NeuralGraph, diff: NeuralGraphDiff) => void,
+  ): () => void {
+    this.graphCallbacks.push(callback);
+
+    return () => {
+      const index = this.graphCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.graphCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Mark a source (default: all of them) stale. With subscribers, the graph
+   * is updated once the burst of writes settles and the diff is pushed to them.
+   */
+  public markSourcesChanged(source?: string): void {
+    const known = GRAPH_SOURCES.find((name) => name === source);
+    if (known) {
+      this.dirtySources.add(known);
+    } else {
+      GRAPH_SOURCES.forEach((name) => this.dirtySources.add(name));
+    }
+    if (this.graphCallbacks.length === 0) return;
+
+    if (this.sourceChangeTimer) clearTimeout(this.sourceChangeTimer);
+    this.sourceChangeTimer = setTimeout(async () => {
+      this.sourceChangeTimer = null;
+      try {
+        const graph = await this.generateNeuralGraph();
+        const diff = this.lastDiff;
+        if (!diff) return;
+        this.graphCallbacks.forEach((callback) => {
+          try {
+            callback(graph, diff);
+          } catch (error) {
+            console.error('Error in graph update callback:', error);
+          }
+        });
+      } catch (error) {
+        console.error('Error updating neural graph after data change:', error);
+      }
+    }, SOURCE_CHANGE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Source data for a build: sources not written since the last build are
+   * reused, the others are read from storage
+   */
+  private async loadSources(dirty: Set<GraphInput>): Promise<GraphSources> {
+    const previous = this.sources;
+    const load = <K extends GraphSource>(
+      source: K,
+      read: () => Promise<GraphSources[K]>,
+    ): Promise<GraphSources[K]> =>
+      previous && !dirty.has(source) ? Promise.resolve(previous[source]) : read();
+
+    const [flashcards, tasks, studySessions, memoryPalaces, logicNodes, readingSessions] =
+      await Promise.all([
+        load('flashcards', () => this.storage.getFlashcards()),
+        load('tasks', () => this.storage.getTasks()),
+        load('studySessions', () => this.storage.getStudySessions()),
+        load('memoryPalaces', () => this.storage.getMemoryPalaces()),
+        load('logicNodes', () => this.storage.getLogicNodes()),
+        load('readingSessions', () => this.storage.getReadingSessions()),
+      ]);
+    this.sources = { flashcards, tasks, studySessions, memoryPalaces, logicNodes, readingSessions };
+    return this.sources;
+  }
+
+  /**
+   * Match freshly generated nodes against the previous build. Unchanged
+   * nodes keep their previous object (position, health); changed and new
+   * nodes are scored. Everything is scored when there is no previous build.
+   */
+  private reconcileNodes(
+    fresh: NeuralNode[],
+    previousById: Map<string, NeuralNode>,
+  ): { nodes: NeuralNode[]; added: NeuralNode[]; updated: NeuralNode[]; removed: NeuralNode[] } {
+    const currentDate = new Date();
+    const signatures = new Map<string, string>();
+    const nodes: NeuralNode[] = [];
+    const added: NeuralNode[] = [];
+    const updated: NeuralNode[] = [];
+
+    for (const node of fresh) {
+      if (signatures.has(node.id)) continue; // Duplicate ids across sources
+
+      // FSRS activation detection
+      node.isActive = !!node.nextReviewDate && new Date(node.nextReviewDate) <= currentDate;
+      const signature = this.nodeSignature(node);
+      signatures.set(node.id, signature);
+
+      const before = previousById.get(node.id);
+      if (before && this.nodeSignatures.get(node.id) === signature) {
+        nodes.push(before);
+        continue;
+      }
+
+      // Phase 2: Calculate health score for each changed node
+      node.healthScore = this.calculateNodeHealthScore(node);
+      node.healthCategory = this.categorizeNodeHealth(node.healthScore);
+      if (before) {
+        // Keep the node where the layout put it
+        if (before.x !== undefined) node.x = before.x;
+        if (before.y !== undefined) node.y = before.y;
+        updated.push(node);
+      } else {
+        added.push(node);
+      }
+      nodes.push(node);
+    }
+
+    const removed = Array.from(previousById.values()).filter((node) => !signatures.has(node.id));
+    this.nodeSignatures = signatures;
+    return { nodes, added, updated, removed };
+  }
+
+  /**
+   * Everything node health, links, clusters and gaps depend on. Health
+   * also depends on the time: due nodes get the whole days they are
+   * overdue (urgency stops falling after two) and every node whether it
+   * is being studied, so time alone marks a node changed when it matters.
+   */
+  private nodeSignature(node: NeuralNode): string {
+    const daysOverdue =
+      node.isActive && node.nextReviewDate
+        ? Math.min(2, Math.floor((Date.now() - new Date(node.nextReviewDate).getTime()) / DAY_MS))
+        : '';
+    return [
+      node.type,
+      node.label,
+      typeof node.content === 'string' ? node.content : JSON.stringify(node.content),
+      node.category,
+      node.masteryLevel,
+      node.cognitiveLoad,
+      node.isActive,
+      daysOverdue,
+      this.isBeingStudied(node),
+      node.nextReviewDate ? new Date(node.nextReviewDate).getTime() : '',
+      node.interval,
+      node.repetitions,
+      node.easeFactor,
+      node.stability ?? '',
+      node.accessCount,
+    ].join('|');
+  }
+
+  private linkTouches(link: NeuralLink, ids: Set<string>): boolean {
+    const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
+    const targetId = typeof link.target === 'string' ? link.target : link.target.id;
+    return ids.has(sourceId) || ids.has(targetId);
+  }
+
+  /**
+   * Keep previous link objects that did not change, so consumers holding
+   * them (e.g. a running simulation) are not disturbed
+   */
+  private reuseLinks(links: NeuralLink[], previousLinks: NeuralLink[]): NeuralLink[] {
+    const previousById = new Map(previousLinks.map((link) => [link.id, link]));
+    return links.map((link) => {
+      const before = previousById.get(link.id);
+      return before && before.type === link.type && before.strength === link.strength
+        ? before
+        : link;
+    });
+  }
+
+  /**
+   * Rebuild only the clusters of categories whose nodes changed
+   */
+  private async updateKnowledgeClusters(
+    nodes: NeuralNode[],
+    links: NeuralLink[],
+    previousClusters: KnowledgeCluster[],
+    affectedCategories: Set<string>,
+  ): Promise<KnowledgeCluster[]> {
+    try {
+      const affectedNodes = new Map<string, NeuralNode[]>();
+      nodes.forEach((node) => {
+        const category = node.category || 'uncategorized';
+        if (!affectedCategories.has(category)) return;
+        if (!affectedNodes.has(category)) affectedNodes.set(category, []);
+        affectedNodes.get(category)!.push(node);
+      });
+
+      const clusters = previousClusters.filter(
+        (cluster) => !affectedCategories.has(cluster.category),
+      );
+      for (const [category, clusterNodes] of Array.from(affectedNodes.entries())) {
+        clusters.push(await this.createKnowledgeCluster(category, clusterNodes, links));
+      }
+
+      // Sort by health (worst first for attention)
+      clusters.sort((a, b) => a.health - b.health);
+      return clusters;
+    } catch (error) {
+      console.error('Error updating knowledge clusters:', error);
+      return this.generateKnowledgeClusters(nodes, links);
+    }
+  }
+
+  private diffGraphs(
+    previous: NeuralGraph | undefined,
+    graph: NeuralGraph,
+    added: NeuralNode[],
+    updated: NeuralNode[],
+    removed: NeuralNode[],
+    incremental: boolean,
+    affectedCategories: Set<string>,
+  ): NeuralGraphDiff {
+    if (!previous || !incremental) {
+      return {
+        full: true,
+        addedNodes: graph.nodes,
+        updatedNodes: [],
+        removedNodeIds: previous
+          ? previous.nodes.filter((node) => !this.nodeSignatures.has(node.id)).map((node) => node.id)
+          : [],
+        addedLinks: graph.links,
+        removedLinks: [],
+        affectedClusterIds: (graph.clusters ?? []).map((cluster) => cluster.id),
+      };
+    }
+
+    const linkIds = new Set(graph.links.map((link) => link.id));
+    const previousLinks = new Map(previous.links.map((link) => [link.id, link]));
+    return {
+      full: false,
+      addedNodes: added,
+      updatedNodes: updated,
+      removedNodeIds: removed.map((node) => node.id),
+      addedLinks: graph.links.filter((link) => previousLinks.get(link.id) !== link),
+      removedLinks: previous.links.filter((link) => !linkIds.has(link.id)),
+      affectedClusterIds: Array.from(affectedCategories).map((category) => `cluster_${category}`),
+    };
+  }
+
+  private resetChangeTracking(): void {
+    delete this.lastGeneratedGraph;
+    delete this.sources;
+    this.sourceNodes = new Map();
+    this.nodeSignatures = new Map();
+    this.pairwiseLinks = [];
+    this.similarityLinks = [];
+    this.temporalLinks = [];
+    this.embeddingVersion = -1;
+    this.lastDiff = null;
+  }
+
   /**
    * Phase 2, Step 6: Health Scoring Implementation
    * THE HIGHEST VALUE FEATURE - Core health score calculation
@@ -486,6 +954,54 @@ export class MindMapGenerator {
     }
   }
 
+  /**
+   * Health metrics of an incremental build, from the previous build's: the
+   * old entries of changed and removed nodes are replaced by the new scores
+   */
+  private updateHealthMetrics(
+    metrics: NonNullable<NeuralGraph['healthMetrics']>,
+    previousById: Map<string, NeuralNode>,
+    changed: NeuralNode[],
+    removed: NeuralNode[],
+  ): NeuralGraph['healthMetrics'] {
+    if (changed.length === 0 && removed.length === 0) return metrics;
+
+    const staleIds = new Set([...changed, ...removed].map((node) => node.id));
+    let healthSum = metrics.overallHealth * previousById.size;
+    let count = previousById.size;
+    staleIds.forEach((id) => {
+      const before = previousById.get(id);
+      if (!before) return;
+      healthSum -= before.healthScore || 0.5;
+      count--;
+    });
+    changed.forEach((node) => {
+      healthSum += node.healthScore || 0.5;
+      count++;
+    });
+
+    const replace = (nodes: NeuralNode[], category: NeuralNode['healthCategory']) => [
+      ...nodes.filter((node) => !staleIds.has(node.id)),
+      ...changed.filter((node) => node.healthCategory === category),
+    ];
+    const criticalNodes = replace(metrics.criticalNodes, 'critical');
+    const atRiskNodes = replace(metrics.atRiskNodes, 'moderate');
+    const healthyNodes = replace(metrics.healthyNodes, 'healthy');
+
+    const total = count || 1;
+    return {
+      overallHealth: count > 0 ? healthSum / count : 0.5,
+      criticalNodes,
+      healthyNodes,
+      atRiskNodes,
+      healthDistribution: {
+        critical: Math.round((criticalNodes.length / total) * 100),
+        moderate: Math.round((atRiskNodes.length / total) * 100),
+        healthy: Math.round((healthyNodes.length / total) * 100),
+      },
+    };
+  }
+
   /**
    * Phase 2, Step 4: Knowledge Clusters Generation
    * Group nodes into cohesive knowledge domains
@@ -627,10 +1143,17 @@ export class MindMapGenerator {
   private async generateLearningPaths(
     nodes: NeuralNode[],
     links: NeuralLink[],
+    gaps: KnowledgeGap[] = [],
   ): Promise<LearningPath[]> {
     try {
       const paths: LearningPath[] = [];
 
+      // Remedial paths: from a weak prerequisite to what is built on it
+      for (const gap of gaps.filter((g) => g.kind === 'weak_prerequisite').slice(0, 3)) {
+        const remedial = this.findRemedialPath(gap, nodes, links);
+        if (remedial) paths.push(remedial);
+      }
+
       // Generate prerequisite paths (from weak to strong concepts)
       const weakNodes = nodes.filter((n) => (n.healthScore || 0.5) < 0.4);
       const strongNodes = nodes.filter((n) => (n.healthScore || 0.5) > 0.7);
@@ -659,8 +1182,12 @@ export class MindMapGenerator {
         }
       }
 
-      // Sort by efficiency (shortest high-impact paths first)
-      paths.sort((a, b) => a.totalCost - b.totalCost);
+      // Remedial paths first, then by efficiency (shortest high-impact paths first)
+      paths.sort(
+        (a, b) =>
+          Number(b.pathType === 'remedial') - Number(a.pathType === 'remedial') ||
+          a.totalCost - b.totalCost,
+      );
 
       console.log(`🛤️  Generated ${paths.length} learning paths`);
       return paths.slice(0, 10); // Limit to top 10 paths
@@ -819,6 +1346,196 @@ export class MindMapGenerator {
     return this.findLearningPath(startNode, goalNode, allNodes, links);
   }
 
+  /**
+   * Remedial path for a weak prerequisite: through the gap to its most
+   * important dependent
+   */
+  private findRemedialPath(
+    gap: KnowledgeGap,
+    allNodes: NeuralNode[],
+    links: NeuralLink[],
+  ): LearningPath | null {
+    const target = gap.dependents[0];
+    if (!target) return null;
+
+    const path = this.findLearningPath(gap.node, target, allNodes, links);
+    if (!path) return null;
+
+    return {
+      ...path,
+      id: `remedial_${gap.node.id}_to_${target.id}`,
+      pathType: 'remedial',
+      recommendations: [`🩹 Strengthen "${gap.node.label}" first: ${gap.reason}`, ...path.recommendations],
+    };
+  }
+
+  // ==================== KNOWLEDGE GAPS ====================
+
+  /**
+   * Find weak prerequisites of nodes being studied and orphan concepts,
+   * sorted by priority
+   */
+  private findKnowledgeGaps(nodes: NeuralNode[], links: NeuralLink[]): KnowledgeGap[] {
+    try {
+      const byId = new Map(nodes.map((node) => [node.id, node]));
+      const isKnowledge = (node: NeuralNode) =>
+        node.type === 'concept' || node.type === 'skill' || node.type === 'logic';
+      const linkEnds = (link: NeuralLink) => ({
+        sourceId: typeof link.source === 'string' ? link.source : link.source.id,
+        targetId: typeof link.target === 'string' ? link.target : link.target.id,
+      });
+
+      const dependents = new Map<string, NeuralNode[]>();
+      const associations = new Map<string, number>();
+      for (const link of links) {
+        const { sourceId, targetId } = linkEnds(link);
+        if (link.type === 'prerequisite') {
+          const target = byId.get(targetId);
+          if (!target || !this.isBeingStudied(target)) continue;
+          if (!dependents.has(sourceId)) dependents.set(sourceId, []);
+          dependents.get(sourceId)!.push(target);
+        } else {
+          associations.set(sourceId, (associations.get(sourceId) || 0) + 1);
+          associations.set(targetId, (associations.get(targetId) || 0) + 1);
+        }
+      }
+
+      const gaps: KnowledgeGap[] = [];
+      for (const node of nodes) {
+        if (!isKnowledge(node)) continue;
+        const health = node.healthScore ?? 0.5;
+        const studied = dependents.get(node.id) ?? [];
+
+        if (health < KNOWLEDGE_GAP_WEAK_HEALTH && studied.length > 0) {
+          studied.sort((a, b) => (a.healthScore ?? 0.5) - (b.healthScore ?? 0.5));
+          gaps.push({
+            id: `gap_prereq_${node.id}`,
+            kind: 'weak_prerequisite',
+            node,
+            dependents: studied,
+            priority: Math.min(
+              1,
+              (1 - health) * 0.6 + Math.min(1, studied.length / 3) * 0.3 + (node.isActive ? 0.1 : 0),
+            ),
+            reason: `${Math.round(health * 100)}% health, needed for ${studied.length} concept${
+              studied.length === 1 ? '' : 's'
+            } you are studying`,
+            suggestedAction: 'review_task',
+          });
+        } else if (!associations.has(node.id)) {
+          gaps.push({
+            id: `gap_orphan_${node.id}`,
+            kind: 'orphan',
+            node,
+            dependents: [],
+            priority: Math.min(1, (1 - health) * 0.5 + 0.1),
+            reason: 'Not associated with any other concept',
+            suggestedAction: node.sourceType === 'flashcard' ? 'flashcard' : 'review_task',
+          });
+        }
+      }
+
+      return gaps.sort((a, b) => b.priority - a.priority).slice(0, MAX_KNOWLEDGE_GAPS);
+    } catch (error) {
+      console.error('Error finding knowledge gaps:', error);
+      return [];
+    }
+  }
+
+  /**
+   * A node counts as being studied when it is due or was accessed recently
+   */
+  private isBeingStudied(node: NeuralNode): boolean {
+    if (node.isActive) return true;
+    const lastAccessed = node.lastAccessed ? new Date(node.lastAccessed).getTime() : 0;
+    return Date.now() - lastAccessed < STUDYING_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Knowledge gaps of the current graph, "fix these first" order
+   */
+  public async getKnowledgeGaps(forceRefresh = false): Promise<KnowledgeGap[]> {
+    const graph = await this.generateNeuralGraph(forceRefresh);
+    return graph.knowledgeGaps ?? [];
+  }
+
+  /**
+   * Act on a gap: a review task due today, or for an orphan card an
+   * elaboration flashcard in the same category so it gets associations.
+   * Fixing the same gap again returns the open task or card already made.
+   * A review task for an orphan is linked to it on the map, so the orphan
+   * is no longer reported once the task exists.
+   */
+  public async fixKnowledgeGap(gap: KnowledgeGap): Promise<KnowledgeGapFix> {
+    const node = gap.node;
+    const content = typeof node.content === 'string' ? node.content : node.content.question;
+
+    if (gap.suggestedAction === 'flashcard') {
+      const front = `How does "${node.label}" connect to the rest of ${this.formatCategoryName(node.category)}?`;
+      const existing = await this.storage.getFlashcards();
+      const made = existing.filter(
+        (card) => card.tags?.includes('knowledge-gap') && card.category === node.category && card.front === front,
+      );
+      if (made.length > 0) return { type: 'flashcard', flashcards: made };
+
+      const noteTypes = NoteTypeService.getInstance();
+      const note = noteTypes.createNote('basic', {
+        front,
+        back: content ? `${content}\n\nName one related concept and how they link.` : 'Name one related concept and how they link.',
+        category: node.category,
+        tags: ['knowledge-gap', 'elaboration'],
+      });
+      const flashcards = noteTypes.generateCards(note);
+      await this.storage.saveFlashcards([...existing, ...flashcards]);
+      this.lastUpdateTime = 0; // Next graph request rebuilds
+      return { type: 'flashcard', flashcards };
+    }
+
+    const tasks = await this.storage.getTasks();
+    const open = tasks.find((task) => !task.isCompleted && task.id.startsWith(`gap_${node.id}_`));
+    if (open) {
+      if (gap.kind === 'orphan') await this.linkGapTask(open, node);
+      return { type: 'review_task', task: open };
+    }
+
+    const task: Task = {
+      id: `gap_${node.id}_${Date.now()}`,
+      title: `Review: ${node.label}`,
+      content: `Review: ${node.label}`,
+      description: gap.reason,
+      isCompleted: false,
+      priority: gap.priority >= 0.7 ? 4 : gap.priority >= 0.4 ? 3 : 2,
+      due: { date: new Date().toISOString().split('T')[0]! },
+      category: node.category,
+      tags: ['review', 'knowledge-gap'],
+      source: 'local',
+      created: new Date(),
+    };
+    await this.storage.saveTasks([...tasks, task]);
+    if (gap.kind === 'orphan') await this.linkGapTask(task, node);
+    this.lastUpdateTime = 0;
+    return { type: 'review_task', task };
+  }
+
+  /**
+   * Manual association between a review task's node and the orphan it reviews
+   */
+  private async linkGapTask(task: Task, node: NeuralNode): Promise<void> {
+    const taskNodeId = `task_${task.id}`;
+    const edits = await this.editService.getEdits();
+    const linked = edits.links.some(
+      (link) =>
+        (link.source === taskNodeId && link.target === node.id) ||
+        (link.source === node.id && link.target === taskNodeId),
+    );
+    if (linked) return;
+    try {
+      await this.editService.addLink({ source: taskNodeId, target: node.id, type: 'association', strength: 0.5 });
+    } catch (error) {
+      console.warn('Could not link review task to orphan concept:', error);
+    }
+  }
+
   /**
    * Assess path difficulty based on concepts involved
    */
@@ -919,14 +1636,14 @@ export class MindMapGenerator {
         lastDifficulty: card.difficulty,
         stability: card.stability,
         difficulty: card.difficulty,
+        fsrsDifficulty: card.fsrsDifficulty,
+        state: card.state,
+        lapses: card.lapses,
+        lastReviewed: card.lastReviewed,
         sourceType: 'flashcard',
         sourceId: card.id,
       };
 
-      // Phase 2: Add health scoring
-      node.healthScore = this.calculateNodeHealthScore(node);
-      node.healthCategory = this.categorizeNodeHealth(node.healthScore);
-
       return node;
     });
   }
@@ -977,14 +1694,13 @@ export class MindMapGenerator {
         lastDifficulty: logicItem.lastDifficulty,
         stability: logicItem.stability,
         difficulty: logicItem.difficulty,
+        fsrsDifficulty: logicItem.fsrsDifficulty,
+        state: logicItem.state,
+        lastReviewed: logicItem.lastReview,
         sourceType: 'logic',
         sourceId: logicItem.id,
       };
 
-      // Phase 2: Add health scoring
-      node.healthScore = this.calculateNodeHealthScore(node);
-      node.healthCategory = this.categorizeNodeHealth(node.healthScore);
-
       return node;
     });
   }
@@ -1020,9 +1736,6 @@ export class MindMapGenerator {
           sourceType: 'derived',
           sourceId: session.id,
         };
-
-        node.healthScore = this.calculateNodeHealthScore(node);
-        node.healthCategory = this.categorizeNodeHealth(node.healthScore);
         return node;
       });
     } catch (e) {
@@ -1065,6 +1778,7 @@ export class MindMapGenerator {
     clusters: KnowledgeCluster[],
     learningPaths: LearningPath[],
     readingSessions: any[] = [],
+    knowledgeGaps: KnowledgeGap[] = [],
   ): Promise<NeuralGraph> {
     // Calculate core metrics
     const totalActivationLevel = this.calculateTotalActivation(nodes);
@@ -1130,6 +1844,7 @@ export class MindMapGenerator {
       healthMetrics: safeHealthMetrics,
       clusters,
       learningPaths,
+      knowledgeGaps,
 
       // Phase 6: Speed Reading Integration
       totalReadingSessions,
@@ -1214,9 +1929,6 @@ export class MindMapGenerator {
           sourceType: 'task',
           sourceId: task.id || `${idx}`,
         };
-
-        node.healthScore = this.calculateNodeHealthScore(node);
-        node.healthCategory = this.categorizeNodeHealth(node.healthScore);
         return node;
       });
     } catch (e) {
@@ -1224,6 +1936,40 @@ export class MindMapGenerator {
       return [];
     }
   }
+  /**
+   * Nodes the user added by hand; their mastery is self-rated
+   */
+  private generateManualNodes(manualNodes: ManualNode[]): NeuralNode[] {
+    return manualNodes.map((manual, idx) => {
+      const cognitiveLoad = 1 - manual.masteryLevel * 0.5;
+      const position = this.generateInitialPosition(idx, manualNodes.length);
+      const node: NeuralNode = {
+        id: manual.id,
+        type: manual.type,
+        x: manual.x ?? position.x + 30,
+        y: manual.y ?? position.y + 30,
+        radius: this.calculateNodeRadius(manual.masteryLevel, cognitiveLoad, manual.type),
+        activationLevel: this.calculateActivationLevel(false, manual.masteryLevel, cognitiveLoad),
+        isActive: false,
+        label: manual.label,
+        content: manual.content,
+        category: manual.category,
+        masteryLevel: manual.masteryLevel,
+        cognitiveLoad,
+        lastAccessed: manual.updatedAt,
+        accessCount: 1,
+        easeFactor: 2.5,
+        interval: 1,
+        repetitions: 0,
+        nextReviewDate: new Date(manual.createdAt.getTime() + 24 * 60 * 60 * 1000),
+        sourceType: 'manual',
+        sourceId: manual.id,
+      };
+
+      return node;
+    });
+  }
+
   private generateMemoryPalaceNodes(palaces: any[]): NeuralNode[] {
     try {
       return palaces.map((palace: any, idx: number) => {
@@ -1255,9 +2001,6 @@ export class MindMapGenerator {
           sourceType: 'palace',
           sourceId: palace.id || `${idx}`,
         };
-
-        node.healthScore = this.calculateNodeHealthScore(node);
-        node.healthCategory = this.categorizeNodeHealth(node.healthScore);
         return node;
       });
     } catch (e) {
@@ -1306,9 +2049,6 @@ export class MindMapGenerator {
           sourceType: 'derived',
           sourceId: `derived_${cat}`,
         };
-
-        node.healthScore = this.calculateNodeHealthScore(node);
-        node.healthCategory = this.categorizeNodeHealth(node.healthScore);
         derived.push(node);
         idx++;
       }
@@ -1319,7 +2059,11 @@ export class MindMapGenerator {
       return [];
     }
   }
-  private generateCategoryLinks(nodes: NeuralNode[]): NeuralLink[] {
+  /**
+   * Pairwise generators take an optional set of changed node ids; when given,
+   * only pairs involving a changed node are produced (incremental updates)
+   */
+  private generateCategoryLinks(nodes: NeuralNode[], changed?: Set<string>): NeuralLink[] {
     try {
       const links: NeuralLink[] = [];
       // Link nodes that share the same category
@@ -1337,6 +2081,7 @@ export class MindMapGenerator {
             const a = group[i];
             const b = group[j];
             if (!a || !b || !a.id || !b.id) continue;
+            if (changed && !changed.has(a.id) && !changed.has(b.id)) continue;
             links.push({
               id: `cat_${a.id}_${b.id}`,
               source: a.id,
@@ -1358,16 +2103,23 @@ export class MindMapGenerator {
       return [];
     }
   }
-  private generateSemanticLinks(nodes: NeuralNode[]): NeuralLink[] {
+  private generateSemanticLinks(
+    nodes: NeuralNode[],
+    changed?: Set<string>,
+    embedded?: Set<string>,
+  ): NeuralLink[] {
     try {
       const links: NeuralLink[] = [];
-      // Very simple semantic linking: if labels share words, link them
+      // Very simple semantic linking: if labels share words, link them.
+      // Pairs that both have embeddings are covered by generateEmbeddingLinks.
       const sanitize = (s: string) =>
         s.toLowerCase().replace(/[^a-z0-9 ]/g, '');
       for (let i = 0; i < nodes.length; i++) {
         for (let j = i + 1; j < nodes.length; j++) {
           const ni = nodes[i];
           const nj = nodes[j];
+          if (changed && !changed.has(ni?.id ?? '') && !changed.has(nj?.id ?? '')) continue;
+          if (embedded?.has(ni?.id ?? '') && embedded.has(nj?.id ?? '')) continue;
           const a = sanitize(ni?.label || '');
           const b = sanitize(nj?.label || '');
           const aWords = new Set(a.split(' ').filter(Boolean));
@@ -1396,6 +2148,28 @@ export class MindMapGenerator {
       return [];
     }
   }
+  /**
+   * Similarity links between nearest neighbours in the local embedding
+   * space, for the given node ids (default: every embedded node)
+   */
+  private generateEmbeddingLinks(ids?: string[]): NeuralLink[] {
+    try {
+      return this.embeddings.proposeSimilarityLinks(ids).map((proposal) => ({
+        id: `sem_${proposal.sourceId}_${proposal.targetId}`,
+        source: proposal.sourceId,
+        target: proposal.targetId,
+        strength: proposal.similarity,
+        weight: 0.2,
+        type: 'similarity',
+        activationCount: 0,
+        lastActivated: new Date(),
+        confidence: proposal.confidence,
+      }));
+    } catch (e) {
+      console.warn('generateEmbeddingLinks failed', e);
+      return [];
+    }
+  }
   private generateTemporalLinks(
     nodes: NeuralNode[],
     sessions: any[],
@@ -1433,18 +2207,20 @@ export class MindMapGenerator {
       return [];
     }
   }
-  private generateGoalLinks(nodes: NeuralNode[], tasks: any[]): NeuralLink[] {
+  private generateGoalLinks(nodes: NeuralNode[], tasks: any[], changed?: Set<string>): NeuralLink[] {
     try {
       const links: NeuralLink[] = [];
       // For each task node, try to find nodes with matching category or shared words
       tasks.forEach((task: any) => {
         const taskNodeId = `task_${task.id}`;
+        const taskChanged = !changed || changed.has(taskNodeId);
         const candidates = nodes.filter(
           (n) =>
-            n.category === task.project ||
-            (n.label &&
-              task.title &&
-              n.label.toLowerCase().includes((task.title || '').toLowerCase())),
+            (taskChanged || changed?.has(n.id)) &&
+            (n.category === task.project ||
+              (n.label &&
+                task.title &&
+                n.label.toLowerCase().includes((task.title || '').toLowerCase()))),
         );
         candidates.forEach((cand) => {
           links.push({
@@ -1467,36 +2243,47 @@ export class MindMapGenerator {
       return [];
     }
   }
-  private generatePrerequisiteLinks(nodes: NeuralNode[]): NeuralLink[] {
+  /**
+   * Prerequisites from real dependencies: a logic node whose conclusion is a
+   * premise of another. Prerequisite links drawn by hand come in through
+   * MindMapEditService.mergeLinks.
+   */
+  private generatePrerequisiteLinks(nodes: NeuralNode[], changed?: Set<string>): NeuralLink[] {
     try {
       const links: NeuralLink[] = [];
-      const concepts = nodes.filter(
-        (n) => n.type === 'concept' || n.type === 'skill',
-      );
-      concepts.sort((a, b) => (a.masteryLevel || 0) - (b.masteryLevel || 0));
-      for (let i = 0; i < concepts.length - 1; i++) {
-        const a = concepts[i];
-        const b = concepts[i + 1];
-        if (!a || !b || !a.id || !b.id) continue;
-        links.push({
-          id: `prereq_${a.id}_${b.id}`,
-          source: a.id,
-          target: b.id,
-          strength: 0.35,
-          weight: 0.25,
-          type: 'prerequisite',
-          activationCount: 0,
-          lastActivated: new Date(),
-          confidence: 0.45,
-        });
+
+      // Logic chains: A's conclusion is used as a premise of B
+      const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9 ]+/g, ' ').replace(/\s+/g, ' ').trim();
+      const logicNodes = nodes.filter((node) => node.type === 'logic' && typeof node.content !== 'string');
+      for (const from of logicNodes) {
+        const conclusion = normalize((from.content as LogicStructure).conclusion);
+        if (conclusion.length < 8) continue;
+        for (const to of logicNodes) {
+          if (to.id === from.id) continue;
+          if (changed && !changed.has(from.id) && !changed.has(to.id)) continue;
+          const { premise1, premise2 } = to.content as LogicStructure;
+          if (![premise1, premise2].some((premise) => normalize(premise).includes(conclusion))) continue;
+          links.push({
+            id: `prereq_${from.id}_${to.id}`,
+            source: from.id,
+            target: to.id,
+            strength: 0.6,
+            weight: 0.42,
+            type: 'prerequisite',
+            activationCount: 0,
+            lastActivated: new Date(),
+            confidence: 0.8,
+          });
+        }
       }
+
       return links;
     } catch (e) {
       console.warn('generatePrerequisiteLinks failed', e);
       return [];
     }
   }
-  private generateLogicalLinks(nodes: NeuralNode[]): NeuralLink[] {
+  private generateLogicalLinks(nodes: NeuralNode[], changed?: Set<string>): NeuralLink[] {
     try {
       const links: NeuralLink[] = [];
       const logicNodes = nodes.filter((n) => n.type === 'logic');
@@ -1505,6 +2292,7 @@ export class MindMapGenerator {
       logicNodes.forEach((ln) => {
         const text = typeof ln.content === 'string' ? ln.content : JSON.stringify(ln.content);
         conceptNodes.forEach((cn) => {
+          if (changed && !changed.has(ln.id) && !changed.has(cn.id)) return;
           const labelRaw = cn?.label || '';
           const label = labelRaw.toLowerCase();
           const firstWord = label.split(' ')[0];
@@ -1705,6 +2493,7 @@ export class MindMapGenerator {
       },
       clusters: [],
       learningPaths: [],
+      knowledgeGaps: [],
     };
   }
 }
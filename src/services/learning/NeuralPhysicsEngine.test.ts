@@ -0,0 +1,69 @@
+import { NeuralPhysicsEngine } from './NeuralPhysicsEngine';
+
+jest.mock('./PhysicsWorkerManager', () => ({
+  physicsWorkerManager: { patchGraph: jest.fn() },
+}));
+
+const node = (id: string, masteryLevel = 0.5) => ({ id, label: id.toUpperCase(), masteryLevel, size: 12 });
+const link = (source: string, target: string, strength = 0.5) => ({ source, target, strength, type: 'association' });
+
+describe('NeuralPhysicsEngine graph patches', () => {
+  const engine = NeuralPhysicsEngine.getInstance();
+
+  afterAll(() => {
+    engine.dispose();
+  });
+
+  beforeEach(() => {
+    engine.setGraphData([node('a'), node('b'), node('c')], [link('a', 'b'), link('b', 'c')]);
+  });
+
+  const positions = () => new Map(engine.getNodePositions().map((position) => [position.id, position]));
+
+  it('updates surviving nodes in place and places new nodes next to a neighbour', () => {
+    const before = positions();
+    const events: unknown[] = [];
+    engine.on('graph_updated', (event) => events.push(event));
+
+    engine.patchGraphData({
+      nodes: [node('a', 0.9), node('d')],
+      links: [link('c', 'd')],
+      removedNodeIds: [],
+      removedLinks: [],
+    });
+
+    const after = positions();
+    expect(after.get('a')).toMatchObject({ x: before.get('a')!.x, y: before.get('a')!.y });
+    const c = after.get('c')!;
+    const d = after.get('d')!;
+    expect(Math.abs(d.x - c.x)).toBeLessThanOrEqual(20);
+    expect(Math.abs(d.y - c.y)).toBeLessThanOrEqual(20);
+    expect(engine.getPhysicsState()).toMatchObject({ nodeCount: 4, linkCount: 3 });
+    expect(events).toEqual([{ nodeCount: 4, linkCount: 3, incremental: true }]);
+  });
+
+  it('drops removed nodes with their links and removed links between survivors', () => {
+    engine.patchGraphData({
+      nodes: [],
+      links: [],
+      removedNodeIds: ['c'],
+      removedLinks: [],
+    });
+    expect(Array.from(positions().keys())).toEqual(['a', 'b']);
+    expect(engine.getPhysicsState()).toMatchObject({ nodeCount: 2, linkCount: 1 });
+
+    engine.patchGraphData({ nodes: [], links: [], removedNodeIds: [], removedLinks: [{ source: 'a', target: 'b' }] });
+    expect(engine.getPhysicsState()).toMatchObject({ nodeCount: 2, linkCount: 0 });
+  });
+
+  it('skips links to nodes it does not have', () => {
+    engine.patchGraphData({
+      nodes: [],
+      links: [link('a', 'missing'), link('a', 'c', 0.8)],
+      removedNodeIds: [],
+      removedLinks: [],
+    });
+
+    expect(engine.getPhysicsState()).toMatchObject({ nodeCount: 3, linkCount: 3 });
+  });
+});
@@ -809,92 +809,12 @@ export class NeuralPhysicsEngine extends EventEmitter {
 
     // Create nodes with deterministic fallbacks
     nodeData.forEach(nodeData => {
-      const id = String(nodeData.id || '');
-      // Use deterministic centered positions with light spread based on id
-      const unitX = this.deterministicUnitValue(id, 'x');
-      const unitY = this.deterministicUnitValue(id, 'y');
-      const centerX = 400; // screen center heuristic
-      const centerY = 300;
-      const spreadX = 0.3 * 800; // reduced spread
-      const spreadY = 0.3 * 600;
-
-      const node: Node = {
-        id: nodeData.id,
-        label: nodeData.label,
-        x: centerX + (unitX - 0.5) * spreadX,
-        y: centerY + (unitY - 0.5) * spreadY,
-        vx: 0,
-        vy: 0,
-        size: this.calculateInitialNodeSize(nodeData),
-
-        // CAE 2.0 enhancements
-        cognitiveLoad: this.resolveNodeNumeric(nodeData, 'cognitiveLoad', id, 0.5),
-        masteryLevel: this.resolveNodeNumeric(nodeData, 'masteryLevel', id, 0.5),
-        priority: nodeData.priority || 0,
-        contextRelevance: {
-          DeepFocus: this.resolveNodeNumeric(nodeData, 'contextDeepFocus', id, 0.5),
-          CreativeFlow: this.resolveNodeNumeric(nodeData, 'contextCreativeFlow', id, 0.5),
-          FragmentedAttention: this.resolveNodeNumeric(nodeData, 'contextFragmentedAttention', id, 0.5),
-          CognitiveOverload: this.resolveNodeNumeric(nodeData, 'contextCognitiveOverload', id, 0.5),
-        },
-
-        // Visual enhancements
-        opacity: 1.0,
-        pulseIntensity: 0.0,
-        glowEffect: 0.0,
-        colorIntensity: 1.0,
-        animationState: 'idle',
-
-        // Adaptive properties
-        lastInteraction: new Date(0),
-        interactionHistory: [],
-        adaptiveSize: nodeData.size || 12,
-        adaptiveOpacity: 1.0,
-
-        // Context-specific properties
-        isTargetNode: false,
-        isInOptimalPath: false,
-        difficultyAdjustment: 0,
-        attentionWeight: 1.0,
-      };
-
-      this.nodes.set(nodeData.id, node);
+      this.nodes.set(nodeData.id, this.createNode(nodeData));
     });
 
     // Create links with deterministic fallbacks
     linkData.forEach(linkData => {
-      const lid = `${linkData.source}-${linkData.target}`;
-      const link: Link = {
-        id: lid,
-        source: linkData.source,
-        target: linkData.target,
-        strength: linkData.strength || 0.5,
-        distance: linkData.distance || 50,
-
-        // CAE 2.0 enhancements
-        type: linkData.type || 'similarity',
-        contextRelevance: {
-          DeepFocus: this.deterministicUnitValue(lid, 'df'),
-          CreativeFlow: this.deterministicUnitValue(lid, 'cf'),
-          FragmentedAttention: this.deterministicUnitValue(lid, 'fa'),
-          CognitiveOverload: this.deterministicUnitValue(lid, 'co'),
-        },
-        cognitiveDistance: linkData.cognitiveDistance ?? this.deterministicUnitValue(lid, 'cd'),
-
-        // Visual enhancements
-        opacity: 0.6,
-        width: 1.0,
-        flowDirection: 'none',
-        animationSpeed: 0,
-        glowIntensity: 0,
-
-        // Adaptive properties
-        lastActivation: new Date(0),
-        activationHistory: [],
-        adaptiveStrength: linkData.strength || 0.5,
-        adaptiveVisibility: 0.6,
-      };
-
+      const link = this.createLink(linkData);
       this.links.set(link.id, link);
     });
 
@@ -912,6 +832,184 @@ export class NeuralPhysicsEngine extends EventEmitter {
     });
   }
 
+  /**
+   * Apply an incremental graph change. Surviving nodes keep their position
+   * and interaction state; new nodes start next to a linked neighbour.
+   */
+  public patchGraphData(patch: {
+    nodes: Array<{ id: string; label: string; [key: string]: any }>;
+    links: Array<{ source: string; target: string; strength?: number; [key: string]: any }>;
+    removedNodeIds: string[];
+    removedLinks: Array<{ source: string; target: string }>;
+  }): void {
+    console.log(`🎯 Patching graph data: ${patch.nodes.length} nodes, ${patch.links.length} links, ${patch.removedNodeIds.length} removed`);
+
+    const removedNodes = new Set(patch.removedNodeIds);
+    removedNodes.forEach(id => this.nodes.delete(id));
+
+    const removedLinkIds = new Set(patch.removedLinks.map(link => `${link.source}-${link.target}`));
+    this.links.forEach((link, id) => {
+      if (removedNodes.has(link.source) || removedNodes.has(link.target)) {
+        removedLinkIds.add(id);
+      }
+    });
+    removedLinkIds.forEach(id => this.links.delete(id));
+
+    patch.nodes.forEach(nodeData => {
+      const existing = this.nodes.get(nodeData.id);
+      const node = this.createNode(nodeData);
+      if (existing) {
+        Object.assign(existing, {
+          label: node.label,
+          size: node.size,
+          cognitiveLoad: node.cognitiveLoad,
+          masteryLevel: node.masteryLevel,
+          priority: node.priority,
+          adaptiveSize: node.adaptiveSize,
+        });
+        return;
+      }
+
+      const neighbour = patch.links
+        .map(link => (link.source === node.id ? link.target : link.target === node.id ? link.source : null))
+        .map(id => (id ? this.nodes.get(id) : undefined))
+        .find(Boolean);
+      if (neighbour) {
+        node.x = neighbour.x + (this.deterministicUnitValue(node.id, 'x') - 0.5) * 40;
+        node.y = neighbour.y + (this.deterministicUnitValue(node.id, 'y') - 0.5) * 40;
+      }
+      this.nodes.set(node.id, node);
+    });
+
+    const upsertLinks: Link[] = [];
+    patch.links.forEach(linkData => {
+      if (!this.nodes.has(linkData.source) || !this.nodes.has(linkData.target)) return;
+      const link = this.createLink(linkData);
+      const existing = this.links.get(link.id);
+      if (existing) {
+        Object.assign(existing, { strength: link.strength, type: link.type, adaptiveStrength: link.adaptiveStrength });
+        upsertLinks.push(existing);
+      } else {
+        this.links.set(link.id, link);
+        upsertLinks.push(link);
+      }
+    });
+
+    this.physicsState.nodeCount = this.nodes.size;
+    this.physicsState.linkCount = this.links.size;
+
+    this.updateNodesForContext();
+    this.updateLinksForContext();
+
+    if (this.workerInitialized) {
+      this.workerManager
+        .patchGraph({
+          upsertNodes: patch.nodes
+            .map(nodeData => this.nodes.get(nodeData.id))
+            .filter((node): node is Node => !!node),
+          removeNodeIds: patch.removedNodeIds,
+          upsertLinks,
+          removeLinkIds: Array.from(removedLinkIds),
+        })
+        .catch(error => console.warn('Physics worker patch failed:', error));
+    }
+
+    this.emit('graph_updated', {
+      nodeCount: this.nodes.size,
+      linkCount: this.links.size,
+      incremental: true,
+    });
+  }
+
+  private createNode(nodeData: { id: string; label: string; [key: string]: any }): Node {
+    const id = String(nodeData.id || '');
+    // Use deterministic centered positions with light spread based on id
+    const unitX = this.deterministicUnitValue(id, 'x');
+    const unitY = this.deterministicUnitValue(id, 'y');
+    const centerX = 400; // screen center heuristic
+    const centerY = 300;
+    const spreadX = 0.3 * 800; // reduced spread
+    const spreadY = 0.3 * 600;
+
+    const node: Node = {
+      id: nodeData.id,
+      label: nodeData.label,
+      x: centerX + (unitX - 0.5) * spreadX,
+      y: centerY + (unitY - 0.5) * spreadY,
+      vx: 0,
+      vy: 0,
+      size: this.calculateInitialNodeSize(nodeData),
+
+      // CAE 2.0 enhancements
+      cognitiveLoad: this.resolveNodeNumeric(nodeData, 'cognitiveLoad', id, 0.5),
+      masteryLevel: this.resolveNodeNumeric(nodeData, 'masteryLevel', id, 0.5),
+      priority: nodeData.priority || 0,
+      contextRelevance: {
+        DeepFocus: this.resolveNodeNumeric(nodeData, 'contextDeepFocus', id, 0.5),
+        CreativeFlow: this.resolveNodeNumeric(nodeData, 'contextCreativeFlow', id, 0.5),
+        FragmentedAttention: this.resolveNodeNumeric(nodeData, 'contextFragmentedAttention', id, 0.5),
+        CognitiveOverload: this.resolveNodeNumeric(nodeData, 'contextCognitiveOverload', id, 0.5),
+      },
+
+      // Visual enhancements
+      opacity: 1.0,
+      pulseIntensity: 0.0,
+      glowEffect: 0.0,
+      colorIntensity: 1.0,
+      animationState: 'idle',
+
+      // Adaptive properties
+      lastInteraction: new Date(0),
+      interactionHistory: [],
+      adaptiveSize: nodeData.size || 12,
+      adaptiveOpacity: 1.0,
+
+      // Context-specific properties
+      isTargetNode: false,
+      isInOptimalPath: false,
+      difficultyAdjustment: 0,
+      attentionWeight: 1.0,
+    };
+
+    return node;
+  }
+
+  private createLink(linkData: { source: string; target: string; strength?: number; [key: string]: any }): Link {
+    const lid = `${linkData.source}-${linkData.target}`;
+    const link: Link = {
+      id: lid,
+      source: linkData.source,
+      target: linkData.target,
+      strength: linkData.strength || 0.5,
+      distance: linkData.distance || 50,
+
+      // CAE 2.0 enhancements
+      type: linkData.type || 'similarity',
+      contextRelevance: {
+        DeepFocus: this.deterministicUnitValue(lid, 'df'),
+        CreativeFlow: this.deterministicUnitValue(lid, 'cf'),
+        FragmentedAttention: this.deterministicUnitValue(lid, 'fa'),
+        CognitiveOverload: this.deterministicUnitValue(lid, 'co'),
+      },
+      cognitiveDistance: linkData.cognitiveDistance ?? this.deterministicUnitValue(lid, 'cd'),
+
+      // Visual enhancements
+      opacity: 0.6,
+      width: 1.0,
+      flowDirection: 'none',
+      animationSpeed: 0,
+      glowIntensity: 0,
+
+      // Adaptive properties
+      lastActivation: new Date(0),
+      activationHistory: [],
+      adaptiveStrength: linkData.strength || 0.5,
+      adaptiveVisibility: 0.6,
+    };
+
+    return link;
+  }
+
   /**
    * Start  physics simulation
    */
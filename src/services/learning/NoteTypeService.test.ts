@@ -0,0 +1,86 @@
+import NoteTypeService from './NoteTypeService';
+import { SpacedRepetitionService } from './SpacedRepetitionService';
+
+describe('NoteTypeService', () => {
+  const service = NoteTypeService.getInstance();
+
+  it('generates a forward and a reverse card for reversed notes', () => {
+    const note = service.createNote('reversed', { front: 'Hund', back: 'Dog', tags: ['german'] });
+
+    const cards = service.generateCards(note);
+
+    expect(cards.map(card => [card.id, card.front, card.back, card.ordinal])).toEqual([
+      [`${note.id}::forward`, 'Hund', 'Dog', 0],
+      [`${note.id}::reverse`, 'Dog', 'Hund', 1],
+    ]);
+    expect(cards.every(card => card.noteId === note.id && card.tags?.includes('german'))).toBe(true);
+  });
+
+  it('generates one card per cloze number, hiding only that deletion', () => {
+    const note = service.createNote('cloze', {
+      front: '{{c2::Paris}} is the capital of {{c1::France::country}}, on the {{c2::Seine}}',
+      back: 'Since 987',
+    });
+
+    const cards = service.generateCards(note);
+
+    expect(cards.map(card => card.ordinal)).toEqual([1, 2]);
+    expect(cards[0]!.front).toBe('Paris is the capital of [country], on the Seine');
+    expect(cards[1]!.front).toBe('[...] is the capital of France, on the [...]');
+    expect(cards[1]!.back).toBe('Paris is the capital of France, on the Seine\n\nSince 987');
+  });
+
+  it('generates one card per occlusion region with the region as target', () => {
+    const regions = [
+      { id: 'r_a', x: 0.1, y: 0.1, width: 0.2, height: 0.1, label: 'Aorta' },
+      { id: 'r_b', x: 0.5, y: 0.5, width: 0.2, height: 0.1 },
+    ];
+    const note = service.createNote('image-occlusion', { front: '', back: '', imageUri: 'file:///heart.png', regions });
+
+    const cards = service.generateCards(note);
+
+    expect(cards.map(card => [card.id, card.front, card.back])).toEqual([
+      [`${note.id}::r_a`, 'Identify the highlighted region', 'Aorta'],
+      [`${note.id}::r_b`, 'Identify the highlighted region', 'Region 2'],
+    ]);
+    expect(cards[1]!.occlusion).toEqual({ imageUri: 'file:///heart.png', regions, targetRegionId: 'r_b' });
+  });
+
+  it('keeps scheduling state of surviving cards when a note is edited', () => {
+    const note = service.createNote('cloze', { front: '{{c1::A}} and {{c2::B}}', back: '' });
+    const reviewed = service.generateCards(note).map(card => ({
+      ...card,
+      interval: 12,
+      repetitions: 4,
+      stability: 20,
+      suspended: card.ordinal === 1,
+    }));
+
+    const edited = service.replaceNoteCards(reviewed, { ...note, front: '{{c1::A!}} only' });
+
+    expect(edited).toHaveLength(1);
+    expect(edited[0]).toMatchObject({ front: '[...] only', interval: 12, repetitions: 4, stability: 20, suspended: true });
+    expect(edited[0]!.modified).toBeInstanceOf(Date);
+  });
+
+  it('validates notes per type', () => {
+    expect(service.validateNote(service.createNote('cloze', { front: 'No deletions', back: '' }))).toMatch(/deletion/);
+    expect(service.validateNote(service.createNote('image-occlusion', { front: '', back: '', imageUri: 'x' }))).toMatch(
+      /region/,
+    );
+    expect(service.validateNote(service.createNote('basic', { front: 'Q', back: 'A' }))).toBeNull();
+  });
+
+  it('buries the siblings of a reviewed card until the next day', () => {
+    const srs = SpacedRepetitionService.getInstance();
+    const cards = service.generateCards(service.createNote('reversed', { front: 'Hund', back: 'Dog' }));
+    const reviewedAt = new Date(2026, 9, 19, 15, 0);
+
+    const [forward, reverse] = srs.burySiblings(cards, cards[0]!, reviewedAt);
+
+    expect(forward!.buriedUntil).toBeUndefined();
+    expect(reverse!.buriedUntil).toEqual(new Date(2026, 9, 20));
+    expect(srs.isBuried(reverse, new Date(2026, 9, 19, 23, 59))).toBe(true);
+    expect(srs.isBuried(reverse, new Date(2026, 9, 20, 0, 1))).toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * NoteTypeService - Generates scheduled cards from flashcard notes
+ *
+ * A note is the source material (basic, reversed pair, cloze text or an
+ * image with occlusion regions); each card generated from it is a normal
+ * Flashcard with its own FSRS state. Cards from the same note share a
+ * noteId and are treated as siblings for burying.
+ */
+
+import {
+  Flashcard,
+  FlashcardNote,
+  FlashcardNoteType,
+  OcclusionRegion,
+} from '../../types';
+
+// {{c1::answer}} or {{c1::answer::hint}}
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+// Scheduling fields carried over when a note is regenerated after an edit
+const SCHEDULING_FIELDS = [
+  'nextReview',
+  'interval',
+  'easeFactor',
+  'repetitions',
+  'lastReviewed',
+  'stability',
+  'fsrsDifficulty',
+  'state',
+  'lapses',
+  'buriedUntil',
+  'suspended',
+  'difficulty',
+] as const satisfies readonly (keyof Flashcard)[];
+
+type SchedulingField = (typeof SCHEDULING_FIELDS)[number];
+
+function copySchedulingField<K extends SchedulingField>(target: Flashcard, source: Flashcard, field: K): void {
+  if (source[field] !== undefined) target[field] = source[field];
+}
+
+export class NoteTypeService {
+  private static instance: NoteTypeService;
+
+  private constructor() {}
+
+  public static getInstance(): NoteTypeService {
+    if (!NoteTypeService.instance) {
+      NoteTypeService.instance = new NoteTypeService();
+    }
+    return NoteTypeService.instance;
+  }
+
+  createNote(
+    type: FlashcardNoteType,
+    fields: Pick<FlashcardNote, 'front' | 'back' | 'imageUri' | 'regions' | 'category' | 'tags'>,
+  ): FlashcardNote {
+    const note: FlashcardNote = {
+      id: `note_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      type,
+      front: fields.front,
+      back: fields.back,
+      created: new Date(),
+    };
+    if (fields.imageUri) note.imageUri = fields.imageUri;
+    if (fields.regions) note.regions = fields.regions;
+    if (fields.category) note.category = fields.category;
+    if (fields.tags) note.tags = fields.tags;
+    return note;
+  }
+
+  /**
+   * Validate a note before generating cards; returns an error message or null
+   */
+  validateNote(note: FlashcardNote): string | null {
+    switch (note.type) {
+      case 'cloze':
+        return this.getClozeNumbers(note.front).length > 0
+          ? null
+          : 'Add at least one deletion, e.g. {{c1::answer}}';
+      case 'image-occlusion':
+        if (!note.imageUri) return 'Choose an image to occlude';
+        return note.regions && note.regions.length > 0 ? null : 'Tap the image to add at least one region';
+      default:
+        return note.front.trim() && note.back.trim() ? null : 'Please fill in both front and back of the card';
+    }
+  }
+
+  /**
+   * Expand a note into its cards. Existing cards with the same generated id
+   * keep their scheduling state, so editing a note never resets progress;
+   * cards whose cloze/region was removed are simply not returned.
+   */
+  generateCards(note: FlashcardNote, existing: Flashcard[] = []): Flashcard[] {
+    const previous = new Map(
+      existing.filter(card => card.noteId === note.id).map(card => [card.id, card]),
+    );
+    const source = {
+      front: note.front,
+      back: note.back,
+      ...(note.imageUri ? { imageUri: note.imageUri } : {}),
+      ...(note.regions ? { regions: note.regions } : {}),
+    };
+
+    const base = (ordinal: number, front: string, back: string): Flashcard => {
+      const card: Flashcard = {
+        id: this.getCardId(note, ordinal),
+        front,
+        back,
+        nextReview: new Date(),
+        created: note.created,
+        interval: 1,
+        easeFactor: 2.5,
+        repetitions: 0,
+        category: note.category ?? 'general',
+        noteId: note.id,
+        noteType: note.type,
+        ordinal,
+        note: source,
+      };
+      if (note.tags) card.tags = note.tags;
+
+      const prior = previous.get(card.id);
+      if (prior) {
+        for (const field of SCHEDULING_FIELDS) {
+          copySchedulingField(card, prior, field);
+        }
+        card.created = prior.created;
+        card.modified = new Date();
+      }
+      return card;
+    };
+
+    switch (note.type) {
+      case 'reversed':
+        return [
+          base(0, note.front, note.back),
+          base(1, note.back, note.front),
+        ];
+      case 'cloze':
+        return this.getClozeNumbers(note.front).map(index => {
+          const { front, back } = this.renderCloze(note.front, index);
+          return base(index, front, note.back.trim() ? `${back}\n\n${note.back.trim()}` : back);
+        });
+      case 'image-occlusion':
+        return (note.regions ?? []).map((region, index) => {
+          const card = base(
+            index,
+            note.front.trim() || 'Identify the highlighted region',
+            region.label || note.back || `Region ${index + 1}`,
+          );
+          card.occlusion = {
+            imageUri: note.imageUri!,
+            regions: note.regions!,
+            targetRegionId: region.id,
+          };
+          return card;
+        });
+      default:
+        return [base(0, note.front, note.back)];
+    }
+  }
+
+  /**
+   * Rebuild the note a generated card came from, for editing
+   */
+  getNoteForCard(card: Flashcard): FlashcardNote | null {
+    if (!card.noteId || !card.noteType || !card.note) return null;
+    const note: FlashcardNote = {
+      id: card.noteId,
+      type: card.noteType,
+      ...card.note,
+      created: card.created,
+    };
+    if (card.category) note.category = card.category;
+    if (card.tags) note.tags = card.tags;
+    return note;
+  }
+
+  /**
+   * Replace all cards of a note in a collection with freshly generated ones
+   */
+  replaceNoteCards(cards: Flashcard[], note: FlashcardNote): Flashcard[] {
+    const generated = this.generateCards(note, cards);
+    const firstIndex = cards.findIndex(card => card.noteId === note.id);
+    const others = cards.filter(card => card.noteId !== note.id);
+    if (firstIndex < 0) return [...others, ...generated];
+    others.splice(Math.min(firstIndex, others.length), 0, ...generated);
+    return others;
+  }
+
+  getSiblings(card: Flashcard, cards: Flashcard[]): Flashcard[] {
+    if (!card.noteId) return [];
+    return cards.filter(other => other.noteId === card.noteId && other.id !== card.id);
+  }
+
+  /**
+   * Distinct cloze numbers in ascending order
+   */
+  getClozeNumbers(text: string): number[] {
+    const numbers = new Set<number>();
+    for (const match of text.matchAll(CLOZE_PATTERN)) {
+      const index = Number(match[1]);
+      if (index > 0) numbers.add(index);
+    }
+    return Array.from(numbers).sort((a, b) => a - b);
+  }
+
+  /**
+   * Front hides deletion `clozeIndex` (showing its hint if present) and
+   * reveals the others; back reveals everything.
+   */
+  renderCloze(text: string, clozeIndex: number): { front: string; back: string } {
+    const front = text.replace(CLOZE_PATTERN, (_match, index: string, answer: string, hint?: string) =>
+      Number(index) === clozeIndex ? `[${hint ?? '...'}]` : answer,
+    );
+    const back = text.replace(CLOZE_PATTERN, (_match, _index: string, answer: string) => answer);
+    return { front, back };
+  }
+
+  /**
+   * A region centred on a point, clamped to the image bounds
+   */
+  createRegion(centerX: number, centerY: number, width = 0.2, height = 0.1): OcclusionRegion {
+    const clamp = (value: number, size: number) => Math.min(1 - size, Math.max(0, value - size / 2));
+    return {
+      id: `region_${Date.now()}_${Math.random().toString(36).substring(2, 6)}`,
+      x: clamp(centerX, width),
+      y: clamp(centerY, height),
+      width,
+      height,
+    };
+  }
+
+  private getCardId(note: FlashcardNote, ordinal: number): string {
+    switch (note.type) {
+      case 'reversed':
+        return `${note.id}::${ordinal === 1 ? 'reverse' : 'forward'}`;
+      case 'cloze':
+        return `${note.id}::c${ordinal}`;
+      case 'image-occlusion':
+        return `${note.id}::${note.regions?.[ordinal]?.id ?? `r${ordinal}`}`;
+      default:
+        return note.id;
+    }
+  }
+}
+
+export default NoteTypeService;
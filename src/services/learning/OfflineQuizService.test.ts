@@ -0,0 +1,82 @@
+import OfflineQuizService from './OfflineQuizService';
+import type { QuizQuestion } from './SpeedReadingService';
+
+const PASSAGE = [
+  'Neurons communicate with each other through electrical and chemical signals.',
+  'The synapse is the junction where one neuron passes a signal to another neuron.',
+  'Dopamine is a neurotransmitter that shapes motivation and reward learning.',
+  'Myelin wraps axons so that signals travel faster along the nerve.',
+  'The hippocampus consolidates new memories during sleep and quiet rest.',
+  'Plasticity lets the cortex rewire itself after practice or injury.',
+].join(' ');
+
+const KEYWORDS = ['neurons', 'synapse', 'dopamine', 'myelin', 'hippocampus', 'plasticity', 'cortex', 'axons'];
+
+const question = (id: string, difficulty: QuizQuestion['difficulty'], correctAnswer: number): QuizQuestion => ({
+  id,
+  question: id,
+  options: ['a', 'b', 'c', 'd'],
+  correctAnswer,
+  explanation: '',
+  difficulty,
+  conceptTested: id,
+});
+
+describe('OfflineQuizService', () => {
+  const service = OfflineQuizService.getInstance();
+
+  it('blanks one keyword per sentence with keyword distractors from other sentences', () => {
+    const quiz = service.generateQuiz(
+      'session_1',
+      { text: PASSAGE, conceptKeywords: KEYWORDS },
+      { questionCount: 4, questionTypes: ['factual'] },
+    );
+
+    expect(quiz.questions).toHaveLength(4);
+    expect(quiz.timeLimit).toBe(30);
+    const tested = new Set<string>();
+    for (const q of quiz.questions) {
+      expect(q.options).toHaveLength(4);
+      expect(q.options[q.correctAnswer]!.toLowerCase()).toBe(q.conceptTested);
+      expect(q.question).toContain('_____');
+      const sentence = (q.explanation ?? '').toLowerCase();
+      for (const option of q.options.filter((_, i) => i !== q.correctAnswer)) {
+        expect(KEYWORDS).toContain(option.toLowerCase());
+        expect(sentence).not.toMatch(new RegExp(`\\b${option.toLowerCase()}\\b`));
+      }
+      tested.add(q.conceptTested);
+    }
+    // Never the same keyword twice, and the questions ramp up in difficulty
+    expect(tested.size).toBe(4);
+    const difficulties = quiz.questions.map((q) => q.difficulty);
+    expect(difficulties).toEqual([...difficulties].sort((a, b) => a - b));
+  });
+
+  it('asks which concept shared a sentence for inference questions', () => {
+    const quiz = service.generateQuiz(
+      'session_2',
+      { text: PASSAGE, conceptKeywords: KEYWORDS },
+      { questionCount: 2, questionTypes: ['inference'] },
+    );
+
+    const association = quiz.questions.find((q) => q.question.startsWith('Which concept'));
+    expect(association).toBeDefined();
+    const partner = /"(.+)"/.exec(association!.question)![1]!;
+    expect(association!.explanation!.toLowerCase()).toContain(partner);
+    expect(association!.explanation!.toLowerCase()).toContain(association!.conceptTested);
+  });
+
+  it('returns no questions when the text is too short', () => {
+    const quiz = service.generateQuiz('session_3', { text: 'Too short to quiz.', conceptKeywords: KEYWORDS });
+    expect(quiz.questions).toEqual([]);
+  });
+
+  it('weights the score by question difficulty and counts unanswered ones as wrong', () => {
+    const quiz = { questions: [question('easy', 1, 0), question('hard', 4, 2), question('skipped', 3, 1)] };
+
+    expect(service.scoreQuiz(quiz, { easy: 0, hard: 2, skipped: 1 })).toBe(1);
+    expect(service.scoreQuiz(quiz, { easy: 0, hard: 2 })).toBeCloseTo(5 / 8);
+    expect(service.scoreQuiz(quiz, { easy: 1, hard: 2, skipped: null })).toBeCloseTo(4 / 8);
+    expect(service.scoreQuiz({ questions: [] }, {})).toBe(0);
+  });
+});
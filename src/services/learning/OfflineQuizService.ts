@@ -0,0 +1,347 @@
+/**
+ * OfflineQuizService - Heuristic comprehension quizzes without the network
+ *
+ * Builds ComprehensionQuiz questions from the text that was just read:
+ * sentences are extracted, one concept keyword is blanked out, and the
+ * distractors are the text's other concept keywords. Used when the
+ * ai-quiz-creator edge function is unreachable.
+ *
+ * Question types:
+ * - factual: fill the blank in a sentence from the passage
+ * - inference: which concept was discussed together with another one
+ */
+
+import { ComprehensionQuiz, QuizQuestion } from './SpeedReadingService';
+
+export type OfflineQuizDifficulty = 'adaptive' | 'easy' | 'medium' | 'hard';
+
+export interface OfflineQuizSource {
+  text: string;
+  conceptKeywords?: string[]; // ProcessedText.conceptKeywords, lowercase
+}
+
+export interface OfflineQuizOptions {
+  questionCount?: number;
+  difficulty?: OfflineQuizDifficulty;
+  questionTypes?: Array<'factual' | 'inference' | 'vocabulary'>;
+}
+
+export interface OfflineQuiz extends ComprehensionQuiz {
+  questions: QuizQuestion[];
+}
+
+interface Sentence {
+  text: string;
+  tokens: string[]; // Lowercase, punctuation stripped
+}
+
+interface Candidate {
+  sentence: Sentence;
+  keyword: string;
+  difficulty: 1 | 2 | 3 | 4 | 5;
+}
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'against', 'because', 'before', 'being', 'between', 'during',
+  'however', 'other', 'should', 'their', 'there', 'these', 'those', 'through', 'under',
+  'until', 'where', 'which', 'while', 'within', 'without', 'would',
+]);
+
+const MIN_SENTENCE_WORDS = 6;
+const MAX_SENTENCE_WORDS = 45;
+const DISTRACTOR_COUNT = 3;
+const SECONDS_PER_QUESTION = 30;
+const BLANK = '_____';
+
+const TARGET_DIFFICULTY: Record<Exclude<OfflineQuizDifficulty, 'adaptive'>, number> = {
+  easy: 1.5,
+  medium: 3,
+  hard: 4.5,
+};
+
+export class OfflineQuizService {
+  private static instance: OfflineQuizService;
+
+  private constructor() {}
+
+  public static getInstance(): OfflineQuizService {
+    if (!OfflineQuizService.instance) {
+      OfflineQuizService.instance = new OfflineQuizService();
+    }
+    return OfflineQuizService.instance;
+  }
+
+  /**
+   * Generate a quiz from the passage. Returns fewer questions than asked for
+   * (possibly none) when the text has too few sentences or keywords.
+   */
+  generateQuiz(sessionId: string, source: OfflineQuizSource, options: OfflineQuizOptions = {}): OfflineQuiz {
+    const count = Math.max(1, Math.min(10, options.questionCount ?? 5));
+    const difficulty = options.difficulty ?? 'adaptive';
+    const types = (options.questionTypes ?? ['factual', 'inference']).map((type) =>
+      type === 'vocabulary' ? 'factual' : type,
+    );
+
+    const sentences = this.extractSentences(source.text);
+    const keywords = this.resolveKeywords(source, sentences);
+    const frequency = this.countKeywords(sentences, keywords);
+    const candidates = this.selectCandidates(
+      this.buildCandidates(sentences, keywords, frequency),
+      count,
+      difficulty,
+    );
+
+    const questions: QuizQuestion[] = [];
+    candidates.forEach((candidate, i) => {
+      const type = types[i % types.length];
+      const question =
+        (type === 'inference' && this.buildAssociationQuestion(sessionId, questions.length, candidate, sentences, keywords)) ||
+        this.buildBlankQuestion(sessionId, questions.length, candidate, keywords);
+      if (question) questions.push(question);
+    });
+
+    return {
+      id: `quiz_offline_${sessionId}_${Date.now()}`,
+      sessionId,
+      questions,
+      timeLimit: SECONDS_PER_QUESTION,
+      created: new Date(),
+    };
+  }
+
+  /**
+   * Score answers (question id -> chosen option) from 0 to 1, weighting
+   * harder questions more. Unanswered questions count as wrong.
+   */
+  scoreQuiz(quiz: { questions: QuizQuestion[] }, answers: Record<string, number | null | undefined>): number {
+    let earned = 0;
+    let possible = 0;
+    for (const question of quiz.questions) {
+      possible += question.difficulty;
+      if (answers[question.id] === question.correctAnswer) earned += question.difficulty;
+    }
+    return possible > 0 ? earned / possible : 0;
+  }
+
+  // ==================== QUESTIONS ====================
+
+  private buildBlankQuestion(
+    sessionId: string,
+    index: number,
+    candidate: Candidate,
+    keywords: string[],
+  ): QuizQuestion | null {
+    const pattern = new RegExp(`\\b${this.escape(candidate.keyword)}\\b`, 'i');
+    const match = pattern.exec(candidate.sentence.text);
+    if (!match) return null;
+
+    const distractors = this.pickDistractors(
+      candidate.keyword,
+      keywords.filter((keyword) => !candidate.sentence.tokens.includes(keyword)),
+      candidate.difficulty,
+    );
+    if (distractors.length < DISTRACTOR_COUNT) return null;
+
+    const blanked = candidate.sentence.text.replace(pattern, BLANK);
+    const { options, correctAnswer } = this.shuffleOptions(match[0], distractors);
+    return {
+      id: `q_${sessionId}_${index}`,
+      question: `Complete the sentence from the text: "${blanked}"`,
+      options,
+      correctAnswer,
+      explanation: `From the text: "${candidate.sentence.text}"`,
+      difficulty: candidate.difficulty,
+      conceptTested: candidate.keyword,
+    };
+  }
+
+  /**
+   * "Which concept was discussed together with X?" - the answer shares a
+   * sentence with X, the distractors never do
+   */
+  private buildAssociationQuestion(
+    sessionId: string,
+    index: number,
+    candidate: Candidate,
+    sentences: Sentence[],
+    keywords: string[],
+  ): QuizQuestion | null {
+    const partner = keywords.find(
+      (keyword) => keyword !== candidate.keyword && candidate.sentence.tokens.includes(keyword),
+    );
+    if (!partner) return null;
+
+    const related = new Set<string>();
+    for (const sentence of sentences) {
+      if (!sentence.tokens.includes(partner)) continue;
+      sentence.tokens.forEach((token) => related.add(token));
+    }
+    const distractors = this.pickDistractors(
+      candidate.keyword,
+      keywords.filter((keyword) => !related.has(keyword)),
+      candidate.difficulty,
+    );
+    if (distractors.length < DISTRACTOR_COUNT) return null;
+
+    const { options, correctAnswer } = this.shuffleOptions(candidate.keyword, distractors);
+    return {
+      id: `q_${sessionId}_${index}`,
+      question: `Which concept did the text discuss together with "${partner}"?`,
+      options,
+      correctAnswer,
+      explanation: `From the text: "${candidate.sentence.text}"`,
+      difficulty: Math.min(5, candidate.difficulty + 1) as QuizQuestion['difficulty'],
+      conceptTested: candidate.keyword,
+    };
+  }
+
+  /**
+   * Harder questions get distractors that look like the answer (similar
+   * length and ending), easier ones get the least similar keywords
+   */
+  private pickDistractors(answer: string, pool: string[], difficulty: number): string[] {
+    const unique = Array.from(new Set(pool.filter((keyword) => keyword !== answer)));
+    const ranked = unique
+      .map((keyword) => ({ keyword, similarity: this.similarity(answer, keyword) }))
+      .sort((a, b) => (difficulty >= 3 ? b.similarity - a.similarity : a.similarity - b.similarity));
+    return ranked.slice(0, DISTRACTOR_COUNT).map((entry) => entry.keyword);
+  }
+
+  private similarity(a: string, b: string): number {
+    const lengthScore = 1 - Math.min(1, Math.abs(a.length - b.length) / Math.max(a.length, b.length));
+    let suffix = 0;
+    while (suffix < Math.min(a.length, b.length) && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+      suffix++;
+    }
+    return lengthScore + Math.min(3, suffix) * 0.2;
+  }
+
+  /**
+   * Shuffle the answer among the distractors, matching the answer's casing
+   */
+  private shuffleOptions(answer: string, distractors: string[]): { options: string[]; correctAnswer: number } {
+    const format = (keyword: string) =>
+      /^\p{Lu}/u.test(answer) ? keyword.charAt(0).toUpperCase() + keyword.slice(1) : keyword;
+    const options = [answer, ...distractors.map(format)];
+    for (let i = options.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [options[i], options[j]] = [options[j]!, options[i]!];
+    }
+    return { options, correctAnswer: options.indexOf(answer) };
+  }
+
+  // ==================== TEXT ANALYSIS ====================
+
+  private extractSentences(text: string): Sentence[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const sentences: string[] = [];
+    let current: string[] = [];
+    words.forEach((word, i) => {
+      current.push(word);
+      const next = words[i + 1];
+      if (!next || (/[.!?]["'”’)]*$/.test(word) && /^["'“‘(]*(\p{Lu}|\d)/u.test(next))) {
+        sentences.push(current.join(' '));
+        current = [];
+      }
+    });
+
+    return sentences
+      .filter((sentence) => {
+        const length = sentence.split(' ').length;
+        return length >= MIN_SENTENCE_WORDS && length <= MAX_SENTENCE_WORDS;
+      })
+      .map((sentence) => ({ text: sentence, tokens: this.tokenize(sentence) }));
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/\s+/)
+      .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ''))
+      .filter(Boolean);
+  }
+
+  /**
+   * Concept keywords that appear as whole words in at least one sentence;
+   * long content words stand in when the caller has none
+   */
+  private resolveKeywords(source: OfflineQuizSource, sentences: Sentence[]): string[] {
+    const present = new Set(sentences.flatMap((sentence) => sentence.tokens));
+    const provided = (source.conceptKeywords ?? [])
+      .map((keyword) => keyword.toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''))
+      .filter((keyword) => keyword.length >= 4 && present.has(keyword));
+    if (provided.length >= DISTRACTOR_COUNT + 1) return Array.from(new Set(provided));
+
+    const fallback = Array.from(present).filter(
+      (token) => token.length >= 7 && /^\p{L}+$/u.test(token) && !STOP_WORDS.has(token),
+    );
+    return Array.from(new Set([...provided, ...fallback]));
+  }
+
+  private countKeywords(sentences: Sentence[], keywords: string[]): Map<string, number> {
+    const frequency = new Map<string, number>(keywords.map((keyword) => [keyword, 0]));
+    for (const sentence of sentences) {
+      for (const token of sentence.tokens) {
+        if (frequency.has(token)) frequency.set(token, frequency.get(token)! + 1);
+      }
+    }
+    return frequency;
+  }
+
+  /**
+   * Every (sentence, keyword) pair, rated 1-5: keywords mentioned once and
+   * long sentences are harder to recall
+   */
+  private buildCandidates(
+    sentences: Sentence[],
+    keywords: string[],
+    frequency: Map<string, number>,
+  ): Candidate[] {
+    const keywordSet = new Set(keywords);
+    const candidates: Candidate[] = [];
+    for (const sentence of sentences) {
+      for (const keyword of new Set(sentence.tokens.filter((token) => keywordSet.has(token)))) {
+        const mentions = frequency.get(keyword) ?? 1;
+        let difficulty = mentions >= 4 ? 1 : mentions >= 2 ? 2 : 3;
+        if (sentence.tokens.length > 25) difficulty += 1;
+        if (keyword.length >= 10) difficulty += 1;
+        candidates.push({ sentence, keyword, difficulty: Math.min(5, difficulty) as Candidate['difficulty'] });
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * One question per keyword and per sentence, closest to the requested
+   * difficulty; 'adaptive' spreads from easy to hard in reading order
+   */
+  private selectCandidates(candidates: Candidate[], count: number, difficulty: OfflineQuizDifficulty): Candidate[] {
+    const target = difficulty === 'adaptive' ? null : TARGET_DIFFICULTY[difficulty];
+    const ranked = [...candidates].sort((a, b) =>
+      target === null ? a.difficulty - b.difficulty : Math.abs(a.difficulty - target) - Math.abs(b.difficulty - target),
+    );
+
+    const usedKeywords = new Set<string>();
+    const usedSentences = new Set<Sentence>();
+    const pool: Candidate[] = [];
+    for (const candidate of ranked) {
+      if (usedKeywords.has(candidate.keyword) || usedSentences.has(candidate.sentence)) continue;
+      usedKeywords.add(candidate.keyword);
+      usedSentences.add(candidate.sentence);
+      pool.push(candidate);
+    }
+
+    if (target !== null || pool.length <= count) {
+      return pool.slice(0, count).sort((a, b) => a.difficulty - b.difficulty);
+    }
+    // Evenly spaced picks keep the adaptive quiz ramping up in difficulty
+    return Array.from({ length: count }, (_, i) => pool[Math.floor((i * pool.length) / count)]!);
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
+
+export const offlineQuizService = OfflineQuizService.getInstance();
+export default OfflineQuizService;
@@ -0,0 +1,61 @@
+import PalaceInterchangeService from './PalaceInterchangeService';
+import { MemoryPalace } from '../../types';
+
+jest.mock('expo-file-system', () => ({
+  File: class {},
+  Paths: {},
+}));
+
+const palace: MemoryPalace = {
+  id: 'palace_1',
+  name: 'Biology 101',
+  description: 'Cell biology walk\n- starts at the front door\n# not a heading',
+  category: 'academic',
+  created: new Date(),
+  rooms: [
+    { id: 'room_1', name: 'Kitchen', position: 0, description: '![not an image](x.png)', imageUrl: 'https://example.com/kitchen.jpg' },
+    { id: 'room_2', name: 'Hallway', position: 1 },
+  ],
+  locations: [
+    {
+      id: 'loc_1',
+      name: 'Fridge',
+      order: 1,
+      roomId: 'room_1',
+      description: 'Cold shelf\n* starred line\n\\ backslash line',
+      imageUrl: 'https://example.com/fridge.jpg',
+      items: [
+        {
+          id: 'item_1',
+          content: 'Mitochondria',
+          association: 'a glowing battery on the door',
+          visualization: 'sparks',
+          imageUrl: 'https://example.com/mito.png',
+        },
+        { id: 'item_2', content: 'Ribosome' },
+      ],
+    },
+    { id: 'loc_2', name: 'Coat rack', order: 2, roomId: 'room_2', items: [{ id: 'item_3', content: 'Nucleus' }] },
+  ],
+} as MemoryPalace;
+
+describe('PalaceInterchangeService', () => {
+  const service = PalaceInterchangeService.getInstance();
+
+  it.each(['md', 'json'] as const)('parses its own %s export back to the same document', (format) => {
+    const exported = format === 'md' ? service.toMarkdown(palace) : service.toJSON(palace);
+    const { palace: imported, warnings } = service.importPalace(exported, format);
+
+    expect(warnings).toEqual([]);
+    expect(service.toDocument(imported).palace).toEqual(service.toDocument(palace).palace);
+  });
+
+  it('escapes description lines that look like Markdown structure', () => {
+    const markdown = service.toMarkdown(palace);
+
+    expect(markdown).toContain('\n\\- starts at the front door\n');
+    expect(markdown).toContain('\n\\# not a heading\n');
+    expect(markdown).toContain('\n\\![not an image](x.png)\n');
+    expect(markdown).toContain('\n\\* starred line\n');
+  });
+});
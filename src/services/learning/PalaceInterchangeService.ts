@@ -0,0 +1,458 @@
+/**
+ * PalaceInterchangeService - Shareable memory palace files (JSON / Markdown)
+ *
+ * Format "neurolearn.memory-palace", version 1. Only the palace content is
+ * shared: rooms, the order of loci, items with their associations and image
+ * references. Personal progress (recall history, FSRS state, mastery) stays
+ * on the device, and imports always get fresh ids.
+ *
+ * JSON:
+ *   {
+ *     "format": "neurolearn.memory-palace",
+ *     "version": 1,
+ *     "palace": {
+ *       "name": "Biology 101", "description": "...", "category": "academic",
+ *       "rooms": [{
+ *         "name": "Kitchen", "description": "...", "imageUrl": "...",
+ *         "loci": [{
+ *           "name": "Fridge", "description": "...", "imageUrl": "...",
+ *           "items": [{ "content": "Mitochondria", "association": "...",
+ *                       "visualization": "...", "imageUrl": "..." }]
+ *         }]
+ *       }]
+ *     }
+ *   }
+ *
+ * Markdown outline (same structure; loci are numbered in walking order,
+ * numbering continues across rooms):
+ *   ---
+ *   format: neurolearn.memory-palace
+ *   version: 1
+ *   category: academic
+ *   ---
+ *   # Biology 101
+ *   Palace description
+ *
+ *   ## Kitchen
+ *   Room description
+ *   ![Kitchen](https://example.com/kitchen.jpg)
+ *
+ *   ### 1. Fridge
+ *   Locus description
+ *   - Mitochondria
+ *     - association: a glowing battery on the fridge door
+ *     - visualization: ...
+ *     - image: https://example.com/mito.png
+ *
+ * Description lines that would read as structure (headings, list items,
+ * images) are escaped with a leading backslash, as in CommonMark.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { validateMemoryPalace } from '../storage/validators/memoryPalaceValidator';
+import { MemoryItem, MemoryLocation, MemoryPalace, MemoryRoom } from '../../types';
+
+export const PALACE_FORMAT = 'neurolearn.memory-palace';
+export const PALACE_FORMAT_VERSION = 1;
+
+export type PalaceFileFormat = 'json' | 'md';
+
+export interface PalaceItemDocument {
+  content: string;
+  association?: string;
+  visualization?: string;
+  imageUrl?: string;
+}
+
+export interface PalaceLocusDocument {
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  items: PalaceItemDocument[];
+}
+
+export interface PalaceRoomDocument {
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  loci: PalaceLocusDocument[];
+}
+
+export interface PalaceDocument {
+  format: typeof PALACE_FORMAT;
+  version: number;
+  exportedAt?: string;
+  palace: {
+    name: string;
+    description?: string;
+    category?: string;
+    rooms: PalaceRoomDocument[];
+  };
+}
+
+export interface PalaceImportResult {
+  palace: MemoryPalace;
+  roomCount: number;
+  lociCount: number;
+  itemCount: number;
+  warnings: string[];
+}
+
+export interface PalaceExportResult {
+  fileName: string;
+  uri: string;
+}
+
+// Loci that do not belong to a room are exported under this room name
+const DEFAULT_ROOM_NAME = 'Route';
+
+export class PalaceInterchangeService {
+  private static instance: PalaceInterchangeService;
+
+  private constructor() {}
+
+  public static getInstance(): PalaceInterchangeService {
+    if (!PalaceInterchangeService.instance) {
+      PalaceInterchangeService.instance = new PalaceInterchangeService();
+    }
+    return PalaceInterchangeService.instance;
+  }
+
+  detectFormat(fileName: string): PalaceFileFormat | null {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.json')) return 'json';
+    if (lower.endsWith('.md') || lower.endsWith('.markdown')) return 'md';
+    return null;
+  }
+
+  // ==================== EXPORT ====================
+
+  /**
+   * Palace content as an interchange document, loci in walking order
+   */
+  toDocument(palace: MemoryPalace): PalaceDocument {
+    const loci = [...(palace.locations ?? [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    const rooms = (palace.rooms ?? []).filter((room) => room.id);
+    const roomDocs = new Map<string, PalaceRoomDocument>();
+    const ordered: PalaceRoomDocument[] = [];
+
+    const roomFor = (location: MemoryLocation): PalaceRoomDocument => {
+      const room = rooms.find((r) => r.id === location.roomId);
+      const key = room?.id ?? '';
+      let doc = roomDocs.get(key);
+      if (!doc) {
+        doc = {
+          name: room?.name || DEFAULT_ROOM_NAME,
+          ...(room?.description ? { description: room.description } : {}),
+          ...(room?.imageUrl ? { imageUrl: room.imageUrl } : {}),
+          loci: [],
+        };
+        roomDocs.set(key, doc);
+        ordered.push(doc);
+      }
+      return doc;
+    };
+
+    for (const location of loci) {
+      roomFor(location).loci.push({
+        name: location.name,
+        ...(location.description ? { description: location.description } : {}),
+        ...(location.imageUrl ? { imageUrl: location.imageUrl } : {}),
+        items: (location.items ?? [])
+          .filter((item) => item.content?.trim())
+          .map((item) => ({
+            content: item.content!.trim(),
+            ...(item.association ? { association: item.association } : {}),
+            ...(item.visualization ? { visualization: item.visualization } : {}),
+            ...(item.imageUrl ? { imageUrl: item.imageUrl } : {}),
+          })),
+      });
+    }
+
+    return {
+      format: PALACE_FORMAT,
+      version: PALACE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      palace: {
+        name: palace.name || 'Untitled Palace',
+        ...(palace.description ? { description: palace.description } : {}),
+        ...(palace.category ? { category: palace.category } : {}),
+        rooms: ordered,
+      },
+    };
+  }
+
+  toJSON(palace: MemoryPalace): string {
+    return JSON.stringify(this.toDocument(palace), null, 2);
+  }
+
+  toMarkdown(palace: MemoryPalace): string {
+    const doc = this.toDocument(palace);
+    const lines = [
+      '---',
+      `format: ${doc.format}`,
+      `version: ${doc.version}`,
+      ...(doc.palace.category ? [`category: ${doc.palace.category}`] : []),
+      '---',
+      `# ${doc.palace.name}`,
+    ];
+    if (doc.palace.description) lines.push(...this.descriptionLines(doc.palace.description));
+
+    let stop = 0;
+    for (const room of doc.palace.rooms) {
+      lines.push('', `## ${room.name}`);
+      if (room.description) lines.push(...this.descriptionLines(room.description));
+      if (room.imageUrl) lines.push(`![${room.name}](${room.imageUrl})`);
+
+      for (const locus of room.loci) {
+        stop += 1;
+        lines.push('', `### ${stop}. ${locus.name}`);
+        if (locus.description) lines.push(...this.descriptionLines(locus.description));
+        if (locus.imageUrl) lines.push(`![${locus.name}](${locus.imageUrl})`);
+        for (const item of locus.items) {
+          lines.push(`- ${this.singleLine(item.content)}`);
+          if (item.association) lines.push(`  - association: ${this.singleLine(item.association)}`);
+          if (item.visualization) lines.push(`  - visualization: ${this.singleLine(item.visualization)}`);
+          if (item.imageUrl) lines.push(`  - image: ${item.imageUrl}`);
+        }
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Write a palace to the cache directory, ready to share
+   */
+  exportPalace(palace: MemoryPalace, format: PalaceFileFormat): PalaceExportResult {
+    const slug = (palace.name || 'palace')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'palace';
+    const fileName = `${slug}.palace.${format}`;
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(format === 'json' ? this.toJSON(palace) : this.toMarkdown(palace));
+    return { fileName, uri: file.uri };
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Parse a shared palace file into a new MemoryPalace. Throws with a
+   * readable message when the file is not a valid palace.
+   */
+  importPalace(text: string, format: PalaceFileFormat): PalaceImportResult {
+    const warnings: string[] = [];
+    const doc = format === 'json' ? this.parseJSON(text) : this.parseMarkdown(text, warnings);
+    return this.fromDocument(doc, warnings);
+  }
+
+  fromDocument(doc: PalaceDocument, warnings: string[] = []): PalaceImportResult {
+    if (doc.format !== PALACE_FORMAT) {
+      throw new Error(`Not a memory palace file (expected format "${PALACE_FORMAT}")`);
+    }
+    if (!Number.isInteger(doc.version) || doc.version < 1) {
+      throw new Error('Memory palace file has no valid version');
+    }
+    if (doc.version > PALACE_FORMAT_VERSION) {
+      warnings.push(`File uses format version ${doc.version}; fields newer than version ${PALACE_FORMAT_VERSION} were ignored`);
+    }
+    if (typeof doc.palace?.name !== 'string' || !doc.palace.name.trim()) {
+      throw new Error('Memory palace file is missing a palace name');
+    }
+    if (!Array.isArray(doc.palace.rooms)) throw new Error('Memory palace file has no rooms');
+
+    const now = new Date();
+    const rooms: MemoryRoom[] = [];
+    const locations: MemoryLocation[] = [];
+    let itemCount = 0;
+
+    doc.palace.rooms.forEach((roomDoc, roomIndex) => {
+      const roomId = this.createId('room');
+      rooms.push({
+        id: roomId,
+        name: (typeof roomDoc.name === 'string' && roomDoc.name.trim()) || `Room ${roomIndex + 1}`,
+        position: roomIndex,
+        ...(roomDoc.description ? { description: roomDoc.description } : {}),
+        ...(roomDoc.imageUrl ? { imageUrl: roomDoc.imageUrl } : {}),
+      });
+
+      for (const locusDoc of Array.isArray(roomDoc.loci) ? roomDoc.loci : []) {
+        if (typeof locusDoc?.name !== 'string' || !locusDoc.name.trim()) {
+          warnings.push(`Skipped an unnamed locus in "${roomDoc.name}"`);
+          continue;
+        }
+        const items: MemoryItem[] = (Array.isArray(locusDoc.items) ? locusDoc.items : [])
+          .filter((item) => typeof item?.content === 'string' && item.content.trim())
+          .map((item, index) => ({
+            id: this.createId('item'),
+            content: item.content.trim(),
+            position: index,
+            created: now,
+            reviewCount: 0,
+            mastered: false,
+            ...(item.association ? { association: item.association } : {}),
+            ...(item.visualization ? { visualization: item.visualization } : {}),
+            ...(item.imageUrl ? { imageUrl: item.imageUrl } : {}),
+          }));
+        itemCount += items.length;
+
+        locations.push({
+          id: this.createId('loc'),
+          name: locusDoc.name.trim(),
+          order: locations.length + 1,
+          roomId,
+          items,
+          ...(locusDoc.description ? { description: locusDoc.description } : {}),
+          ...(locusDoc.imageUrl ? { imageUrl: locusDoc.imageUrl } : {}),
+        });
+      }
+    });
+
+    if (locations.length === 0) throw new Error('Memory palace file has no loci');
+
+    const validated = validateMemoryPalace({
+      id: this.createId('palace'),
+      name: doc.palace.name.trim(),
+      description: doc.palace.description ?? '',
+      category: doc.palace.category ?? 'personal',
+      rooms,
+      locations,
+      created: now,
+      modified: now,
+      totalItems: itemCount,
+      masteredItems: 0,
+    });
+    if (!validated) throw new Error('Memory palace failed validation');
+
+    return {
+      palace: validated,
+      roomCount: rooms.length,
+      lociCount: locations.length,
+      itemCount,
+      warnings,
+    };
+  }
+
+  private parseJSON(text: string): PalaceDocument {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Memory palace file is not valid JSON');
+    }
+    if (!parsed || typeof parsed !== 'object') throw new Error('Memory palace file is empty');
+    return parsed as PalaceDocument;
+  }
+
+  private parseMarkdown(text: string, warnings: string[]): PalaceDocument {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const meta: Record<string, string> = {};
+    let index = 0;
+
+    if (lines[0]?.trim() === '---') {
+      for (index = 1; index < lines.length && lines[index]!.trim() !== '---'; index++) {
+        const match = /^([\w-]+)\s*:\s*(.*)$/.exec(lines[index]!.trim());
+        if (match) meta[match[1]!.toLowerCase()] = match[2]!.trim();
+      }
+      index += 1;
+    }
+
+    const palace: PalaceDocument['palace'] = { name: '', rooms: [] };
+    let room: PalaceRoomDocument | null = null;
+    let locus: PalaceLocusDocument | null = null;
+    let item: PalaceItemDocument | null = null;
+
+    const appendDescription = (target: { description?: string }, line: string) => {
+      target.description = target.description ? `${target.description}\n${line}` : line;
+    };
+    const ensureRoom = (): PalaceRoomDocument => {
+      if (!room) {
+        room = { name: DEFAULT_ROOM_NAME, loci: [] };
+        palace.rooms.push(room);
+      }
+      return room;
+    };
+
+    for (; index < lines.length; index++) {
+      const raw = lines[index]!;
+      const line = raw.trim();
+      if (!line) continue;
+
+      let match: RegExpExecArray | null;
+      if (line.startsWith('\\')) {
+        // Escaped description line, see descriptionLines()
+        item = null;
+        appendDescription(locus ?? room ?? palace, line.slice(1));
+      } else if ((match = /^#\s+(.+)$/.exec(line))) {
+        palace.name = match[1]!.trim();
+      } else if ((match = /^##\s+(.+)$/.exec(line))) {
+        room = { name: match[1]!.trim(), loci: [] };
+        palace.rooms.push(room);
+        locus = null;
+        item = null;
+      } else if ((match = /^###\s+(?:\d+[.)]\s*)?(.+)$/.exec(line))) {
+        locus = { name: match[1]!.trim(), items: [] };
+        ensureRoom().loci.push(locus);
+        item = null;
+      } else if ((match = /^!\[[^\]]*\]\(([^)\s]+)[^)]*\)$/.exec(line))) {
+        const target = locus ?? room;
+        if (target) target.imageUrl = match[1]!;
+        else warnings.push(`Ignored image outside any room: ${match[1]}`);
+      } else if (/^\s+[-*]\s+/.test(raw) && item) {
+        const detail = /^[-*]\s+(association|visualization|image)\s*:\s*(.+)$/i.exec(line);
+        if (!detail) {
+          warnings.push(`Ignored item detail: ${line}`);
+        } else if (detail[1]!.toLowerCase() === 'image') {
+          item.imageUrl = detail[2]!.trim();
+        } else {
+          item[detail[1]!.toLowerCase() as 'association' | 'visualization'] = detail[2]!.trim();
+        }
+      } else if ((match = /^[-*]\s+(.+)$/.exec(line))) {
+        if (!locus) {
+          warnings.push(`Ignored item outside any locus: ${match[1]}`);
+          continue;
+        }
+        item = { content: match[1]!.trim() };
+        locus.items.push(item);
+      } else {
+        item = null;
+        appendDescription(locus ?? room ?? palace, line);
+      }
+    }
+
+    const version = Number(meta.version ?? PALACE_FORMAT_VERSION);
+    return {
+      format: (meta.format ?? PALACE_FORMAT) as typeof PALACE_FORMAT,
+      version,
+      palace: {
+        ...palace,
+        ...(meta.category ? { category: meta.category } : {}),
+      },
+    };
+  }
+
+  /**
+   * Description text as Markdown lines; lines the parser would read as a
+   * heading, item or image (or that start with the escape itself) get a
+   * leading backslash
+   */
+  private descriptionLines(text: string): string[] {
+    return text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => (/^(#|[-*]\s|!\[|\\)/.test(line) ? `\\${line}` : line));
+  }
+
+  private singleLine(text: string): string {
+    return text.replace(/\s*\n\s*/g, ' ').trim();
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
+
+export default PalaceInterchangeService;
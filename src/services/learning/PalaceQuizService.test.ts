@@ -0,0 +1,130 @@
+import PalaceQuizService from './PalaceQuizService';
+import { CardState, Rating } from './SpacedRepetitionService';
+import { MemoryPalace } from '../../types';
+
+const saveMemoryPalaces = jest.fn(async (_palaces: MemoryPalace[]) => {});
+const recordReviewLogs = jest.fn(async (_logs: unknown[]) => {});
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      saveMemoryPalaces: (palaces: MemoryPalace[]) => saveMemoryPalaces(palaces),
+      getReviewLogs: async () => [],
+    }),
+  },
+}));
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({}) },
+}));
+jest.mock('./FSRSOptimizer', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ recordReviewLogs: (logs: unknown[]) => recordReviewLogs(logs) }) },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const palace = (): MemoryPalace => ({
+  id: 'palace_1',
+  name: 'Home',
+  locations: [
+    { id: 'kitchen', name: 'Kitchen', order: 2, items: [{ id: 'item_2', content: 'Golgi apparatus' }] },
+    { id: 'door', name: 'Front door', order: 1, items: [{ id: 'item_1', content: 'Mitochondria' }] },
+    {
+      id: 'hall',
+      name: 'Hall',
+      order: 3,
+      items: [
+        { id: 'item_3', content: 'Ribosome' },
+        { content: 'Not yet saved' }, // No id, cannot be scheduled
+      ],
+    },
+  ],
+});
+
+describe('PalaceQuizService', () => {
+  const service = PalaceQuizService.getInstance();
+
+  beforeEach(() => {
+    saveMemoryPalaces.mockClear();
+    recordReviewLogs.mockClear();
+  });
+
+  it('walks the route in order or in reverse, skipping unsaved items', () => {
+    const forward = service.createQuiz(palace());
+    expect(forward.questions.map((q) => [q.locationName, q.stop])).toEqual([
+      ['Front door', 1],
+      ['Kitchen', 2],
+      ['Hall', 3],
+    ]);
+
+    const reverse = service.createQuiz(palace(), { direction: 'reverse' });
+    expect(reverse.questions.map((q) => q.itemId)).toEqual(['item_3', 'item_2', 'item_1']);
+  });
+
+  it('scores typed answers by similarity and rates them', () => {
+    expect(service.scoreAnswer('Golgi apparatus', 'golgi apparatus!')).toBe(1);
+    expect(service.scoreAnswer('Mitochondria', 'mitocondria')).toBeGreaterThanOrEqual(0.85);
+    // Half the words, but closer by edit distance (6 of 15 characters missing)
+    expect(service.scoreAnswer('Golgi apparatus', 'apparatus')).toBeCloseTo(0.6);
+    expect(service.scoreAnswer('Ribosome', '')).toBe(0);
+
+    expect(service.toRating(1, 3000)).toBe(Rating.Easy);
+    expect(service.toRating(1, 20000)).toBe(Rating.Good);
+    expect(service.toRating(0.7, 3000)).toBe(Rating.Hard);
+    expect(service.toRating(0.2, 3000)).toBe(Rating.Again);
+  });
+
+  it('schedules answered items, saves them and reports missed loci', async () => {
+    let quiz = service.createQuiz(palace());
+    quiz = service.answerQuestion(quiz, 'Mitochondria', 2000);
+    quiz = service.answerQuestion(quiz, 'Endoplasmic reticulum', 9000);
+    quiz = service.answerQuestion(quiz, 'ribosome', 10000);
+    expect(service.isComplete(quiz)).toBe(true);
+
+    const { palaces, summary } = await service.finishQuiz(quiz, [palace()]);
+
+    expect(quiz.answers.map((a) => a.rating)).toEqual([Rating.Easy, Rating.Again, Rating.Good]);
+    expect(summary).toMatchObject({ answered: 3, correct: 2, totalItems: 4, weakLoci: ['Kitchen'] });
+    expect(summary.accuracy).toBeCloseTo(2 / 3);
+
+    const items = palaces[0]!.locations!.flatMap((location) => location.items ?? []);
+    const missed = items.find((item) => item.id === 'item_2')!;
+    expect(missed.recalled).toBe(false);
+    expect(missed.state).toBe(CardState.Learning);
+    expect(new Date(missed.nextReview!).getTime()).toBeLessThan(Date.now() + DAY);
+    expect(items.find((item) => item.id === 'item_1')!.recalled).toBe(true);
+
+    expect(saveMemoryPalaces).toHaveBeenCalledWith(palaces);
+    expect(recordReviewLogs).toHaveBeenCalledWith(quiz.logs);
+    expect(quiz.logs).toHaveLength(3);
+  });
+
+  it('counts mastered items and finds weak loci from the schedule', () => {
+    const now = new Date(2026, 9, 19);
+    const reviewed = (id: string, content: string, stability: number, lastDays: number) => ({
+      id,
+      content,
+      stability,
+      fsrsDifficulty: 5,
+      state: CardState.Review,
+      interval: 30,
+      reviewCount: 4,
+      mastered: stability >= 21,
+      lastRecalled: new Date(now.getTime() - lastDays * DAY),
+      nextReview: new Date(now.getTime() + DAY),
+    });
+    const studied: MemoryPalace = {
+      id: 'palace_2',
+      locations: [
+        { id: 'a', name: 'Strong', order: 1, items: [reviewed('s', 'Strong', 60, 5)] },
+        { id: 'b', name: 'Fading', order: 2, items: [reviewed('f', 'Fading', 2, 10)] },
+        { id: 'c', name: 'New', order: 3, items: [{ id: 'n', content: 'New' }] },
+      ],
+    };
+
+    expect(service.refreshPalaceStats(studied)).toMatchObject({ totalItems: 3, masteredItems: 1 });
+    expect(service.getWeakLoci(studied, now).map((locus) => locus.location.name)).toEqual(['Fading', 'Strong']);
+  });
+});
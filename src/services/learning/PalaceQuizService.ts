@@ -0,0 +1,314 @@
+/**
+ * PalaceQuizService - Walkthrough recall quizzes for memory palaces
+ *
+ * Walks a palace's locations in order (or reverse order) asking for the item
+ * placed at each one, scores the typed answer against the stored item and
+ * schedules every item through ReviewScheduler, so weak loci come back
+ * sooner. Finishing a quiz recounts the palace's mastered items.
+ */
+
+import StorageService from '../storage/StorageService';
+import { SpacedRepetitionService, CardState, FSRSReviewLog, Rating } from './SpacedRepetitionService';
+import { ReviewScheduler } from './ReviewScheduler';
+import { MemoryItem, MemoryLocation, MemoryPalace } from '../../types';
+
+export type PalaceQuizDirection = 'forward' | 'reverse';
+
+export interface PalaceQuizOptions {
+  direction?: PalaceQuizDirection;
+  dueOnly?: boolean; // Only items whose review is due
+  date?: Date;
+}
+
+export interface PalaceQuizQuestion {
+  locationId: string;
+  locationName: string;
+  stop: number; // 1-based position along the route
+  itemId: string;
+  item: MemoryItem;
+}
+
+export interface PalaceQuizAnswer {
+  itemId: string;
+  answer: string;
+  score: number; // 0-1 similarity to the stored item
+  rating: Rating;
+  responseMs: number;
+}
+
+export interface PalaceQuiz {
+  palaceId: string;
+  direction: PalaceQuizDirection;
+  questions: PalaceQuizQuestion[];
+  currentIndex: number;
+  answers: PalaceQuizAnswer[];
+  updatedItems: Record<string, MemoryItem>;
+  logs: FSRSReviewLog[];
+  startedAt: Date;
+}
+
+export interface PalaceQuizSummary {
+  answered: number;
+  correct: number;
+  accuracy: number;
+  averageScore: number;
+  masteredItems: number;
+  totalItems: number;
+  weakLoci: string[]; // Names of locations missed in this quiz
+}
+
+export interface WeakLocus {
+  location: MemoryLocation;
+  retrievability: number; // Lowest predicted recall among its items
+  dueItems: number;
+}
+
+// Typed answers at or above these similarity scores count as Good / Hard
+const GOOD_SCORE = 0.85;
+const HARD_SCORE = 0.6;
+// A near-perfect answer this fast is rated Easy
+const EASY_RESPONSE_MS = 6000;
+
+export class PalaceQuizService {
+  private static instance: PalaceQuizService;
+  private storage: StorageService;
+  private scheduler: ReviewScheduler;
+  private srs: SpacedRepetitionService;
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+    this.scheduler = ReviewScheduler.getInstance();
+    this.srs = SpacedRepetitionService.getInstance();
+  }
+
+  public static getInstance(): PalaceQuizService {
+    if (!PalaceQuizService.instance) {
+      PalaceQuizService.instance = new PalaceQuizService();
+    }
+    return PalaceQuizService.instance;
+  }
+
+  // ==================== QUIZ FLOW ====================
+
+  /**
+   * Questions for every item along the palace route. Items that have not
+   * been given an id yet are skipped, since their schedule cannot be saved.
+   */
+  createQuiz(palace: MemoryPalace, options: PalaceQuizOptions = {}): PalaceQuiz {
+    const direction = options.direction ?? 'forward';
+    const date = options.date ?? new Date();
+    const route = this.getRoute(palace);
+    const stops = direction === 'reverse' ? [...route].reverse() : route;
+
+    const questions: PalaceQuizQuestion[] = [];
+    for (const location of stops) {
+      const stop = route.indexOf(location) + 1;
+      for (const item of location.items ?? []) {
+        if (!item.id || !item.content?.trim()) continue;
+        if (options.dueOnly && !this.scheduler.isDue('palace', item, date)) continue;
+        questions.push({
+          locationId: location.id,
+          locationName: location.name,
+          stop,
+          itemId: item.id,
+          item,
+        });
+      }
+    }
+
+    return {
+      palaceId: palace.id ?? '',
+      direction,
+      questions,
+      currentIndex: 0,
+      answers: [],
+      updatedItems: {},
+      logs: [],
+      startedAt: new Date(),
+    };
+  }
+
+  /**
+   * Score the answer to the current question and schedule its item
+   */
+  answerQuestion(quiz: PalaceQuiz, answer: string, responseMs: number): PalaceQuiz {
+    const question = quiz.questions[quiz.currentIndex];
+    if (!question) return quiz;
+
+    const score = this.scoreAnswer(question.item.content ?? '', answer);
+    const rating = this.toRating(score, responseMs);
+    const { entity, logs } = this.scheduler.schedule('palace', question.item, rating);
+
+    return {
+      ...quiz,
+      currentIndex: quiz.currentIndex + 1,
+      answers: [...quiz.answers, { itemId: question.itemId, answer, score, rating, responseMs }],
+      updatedItems: { ...quiz.updatedItems, [question.itemId]: entity },
+      logs: [...quiz.logs, ...logs],
+    };
+  }
+
+  isComplete(quiz: PalaceQuiz): boolean {
+    return quiz.currentIndex >= quiz.questions.length;
+  }
+
+  /**
+   * Save rescheduled items and review logs, and refresh the palace's
+   * item/mastery counts. Returns the updated palace list and a summary.
+   */
+  async finishQuiz(
+    quiz: PalaceQuiz,
+    palaces: MemoryPalace[],
+  ): Promise<{ palaces: MemoryPalace[]; summary: PalaceQuizSummary }> {
+    const studied = new Date();
+    const updated = palaces.map((palace) => {
+      if (palace.id !== quiz.palaceId) return palace;
+      const withItems = this.mapItems(palace, (item) =>
+        item.id && quiz.updatedItems[item.id] ? quiz.updatedItems[item.id]! : item,
+      );
+      return { ...this.refreshPalaceStats(withItems), lastStudied: studied, modified: studied };
+    });
+
+    if (quiz.answers.length > 0) {
+      await this.storage.saveMemoryPalaces(updated);
+      await this.scheduler.recordLogs(quiz.logs);
+    }
+
+    const palace = updated.find((p) => p.id === quiz.palaceId);
+    return { palaces: updated, summary: this.summarize(quiz, palace) };
+  }
+
+  summarize(quiz: PalaceQuiz, palace?: MemoryPalace): PalaceQuizSummary {
+    const answered = quiz.answers.length;
+    const correct = quiz.answers.filter((a) => a.rating >= Rating.Good).length;
+    const missed = new Set(quiz.answers.filter((a) => a.rating === Rating.Again).map((a) => a.itemId));
+    const weakLoci = Array.from(
+      new Set(quiz.questions.filter((q) => missed.has(q.itemId)).map((q) => q.locationName)),
+    );
+
+    return {
+      answered,
+      correct,
+      accuracy: answered > 0 ? correct / answered : 0,
+      averageScore: answered > 0 ? quiz.answers.reduce((sum, a) => sum + a.score, 0) / answered : 0,
+      masteredItems: palace?.masteredItems ?? 0,
+      totalItems: palace?.totalItems ?? 0,
+      weakLoci,
+    };
+  }
+
+  // ==================== SCORING ====================
+
+  /**
+   * 0-1 similarity between the stored item and a typed answer: the better of
+   * whole-string edit similarity and word overlap, ignoring case and punctuation
+   */
+  scoreAnswer(expected: string, answer: string): number {
+    const a = this.normalize(expected);
+    const b = this.normalize(answer);
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    const distance = this.levenshtein(a, b);
+    const editSimilarity = 1 - distance / Math.max(a.length, b.length);
+
+    const expectedWords = new Set(a.split(' '));
+    const answerWords = new Set(b.split(' '));
+    const shared = [...expectedWords].filter((word) => answerWords.has(word)).length;
+    const overlap = shared / Math.max(expectedWords.size, answerWords.size);
+
+    return Math.max(0, Math.min(1, Math.max(editSimilarity, overlap)));
+  }
+
+  toRating(score: number, responseMs: number): Rating {
+    if (score >= 0.98 && responseMs <= EASY_RESPONSE_MS) return Rating.Easy;
+    if (score >= GOOD_SCORE) return Rating.Good;
+    if (score >= HARD_SCORE) return Rating.Hard;
+    return Rating.Again;
+  }
+
+  // ==================== PALACE STATE ====================
+
+  /**
+   * Locations ordered by `order`, then position
+   */
+  getRoute(palace: MemoryPalace): MemoryLocation[] {
+    return [...(palace.locations ?? [])].sort(
+      (a, b) => (a.order ?? 0) - (b.order ?? 0) || (a.position ?? 0) - (b.position ?? 0),
+    );
+  }
+
+  /**
+   * Locations whose items are least likely to be recalled right now
+   */
+  getWeakLoci(palace: MemoryPalace, date: Date = new Date(), limit = 3): WeakLocus[] {
+    const adapter = this.scheduler.getAdapter<MemoryItem>('palace');
+    return this.getRoute(palace)
+      .map((location) => {
+        const scheduled = (location.items ?? []).filter((item) => item.id);
+        const cards = scheduled.map((item) => adapter.toFSRSCard(item));
+        const reviewed = cards.filter((card) => card.state !== CardState.New);
+        return {
+          location,
+          retrievability: reviewed.length > 0
+            ? Math.min(...reviewed.map((card) => this.srs.getRetrievability(card, date)))
+            : 1,
+          dueItems: scheduled.filter((item) => this.scheduler.isDue('palace', item, date)).length,
+        };
+      })
+      .filter((locus) => locus.retrievability < 1)
+      .sort((a, b) => a.retrievability - b.retrievability)
+      .slice(0, limit);
+  }
+
+  /**
+   * Recount total and mastered items from the palace's own items
+   */
+  refreshPalaceStats(palace: MemoryPalace): MemoryPalace {
+    const items = [...(palace.locations ?? []), ...(palace.rooms ?? [])].flatMap((place) => place.items ?? []);
+    return {
+      ...palace,
+      totalItems: items.length,
+      masteredItems: items.filter((item) => item.mastered).length,
+    };
+  }
+
+  /**
+   * Apply `fn` to every item in the palace's locations and rooms
+   */
+  mapItems(palace: MemoryPalace, fn: (item: MemoryItem) => MemoryItem): MemoryPalace {
+    const mapPlaces = <P extends { items?: MemoryItem[] }>(places: P[]) =>
+      places.map((place) => (place.items ? { ...place, items: place.items.map(fn) } : place));
+    return {
+      ...palace,
+      ...(palace.locations ? { locations: mapPlaces(palace.locations) } : {}),
+      ...(palace.rooms ? { rooms: mapPlaces(palace.rooms) } : {}),
+    };
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j]! + 1,
+          current[j - 1]! + 1,
+          previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length]!;
+  }
+}
+
+export default PalaceQuizService;
@@ -15,6 +15,7 @@ import {
   WorkerPhysicsState,
   InitMessageData,
   UpdateGraphMessageData,
+  PatchGraphMessageData,
   SimulateStepMessageData,
   UpdateContextMessageData,
   PositionsResponseData,
@@ -150,6 +151,18 @@ export class PhysicsWorkerManager {
     return result;
   }
 
+  /**
+   * Apply an incremental change to the worker graph without a fresh layout
+   */
+  async patchGraph(patch: PatchGraphMessageData): Promise<{ nodeCount: number; linkCount: number }> {
+    this.ensureInitialized();
+
+    const result = await this.sendMessage('patch_graph', patch);
+
+    this.callbacks.onGraphUpdated?.(result.nodeCount, result.linkCount);
+    return result;
+  }
+
   /**
    * Run a single simulation step
    */
@@ -407,6 +420,8 @@ export class PhysicsWorkerManager {
         return { success: true };
       case 'update_graph':
         return { nodeCount: data.nodes?.length || 0, linkCount: data.links?.length || 0 };
+      case 'patch_graph':
+        return { nodeCount: data.upsertNodes?.length || 0, linkCount: data.upsertLinks?.length || 0 };
       case 'simulate_step':
         return { fps: 60 };
       case 'update_context':
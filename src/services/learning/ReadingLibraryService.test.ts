@@ -0,0 +1,180 @@
+import ReadingLibraryService from './ReadingLibraryService';
+import type { LoadedDocument, ReadingPosition } from './DocumentLoaderService';
+
+const mockFiles = new Map<string, string>();
+const mockStore = {
+  items: new Map<string, unknown>(),
+  positions: new Map<string, ReadingPosition>(),
+};
+
+jest.mock('expo-file-system', () => {
+  const join = (parts: Array<string | { uri: string }>) =>
+    parts.map(part => (typeof part === 'string' ? part : part.uri)).join('/');
+
+  return {
+    Directory: class {
+      uri: string;
+      constructor(...parts: Array<string | { uri: string }>) {
+        this.uri = join(parts);
+      }
+      create() {}
+    },
+    File: class {
+      uri: string;
+      constructor(...parts: Array<string | { uri: string }>) {
+        this.uri = join(parts);
+      }
+      get exists() {
+        return mockFiles.has(this.uri);
+      }
+      create() {
+        mockFiles.set(this.uri, '');
+      }
+      write(text: string) {
+        mockFiles.set(this.uri, text);
+      }
+      async text() {
+        return mockFiles.get(this.uri) ?? '';
+      }
+      delete() {
+        mockFiles.delete(this.uri);
+      }
+    },
+    Paths: { document: { uri: 'file:///documents' } },
+  };
+});
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getItem: async (key: string) => mockStore.items.get(key) ?? null,
+      // Stored values come back JSON-decoded, dates as strings
+      setItem: async (key: string, value: unknown) => {
+        mockStore.items.set(key, JSON.parse(JSON.stringify(value)));
+      },
+    }),
+  },
+}));
+jest.mock('../storage/SupabaseService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getCurrentUser: async () => null }) },
+}));
+jest.mock('./DocumentLoaderService', () => ({
+  DocumentLoaderService: {
+    getInstance: () => ({
+      getReadingPosition: async (documentId: string) => mockStore.positions.get(documentId) ?? null,
+      clearReadingPosition: async (documentId: string) => {
+        mockStore.positions.delete(documentId);
+      },
+    }),
+  },
+}));
+
+const NOW = new Date(2026, 9, 19, 9, 0);
+
+const chapter = (index: number, text: string) => ({
+  index,
+  title: `Chapter ${index + 1}`,
+  text,
+  wordCount: text.split(/\s+/).filter(Boolean).length,
+});
+
+const book = (id: string): LoadedDocument => {
+  const chapters = [
+    chapter(0, 'Cells are small. The mitochondria is the powerhouse of the cell. Ribosomes build proteins.'),
+    chapter(1, 'Plants make sugar from light'),
+  ];
+  return {
+    id,
+    title: `Book ${id}`,
+    format: 'txt',
+    fileName: `${id}.txt`,
+    chapters,
+    toc: [],
+    wordCount: chapters.reduce((sum, c) => sum + c.wordCount, 0),
+    loadedAt: NOW,
+  };
+};
+
+describe('ReadingLibraryService', () => {
+  const library = ReadingLibraryService.getInstance();
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockFiles.clear();
+    mockStore.items.clear();
+    mockStore.positions.clear();
+  });
+
+  it('keeps documents, bookmarks and highlights when a document is added again', async () => {
+    const document = book('bio');
+    await library.addDocument(document);
+
+    const bookmark = await library.addBookmark(document, 0, 3);
+    expect(bookmark!.label).toBe('Chapter 1: The mitochondria is the powerhouse of the cell.…');
+
+    // Paused on "powerhouse": the whole sentence is captured
+    const highlight = await library.captureHighlight(document, 0, 7, { note: '  key fact ' });
+    expect(highlight).toMatchObject({
+      startWordIndex: 3,
+      endWordIndex: 10,
+      text: 'The mitochondria is the powerhouse of the cell.',
+      note: 'key fact',
+    });
+    await library.linkHighlightCards('bio', highlight!.id, ['card_1']);
+
+    await library.addDocument({ ...document, title: 'Biology' });
+    const entry = await library.getEntry('bio');
+    expect(entry).toMatchObject({ title: 'Biology', chapterWordCounts: [14, 5], wordCount: 19 });
+    expect(entry!.bookmarks.map((b) => b.id)).toEqual([bookmark!.id]);
+    expect(entry!.highlights[0]!.flashcardIds).toEqual(['card_1']);
+    expect(entry!.highlights[0]!.createdAt).toEqual(NOW);
+
+    const reopened = await library.openDocument('bio');
+    expect(reopened!.chapters).toEqual(document.chapters);
+    expect(reopened!.loadedAt).toEqual(NOW);
+
+    await library.removeDocument('bio');
+    expect(await library.getEntry('bio')).toBeNull();
+    expect(await library.openDocument('bio')).toBeNull();
+  });
+
+  it('caps highlights without sentence punctuation', () => {
+    const words = Array.from({ length: 100 }, (_, i) => `w${i}`);
+    expect(library.findSentence(words, 50)).toMatchObject({ start: 10, end: 90 });
+    expect(library.findSentence([], 0)).toBeNull();
+  });
+
+  it('reports progress and time-weighted WPM, and continues the latest unfinished document', async () => {
+    await library.addDocument(book('bio'));
+    await library.addDocument(book('plants'));
+
+    // A long session at 300 WPM and a short one at 600 WPM
+    await library.recordSession('bio', {
+      sessionId: 's1', chapterIndex: 0, wpm: 300, wordsRead: 3000, durationMs: 10 * 60000,
+      date: new Date(NOW.getTime() - 60000),
+    });
+    await library.recordSession('bio', {
+      sessionId: 's2', chapterIndex: 0, wpm: 600, wordsRead: 600, durationMs: 60000,
+    });
+    mockStore.positions.set('bio', { documentId: 'bio', chapterIndex: 1, wordIndex: 2, updated: NOW });
+
+    const [latest] = await library.getLibrary();
+    expect(latest!.entry.documentId).toBe('bio');
+    expect(latest!.progress).toBeCloseTo(16 / 19);
+    expect(latest!.averageWpm).toBe(Math.round(3600 / 11));
+    expect(latest!.totalWordsRead).toBe(3600);
+    expect((await library.getContinueReading())!.entry.documentId).toBe('bio');
+
+    // Finished documents and ones never read are not offered
+    mockStore.positions.set('bio', { documentId: 'bio', chapterIndex: 1, wordIndex: 5, updated: NOW });
+    expect(await library.getContinueReading()).toBeNull();
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * ReadingLibraryService - Local library of documents for speed reading
+ *
+ * Keeps every opened document (parsed chapters) on the device so it can be
+ * reopened without the original file, and tracks per document: bookmarks,
+ * highlights captured while RSVP is paused, and the WPM of each reading
+ * session. The resume position itself lives in DocumentLoaderService.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import HybridStorageService from '../storage/HybridStorageService';
+import { parseStored, resolveUserId } from '../storage/storedValues';
+import {
+  DocumentFormat,
+  DocumentLoaderService,
+  LoadedDocument,
+  ReadingPosition,
+} from './DocumentLoaderService';
+
+export interface ReadingBookmark {
+  id: string;
+  chapterIndex: number;
+  wordIndex: number;
+  label: string;
+  createdAt: Date;
+}
+
+export interface ReadingHighlight {
+  id: string;
+  chapterIndex: number;
+  startWordIndex: number;
+  endWordIndex: number; // Inclusive
+  text: string;
+  note?: string;
+  sessionId?: string; // Reading session it was captured in
+  flashcardIds?: string[]; // Cards created from it
+  createdAt: Date;
+}
+
+export interface DocumentWpmSample {
+  sessionId: string;
+  date: Date;
+  chapterIndex: number;
+  wpm: number;
+  wordsRead: number;
+  durationMs: number;
+}
+
+export interface LibraryEntry {
+  documentId: string;
+  title: string;
+  author?: string;
+  format: DocumentFormat;
+  fileName: string;
+  chapterCount: number;
+  chapterWordCounts: number[];
+  wordCount: number;
+  addedAt: Date;
+  lastReadAt?: Date;
+  bookmarks: ReadingBookmark[];
+  highlights: ReadingHighlight[];
+  wpmHistory: DocumentWpmSample[];
+}
+
+export interface LibraryDocumentSummary {
+  entry: LibraryEntry;
+  position: ReadingPosition | null;
+  progress: number; // 0-1 through the whole document
+  averageWpm: number;
+  totalWordsRead: number;
+}
+
+const LIBRARY_DIRECTORY = 'reading-library';
+// Oldest WPM samples are dropped beyond this many per document
+const MAX_WPM_SAMPLES = 200;
+// Highlights reach back/forward at most this many words from the paused word
+const MAX_HIGHLIGHT_REACH = 40;
+
+export class ReadingLibraryService {
+  private static instance: ReadingLibraryService;
+  private hybridStorage: HybridStorageService;
+  private documentLoader: DocumentLoaderService;
+
+  private static readonly LIBRARY_KEY_PREFIX = '@neurolearn/reading_library_';
+
+  private constructor() {
+    this.hybridStorage = HybridStorageService.getInstance();
+    this.documentLoader = DocumentLoaderService.getInstance();
+  }
+
+  public static getInstance(): ReadingLibraryService {
+    if (!ReadingLibraryService.instance) {
+      ReadingLibraryService.instance = new ReadingLibraryService();
+    }
+    return ReadingLibraryService.instance;
+  }
+
+  // ==================== DOCUMENTS ====================
+
+  /**
+   * Store a loaded document. Re-adding the same document keeps its
+   * bookmarks, highlights and history.
+   */
+  async addDocument(document: LoadedDocument): Promise<LibraryEntry> {
+    this.writeDocumentFile(document);
+
+    const uid = await resolveUserId();
+    const library = await this.loadLibrary(uid);
+    const existing = library[document.id];
+    const entry: LibraryEntry = {
+      documentId: document.id,
+      title: document.title,
+      ...(document.author ? { author: document.author } : {}),
+      format: document.format,
+      fileName: document.fileName,
+      chapterCount: document.chapters.length,
+      chapterWordCounts: document.chapters.map((chapter) => chapter.wordCount),
+      wordCount: document.wordCount,
+      addedAt: existing?.addedAt ?? new Date(),
+      ...(existing?.lastReadAt ? { lastReadAt: existing.lastReadAt } : {}),
+      bookmarks: existing?.bookmarks ?? [],
+      highlights: existing?.highlights ?? [],
+      wpmHistory: existing?.wpmHistory ?? [],
+    };
+    library[document.id] = entry;
+    await this.saveLibrary(uid, library);
+    return entry;
+  }
+
+  /**
+   * Stored document with its chapters, or null if its file is gone
+   */
+  async openDocument(documentId: string): Promise<LoadedDocument | null> {
+    try {
+      const file = new File(this.getDirectory(), `${documentId}.json`);
+      if (!file.exists) return null;
+      const document = JSON.parse(await file.text()) as LoadedDocument;
+      return { ...document, loadedAt: new Date(document.loadedAt) };
+    } catch (error) {
+      console.error('Error opening library document:', error);
+      return null;
+    }
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    try {
+      const file = new File(this.getDirectory(), `${documentId}.json`);
+      if (file.exists) file.delete();
+    } catch (error) {
+      console.warn('Failed to delete library document file:', error);
+    }
+    await this.updateEntry(documentId, () => null);
+    await this.documentLoader.clearReadingPosition(documentId);
+  }
+
+  async getEntry(documentId: string): Promise<LibraryEntry | null> {
+    const library = await this.loadLibrary();
+    return library[documentId] ?? null;
+  }
+
+  /**
+   * All documents with progress, most recently read first
+   */
+  async getLibrary(): Promise<LibraryDocumentSummary[]> {
+    const library = await this.loadLibrary();
+    const summaries = await Promise.all(
+      Object.values(library).map(async (entry) =>
+        this.summarize(entry, await this.documentLoader.getReadingPosition(entry.documentId)),
+      ),
+    );
+    const lastTouched = (summary: LibraryDocumentSummary) =>
+      (summary.entry.lastReadAt ?? summary.entry.addedAt).getTime();
+    return summaries.sort((a, b) => lastTouched(b) - lastTouched(a));
+  }
+
+  /**
+   * Most recently read document that is not finished yet
+   */
+  async getContinueReading(): Promise<LibraryDocumentSummary | null> {
+    const library = await this.getLibrary();
+    return library.find((summary) => summary.entry.lastReadAt && summary.progress < 1) ?? null;
+  }
+
+  summarize(entry: LibraryEntry, position: ReadingPosition | null): LibraryDocumentSummary {
+    const wordsBefore = position
+      ? entry.chapterWordCounts.slice(0, position.chapterIndex).reduce((sum, count) => sum + count, 0)
+      : 0;
+    const read = position ? wordsBefore + position.wordIndex : 0;
+    const sessions = entry.wpmHistory.filter((sample) => sample.wordsRead > 0);
+    const totalWordsRead = sessions.reduce((sum, sample) => sum + sample.wordsRead, 0);
+    const totalMs = sessions.reduce((sum, sample) => sum + sample.durationMs, 0);
+
+    return {
+      entry,
+      position,
+      progress: entry.wordCount > 0 ? Math.min(1, read / entry.wordCount) : 0,
+      // Weighted by time, so short sessions do not skew the average
+      averageWpm: totalMs > 0 ? Math.round(totalWordsRead / (totalMs / 60000)) : 0,
+      totalWordsRead,
+    };
+  }
+
+  // ==================== READING HISTORY ====================
+
+  /**
+   * Add a finished or stopped reading session to the document's WPM history
+   */
+  async recordSession(
+    documentId: string,
+    sample: Omit<DocumentWpmSample, 'date'> & { date?: Date },
+  ): Promise<void> {
+    await this.updateEntry(documentId, (entry) => {
+      const date = sample.date ?? new Date();
+      const wpmHistory = [...entry.wpmHistory, { ...sample, date }].slice(-MAX_WPM_SAMPLES);
+      return { ...entry, wpmHistory, lastReadAt: date };
+    });
+  }
+
+  // ==================== BOOKMARKS & HIGHLIGHTS ====================
+
+  async addBookmark(
+    document: LoadedDocument,
+    chapterIndex: number,
+    wordIndex: number,
+    label?: string,
+  ): Promise<ReadingBookmark | null> {
+    const bookmark: ReadingBookmark = {
+      id: this.createId('bm'),
+      chapterIndex,
+      wordIndex,
+      label: label?.trim() || this.snippet(document, chapterIndex, wordIndex),
+      createdAt: new Date(),
+    };
+    const updated = await this.updateEntry(document.id, (entry) => ({
+      ...entry,
+      bookmarks: [...entry.bookmarks, bookmark].sort(
+        (a, b) => a.chapterIndex - b.chapterIndex || a.wordIndex - b.wordIndex,
+      ),
+    }));
+    return updated ? bookmark : null;
+  }
+
+  async removeBookmark(documentId: string, bookmarkId: string): Promise<void> {
+    await this.updateEntry(documentId, (entry) => ({
+      ...entry,
+      bookmarks: entry.bookmarks.filter((bookmark) => bookmark.id !== bookmarkId),
+    }));
+  }
+
+  /**
+   * Highlight the sentence around the word on screen in RSVP
+   */
+  async captureHighlight(
+    document: LoadedDocument,
+    chapterIndex: number,
+    wordIndex: number,
+    options: { note?: string; sessionId?: string } = {},
+  ): Promise<ReadingHighlight | null> {
+    const sentence = this.findSentence(this.getChapterWords(document, chapterIndex), wordIndex);
+    if (!sentence) return null;
+
+    const highlight: ReadingHighlight = {
+      id: this.createId('hl'),
+      chapterIndex,
+      startWordIndex: sentence.start,
+      endWordIndex: sentence.end,
+      text: sentence.text,
+      ...(options.note?.trim() ? { note: options.note.trim() } : {}),
+      ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+      createdAt: new Date(),
+    };
+    const updated = await this.updateEntry(document.id, (entry) => ({
+      ...entry,
+      highlights: [...entry.highlights, highlight],
+    }));
+    return updated ? highlight : null;
+  }
+
+  /**
+   * The sentence containing words[wordIndex], capped at MAX_HIGHLIGHT_REACH
+   * words either side for text without sentence punctuation
+   */
+  findSentence(words: string[], wordIndex: number): { start: number; end: number; text: string } | null {
+    if (words.length === 0) return null;
+
+    const index = Math.min(Math.max(0, wordIndex), words.length - 1);
+    const endsSentence = (word: string) => /[.!?]["'”’)]*$/.test(word);
+
+    let start = index;
+    while (start > 0 && index - start < MAX_HIGHLIGHT_REACH && !endsSentence(words[start - 1]!)) start--;
+    let end = index;
+    while (end < words.length - 1 && end - index < MAX_HIGHLIGHT_REACH && !endsSentence(words[end]!)) end++;
+
+    return { start, end, text: words.slice(start, end + 1).join(' ') };
+  }
+
+  /**
+   * Remember which flashcards were made from a highlight
+   */
+  async linkHighlightCards(documentId: string, highlightId: string, flashcardIds: string[]): Promise<void> {
+    await this.updateEntry(documentId, (entry) => ({
+      ...entry,
+      highlights: entry.highlights.map((highlight) =>
+        highlight.id === highlightId
+          ? { ...highlight, flashcardIds: [...(highlight.flashcardIds ?? []), ...flashcardIds] }
+          : highlight,
+      ),
+    }));
+  }
+
+  async removeHighlight(documentId: string, highlightId: string): Promise<void> {
+    await this.updateEntry(documentId, (entry) => ({
+      ...entry,
+      highlights: entry.highlights.filter((highlight) => highlight.id !== highlightId),
+    }));
+  }
+
+  // ==================== STORAGE ====================
+
+  /**
+   * Chapter words; RSVP shows one whitespace-separated token at a time, so
+   * word indices line up with the reader's
+   */
+  private getChapterWords(document: LoadedDocument, chapterIndex: number): string[] {
+    return (document.chapters[chapterIndex]?.text ?? '').split(/\s+/).filter(Boolean);
+  }
+
+  private snippet(document: LoadedDocument, chapterIndex: number, wordIndex: number): string {
+    const words = this.getChapterWords(document, chapterIndex);
+    const chapter = document.chapters[chapterIndex]?.title ?? `Chapter ${chapterIndex + 1}`;
+    const text = words.slice(wordIndex, wordIndex + 8).join(' ');
+    return text ? `${chapter}: ${text}…` : chapter;
+  }
+
+  private async updateEntry(
+    documentId: string,
+    update: (entry: LibraryEntry) => LibraryEntry | null,
+  ): Promise<LibraryEntry | null> {
+    try {
+      const uid = await resolveUserId();
+      const library = await this.loadLibrary(uid);
+      const entry = library[documentId];
+      if (!entry) return null;
+
+      const updated = update(entry);
+      if (updated) library[documentId] = updated;
+      else delete library[documentId];
+      await this.saveLibrary(uid, library);
+      return updated;
+    } catch (error) {
+      console.error('Error updating reading library:', error);
+      return null;
+    }
+  }
+
+  private async loadLibrary(userId?: string): Promise<Record<string, LibraryEntry>> {
+    try {
+      const uid = await resolveUserId(userId);
+      const raw = await this.hybridStorage.getItem(ReadingLibraryService.LIBRARY_KEY_PREFIX + uid);
+      const library = parseStored<Record<string, LibraryEntry>>(raw) ?? {};
+      for (const entry of Object.values(library)) {
+        entry.addedAt = new Date(entry.addedAt);
+        if (entry.lastReadAt) entry.lastReadAt = new Date(entry.lastReadAt);
+        entry.bookmarks = (entry.bookmarks ?? []).map((b) => ({ ...b, createdAt: new Date(b.createdAt) }));
+        entry.highlights = (entry.highlights ?? []).map((h) => ({ ...h, createdAt: new Date(h.createdAt) }));
+        entry.wpmHistory = (entry.wpmHistory ?? []).map((s) => ({ ...s, date: new Date(s.date) }));
+      }
+      return library;
+    } catch (error) {
+      console.error('Error loading reading library:', error);
+      return {};
+    }
+  }
+
+  private async saveLibrary(uid: string, library: Record<string, LibraryEntry>): Promise<void> {
+    await this.hybridStorage.setItem(ReadingLibraryService.LIBRARY_KEY_PREFIX + uid, library);
+  }
+
+  private getDirectory(): Directory {
+    const directory = new Directory(Paths.document, LIBRARY_DIRECTORY);
+    directory.create({ intermediates: true, idempotent: true });
+    return directory;
+  }
+
+  private writeDocumentFile(document: LoadedDocument): void {
+    const file = new File(this.getDirectory(), `${document.id}.json`);
+    if (!file.exists) file.create();
+    file.write(JSON.stringify(document));
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  }
+}
+
+export default ReadingLibraryService;
@@ -0,0 +1,68 @@
+import { neuralNodeAdapter } from './ReviewAdapters';
+import { CardState, Rating, SpacedRepetitionService } from './SpacedRepetitionService';
+import type { NeuralNode } from './MindMapGeneratorService';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 9, 0);
+
+const node = (extra: Partial<NeuralNode> = {}): NeuralNode =>
+  ({
+    id: 'task_1',
+    type: 'memory',
+    label: 'Task',
+    content: 'Task',
+    category: 'tasks',
+    masteryLevel: 0.5,
+    cognitiveLoad: 0.4,
+    lastAccessed: new Date(NOW.getTime() - DAY),
+    accessCount: 2,
+    easeFactor: 2.5,
+    interval: 10,
+    repetitions: 3,
+    nextReviewDate: NOW,
+    difficulty: 5, // Source scale, not FSRS
+    sourceType: 'task',
+    sourceId: '1',
+    ...extra,
+  }) as NeuralNode;
+
+describe('neuralNodeAdapter', () => {
+  const srs = SpacedRepetitionService.getInstance();
+
+  it('keeps the source difficulty out of the FSRS state', () => {
+    const card = neuralNodeAdapter.toFSRSCard(node({ stability: 10, state: CardState.Review }));
+
+    // Without a stored FSRS difficulty the state is estimated from the legacy fields
+    expect(card.difficulty).not.toBe(5);
+    expect(card.last_review).toBeUndefined();
+  });
+
+  it('round-trips FSRS difficulty and the last review date', () => {
+    const reviewed = node({
+      stability: 10,
+      fsrsDifficulty: 4,
+      state: CardState.Review,
+      lastReviewed: new Date(NOW.getTime() - 10 * DAY),
+    });
+    const card = neuralNodeAdapter.toFSRSCard(reviewed);
+    expect(card.difficulty).toBe(4);
+    expect(card.last_review).toEqual(new Date(NOW.getTime() - 10 * DAY));
+
+    const next = srs.scheduleNextReviewFSRS(card, Rating.Good, NOW).card;
+    const updated = neuralNodeAdapter.applySchedule(reviewed, next, {
+      rating: Rating.Good,
+      reviewDate: NOW,
+      previousState: CardState.Review,
+    });
+
+    expect(updated).toMatchObject({
+      difficulty: 5,
+      fsrsDifficulty: next.difficulty,
+      lastReviewed: NOW,
+      lastDifficulty: 'good',
+    });
+    // The review sees the real ten-day gap since the last one
+    expect(next.elapsed_days).toBe(10);
+    expect(neuralNodeAdapter.toFSRSCard(updated).last_review).toEqual(NOW);
+  });
+});
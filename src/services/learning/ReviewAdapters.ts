@@ -0,0 +1,194 @@
+/**
+ * Review adapters - map each reviewable entity onto an FSRSCard and back
+ *
+ * Registered with ReviewScheduler by default. Every adapter keeps the
+ * entity's own legacy fields (ease factor, interval, repetitions) in sync so
+ * existing screens keep working, and stores the FSRS state next to them.
+ */
+
+import { SpacedRepetitionService, CardState, Rating } from './SpacedRepetitionService';
+import type { ReviewableAdapter } from './ReviewScheduler';
+import type { NeuralNode } from './MindMapGeneratorService';
+import { Flashcard, LogicNode, MemoryItem } from '../../types';
+
+const srs = () => SpacedRepetitionService.getInstance();
+
+/**
+ * FSRS difficulty (1-10) to an SM-2 style ease factor (1.3-4.0)
+ */
+const toEaseFactor = (difficulty: number): number =>
+  Math.max(1.3, Math.min(4.0, 4.0 - ((difficulty - 1) / 9) * 2.7));
+
+// ==================== FLASHCARDS ====================
+
+export const flashcardAdapter: ReviewableAdapter<Flashcard> = {
+  kind: 'flashcard',
+  getId: (card) => card.id,
+  toFSRSCard: (card) => srs().convertLegacyCard(card),
+  applySchedule: (card, fsrsCard) => srs().applyFSRSCard(card, fsrsCard),
+  isSuspended: (card, date) => srs().isBuried(card, date),
+};
+
+// ==================== LOGIC NODES ====================
+
+const LOGIC_DIFFICULTY_STABILITY: Record<LogicNode['difficulty'], number> = {
+  1: 1.5, // Easy logic
+  2: 1.2,
+  3: 1.0, // Medium logic
+  4: 0.8,
+  5: 0.6, // Very hard logic
+};
+
+const LOGIC_TYPE_STABILITY: Record<LogicNode['type'], number> = {
+  deductive: 1.2, // Most straightforward
+  inductive: 1.0,
+  abductive: 0.8, // Most complex
+};
+
+const LOGIC_DOMAIN_STABILITY: Record<LogicNode['domain'], number> = {
+  general: 1.3, // Easiest
+  english: 1.1,
+  math: 1.0,
+  programming: 0.8, // Most complex
+};
+
+/**
+ * Initial stability for a logic node that has never been scheduled by FSRS,
+ * from its difficulty, reasoning type and domain
+ */
+export const estimateLogicStability = (node: LogicNode): number => {
+  const stability =
+    (LOGIC_DIFFICULTY_STABILITY[node.difficulty] ?? 1.0) *
+    (LOGIC_TYPE_STABILITY[node.type] ?? 1.0) *
+    (LOGIC_DOMAIN_STABILITY[node.domain] ?? 1.0);
+  return Math.max(0.1, Math.min(7.0, stability));
+};
+
+export const estimateLogicDifficulty = (node: LogicNode): number => {
+  let difficulty = 5.0; // Start at medium difficulty
+
+  if (node.type === 'abductive') difficulty += 1.5;
+  if (node.type === 'inductive') difficulty += 0.5;
+  if (node.domain === 'programming') difficulty += 1.0;
+  if (node.domain === 'math') difficulty += 0.5;
+  difficulty += (node.difficulty - 3) * 0.5;
+
+  return Math.max(1.0, Math.min(10.0, difficulty));
+};
+
+const determineLogicState = (node: LogicNode): CardState => {
+  if (typeof node.state === 'number') return node.state;
+  if (node.repetitions === 0) return CardState.New;
+  if (node.repetitions < 3 || node.interval < 4) return CardState.Learning;
+  if (node.totalAttempts > node.correctAttempts * 1.5) return CardState.Relearning;
+  return CardState.Review;
+};
+
+export const logicNodeAdapter: ReviewableAdapter<LogicNode> = {
+  kind: 'logic',
+  getId: (node) => node.id,
+  toFSRSCard: (node) => ({
+    id: node.id,
+    due: new Date(node.nextReviewDate),
+    stability: node.stability || estimateLogicStability(node),
+    difficulty: node.fsrsDifficulty || estimateLogicDifficulty(node),
+    elapsed_days: 0,
+    scheduled_days: node.interval,
+    reps: node.repetitions,
+    lapses: Math.max(0, node.totalAttempts - node.correctAttempts),
+    state: determineLogicState(node),
+    ...(node.lastReview ? { last_review: new Date(node.lastReview) } : {}),
+    deck: `logic::${node.domain}`,
+  }),
+  applySchedule: (node, card, { rating, reviewDate }) => ({
+    ...node,
+    interval: card.scheduled_days,
+    repetitions: card.reps,
+    nextReviewDate: card.due,
+    lastReview: reviewDate,
+    lastAccessed: reviewDate,
+    modified: reviewDate,
+    stability: card.stability,
+    fsrsDifficulty: card.difficulty,
+    state: card.state,
+    totalAttempts: node.totalAttempts + 1,
+    correctAttempts: node.correctAttempts + (rating >= Rating.Good ? 1 : 0),
+    accessCount: node.accessCount + 1,
+    easeFactor: Math.max(1.3, Math.min(4.0, toEaseFactor(card.difficulty) + (rating - Rating.Good) * 0.1)),
+  }),
+};
+
+// ==================== MEMORY PALACE ITEMS ====================
+
+export const memoryItemAdapter: ReviewableAdapter<MemoryItem> = {
+  kind: 'palace',
+  getId: (item) => item.id ?? item.content ?? '',
+  toFSRSCard: (item) =>
+    srs().convertLegacyCard({
+      id: item.id ?? item.content ?? '',
+      nextReview: item.nextReview ? new Date(item.nextReview) : new Date(),
+      interval: item.interval,
+      repetitions: item.reviewCount,
+      stability: item.stability,
+      fsrsDifficulty: item.fsrsDifficulty,
+      state: item.state,
+      lapses: item.lapses,
+      lastReviewed: item.lastRecalled ? new Date(item.lastRecalled) : undefined,
+    }),
+  applySchedule: (item, card, { rating, reviewDate }) => ({
+    ...item,
+    nextReview: card.due,
+    interval: card.scheduled_days,
+    reviewCount: card.reps,
+    stability: card.stability,
+    fsrsDifficulty: card.difficulty,
+    state: card.state,
+    lapses: card.lapses,
+    recalled: rating >= Rating.Good,
+    lastRecalled: reviewDate,
+    mastered: card.state === CardState.Review && card.scheduled_days >= 21,
+  }),
+};
+
+// ==================== NEURAL NODES ====================
+
+const RATING_LABELS: Record<Rating, NonNullable<NeuralNode['lastDifficulty']>> = {
+  [Rating.Again]: 'again',
+  [Rating.Hard]: 'hard',
+  [Rating.Good]: 'good',
+  [Rating.Easy]: 'easy',
+};
+
+export const neuralNodeAdapter: ReviewableAdapter<NeuralNode> = {
+  kind: 'neural',
+  getId: (node) => node.id,
+  toFSRSCard: (node) =>
+    srs().convertLegacyCard({
+      id: node.id,
+      nextReview: new Date(node.nextReviewDate),
+      interval: node.interval,
+      easeFactor: node.easeFactor,
+      repetitions: node.repetitions,
+      stability: node.stability,
+      fsrsDifficulty: node.fsrsDifficulty,
+      state: node.state,
+      lapses: node.lapses,
+      lastReviewed: node.lastReviewed ? new Date(node.lastReviewed) : undefined,
+      category: node.category,
+    }),
+  applySchedule: (node, card, { rating, reviewDate }) => ({
+    ...node,
+    nextReviewDate: card.due,
+    interval: card.scheduled_days,
+    repetitions: card.reps,
+    easeFactor: toEaseFactor(card.difficulty),
+    stability: card.stability,
+    fsrsDifficulty: card.difficulty,
+    state: card.state,
+    lapses: card.lapses,
+    lastDifficulty: RATING_LABELS[rating],
+    lastReviewed: reviewDate,
+    lastAccessed: reviewDate,
+    accessCount: node.accessCount + 1,
+  }),
+};
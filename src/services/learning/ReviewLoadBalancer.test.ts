@@ -0,0 +1,128 @@
+import ReviewLoadBalancer from './ReviewLoadBalancer';
+import { CardState, Rating, SpacedRepetitionService, toDayKey } from './SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+const stored: { cards: Flashcard[]; items: Map<string, unknown> } = { cards: [], items: new Map() };
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getFlashcards: async () => stored.cards,
+      saveFlashcards: async (cards: Flashcard[]) => {
+        stored.cards = cards;
+      },
+    }),
+  },
+}));
+jest.mock('../storage/HybridStorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getItem: async (key: string) => stored.items.get(key) ?? null,
+      setItem: async (key: string, value: unknown) => {
+        stored.items.set(key, value);
+      },
+    }),
+  },
+}));
+jest.mock('../storage/SupabaseService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getCurrentUser: async () => null }) },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 9, 0);
+
+const reviewCard = (id: string, dueInDays: number, stability: number): Flashcard => ({
+  id,
+  front: id,
+  back: id,
+  category: 'general',
+  created: new Date(NOW.getTime() - 60 * DAY),
+  nextReview: new Date(NOW.getTime() + dueInDays * DAY),
+  lastReviewed: new Date(NOW.getTime() - 5 * DAY),
+  interval: 5,
+  easeFactor: 2.5,
+  repetitions: 4,
+  state: CardState.Review,
+  stability,
+  fsrsDifficulty: 5,
+});
+
+describe('ReviewLoadBalancer', () => {
+  const balancer = ReviewLoadBalancer.getInstance();
+  const srs = SpacedRepetitionService.getInstance();
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    stored.cards = [];
+    stored.items.clear();
+  });
+
+  it('moves a graduating review to the least loaded day in its fuzz window', () => {
+    const card = srs.convertLegacyCard(reviewCard('a', 0, 20));
+    const plain = srs.scheduleNextReviewFSRS(card, Rating.Good, NOW).card.scheduled_days;
+    const [min, max] = srs.getFuzzRange(plain);
+    expect(max).toBeGreaterThan(min);
+
+    // Every day in the window is busy except the last one
+    const dueLoad = new Map<string, number>();
+    for (let days = min; days < max; days++) dueLoad.set(toDayKey(new Date(NOW.getTime() + days * DAY)), 50);
+    const balanced = srs.scheduleNextReviewFSRS(card, Rating.Good, NOW, {}, { dueLoad, fuzz: false }).card;
+
+    expect(balanced.scheduled_days).toBe(max);
+
+    // Blocked days are skipped even when they are the least loaded
+    const blocked = srs.scheduleNextReviewFSRS(card, Rating.Good, NOW, {}, {
+      dueLoad,
+      fuzz: false,
+      isBlocked: (key) => key === toDayKey(new Date(NOW.getTime() + max * DAY)),
+    }).card;
+    expect(blocked.scheduled_days).not.toBe(max);
+    expect(blocked.scheduled_days).toBeGreaterThanOrEqual(min);
+  });
+
+  it('forecasts due reviews per day, with overdue ones today', () => {
+    const cards = [reviewCard('overdue', -3, 10), reviewCard('today', 0, 10), reviewCard('later', 2, 10)];
+    const vacationDay = toDayKey(new Date(NOW.getTime() + 2 * DAY));
+    const forecast = balancer.getWorkloadForecast(cards, [{ start: vacationDay, end: vacationDay }], 5, NOW);
+
+    expect(forecast.map((day) => day.total)).toEqual([2, 0, 1, 0, 0]);
+    expect(forecast.map((day) => day.isVacation)).toEqual([false, false, true, false, false]);
+  });
+
+  it('moves reviews out of a vacation and only patches due dates when applied', async () => {
+    const start = toDayKey(new Date(NOW.getTime() + 5 * DAY));
+    const end = toDayKey(new Date(NOW.getTime() + 7 * DAY));
+    const cards = [reviewCard('strong', 6, 400), reviewCard('weak', 6, 2), reviewCard('outside', 12, 10)];
+
+    const plan = balancer.planVacation(cards, { start, end }, {}, NOW);
+
+    expect(plan.postponed).toBe(1);
+    expect(plan.advanced).toBe(1);
+    const moved = new Map(plan.moves.map((move) => [move.cardId, toDayKey(move.to)]));
+    expect(moved.get('strong')! > end).toBe(true);
+    expect(moved.get('weak')! < start).toBe(true);
+    expect(moved.has('outside')).toBe(false);
+
+    // Meanwhile the weak card was reviewed and the strong one edited
+    const reviewed = { ...cards[1]!, nextReview: new Date(NOW.getTime() + 30 * DAY) };
+    stored.cards = [{ ...cards[0]!, back: 'edited' }, reviewed, cards[2]!];
+
+    const vacations = await balancer.applyVacationPlan(plan, 'user_1');
+
+    expect(vacations).toEqual([{ start, end }]);
+    expect(stored.cards[0]).toMatchObject({ back: 'edited' });
+    expect(toDayKey(new Date(stored.cards[0]!.nextReview))).toBe(moved.get('strong'));
+    expect(stored.cards[1]!.nextReview).toEqual(reviewed.nextReview);
+    expect(stored.cards[2]).toBe(cards[2]);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * ReviewLoadBalancer - Workload smoothing, vacation mode and due forecasts
+ *
+ * Builds the per-day due counts that scheduleNextReviewFSRS uses to spread
+ * graduated cards across their fuzz window, moves reviews out of a vacation
+ * with as little retention loss as possible, and forecasts the next 30 days
+ * of reviews for charting.
+ */
+
+import HybridStorageService from '../storage/HybridStorageService';
+import StorageService from '../storage/StorageService';
+import { parseStored, resolveUserId } from '../storage/storedValues';
+import {
+  SpacedRepetitionService,
+  CardState,
+  LoadBalanceContext,
+  toDayKey,
+} from './SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+export interface VacationPeriod {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface VacationPlanOptions {
+  minRetention?: number; // Postpone only while predicted recall stays above this
+  spreadDays?: number; // Days before/after the vacation to spread moved reviews over
+}
+
+export interface VacationMove {
+  cardId: string;
+  from: Date; // Due date the plan was made from
+  to: Date;
+}
+
+export interface VacationPlan {
+  period: VacationPeriod;
+  cards: Flashcard[]; // Full card list with moved reviews rescheduled, for previews
+  moves: VacationMove[];
+  advanced: number; // Reviews moved before the vacation
+  postponed: number; // Reviews moved after the vacation
+  averageRetentionAtReview: number; // Predicted recall when moved cards are reviewed
+}
+
+export interface WorkloadForecastDay {
+  date: string; // YYYY-MM-DD
+  label: string; // Short weekday/day label for chart axes
+  dayOffset: number; // 0 = today (includes overdue)
+  review: number;
+  learning: number;
+  total: number;
+  isVacation: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FORECAST_DAYS = 30;
+
+export class ReviewLoadBalancer {
+  private static instance: ReviewLoadBalancer;
+  private storage: StorageService;
+  private hybridStorage: HybridStorageService;
+  private srs: SpacedRepetitionService;
+
+  private static readonly VACATION_KEY_PREFIX = '@neurolearn/review_vacations_';
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+    this.hybridStorage = HybridStorageService.getInstance();
+    this.srs = SpacedRepetitionService.getInstance();
+  }
+
+  public static getInstance(): ReviewLoadBalancer {
+    if (!ReviewLoadBalancer.instance) {
+      ReviewLoadBalancer.instance = new ReviewLoadBalancer();
+    }
+    return ReviewLoadBalancer.instance;
+  }
+
+  // ==================== LOAD BALANCING ====================
+
+  /**
+   * Number of scheduled (non-new) cards due per day. Overdue cards count
+   * toward `from`'s day.
+   */
+  buildDueLoad(cards: Flashcard[], from: Date = new Date()): Map<string, number> {
+    const todayKey = toDayKey(from);
+    const load = new Map<string, number>();
+    for (const card of cards) {
+      const fsrsCard = this.srs.convertLegacyCard(card);
+      if (fsrsCard.state === CardState.New) continue;
+      const due = new Date(card.nextReview);
+      if (isNaN(due.getTime())) continue;
+      const key = due < from ? todayKey : toDayKey(due);
+      load.set(key, (load.get(key) ?? 0) + 1);
+    }
+    return load;
+  }
+
+  /**
+   * Context for scheduleNextReviewFSRS: current workload plus vacation days
+   */
+  createContext(cards: Flashcard[], vacations: VacationPeriod[] = []): LoadBalanceContext {
+    return {
+      dueLoad: this.buildDueLoad(cards),
+      isBlocked: (dayKey) => this.isVacationDay(dayKey, vacations),
+    };
+  }
+
+  // ==================== FORECAST ====================
+
+  /**
+   * Daily review workload for the next `days` days, ready to chart
+   */
+  getWorkloadForecast(
+    cards: Flashcard[],
+    vacations: VacationPeriod[] = [],
+    days: number = DEFAULT_FORECAST_DAYS,
+    from: Date = new Date(),
+  ): WorkloadForecastDay[] {
+    const start = new Date(from);
+    start.setHours(0, 0, 0, 0);
+
+    const forecast: WorkloadForecastDay[] = Array.from({ length: days }, (_, dayOffset) => {
+      const date = new Date(start.getTime() + dayOffset * DAY_MS);
+      const key = toDayKey(date);
+      return {
+        date: key,
+        label: dayOffset === 0 ? 'Today' : `${date.getMonth() + 1}/${date.getDate()}`,
+        dayOffset,
+        review: 0,
+        learning: 0,
+        total: 0,
+        isVacation: this.isVacationDay(key, vacations),
+      };
+    });
+
+    for (const card of cards) {
+      if (this.srs.isBuried(card, from)) continue;
+      const fsrsCard = this.srs.convertLegacyCard(card);
+      // New cards are introduced by daily limits, not by due date
+      if (fsrsCard.state === CardState.New) continue;
+
+      const due = new Date(card.nextReview);
+      if (isNaN(due.getTime())) continue;
+      const dayOffset = Math.max(0, Math.floor((due.getTime() - start.getTime()) / DAY_MS));
+      const day = forecast[dayOffset];
+      if (!day) continue;
+
+      if (fsrsCard.state === CardState.Review) day.review += 1;
+      else day.learning += 1;
+      day.total += 1;
+    }
+
+    return forecast;
+  }
+
+  // ==================== VACATION MODE ====================
+
+  /**
+   * Plan moving every review that falls due during the vacation. Cards whose
+   * predicted recall after the vacation stays above `minRetention` are
+   * postponed; the rest are reviewed early. Weakest cards get the earliest
+   * slots on either side. Nothing is saved until applyVacationPlan().
+   */
+  planVacation(
+    cards: Flashcard[],
+    period: VacationPeriod,
+    options: VacationPlanOptions = {},
+    now: Date = new Date(),
+  ): VacationPlan {
+    const minRetention = options.minRetention ?? 0.8;
+    const spreadDays = Math.max(1, options.spreadDays ?? 3);
+
+    const start = this.parseDayKey(period.start);
+    const end = this.parseDayKey(period.end);
+    if (!start || !end || end < start) {
+      throw new Error('Vacation end must be on or after its start (YYYY-MM-DD)');
+    }
+    const returnDay = new Date(end.getTime() + DAY_MS);
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const toAdvance: Array<{ card: Flashcard; due: number }> = [];
+    const toPostpone: Array<{ card: Flashcard; retention: number }> = [];
+
+    for (const card of cards) {
+      const fsrsCard = this.srs.convertLegacyCard(card);
+      if (fsrsCard.state === CardState.New) continue;
+      const due = new Date(card.nextReview);
+      if (isNaN(due.getTime()) || due < start || due >= returnDay) continue;
+
+      const retention = this.srs.getRetrievability(fsrsCard, returnDay);
+      const canAdvance = start > today && fsrsCard.state === CardState.Review;
+      if (fsrsCard.state === CardState.Review && retention >= minRetention) {
+        toPostpone.push({ card, retention });
+      } else if (canAdvance) {
+        toAdvance.push({ card, due: due.getTime() });
+      } else {
+        // Learning cards or vacations starting today can only move forward
+        toPostpone.push({ card, retention });
+      }
+    }
+
+    // Existing workload, excluding the cards being moved
+    const movedIds = new Set([...toAdvance, ...toPostpone].map(({ card }) => card.id));
+    const load = this.buildDueLoad(cards.filter((card) => !movedIds.has(card.id)), now);
+    const rescheduled = new Map<string, Date>();
+
+    const beforeDays = Array.from({ length: spreadDays }, (_, i) => new Date(start.getTime() - (spreadDays - i) * DAY_MS))
+      .filter((day) => day >= today);
+    const afterDays = Array.from({ length: spreadDays }, (_, i) => new Date(returnDay.getTime() + i * DAY_MS));
+
+    const assign = (card: Flashcard, days: Date[]) => {
+      const target = days.reduce((best, day) =>
+        (load.get(toDayKey(day)) ?? 0) < (load.get(toDayKey(best)) ?? 0) ? day : best,
+      );
+      const key = toDayKey(target);
+      load.set(key, (load.get(key) ?? 0) + 1);
+      rescheduled.set(card.id, target);
+    };
+
+    toAdvance
+      .sort((a, b) => a.due - b.due)
+      .forEach(({ card }) => assign(card, beforeDays));
+    toPostpone
+      .sort((a, b) => a.retention - b.retention)
+      .forEach(({ card }) => assign(card, afterDays));
+
+    let retentionSum = 0;
+    const moves: VacationMove[] = [];
+    for (const card of cards) {
+      const target = rescheduled.get(card.id);
+      if (!target) continue;
+
+      const fsrsCard = this.srs.convertLegacyCard(card);
+      retentionSum += this.srs.getRetrievability(fsrsCard, target);
+      // Keep the card's original time of day within the new date
+      const due = new Date(card.nextReview);
+      const next = new Date(target);
+      next.setHours(due.getHours(), due.getMinutes(), 0, 0);
+      moves.push({ cardId: card.id, from: due, to: next });
+    }
+
+    return {
+      period,
+      cards: this.applyMoves(cards, moves),
+      moves,
+      advanced: toAdvance.length,
+      postponed: toPostpone.length,
+      averageRetentionAtReview: rescheduled.size > 0 ? retentionSum / rescheduled.size : 1,
+    };
+  }
+
+  /**
+   * Move due dates on the given cards. Cards whose due date changed since
+   * the plan was made (reviewed or edited meanwhile) are left alone.
+   */
+  applyMoves(cards: Flashcard[], moves: VacationMove[]): Flashcard[] {
+    const byId = new Map(moves.map((move) => [move.cardId, move]));
+    return cards.map((card) => {
+      const move = byId.get(card.id);
+      if (!move || new Date(card.nextReview).getTime() !== new Date(move.from).getTime()) return card;
+      return { ...card, nextReview: new Date(move.to) };
+    });
+  }
+
+  /**
+   * Move the planned due dates on the stored cards and remember the vacation
+   * so new schedules avoid it. Other card changes made since planning are kept.
+   */
+  async applyVacationPlan(plan: VacationPlan, userId?: string): Promise<VacationPeriod[]> {
+    const cards = await this.storage.getFlashcards();
+    await this.storage.saveFlashcards(this.applyMoves(cards, plan.moves));
+    const vacations = (await this.getVacations(userId)).filter(
+      (v) => v.start !== plan.period.start || v.end !== plan.period.end,
+    );
+    const updated = [...vacations, plan.period].sort((a, b) => a.start.localeCompare(b.start));
+    await this.saveVacations(updated, userId);
+    return updated;
+  }
+
+  async getVacations(userId?: string): Promise<VacationPeriod[]> {
+    try {
+      const uid = await resolveUserId(userId);
+      const raw = await this.hybridStorage.getItem(ReviewLoadBalancer.VACATION_KEY_PREFIX + uid);
+      const parsed = parseStored<VacationPeriod[]>(raw);
+      if (!Array.isArray(parsed)) return [];
+      // Past vacations no longer affect scheduling
+      const todayKey = toDayKey(new Date());
+      return parsed.filter((v) => v.end >= todayKey);
+    } catch (error) {
+      console.warn('Failed to load vacations:', error);
+      return [];
+    }
+  }
+
+  async removeVacation(period: VacationPeriod, userId?: string): Promise<VacationPeriod[]> {
+    const vacations = (await this.getVacations(userId)).filter(
+      (v) => v.start !== period.start || v.end !== period.end,
+    );
+    await this.saveVacations(vacations, userId);
+    return vacations;
+  }
+
+  isVacationDay(dayKey: string, vacations: VacationPeriod[]): boolean {
+    return vacations.some((v) => dayKey >= v.start && dayKey <= v.end);
+  }
+
+  private async saveVacations(vacations: VacationPeriod[], userId?: string): Promise<void> {
+    const uid = await resolveUserId(userId);
+    await this.hybridStorage.setItem(ReviewLoadBalancer.VACATION_KEY_PREFIX + uid, vacations);
+  }
+
+  private parseDayKey(key: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key.trim());
+    if (!match) return null;
+    const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
+
+export default ReviewLoadBalancer;
@@ -0,0 +1,255 @@
+/**
+ * ReviewScheduler - One FSRS scheduler for every reviewable entity
+ *
+ * Flashcards, logic nodes, memory-palace items and neural nodes each plug in
+ * through a ReviewableAdapter that maps the entity to an FSRSCard and writes
+ * the scheduling result back. All kinds share the FSRS weights in
+ * SpacedRepetitionService, the review-log store and a single due queue.
+ */
+
+import StorageService from '../storage/StorageService';
+import FSRSOptimizer from './FSRSOptimizer';
+import {
+  SpacedRepetitionService,
+  CardState,
+  FSRSCard,
+  FSRSReviewLog,
+  LoadBalanceContext,
+  Rating,
+  SchedulingOverrides,
+} from './SpacedRepetitionService';
+import {
+  flashcardAdapter,
+  logicNodeAdapter,
+  memoryItemAdapter,
+  neuralNodeAdapter,
+} from './ReviewAdapters';
+
+export type ReviewableKind = 'flashcard' | 'logic' | 'palace' | 'neural';
+
+export interface ReviewContext {
+  rating: Rating;
+  reviewDate: Date;
+  previousState: CardState;
+}
+
+export interface ReviewableAdapter<T> {
+  kind: ReviewableKind;
+  getId(entity: T): string;
+  toFSRSCard(entity: T): FSRSCard;
+  applySchedule(entity: T, card: FSRSCard, context: ReviewContext): T;
+  // Extra exclusions from the due queue, e.g. buried flashcards
+  isSuspended?(entity: T, date: Date): boolean;
+}
+
+export interface ReviewOptions {
+  reviewDate?: Date;
+  overrides?: SchedulingOverrides;
+  balance?: LoadBalanceContext;
+}
+
+export interface ReviewResult<T> {
+  entity: T;
+  card: FSRSCard;
+  logs: FSRSReviewLog[]; // card_id is the queue id, see toQueueId()
+}
+
+export interface ReviewSource<T = any> {
+  kind: ReviewableKind;
+  items: T[];
+}
+
+export interface DueReviewItem<T = any> {
+  queueId: string;
+  kind: ReviewableKind;
+  id: string;
+  entity: T;
+  due: Date;
+  state: CardState;
+  difficulty: number; // FSRS difficulty, 1-10
+  retrievability: number;
+}
+
+const QUEUE_ID_SEPARATOR = ':';
+
+export class ReviewScheduler {
+  private static instance: ReviewScheduler;
+  private storage: StorageService;
+  private srs: SpacedRepetitionService;
+  private adapters = new Map<ReviewableKind, ReviewableAdapter<any>>();
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+    this.srs = SpacedRepetitionService.getInstance();
+
+    this.register(flashcardAdapter);
+    this.register(logicNodeAdapter);
+    this.register(memoryItemAdapter);
+    this.register(neuralNodeAdapter);
+  }
+
+  public static getInstance(): ReviewScheduler {
+    if (!ReviewScheduler.instance) {
+      ReviewScheduler.instance = new ReviewScheduler();
+    }
+    return ReviewScheduler.instance;
+  }
+
+  // ==================== ADAPTERS ====================
+
+  /**
+   * Register (or replace) the adapter for a kind of entity
+   */
+  register<T>(adapter: ReviewableAdapter<T>): void {
+    this.adapters.set(adapter.kind, adapter);
+  }
+
+  getAdapter<T>(kind: ReviewableKind): ReviewableAdapter<T> {
+    const adapter = this.adapters.get(kind);
+    if (!adapter) throw new Error(`No review adapter registered for "${kind}"`);
+    return adapter;
+  }
+
+  /**
+   * Id used in review logs and the due queue. Flashcards keep their plain id
+   * so existing logs stay attached; other kinds are prefixed, e.g. 'logic:42'.
+   */
+  toQueueId(kind: ReviewableKind, id: string): string {
+    return kind === 'flashcard' ? id : `${kind}${QUEUE_ID_SEPARATOR}${id}`;
+  }
+
+  parseQueueId(queueId: string): { kind: ReviewableKind; id: string } {
+    const index = queueId.indexOf(QUEUE_ID_SEPARATOR);
+    const prefix = index > 0 ? queueId.slice(0, index) : '';
+    if (prefix && prefix !== 'flashcard' && this.adapters.has(prefix as ReviewableKind)) {
+      return { kind: prefix as ReviewableKind, id: queueId.slice(index + 1) };
+    }
+    return { kind: 'flashcard', id: queueId };
+  }
+
+  // ==================== SCHEDULING ====================
+
+  /**
+   * Schedule one review without persisting anything
+   */
+  schedule<T>(
+    kind: ReviewableKind,
+    entity: T,
+    rating: Rating,
+    options: ReviewOptions = {},
+  ): ReviewResult<T> {
+    const adapter = this.getAdapter<T>(kind);
+    const reviewDate = options.reviewDate ?? new Date();
+    const fsrsCard = {
+      ...adapter.toFSRSCard(entity),
+      id: this.toQueueId(kind, adapter.getId(entity)),
+    };
+
+    const { card, logs } = this.srs.scheduleNextReviewFSRS(
+      fsrsCard,
+      rating,
+      reviewDate,
+      options.overrides,
+      options.balance,
+    );
+
+    return {
+      entity: adapter.applySchedule(entity, card, {
+        rating,
+        reviewDate,
+        previousState: fsrsCard.state,
+      }),
+      card,
+      logs,
+    };
+  }
+
+  /**
+   * Schedule one review and append its log to the shared review-log store
+   */
+  async review<T>(
+    kind: ReviewableKind,
+    entity: T,
+    rating: Rating,
+    options: ReviewOptions = {},
+  ): Promise<ReviewResult<T>> {
+    const result = this.schedule(kind, entity, rating, options);
+    await this.recordLogs(result.logs);
+    return result;
+  }
+
+  /**
+   * Append logs through FSRSOptimizer so new reviews count toward its next retrain
+   */
+  async recordLogs(logs: FSRSReviewLog[]): Promise<void> {
+    await FSRSOptimizer.getInstance().recordReviewLogs(logs);
+  }
+
+  /**
+   * Shared review logs for one kind, with card_id mapped back to entity ids
+   */
+  async getReviewLogs(kind?: ReviewableKind): Promise<FSRSReviewLog[]> {
+    try {
+      const logs = await this.storage.getReviewLogs();
+      if (!kind) return logs;
+      return logs
+        .map((log) => ({ log, parsed: this.parseQueueId(log.card_id) }))
+        .filter(({ parsed }) => parsed.kind === kind)
+        .map(({ log, parsed }) => ({ ...log, card_id: parsed.id }));
+    } catch (error) {
+      console.error('Error loading review logs:', error);
+      return [];
+    }
+  }
+
+  // ==================== DUE QUEUE ====================
+
+  isDue<T>(kind: ReviewableKind, entity: T, date: Date = new Date()): boolean {
+    const adapter = this.getAdapter<T>(kind);
+    if (adapter.isSuspended?.(entity, date)) return false;
+    const due = new Date(adapter.toFSRSCard(entity).due);
+    return !isNaN(due.getTime()) && due <= date;
+  }
+
+  /**
+   * Everything due across all sources. Learning steps come first, then
+   * reviews from lowest predicted recall, then new items in due order.
+   */
+  getDueQueue(sources: ReviewSource[], date: Date = new Date()): DueReviewItem[] {
+    const queue: DueReviewItem[] = [];
+
+    for (const source of sources) {
+      const adapter = this.getAdapter(source.kind);
+      for (const entity of source.items) {
+        if (adapter.isSuspended?.(entity, date)) continue;
+        const card = adapter.toFSRSCard(entity);
+        const due = new Date(card.due);
+        if (isNaN(due.getTime()) || due > date) continue;
+
+        const id = adapter.getId(entity);
+        queue.push({
+          queueId: this.toQueueId(source.kind, id),
+          kind: source.kind,
+          id,
+          entity,
+          due,
+          state: card.state,
+          difficulty: card.difficulty,
+          retrievability: card.state === CardState.New ? 0 : this.srs.getRetrievability(card, date),
+        });
+      }
+    }
+
+    const rank = (state: CardState) =>
+      state === CardState.Learning || state === CardState.Relearning ? 0 : state === CardState.Review ? 1 : 2;
+
+    return queue.sort((a, b) => {
+      const byRank = rank(a.state) - rank(b.state);
+      if (byRank !== 0) return byRank;
+      if (a.state === CardState.Review) return a.retrievability - b.retrievability;
+      return a.due.getTime() - b.due.getTime();
+    });
+  }
+}
+
+export default ReviewScheduler;
@@ -0,0 +1,91 @@
+import { EmbeddingDocument, SemanticEmbeddingService, tokenize } from './SemanticEmbeddingService';
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getFlashcards: async () => [],
+      getLogicNodes: async () => [],
+      getReadingSessions: async () => [],
+    }),
+  },
+}));
+jest.mock('../../core/EventSystem', () => ({
+  EventSystem: { getInstance: () => ({ subscribe: () => () => {} }) },
+  EVENT_TYPES: { LEARNING_DATA_CHANGED: 'learning_data_changed' },
+}));
+
+const doc = (id: string, text: string): EmbeddingDocument => ({
+  id,
+  kind: 'flashcard',
+  sourceId: id,
+  title: text,
+  text,
+});
+
+const biology = [
+  doc('bio_1', 'Mitochondria produce ATP energy for the cell'),
+  doc('bio_2', 'Cellular respiration in mitochondria yields ATP energy'),
+  doc('bio_3', 'The cell membrane controls what enters the cell'),
+];
+const history = [
+  doc('hist_1', 'The Roman empire expanded across the Mediterranean'),
+  doc('hist_2', 'Roman legions defended the empire frontier'),
+  doc('hist_3', 'Trade across the Mediterranean enriched Roman cities'),
+];
+
+// Deterministic filler over a synthetic vocabulary, enough documents to
+// leave the exact scan and go through the LSH index
+const filler = (count: number): EmbeddingDocument[] =>
+  Array.from({ length: count }, (_, i) =>
+    doc(`filler_${i}`, [i % 97, (i * 7) % 89, (i * 13) % 83].map((n) => `word${n}x`).join(' ')),
+  );
+
+describe('tokenize', () => {
+  it('drops stop words and short tokens and folds plurals', () => {
+    expect(tokenize('The neurons and their synapses, in 3 studies')).toEqual(['neuron', 'synapse', 'study']);
+  });
+});
+
+describe('SemanticEmbeddingService neighbours', () => {
+  const service = SemanticEmbeddingService.getInstance();
+
+  beforeEach(() => service.setEmbedder(null));
+
+  it('ranks documents on the same topic first', async () => {
+    await service.sync([...biology, ...history]);
+
+    const near = service.neighbours('bio_1', { minSimilarity: 0 });
+    expect(near[0]!.id).toBe('bio_2');
+    expect(near.slice(0, 2).map((match) => match.id)).toEqual(expect.arrayContaining(['bio_2', 'bio_3']));
+    expect(near.map((match) => match.id)).not.toContain('bio_1');
+
+    const proposals = service.proposeSimilarityLinks(['hist_1', 'hist_2'], { minSimilarity: 0.2 });
+    expect(proposals).toEqual(
+      expect.arrayContaining([expect.objectContaining({ sourceId: 'hist_1', targetId: 'hist_2' })]),
+    );
+    for (const proposal of proposals) {
+      expect([proposal.sourceId, proposal.targetId]).toEqual([expect.stringMatching(/^hist_/), expect.stringMatching(/^hist_/)]);
+    }
+  });
+
+  it('finds near duplicates through the LSH index on large corpora', async () => {
+    await service.sync([...biology, ...history, ...filler(600)]);
+
+    expect(service.hasDocument('filler_599')).toBe(true);
+    expect(service.neighbours('bio_1').map((match) => match.id)).toContain('bio_2');
+    expect(service.neighbours('hist_1').map((match) => match.id)).toContain('hist_3');
+  });
+
+  it('embeds edited documents and drops removed ones on sync', async () => {
+    await service.sync([...biology, ...history]);
+    const version = service.getModelVersion();
+
+    await service.sync([...biology.slice(0, 2), doc('bio_3', 'Mitochondria turn glucose into ATP'), ...history]);
+    expect(service.getModelVersion()).toBe(version);
+    expect(service.neighbours('bio_3', { minSimilarity: 0 })[0]!.id).toMatch(/^bio_/);
+
+    await service.sync(biology);
+    expect(service.hasDocument('hist_1')).toBe(false);
+  });
+});
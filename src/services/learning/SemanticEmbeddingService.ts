@@ -0,0 +1,707 @@
+/**
+ * SemanticEmbeddingService - Local text embeddings for similarity and search
+ *
+ * Embeds flashcard fronts, logic premises and reading concepts on the device,
+ * without any network calls:
+ * - Default embedder: TF-IDF vectors projected onto latent topics (LSA via a
+ *   randomized truncated SVD). New content is folded into the fitted space;
+ *   the space is refitted once the corpus has grown or shrunk by a quarter.
+ * - A small on-device model can be plugged in with setEmbedder()
+ * - Vectors live in a random-hyperplane LSH index for approximate nearest
+ *   neighbour lookups; candidates are re-ranked by exact cosine similarity
+ *
+ * MindMapGenerator turns neighbour pairs into 'similarity' links.
+ */
+
+import StorageService from '../storage/StorageService';
+import { EventSystem, EVENT_TYPES } from '../../core/EventSystem';
+import { Flashcard, LogicNode } from '../../types';
+import { ReadingSession } from './SpeedReadingService';
+
+export type EmbeddingSourceKind = 'flashcard' | 'logic' | 'reading';
+
+export interface EmbeddingDocument {
+  id: string; // Neural map node id, e.g. flashcard_<cardId>
+  kind: EmbeddingSourceKind;
+  sourceId: string;
+  title: string;
+  text: string;
+}
+
+export interface TextEmbedder {
+  readonly id: string;
+  // Corpus-dependent embedders (LSA) learn their space here; models skip it
+  fit?(corpus: string[]): Promise<void> | void;
+  embed(texts: string[]): Promise<number[][]> | number[][];
+}
+
+export interface SimilarityLinkProposal {
+  sourceId: string;
+  targetId: string;
+  similarity: number; // Cosine similarity, 0-1
+  confidence: number;
+}
+
+export interface SimilarityOptions {
+  minSimilarity?: number;
+  maxPerDocument?: number;
+}
+
+export interface SemanticSearchResult {
+  document: EmbeddingDocument;
+  score: number;
+}
+
+const LSA_DIMENSIONS = 64;
+const LSA_OVERSAMPLING = 8;
+const MAX_VOCABULARY = 4000;
+const REFIT_GROWTH = 0.25;
+
+const LSH_TABLES = 6;
+const LSH_BITS = 10;
+const EXACT_SCAN_LIMIT = 500; // Below this, scanning every vector is cheap enough
+
+const DEFAULT_MIN_SIMILARITY = 0.45;
+const DEFAULT_MAX_LINKS_PER_DOCUMENT = 5;
+const MIN_SEARCH_SCORE = 0.15;
+
+const STOP_WORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'all', 'also', 'and', 'any', 'are', 'because',
+  'been', 'before', 'being', 'between', 'both', 'but', 'can', 'could', 'did', 'does', 'doing',
+  'down', 'during', 'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having',
+  'her', 'here', 'hers', 'him', 'his', 'how', 'however', 'into', 'its', 'itself', 'just', 'more',
+  'most', 'not', 'now', 'off', 'once', 'only', 'other', 'our', 'ours', 'out', 'over', 'own',
+  'same', 'she', 'should', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until', 'very', 'was',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+  'within', 'without', 'would', 'you', 'your', 'yours',
+]);
+
+export class SemanticEmbeddingService {
+  private static instance: SemanticEmbeddingService;
+  private storage: StorageService;
+
+  private defaultEmbedder = new LsaEmbedder();
+  private embedder: TextEmbedder = this.defaultEmbedder;
+  private documents = new Map<string, EmbeddingDocument>();
+  private vectors = new Map<string, Float32Array>(); // Unit length
+  private index: LshIndex | null = null;
+  private fittedCount = 0;
+  private modelVersion = 0;
+
+  private pending: Promise<unknown> = Promise.resolve();
+  private synced = false;
+  private stale = false;
+
+  private constructor() {
+    this.storage = StorageService.getInstance();
+
+    EventSystem.getInstance().subscribe(EVENT_TYPES.LEARNING_DATA_CHANGED, () => {
+      this.stale = true;
+    });
+  }
+
+  public static getInstance(): SemanticEmbeddingService {
+    if (!SemanticEmbeddingService.instance) {
+      SemanticEmbeddingService.instance = new SemanticEmbeddingService();
+    }
+    return SemanticEmbeddingService.instance;
+  }
+
+  /**
+   * Use an on-device model instead of LSA (null restores LSA). Everything is
+   * re-embedded on the next sync.
+   */
+  setEmbedder(embedder: TextEmbedder | null): void {
+    this.embedder = embedder ?? this.defaultEmbedder;
+    this.vectors.clear();
+    this.index = null;
+    this.fittedCount = 0;
+    this.modelVersion++;
+  }
+
+  /**
+   * Bumped whenever existing vectors move (refit or new embedder), which
+   * invalidates every similarity computed before
+   */
+  getModelVersion(): number {
+    return this.modelVersion;
+  }
+
+  hasDocument(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  /**
+   * The texts that get embedded for each learning source
+   */
+  buildDocuments(
+    flashcards: Flashcard[],
+    logicNodes: LogicNode[],
+    readingSessions: ReadingSession[],
+  ): EmbeddingDocument[] {
+    const documents: EmbeddingDocument[] = [];
+
+    flashcards.forEach((card) => {
+      if (!card?.id || !card.front?.trim()) return;
+      documents.push({
+        id: `flashcard_${card.id}`,
+        kind: 'flashcard',
+        sourceId: card.id,
+        title: card.front,
+        text: card.front,
+      });
+    });
+
+    logicNodes.forEach((logic) => {
+      const premises = [logic?.premise1, logic?.premise2].filter(Boolean).join(' ');
+      if (!logic?.id || !premises.trim()) return;
+      documents.push({
+        id: `logic_${logic.id}`,
+        kind: 'logic',
+        sourceId: logic.id,
+        title: logic.question || premises,
+        text: premises,
+      });
+    });
+
+    readingSessions.forEach((session) => {
+      const concepts = (session?.conceptsIdentified ?? []).join(' ');
+      if (!session?.id || !concepts.trim()) return;
+      documents.push({
+        id: `reading_${session.id}`,
+        kind: 'reading',
+        sourceId: session.id,
+        title: session.textTitle || concepts,
+        text: concepts,
+      });
+    });
+
+    return documents;
+  }
+
+  /**
+   * Bring the index in line with the given documents. Only new and edited
+   * documents are embedded unless the embedding space has to be refitted.
+   * Returns the model version after the sync.
+   */
+  async sync(documents: EmbeddingDocument[]): Promise<number> {
+    const run = this.pending.then(() => this.applySync(documents));
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Most similar documents to an indexed one, best first
+   */
+  neighbours(id: string, options: SimilarityOptions = {}): Array<{ id: string; similarity: number }> {
+    const vector = this.vectors.get(id);
+    if (!vector) return [];
+
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    const limit = options.maxPerDocument ?? DEFAULT_MAX_LINKS_PER_DOCUMENT;
+    return this.nearest(vector, limit + 1)
+      .filter((match) => match.id !== id && match.score >= minSimilarity)
+      .slice(0, limit)
+      .map((match) => ({ id: match.id, similarity: match.score }));
+  }
+
+  /**
+   * Similarity links between each given document (default: all) and its
+   * nearest neighbours. Pairs are reported once, with the lower id first.
+   */
+  proposeSimilarityLinks(ids?: Iterable<string>, options: SimilarityOptions = {}): SimilarityLinkProposal[] {
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    const proposals = new Map<string, SimilarityLinkProposal>();
+
+    for (const id of Array.from(ids ?? this.vectors.keys())) {
+      for (const neighbour of this.neighbours(id, options)) {
+        const [sourceId, targetId] = id < neighbour.id ? [id, neighbour.id] : [neighbour.id, id];
+        const key = `${sourceId}|${targetId}`;
+        if (proposals.has(key)) continue;
+
+        const similarity = Math.round(neighbour.similarity * 1000) / 1000;
+        proposals.set(key, {
+          sourceId,
+          targetId,
+          similarity,
+          confidence: Math.min(0.95, 0.4 + ((similarity - minSimilarity) / (1 - minSimilarity)) * 0.55),
+        });
+      }
+    }
+
+    return Array.from(proposals.values());
+  }
+
+  /**
+   * Semantic search over flashcards, logic nodes and reading sessions
+   */
+  async search(query: string, limit = 10): Promise<SemanticSearchResult[]> {
+    if (!query.trim()) return [];
+
+    try {
+      await this.ensureIndexed();
+      const [raw] = await this.embedder.embed([query]);
+      const vector = raw ? this.normalize(raw) : null;
+      if (!vector) return [];
+
+      return this.nearest(vector, limit)
+        .filter((match) => match.score >= MIN_SEARCH_SCORE)
+        .map((match) => ({ document: this.documents.get(match.id)!, score: match.score }))
+        .filter((result) => !!result.document);
+    } catch (error) {
+      console.error('Error running semantic search:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Cosine similarity of two free texts in the current embedding space, or
+   * null when either text has no known terms
+   */
+  async textSimilarity(a: string, b: string): Promise<number | null> {
+    if (!a.trim() || !b.trim()) return null;
+
+    try {
+      await this.ensureIndexed();
+      const [rawA, rawB] = await this.embedder.embed([a, b]);
+      const vectorA = rawA ? this.normalize(rawA) : null;
+      const vectorB = rawB ? this.normalize(rawB) : null;
+      return vectorA && vectorB ? this.dot(vectorA, vectorB) : null;
+    } catch (error) {
+      console.error('Error comparing texts:', error);
+      return null;
+    }
+  }
+
+  // ==================== INDEXING ====================
+
+  private async ensureIndexed(): Promise<void> {
+    if (this.synced && !this.stale) return;
+
+    const [flashcards, logicNodes, readingSessions] = await Promise.all([
+      this.storage.getFlashcards(),
+      this.storage.getLogicNodes(),
+      this.storage.getReadingSessions(),
+    ]);
+    this.stale = false;
+    await this.sync(this.buildDocuments(flashcards as Flashcard[], logicNodes, readingSessions));
+  }
+
+  private async applySync(documents: EmbeddingDocument[]): Promise<number> {
+    const next = new Map(documents.map((document) => [document.id, document]));
+
+    for (const id of Array.from(this.vectors.keys())) {
+      if (!next.has(id)) {
+        this.index?.remove(id);
+        this.vectors.delete(id);
+      }
+    }
+
+    const changed = documents.filter(
+      (document) =>
+        !this.vectors.has(document.id) || this.documents.get(document.id)?.text !== document.text,
+    );
+    this.documents = next;
+    this.synced = true;
+
+    const drift = Math.abs(next.size - this.fittedCount);
+    if (this.embedder.fit && (this.fittedCount === 0 || drift > this.fittedCount * REFIT_GROWTH)) {
+      await this.embedder.fit(documents.map((document) => document.text));
+      this.fittedCount = next.size;
+      this.modelVersion++;
+      this.vectors.clear();
+      this.index = null;
+      await this.embedDocuments(documents);
+      console.log(`🧬 Embedding space fitted on ${next.size} documents (${this.embedder.id})`);
+    } else if (changed.length > 0) {
+      await this.embedDocuments(changed);
+    }
+
+    return this.modelVersion;
+  }
+
+  private async embedDocuments(documents: EmbeddingDocument[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    const embedded = await this.embedder.embed(documents.map((document) => document.text));
+    documents.forEach((document, i) => {
+      const vector = embedded[i] ? this.normalize(embedded[i]!) : null;
+      this.index?.remove(document.id);
+      if (!vector) {
+        // Nothing the embedder recognises; keep it out of the index
+        this.vectors.delete(document.id);
+        return;
+      }
+
+      if (!this.index || this.index.dimensions !== vector.length) {
+        this.index = new LshIndex(vector.length);
+        this.vectors.forEach((existing, id) => this.index!.add(id, existing));
+      }
+      this.vectors.set(document.id, vector);
+      this.index.add(document.id, vector);
+    });
+  }
+
+  private nearest(vector: Float32Array, limit: number): Array<{ id: string; score: number }> {
+    const ids =
+      this.vectors.size <= EXACT_SCAN_LIMIT || !this.index
+        ? Array.from(this.vectors.keys())
+        : this.index.candidates(vector);
+
+    const matches: Array<{ id: string; score: number }> = [];
+    for (const id of ids) {
+      const other = this.vectors.get(id);
+      if (!other || other.length !== vector.length) continue;
+      matches.push({ id, score: this.dot(vector, other) });
+    }
+
+    matches.sort((a, b) => b.score - a.score);
+    return matches.slice(0, limit);
+  }
+
+  // ==================== HELPERS ====================
+
+  private normalize(values: number[] | Float32Array): Float32Array | null {
+    let norm = 0;
+    for (let i = 0; i < values.length; i++) norm += values[i]! * values[i]!;
+    norm = Math.sqrt(norm);
+    if (!Number.isFinite(norm) || norm < 1e-9) return null;
+
+    const vector = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i++) vector[i] = values[i]! / norm;
+    return vector;
+  }
+
+  private dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i]! * b[i]!;
+    return sum;
+  }
+}
+
+// ==================== LSA EMBEDDER ====================
+
+/**
+ * TF-IDF + truncated SVD. fit() learns the vocabulary, idf weights and a
+ * term -> topic projection; embed() folds any text into that topic space.
+ */
+class LsaEmbedder implements TextEmbedder {
+  readonly id = 'lsa';
+
+  private vocabulary = new Map<string, number>();
+  private idf = new Float64Array(0);
+  private projection = new Float64Array(0); // terms x dimensions, row-major
+  private dimensions = 0;
+
+  fit(corpus: string[]): void {
+    const tokenized = corpus.map(tokenize);
+
+    // Vocabulary: most widespread terms; single-use terms only for tiny corpora
+    const documentFrequency = new Map<string, number>();
+    tokenized.forEach((tokens) => {
+      new Set(tokens).forEach((term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    });
+    const minFrequency = corpus.length >= 20 ? 2 : 1;
+    const terms = Array.from(documentFrequency.entries())
+      .filter(([, frequency]) => frequency >= minFrequency)
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+      .slice(0, MAX_VOCABULARY)
+      .map(([term]) => term);
+
+    this.vocabulary = new Map(terms.map((term, i) => [term, i]));
+    this.idf = new Float64Array(terms.length);
+    terms.forEach((term, i) => {
+      this.idf[i] = Math.log((1 + corpus.length) / (1 + documentFrequency.get(term)!)) + 1;
+    });
+
+    const rows = tokenized.map((tokens) => this.weigh(tokens)).filter((row) => row.size > 0);
+    const rank = Math.min(LSA_DIMENSIONS + LSA_OVERSAMPLING, rows.length, terms.length);
+    if (rank === 0) {
+      this.projection = new Float64Array(0);
+      this.dimensions = 0;
+      return;
+    }
+
+    const termCount = terms.length;
+    const random = seededRandom(0x5eed);
+
+    // Range finder with one power iteration: Q spans the top document directions
+    let omega: Float64Array = new Float64Array(termCount * rank);
+    for (let i = 0; i < omega.length; i++) omega[i] = gaussian(random);
+    let q = orthonormalize(multiply(rows, omega, rank), rows.length, rank);
+    omega = orthonormalize(multiplyTransposed(rows, q, termCount, rank), termCount, rank);
+    q = orthonormalize(multiply(rows, omega, rank), rows.length, rank);
+
+    // Bt = A^T Q (terms x rank); B B^T = Bt^T Bt is small enough to diagonalise
+    const bt = multiplyTransposed(rows, q, termCount, rank);
+    const gram = new Float64Array(rank * rank);
+    for (let t = 0; t < termCount; t++) {
+      for (let i = 0; i < rank; i++) {
+        const value = bt[t * rank + i]!;
+        if (value === 0) continue;
+        for (let j = i; j < rank; j++) gram[i * rank + j] = gram[i * rank + j]! + value * bt[t * rank + j]!;
+      }
+    }
+    for (let i = 0; i < rank; i++) {
+      for (let j = 0; j < i; j++) gram[i * rank + j] = gram[j * rank + i]!;
+    }
+
+    const { values, vectors } = symmetricEigen(gram, rank);
+    const order = Array.from(values.keys())
+      .filter((i) => values[i]! > 1e-10)
+      .sort((a, b) => values[b]! - values[a]!)
+      .slice(0, LSA_DIMENSIONS);
+
+    // Projection P = Bt W S^-1, so a document row a maps to its U S coordinates
+    this.dimensions = order.length;
+    this.projection = new Float64Array(termCount * this.dimensions);
+    order.forEach((component, k) => {
+      const inverseSigma = 1 / Math.sqrt(values[component]!);
+      for (let t = 0; t < termCount; t++) {
+        let sum = 0;
+        for (let i = 0; i < rank; i++) sum += bt[t * rank + i]! * vectors[i * rank + component]!;
+        this.projection[t * this.dimensions + k] = sum * inverseSigma;
+      }
+    });
+  }
+
+  embed(texts: string[]): number[][] {
+    return texts.map((text) => {
+      const vector = new Array<number>(this.dimensions).fill(0);
+      this.weigh(tokenize(text)).forEach((weight, term) => {
+        for (let k = 0; k < this.dimensions; k++) {
+          vector[k] = vector[k]! + weight * this.projection[term * this.dimensions + k]!;
+        }
+      });
+      return vector;
+    });
+  }
+
+  /**
+   * Sublinear tf * idf, L2-normalised, keyed by vocabulary index
+   */
+  private weigh(tokens: string[]): Map<number, number> {
+    const counts = new Map<number, number>();
+    tokens.forEach((token) => {
+      const term = this.vocabulary.get(token);
+      if (term !== undefined) counts.set(term, (counts.get(term) ?? 0) + 1);
+    });
+
+    let norm = 0;
+    counts.forEach((count, term) => {
+      const weight = (1 + Math.log(count)) * this.idf[term]!;
+      counts.set(term, weight);
+      norm += weight * weight;
+    });
+    norm = Math.sqrt(norm);
+    if (norm > 0) counts.forEach((weight, term) => counts.set(term, weight / norm));
+    return counts;
+  }
+}
+
+// ==================== LSH INDEX ====================
+
+/**
+ * Random-hyperplane LSH: vectors pointing the same way share buckets.
+ * Lookups also probe the buckets one bit away to improve recall.
+ */
+class LshIndex {
+  private planes: Float32Array[][]; // [table][bit] -> hyperplane normal
+  private tables: Array<Map<number, Set<string>>>;
+  private keys = new Map<string, number[]>();
+
+  constructor(readonly dimensions: number) {
+    const random = seededRandom(0x1d5 + dimensions);
+    this.planes = Array.from({ length: LSH_TABLES }, () =>
+      Array.from({ length: LSH_BITS }, () => {
+        const plane = new Float32Array(dimensions);
+        for (let i = 0; i < dimensions; i++) plane[i] = gaussian(random);
+        return plane;
+      }),
+    );
+    this.tables = Array.from({ length: LSH_TABLES }, () => new Map());
+  }
+
+  add(id: string, vector: Float32Array): void {
+    this.remove(id);
+    const keys = this.planes.map((planes) => this.hash(planes, vector));
+    keys.forEach((key, table) => {
+      const bucket = this.tables[table]!.get(key) ?? new Set<string>();
+      bucket.add(id);
+      this.tables[table]!.set(key, bucket);
+    });
+    this.keys.set(id, keys);
+  }
+
+  remove(id: string): void {
+    const keys = this.keys.get(id);
+    if (!keys) return;
+    keys.forEach((key, table) => {
+      const bucket = this.tables[table]!.get(key);
+      bucket?.delete(id);
+      if (bucket && bucket.size === 0) this.tables[table]!.delete(key);
+    });
+    this.keys.delete(id);
+  }
+
+  candidates(vector: Float32Array): string[] {
+    const found = new Set<string>();
+    this.planes.forEach((planes, table) => {
+      const key = this.hash(planes, vector);
+      const buckets = this.tables[table]!;
+      buckets.get(key)?.forEach((id) => found.add(id));
+      for (let bit = 0; bit < LSH_BITS; bit++) {
+        buckets.get(key ^ (1 << bit))?.forEach((id) => found.add(id));
+      }
+    });
+    return Array.from(found);
+  }
+
+  private hash(planes: Float32Array[], vector: Float32Array): number {
+    let key = 0;
+    planes.forEach((plane, bit) => {
+      let side = 0;
+      for (let i = 0; i < vector.length; i++) side += plane[i]! * vector[i]!;
+      if (side >= 0) key |= 1 << bit;
+    });
+    return key;
+  }
+}
+
+// ==================== MATH HELPERS ====================
+
+export function tokenize(text: string): string[] {
+  const words: string[] = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words
+    .filter((token) => token.length >= 3 && !STOP_WORDS.has(token))
+    .map((token) => {
+      // Light plural folding so "neurons" and "neuron" share a term
+      if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+      if (token.length > 4 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+      return token;
+    });
+}
+
+/**
+ * Sparse rows (documents x terms) times a dense terms x cols matrix
+ */
+function multiply(rows: Array<Map<number, number>>, dense: Float64Array, cols: number): Float64Array {
+  const result = new Float64Array(rows.length * cols);
+  rows.forEach((row, r) => {
+    row.forEach((value, term) => {
+      for (let c = 0; c < cols; c++) result[r * cols + c] = result[r * cols + c]! + value * dense[term * cols + c]!;
+    });
+  });
+  return result;
+}
+
+/**
+ * Transposed sparse rows (terms x documents) times a dense documents x cols matrix
+ */
+function multiplyTransposed(
+  rows: Array<Map<number, number>>,
+  dense: Float64Array,
+  termCount: number,
+  cols: number,
+): Float64Array {
+  const result = new Float64Array(termCount * cols);
+  rows.forEach((row, r) => {
+    row.forEach((value, term) => {
+      for (let c = 0; c < cols; c++) result[term * cols + c] = result[term * cols + c]! + value * dense[r * cols + c]!;
+    });
+  });
+  return result;
+}
+
+/**
+ * Modified Gram-Schmidt on the columns of a rows x cols matrix
+ */
+function orthonormalize(matrix: Float64Array, rowCount: number, cols: number): Float64Array {
+  for (let c = 0; c < cols; c++) {
+    for (let p = 0; p < c; p++) {
+      let projection = 0;
+      for (let r = 0; r < rowCount; r++) projection += matrix[r * cols + c]! * matrix[r * cols + p]!;
+      for (let r = 0; r < rowCount; r++) matrix[r * cols + c] = matrix[r * cols + c]! - projection * matrix[r * cols + p]!;
+    }
+    let norm = 0;
+    for (let r = 0; r < rowCount; r++) norm += matrix[r * cols + c]! ** 2;
+    norm = Math.sqrt(norm);
+    for (let r = 0; r < rowCount; r++) {
+      matrix[r * cols + c] = norm > 1e-12 ? matrix[r * cols + c]! / norm : 0;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Cyclic Jacobi eigen decomposition of a small symmetric matrix.
+ * Eigenvectors are the columns of `vectors`.
+ */
+function symmetricEigen(input: Float64Array, n: number): { values: number[]; vectors: Float64Array } {
+  const a = Float64Array.from(input);
+  const vectors = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) vectors[i * n + i] = 1;
+
+  for (let sweep = 0; sweep < 60; sweep++) {
+    let offDiagonal = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) offDiagonal += a[i * n + j]! ** 2;
+    }
+    if (offDiagonal < 1e-18) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p * n + q]!;
+        if (Math.abs(apq) < 1e-15) continue;
+
+        const theta = (a[q * n + q]! - a[p * n + p]!) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k * n + p]!;
+          const akq = a[k * n + q]!;
+          a[k * n + p] = c * akp - s * akq;
+          a[k * n + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p * n + k]!;
+          const aqk = a[q * n + k]!;
+          a[p * n + k] = c * apk - s * aqk;
+          a[q * n + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = vectors[k * n + p]!;
+          const vkq = vectors[k * n + q]!;
+          vectors[k * n + p] = c * vkp - s * vkq;
+          vectors[k * n + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: Array.from({ length: n }, (_, i) => a[i * n + i]!), vectors };
+}
+
+/**
+ * mulberry32, so fitted spaces and LSH buckets are reproducible
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+export default SemanticEmbeddingService;
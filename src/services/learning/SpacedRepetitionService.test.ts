@@ -0,0 +1,59 @@
+import { CardState, FSRSReviewLog, Rating, SpacedRepetitionService } from './SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+const logs: FSRSReviewLog[] = [];
+const flashcards: Partial<Flashcard>[] = [];
+
+jest.mock('../storage/StorageService', () => ({
+  __esModule: true,
+  default: {
+    getInstance: () => ({
+      getReviewLogs: async () => logs,
+      getFlashcards: async () => flashcards,
+    }),
+  },
+}));
+
+const review = (cardId: string, hour: number, recalled: boolean, day: number): FSRSReviewLog => ({
+  card_id: cardId,
+  rating: recalled ? Rating.Good : Rating.Again,
+  state: CardState.Review,
+  elapsed_days: 3,
+  scheduled_days: 3,
+  review: new Date(2026, 9, day, hour, 15),
+});
+
+describe('SpacedRepetitionService.analyzeLearningPatterns', () => {
+  const srs = SpacedRepetitionService.getInstance();
+
+  beforeAll(() => {
+    flashcards.push(
+      { id: 'bio_1', category: 'biology', created: new Date(2026, 8, 1) },
+      { id: 'chem_1', category: 'chemistry', created: new Date(2026, 8, 1) },
+    );
+    // Biology is recalled in the morning, chemistry keeps slipping in the evening
+    for (let day = 1; day <= 10; day++) {
+      logs.push(review('bio_1', 9, true, day));
+      logs.push(review('chem_1', 20, day % 2 === 0, day));
+    }
+  });
+
+  it('reads the review-log store and reports retention against the target', async () => {
+    const analysis = await srs.analyzeLearningPatterns([]);
+
+    expect(analysis.averageRetention).toBeCloseTo(15 / 20);
+    expect(analysis.difficultCardTypes).toEqual(['chemistry']);
+    expect(analysis.optimalStudyTimes).toEqual(['Morning (9-10 AM)', 'Evening (8-9 PM)']);
+    expect(analysis.suggestionForImprovement).toMatch(/understanding concepts/);
+  });
+
+  it('uses logs passed in instead of the store', async () => {
+    const analysis = await srs.analyzeLearningPatterns(
+      [],
+      logs.filter((entry) => entry.card_id === 'bio_1'),
+    );
+
+    expect(analysis.averageRetention).toBe(1);
+    expect(analysis.difficultCardTypes).toEqual([]);
+  });
+});
@@ -15,9 +15,11 @@ export interface FSRSCard {
   lapses: number;
   state: CardState;
   last_review?: Date;
+  deck?: string; // Deck path, e.g. 'CS::Algorithms::Graphs'
 }
 
 export interface FSRSReviewLog {
+  card_id?: string;
   rating: Rating;
   elapsed_days: number;
   scheduled_days: number;
@@ -39,7 +41,20 @@ export enum Rating {
   Easy = 4, // Perfect recall, increase interval significantly
 }
 
-interface FSRSParameters {
+/**
+ * Generic FSRS weights shipped with the app. Used until a personalized
+ * vector has been fitted from the user's own review history.
+ */
+export const DEFAULT_FSRS_WEIGHTS: readonly number[] = [
+  0.4072, 1.1829, 3.1262, 15.4722, 7.2102, 0.5316, 1.0651, 0.0234, 1.616,
+  0.1544, 1.0824, 1.9813, 0.0953, 0.2975, 2.2042, 0.2407, 2.9466, 0.5034,
+  0.6567,
+];
+
+/** Separator between levels of a deck path */
+export const DECK_SEPARATOR = '::';
+
+export interface FSRSParameters {
   w: number[]; // 19 FSRS algorithm weights
   requestRetention: number; // Target retention rate (0.9 = 90%)
   maximumInterval: number; // Max days between reviews
@@ -47,6 +62,55 @@ interface FSRSParameters {
   hardInterval: number; // Interval multiplier for hard responses
 }
 
+/**
+ * Per-deck scheduling preset values that override the global parameters
+ */
+export type SchedulingOverrides = Partial<
+  Pick<FSRSParameters, 'requestRetention' | 'maximumInterval'>
+>;
+
+/**
+ * Existing workload used to spread new due dates. Day keys are local
+ * calendar dates from toDayKey().
+ */
+export interface LoadBalanceContext {
+  dueLoad: ReadonlyMap<string, number>;
+  isBlocked?: (dayKey: string) => boolean; // e.g. vacation days
+  fuzz?: boolean; // Random tie-breaking between equally loaded days (default true)
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export interface DeckDailyLimits {
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+}
+
+/**
+ * Daily limits for getCardsDueToday. Limits apply to every level of a deck
+ * path, so a parent's limit caps the sum of its children.
+ */
+export interface DeckDueLimits {
+  getLimits: (deckPath: string) => DeckDailyLimits;
+  // Cards already studied today, keyed by the card's own (leaf) deck path;
+  // cardIds and day (local YYYY-MM-DD) let callers count each card once a day
+  studiedToday?: Record<string, { newCards: number; reviews: number; cardIds?: string[]; day?: string }>;
+}
+
+export interface LearningPatternAnalysis {
+  averageRetention: number; // True retention, or raw recall while cards are still learning
+  difficultCardTypes: string[];
+  optimalStudyTimes: string[];
+  suggestionForImprovement: string;
+}
+
 /**
  * Enhanced Spaced Repetition Service implementing the FSRS Algorithm
  * Directly addresses weak memory/forgetting with optimal timing predictions
@@ -57,11 +121,7 @@ export class SpacedRepetitionService {
   // FSRS Algorithm Parameters (optimized for cognitive learning)
   private fsrsParams: FSRSParameters = {
     // Optimal weights derived from extensive research data
-    w: [
-      0.4072, 1.1829, 3.1262, 15.4722, 7.2102, 0.5316, 1.0651, 0.0234, 1.616,
-      0.1544, 1.0824, 1.9813, 0.0953, 0.2975, 2.2042, 0.2407, 2.9466, 0.5034,
-      0.6567,
-    ],
+    w: [...DEFAULT_FSRS_WEIGHTS],
     requestRetention: 0.9, // 90% retention target for optimal learning
     maximumInterval: 36500, // 100 years maximum
     easyBonus: 1.3, // 30% bonus for easy recalls
@@ -83,6 +143,8 @@ export class SpacedRepetitionService {
     card: FSRSCard,
     rating: Rating,
     reviewDate: Date = new Date(),
+    overrides: SchedulingOverrides = {},
+    balance?: LoadBalanceContext,
   ): { card: FSRSCard; logs: FSRSReviewLog[] } {
     const elapsed_days = card.last_review
       ? Math.max(
@@ -98,6 +160,7 @@ export class SpacedRepetitionService {
 
     // Create review log entry
     const reviewLog: FSRSReviewLog = {
+      card_id: card.id,
       rating,
       elapsed_days,
       scheduled_days,
@@ -105,6 +168,41 @@ export class SpacedRepetitionService {
       state: card.state,
     };
 
+    const updatedCard = this.applyRating(card, rating, elapsed_days, reviewDate, this.fsrsParams.w, overrides);
+
+    // Spread graduated cards over the fuzz window to flatten daily workload
+    if (balance && updatedCard.state === CardState.Review) {
+      updatedCard.scheduled_days = this.balanceInterval(
+        updatedCard.scheduled_days,
+        reviewDate,
+        balance,
+        overrides.maximumInterval ?? this.fsrsParams.maximumInterval,
+      );
+    }
+
+    // Calculate due date
+    const dueDate = new Date(
+      reviewDate.getTime() + updatedCard.scheduled_days * 24 * 60 * 60 * 1000,
+    );
+    updatedCard.due = dueDate;
+
+    return {
+      card: updatedCard,
+      logs: [reviewLog],
+    };
+  }
+
+  /**
+   * Advance a card's memory state by one rating using the given weights
+   */
+  private applyRating(
+    card: FSRSCard,
+    rating: Rating,
+    elapsed_days: number,
+    reviewDate: Date,
+    w: readonly number[] = this.fsrsParams.w,
+    overrides: SchedulingOverrides = {},
+  ): FSRSCard {
     let updatedCard = { ...card };
     updatedCard.elapsed_days = elapsed_days;
     updatedCard.last_review = reviewDate;
@@ -113,40 +211,36 @@ export class SpacedRepetitionService {
     // FSRS Algorithm Logic based on card state and rating
     switch (card.state) {
       case CardState.New:
-        updatedCard = this.handleNewCard(updatedCard, rating);
+        updatedCard = this.handleNewCard(updatedCard, rating, w, overrides);
         break;
 
       case CardState.Learning:
       case CardState.Relearning:
-        updatedCard = this.handleLearningCard(updatedCard, rating);
+        updatedCard = this.handleLearningCard(updatedCard, rating, w, overrides);
         break;
 
       case CardState.Review:
-        updatedCard = this.handleReviewCard(updatedCard, rating, elapsed_days);
+        updatedCard = this.handleReviewCard(updatedCard, rating, elapsed_days, w, overrides);
         break;
     }
 
-    // Calculate due date
-    const dueDate = new Date(
-      reviewDate.getTime() + updatedCard.scheduled_days * 24 * 60 * 60 * 1000,
-    );
-    updatedCard.due = dueDate;
-
-    return {
-      card: updatedCard,
-      logs: [reviewLog],
-    };
+    return updatedCard;
   }
 
   /**
    * Handle new card scheduling (first time seeing the card)
    */
-  private handleNewCard(card: FSRSCard, rating: Rating): FSRSCard {
+  private handleNewCard(
+    card: FSRSCard,
+    rating: Rating,
+    w: readonly number[] = this.fsrsParams.w,
+    overrides: SchedulingOverrides = {},
+  ): FSRSCard {
     const updatedCard = { ...card };
 
     // Initialize difficulty and stability for new cards
-    updatedCard.difficulty = this.initDifficulty(rating);
-    updatedCard.stability = this.initStability(rating);
+    updatedCard.difficulty = this.initDifficulty(rating, w);
+    updatedCard.stability = this.initStability(rating, w);
 
     switch (rating) {
       case Rating.Again:
@@ -161,13 +255,15 @@ export class SpacedRepetitionService {
         break;
 
       case Rating.Good:
-        updatedCard.scheduled_days = Math.round(updatedCard.stability);
+        updatedCard.scheduled_days = this.nextInterval(updatedCard.stability, 1, overrides);
         updatedCard.state = CardState.Review;
         break;
 
       case Rating.Easy:
-        updatedCard.scheduled_days = Math.round(
-          updatedCard.stability * this.fsrsParams.easyBonus,
+        updatedCard.scheduled_days = this.nextInterval(
+          updatedCard.stability,
+          this.fsrsParams.easyBonus,
+          overrides,
         );
         updatedCard.state = CardState.Review;
         break;
@@ -179,7 +275,12 @@ export class SpacedRepetitionService {
   /**
    * Handle learning/relearning card scheduling
    */
-  private handleLearningCard(card: FSRSCard, rating: Rating): FSRSCard {
+  private handleLearningCard(
+    card: FSRSCard,
+    rating: Rating,
+    w: readonly number[] = this.fsrsParams.w,
+    overrides: SchedulingOverrides = {},
+  ): FSRSCard {
     const updatedCard = { ...card };
 
     switch (rating) {
@@ -198,12 +299,14 @@ export class SpacedRepetitionService {
           rating,
           card.elapsed_days,
           true,
+          w,
         );
         updatedCard.difficulty = this.nextDifficulty(
           updatedCard.difficulty,
           rating,
+          w,
         );
-        updatedCard.scheduled_days = Math.round(updatedCard.stability);
+        updatedCard.scheduled_days = this.nextInterval(updatedCard.stability, 1, overrides);
         updatedCard.state = CardState.Review;
         break;
 
@@ -213,13 +316,17 @@ export class SpacedRepetitionService {
           rating,
           card.elapsed_days,
           true,
+          w,
         );
         updatedCard.difficulty = this.nextDifficulty(
           updatedCard.difficulty,
           rating,
+          w,
         );
-        updatedCard.scheduled_days = Math.round(
-          updatedCard.stability * this.fsrsParams.easyBonus,
+        updatedCard.scheduled_days = this.nextInterval(
+          updatedCard.stability,
+          this.fsrsParams.easyBonus,
+          overrides,
         );
         updatedCard.state = CardState.Review;
         break;
@@ -235,6 +342,8 @@ export class SpacedRepetitionService {
     card: FSRSCard,
     rating: Rating,
     elapsed_days: number,
+    w: readonly number[] = this.fsrsParams.w,
+    overrides: SchedulingOverrides = {},
   ): FSRSCard {
     const updatedCard = { ...card };
 
@@ -254,24 +363,27 @@ export class SpacedRepetitionService {
         rating,
         elapsed_days,
         false,
+        w,
       );
       updatedCard.difficulty = this.nextDifficulty(
         updatedCard.difficulty,
         rating,
+        w,
       );
 
       // Calculate next interval based on updated stability
-      let interval = updatedCard.stability;
+      let multiplier = 1;
 
       if (rating === Rating.Hard) {
-        interval *= this.fsrsParams.hardInterval;
+        multiplier = this.fsrsParams.hardInterval;
       } else if (rating === Rating.Easy) {
-        interval *= this.fsrsParams.easyBonus;
+        multiplier = this.fsrsParams.easyBonus;
       }
 
-      updatedCard.scheduled_days = Math.min(
-        Math.round(interval),
-        this.fsrsParams.maximumInterval,
+      updatedCard.scheduled_days = this.nextInterval(
+        updatedCard.stability,
+        multiplier,
+        overrides,
       );
     }
 
@@ -281,8 +393,10 @@ export class SpacedRepetitionService {
   /**
    * Initialize difficulty for new cards based on first rating
    */
-  private initDifficulty(rating: Rating): number {
-    const w = this.fsrsParams.w || [];
+  private initDifficulty(
+    rating: Rating,
+    w: readonly number[] = this.fsrsParams.w || [],
+  ): number {
     const w4 = typeof w[4] === 'number' ? w[4] : 1;
     const w5 = typeof w[5] === 'number' ? w[5] : 0;
     return Math.max(1, Math.min(10, w4 - Math.exp(w5 * (rating - 1)) + 1));
@@ -291,8 +405,10 @@ export class SpacedRepetitionService {
   /**
    * Initialize stability for new cards based on first rating
    */
-  private initStability(rating: Rating): number {
-    const w = this.fsrsParams.w || [];
+  private initStability(
+    rating: Rating,
+    w: readonly number[] = this.fsrsParams.w || [],
+  ): number {
     const val = w[rating - 1] ?? 1;
     return Math.max(0.1, val);
   }
@@ -300,8 +416,11 @@ export class SpacedRepetitionService {
   /**
    * Calculate next difficulty based on current difficulty and rating
    */
-  private nextDifficulty(currentDifficulty: number, rating: Rating): number {
-    const w = this.fsrsParams.w || [];
+  private nextDifficulty(
+    currentDifficulty: number,
+    rating: Rating,
+    w: readonly number[] = this.fsrsParams.w || [],
+  ): number {
     const w6 = typeof w[6] === 'number' ? w[6] : 0;
     const delta = -w6 * (rating - 3);
     const nextDifficulty = currentDifficulty + delta;
@@ -318,8 +437,8 @@ export class SpacedRepetitionService {
     rating: Rating,
     elapsed_days: number,
     isNewGraduation: boolean,
+    w: readonly number[] = this.fsrsParams.w || [],
   ): number {
-    const w = this.fsrsParams.w || [];
     const difficulty = typeof card.difficulty === 'number' ? card.difficulty : 5;
     const stability = typeof card.stability === 'number' ? card.stability : 1;
 
@@ -363,7 +482,9 @@ export class SpacedRepetitionService {
           Math.exp(w14 * (1 - retrievability));
       } else {
         const factor = rating - 3 + w16 * (rating === Rating.Easy ? 1 : 0);
-        const powBase = Math.max(-100, retrievability - w17);
+        // A negative base with a fractional exponent is NaN, which would poison
+        // stability (and every optimizer pass replaying this history)
+        const powBase = Math.max(0, retrievability - w17);
         newStability =
           stability *
           Math.exp(
@@ -375,6 +496,106 @@ export class SpacedRepetitionService {
     }
   }
 
+  /**
+   * Interval in days for a stability at the requested retention. Uses the
+   * FSRS power forgetting curve, so at 90% retention the interval equals the
+   * stability and lower targets stretch it.
+   */
+  private nextInterval(
+    stability: number,
+    multiplier: number,
+    overrides: SchedulingOverrides = {},
+  ): number {
+    const requestRetention = overrides.requestRetention ?? this.fsrsParams.requestRetention;
+    const maximumInterval = overrides.maximumInterval ?? this.fsrsParams.maximumInterval;
+    const decay = -0.5;
+    const factor = Math.pow(0.9, 1 / decay) - 1;
+    const retentionScale = (Math.pow(requestRetention, 1 / decay) - 1) / factor;
+
+    return Math.min(
+      Math.round(stability * retentionScale * multiplier),
+      maximumInterval,
+    );
+  }
+
+  /**
+   * Acceptable [min, max] interval around a scheduled interval, using the
+   * FSRS fuzz factors (wider windows for longer intervals). Intervals under
+   * 2.5 days are not fuzzed.
+   */
+  public getFuzzRange(
+    interval: number,
+    maximumInterval: number = this.fsrsParams.maximumInterval,
+  ): [number, number] {
+    if (interval < 2.5) return [interval, interval];
+
+    const ranges: ReadonlyArray<readonly [number, number, number]> = [
+      [2.5, 7, 0.15],
+      [7, 20, 0.1],
+      [20, Infinity, 0.05],
+    ];
+    let delta = 1;
+    for (const [start, end, factor] of ranges) {
+      delta += factor * Math.max(Math.min(interval, end) - start, 0);
+    }
+
+    const max = Math.min(Math.round(interval + delta), maximumInterval);
+    const min = Math.min(Math.max(2, Math.round(interval - delta)), max);
+    return [min, max];
+  }
+
+  /**
+   * Pick the least-loaded, non-blocked day within the fuzz window. Closeness
+   * to the ideal interval breaks ties; if the whole window is blocked the
+   * nearest open day outside it is used.
+   */
+  private balanceInterval(
+    interval: number,
+    reviewDate: Date,
+    balance: LoadBalanceContext,
+    maximumInterval: number,
+  ): number {
+    if (interval < 2.5) return interval;
+
+    const [min, max] = this.getFuzzRange(interval, maximumInterval);
+    const keyFor = (days: number) =>
+      toDayKey(new Date(reviewDate.getTime() + days * 24 * 60 * 60 * 1000));
+    const isOpen = (days: number) => !balance.isBlocked?.(keyFor(days));
+    const span = max - min + 1;
+
+    let best = -1;
+    let bestScore = Infinity;
+    for (let days = min; days <= max; days++) {
+      if (!isOpen(days)) continue;
+      // Load dominates; distance and fuzz only decide between equal loads
+      const score =
+        (balance.dueLoad.get(keyFor(days)) ?? 0) +
+        (Math.abs(days - interval) / span) * 0.5 +
+        (balance.fuzz === false ? 0 : Math.random() * 0.25);
+      if (score < bestScore) {
+        bestScore = score;
+        best = days;
+      }
+    }
+    if (best >= 0) return best;
+
+    for (let offset = 1; offset <= 366; offset++) {
+      if (min - offset >= 1 && isOpen(min - offset)) return min - offset;
+      if (max + offset <= maximumInterval && isOpen(max + offset)) return max + offset;
+    }
+    return interval;
+  }
+
+  /**
+   * Predicted probability of recall for a card on a given date
+   */
+  public getRetrievability(card: FSRSCard, date: Date = new Date()): number {
+    if (!card.last_review || card.state === CardState.New) return 1;
+    const elapsed_days =
+      (date.getTime() - new Date(card.last_review).getTime()) / (1000 * 60 * 60 * 24);
+    return this.calculateRetention(card.stability, elapsed_days);
+  }
+
   /**
    * Calculate retention probability based on stability and elapsed time
    */
@@ -383,6 +604,88 @@ export class SpacedRepetitionService {
     return Math.exp(-elapsed_days / stability);
   }
 
+  /**
+   * Current scheduling parameters (copy, safe to mutate)
+   */
+  public getParameters(): FSRSParameters {
+    return { ...this.fsrsParams, w: [...this.fsrsParams.w] };
+  }
+
+  /**
+   * Swap in a new weight vector, e.g. one fitted by FSRSOptimizer
+   */
+  public setWeights(w: readonly number[]): void {
+    if (w.length !== DEFAULT_FSRS_WEIGHTS.length || !w.every(Number.isFinite)) {
+      throw new Error(
+        `FSRS weights must be ${DEFAULT_FSRS_WEIGHTS.length} finite numbers`,
+      );
+    }
+    this.fsrsParams.w = [...w];
+  }
+
+  /**
+   * Restore the generic weights shipped with the app
+   */
+  public resetWeights(): void {
+    this.fsrsParams.w = [...DEFAULT_FSRS_WEIGHTS];
+  }
+
+  /**
+   * Replay a single card's review history and predict recall before each review.
+   * Reviews with no prior memory state (first exposure, same-day steps) are
+   * skipped because the model makes no forgetting prediction for them.
+   */
+  public predictRecallFromHistory(
+    logs: FSRSReviewLog[],
+    w: readonly number[] = this.fsrsParams.w,
+  ): Array<{ predicted: number; recalled: boolean; log: FSRSReviewLog }> {
+    const ordered = [...logs].sort(
+      (a, b) => new Date(a.review).getTime() - new Date(b.review).getTime(),
+    );
+    const predictions: Array<{
+      predicted: number;
+      recalled: boolean;
+      log: FSRSReviewLog;
+    }> = [];
+
+    let card: FSRSCard = {
+      id: ordered[0]?.card_id ?? 'replay',
+      due: new Date(0),
+      stability: 0,
+      difficulty: 0,
+      elapsed_days: 0,
+      scheduled_days: 0,
+      reps: 0,
+      lapses: 0,
+      state: CardState.New,
+    };
+
+    for (const log of ordered) {
+      const reviewDate = new Date(log.review);
+      const elapsed_days = card.last_review
+        ? Math.max(
+            0,
+            Math.floor(
+              (reviewDate.getTime() - card.last_review.getTime()) /
+                (1000 * 60 * 60 * 24),
+            ),
+          )
+        : 0;
+
+      if (card.state !== CardState.New && elapsed_days > 0) {
+        predictions.push({
+          predicted: this.calculateRetention(card.stability, elapsed_days),
+          recalled: log.rating > Rating.Again,
+          log,
+        });
+      }
+
+      card = this.applyRating(card, log.rating, elapsed_days, reviewDate, w);
+    }
+
+    return predictions;
+  }
+
   /**
    * Enhanced card due checking with FSRS logic
    * Replaces the simple isCardDue method
@@ -401,8 +704,61 @@ export class SpacedRepetitionService {
   public getCardsDueToday(
     cards: FSRSCard[],
     date: Date = new Date(),
+    limits?: DeckDueLimits,
   ): FSRSCard[] {
-    return cards.filter((card) => this.isCardDueFSRS(card, date));
+    const due = cards.filter((card) => this.isCardDueFSRS(card, date));
+    if (!limits) return due;
+
+    // Remaining quota per deck level, after what was already studied today
+    const remaining = new Map<string, { newCards: number; reviews: number }>();
+    const quotaFor = (deckPath: string) => {
+      let quota = remaining.get(deckPath);
+      if (!quota) {
+        const { newCardsPerDay, reviewsPerDay } = limits.getLimits(deckPath);
+        quota = { newCards: newCardsPerDay, reviews: reviewsPerDay };
+        remaining.set(deckPath, quota);
+      }
+      return quota;
+    };
+    for (const [deckPath, studied] of Object.entries(limits.studiedToday ?? {})) {
+      for (const ancestor of this.getDeckAncestors(deckPath)) {
+        const quota = quotaFor(ancestor);
+        quota.newCards -= studied.newCards;
+        quota.reviews -= studied.reviews;
+      }
+    }
+
+    // Most overdue reviews first, then new cards in due order
+    const ordered = [...due].sort((a, b) => {
+      const aNew = a.state === CardState.New ? 1 : 0;
+      const bNew = b.state === CardState.New ? 1 : 0;
+      return aNew - bNew || new Date(a.due).getTime() - new Date(b.due).getTime();
+    });
+
+    const selected = new Set<FSRSCard>();
+    for (const card of ordered) {
+      // Intraday learning steps are never held back by daily limits
+      if (card.state === CardState.Learning || card.state === CardState.Relearning) {
+        selected.add(card);
+        continue;
+      }
+      const kind = card.state === CardState.New ? 'newCards' : 'reviews';
+      const quotas = this.getDeckAncestors(card.deck ?? 'general').map(quotaFor);
+      if (quotas.every((quota) => quota[kind] > 0)) {
+        quotas.forEach((quota) => (quota[kind] -= 1));
+        selected.add(card);
+      }
+    }
+
+    return due.filter((card) => selected.has(card));
+  }
+
+  /**
+   * 'A::B::C' -> ['A', 'A::B', 'A::B::C']
+   */
+  private getDeckAncestors(deckPath: string): string[] {
+    const parts = deckPath.split(DECK_SEPARATOR);
+    return parts.map((_, index) => parts.slice(0, index + 1).join(DECK_SEPARATOR));
   }
 
   /**
@@ -410,20 +766,76 @@ export class SpacedRepetitionService {
    * For backward compatibility with existing data
    */
   public convertLegacyCard(legacyCard: any): FSRSCard {
+    // Cards already scheduled by FSRS carry their own state; estimate only when missing
+    const hasFSRSState =
+      typeof legacyCard.stability === 'number' &&
+      typeof legacyCard.fsrsDifficulty === 'number' &&
+      typeof legacyCard.state === 'number';
+
     return {
       id: legacyCard.id,
       due: legacyCard.nextReview || new Date(),
-      stability: this.estimateStabilityFromLegacy(legacyCard),
-      difficulty: this.estimateDifficultyFromLegacy(legacyCard),
+      stability: hasFSRSState ? legacyCard.stability : this.estimateStabilityFromLegacy(legacyCard),
+      difficulty: hasFSRSState ? legacyCard.fsrsDifficulty : this.estimateDifficultyFromLegacy(legacyCard),
       elapsed_days: 0,
       scheduled_days: legacyCard.interval || 1,
       reps: legacyCard.repetitions || 0,
-      lapses: 0, // Not tracked in legacy format
-      state: this.determineStateFromLegacy(legacyCard),
+      lapses: legacyCard.lapses || 0,
+      state: hasFSRSState ? legacyCard.state : this.determineStateFromLegacy(legacyCard),
       last_review: legacyCard.lastReviewed,
+      ...(legacyCard.category ? { deck: legacyCard.category } : {}),
+    };
+  }
+
+  /**
+   * Write an FSRS scheduling result back onto a legacy flashcard,
+   * keeping both the legacy fields and the card's own FSRS state
+   */
+  public applyFSRSCard<T extends object>(legacyCard: T, fsrsCard: FSRSCard): T {
+    return {
+      ...legacyCard,
+      nextReview: fsrsCard.due,
+      interval: fsrsCard.scheduled_days,
+      easeFactor: Math.max(1.3, 2.5 - (fsrsCard.difficulty - 1) * 0.2),
+      repetitions: fsrsCard.reps,
+      lastReviewed: fsrsCard.last_review ?? new Date(),
+      stability: fsrsCard.stability,
+      fsrsDifficulty: fsrsCard.difficulty,
+      state: fsrsCard.state,
+      lapses: fsrsCard.lapses,
     };
   }
 
+  /**
+   * Bury the siblings of a just-reviewed card (cards generated from the
+   * same note) until the start of the next day, so related prompts are
+   * not shown back to back
+   */
+  public burySiblings<T extends { id: string; noteId?: string }>(
+    cards: T[],
+    reviewedCard: { id: string; noteId?: string },
+    date: Date = new Date(),
+  ): T[] {
+    if (!reviewedCard.noteId) return cards;
+
+    const buriedUntil = new Date(date);
+    buriedUntil.setHours(24, 0, 0, 0);
+
+    return cards.map((card) =>
+      card.noteId === reviewedCard.noteId && card.id !== reviewedCard.id
+        ? { ...card, buriedUntil }
+        : card,
+    );
+  }
+
+  /**
+   * Hidden from due queues: suspended, or buried until a later time
+   */
+  public isBuried(card: any, date: Date = new Date()): boolean {
+    if (card.suspended) return true;
+    return !!card.buriedUntil && new Date(card.buriedUntil) > date;
+  }
+
   /**
    * Estimate stability from legacy ease factor and interval
    */
@@ -488,44 +900,57 @@ export class SpacedRepetitionService {
 
   /**
    * Analyze learning patterns and suggest optimization
-   * Provides insights for the neural mind map analytics
+   * Reads the persisted review-log store unless logs are passed in explicitly
    */
-  public analyzeLearningPatterns(
+  public async analyzeLearningPatterns(
     cards: FSRSCard[],
-    reviewLogs: FSRSReviewLog[],
-  ): {
-    averageRetention: number;
-    difficultCardTypes: string[];
-    optimalStudyTimes: string[];
-    suggestionForImprovement: string;
-  } {
-    // Calculate average retention from review success rates
-    const totalReviews = reviewLogs.length;
-    const successfulReviews = reviewLogs.filter(
-      (log) => log.rating >= Rating.Good,
-    ).length;
+    reviewLogs?: FSRSReviewLog[],
+  ): Promise<LearningPatternAnalysis> {
+    // Loaded lazily: ReviewAnalyticsService imports this module for its retention target
+    const { default: ReviewAnalyticsService } = await import('../analytics/ReviewAnalyticsService');
+    const report = await ReviewAnalyticsService.getInstance().getRetentionReport(
+      reviewLogs ? { logs: reviewLogs } : {},
+    );
+    const minSamples = 5;
+    const target = this.fsrsParams.requestRetention;
+
+    // True retention over mature reviews; fall back to raw recall while cards are still learning
     const averageRetention =
-      totalReviews > 0 ? successfulReviews / totalReviews : 0;
-
-    // Identify difficult card patterns
-    const difficultCards = cards.filter((card) => card.difficulty > 7);
-    const difficultCardTypes = [
-      ...new Set(
-        difficultCards
-          .map((card) => card.id?.split('_')?.[0])
-          .filter((type): type is string => type !== undefined),
-      ),
-    ];
+      report.matureReviews > 0 ? report.trueRetention : report.overallRecallRate;
+
+    // Categories whose measured retention misses the target
+    let difficultCardTypes = report.byCategory
+      .filter((bucket) => bucket.reviews >= minSamples && bucket.retention < target)
+      .sort((a, b) => a.retention - b.retention)
+      .map((bucket) => bucket.key);
+
+    // Without review history, fall back to card difficulty
+    if (report.matureReviews === 0) {
+      difficultCardTypes = [
+        ...new Set(
+          cards
+            .filter((card) => card.difficulty > 7)
+            .map((card) => card.id?.split('_')?.[0])
+            .filter((type): type is string => type !== undefined),
+        ),
+      ];
+    }
 
-    // Suggest optimal study times (placeholder - could be enhanced with time-based analysis)
-    const optimalStudyTimes = ['Morning (8-10 AM)', 'Evening (6-8 PM)'];
+    // Hours of day with the best measured retention
+    const bestHours = report.byHourOfDay
+      .filter((bucket) => bucket.reviews >= minSamples)
+      .sort((a, b) => b.retention - a.retention)
+      .slice(0, 2)
+      .map((bucket) => this.formatStudyHour(Number(bucket.key)));
+    const optimalStudyTimes =
+      bestHours.length > 0 ? bestHours : ['Morning (8-10 AM)', 'Evening (6-8 PM)'];
 
-    // Generate improvement suggestion
+    // Generate improvement suggestion relative to the retention target
     let suggestionForImprovement = '';
-    if (averageRetention < 0.8) {
+    if (averageRetention < target - 0.1) {
       suggestionForImprovement =
         'Focus on understanding concepts rather than memorization. Consider breaking complex topics into smaller pieces.';
-    } else if (averageRetention > 0.95) {
+    } else if (averageRetention > target + 0.05) {
       suggestionForImprovement =
         'Excellent retention! Consider increasing difficulty or adding more challenging material.';
     } else {
@@ -541,13 +966,33 @@ export class SpacedRepetitionService {
     };
   }
 
+  /**
+   * Format an hour of day as a study window label, e.g. "Morning (8-9 AM)"
+   */
+  private formatStudyHour(hour: number): string {
+    const period =
+      hour >= 5 && hour < 12
+        ? 'Morning'
+        : hour >= 12 && hour < 17
+          ? 'Afternoon'
+          : hour >= 17 && hour < 21
+            ? 'Evening'
+            : 'Night';
+    const to12h = (h: number) => (h % 12 === 0 ? 12 : h % 12);
+    const suffix = (h: number) => (h % 24 < 12 ? 'AM' : 'PM');
+    const next = (hour + 1) % 24;
+    return `${period} (${to12h(hour)}-${to12h(next)} ${suffix(next)})`;
+  }
+
   /**
    * Get due cards (backward compatibility with legacy interface)
    * Converts legacy flashcards to FSRS format and filters due cards
    */
-  public getDueCards(flashcards: any[]): any[] {
-    const fsrsCards = flashcards.map((card) => this.convertLegacyCard(card));
-    const dueCards = this.getCardsDueToday(fsrsCards);
+  public getDueCards(flashcards: any[], limits?: DeckDueLimits): any[] {
+    const fsrsCards = flashcards
+      .filter((card) => !this.isBuried(card))
+      .map((card) => this.convertLegacyCard(card));
+    const dueCards = this.getCardsDueToday(fsrsCards, new Date(), limits);
 
     // Convert back to legacy format for dashboard compatibility
     return dueCards.map((fsrsCard) => {
@@ -729,6 +1174,7 @@ export class SpacedRepetitionService {
   }
 
   public isCardDue(card: any): boolean {
+    if (this.isBuried(card)) return false;
     const fsrsCard = this.convertLegacyCard(card);
     return this.isCardDueFSRS(fsrsCard);
   }
@@ -13,6 +13,10 @@ import EventEmitter from 'eventemitter3';
 import StorageService from '../storage/StorageService';
 import { MindMapGenerator } from './MindMapGeneratorService';
 import { aiCoachingService } from './AICoachingService';
+import { DocumentLoaderService, LoadedDocument } from './DocumentLoaderService';
+import { ReadingLibraryService } from './ReadingLibraryService';
+import { AdaptiveWPMController } from './AdaptiveWPMController';
+import { EyeTrackingService } from './EyeTrackingService';
 
 /**
  * Phase 6: Reading Session Interface for Neural Map Integration
@@ -127,7 +131,7 @@ export interface RSVPConfig {
 /**
  * Advanced text processing for optimal RSVP display
  */
-interface ProcessedText {
+export interface ProcessedText {
   words: string[];
   chunks: string[][];
   punctuationPauses: number[];
@@ -146,6 +150,12 @@ interface SubVocalizationEvent {
   detectionMethod: 'timing' | 'pattern' | 'pause';
 }
 
+// Resume position is saved every this many words while reading a document
+const POSITION_SAVE_INTERVAL = 100;
+// Adaptive mode: words ahead used for difficult-word density, and default rewind
+const ADAPTIVE_LOOKAHEAD_WORDS = 20;
+const DEFAULT_REWIND_WORDS = 10;
+
 export class SpeedReadingService extends EventEmitter {
   private static instance: SpeedReadingService;
 
@@ -153,9 +163,17 @@ export class SpeedReadingService extends EventEmitter {
   private activeSession: ReadingSession | null = null;
   private rsvpTimer: number | NodeJS.Timeout | null = null;
   private currentWordIndex = 0;
+  private sessionStartWordIndex = 0; // Non-zero when resuming mid-text
   private sessionStartTime: Date | null = null;
   private pauseTime: Date | null = null;
   private totalPauseTime = 0;
+  private pauseCount = 0;
+
+  // Adaptive WPM: chunk boundaries, and friction since the last adjustment
+  private chunkStarts = new Set<number>();
+  private difficultWordSet = new Set<number>();
+  private pausesSinceAdapt = 0;
+  private regressionsSinceAdapt = 0;
 
   // Advanced analytics
   private wpmHistory: { timestamp: Date; wpm: number }[] = [];
@@ -166,6 +184,9 @@ export class SpeedReadingService extends EventEmitter {
   private processedText: ProcessedText | null = null;
   private config: RSVPConfig;
 
+  // Document chapter being read, for resume positions
+  private activeDocument: { document: LoadedDocument; chapterIndex: number } | null = null;
+
   public static getInstance(): SpeedReadingService {
     if (!SpeedReadingService.instance) {
       SpeedReadingService.instance = new SpeedReadingService();
@@ -480,6 +501,8 @@ export class SpeedReadingService extends EventEmitter {
     text: string,
     options: {
       title?: string;
+      source?: string; // Recorded as textSource instead of the raw text
+      startWordIndex?: number;
       difficulty?: 'easy' | 'medium' | 'hard' | 'technical';
       wpm?: number;
       mode?: 'word' | 'chunk' | 'bionic' | 'adaptive';
@@ -491,6 +514,7 @@ export class SpeedReadingService extends EventEmitter {
       if (this.activeSession) {
         await this.stopSession();
       }
+      this.activeDocument = null;
 
       // Process text
       const difficulty = options.difficulty || 'medium';
@@ -506,11 +530,17 @@ export class SpeedReadingService extends EventEmitter {
         adaptiveWPM = this.adaptWPMToCognitiveLoad(this.config.wpm, options.cognitiveLoad);
       }
 
+      // Adaptive mode starts from the reader's learned sustainable speed
+      if (this.config.mode === 'adaptive') {
+        adaptiveWPM = await AdaptiveWPMController.getInstance().beginSession(difficulty, adaptiveWPM);
+      }
+      this.prepareAdaptiveTracking(this.processedText);
+
       // Create session
       const sessionId = `reading_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       this.activeSession = {
         id: sessionId,
-        textSource: text,
+        textSource: options.source ?? text,
         textTitle: options.title || `Reading Session ${new Date().toLocaleTimeString()}`,
         textDifficulty: difficulty,
         wordCount: this.processedText.words.length,
@@ -546,12 +576,17 @@ export class SpeedReadingService extends EventEmitter {
       };
 
       // Initialize tracking
-      this.currentWordIndex = 0;
+      this.currentWordIndex = Math.min(
+        Math.max(0, options.startWordIndex ?? 0),
+        Math.max(0, this.processedText.words.length - 1),
+      );
+      this.sessionStartWordIndex = this.currentWordIndex;
       this.sessionStartTime = new Date();
       this.wpmHistory = [];
       this.fixationEvents = [];
       this.subVocalizationEvents = [];
       this.totalPauseTime = 0;
+      this.pauseCount = 0;
 
       // Start RSVP
       this.startRSVP();
@@ -567,6 +602,97 @@ export class SpeedReadingService extends EventEmitter {
     }
   }
 
+  /**
+   * Process one chapter of a loaded document (EPUB / Markdown / PDF)
+   */
+  public processChapter(
+    document: LoadedDocument,
+    chapterIndex: number,
+    difficulty: 'easy' | 'medium' | 'hard' | 'technical' = 'medium'
+  ): ProcessedText {
+    const chapter = document.chapters[chapterIndex];
+    if (!chapter) throw new Error(`Chapter ${chapterIndex + 1} not found in "${document.title}"`);
+    return this.processText(chapter.text, difficulty);
+  }
+
+  /**
+   * Read one chapter of a loaded document. The session records the chapter
+   * in textSource/textTitle, and the position is saved so reading can resume
+   * there. Without a chapter index, resumes from the saved position.
+   */
+  public async startChapterSession(
+    document: LoadedDocument,
+    chapterIndex?: number,
+    options: {
+      startWordIndex?: number; // e.g. a bookmark; defaults to the saved position
+      difficulty?: 'easy' | 'medium' | 'hard' | 'technical';
+      wpm?: number;
+      mode?: 'word' | 'chunk' | 'bionic' | 'adaptive';
+      cognitiveLoad?: number;
+    } = {}
+  ): Promise<ReadingSession> {
+    const loader = DocumentLoaderService.getInstance();
+    const saved = await loader.getReadingPosition(document.id);
+    const index = chapterIndex ?? saved?.chapterIndex ?? 0;
+    const chapter = document.chapters[index];
+    if (!chapter) throw new Error(`Chapter ${index + 1} not found in "${document.title}"`);
+
+    const startWordIndex =
+      options.startWordIndex ?? (saved && saved.chapterIndex === index ? saved.wordIndex : 0);
+    const session = await this.startSession(chapter.text, {
+      ...options,
+      title: loader.getChapterTitle(document, index),
+      source: loader.toSourceRef(document.id, index),
+      startWordIndex,
+    });
+    this.activeDocument = { document, chapterIndex: index };
+    return session;
+  }
+
+  /**
+   * Word index reached in the current session
+   */
+  public getCurrentWordIndex(): number {
+    return this.currentWordIndex;
+  }
+
+  /**
+   * Document chapter being read, if the session came from a document
+   */
+  public getActiveDocument(): { document: LoadedDocument; chapterIndex: number } | null {
+    return this.activeDocument;
+  }
+
+  /**
+   * Persist where the current document chapter was left. A finished chapter
+   * moves the position to the start of the next one.
+   */
+  private async saveDocumentPosition(finished = false): Promise<void> {
+    if (!this.activeDocument) return;
+    const { document, chapterIndex } = this.activeDocument;
+    const loader = DocumentLoaderService.getInstance();
+    const next = finished ? Math.min(chapterIndex + 1, document.chapters.length - 1) : chapterIndex;
+    const wordIndex = finished ? (next === chapterIndex ? this.currentWordIndex : 0) : this.currentWordIndex;
+    await loader.saveReadingPosition(document.id, next, wordIndex);
+  }
+
+  /**
+   * Add the session's speed to the document's reading history
+   */
+  private async recordDocumentSession(session: ReadingSession, durationMs: number): Promise<void> {
+    if (!this.activeDocument) return;
+    const wordsRead = this.currentWordIndex - this.sessionStartWordIndex;
+    if (wordsRead <= 0) return;
+    await ReadingLibraryService.getInstance().recordSession(this.activeDocument.document.id, {
+      sessionId: session.id,
+      chapterIndex: this.activeDocument.chapterIndex,
+      wpm: session.wpmAchieved,
+      wordsRead,
+      durationMs,
+    });
+  }
+
+
   /**
    * Adapt WPM based on cognitive load (Phase 5.5 integration)
    */
@@ -658,9 +784,13 @@ export class SpeedReadingService extends EventEmitter {
     });
 
     this.currentWordIndex++;
+    if (this.activeDocument && this.currentWordIndex % POSITION_SAVE_INTERVAL === 0) {
+      void this.saveDocumentPosition();
+    }
 
     // Dynamic interval adjustment (adaptive mode)
     if (this.config.mode === 'adaptive') {
+      if (this.chunkStarts.has(this.currentWordIndex)) this.adaptWPMForChunk();
       const newInterval = this.calculateDisplayInterval();
       if (this.rsvpTimer) {
         clearInterval(this.rsvpTimer);
@@ -671,6 +801,68 @@ export class SpeedReadingService extends EventEmitter {
     }
   }
 
+  /**
+   * Index sets used by the adaptive controller at chunk boundaries
+   */
+  private prepareAdaptiveTracking(processed: ProcessedText): void {
+    this.chunkStarts = new Set<number>();
+    let index = 0;
+    for (const chunk of processed.chunks) {
+      this.chunkStarts.add(index);
+      index += chunk.length;
+    }
+    this.difficultWordSet = new Set(processed.difficultWords);
+    this.pausesSinceAdapt = 0;
+    this.regressionsSinceAdapt = 0;
+  }
+
+  /**
+   * Closed-loop WPM step at the start of a chunk (adaptive mode)
+   */
+  private adaptWPMForChunk(): void {
+    if (!this.activeSession || !this.processedText) return;
+
+    const end = Math.min(this.processedText.words.length, this.currentWordIndex + ADAPTIVE_LOOKAHEAD_WORDS);
+    let difficult = 0;
+    for (let i = this.currentWordIndex; i < end; i++) {
+      if (this.difficultWordSet.has(i)) difficult++;
+    }
+
+    const eyeTracking = EyeTrackingService.getInstance();
+    const previous = this.activeSession.wpmGoal;
+    const wpm = AdaptiveWPMController.getInstance().nextWpm({
+      currentWpm: previous,
+      difficultWordDensity: end > this.currentWordIndex ? difficult / (end - this.currentWordIndex) : 0,
+      pauses: this.pausesSinceAdapt,
+      regressions: this.regressionsSinceAdapt,
+      ...(eyeTracking.isTrackingActive() ? { attention: eyeTracking.getAttentionEMA() } : {}),
+    });
+    this.pausesSinceAdapt = 0;
+    this.regressionsSinceAdapt = 0;
+
+    if (wpm !== previous) {
+      this.activeSession.wpmGoal = wpm;
+      this.emit('wpmAdapted', { wpm, previous, wordIndex: this.currentWordIndex });
+    }
+  }
+
+  /**
+   * Learn the reader's sustainable speed from a finished or stopped session
+   */
+  private async recordAdaptiveOutcome(session: ReadingSession): Promise<void> {
+    try {
+      await AdaptiveWPMController.getInstance().endSession({
+        difficulty: session.textDifficulty ?? 'medium',
+        wpmAchieved: session.wpmAchieved,
+        wordsRead: this.currentWordIndex - this.sessionStartWordIndex,
+        regressions: session.regressionCount,
+        pauses: this.pauseCount,
+      });
+    } catch (error) {
+      console.warn('Failed to update adaptive WPM model:', error);
+    }
+  }
+
   /**
    * Update real-time reading analytics
    */
@@ -681,7 +873,7 @@ export class SpeedReadingService extends EventEmitter {
     const elapsedMinutes = (now.getTime() - this.sessionStartTime.getTime() - this.totalPauseTime) / (1000 * 60);
 
     if (elapsedMinutes > 0) {
-      const currentWPM = Math.round(this.currentWordIndex / elapsedMinutes);
+      const currentWPM = Math.round((this.currentWordIndex - this.sessionStartWordIndex) / elapsedMinutes);
 
       // Track WPM history
       this.wpmHistory.push({ timestamp: now, wpm: currentWPM });
@@ -806,6 +998,9 @@ export class SpeedReadingService extends EventEmitter {
     clearInterval(this.rsvpTimer);
     this.rsvpTimer = null;
     this.pauseTime = new Date();
+    this.pauseCount++;
+    this.pausesSinceAdapt++;
+    void this.saveDocumentPosition();
 
     this.emit('sessionPaused', this.activeSession);
     console.log('⏸️ Speed reading session paused');
@@ -827,6 +1022,24 @@ export class SpeedReadingService extends EventEmitter {
     console.log('▶️ Speed reading session resumed');
   }
 
+  /**
+   * Go back a few words (a regression). Counted in the session and slows
+   * the adaptive controller down.
+   */
+  public rewind(words: number = DEFAULT_REWIND_WORDS): void {
+    if (!this.activeSession || !this.processedText) return;
+
+    this.currentWordIndex = Math.max(0, this.currentWordIndex - Math.max(1, words));
+    this.activeSession.regressionCount++;
+    this.regressionsSinceAdapt++;
+
+    this.emit('regression', {
+      index: this.currentWordIndex,
+      word: this.processedText.words[this.currentWordIndex],
+      count: this.activeSession.regressionCount,
+    });
+  }
+
   /**
    * Complete the current session
    */
@@ -853,6 +1066,10 @@ export class SpeedReadingService extends EventEmitter {
 
       // Create source links for neural map
       this.activeSession.sourceLinks = this.createSourceLinks();
+      await this.saveDocumentPosition(true);
+      await this.recordDocumentSession(this.activeSession, this.activeSession.readingDurationMs);
+      await this.recordAdaptiveOutcome(this.activeSession);
+      this.activeDocument = null;
 
       // Phase 6 Integration: Persist and update neural map
   const storage = StorageService.getInstance();
@@ -886,6 +1103,14 @@ export class SpeedReadingService extends EventEmitter {
             difficulty: 'adaptive',
             questionTypes: ['factual', 'inference', 'vocabulary'],
             adaptToPreviousPerformance: true,
+            ...(this.processedText
+              ? {
+                  source: {
+                    text: this.processedText.words.join(' '),
+                    conceptKeywords: this.processedText.conceptKeywords,
+                  },
+                }
+              : {}),
           }
         );
         this.emit('quizReady', quiz);
@@ -908,6 +1133,34 @@ export class SpeedReadingService extends EventEmitter {
     }
   }
 
+  /**
+   * Store a quiz result (0-1) as the session's comprehension score
+   */
+  public async recordComprehensionScore(sessionId: string, score: number): Promise<ReadingSession | null> {
+    try {
+      const storage = StorageService.getInstance();
+      const session = (await storage.getReadingSessions()).find((s) => s.id === sessionId);
+      if (!session) return null;
+
+      const updated: ReadingSession = {
+        ...session,
+        comprehensionScore: Math.max(0, Math.min(1, score)),
+        modified: new Date(),
+      };
+      await storage.saveReadingSession(updated);
+      await AdaptiveWPMController.getInstance().recordComprehension(
+        updated.textDifficulty ?? 'medium',
+        updated.wpmAchieved,
+        updated.comprehensionScore,
+      );
+      this.emit('comprehensionScored', updated);
+      return updated;
+    } catch (error) {
+      console.error('Failed to record comprehension score:', error);
+      return null;
+    }
+  }
+
   /**
    * Stop current session without completing
    */
@@ -918,9 +1171,17 @@ export class SpeedReadingService extends EventEmitter {
     }
 
     if (this.activeSession) {
+      await this.saveDocumentPosition();
+      const pausedMs = this.totalPauseTime + (this.pauseTime ? Date.now() - this.pauseTime.getTime() : 0);
+      await this.recordDocumentSession(
+        this.activeSession,
+        Date.now() - this.activeSession.startTime.getTime() - pausedMs,
+      );
+      await this.recordAdaptiveOutcome(this.activeSession);
       this.emit('sessionStopped', this.activeSession);
       this.activeSession = null;
     }
+    this.activeDocument = null;
 
     this.currentWordIndex = 0;
     this.processedText = null;
@@ -954,11 +1215,13 @@ export class SpeedReadingService extends EventEmitter {
    */
   public updateConfig(newConfig: Partial<RSVPConfig>): void {
     this.config = { ...this.config, ...newConfig };
+    if (newConfig.wpm && this.activeSession) this.activeSession.wpmGoal = newConfig.wpm;
 
-    // If session is active, apply changes
+    // If session is active, restart the display loop with the new settings
     if (this.activeSession && this.rsvpTimer) {
-      this.pauseSession();
-      setTimeout(() => this.resumeSession(), 100);
+      clearInterval(this.rsvpTimer);
+      this.rsvpTimer = null;
+      this.startRSVP();
     }
 
     this.emit('configUpdated', this.config);
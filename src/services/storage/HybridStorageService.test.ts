@@ -0,0 +1,148 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import HybridStorageService from './HybridStorageService';
+import { StoredReviewLog } from './StorageService';
+import { CardState, FSRSReviewLog, Rating } from '../learning/SpacedRepetitionService';
+import { Flashcard } from '../../types';
+
+const remoteLogs: StoredReviewLog[] = [];
+const pulls: Array<Date | undefined> = [];
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('./MMKVStorageService', () => ({
+  __esModule: true,
+  default: { isAvailable: () => false },
+}));
+jest.mock('../../database/database', () => ({ __esModule: true, default: {} }));
+jest.mock('./syncQueue', () => ({
+  __esModule: true,
+  default: { enqueue: async () => {}, fetchAll: async () => ({ dbItems: [], legacyItems: [] }) },
+}));
+jest.mock('./SupabaseService', () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getCurrentUser: async () => null }) },
+}));
+jest.mock('./SupabaseStorageService', () => ({
+  SupabaseStorageService: {
+    getInstance: () => ({
+      getSettings: async () => ({}),
+      getReviewLogs: async (since?: Date) => {
+        pulls.push(since);
+        return remoteLogs.filter((log) => !since || log.review.getTime() >= since.getTime());
+      },
+      saveReviewLogs: async () => {},
+    }),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 9, 1);
+
+const log = (card: number, day: number): FSRSReviewLog => ({
+  card_id: `card_${card}`,
+  rating: Rating.Good,
+  state: CardState.Review,
+  elapsed_days: 1,
+  scheduled_days: 3,
+  review: new Date(START + day * DAY + card * 1000),
+});
+
+const chunkKeys = async () =>
+  (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith('@neurolearn/review_log_chunk_')).sort();
+
+describe('HybridStorageService review logs', () => {
+  let storage: HybridStorageService;
+
+  beforeAll(() => {
+    jest.spyOn(global, 'setInterval').mockImplementation((() => 0) as any);
+    storage = HybridStorageService.getInstance();
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    (storage as any).reviewLogsMigrated = false;
+    remoteLogs.length = 0;
+    pulls.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('splits the local history into bounded chunks', async () => {
+    const logs = Array.from({ length: 2300 }, (_, i) => log(i, Math.floor(i / 100)));
+    await storage.appendReviewLogs(logs.slice(0, 800));
+    await storage.appendReviewLogs(logs.slice(800));
+
+    expect(await chunkKeys()).toEqual([
+      '@neurolearn/review_log_chunk_0',
+      '@neurolearn/review_log_chunk_1',
+      '@neurolearn/review_log_chunk_2',
+    ]);
+    const sizes = await Promise.all(
+      (await chunkKeys()).map(async (key) => Object.keys(JSON.parse((await AsyncStorage.getItem(key))!)).length),
+    );
+    expect(sizes).toEqual([1000, 1000, 300]);
+
+    const read = await storage.getReviewLogs();
+    expect(read).toHaveLength(2300);
+    expect(read[0]!.review).toBeInstanceOf(Date);
+  });
+
+  it('only pulls rows reviewed since the last pull and keeps them locally', async () => {
+    remoteLogs.push({ ...log(1, 0), id: 'rl_remote_1' } as StoredReviewLog);
+    await storage.getReviewLogs();
+
+    remoteLogs.push({ ...log(2, 3), id: 'rl_remote_2' } as StoredReviewLog);
+    const read = await storage.getReviewLogs();
+
+    expect(pulls).toEqual([undefined, new Date(START + 1000)]);
+    expect(read.map((entry) => entry.id)).toEqual(['rl_remote_1', 'rl_remote_2']);
+
+    // Offline, the pulled rows are still there
+    remoteLogs.length = 0;
+    expect((await storage.getReviewLogs()).map((entry) => entry.id)).toEqual(['rl_remote_1', 'rl_remote_2']);
+  });
+
+  it('moves the legacy single-row copy and journal into chunks once', async () => {
+    const [first, second] = [log(1, 0), log(2, 1)].map((entry) => ({
+      ...entry,
+      id: `rl_${entry.card_id}_${entry.review.getTime()}`,
+    }));
+    await AsyncStorage.setItem('@neurolearn/cache_review_logs', JSON.stringify([first]));
+    await AsyncStorage.setItem('@neurolearn/review_log_journal', JSON.stringify({ [second!.id]: second }));
+
+    const read = await storage.getReviewLogs();
+
+    expect(read.map((entry) => entry.card_id)).toEqual(['card_1', 'card_2']);
+    expect(await AsyncStorage.getItem('@neurolearn/cache_review_logs')).toBeNull();
+    expect(await AsyncStorage.getItem('@neurolearn/review_log_journal')).toBeNull();
+    expect(await chunkKeys()).toEqual(['@neurolearn/review_log_chunk_0']);
+  });
+});
+
+describe('HybridStorageService dashboard', () => {
+  it('counts due flashcards with deck limits applied', async () => {
+    const storage = HybridStorageService.getInstance();
+    const cards: Flashcard[] = Array.from({ length: 25 }, (_, i) => ({
+      id: `new_${i}`,
+      front: `Question ${i}`,
+      back: `Answer ${i}`,
+      category: 'general',
+      created: new Date(START),
+      nextReview: new Date(START),
+      interval: 0,
+      easeFactor: 2.5,
+      repetitions: 0,
+    }));
+    jest.spyOn(storage, 'getFlashcards').mockResolvedValue(cards);
+    jest.spyOn(storage, 'getLogicNodes').mockResolvedValue([]);
+    jest.spyOn(storage, 'getItem').mockResolvedValue(null);
+    jest.spyOn(storage, 'getReviewLogs').mockResolvedValue([
+      { ...log(0, 0), card_id: 'new_0', state: CardState.New, review: new Date(), id: 'rl_today' },
+    ]);
+
+    const due = await storage.getCardsDueToday();
+
+    // Default preset: 20 new cards a day, one already studied today
+    expect(due.flashcards).toHaveLength(19);
+  });
+});
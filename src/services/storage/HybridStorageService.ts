@@ -16,7 +16,7 @@ import { STORAGE_CONFIG } from '../../config/storage.config';
 import { SupabaseStorageService } from './SupabaseStorageService';
 import database from '../../database/database';
 import syncQueue from './syncQueue';
-import SpacedRepetitionService from '../learning/SpacedRepetitionService';
+import { FSRSReviewLog } from '../learning/SpacedRepetitionService';
 import {
   Task,
   StudySession,
@@ -36,8 +36,16 @@ import {
   LogicNode,
   NeuroplasticitySession,
   SynapseData,
+  StoredReviewLog,
 } from './StorageService';
 import { ReadingSession, SourceLink } from '../learning/SpeedReadingService';
+import { EventSystem, EVENT_TYPES } from '../../core/EventSystem';
+
+interface ReviewLogIndex {
+  chunks: number; // Chunk rows 0..chunks-1
+  lastChunkSize: number; // Logs in the open (last) chunk
+  syncedThrough: string | null; // Latest reviewed_at pulled from Supabase (ISO)
+}
 
 export class HybridStorageService {
   private static instance: HybridStorageService;
@@ -110,14 +118,43 @@ export class HybridStorageService {
     BUDGET_ANALYSIS: '@neurolearn/cache_budget_analysis',
     NEUROPLASTICITY_SESSIONS: '@neurolearn/cache_neuroplasticity_sessions',
     SYNAPSE_DATA: '@neurolearn/cache_synapse_data',
+    // Legacy single-row review-log copy and mergeItem journal, moved into chunks on first read
+    REVIEW_LOGS: '@neurolearn/cache_review_logs',
+    REVIEW_LOG_JOURNAL: '@neurolearn/review_log_journal',
+    REVIEW_LOG_INDEX: '@neurolearn/review_log_index',
+  };
+
+  // Keys of the data the neural graph is generated from, by the source
+  // name LEARNING_DATA_CHANGED events carry
+  private static readonly LEARNING_SOURCES: Record<string, string> = {
+    [HybridStorageService.CACHE_KEYS.FLASHCARDS]: 'flashcards',
+    [HybridStorageService.CACHE_KEYS.TASKS]: 'tasks',
+    [HybridStorageService.CACHE_KEYS.STUDY_SESSIONS]: 'studySessions',
+    [HybridStorageService.CACHE_KEYS.MEMORY_PALACES]: 'memoryPalaces',
+    [HybridStorageService.CACHE_KEYS.LOGIC_NODES]: 'logicNodes',
+    [HybridStorageService.CACHE_KEYS.READING_SESSIONS]: 'readingSessions',
   };
 
+  // Local review history is split over rows of at most MAX_REVIEW_LOG_CHUNK logs
+  // (each an object keyed by log id) so no single AsyncStorage row outgrows
+  // Android's per-row limit
+  private static readonly REVIEW_LOG_CHUNK_PREFIX = '@neurolearn/review_log_chunk_';
+  private static readonly MAX_REVIEW_LOG_CHUNK = 1000;
+
   // Keys we keep in hot cache (MMKV) for ultra-fast access
   private static readonly HOT_KEYS = {
     CONTEXT_SNAPSHOT_PREFIX: 'ctx:',
     CONTEXT_CACHE: '@neurolearn/cache_context_snapshots',
+    REVIEW_LOGS_RECENT: 'review_logs:recent',
   };
 
+  // Most recent review logs kept in the hot tier (covers logs not yet synced)
+  private static readonly MAX_HOT_REVIEW_LOGS = 500;
+
+  // Chunk writes run one at a time so overlapping appends can't drop each other's logs
+  private reviewLogWrites: Promise<unknown> = Promise.resolve();
+  private reviewLogsMigrated = false;
+
   public static getInstance(): HybridStorageService {
     if (!HybridStorageService.instance) {
       HybridStorageService.instance = new HybridStorageService();
@@ -314,6 +351,21 @@ export class HybridStorageService {
       await this.silentCache(cacheKey, data);
       await this.queueForSync(cacheKey, data);
     }
+    this.notifyLearningDataChanged(cacheKey);
+  }
+
+  /**
+   * Tell listeners (e.g. MindMapGenerator) that graph source data changed
+   */
+  private notifyLearningDataChanged(cacheKey: string): void {
+    const source = HybridStorageService.LEARNING_SOURCES[cacheKey];
+    if (!source) return;
+    EventSystem.getInstance().emitEvent(
+      EVENT_TYPES.LEARNING_DATA_CHANGED,
+      'HybridStorageService',
+      { source },
+      'low',
+    );
   }
 
   private async silentCache<T>(key: string, data: T): Promise<void> {
@@ -1367,6 +1419,9 @@ export class HybridStorageService {
       case HybridStorageService.CACHE_KEYS.SOURCE_LINKS:
         await this.supabaseService.saveSourceLinks(item.data);
         break;
+      case HybridStorageService.CACHE_KEYS.REVIEW_LOGS:
+        await this.supabaseService.saveReviewLogs(Array.isArray(item.data) ? item.data : [item.data]);
+        break;
       case HybridStorageService.CACHE_KEYS.COGNITIVE_METRICS:
         await this.supabaseService.saveCognitiveMetrics(item.data.userId, item.data);
         break;
@@ -1554,6 +1609,7 @@ export class HybridStorageService {
       // Update cache
       const currentNodes = await this.getLogicNodes();
       await this.silentCache(HybridStorageService.CACHE_KEYS.LOGIC_NODES, [...currentNodes, newNode]);
+      this.notifyLearningDataChanged(HybridStorageService.CACHE_KEYS.LOGIC_NODES);
 
       return newNode;
     } catch (error) {
@@ -1605,6 +1661,7 @@ export class HybridStorageService {
         if (!updatedNode.id) updatedNode.id = nodeId;
         currentNodes[nodeIndex] = updatedNode as LogicNode;
         await this.silentCache(HybridStorageService.CACHE_KEYS.LOGIC_NODES, currentNodes);
+        this.notifyLearningDataChanged(HybridStorageService.CACHE_KEYS.LOGIC_NODES);
       }
 
       return updatedNode;
@@ -1835,6 +1892,223 @@ export class HybridStorageService {
     );
   }
 
+  // ==================== REVIEW LOGS ====================
+
+  /**
+   * Full FSRS review history. The local chunks are the only full copy; Supabase
+   * is only asked for rows reviewed since the last pull, and the hot tier adds
+   * logs written while offline.
+   */
+  async getReviewLogs(): Promise<StoredReviewLog[]> {
+    const local = await this.readLocalReviewLogs();
+    const index = await this.readReviewLogIndex();
+
+    let fresh: StoredReviewLog[] = [];
+    try {
+      const since = index.syncedThrough ? new Date(index.syncedThrough) : undefined;
+      const remote = await this.supabaseService.getReviewLogs(since);
+      this.isOnline = true;
+
+      // The pull is inclusive of syncedThrough, so the boundary rows come back again
+      const known = new Set(local.map(log => log.id));
+      fresh = remote.filter(log => !known.has(log.id));
+      const latest = remote.reduce(
+        (max, log) => Math.max(max, new Date(log.review).getTime()),
+        index.syncedThrough ? new Date(index.syncedThrough).getTime() : 0,
+      );
+      if (remote.length > 0) {
+        await this.enqueueReviewLogWrite(async () => {
+          await this.writeReviewLogChunks(fresh);
+          await this.updateReviewLogIndex({ syncedThrough: new Date(latest).toISOString() });
+        });
+      }
+    } catch (error) {
+      console.warn(`📱 Supabase unavailable, using cache for ${HybridStorageService.CACHE_KEYS.REVIEW_LOGS}:`, error);
+      this.isOnline = false;
+    }
+
+    return this.mergeReviewLogs(local, fresh, await this.readHotReviewLogs());
+  }
+
+  /**
+   * Persist logs returned by scheduleNextReviewFSRS: hot (MMKV) → warm (AsyncStorage) → cold (Supabase)
+   */
+  async appendReviewLogs(logs: FSRSReviewLog[]): Promise<StoredReviewLog[]> {
+    const stored: StoredReviewLog[] = logs
+      .filter((log): log is FSRSReviewLog & { card_id: string } => !!log.card_id)
+      .map(log => {
+        const review = new Date(log.review);
+        return { ...log, review, id: `rl_${log.card_id}_${review.getTime()}` };
+      });
+    if (stored.length === 0) return [];
+
+    // Hot tier: bounded recent window
+    try {
+      if (MMKVStorageService.isAvailable()) {
+        const hot = await this.readHotReviewLogs();
+        const recent = this.mergeReviewLogs(hot, stored).slice(-HybridStorageService.MAX_HOT_REVIEW_LOGS);
+        await MMKVStorageService.setObject(HybridStorageService.HOT_KEYS.REVIEW_LOGS_RECENT, recent);
+      }
+    } catch (e) {
+      console.warn('Failed to write review logs to hot tier:', e);
+    }
+
+    // Warm tier: full local history in bounded chunks
+    try {
+      await this.enqueueReviewLogWrite(() => this.writeReviewLogChunks(stored));
+    } catch (e) {
+      console.warn('Failed to write review logs to warm tier:', e);
+    }
+
+    // Cold tier
+    try {
+      await this.supabaseService.saveReviewLogs(stored);
+      this.isOnline = true;
+    } catch (error) {
+      console.warn('🔄 Saving review logs offline');
+      this.isOnline = false;
+      await this.queueForSync(HybridStorageService.CACHE_KEYS.REVIEW_LOGS, stored);
+    }
+
+    return stored;
+  }
+
+  /**
+   * Every log in the local chunks, moving a legacy single-row copy into chunks first
+   */
+  private async readLocalReviewLogs(): Promise<StoredReviewLog[]> {
+    return this.enqueueReviewLogWrite(async () => {
+      if (!this.reviewLogsMigrated) {
+        await this.migrateLegacyReviewLogs();
+        this.reviewLogsMigrated = true;
+      }
+      return this.readReviewLogChunks(await this.readReviewLogIndex());
+    });
+  }
+
+  private enqueueReviewLogWrite<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.reviewLogWrites.then(task);
+    this.reviewLogWrites = run.catch(() => undefined);
+    return run;
+  }
+
+  private async readReviewLogIndex(): Promise<ReviewLogIndex> {
+    const empty: ReviewLogIndex = { chunks: 0, lastChunkSize: 0, syncedThrough: null };
+    try {
+      const raw = await AsyncStorage.getItem(HybridStorageService.CACHE_KEYS.REVIEW_LOG_INDEX);
+      return raw ? { ...empty, ...JSON.parse(raw) } : empty;
+    } catch (e) {
+      return empty;
+    }
+  }
+
+  private async updateReviewLogIndex(changes: Partial<ReviewLogIndex>): Promise<void> {
+    const index = await this.readReviewLogIndex();
+    await AsyncStorage.setItem(
+      HybridStorageService.CACHE_KEYS.REVIEW_LOG_INDEX,
+      JSON.stringify({ ...index, ...changes }),
+    );
+  }
+
+  private reviewLogChunkKey(chunk: number): string {
+    return `${HybridStorageService.REVIEW_LOG_CHUNK_PREFIX}${chunk}`;
+  }
+
+  private async readReviewLogChunks(index: ReviewLogIndex): Promise<StoredReviewLog[]> {
+    if (index.chunks === 0) return [];
+    const keys = Array.from({ length: index.chunks }, (_, chunk) => this.reviewLogChunkKey(chunk));
+    const rows = await AsyncStorage.multiGet(keys);
+
+    const logs: StoredReviewLog[] = [];
+    for (const [key, raw] of rows) {
+      try {
+        const chunk = raw ? JSON.parse(raw) : null;
+        if (chunk && typeof chunk === 'object') logs.push(...(Object.values(chunk) as StoredReviewLog[]));
+      } catch (e) {
+        console.warn(`Failed to read review log chunk ${key}:`, e);
+      }
+    }
+    return this.mergeReviewLogs(logs);
+  }
+
+  /**
+   * Append logs to the open chunk, starting a new one whenever it is full.
+   * Only call through enqueueReviewLogWrite.
+   */
+  private async writeReviewLogChunks(logs: StoredReviewLog[]): Promise<void> {
+    if (logs.length === 0) return;
+    const index = await this.readReviewLogIndex();
+    let { chunks, lastChunkSize } = index;
+
+    for (let offset = 0; offset < logs.length; ) {
+      if (chunks === 0 || lastChunkSize >= HybridStorageService.MAX_REVIEW_LOG_CHUNK) {
+        chunks++;
+        lastChunkSize = 0;
+      }
+      const batch = logs.slice(offset, offset + HybridStorageService.MAX_REVIEW_LOG_CHUNK - lastChunkSize);
+      const entries = Object.fromEntries(batch.map(log => [log.id, log]));
+      await AsyncStorage.mergeItem(this.reviewLogChunkKey(chunks - 1), JSON.stringify(entries));
+      lastChunkSize += batch.length;
+      offset += batch.length;
+    }
+
+    await this.updateReviewLogIndex({ chunks, lastChunkSize });
+  }
+
+  private async migrateLegacyReviewLogs(): Promise<void> {
+    const legacyKeys = [
+      HybridStorageService.CACHE_KEYS.REVIEW_LOGS,
+      HybridStorageService.CACHE_KEYS.REVIEW_LOG_JOURNAL,
+    ];
+    try {
+      const rows = await AsyncStorage.multiGet(legacyKeys);
+      const legacy: StoredReviewLog[] = [];
+      for (const [, raw] of rows) {
+        const parsed = raw ? JSON.parse(raw) : null;
+        if (Array.isArray(parsed)) legacy.push(...parsed);
+        else if (parsed && typeof parsed === 'object') legacy.push(...(Object.values(parsed) as StoredReviewLog[]));
+      }
+      if (legacy.length === 0) return;
+
+      const known = new Set(
+        (await this.readReviewLogChunks(await this.readReviewLogIndex())).map(log => log.id),
+      );
+      await this.writeReviewLogChunks(this.mergeReviewLogs(legacy).filter(log => !known.has(log.id)));
+      await AsyncStorage.multiRemove(legacyKeys);
+      console.log(`📦 Moved ${legacy.length} cached review logs into chunked storage`);
+    } catch (e) {
+      console.warn('Failed to migrate cached review logs:', e);
+    }
+  }
+
+  private async clearReviewLogChunks(): Promise<void> {
+    const index = await this.readReviewLogIndex();
+    const keys = Array.from({ length: index.chunks }, (_, chunk) => this.reviewLogChunkKey(chunk));
+    if (keys.length > 0) await AsyncStorage.multiRemove(keys);
+  }
+
+  private async readHotReviewLogs(): Promise<StoredReviewLog[]> {
+    try {
+      if (!MMKVStorageService.isAvailable()) return [];
+      const hot = await MMKVStorageService.getObject<StoredReviewLog[]>(HybridStorageService.HOT_KEYS.REVIEW_LOGS_RECENT);
+      return Array.isArray(hot) ? hot : [];
+    } catch (e) {
+      return [];
+    }
+  }
+
+  // Deduplicate by id, normalize dates (JSON round-trips turn them into strings) and sort chronologically
+  private mergeReviewLogs(...sources: StoredReviewLog[][]): StoredReviewLog[] {
+    const byId = new Map<string, StoredReviewLog>();
+    for (const source of sources) {
+      for (const log of source) {
+        if (!log || !log.id) continue;
+        byId.set(log.id, { ...log, review: new Date(log.review) });
+      }
+    }
+    return Array.from(byId.values()).sort((a, b) => a.review.getTime() - b.review.getTime());
+  }
+
   // ==================== DASHBOARD METHODS ====================
 
   async getCardsDueToday(): Promise<{
@@ -1849,16 +2123,19 @@ export class HybridStorageService {
         this.getLogicNodes(),
       ]);
 
-      // Use SpacedRepetitionService to filter due items
-      const srs = SpacedRepetitionService.getInstance();
-
-      // Convert flashcards to FSRS format and get due ones
-      const fsrsCards = flashcards.map(card => srs.convertLegacyCard(card));
-      const dueFlashcards = srs.getCardsDueToday(fsrsCards);
-
-      // Convert back to original format for compatibility
-      const dueFlashcardIds = new Set(dueFlashcards.map(card => card.id));
-      const dueFlashcardsOriginal = flashcards.filter(card => dueFlashcardIds.has(card.id));
+      // Same queue as the study screen: deck presets and daily limits apply.
+      // DeckService depends on this service, so it is loaded lazily.
+      const { default: DeckService } = await import('../learning/DeckService');
+      const decks = DeckService.getInstance();
+      const [deckConfig, reviewLogs] = await Promise.all([
+        decks.getDeckConfig(),
+        this.getReviewLogs(),
+      ]);
+      const dueFlashcardsOriginal = decks.getDueCards(
+        flashcards,
+        deckConfig,
+        decks.getStudiedToday(reviewLogs, flashcards),
+      );
 
       // Get due logic nodes
       const currentDate = new Date();
@@ -1955,7 +2232,8 @@ export class HybridStorageService {
       console.warn('Failed to clear Supabase data:', error);
     }
 
-    // Clear all cache
+    // Clear all cache (review log chunks first, their index is a cache key)
+    await this.enqueueReviewLogWrite(() => this.clearReviewLogChunks());
     const cacheKeys = Object.values(HybridStorageService.CACHE_KEYS);
     await Promise.all(cacheKeys.map(key => AsyncStorage.removeItem(key)));
 
@@ -2956,7 +3234,7 @@ export class HybridStorageService {
     try {
       // If online, try to gather from Supabase-backed methods
       if (this.isOnline) {
-        const [flashcards, logicNodes, focusSessions, readingSessions, settings, sourceLinks, neuralLogs, soundSettings] = await Promise.all([
+        const [flashcards, logicNodes, focusSessions, readingSessions, settings, sourceLinks, neuralLogs, soundSettings, reviewLogs] = await Promise.all([
           this.getFlashcards(),
           this.getLogicNodes(),
           this.getFocusSessions(),
@@ -2965,6 +3243,7 @@ export class HybridStorageService {
           this.getSourceLinks(),
           this.getNeuralLogs(),
           this.getSoundSettings(),
+          this.getReviewLogs(),
         ]);
 
         const payload = {
@@ -2976,6 +3255,7 @@ export class HybridStorageService {
           sourceLinks,
           neuralLogs,
           soundSettings,
+          reviewLogs,
           exportDate: new Date().toISOString(),
           version: '2.1.0',
         };
@@ -3031,6 +3311,7 @@ export class HybridStorageService {
         }
       }
 
+      payload.reviewLogs = await this.readLocalReviewLogs();
       payload.exportDate = new Date().toISOString();
       payload.version = '2.1.0';
 
@@ -14,6 +14,10 @@ import { PerformanceProfiler } from '../../core/utils/PerformanceProfiler';
 import { EventSystem } from '../../core/EventSystem';
 import { base64Encode, base64Decode } from '../../utils/base64';
 import { LogicStructure } from '../learning/MindMapGeneratorService';
+import { ManualGraphEdits } from '../learning/MindMapEditService';
+import { FocusSessionJournal } from '../learning/FocusTimerService';
+import { FocusPhaseKind, FocusProtocol } from '../learning/FocusProtocols';
+import type { FocusDayPlan } from '../learning/FocusDayPlannerService';
 import { FSRSCard, FSRSReviewLog } from '../learning/SpacedRepetitionService';
 import { ReadingSession, SourceLink } from '../learning/SpeedReadingService';
 import { ContextSnapshot, TimeIntelligence, LocationContext, DigitalBodyLanguage } from '../ai/ContextSensorService';
@@ -244,6 +248,7 @@ export interface DistractionEvent {
   duration?: number;
   triggerType?: 'internal' | 'external' | 'notification' | 'unknown';
   severity?: 1 | 2 | 3 | 4 | 5;
+  appName?: string; // App that pulled attention away, when known
 }
 
 export interface FocusSession {
@@ -252,7 +257,7 @@ export interface FocusSession {
   nodeId?: string;
   startTime: Date;
   endTime: Date;
-  durationMinutes: number;
+  durationMinutes: number; // Focus time; work phases only for protocol sessions
   plannedDurationMinutes: number;
   distractionCount: number;
   distractionEvents: DistractionEvent[];
@@ -264,10 +269,28 @@ export interface FocusSession {
   focusLockUsed: boolean;
   todoistTaskCompleted?: boolean;
   neuralNodeStrengthened?: boolean;
+  protocol?: FocusProtocolSummary; // Multi-phase sessions (Pomodoro, 52/17, ...)
   created: Date;
   modified: Date;
 }
 
+/**
+ * How a protocol session's phases actually ran
+ */
+export interface FocusProtocolSummary {
+  protocolId: string;
+  protocolName: string;
+  phases: {
+    kind: FocusPhaseKind;
+    cycle: number;
+    plannedMinutes: number;
+    actualMinutes: number;
+  }[];
+  workMinutes: number;
+  breakMinutes: number;
+  cyclesCompleted: number;
+}
+
 export interface FocusHealthMetrics {
   streakCount: number;
   averageFocusRating: number;
@@ -322,6 +345,14 @@ export interface EnhancedFlashcard extends Flashcard {
   distractionWeakening?: number;
 }
 
+/**
+ * Persisted FSRS review log entry (one row per rating)
+ */
+export interface StoredReviewLog extends FSRSReviewLog {
+  id: string;
+  card_id: string;
+}
+
 /**
  * Neuroplasticity session data for tracking synapse strengthening sessions
  */
@@ -1354,6 +1385,29 @@ export class StorageService {
     return promise;
   }
 
+  // ==================== REVIEW LOGS ====================
+  async appendReviewLogs(logs: FSRSReviewLog[]): Promise<StoredReviewLog[]> {
+    return this.getHybridService().appendReviewLogs(logs);
+  }
+
+  async getReviewLogs(): Promise<StoredReviewLog[]> {
+    // Request deduplication for read operations
+    const cacheKey = 'getReviewLogs';
+    if (this.requestCache.has(cacheKey)) {
+      return this.requestCache.get(cacheKey);
+    }
+
+    const promise = this.getHybridService().getReviewLogs();
+    this.requestCache.set(cacheKey, promise);
+
+    // Clean up cache after promise resolves
+    promise.finally(() => {
+      this.requestCache.delete(cacheKey);
+    });
+
+    return promise;
+  }
+
   // ==================== SOUND SETTINGS ====================
   async saveSoundSettings(settings: SoundSettings): Promise<void> {
     return this.getHybridService().saveSoundSettings(settings);
@@ -1553,6 +1607,89 @@ export class StorageService {
     return this.setItem('user_preferences', preferences);
   }
 
+  // ==================== MIND MAP EDITS ====================
+
+  /**
+   * Nodes and links added to the neural map by hand (see MindMapEditService)
+   */
+  async getMindMapEdits(): Promise<ManualGraphEdits | null> {
+    const raw = await this.getItem('mind_map_edits');
+    if (!raw) return null;
+    try {
+      return typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch (error) {
+      console.error('Error parsing mind map edits:', error);
+      return null;
+    }
+  }
+
+  async saveMindMapEdits(edits: ManualGraphEdits): Promise<void> {
+    return this.setItem('mind_map_edits', edits);
+  }
+
+  // ==================== ACTIVE FOCUS SESSION ====================
+
+  /**
+   * Journal of the running focus session (see FocusTimerService)
+   */
+  async getFocusSessionJournal(): Promise<FocusSessionJournal | null> {
+    const raw = await this.getItem('active_focus_session');
+    if (!raw) return null;
+    try {
+      return typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch (error) {
+      console.error('Error parsing focus session journal:', error);
+      return null;
+    }
+  }
+
+  async saveFocusSessionJournal(journal: FocusSessionJournal): Promise<void> {
+    return this.setItem('active_focus_session', journal);
+  }
+
+  async clearFocusSessionJournal(): Promise<void> {
+    await this.invalidateCacheEntry('active_focus_session');
+    return this.removeItem('active_focus_session');
+  }
+
+  /**
+   * User-defined focus protocols (built-ins live in FocusProtocols)
+   */
+  async getCustomFocusProtocols(): Promise<FocusProtocol[]> {
+    const raw = await this.getItem('focus_protocols');
+    if (!raw) return [];
+    try {
+      const parsed = typeof raw === 'string' ? JSON.parse(raw) : raw;
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Error parsing focus protocols:', error);
+      return [];
+    }
+  }
+
+  async saveCustomFocusProtocols(protocols: FocusProtocol[]): Promise<void> {
+    return this.setItem('focus_protocols', protocols);
+  }
+
+  /**
+   * Today's focus plan; dates come back as strings and are revived by
+   * FocusDayPlannerService
+   */
+  async getFocusDayPlan(): Promise<FocusDayPlan | null> {
+    const raw = await this.getItem('focus_day_plan');
+    if (!raw) return null;
+    try {
+      return typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch (error) {
+      console.error('Error parsing focus day plan:', error);
+      return null;
+    }
+  }
+
+  async saveFocusDayPlan(plan: FocusDayPlan): Promise<void> {
+    return this.setItem('focus_day_plan', plan);
+  }
+
   // ==================== USER PROFILE METHODS ====================
 
   /**
@@ -231,6 +231,7 @@ import {
   FocusHealthMetrics,
   LogicNode,
   EnhancedFlashcard,
+  StoredReviewLog,
 } from './StorageService';
 import pako from 'pako';
 import { ReadingSession, SourceLink } from '../learning/SpeedReadingService';
@@ -423,6 +424,21 @@ export class SupabaseStorageService {
         stability: card.stability,
         focusSessionStrength: card.focus_strength || 0,
         distractionWeakening: 0,
+        ...(card.fsrs_difficulty != null ? { fsrsDifficulty: card.fsrs_difficulty } : {}),
+        ...(card.fsrs_state != null ? { state: card.fsrs_state } : {}),
+        ...(card.repetitions != null ? { repetitions: card.repetitions } : {}),
+        ...(card.lapses != null ? { lapses: card.lapses } : {}),
+        ...(card.last_reviewed_at ? { lastReviewed: new Date(card.last_reviewed_at) } : {}),
+        ...(card.note_id ? {
+          noteId: card.note_id,
+          noteType: card.note_type || 'basic',
+          ordinal: card.card_ordinal ?? 0,
+        } : {}),
+        ...(card.note_data?.note ? { note: card.note_data.note } : {}),
+        ...(card.note_data?.occlusion ? { occlusion: card.note_data.occlusion } : {}),
+        ...(card.note_data?.source ? { source: card.note_data.source } : {}),
+        ...(card.buried_until ? { buriedUntil: new Date(card.buried_until) } : {}),
+        ...(card.suspended ? { suspended: true } : {}),
       }));
     } catch (error) {
       // If user not authenticated, return empty array instead of throwing
@@ -450,6 +466,19 @@ export class SupabaseStorageService {
         stability: (card as EnhancedFlashcard).stability,
         focus_strength: (card as EnhancedFlashcard).focusSessionStrength || 0,
         created_at: this.toISO((card as any).created),
+        fsrs_difficulty: card.fsrsDifficulty ?? null,
+        fsrs_state: card.state ?? null,
+        repetitions: card.repetitions ?? 0,
+        lapses: card.lapses ?? 0,
+        last_reviewed_at: card.lastReviewed ? this.toISO(card.lastReviewed) : null,
+        note_id: card.noteId ?? null,
+        note_type: card.noteType ?? 'basic',
+        card_ordinal: card.ordinal ?? 0,
+        note_data: card.note || card.occlusion || card.source
+          ? { note: card.note ?? null, occlusion: card.occlusion ?? null, source: card.source ?? null }
+          : null,
+        buried_until: card.buriedUntil ? this.toISO(card.buriedUntil) : null,
+        suspended: card.suspended ?? false,
       }));
 
       const { error } = await supabase
@@ -662,6 +691,7 @@ export class SupabaseStorageService {
             sessionId: d.session_id,
             timestamp: new Date(d.timestamp),
             triggerType: d.trigger_type,
+            ...(d.app_name ? { appName: d.app_name } : {}),
           })),
         selfReportFocus: session.self_report_focus,
         completionRate: 1.0,
@@ -701,6 +731,7 @@ export class SupabaseStorageService {
           session_id: session.id,
           timestamp: event.timestamp.toISOString(),
           trigger_type: event.triggerType || 'unknown',
+          ...(event.appName ? { app_name: event.appName } : {}),
         }));
 
         const { error: distractionError } = await supabase
@@ -724,6 +755,7 @@ export class SupabaseStorageService {
         distraction_type: 'internal', // Default type, can be enhanced
         duration_ms: 0, // Default duration, can be calculated
         severity: 'low', // Default severity
+        ...(event.appName ? { app_name: event.appName } : {}),
         metadata: {
           trigger_type: event.triggerType || 'unknown',
           timestamp: event.timestamp.toISOString()
@@ -752,6 +784,7 @@ export class SupabaseStorageService {
         sessionId: event.session_id,
         timestamp: new Date(event.timestamp),
         triggerType: event.trigger_type,
+        ...(event.app_name ? { appName: event.app_name } : {}),
       }));
     } catch (error) {
       console.error('Error loading distraction events:', error);
@@ -1047,6 +1080,76 @@ export class SupabaseStorageService {
     }
   }
 
+  // ==================== REVIEW LOGS ====================
+
+  /**
+   * Review history in chronological order. PostgREST caps each response
+   * (1000 rows by default), so the history is read page by page.
+   */
+  async getReviewLogs(since?: Date): Promise<StoredReviewLog[]> {
+    const pageSize = 1000;
+    try {
+      const userId = await this.getCurrentUserId();
+      const rows: any[] = [];
+
+      for (let from = 0; ; from += pageSize) {
+        let query = supabase
+          .from('review_logs')
+          .select('*')
+          .eq('user_id', userId);
+        if (since) query = query.gte('reviewed_at', this.toISO(since));
+
+        const { data, error } = await query
+          .order('reviewed_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < pageSize) break;
+      }
+
+      return rows.map((log: any) => ({
+        id: log.id,
+        card_id: log.card_id,
+        rating: log.rating,
+        state: log.state,
+        elapsed_days: log.elapsed_days,
+        scheduled_days: log.scheduled_days,
+        review: new Date(log.reviewed_at),
+      }));
+    } catch (error) {
+      console.error('Error loading review logs:', error);
+      throw error;
+    }
+  }
+
+  async saveReviewLogs(logs: StoredReviewLog[]): Promise<void> {
+    try {
+      const userId = await this.getCurrentUserId();
+
+      const logData = logs.map(log => ({
+        id: log.id,
+        user_id: userId,
+        card_id: log.card_id,
+        rating: log.rating,
+        state: log.state,
+        elapsed_days: log.elapsed_days,
+        scheduled_days: log.scheduled_days,
+        reviewed_at: this.toISO(log.review),
+      }));
+
+      const { error } = await supabase
+        .from('review_logs')
+        .upsert(logData, { onConflict: 'user_id,id' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving review logs:', error);
+      throw new Error(`Failed to save review logs: ${error}`);
+    }
+  }
+
   // ==================== UTILITY METHODS ====================
 
   async clearAllData(): Promise<void> {
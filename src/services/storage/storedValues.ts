@@ -0,0 +1,33 @@
+/**
+ * Helpers shared by services that keep per-user state in HybridStorageService
+ */
+
+import SupabaseService from './SupabaseService';
+
+/**
+ * Decode a value read back from storage. Some tiers return the JSON string,
+ * others the already-parsed object; unreadable values come back as null.
+ */
+export function parseStored<T>(raw: unknown): T | null {
+  if (raw === null || raw === undefined) return null;
+  if (typeof raw !== 'string') return raw as T;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Id used to scope per-user storage keys: the explicit id, the signed-in
+ * Supabase user, or 'local' when signed out or offline
+ */
+export async function resolveUserId(userId?: string): Promise<string> {
+  if (userId) return userId;
+  try {
+    const user = await SupabaseService.getInstance().getCurrentUser();
+    return user?.id ?? 'local';
+  } catch {
+    return 'local';
+  }
+}
@@ -0,0 +1,45 @@
+import { validateMemoryPalace } from './memoryPalaceValidator';
+
+describe('validateMemoryPalace', () => {
+  it('keeps the FSRS scheduling fields ReviewScheduler writes on memory items', () => {
+    const nextReview = new Date('2025-03-01T09:00:00Z');
+    const stored = JSON.parse(
+      JSON.stringify({
+        id: 'palace_1',
+        name: 'Childhood home',
+        locations: [
+          {
+            id: 'loc_1',
+            name: 'Front door',
+            items: [
+              {
+                id: 'item_1',
+                content: 'Mitochondria',
+                nextReview,
+                interval: 6,
+                stability: 5.8,
+                fsrsDifficulty: 4.2,
+                state: 2,
+                lapses: 1,
+              },
+            ],
+          },
+        ],
+      }),
+    );
+
+    const palace = validateMemoryPalace(stored);
+    const item = palace?.locations?.[0]?.items?.[0];
+
+    expect(item).toEqual({
+      id: 'item_1',
+      content: 'Mitochondria',
+      nextReview,
+      interval: 6,
+      stability: 5.8,
+      fsrsDifficulty: 4.2,
+      state: 2,
+      lapses: 1,
+    });
+  });
+});
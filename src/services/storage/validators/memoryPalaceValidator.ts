@@ -13,6 +13,12 @@ const MemoryItemSchema = z.object({
   created: z.preprocess((arg) => (arg ? new Date(arg as any) : new Date()), z.date()).optional(),
   reviewCount: z.number().optional(),
   mastered: z.boolean().optional(),
+  nextReview: z.preprocess((arg) => (arg ? new Date(arg as any) : undefined), z.date().optional()),
+  interval: z.number().optional(),
+  stability: z.number().optional(),
+  fsrsDifficulty: z.number().optional(),
+  state: z.number().optional(),
+  lapses: z.number().optional(),
 });
 
 const MemoryLocationSchema = z.object({
@@ -23,6 +29,7 @@ const MemoryLocationSchema = z.object({
   imageUrl: z.string().optional(),
   description: z.string().optional(),
   order: z.number().optional(),
+  roomId: z.string().optional(),
 });
 
 export const MemoryPalaceSchema = z.object({
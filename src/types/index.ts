@@ -25,6 +25,58 @@ export interface Flashcard {
   state?: number;
   lapses?: number;
   isAiGenerated?: boolean;
+  // note-type metadata: cards generated from one note are siblings
+  noteId?: string;
+  noteType?: FlashcardNoteType;
+  ordinal?: number; // cloze number, 0/1 for forward/reverse, region index for occlusion
+  note?: FlashcardNoteSource; // source fields, used to regenerate siblings on edit
+  occlusion?: ImageOcclusionMask;
+  buriedUntil?: string | Date; // hidden from due queues until this time
+  suspended?: boolean; // hidden from due queues until unsuspended, e.g. suspended in Anki
+  source?: FlashcardSource; // where the card was captured, e.g. a reading highlight
+}
+
+// Reading session a card was created from
+export interface FlashcardSource {
+  type: 'reading_highlight';
+  sessionId?: string;
+  textSource: string; // ReadingSession.textSource
+  highlightId?: string;
+  documentId?: string;
+  chapterIndex?: number;
+}
+
+export type FlashcardNoteType = 'basic' | 'reversed' | 'cloze' | 'image-occlusion';
+
+// Region rectangle as fractions (0-1) of the image's width/height
+export interface OcclusionRegion {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+}
+
+export interface ImageOcclusionMask {
+  imageUri: string;
+  regions: OcclusionRegion[];
+  targetRegionId: string; // the region this card asks about; others stay masked
+}
+
+export interface FlashcardNoteSource {
+  front: string; // cloze: text with {{c1::...}} deletions; occlusion: prompt/header
+  back: string; // reversed: second side; cloze/occlusion: extra info
+  imageUri?: string;
+  regions?: OcclusionRegion[];
+}
+
+export interface FlashcardNote extends FlashcardNoteSource {
+  id: string;
+  type: FlashcardNoteType;
+  category?: string;
+  tags?: string[];
+  created: Date;
 }
 
 export interface Task {
@@ -81,6 +133,7 @@ export interface MemoryLocation {
   imageUrl?: string;
   description?: string;
   order: number;
+  roomId?: string; // MemoryRoom the location belongs to, if any
 }
 
 export interface MemoryPalace {
@@ -121,6 +174,13 @@ export interface MemoryItem {
   created?: Date;
   reviewCount?: number;
   mastered?: boolean;
+  // FSRS scheduling, maintained by ReviewScheduler
+  nextReview?: Date;
+  interval?: number;
+  stability?: number;
+  fsrsDifficulty?: number;
+  state?: number;
+  lapses?: number;
 }
 
 export interface ProgressData {
@@ -8,13 +8,13 @@
 // ==================== PHYSICS WORKER MESSAGES ====================
 
 export interface PhysicsWorkerMessage {
-  type: 'init' | 'update_graph' | 'simulate_step' | 'update_context' | 'get_positions' | 'dispose';
+  type: 'init' | 'update_graph' | 'patch_graph' | 'simulate_step' | 'update_context' | 'get_positions' | 'dispose';
   id: string; // Message ID for correlation
   data: any;
 }
 
 export interface PhysicsWorkerResponse {
-  type: 'initialized' | 'graph_updated' | 'step_completed' | 'positions_updated' | 'context_updated' | 'disposed' | 'error';
+  type: 'initialized' | 'graph_updated' | 'graph_patched' | 'step_completed' | 'positions_updated' | 'context_updated' | 'disposed' | 'error';
   id: string;
   data: any;
   error?: string;
@@ -97,6 +97,14 @@ export interface UpdateGraphMessageData {
   links: WorkerLink[];
 }
 
+// Incremental graph change; existing nodes keep their positions
+export interface PatchGraphMessageData {
+  upsertNodes: WorkerNode[];
+  removeNodeIds: string[];
+  upsertLinks: WorkerLink[];
+  removeLinkIds: string[];
+}
+
 export interface SimulateStepMessageData {
   deltaTime: number;
   currentTime: number;
@@ -208,7 +216,7 @@ export const createAnalyticsMessage = (
 
 // Type guards
 export const isPhysicsMessage = (msg: any): msg is PhysicsWorkerMessage => {
-  return msg && typeof msg.type === 'string' && ['init', 'update_graph', 'simulate_step', 'update_context', 'get_positions', 'dispose'].includes(msg.type);
+  return msg && typeof msg.type === 'string' && ['init', 'update_graph', 'patch_graph', 'simulate_step', 'update_context', 'get_positions', 'dispose'].includes(msg.type);
 };
 
 export const isAnalyticsMessage = (msg: any): msg is AnalyticsWorkerMessage => {
@@ -216,7 +224,7 @@ export const isAnalyticsMessage = (msg: any): msg is AnalyticsWorkerMessage => {
 };
 
 export const isPhysicsResponse = (msg: any): msg is PhysicsWorkerResponse => {
-  return msg && typeof msg.type === 'string' && ['initialized', 'graph_updated', 'step_completed', 'positions_updated', 'context_updated', 'disposed', 'error'].includes(msg.type);
+  return msg && typeof msg.type === 'string' && ['initialized', 'graph_updated', 'graph_patched', 'step_completed', 'positions_updated', 'context_updated', 'disposed', 'error'].includes(msg.type);
 };
 
 export const isAnalyticsResponse = (msg: any): msg is AnalyticsWorkerResponse => {
@@ -18,6 +18,7 @@ import {
   WorkerPhysicsState,
   InitMessageData,
   UpdateGraphMessageData,
+  PatchGraphMessageData,
   SimulateStepMessageData,
   UpdateContextMessageData,
   PositionsResponseData,
@@ -447,6 +448,92 @@ function handleUpdateGraph(data: UpdateGraphMessageData, messageId: string): voi
   }
 }
 
+/**
+ * Handle incremental graph patch. Unlike update_graph, surviving nodes keep
+ * their positions and velocities and the simulation is only reheated gently,
+ * so the layout does not jump.
+ */
+function handlePatchGraph(data: PatchGraphMessageData, messageId: string): void {
+  lastOperationTime = Date.now();
+
+  try {
+    // D3 replaces link endpoints with node objects once the simulation runs
+    const endpointId = (endpoint: any): string =>
+      typeof endpoint === 'string' ? endpoint : endpoint?.id;
+
+    const removedNodes = new Set(data.removeNodeIds);
+    const removedLinks = new Set(data.removeLinkIds);
+    const nodeById = new Map<string, WorkerNode>();
+    nodes = nodes.filter(node => !removedNodes.has(node.id));
+    nodes.forEach(node => nodeById.set(node.id, node));
+
+    const upsertLinks = new Map(data.upsertLinks.map(link => [link.id, link]));
+    links = links.filter(link =>
+      !removedLinks.has(link.id) &&
+      !upsertLinks.has(link.id) &&
+      !removedNodes.has(endpointId(link.source)) &&
+      !removedNodes.has(endpointId(link.target))
+    );
+
+    data.upsertNodes.forEach(incoming => {
+      const existing = nodeById.get(incoming.id);
+      if (existing) {
+        // Keep the simulated position, take everything else
+        Object.assign(existing, { ...incoming, x: existing.x, y: existing.y, vx: existing.vx, vy: existing.vy });
+        return;
+      }
+
+      // Seed new nodes next to a neighbour so they settle in place
+      const neighbourLink = data.upsertLinks.find(link =>
+        (link.source === incoming.id && nodeById.has(link.target)) ||
+        (link.target === incoming.id && nodeById.has(link.source))
+      );
+      const neighbour = neighbourLink
+        ? nodeById.get(neighbourLink.source === incoming.id ? neighbourLink.target : neighbourLink.source)
+        : undefined;
+      const node: WorkerNode = neighbour
+        ? { ...incoming, x: neighbour.x + (Math.random() - 0.5) * 40, y: neighbour.y + (Math.random() - 0.5) * 40, vx: 0, vy: 0 }
+        : { ...incoming };
+      nodes.push(node);
+      nodeById.set(node.id, node);
+    });
+
+    upsertLinks.forEach(link => {
+      if (nodeById.has(link.source) && nodeById.has(link.target)) {
+        links.push({ ...link });
+      }
+    });
+
+    if (!simulation) {
+      initializeD3Simulation();
+    } else {
+      simulation.nodes(nodes);
+      (simulation.force('link') as d3.ForceLink<WorkerNode, WorkerLink> | undefined)?.links(links);
+      // Gentle reheat; the manual tick loop picks it up
+      simulation.alpha(Math.max(simulation.alpha(), 0.3));
+    }
+
+    if (physicsState) {
+      physicsState.nodeCount = nodes.length;
+      physicsState.linkCount = links.length;
+    }
+
+    console.log(`🔬 Graph patched: +${data.upsertNodes.length} -${data.removeNodeIds.length} nodes, ${links.length} links`);
+
+    postMessage({
+      type: 'graph_patched',
+      id: messageId,
+      data: { nodeCount: nodes.length, linkCount: links.length },
+    } as PhysicsWorkerResponse);
+  } catch (error) {
+    postMessage({
+      type: 'error',
+      id: messageId,
+      error: `Graph patch failed: ${(error as Error).message}`,
+    } as PhysicsWorkerResponse);
+  }
+}
+
 /**
  * Handle simulation step message
  */
@@ -596,6 +683,10 @@ self.onmessage = function(e: MessageEvent) {
         handleUpdateGraph(message.data, message.id);
         break;
 
+      case 'patch_graph':
+        handlePatchGraph(message.data, message.id);
+        break;
+
       case 'simulate_step':
         handleSimulateStep(message.data, message.id);
         break;
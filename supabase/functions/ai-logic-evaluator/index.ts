@@ -22,6 +22,27 @@ interface LogicEvaluationRequest {
   encouragementLevel?: number;
 }
 
+// Synapse Builder micro-task grading; shares the Gemini call and retries
+interface MicroTaskEvaluationRequest {
+  mode: 'micro_task';
+  taskType: string;
+  prompt: string;
+  expectedResponse: string;
+  successCriteria: string[];
+  response: string;
+  sourceLabel?: string;
+  targetLabel?: string;
+  strictnessLevel?: number;
+}
+
+// What the client receives for a micro-task: one entry per success criterion
+interface MicroTaskGrade {
+  score: number; // 0-100
+  criteria: { criterion: string; met: boolean; comment: string }[];
+  feedback: string;
+  suggestions: string[];
+}
+
 Deno.serve(async (req: Request) => {
   try {
     // Auth check
@@ -40,6 +61,8 @@ Deno.serve(async (req: Request) => {
     }
 
     // Parse request
+    const body = await req.json();
+    const microTask: MicroTaskEvaluationRequest | null = body?.mode === 'micro_task' ? body : null;
     const {
       premise1,
       premise2,
@@ -48,10 +71,10 @@ Deno.serve(async (req: Request) => {
       domain,
       strictnessLevel = 0.7,
       encouragementLevel = 0.8
-    }: LogicEvaluationRequest = await req.json();
+    }: LogicEvaluationRequest = body;
 
     // Create comprehensive AI prompt for logic and grammar evaluation
-    const prompt = `
+    const prompt = microTask ? buildMicroTaskPrompt(microTask) : `
 You are an expert logic and English tutor. Evaluate this ${exerciseType} reasoning exercise and provide comprehensive feedback.
 
 EXERCISE:
@@ -150,7 +173,9 @@ Be ${strictnessLevel > 0.5 ? 'strict but constructive' : 'gentle and encouraging
           }
 
           // Validate and clean the response
-          const cleanedResponse = validateAndCleanResponse(evaluationData);
+          const cleanedResponse = microTask
+            ? validateMicroTaskResponse(evaluationData, microTask.successCriteria)
+            : validateAndCleanResponse(evaluationData);
 
           return new Response(JSON.stringify(cleanedResponse), {
             headers: { "Content-Type": "application/json" },
@@ -187,7 +212,8 @@ Be ${strictnessLevel > 0.5 ? 'strict but constructive' : 'gentle and encouraging
     // All retries exhausted - return fallback
     return new Response(JSON.stringify({
       error: `Failed to evaluate logic after ${maxRetries} attempts: ${lastError}`,
-      fallback: getFallbackEvaluation(premise1, premise2, conclusion, exerciseType)
+      // Micro-task clients grade offline instead
+      fallback: microTask ? null : getFallbackEvaluation(premise1, premise2, conclusion, exerciseType)
     }), { status: 500 });
 
     } catch (error: any) {
@@ -253,6 +279,62 @@ function validateAndCleanResponse(data: any): any {
   };
 }
 
+/**
+ * Prompt for grading a Synapse Builder micro-task response
+ */
+function buildMicroTaskPrompt(task: MicroTaskEvaluationRequest): string {
+  const criteria = (Array.isArray(task.successCriteria) ? task.successCriteria : [])
+    .map((criterion, i) => `${i + 1}. ${criterion}`)
+    .join('\n');
+  const strictness = task.strictnessLevel ?? 0.7;
+
+  return `
+You are a learning-science tutor grading a short "${task.taskType}" exercise that strengthens the connection between two concepts${task.sourceLabel && task.targetLabel ? `: "${task.sourceLabel}" and "${task.targetLabel}"` : ''}.
+
+TASK: ${task.prompt}
+WHAT A GOOD ANSWER COVERS: ${task.expectedResponse}
+SUCCESS CRITERIA:
+${criteria}
+
+LEARNER RESPONSE:
+${task.response}
+
+Respond with EXACTLY this JSON structure:
+
+{
+  "score": 0-100,
+  "criteria": [
+    { "criterion": "criterion text as given", "met": boolean, "comment": "one sentence" }
+  ],
+  "feedback": "two sentences of feedback addressed to the learner",
+  "suggestions": ["1-3 specific improvements"]
+}
+
+Grade every criterion in order. Be ${strictness > 0.5 ? 'strict but constructive' : 'gentle and encouraging'}.
+`;
+}
+
+/**
+ * Validate the micro-task grade so the client can rely on its shape
+ */
+function validateMicroTaskResponse(data: Record<string, unknown>, successCriteria: string[]): MicroTaskGrade {
+  const criteria = Array.isArray(successCriteria) ? successCriteria : [];
+  const graded: ({ met?: unknown; comment?: unknown } | null)[] = Array.isArray(data.criteria) ? data.criteria : [];
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(Number(data.score) || 0))),
+    criteria: criteria.map((criterion: string, i: number) => ({
+      criterion,
+      met: Boolean(graded[i]?.met),
+      comment: String(graded[i]?.comment || ''),
+    })),
+    feedback: String(data.feedback || ''),
+    suggestions: Array.isArray(data.suggestions)
+      ? data.suggestions.map((s: unknown) => String(s)).slice(0, 3)
+      : [],
+  };
+}
+
 /**
  * Fallback evaluation when AI fails
  */
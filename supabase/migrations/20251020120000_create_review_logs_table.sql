@@ -0,0 +1,31 @@
+-- ==============================
+-- NeuroLearn App - FSRS Review Logs Table
+-- Durable per-review history used for retention analytics and weight optimization
+-- ==============================
+
+-- Log ids are deterministic (card id + review time, or Anki revlog ids on
+-- import), so they are only unique per user
+CREATE TABLE IF NOT EXISTS review_logs (
+    id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+    card_id TEXT NOT NULL,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 4),
+    state SMALLINT NOT NULL CHECK (state BETWEEN 0 AND 3),
+    elapsed_days INTEGER NOT NULL DEFAULT 0,
+    scheduled_days INTEGER NOT NULL DEFAULT 0,
+    reviewed_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (user_id, id)
+);
+
+-- Row Level Security
+ALTER TABLE review_logs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage own review logs" ON review_logs FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_review_logs_card_id ON review_logs(user_id, card_id);
+CREATE INDEX IF NOT EXISTS idx_review_logs_reviewed_at ON review_logs(user_id, reviewed_at);
+
+-- ==============================
+-- ✅ Review Logs Schema Complete
+-- ==============================
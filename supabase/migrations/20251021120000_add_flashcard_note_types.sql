@@ -0,0 +1,24 @@
+-- ==============================
+-- NeuroLearn App - Flashcard Note Types
+-- Cloze, reversed and image-occlusion notes generate sibling cards that each
+-- keep their own FSRS state
+-- ==============================
+
+ALTER TABLE flashcards
+ADD COLUMN IF NOT EXISTS note_id TEXT,
+ADD COLUMN IF NOT EXISTS note_type TEXT DEFAULT 'basic' CHECK (note_type IN ('basic', 'reversed', 'cloze', 'image-occlusion')),
+ADD COLUMN IF NOT EXISTS card_ordinal INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS note_data JSONB,
+ADD COLUMN IF NOT EXISTS buried_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS fsrs_difficulty REAL,
+ADD COLUMN IF NOT EXISTS fsrs_state SMALLINT CHECK (fsrs_state BETWEEN 0 AND 3),
+ADD COLUMN IF NOT EXISTS repetitions INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS lapses INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMPTZ;
+
+-- Sibling lookup for burying
+CREATE INDEX IF NOT EXISTS idx_flashcards_note_id ON flashcards(user_id, note_id);
+
+-- ==============================
+-- ✅ Flashcard Note Types Complete
+-- ==============================
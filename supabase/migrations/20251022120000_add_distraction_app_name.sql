@@ -0,0 +1,15 @@
+-- ==============================
+-- NeuroLearn App - Distraction App Name
+-- The app that pulled attention away, when the user names it; the
+-- distraction miner groups events by it
+-- ==============================
+
+ALTER TABLE distraction_events
+ADD COLUMN IF NOT EXISTS app_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_distraction_events_app_name ON distraction_events(user_id, app_name)
+WHERE app_name IS NOT NULL;
+
+-- ==============================
+-- ✅ Distraction App Name Complete
+-- ==============================
@@ -0,0 +1,12 @@
+-- ==============================
+-- NeuroLearn App - Suspended Flashcards
+-- Suspended cards (e.g. imported suspended from Anki) stay out of every due
+-- queue until they are unsuspended
+-- ==============================
+
+ALTER TABLE flashcards
+ADD COLUMN IF NOT EXISTS suspended BOOLEAN DEFAULT FALSE;
+
+-- ==============================
+-- ✅ Suspended Flashcards Complete
+-- ==============================